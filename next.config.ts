@@ -4,6 +4,8 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true, // Temporarily disable ESLint during builds for testing
   },
+  // Loads its WebAssembly binary from node_modules at runtime
+  serverExternalPackages: ['sql.js'],
 };
 
 export default nextConfig;
@@ -0,0 +1,137 @@
+// Service worker: shows web push notifications sent by /api/notifications and opens their link on click, and
+// keeps the app usable offline. The app shell and build assets are cached here; pages, lessons, quizzes and due
+// cards live in IndexedDB (src/lib/offline-sync.ts), which asks this worker to cache their media.
+// Served with no-cache (vercel.json) so a new version is picked up on the next page load.
+
+const CACHE_VERSION = 'v1'
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const ASSET_CACHE = `assets-${CACHE_VERSION}`
+const MEDIA_CACHE = `media-${CACHE_VERSION}`
+const SHELL_URLS = ['/', '/analytics', '/learning-paths']
+const MAX_MEDIA_ENTRIES = 60
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(SHELL_CACHE)
+    // One unreachable page should not keep the worker from installing
+    await Promise.all(SHELL_URLS.map(url => cache.add(url).catch(() => undefined)))
+    await self.skipWaiting()
+  })())
+})
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const current = [SHELL_CACHE, ASSET_CACHE, MEDIA_CACHE]
+    const names = await caches.keys()
+    await Promise.all(names.filter(name => !current.includes(name)).map(name => caches.delete(name)))
+    await self.clients.claim()
+  })())
+})
+
+async function trimCache(name, maxEntries) {
+  const cache = await caches.open(name)
+  const keys = await cache.keys()
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)))
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  // Partial (206) responses to video range requests cannot be cached
+  if (response.status === 200) {
+    const cache = await caches.open(cacheName)
+    await cache.put(request, response.clone())
+    if (cacheName === MEDIA_CACHE) await trimCache(MEDIA_CACHE, MAX_MEDIA_ENTRIES)
+  }
+  return response
+}
+
+// Navigations prefer fresh HTML and fall back to the last copy of the page, then to the home page shell
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  try {
+    const response = await fetch(request)
+    if (response.ok) await cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached = (await cache.match(request)) || (await cache.match('/'))
+    if (cached) return cached
+    throw error
+  }
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  if (request.method !== 'GET') return
+
+  const url = new URL(request.url)
+  // API calls are never served from cache: offline writes go through the IndexedDB outbox instead
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request))
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request, ASSET_CACHE))
+  } else if (['image', 'video', 'audio'].includes(request.destination)) {
+    event.respondWith(cacheFirst(request, MEDIA_CACHE))
+  }
+})
+
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'PRECACHE_URLS' || !Array.isArray(event.data.urls)) return
+
+  event.waitUntil((async () => {
+    const cache = await caches.open(MEDIA_CACHE)
+    for (const url of event.data.urls) {
+      if (await cache.match(url)) continue
+      try {
+        const response = await fetch(url)
+        if (response.status === 200) await cache.put(url, response)
+      } catch {
+        // Offline again or the media is gone; the page still renders without it
+      }
+    }
+    await trimCache(MEDIA_CACHE, MAX_MEDIA_ENTRIES)
+  })())
+})
+
+// Background Sync fires once connectivity returns; an open tab replays its outbox (IndexedDB and auth live there)
+self.addEventListener('sync', event => {
+  if (event.tag !== 'replay-outbox') return
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window' })
+    windows.forEach(client => client.postMessage({ type: 'REPLAY_OUTBOX' }))
+  })())
+})
+
+self.addEventListener('push', event => {
+  let payload = {}
+  try {
+    payload = event.data ? event.data.json() : {}
+  } catch {
+    payload = { title: 'Learning Platform', body: event.data ? event.data.text() : '' }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Learning Platform', {
+      body: payload.body || '',
+      tag: payload.id,
+      data: { url: payload.url || '/', id: payload.id }
+    })
+  )
+})
+
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+  const target = new URL(event.notification.data?.url || '/', self.location.origin).href
+
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+    const open = windows.find(client => client.url === target)
+    if (open) return open.focus()
+    return self.clients.openWindow(target)
+  })())
+})
@@ -0,0 +1,12 @@
+// Generate the Ed25519 key that signs compliance certificates and reports
+// Run with: node scripts/generate-certificate-key.js
+//
+// Prints the environment variable to set. When replacing a key, add the old key's public half (printed
+// below) to CERTIFICATE_RETIRED_PUBLIC_KEYS so certificates and badges signed with it keep verifying.
+
+const crypto = require('crypto')
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519')
+
+console.log(`CERTIFICATE_SIGNING_KEY=${privateKey.export({ format: 'der', type: 'pkcs8' }).toString('base64')}`)
+console.log(`# public key, for CERTIFICATE_RETIRED_PUBLIC_KEYS once replaced: ${publicKey.export({ format: 'der', type: 'spki' }).toString('base64')}`)
@@ -0,0 +1,20 @@
+// Generate a VAPID key pair for web push notifications
+// Run with: node scripts/generate-vapid-keys.js
+//
+// Prints the environment variables to set. The public key is also handed to browsers when they
+// subscribe, so rotating it invalidates every existing push subscription.
+
+const crypto = require('crypto')
+
+function base64url(buffer) {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const ecdh = crypto.createECDH('prime256v1')
+ecdh.generateKeys()
+
+console.log(`VAPID_PUBLIC_KEY=${base64url(ecdh.getPublicKey())}`)
+// The private scalar can come back shorter than 32 bytes; push libraries expect it padded
+const privateKey = Buffer.concat([Buffer.alloc(32), ecdh.getPrivateKey()]).subarray(-32)
+console.log(`VAPID_PRIVATE_KEY=${base64url(privateKey)}`)
+console.log('VAPID_SUBJECT=mailto:you@example.com')
@@ -0,0 +1,303 @@
+// Local LTI 1.3 platform stand-in for testing the tool without a real LMS
+// Run with: node scripts/lti-platform-standin.js
+//
+// Plays the LMS side: OIDC login initiation, id_token launches (resource link and deep linking),
+// OAuth2 client credentials for LTI Advantage and an in-memory Assignment and Grade Services store.
+// Register the printed platform with the `register_lti_platform` action, then open
+// http://localhost:9001/ to launch.
+
+const http = require('http')
+const crypto = require('crypto')
+
+const PORT = Number(process.env.PORT || 9001)
+const PLATFORM_URL = process.env.PLATFORM_URL || `http://localhost:${PORT}`
+const TOOL_URL = (process.env.TOOL_URL || 'http://localhost:3000').replace(/\/$/, '')
+const CLIENT_ID = process.env.CLIENT_ID || 'standin-client'
+const DEPLOYMENT_ID = process.env.DEPLOYMENT_ID || 'standin-deployment'
+const CONTEXT_ID = process.env.CONTEXT_ID || 'standin-course-1'
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+const KID = 'standin-key'
+const publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' }
+
+// Launch users: pass ?user=<key> on the launch page. Emails must match tool-side students/instructors.
+const USERS = {
+  instructor: {
+    sub: 'standin-instructor',
+    name: 'Ada Instructor',
+    email: process.env.INSTRUCTOR_EMAIL || 'instructor@example.edu',
+    roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Instructor']
+  },
+  student: {
+    sub: 'standin-student',
+    name: 'Sam Student',
+    email: process.env.STUDENT_EMAIL || 'student@example.edu',
+    roles: ['http://purl.imsglobal.org/vocab/lis/v2/membership#Learner']
+  }
+}
+
+const pendingLogins = new Map() // login_hint -> launch request details
+const resourceLinks = [] // placed by deep linking
+const lineItems = new Map() // id -> line item
+const scores = [] // every score the tool publishes
+const accessTokens = new Set()
+
+// ==================================================================
+// JWT
+// ==================================================================
+
+function base64UrlJson(value) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+function signJwt(payload) {
+  const signingInput = `${base64UrlJson({ alg: 'RS256', typ: 'JWT', kid: KID })}.${base64UrlJson(payload)}`
+  const signature = crypto.sign('RSA-SHA256', Buffer.from(signingInput), privateKey)
+  return `${signingInput}.${signature.toString('base64url')}`
+}
+
+async function verifyToolJwt(token, expectedAudience) {
+  const [header, payload, signature] = token.split('.')
+  const { kid } = JSON.parse(Buffer.from(header, 'base64url').toString())
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString())
+
+  const { keys } = await (await fetch(`${TOOL_URL}/api/lti/jwks`)).json()
+  const jwk = keys.find(key => key.kid === kid)
+  if (!jwk) throw new Error(`Unknown tool key ${kid}`)
+
+  const valid = crypto.verify(
+    'RSA-SHA256',
+    Buffer.from(`${header}.${payload}`),
+    crypto.createPublicKey({ key: jwk, format: 'jwk' }),
+    Buffer.from(signature, 'base64url')
+  )
+  if (!valid) throw new Error('Invalid tool signature')
+  if (claims.iss !== CLIENT_ID) throw new Error('Tool JWT issuer mismatch')
+  if (claims.aud !== expectedAudience) throw new Error('Tool JWT audience mismatch')
+  if (claims.exp < Math.floor(Date.now() / 1000)) throw new Error('Tool JWT expired')
+  return claims
+}
+
+// ==================================================================
+// HTTP HELPERS
+// ==================================================================
+
+async function readBody(req) {
+  const chunks = []
+  for await (const chunk of req) chunks.push(chunk)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+function send(res, status, body, contentType = 'application/json') {
+  res.writeHead(status, { 'Content-Type': contentType })
+  res.end(typeof body === 'string' ? body : JSON.stringify(body, null, 2))
+}
+
+function escapeHtml(value) {
+  return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function autoSubmitForm(action, fields) {
+  const inputs = Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('')
+  return `<!DOCTYPE html><html><body><form id="f" method="POST" action="${escapeHtml(action)}">${inputs}</form><script>document.getElementById('f').submit()</script></body></html>`
+}
+
+function requireBearer(req) {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '')
+  return accessTokens.has(token)
+}
+
+// ==================================================================
+// PLATFORM ENDPOINTS
+// ==================================================================
+
+function renderHome() {
+  const links = resourceLinks.map((link, index) => `
+    <li>${escapeHtml(link.title)}
+      <a href="/launch?user=student&link=${index}">launch as student</a> |
+      <a href="/launch?user=instructor&link=${index}">launch as instructor</a></li>`).join('')
+  const gradebook = Array.from(lineItems.values()).map(item => {
+    const rows = scores.filter(score => score.lineItemId === item.id)
+      .map(score => `<li>${escapeHtml(score.userId)}: ${score.scoreGiven}/${score.scoreMaximum}</li>`).join('')
+    return `<li>${escapeHtml(item.label)} (max ${item.scoreMaximum})<ul>${rows}</ul></li>`
+  }).join('')
+
+  return `<!DOCTYPE html><html><body style="font-family:system-ui,sans-serif">
+    <h1>LTI platform stand-in</h1>
+    <p><a href="/launch?user=instructor&type=deep_link">Add content (deep linking, as instructor)</a></p>
+    <h2>Placed content</h2><ul>${links || '<li>None yet</li>'}</ul>
+    <h2>Gradebook</h2><ul>${gradebook || '<li>No line items yet</li>'}</ul>
+  </body></html>`
+}
+
+// Step 1: third-party initiated login towards the tool
+function startLaunch(res, query) {
+  const userKey = USERS[query.get('user')] ? query.get('user') : 'student'
+  const link = resourceLinks[Number(query.get('link'))]
+  const loginHint = crypto.randomUUID()
+
+  pendingLogins.set(loginHint, {
+    user: USERS[userKey],
+    messageType: query.get('type') === 'deep_link' ? 'LtiDeepLinkingRequest' : 'LtiResourceLinkRequest',
+    link
+  })
+
+  const login = new URL(`${TOOL_URL}/api/lti/login`)
+  login.searchParams.set('iss', PLATFORM_URL)
+  login.searchParams.set('login_hint', loginHint)
+  login.searchParams.set('target_link_uri', link?.url || `${TOOL_URL}/api/lti/launch`)
+  login.searchParams.set('client_id', CLIENT_ID)
+  login.searchParams.set('lti_deployment_id', DEPLOYMENT_ID)
+  res.writeHead(302, { Location: login.toString() })
+  res.end()
+}
+
+// Step 2: authentication response, posted to the tool's redirect_uri
+function authorize(res, query) {
+  const pending = pendingLogins.get(query.get('login_hint'))
+  pendingLogins.delete(query.get('login_hint'))
+  if (!pending) return send(res, 400, { error: 'Unknown login_hint' })
+  if (query.get('client_id') !== CLIENT_ID) return send(res, 400, { error: 'Unknown client_id' })
+
+  const now = Math.floor(Date.now() / 1000)
+  const lti = 'https://purl.imsglobal.org/spec/lti/claim/'
+  const claims = {
+    iss: PLATFORM_URL,
+    aud: CLIENT_ID,
+    sub: pending.user.sub,
+    name: pending.user.name,
+    email: pending.user.email,
+    iat: now,
+    exp: now + 300,
+    nonce: query.get('nonce'),
+    [`${lti}version`]: '1.3.0',
+    [`${lti}deployment_id`]: DEPLOYMENT_ID,
+    [`${lti}message_type`]: pending.messageType,
+    [`${lti}roles`]: pending.user.roles,
+    [`${lti}context`]: { id: CONTEXT_ID, label: 'STANDIN', title: 'Stand-in Course' },
+    [`${lti}target_link_uri`]: pending.link?.url || `${TOOL_URL}/api/lti/launch`,
+    'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint': {
+      scope: [
+        'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+        'https://purl.imsglobal.org/spec/lti-ags/scope/score'
+      ],
+      lineitems: `${PLATFORM_URL}/lineitems`,
+      ...(pending.link?.lineItemId ? { lineitem: pending.link.lineItemId } : {})
+    }
+  }
+
+  if (pending.messageType === 'LtiResourceLinkRequest') {
+    claims[`${lti}resource_link`] = { id: pending.link?.id || 'standin-link-default', title: pending.link?.title }
+    claims[`${lti}custom`] = pending.link?.custom || {}
+  } else {
+    claims['https://purl.imsglobal.org/spec/lti-dl/claim/deep_linking_settings'] = {
+      deep_link_return_url: `${PLATFORM_URL}/deep-link-return`,
+      accept_types: ['ltiResourceLink'],
+      accept_presentation_document_targets: ['iframe', 'window'],
+      accept_multiple: true,
+      data: crypto.randomUUID()
+    }
+  }
+
+  send(res, 200, autoSubmitForm(query.get('redirect_uri'), {
+    id_token: signJwt(claims),
+    state: query.get('state')
+  }), 'text/html')
+}
+
+async function deepLinkReturn(req, res) {
+  const form = new URLSearchParams(await readBody(req))
+  const claims = await verifyToolJwt(form.get('JWT'), PLATFORM_URL)
+  const items = claims['https://purl.imsglobal.org/spec/lti-dl/claim/content_items'] || []
+
+  for (const item of items) {
+    const link = { id: crypto.randomUUID(), title: item.title, url: item.url, custom: item.custom }
+    if (item.lineItem) {
+      const lineItem = { id: `${PLATFORM_URL}/lineitems/${crypto.randomUUID()}`, ...item.lineItem, resourceLinkId: link.id }
+      lineItems.set(lineItem.id, lineItem)
+      link.lineItemId = lineItem.id
+    }
+    resourceLinks.push(link)
+    console.log(`Placed "${item.title}"`, item.custom || {})
+  }
+
+  res.writeHead(303, { Location: '/' })
+  res.end()
+}
+
+async function issueToken(req, res) {
+  const form = new URLSearchParams(await readBody(req))
+  if (form.get('grant_type') !== 'client_credentials') {
+    return send(res, 400, { error: 'unsupported_grant_type' })
+  }
+  await verifyToolJwt(form.get('client_assertion'), `${PLATFORM_URL}/token`)
+
+  const token = crypto.randomBytes(24).toString('hex')
+  accessTokens.add(token)
+  send(res, 200, { access_token: token, token_type: 'Bearer', expires_in: 3600, scope: form.get('scope') })
+}
+
+async function lineItemsEndpoint(req, res, url) {
+  if (!requireBearer(req)) return send(res, 401, { error: 'invalid_token' })
+
+  // POST /lineitems/<id>/scores
+  const scoreMatch = url.pathname.match(/^\/lineitems\/([^/]+)\/scores$/)
+  if (scoreMatch && req.method === 'POST') {
+    const lineItemId = `${PLATFORM_URL}/lineitems/${scoreMatch[1]}`
+    if (!lineItems.has(lineItemId)) return send(res, 404, { error: 'Unknown line item' })
+    const score = JSON.parse(await readBody(req))
+    scores.push({ ...score, lineItemId })
+    console.log(`Score for ${score.userId} on "${lineItems.get(lineItemId).label}": ${score.scoreGiven}/${score.scoreMaximum}`)
+    res.writeHead(204)
+    return res.end()
+  }
+
+  if (url.pathname === '/lineitems' && req.method === 'GET') {
+    const resourceId = url.searchParams.get('resource_id')
+    return send(res, 200, Array.from(lineItems.values()).filter(item => !resourceId || item.resourceId === resourceId))
+  }
+
+  if (url.pathname === '/lineitems' && req.method === 'POST') {
+    const lineItem = { ...JSON.parse(await readBody(req)), id: `${PLATFORM_URL}/lineitems/${crypto.randomUUID()}` }
+    lineItems.set(lineItem.id, lineItem)
+    console.log(`Created line item "${lineItem.label}"`)
+    return send(res, 201, lineItem)
+  }
+
+  send(res, 404, { error: 'Not found' })
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, PLATFORM_URL)
+  try {
+    if (url.pathname === '/' && req.method === 'GET') return send(res, 200, renderHome(), 'text/html')
+    if (url.pathname === '/jwks') return send(res, 200, { keys: [publicJwk] })
+    if (url.pathname === '/launch') return startLaunch(res, url.searchParams)
+    if (url.pathname === '/auth') return authorize(res, url.searchParams)
+    if (url.pathname === '/deep-link-return' && req.method === 'POST') return await deepLinkReturn(req, res)
+    if (url.pathname === '/token' && req.method === 'POST') return await issueToken(req, res)
+    if (url.pathname.startsWith('/lineitems')) return await lineItemsEndpoint(req, res, url)
+    send(res, 404, { error: 'Not found' })
+  } catch (error) {
+    console.error(error)
+    send(res, 400, { error: error.message })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`LTI platform stand-in listening on ${PLATFORM_URL} (tool: ${TOOL_URL})`)
+  console.log('Register it with the curriculum-integration `register_lti_platform` action:')
+  console.log(JSON.stringify({
+    issuer: PLATFORM_URL,
+    clientId: CLIENT_ID,
+    deploymentIds: [DEPLOYMENT_ID],
+    authLoginUrl: `${PLATFORM_URL}/auth`,
+    accessTokenUrl: `${PLATFORM_URL}/token`,
+    keysetUrl: `${PLATFORM_URL}/jwks`,
+    lmsType: 'other',
+    name: 'Local stand-in',
+    institutionId: '<institution id>'
+  }, null, 2))
+})
@@ -0,0 +1,108 @@
+// Offline replay evaluation of candidate policies against logged decisions
+// Run with: REPLAY_ACCESS_TOKEN=<platform admin access token> node scripts/replay-evaluation.js --system model_routing
+//
+// Options:
+//   --system <name|all>   content_recommendations, model_routing, learning_sequencing or all (default all)
+//   --since <date>        only decisions made from this date (ISO)
+//   --until <date>        only decisions made up to this date (ISO)
+//   --policies <a,b>      candidate policies to compare, with a single --system (default every built-in candidate)
+//   --clip <n>            importance weight clip (default 20)
+//   --url <base>          app base URL (default http://localhost:3000)
+//   --json                print the raw reports instead of tables
+
+const SYSTEMS = ['content_recommendations', 'model_routing', 'learning_sequencing']
+
+function parseArgs(argv) {
+  const args = { system: 'all', url: process.env.APP_URL || 'http://localhost:3000', json: false }
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    if (flag === '--json') {
+      args.json = true
+    } else if (flag.startsWith('--')) {
+      args[flag.slice(2)] = argv[++i]
+    }
+  }
+  return args
+}
+
+function formatInterval(estimate) {
+  const [low, high] = estimate.confidenceInterval
+  return `${estimate.value.toFixed(3)} [${low.toFixed(3)}, ${high.toFixed(3)}]`
+}
+
+function printReport(report) {
+  console.log(`\n${report.system}: ${report.decisions} decisions, propensities ${report.propensitySource}`)
+  console.log(`Logged policy reward: ${formatInterval(report.loggedValue)}`)
+
+  const rows = report.estimates.map(estimate => ({
+    policy: estimate.policy,
+    'direct method': estimate.directMethod.value.toFixed(3),
+    'IPS (95% CI)': formatInterval(estimate.inversePropensity),
+    SNIPS: estimate.selfNormalized.toFixed(3),
+    'doubly robust (95% CI)': formatInterval(estimate.doublyRobust),
+    'lift vs logged': (estimate.liftOverLogged >= 0 ? '+' : '') + estimate.liftOverLogged.toFixed(3),
+    ESS: estimate.effectiveSampleSize.toFixed(1),
+    match: `${Math.round(estimate.matchRate * 100)}%`
+  }))
+  console.table(rows)
+
+  for (const warning of report.warnings) {
+    console.log(`  ! ${warning}`)
+  }
+}
+
+async function runReplay(args, system) {
+  const response = await fetch(`${args.url.replace(/\/$/, '')}/api/replay-evaluation`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${process.env.REPLAY_ACCESS_TOKEN}`
+    },
+    body: JSON.stringify({
+      system,
+      since: args.since,
+      until: args.until,
+      policies: args.policies ? args.policies.split(',') : undefined,
+      weightClip: args.clip ? Number(args.clip) : undefined
+    })
+  })
+
+  const data = await response.json()
+  if (!response.ok) {
+    throw new Error(`${system}: ${data.error || response.statusText}`)
+  }
+  return data.report
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+
+  if (!process.env.REPLAY_ACCESS_TOKEN) {
+    console.error('Missing REPLAY_ACCESS_TOKEN (a platform admin access token)')
+    process.exit(1)
+  }
+
+  if (args.policies && args.system === 'all') {
+    console.error('--policies needs a single --system, candidate policies differ between systems')
+    process.exit(1)
+  }
+
+  const systems = args.system === 'all' ? SYSTEMS : [args.system]
+  const reports = []
+  for (const system of systems) {
+    try {
+      reports.push(await runReplay(args, system))
+    } catch (error) {
+      console.error(error.message)
+      process.exitCode = 1
+    }
+  }
+
+  if (args.json) {
+    console.log(JSON.stringify(reports, null, 2))
+  } else {
+    reports.forEach(printReport)
+  }
+}
+
+main()
@@ -0,0 +1,105 @@
+// Local SMTP stand-in for testing notification email without a mail provider
+// Run with: node scripts/smtp-sink.js
+//
+// Accepts every message on localhost:2525 (no TLS, any AUTH), prints the envelope, subject and
+// decoded text part, and keeps the raw messages under ./.smtp-sink/ when SMTP_SINK_DIR is set.
+// Point the app at it with SMTP_HOST=localhost SMTP_PORT=2525 (and SMTP_ALLOW_PLAINTEXT_AUTH=true if SMTP_USER is set).
+
+const net = require('net')
+const fs = require('fs')
+const path = require('path')
+
+const PORT = Number(process.env.PORT || 2525)
+const SINK_DIR = process.env.SMTP_SINK_DIR
+
+let received = 0
+
+function decodeHeader(value) {
+  return value.replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_, encoded) => Buffer.from(encoded, 'base64').toString('utf8'))
+}
+
+function summarize(raw) {
+  const [head] = raw.split('\r\n\r\n')
+  const subject = (head.match(/^Subject: (.*)$/m) || [])[1] || ''
+  // First text/plain part of the multipart/alternative body
+  const textPart = raw.match(/Content-Type: text\/plain[^\r\n]*\r\nContent-Transfer-Encoding: base64\r\n\r\n([\s\S]*?)\r\n--/)
+  const text = textPart ? Buffer.from(textPart[1].replace(/\r\n/g, ''), 'base64').toString('utf8') : ''
+  return { subject: decodeHeader(subject), text }
+}
+
+const server = net.createServer(socket => {
+  let buffer = ''
+  let inData = false
+  let message = { from: '', to: [], lines: [] }
+
+  const reply = line => socket.write(`${line}\r\n`)
+  reply('220 smtp-sink ready')
+
+  socket.on('data', chunk => {
+    buffer += chunk.toString('utf8')
+    let index
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index)
+      buffer = buffer.slice(index + 2)
+
+      if (inData) {
+        if (line === '.') {
+          inData = false
+          received++
+          const raw = message.lines.join('\r\n')
+          const { subject, text } = summarize(raw)
+          console.log(`\n#${received} ${message.from} -> ${message.to.join(', ')}`)
+          console.log(`Subject: ${subject}`)
+          console.log(text.split('\n').map(textLine => `  ${textLine}`).join('\n'))
+          if (SINK_DIR) {
+            fs.mkdirSync(SINK_DIR, { recursive: true })
+            fs.writeFileSync(path.join(SINK_DIR, `${Date.now()}-${received}.eml`), raw)
+          }
+          message = { from: '', to: [], lines: [] }
+          reply('250 OK: queued')
+        } else {
+          // Undo dot-stuffing
+          message.lines.push(line.startsWith('..') ? line.slice(1) : line)
+        }
+        continue
+      }
+
+      const command = line.slice(0, 4).toUpperCase()
+      if (command === 'EHLO') {
+        reply('250-smtp-sink')
+        reply('250-AUTH PLAIN LOGIN')
+        reply('250 8BITMIME')
+      } else if (command === 'HELO') {
+        reply('250 smtp-sink')
+      } else if (command === 'AUTH') {
+        reply('235 Authentication successful')
+      } else if (command === 'MAIL') {
+        message.from = (line.match(/<([^>]*)>/) || [])[1] || ''
+        reply('250 OK')
+      } else if (command === 'RCPT') {
+        message.to.push((line.match(/<([^>]*)>/) || [])[1] || '')
+        reply('250 OK')
+      } else if (command === 'DATA') {
+        inData = true
+        reply('354 End data with <CR><LF>.<CR><LF>')
+      } else if (command === 'RSET') {
+        message = { from: '', to: [], lines: [] }
+        reply('250 OK')
+      } else if (command === 'NOOP') {
+        reply('250 OK')
+      } else if (command === 'QUIT') {
+        reply('221 Bye')
+        socket.end()
+      } else {
+        reply('502 Command not implemented')
+      }
+    }
+  })
+
+  socket.on('error', () => socket.destroy())
+})
+
+server.listen(PORT, () => {
+  console.log(`SMTP sink listening on localhost:${PORT}`)
+  console.log(`Use SMTP_HOST=localhost SMTP_PORT=${PORT}`)
+})
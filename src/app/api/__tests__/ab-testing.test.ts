@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/ab-testing/route'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/ab-testing'
+
+function post(body: Record<string, unknown>) {
+  return POST(jsonRequest(URL, body))
+}
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/ab-testing', () => {
+  it('requires a session', async () => {
+    expect((await post({ action: 'get_user_experiments' })).status).toBe(401)
+  })
+
+  it('records conversions and metrics for the signed-in user only', async () => {
+    signIn(session('ab-learner', 'student'))
+    const conversionData = { testId: 'test-1', userId: 'someone-else', goalId: 'signup' }
+    expect((await post({ action: 'track_conversion', conversionData })).status).toBe(403)
+    const metricData = { testId: 'test-1', userId: 'someone-else', metricName: 'minutes', value: 3 }
+    expect((await post({ action: 'track_metric', metricData })).status).toBe(403)
+
+    const response = await post({ action: 'get_user_experiments' })
+    expect(response.status).toBe(200)
+    expect((await response.json()).userExperiments).toEqual([])
+  })
+
+  it('keeps test management to platform admins', async () => {
+    signIn(session('ab-teacher', 'teacher'))
+    expect((await post({ action: 'get_tests' })).status).toBe(403)
+    expect((await post({ action: 'start_test', testId: 'test-1' })).status).toBe(403)
+
+    signIn(session('ab-root', 'super_admin'))
+    expect((await post({ action: 'get_tests' })).status).toBe(200)
+  })
+})
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/ai/generate-quiz/route'
+import { aiBudgetManager } from '@/lib/ai-budget-manager'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/ai/generate-quiz'
+
+function generateQuiz(topic: string) {
+  return POST(jsonRequest(URL, {
+    userProfile: { id: 'ignored', name: 'Ada', subject: 'mathematics', level: 'beginner', age_group: 'teen', use_case: 'student' },
+    topic,
+    difficulty: 'beginner',
+    questionCount: 1,
+    questionTypes: ['multiple_choice']
+  }))
+}
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/ai/generate-quiz', () => {
+  it('parses generated questions and charges the signed-in caller', async () => {
+    signIn(session('quiz-learner', 'student', { organizationId: 'quiz-org' }))
+
+    const response = await generateQuiz('Fractions')
+    expect(response.status).toBe(200)
+    const { questions } = await response.json()
+    expect(questions[0]).toMatchObject({ id: 'ai-q1', type: 'multiple_choice', points: 10 })
+
+    expect(aiBudgetManager.getUsageReport('user', 'quiz-learner').usage?.requests).toBe(1)
+    expect(aiBudgetManager.getUsageReport('organization', 'quiz-org').usage?.requests).toBe(1)
+  })
+
+  it('refuses callers past their quota', async () => {
+    signIn(session('quiz-capped', 'student'))
+    aiBudgetManager.setPolicy({ scope: 'user', scopeId: 'quiz-capped', period: 'monthly', maxTokens: 1 })
+
+    expect((await generateQuiz('Decimals')).status).toBe(200)
+    expect((await generateQuiz('Percentages')).status).toBe(429)
+  })
+})
@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/ai/usage/route'
+import { budgetContextFor } from '@/lib/ai-budget-manager'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/ai/usage'
+
+function setPolicy(scope: string, scopeId: string) {
+  return POST(jsonRequest(URL, { action: 'set_policy', policy: { scope, scopeId, period: 'monthly', maxTokens: 1000 } }))
+}
+
+const adminA = session('admin-a', 'admin', { organizationId: 'acme' })
+const learnerA = session('learner-a', 'student', { organizationId: 'acme' })
+const platformAdmin = session('root', 'super_admin')
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/ai/usage', () => {
+  it('requires a session', async () => {
+    expect((await setPolicy('organization', 'acme')).status).toBe(401)
+  })
+
+  it('lets org admins set their own organization quota only', async () => {
+    signIn(adminA)
+    expect((await setPolicy('organization', 'acme')).status).toBe(200)
+    expect((await setPolicy('organization', 'globex')).status).toBe(403)
+    expect((await setPolicy('user', 'learner-a')).status).toBe(403)
+    expect((await setPolicy('organization', '*')).status).toBe(403)
+  })
+
+  it('refuses learners and allows platform admins', async () => {
+    signIn(learnerA)
+    expect((await setPolicy('organization', 'acme')).status).toBe(403)
+
+    signIn(platformAdmin)
+    expect((await setPolicy('use_case', 'mathematics')).status).toBe(200)
+  })
+
+  it('checks removals against the stored policy', async () => {
+    signIn(platformAdmin)
+    await setPolicy('organization', 'globex')
+
+    signIn(adminA)
+    const response = await POST(jsonRequest(URL, { action: 'remove_policy', policyId: 'organization:globex:monthly' }))
+    expect(response.status).toBe(403)
+  })
+})
+
+describe('budgetContextFor', () => {
+  it('charges the session, not the profile a client sent', () => {
+    expect(budgetContextFor(learnerA, 'mathematics')).toEqual({ userId: 'learner-a', organizationId: 'acme', useCase: 'mathematics' })
+    expect(budgetContextFor(null, 'mathematics')).toEqual({ userId: undefined, organizationId: undefined, useCase: 'mathematics' })
+  })
+})
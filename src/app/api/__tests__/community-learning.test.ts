@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/community-learning/route'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/community-learning'
+
+const author = session('community-author', 'student')
+const stranger = session('community-stranger', 'student')
+
+function post(body: Record<string, unknown>) {
+  return POST(jsonRequest(URL, body))
+}
+
+const draft = {
+  postId: 'post-1',
+  communityId: 'community-1',
+  authorId: 'community-stranger',
+  content: 'Hello',
+  type: 'discussion',
+  metadata: { tags: [], isPinned: false, isLocked: false }
+}
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/community-learning', () => {
+  it('lets anyone browse but requires a session to act', async () => {
+    expect((await post({ action: 'get_trending_content' })).status).toBe(200)
+    expect((await post({ action: 'create_post', post: draft })).status).toBe(401)
+  })
+
+  it('acts only as the signed-in member', async () => {
+    signIn(stranger)
+    expect((await post({ action: 'join_community', memberId: 'community-author', communityId: 'community-1' })).status).toBe(403)
+  })
+
+  it('authors posts as the caller and lets only the author edit them', async () => {
+    signIn(author)
+    const created = await post({ action: 'create_post', post: draft })
+    expect(created.status).toBe(200)
+    expect((await created.json()).post.authorId).toBe('community-author')
+
+    signIn(stranger)
+    expect((await post({ action: 'update_post', postId: 'post-1', postUpdates: { content: 'Mine now' } })).status).toBe(403)
+
+    signIn(author)
+    const updated = await post({ action: 'update_post', postId: 'post-1', postUpdates: { content: 'Edited', authorId: 'community-stranger' } })
+    expect(updated.status).toBe(200)
+    expect((await updated.json()).post).toMatchObject({ content: 'Edited', authorId: 'community-author' })
+  })
+})
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/community-moderation/route'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/community-moderation'
+
+function post(body: Record<string, unknown>) {
+  return POST(jsonRequest(URL, body))
+}
+
+const learner = session('learner-1', 'student')
+const moderator = session('mod-1', 'moderator')
+const orgAdmin = session('admin-a', 'admin', { organizationId: 'acme' })
+
+function report(userId: string) {
+  return {
+    action: 'submit_report',
+    userId,
+    userProfile: { id: userId, name: userId, age_group: 'adult' },
+    contentId: 'post-1',
+    reportData: { reportType: 'spam', description: 'Repeated advertising' }
+  }
+}
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/community-moderation', () => {
+  it('requires a session', async () => {
+    expect((await post(report('learner-1'))).status).toBe(401)
+  })
+
+  it('lets any learner report, as themselves only', async () => {
+    signIn(learner)
+    expect((await post(report('learner-1'))).status).toBe(200)
+    expect((await post(report('someone-else'))).status).toBe(403)
+    expect((await post({ ...report('learner-1'), userProfile: { id: 'someone-else', name: 'x', age_group: 'adult' } })).status).toBe(403)
+  })
+
+  it('keeps the queue, metrics and reviews to moderators', async () => {
+    for (const [caller, status] of [[learner, 403], [orgAdmin, 403], [moderator, 200]] as const) {
+      signIn(caller)
+      expect((await post({ action: 'get_queue', userId: caller.userId, queueType: 'priority' })).status, caller.userId).toBe(status)
+      expect((await post({ action: 'get_metrics', userId: caller.userId })).status, caller.userId).toBe(status)
+    }
+
+    signIn(learner)
+    const review = { action: 'moderator_review', userId: 'learner-1', reportId: 'r-1', reviewData: { decision: 'approve', reasoning: '', reviewTime: 1, evidenceReviewed: [] } }
+    expect((await post(review)).status).toBe(403)
+  })
+
+  it('limits learners to their own reports', async () => {
+    signIn(learner)
+    const response = await post({ action: 'get_reports', userId: 'learner-1' })
+    expect(response.status).toBe(200)
+    const { reports = [], myReports = [] } = await response.json()
+    expect([...reports, ...myReports].every((entry: { reporterId: string }) => entry.reporterId === 'learner-1')).toBe(true)
+  })
+})
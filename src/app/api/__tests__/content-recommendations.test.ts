@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/content-recommendations/route'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/content-recommendations'
+
+const learner = session('rec-learner', 'student')
+const userProfile = { id: 'rec-learner', name: 'Ada', subject: 'mathematics', level: 'beginner' }
+
+function post(body: Record<string, unknown>) {
+  return POST(jsonRequest(URL, { userProfile, ...body }))
+}
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/content-recommendations', () => {
+  it('requires a session', async () => {
+    expect((await post({ action: 'get_bandit_report' })).status).toBe(401)
+  })
+
+  it('acts only for the signed-in learner', async () => {
+    signIn(learner)
+    expect((await post({ action: 'get_bandit_report', userId: 'someone-else' })).status).toBe(403)
+
+    const response = await post({ action: 'get_bandit_report' })
+    expect(response.status).toBe(200)
+    expect((await response.json()).metadata.userId).toBe('rec-learner')
+  })
+
+  it('keeps the cross-learner report and weight tuning to platform admins', async () => {
+    signIn(learner)
+    expect((await post({ action: 'get_bandit_report', scope: 'all' })).status).toBe(403)
+    expect((await post({ action: 'optimize_weights', performanceData: {} })).status).toBe(403)
+
+    signIn(session('rec-root', 'super_admin'))
+    expect((await post({ action: 'get_bandit_report', scope: 'all', userProfile: { ...userProfile, id: 'rec-root' } })).status).toBe(200)
+  })
+})
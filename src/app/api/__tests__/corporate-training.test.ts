@@ -0,0 +1,156 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/corporate-training/route'
+import { corporateTrainingEngine, type CompanyProfile, type EmployeeProfile, type TrainingProgram } from '@/lib/corporate-training-engine'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/corporate-training'
+
+function post(body: Record<string, unknown>) {
+  return POST(jsonRequest(URL, body))
+}
+
+function employee(employeeId: string, companyId: string, manager?: string): EmployeeProfile {
+  return {
+    employeeId,
+    name: employeeId,
+    email: `${employeeId}@${companyId}.test`,
+    department: 'Engineering',
+    role: 'engineer',
+    level: 'mid',
+    startDate: new Date('2024-01-01'),
+    manager,
+    skills: [],
+    certifications: [],
+    learningGoals: [],
+    companyId,
+    timezone: 'UTC',
+    preferredLanguage: 'en'
+  }
+}
+
+const program = {
+  programId: 'prog-1',
+  title: 'Secure coding',
+  description: '',
+  type: 'technical',
+  targetRoles: ['engineer'],
+  estimatedDuration: 60,
+  difficultyLevel: 'beginner',
+  learningObjectives: [],
+  assessmentRequired: false
+} as TrainingProgram
+
+const adminA = session('admin-a', 'admin', { organizationId: 'acme' })
+const adminB = session('admin-b', 'admin', { organizationId: 'globex' })
+const instructorA = session('trainer-a', 'teacher', { organizationId: 'acme' })
+const employeeA = session('emp-a', 'student', { organizationId: 'acme' })
+const managerA = session('lead-a', 'student', { organizationId: 'acme' })
+const colleagueA = session('emp-a2', 'student', { organizationId: 'acme' })
+
+beforeAll(async () => {
+  await corporateTrainingEngine.hydrate()
+  await corporateTrainingEngine.createCompanyProfile({ companyId: 'acme', name: 'Acme', complianceRequirements: [], learningPriorities: [] } as CompanyProfile)
+  await corporateTrainingEngine.createEmployeeProfile(employee('lead-a', 'acme'))
+  await corporateTrainingEngine.createEmployeeProfile(employee('emp-a', 'acme', 'lead-a'))
+  await corporateTrainingEngine.createEmployeeProfile(employee('emp-a2', 'acme'))
+})
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/corporate-training', () => {
+  it('requires a session', async () => {
+    expect((await post({ action: 'get_employee', employeeId: 'emp-a' })).status).toBe(401)
+  })
+
+  it('opens an employee record to them, their manager and their company staff', async () => {
+    for (const [caller, status] of [[employeeA, 200], [managerA, 200], [adminA, 200], [instructorA, 200], [colleagueA, 403], [adminB, 403]] as const) {
+      signIn(caller)
+      expect((await post({ action: 'get_employee', employeeId: 'emp-a' })).status, caller.userId).toBe(status)
+    }
+  })
+
+  it('keeps company administration to that company\'s admins', async () => {
+    signIn(adminA)
+    expect((await post({ action: 'get_employees_by_department', companyId: 'acme', department: 'Engineering' })).status).toBe(200)
+    expect((await post({ action: 'create_employee', employeeProfile: employee('emp-new', 'acme') })).status).toBe(200)
+
+    signIn(adminB)
+    expect((await post({ action: 'get_employees_by_department', companyId: 'acme', department: 'Engineering' })).status).toBe(403)
+    expect((await post({ action: 'create_employee', employeeProfile: employee('emp-evil', 'acme') })).status).toBe(403)
+
+    signIn(instructorA)
+    expect((await post({ action: 'create_employee', employeeProfile: employee('emp-new2', 'acme') })).status).toBe(403)
+    signIn(employeeA)
+    expect((await post({ action: 'get_employees_by_department', companyId: 'acme', department: 'Engineering' })).status).toBe(403)
+  })
+
+  it('needs admin rights in the target company to move an employee there', async () => {
+    signIn(adminA)
+    const moved = await post({ action: 'update_employee', employeeId: 'emp-a2', employeeUpdates: { companyId: 'globex' } })
+    expect(moved.status).toBe(403)
+    expect(corporateTrainingEngine.getEmployeeProfile('emp-a2')?.companyId).toBe('acme')
+  })
+
+  it('only lets staff manage programs within a company', async () => {
+    signIn(instructorA)
+    expect((await post({ action: 'create_program', companyId: 'acme', trainingProgram: program })).status).toBe(200)
+    expect((await post({ action: 'create_program', trainingProgram: { ...program, programId: 'prog-2' } })).status).toBe(403)
+    expect((await post({ action: 'update_program', programId: 'prog-1', programUpdates: { title: 'x' } })).status).toBe(403)
+
+    signIn(employeeA)
+    expect((await post({ action: 'create_program', companyId: 'acme', trainingProgram: program })).status).toBe(403)
+    expect((await post({ action: 'get_programs' })).status).toBe(200)
+  })
+
+  it('lets employees update their own progress but not enroll themselves', async () => {
+    signIn(employeeA)
+    expect((await post({ action: 'get_progress', employeeId: 'emp-a' })).status).toBe(200)
+    expect((await post({ action: 'enroll_employee', enrollmentData: { employeeId: 'emp-a', programId: 'prog-1' } })).status).toBe(403)
+
+    signIn(managerA)
+    expect((await post({ action: 'enroll_employee', enrollmentData: { employeeId: 'emp-a', programId: 'prog-1' } })).status).toBe(200)
+  })
+})
+
+describe('POST /api/corporate-training provisioning', () => {
+  it('acts on the authorized company only', async () => {
+    signIn(adminA)
+    const mixed = await post({ action: 'create_scim_token', employeeProfile: { companyId: 'acme' }, companyId: 'globex' })
+    expect(mixed.status).toBe(403)
+    const viaEmployee = await post({ action: 'import_employees_csv', employeeId: 'emp-a', companyId: 'globex', csv: 'email,name\nx@globex.test,X' })
+    expect(viaEmployee.status).toBe(403)
+
+    const own = await post({ action: 'create_scim_token', companyId: 'acme', tokenName: 'Okta' })
+    expect(own.status).toBe(200)
+    signIn(adminB)
+    expect((await post({ action: 'list_scim_tokens', companyId: 'acme' })).status).toBe(403)
+  })
+
+  it('keeps enrollment rules in their company', async () => {
+    signIn(adminA)
+    const created = await post({
+      action: 'create_enrollment_rule',
+      companyId: 'acme',
+      enrollmentRule: { companyId: 'acme', programId: 'prog-1', match: { departments: ['Engineering'] }, active: false }
+    })
+    expect(created.status).toBe(200)
+    const { enrollmentRule } = await created.json()
+
+    const moved = await post({ action: 'update_enrollment_rule', ruleId: enrollmentRule.ruleId, ruleUpdates: { companyId: 'globex', name: 'Engineers' } })
+    expect(moved.status).toBe(200)
+    expect(corporateTrainingEngine.getEnrollmentRule(enrollmentRule.ruleId)).toMatchObject({ companyId: 'acme', name: 'Engineers' })
+
+    signIn(adminB)
+    expect((await post({ action: 'update_enrollment_rule', ruleId: enrollmentRule.ruleId, companyId: 'globex', ruleUpdates: { active: true } })).status).toBe(403)
+  })
+
+  it('lets only platform admins verify email domains', async () => {
+    signIn(adminA)
+    expect((await post({ action: 'update_company', companyId: 'acme', companyUpdates: { verifiedEmailDomains: ['gmail.com'] } })).status).toBe(403)
+  })
+})
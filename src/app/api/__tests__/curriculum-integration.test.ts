@@ -0,0 +1,137 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { POST } from '@/app/api/curriculum-integration/route'
+import {
+  curriculumIntegrationEngine,
+  type Course,
+  type Instructor,
+  type Student
+} from '@/lib/curriculum-integration-engine'
+import { jsonRequest, session, signIn } from '@/test/auth'
+
+vi.mock('@/lib/auth-guard', async importOriginal => {
+  const { withSignedInSession } = await import('@/test/auth')
+  return withSignedInSession(await importOriginal())
+})
+
+const URL = 'http://localhost/api/curriculum-integration'
+
+function post(body: Record<string, unknown>) {
+  return POST(jsonRequest(URL, body))
+}
+
+function instructor(instructorId: string, institutionId: string): Instructor {
+  return {
+    instructorId,
+    institutionId,
+    personalInfo: { firstName: 'Ada', lastName: 'L', email: `${instructorId}@school.test`, title: 'Teacher', department: 'Math' },
+    permissions: { canCreateCourses: true, canManageGrades: true, canViewAnalytics: true, canModerateContent: false }
+  } as Instructor
+}
+
+function course(courseId: string, institutionId: string, instructorId: string): Course {
+  return {
+    courseId,
+    institutionId,
+    instructorId,
+    courseInfo: { code: 'MATH101', title: 'Algebra', description: '', credits: 3, department: 'Math', level: 'beginner' }
+  } as Course
+}
+
+function student(studentId: string, institutionId: string, guardianEmail?: string): Student {
+  return {
+    studentId,
+    institutionId,
+    studentNumber: studentId,
+    personalInfo: { firstName: 'Sam', lastName: 'S', dateOfBirth: new Date('2005-01-01') },
+    parentGuardian: guardianEmail
+      ? [{ name: 'Parent', email: guardianEmail, phone: '', relationship: 'parent', emergencyContact: true }]
+      : undefined,
+    privacySettings: { parentalConsent: true, dataSharing: false, communicationPermissions: [] }
+  } as Student
+}
+
+const adminA = session('admin-a', 'admin', { organizationId: 'school-a' })
+const teacherA = session('teacher-a', 'teacher', { organizationId: 'school-a' })
+const otherTeacherA = session('teacher-a2', 'teacher', { organizationId: 'school-a' })
+const teacherB = session('teacher-b', 'teacher', { organizationId: 'school-b' })
+const studentA = session('student-a', 'student', { organizationId: 'school-a' })
+const otherStudent = session('student-x', 'student', { organizationId: 'school-a' })
+const guardian = session('parent-1', 'parent', { email: 'parent@home.test' })
+
+beforeAll(async () => {
+  await curriculumIntegrationEngine.hydrate()
+  await curriculumIntegrationEngine.createInstructor(instructor('teacher-a', 'school-a'))
+  await curriculumIntegrationEngine.createInstructor(instructor('teacher-a2', 'school-a'))
+  await curriculumIntegrationEngine.createInstructor(instructor('teacher-b', 'school-b'))
+  await curriculumIntegrationEngine.createStudent(student('student-a', 'school-a', 'parent@home.test'))
+  await curriculumIntegrationEngine.createCourse(course('course-a', 'school-a', 'teacher-a'))
+})
+
+beforeEach(() => signIn(null))
+
+describe('POST /api/curriculum-integration', () => {
+  it('requires a session', async () => {
+    const response = await post({ action: 'get_course', courseId: 'course-a' })
+    expect(response.status).toBe(401)
+  })
+
+  it('lets org admins manage their own institution only', async () => {
+    signIn(adminA)
+    expect((await post({ action: 'get_instructors_by_institution', institutionId: 'school-a' })).status).toBe(200)
+    expect((await post({ action: 'get_instructors_by_institution', institutionId: 'school-b' })).status).toBe(403)
+    expect((await post({ action: 'generate_institution_dashboard' })).status).toBe(403)
+  })
+
+  it('lets instructors create courses they teach in their own institution', async () => {
+    signIn(teacherA)
+    const own = await post({ action: 'create_course', course: course('course-a-new', 'school-a', 'teacher-a') })
+    expect(own.status).toBe(200)
+
+    const elsewhere = await post({ action: 'create_course', course: course('course-b-new', 'school-b', 'teacher-a') })
+    expect(elsewhere.status).toBe(403)
+    expect(curriculumIntegrationEngine.getCourse('course-b-new')).toBeNull()
+
+    const forColleague = await post({ action: 'create_course', course: course('course-a-other', 'school-a', 'teacher-a2') })
+    expect(forColleague.status).toBe(403)
+  })
+
+  it('checks course updates against the stored course, not the request body', async () => {
+    signIn(teacherB)
+    const hijack = await post({
+      action: 'update_course',
+      courseId: 'course-a',
+      course: course('course-a', 'school-b', 'teacher-b'),
+      courseUpdates: { instructorId: 'teacher-b' }
+    })
+    expect(hijack.status).toBe(403)
+
+    signIn(otherTeacherA)
+    expect((await post({ action: 'update_course', courseId: 'course-a', courseUpdates: { instructorId: 'teacher-a2' } })).status).toBe(403)
+    expect(curriculumIntegrationEngine.getCourse('course-a')?.instructorId).toBe('teacher-a')
+
+    signIn(teacherA)
+    const own = await post({ action: 'update_course', courseId: 'course-a', courseUpdates: { courseInfo: { ...course('x', '', '').courseInfo, title: 'Algebra I' } } })
+    expect(own.status).toBe(200)
+    expect((await post({ action: 'update_course', courseId: 'course-a', courseUpdates: { institutionId: 'school-b' } })).status).toBe(403)
+
+    signIn(adminA)
+    expect((await post({ action: 'update_course', courseId: 'course-a', courseUpdates: { instructorId: 'teacher-a' } })).status).toBe(200)
+  })
+
+  it('opens student records to the student, their guardians and their institution staff', async () => {
+    for (const [caller, status] of [[studentA, 200], [guardian, 200], [teacherA, 200], [adminA, 200], [otherStudent, 403], [teacherB, 403]] as const) {
+      signIn(caller)
+      expect((await post({ action: 'get_student', studentId: 'student-a' })).status, caller.userId).toBe(status)
+    }
+  })
+
+  it('keeps institution setup to that institution\'s admins', async () => {
+    signIn(teacherA)
+    expect((await post({ action: 'register_lti_platform', institutionId: 'school-a' })).status).toBe(403)
+    signIn(studentA)
+    expect((await post({ action: 'create_student', student: student('student-new', 'school-a') })).status).toBe(403)
+    signIn(adminA)
+    expect((await post({ action: 'update_student', studentId: 'student-a', studentUpdates: { studentNumber: 'A-1' } })).status).toBe(200)
+    expect((await post({ action: 'create_student', student: student('student-b', 'school-b') })).status).toBe(403)
+  })
+})
@@ -9,6 +9,7 @@ import {
   type StatisticalConfiguration
 } from '@/lib/ab-testing-framework'
 import type { UserProfile } from '@/types'
+import { AuthError, authErrorResponse, authorize, requireAuth, type AccessRule } from '@/lib/auth-guard'
 
 export const maxDuration = 30
 
@@ -55,6 +56,7 @@ interface ABTestingRequest {
       screenResolution?: string
       timezone: string
     }
+    preExperimentEngagement?: number // CUPED covariate, e.g. sessions in the 14 days before assignment
   }
   
   // For track_exposure
@@ -103,6 +105,22 @@ interface ABTestingResponse {
   }
 }
 
+// Tests are platform-wide, so creating, starting and reading them is for platform admins
+const MANAGE_EXPERIMENTS: AccessRule = { roles: [] }
+const MANAGE_ACTIONS: ABTestingRequest['action'][] = ['create_test', 'start_test', 'analyze_test', 'get_tests']
+
+// The participant payload of an action, whose userId must be the caller's
+function participantOf(body: ABTestingRequest): { userId?: string; userProfile?: UserProfile } | undefined {
+  switch (body.action) {
+    case 'assign_user': return body.assignmentConfig
+    case 'track_exposure': return body.exposureData
+    case 'track_conversion': return body.conversionData
+    case 'track_metric': return body.metricData
+    case 'get_user_experiments': return body
+    default: return undefined
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now()
@@ -115,6 +133,23 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const auth = await requireAuth(request)
+    if (MANAGE_ACTIONS.includes(body.action)) {
+      authorize(auth, MANAGE_EXPERIMENTS)
+      if (body.testConfig) body.testConfig.createdBy = auth.userId
+    }
+
+    // Assignments, exposures, conversions and metrics are recorded for the signed-in user only
+    const participant = participantOf(body)
+    if (participant) {
+      participant.userId = participant.userId || auth.userId
+      if (participant.userId !== auth.userId || (participant.userProfile && participant.userProfile.id !== auth.userId)) {
+        throw new AuthError('Cannot act on behalf of another user', 403)
+      }
+    }
+
+    await abTestingFramework.hydrate()
+
     let response: Partial<ABTestingResponse> = {
       success: true,
       action: body.action
@@ -164,6 +199,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await abTestingFramework.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: ABTestingResponse = {
@@ -179,6 +216,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('A/B Testing API error:', error)
     return NextResponse.json(
       { error: 'Failed to process A/B testing request' },
@@ -221,7 +261,7 @@ async function handleAssignUser(body: ABTestingRequest): Promise<Partial<ABTesti
     throw new Error('Missing assignment configuration')
   }
 
-  const { testId, userId, userProfile, sessionInfo, deviceInfo } = body.assignmentConfig
+  const { testId, userId, userProfile, sessionInfo, deviceInfo, preExperimentEngagement } = body.assignmentConfig
   
   // Convert string date back to Date object
   const sessionInfoWithDate = {
@@ -234,7 +274,8 @@ async function handleAssignUser(body: ABTestingRequest): Promise<Partial<ABTesti
     userId,
     userProfile,
     sessionInfoWithDate,
-    deviceInfo
+    deviceInfo,
+    preExperimentEngagement
   )
   
   return { variantId: variantId || undefined }
@@ -333,6 +374,10 @@ export async function GET() {
       'User Assignment & Segmentation',
       'Multi-Armed Bandit Testing',
       'Statistical Analysis',
+      'Always-Valid Sequential Testing (mSPRT)',
+      'Bayesian Posterior Summaries',
+      'CUPED Variance Reduction',
+      'Sample Ratio Mismatch Detection',
       'Event Tracking',
       'Real-time Analytics',
       'Recommendation Engine'
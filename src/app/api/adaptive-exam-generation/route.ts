@@ -6,13 +6,19 @@ import {
   type ExamSession,
   type ExamResults,
   type QuestionItem,
-  type DifficultyCalibration
+  type DifficultyCalibration,
+  type ExternalItemResponse,
+  type ExamItemAnalysis
 } from '@/lib/adaptive-exam-generation-engine'
+import type { IrtModel } from '@/lib/item-response-theory'
+import type { QtiImportResult, QtiPackageFile, QtiVersion } from '@/lib/qti-interchange'
+import { AuthError, authErrorResponse, authorize, requireAuth, type AccessRule } from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 120
 
 interface AdaptiveExamGenerationApiRequest {
-  action: 'generate_exam' | 'generate_exam_with_progress' | 'get_generation_progress' | 'start_session' | 'get_next_question' | 'submit_response' | 'complete_exam' | 'get_exam' | 'get_exam_statistics' | 'get_analytics' | 'calibrate_difficulty' | 'get_calibration_results' | 'get_session_monitoring' | 'get_exam_history'
+  action: 'generate_exam' | 'generate_exam_with_progress' | 'get_generation_progress' | 'start_session' | 'get_next_question' | 'submit_response' | 'complete_exam' | 'get_exam' | 'get_exam_statistics' | 'get_analytics' | 'calibrate_difficulty' | 'get_calibration_results' | 'get_session_monitoring' | 'get_exam_history' | 'import_qti' | 'export_qti' | 'get_question_bank' | 'get_item_analysis'
   
   // For exam generation
   requirements?: ExamRequirements
@@ -22,6 +28,7 @@ interface AdaptiveExamGenerationApiRequest {
   sessionId?: string
   learnerId?: string
   initialAbility?: number
+  learnerGroup?: string
   
   // For question and response handling
   questionId?: string
@@ -29,15 +36,24 @@ interface AdaptiveExamGenerationApiRequest {
   responseTime?: number
   confidenceLevel?: number
   
-  // For calibration
+  // For calibration (responses stored with exam sessions are always included)
   questions?: QuestionItem[]
-  responseData?: Array<{
-    question_id: string
-    learner_ability: number
-    response_correct: boolean
-    response_time: number
+  responseData?: Array<ExternalItemResponse & {
+    learner_ability?: number // not needed, MML integrates ability out
   }>
+  irtModel?: IrtModel
   calibrationId?: string
+
+  // For QTI interchange
+  qtiPackage?: string // base64 zip content package
+  qtiXml?: string // single item or test document
+  qtiFilename?: string
+  qtiVersion?: QtiVersion
+  bankId?: string
+
+  // For item analysis
+  learnerGroups?: Record<string, string> // learner id -> group, overrides learnerGroup from start_session
+  referenceGroup?: string
 }
 
 interface AdaptiveExamGenerationApiResponse {
@@ -57,6 +73,10 @@ interface AdaptiveExamGenerationApiResponse {
   calibration?: DifficultyCalibration
   activeSessions?: ExamSession[]
   progress?: any
+  qtiFile?: QtiPackageFile
+  questionBank?: QtiImportResult
+  questions?: QuestionItem[]
+  itemAnalysis?: ExamItemAnalysis
   
   // Response metadata
   is_correct?: boolean
@@ -73,6 +93,25 @@ interface AdaptiveExamGenerationApiResponse {
   }
 }
 
+// Calibration rewrites the IRT parameters live exams select and score with, item banks and exports carry
+// answer keys, and item analysis reports group results by learner, so only staff run them. Exams are not owned by an organization yet; staff act within their own.
+const MANAGE_ITEM_BANKS: AccessRule = { roles: ['instructor', 'org_admin'] }
+const STAFF_ACTIONS: AdaptiveExamGenerationApiRequest['action'][] = [
+  'calibrate_difficulty',
+  'import_qti',
+  'export_qti',
+  'get_question_bank',
+  'get_item_analysis'
+]
+
+// Sittings belong to the signed-in learner: a session is started as them and only they answer and finish it
+const SESSION_ACTIONS: AdaptiveExamGenerationApiRequest['action'][] = [
+  'start_session',
+  'get_next_question',
+  'submit_response',
+  'complete_exam'
+]
+
 // Track active generation processes for progress monitoring
 const activeGenerations = new Map<string, {
   progress: any
@@ -81,9 +120,14 @@ const activeGenerations = new Map<string, {
 }>()
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: AdaptiveExamGenerationApiRequest = await request.json()
+    await adaptiveExamGenerationEngine.hydrate()
 
     if (!body.action) {
       return NextResponse.json(
@@ -92,6 +136,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (STAFF_ACTIONS.includes(body.action)) {
+      const auth = await requireAuth(request)
+      authorize(auth, MANAGE_ITEM_BANKS, { organizationId: auth.organizationId })
+    }
+
+    if (SESSION_ACTIONS.includes(body.action)) {
+      const auth = await requireAuth(request)
+      body.learnerId = body.learnerId || auth.userId
+      const session = body.sessionId ? adaptiveExamGenerationEngine.getSession(body.sessionId) : null
+      if (body.learnerId !== auth.userId || (session && session.learner_id !== auth.userId)) {
+        throw new AuthError('Cannot act on behalf of another learner', 403)
+      }
+    }
+
     let response: Partial<AdaptiveExamGenerationApiResponse> = {
       success: true,
       action: body.action
@@ -153,6 +211,22 @@ export async function POST(request: NextRequest) {
       case 'get_exam_history':
         response = await handleGetExamHistory()
         break
+
+      case 'import_qti':
+        response = await handleImportQti(body)
+        break
+
+      case 'export_qti':
+        response = await handleExportQti(body)
+        break
+
+      case 'get_question_bank':
+        response = await handleGetQuestionBank(body)
+        break
+
+      case 'get_item_analysis':
+        response = await handleGetItemAnalysis(body)
+        break
         
       default:
         return NextResponse.json(
@@ -175,9 +249,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await adaptiveExamGenerationEngine.flush()
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Adaptive Exam Generation API error:', error)
     return NextResponse.json(
       { error: 'Failed to process adaptive exam generation request' },
@@ -269,6 +347,7 @@ async function startAsyncExamGeneration(examId: string, requirements: ExamRequir
       exam_id: examId
     })
     
+    await adaptiveExamGenerationEngine.flush()
     updateProgress('finalization', 100, 'Exam generation complete', requirements.constraints.total_questions)
     
     // Store exam result
@@ -322,7 +401,8 @@ async function handleStartSession(body: AdaptiveExamGenerationApiRequest): Promi
   const session = await adaptiveExamGenerationEngine.startExamSession(
     body.examId,
     body.learnerId,
-    body.initialAbility
+    body.initialAbility,
+    body.learnerGroup
   )
   
   return { session }
@@ -463,49 +543,23 @@ async function handleGetAnalytics(): Promise<Partial<AdaptiveExamGenerationApiRe
   return { analytics }
 }
 
-// Handle difficulty calibration
+// Handle difficulty calibration: 2PL/3PL marginal maximum likelihood over stored and supplied responses.
+// Supplied responses only inform the returned calibration; live exams are updated from stored sittings alone.
 async function handleCalibrateDifficulty(body: AdaptiveExamGenerationApiRequest): Promise<Partial<AdaptiveExamGenerationApiResponse>> {
-  if (!body.questions || !body.responseData) {
-    throw new Error('Missing required fields: questions, responseData')
+  if (!body.examId && !body.questions?.length) {
+    throw new Error('Missing required field: examId or questions')
   }
-  
-  // In a real implementation, this would perform IRT analysis
-  // For now, return mock calibration data
-  
-  const calibrationId = `calibration_${Date.now()}`
-  
-  const calibration: DifficultyCalibration = {
-    calibration_id: calibrationId,
-    question_pool: body.questions,
-    calibration_results: body.questions.map(question => ({
-      question_id: question.question_id,
-      statistical_difficulty: Math.random() * 0.8 + 0.1, // 0.1 to 0.9
-      irt_parameters: {
-        discrimination: Math.random() * 1.5 + 0.5, // 0.5 to 2.0
-        difficulty: Math.random() * 4 - 2, // -2 to 2
-        guessing: Math.random() * 0.3 + 0.1 // 0.1 to 0.4
-      },
-      performance_data: {
-        total_attempts: Math.floor(Math.random() * 200) + 50,
-        correct_responses: Math.floor(Math.random() * 150) + 25,
-        avg_response_time: Math.random() * 180 + 60,
-        ability_range: [-2, 2] as [number, number]
-      },
-      quality_metrics: {
-        discrimination_index: Math.random() * 0.6 + 0.2,
-        point_biserial_correlation: Math.random() * 0.8 + 0.1,
-        reliability_contribution: Math.random() * 0.3 + 0.1
-      }
-    })),
-    calibration_metadata: {
-      sample_size: body.responseData.length,
-      ability_distribution: Array.from({length: 10}, () => Math.random()),
-      convergence_achieved: true,
-      standard_error: 0.05,
-      confidence_level: 0.95
-    }
+  if (body.irtModel && body.irtModel !== '2PL' && body.irtModel !== '3PL') {
+    throw new Error('Unsupported IRT model: use 2PL or 3PL')
   }
   
+  const calibration = await adaptiveExamGenerationEngine.calibrateItemParameters({
+    examId: body.examId,
+    questions: body.questions,
+    responses: body.responseData,
+    model: body.irtModel
+  })
+  
   return { calibration }
 }
 
@@ -515,10 +569,73 @@ async function handleGetCalibrationResults(body: AdaptiveExamGenerationApiReques
     throw new Error('Missing required field: calibrationId')
   }
   
-  // In a real implementation, this would retrieve from database
-  // For now, return null as we don't have persistence
+  // Response calibrations and imported QTI item banks
+  const calibration = adaptiveExamGenerationEngine.getCalibration(body.calibrationId)
   
-  return { calibration: undefined }
+  return { calibration: calibration || undefined }
+}
+
+// Handle QTI item bank import
+async function handleImportQti(body: AdaptiveExamGenerationApiRequest): Promise<Partial<AdaptiveExamGenerationApiResponse>> {
+  if (!body.qtiPackage && !body.qtiXml) {
+    throw new Error('Missing required field: qtiPackage or qtiXml')
+  }
+  
+  const questionBank = await adaptiveExamGenerationEngine.importQtiQuestionBank({
+    base64: body.qtiPackage,
+    xml: body.qtiXml,
+    filename: body.qtiFilename
+  })
+  
+  return { 
+    questionBank,
+    calibration: questionBank.calibration
+  }
+}
+
+// Handle QTI export of an exam
+async function handleExportQti(body: AdaptiveExamGenerationApiRequest): Promise<Partial<AdaptiveExamGenerationApiResponse>> {
+  if (!body.examId) {
+    throw new Error('Missing required field: examId')
+  }
+  if (body.qtiVersion && body.qtiVersion !== '2.1' && body.qtiVersion !== '3.0') {
+    throw new Error('Unsupported QTI version: use 2.1 or 3.0')
+  }
+  
+  const qtiFile = await adaptiveExamGenerationEngine.exportExamToQti(body.examId, body.qtiVersion || '2.1')
+  
+  return { qtiFile }
+}
+
+// Handle get question bank
+async function handleGetQuestionBank(body: AdaptiveExamGenerationApiRequest): Promise<Partial<AdaptiveExamGenerationApiResponse>> {
+  if (!body.bankId) {
+    throw new Error('Missing required field: bankId')
+  }
+  
+  const questions = adaptiveExamGenerationEngine.getQuestionBank(body.bankId)
+  if (!questions) {
+    throw new Error('Question bank not found')
+  }
+  
+  return { questions }
+}
+
+// Handle item analysis report for an exam or an imported question bank
+async function handleGetItemAnalysis(body: AdaptiveExamGenerationApiRequest): Promise<Partial<AdaptiveExamGenerationApiResponse>> {
+  if (!body.examId && !body.bankId) {
+    throw new Error('Missing required field: examId or bankId')
+  }
+  
+  const options = {
+    learnerGroups: body.learnerGroups,
+    referenceGroup: body.referenceGroup
+  }
+  const itemAnalysis = body.examId
+    ? adaptiveExamGenerationEngine.getItemAnalysis(body.examId, options)
+    : adaptiveExamGenerationEngine.getQuestionBankItemAnalysis(body.bankId!, options)
+  
+  return { itemAnalysis }
 }
 
 // Handle session monitoring
@@ -596,7 +713,11 @@ export async function GET() {
           'calibrate_difficulty',
           'get_calibration_results',
           'get_session_monitoring',
-          'get_exam_history'
+          'get_exam_history',
+          'import_qti',
+          'export_qti',
+          'get_question_bank',
+          'get_item_analysis'
         ]
       }
     },
@@ -641,11 +762,11 @@ export async function GET() {
       'practice'
     ],
     calibrationMethods: [
-      'Item Response Theory (IRT)',
-      'Classical Test Theory (CTT)',
-      'Rasch Modeling',
-      'AI-powered Estimation',
-      'Crowdsourced Validation'
+      'IRT 2PL (marginal maximum likelihood)',
+      'IRT 3PL (marginal maximum likelihood)',
+      'EAP ability estimation with standard errors',
+      'Maximum-information item selection with exposure control',
+      'Standard-error stopping rules'
     ],
     analyticsMetrics: [
       'exam_complexity',
@@ -655,7 +776,12 @@ export async function GET() {
       'completion_rates',
       'score_distributions',
       'time_efficiency',
-      'question_quality'
+      'question_quality',
+      'item_analysis (p-values, point-biserial, distractors, Cronbach alpha, Mantel-Haenszel DIF)'
+    ],
+    interchangeFormats: [
+      'IMS QTI 2.1 (import/export)',
+      'IMS QTI 3.0 (import/export)'
     ],
     features: [
       'Multi-Model AI Content Generation',
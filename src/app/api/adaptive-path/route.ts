@@ -81,6 +81,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await adaptivePathGenerator.hydrate()
+
     let response: Partial<AdaptivePathResponse> = {
       success: true,
       action: body.action
@@ -114,6 +116,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await adaptivePathGenerator.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: AdaptivePathResponse = {
@@ -35,13 +35,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await difficultyEngine.hydrate()
+
+    let response: NextResponse
     switch (body.action) {
       case 'analyze':
-        return await handleAnalyzeRequest(body)
+        response = await handleAnalyzeRequest(body)
+        break
       case 'apply':
-        return await handleApplyRequest(body)
+        response = await handleApplyRequest(body)
+        break
       case 'monitor':
-        return await handleMonitorRequest(body)
+        response = await handleMonitorRequest(body)
+        break
       default:
         return NextResponse.json(
           { error: 'Invalid action. Must be: analyze, apply, or monitor' },
@@ -49,6 +55,9 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await difficultyEngine.flush()
+    return response
+
   } catch (error) {
     console.error('Difficulty adjustment error:', error)
     return NextResponse.json(
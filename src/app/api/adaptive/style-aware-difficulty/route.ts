@@ -73,6 +73,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await styleAwareDifficultyEngine.hydrate()
+
     let response: Partial<StyleAwareDifficultyResponse> = {
       success: true,
       action: body.action
@@ -102,6 +104,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await styleAwareDifficultyEngine.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: StyleAwareDifficultyResponse = {
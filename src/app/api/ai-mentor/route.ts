@@ -11,6 +11,7 @@ import {
   type ProgressAssessment,
   type CrisisSupport
 } from '@/lib/ai-mentor-system'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 300 // 5 minutes for complex mentorship sessions
 
@@ -89,6 +90,10 @@ interface AIMentorApiResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: AIMentorApiRequest = await request.json()
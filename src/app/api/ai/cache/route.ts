@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { aiResponseCache, ResponseCacheSettingsError, type ResponseCacheSettings } from '@/lib/ai-response-cache'
+import { authErrorResponse, authorize, requireAuth, type AccessRule } from '@/lib/auth-guard'
+
+interface CacheRequest {
+  action: 'invalidate' | 'clear' | 'configure'
+
+  // For invalidate
+  cacheId?: string
+  text?: string
+
+  // For configure
+  settings?: Partial<ResponseCacheSettings>
+}
+
+// Clearing, invalidating and resizing the cache affect every learner, so only platform admins may
+const MANAGE_CACHE: AccessRule = { roles: [] }
+
+export async function GET() {
+  return NextResponse.json({
+    metrics: aiResponseCache.getMetrics(),
+    timestamp: new Date().toISOString()
+  })
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    authorize(await requireAuth(request), MANAGE_CACHE)
+    const body: CacheRequest = await request.json()
+
+    switch (body.action) {
+      case 'invalidate':
+        if (!body.cacheId && !body.text) {
+          return NextResponse.json({ error: 'Missing cacheId or text' }, { status: 400 })
+        }
+        return NextResponse.json({
+          success: true,
+          invalidated: aiResponseCache.invalidate({ cacheId: body.cacheId, text: body.text })
+        })
+
+      case 'clear':
+        aiResponseCache.clear()
+        return NextResponse.json({ success: true })
+
+      case 'configure':
+        if (!body.settings) {
+          return NextResponse.json({ error: 'Missing settings' }, { status: 400 })
+        }
+        return NextResponse.json({
+          success: true,
+          settings: aiResponseCache.configure(body.settings)
+        })
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action. Must be: invalidate, clear or configure' },
+          { status: 400 }
+        )
+    }
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+    if (error instanceof ResponseCacheSettingsError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    console.error('AI cache API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process cache request' },
+      { status: 500 }
+    )
+  }
+}
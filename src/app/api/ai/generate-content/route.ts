@@ -1,17 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { aiTutorClient } from '@/lib/ai-client'
 import type { ContentGenerationRequest } from '@/lib/ai-client'
+import { aiResponseCache } from '@/lib/ai-response-cache'
+import { inferUseCase } from '@/lib/multi-model-ai'
+import { contentSafetyEngine } from '@/lib/content-safety-engine'
+import { BudgetExceededError } from '@/lib/ai-budget-manager'
+import { withAICaller } from '@/lib/ai-caller'
+
+const DIFFICULTY_LEVELS = { beginner: 3, intermediate: 5, advanced: 7 }
+const LENGTH_MINUTES = { short: 5, medium: 10, long: 20 }
 
 export async function POST(request: NextRequest) {
-  try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { error: 'AI service not configured' },
-        { status: 503 }
-      )
-    }
+  return withAICaller(request, () => handlePost(request))
+}
 
+async function handlePost(request: NextRequest) {
+  try {
     const body: ContentGenerationRequest = await request.json()
 
     // Validate required fields
@@ -31,15 +35,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate content using AI client
-    const content = await aiTutorClient.generateContent(body)
+    // Generate content using AI client, sharing results across learners with the same profile bucket
+    const { userProfile, ...cacheableRequest } = body
+    const { value: content, cache } = await aiResponseCache.getOrGenerate({
+      kind: 'content',
+      useCase: inferUseCase(userProfile.subject || '', body.topic),
+      request: { ...cacheableRequest },
+      userProfile,
+      generate: () => aiTutorClient.generateContent(body),
+      cacheable: generated => !aiTutorClient.isFallbackContent(body, generated)
+    })
+
+    // Learners see and report the lesson as this item
+    const item = contentSafetyEngine.generatedItem({ kind: 'content', request: cacheableRequest }, userProfile, {
+      content_type: 'ai_lesson',
+      title: body.topic,
+      description: content,
+      difficulty: DIFFICULTY_LEVELS[body.difficulty] || 5,
+      estimated_time: LENGTH_MINUTES[body.length] || 10
+    })
 
     return NextResponse.json({
       content,
+      item,
+      cache,
       tutorPersonality: aiTutorClient.selectTutorPersonality(body.userProfile),
       generatedAt: new Date().toISOString()
     })
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: 'AI usage budget exceeded', details: error.check.reason, retryAt: error.retryAt?.toISOString() },
+        { status: 429, headers: error.retryAt ? { 'Retry-After': String(error.retryAfterSeconds()) } : undefined }
+      )
+    }
+
     console.error('AI content generation API error:', error)
     return NextResponse.json(
       { error: 'Failed to generate content' },
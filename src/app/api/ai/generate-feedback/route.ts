@@ -1,17 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { aiTutorClient } from '@/lib/ai-client'
 import type { PersonalizedFeedbackRequest } from '@/lib/ai-client'
+import { BudgetExceededError } from '@/lib/ai-budget-manager'
+import { withAICaller } from '@/lib/ai-caller'
 
 export async function POST(request: NextRequest) {
-  try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { error: 'AI service not configured' },
-        { status: 503 }
-      )
-    }
+  return withAICaller(request, () => handlePost(request))
+}
 
+async function handlePost(request: NextRequest) {
+  try {
     const body: PersonalizedFeedbackRequest = await request.json()
 
     // Validate required fields
@@ -35,6 +33,13 @@ export async function POST(request: NextRequest) {
       generatedAt: new Date().toISOString()
     })
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: 'AI usage budget exceeded', details: error.check.reason, retryAt: error.retryAt?.toISOString() },
+        { status: 429, headers: error.retryAt ? { 'Retry-After': String(error.retryAfterSeconds()) } : undefined }
+      )
+    }
+
     console.error('AI feedback generation API error:', error)
     return NextResponse.json(
       { error: 'Failed to generate feedback' },
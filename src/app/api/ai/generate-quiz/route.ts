@@ -1,17 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { aiTutorClient } from '@/lib/ai-client'
 import type { QuizGenerationRequest } from '@/lib/ai-client'
+import { aiResponseCache } from '@/lib/ai-response-cache'
+import { contentSafetyEngine } from '@/lib/content-safety-engine'
+import { BudgetExceededError } from '@/lib/ai-budget-manager'
+import { withAICaller } from '@/lib/ai-caller'
+
+const DIFFICULTY_LEVELS = { beginner: 3, intermediate: 5, advanced: 7 }
 
 export async function POST(request: NextRequest) {
-  try {
-    // Check if OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { error: 'AI service not configured' },
-        { status: 503 }
-      )
-    }
+  return withAICaller(request, () => handlePost(request))
+}
 
+async function handlePost(request: NextRequest) {
+  try {
     const body: QuizGenerationRequest = await request.json()
 
     // Validate required fields
@@ -40,17 +42,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Generate quiz using AI client
-    const questions = await aiTutorClient.generateQuizQuestions(body)
+    // Generate quiz using AI client, sharing results across learners with the same profile bucket
+    const { userProfile, ...cacheableRequest } = body
+    const { value: questions, cache } = await aiResponseCache.getOrGenerate({
+      kind: 'quiz',
+      useCase: 'quiz_generation',
+      request: { ...cacheableRequest },
+      userProfile,
+      generate: () => aiTutorClient.generateQuizQuestions(body),
+      cacheable: generated => !aiTutorClient.isFallbackQuiz(generated)
+    })
+
+    // Learners see and report the quiz as this item
+    const item = contentSafetyEngine.generatedItem({ kind: 'quiz', request: cacheableRequest }, userProfile, {
+      content_type: 'quiz',
+      title: body.topic,
+      description: `${questions.length} question quiz on ${body.topic}`,
+      difficulty: DIFFICULTY_LEVELS[body.difficulty] || 5,
+      estimated_time: questions.length * 2,
+      metadata: { quiz_questions: questions }
+    })
 
     return NextResponse.json({
       questions,
+      item,
+      cache,
       tutorPersonality: aiTutorClient.selectTutorPersonality(body.userProfile),
       generatedAt: new Date().toISOString(),
       topic: body.topic,
       difficulty: body.difficulty
     })
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: 'AI usage budget exceeded', details: error.check.reason, retryAt: error.retryAt?.toISOString() },
+        { status: 429, headers: error.retryAt ? { 'Retry-After': String(error.retryAfterSeconds()) } : undefined }
+      )
+    }
+
     console.error('AI quiz generation API error:', error)
     return NextResponse.json(
       { error: 'Failed to generate quiz' },
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { multiModelAI, generateAIContent, generateSmartQuiz, generatePersonalizedFeedback } from '@/lib/multi-model-ai'
 import { modelFallbackRouter } from '@/lib/model-fallback-router'
+import { aiBudgetManager, BudgetExceededError } from '@/lib/ai-budget-manager'
+import { resolveAuthContext, type AuthContext } from '@/lib/auth-guard'
 import type { AIRequest, UseCase } from '@/lib/multi-model-ai'
 import type { UserProfile } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -18,21 +21,18 @@ interface APIRequest {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   let body: APIRequest | null = null
+  let auth: AuthContext | null = null
   
   try {
-    // Check if at least OpenAI API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      return NextResponse.json(
-        { 
-          error: 'AI service not configured',
-          details: 'OpenAI API key is required for AI functionality'
-        },
-        { status: 503 }
-      )
-    }
-
+    // No key check: MultiModelAI falls back to a local or stub provider when hosted APIs are not configured
     body = await request.json()
+    // Budgets are charged to the session; signed-out requests only count against use-case quotas
+    auth = await resolveAuthContext(request)
 
     // Validate required fields
     if (!body || !body.userProfile || !body.context || !body.useCase) {
@@ -83,14 +83,17 @@ export async function POST(request: NextRequest) {
       priority: body.priority || 'medium',
       maxTokens: body.maxTokens,
       temperature: body.temperature,
-      fallbackRequired: body.fallbackRequired !== false // Default to true
+      fallbackRequired: body.fallbackRequired !== false, // Default to true
+      auth
     }
 
     // Get routing decision from fallback router
+    await aiBudgetManager.hydrate()
     const routingDecision = await modelFallbackRouter.routeRequest(
       body.useCase,
       body.userProfile,
-      body.context
+      body.context,
+      auth
     )
 
     // Track the routing decision
@@ -115,6 +118,8 @@ export async function POST(request: NextRequest) {
       body.userProfile
     )
 
+    await aiBudgetManager.flush()
+
     // Get analytics for monitoring
     const analytics = multiModelAI.getAnalytics()
 
@@ -145,6 +150,21 @@ export async function POST(request: NextRequest) {
     })
 
   } catch (error) {
+    // Quota exhaustion is not a model failure, so it is not recorded in the router
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        {
+          error: 'AI usage budget exceeded',
+          details: error.check.reason,
+          retryAt: error.retryAt?.toISOString()
+        },
+        {
+          status: 429,
+          headers: error.retryAt ? { 'Retry-After': String(error.retryAfterSeconds()) } : undefined
+        }
+      )
+    }
+
     console.error('Multi-model AI API error:', error)
     
     // Record the failed request in the router if we have the necessary info
@@ -153,7 +173,8 @@ export async function POST(request: NextRequest) {
         const routingDecision = await modelFallbackRouter.routeRequest(
           body.useCase,
           body.userProfile,
-          body.context
+          body.context,
+          auth
         )
         
         // Record the failure
@@ -210,10 +231,7 @@ export async function GET() {
     
     return NextResponse.json({
       status: 'healthy',
-      providers: {
-        openai: !!process.env.OPENAI_API_KEY,
-        claude: !!process.env.ANTHROPIC_API_KEY
-      },
+      providers: multiModelAI.getProviderStatus(),
       analytics,
       availableUseCases: [
         'mathematics', 'science', 'programming', 'creative_writing', 'essay_analysis',
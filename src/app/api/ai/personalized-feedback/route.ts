@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generatePersonalizedFeedback } from '@/lib/multi-model-ai'
 import type { UserProfile } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -19,6 +20,10 @@ interface PersonalizedFeedbackRequest {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   let body: PersonalizedFeedbackRequest | undefined
   try {
     body = await request.json()
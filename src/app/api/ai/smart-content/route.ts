@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateAIContent } from '@/lib/multi-model-ai'
-import type { UseCase } from '@/lib/multi-model-ai'
+import { generateAIContent, inferUseCase, streamAIContent } from '@/lib/multi-model-ai'
+import { createEventStreamResponse } from '@/lib/event-stream'
+import { BudgetExceededError } from '@/lib/ai-budget-manager'
+import { resolveAuthContext } from '@/lib/auth-guard'
+import type { AIResponse, UseCase } from '@/lib/multi-model-ai'
 import type { UserProfile } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -11,9 +15,16 @@ interface SmartContentRequest {
   contentType?: 'content' | 'explanation' | 'planning'
   difficulty?: 'beginner' | 'intermediate' | 'advanced'
   length?: 'short' | 'medium' | 'long'
+
+  // Respond with a text/event-stream of token events followed by a done event
+  stream?: boolean
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const body: SmartContentRequest = await request.json()
 
@@ -24,8 +35,11 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Budgets are charged to the session; signed-out requests only count against use-case quotas
+    const auth = await resolveAuthContext(request)
+
     // Determine use case based on subject and topic
-    const useCase = determineUseCase(body.userProfile.subject, body.topic)
+    const useCase = inferUseCase(body.userProfile.subject, body.topic)
     
     // Build context with additional parameters
     let context = `Topic: ${body.topic}`
@@ -38,30 +52,48 @@ export async function POST(request: NextRequest) {
       context += `\nLength: ${body.length}`
     }
 
+    if (body.stream) {
+      return createEventStreamResponse(async writer => {
+        const response = await streamAIContent(
+          useCase,
+          body.userProfile,
+          context,
+          text => writer.send('token', { text }),
+          body.contentType || 'content',
+          auth
+        )
+
+        writer.send('done', {
+          success: true,
+          content: response.content,
+          metadata: buildMetadata(useCase, response)
+        })
+      })
+    }
+
     // Generate content using multi-model AI
     const response = await generateAIContent(
       useCase,
       body.userProfile,
       context,
-      body.contentType || 'content'
+      body.contentType || 'content',
+      auth
     )
 
     return NextResponse.json({
       success: true,
       content: response.content,
-      metadata: {
-        useCase,
-        model: response.model,
-        provider: response.provider,
-        confidence: response.confidence,
-        responseTime: response.responseTime,
-        tokensUsed: response.tokensUsed,
-        fallbackUsed: response.fallbackUsed,
-        generatedAt: new Date().toISOString()
-      }
+      metadata: buildMetadata(useCase, response)
     })
 
   } catch (error) {
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: 'AI usage budget exceeded', details: error.check.reason, retryAt: error.retryAt?.toISOString() },
+        { status: 429, headers: error.retryAt ? { 'Retry-After': String(error.retryAfterSeconds()) } : undefined }
+      )
+    }
+
     console.error('Smart content generation error:', error)
     return NextResponse.json(
       { error: 'Failed to generate smart content' },
@@ -70,62 +102,15 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function determineUseCase(subject: string, topic: string): UseCase {
-  const subjectLower = subject.toLowerCase()
-  const topicLower = topic.toLowerCase()
-
-  // Mathematical subjects
-  if (subjectLower.includes('math') || subjectLower.includes('algebra') || 
-      subjectLower.includes('calculus') || subjectLower.includes('geometry') ||
-      topicLower.includes('equation') || topicLower.includes('formula')) {
-    return 'mathematics'
+function buildMetadata(useCase: UseCase, response: AIResponse) {
+  return {
+    useCase,
+    model: response.model,
+    provider: response.provider,
+    confidence: response.confidence,
+    responseTime: response.responseTime,
+    tokensUsed: response.tokensUsed,
+    fallbackUsed: response.fallbackUsed,
+    generatedAt: new Date().toISOString()
   }
-
-  // Science subjects
-  if (subjectLower.includes('science') || subjectLower.includes('physics') ||
-      subjectLower.includes('chemistry') || subjectLower.includes('biology')) {
-    return 'science'
-  }
-
-  // Programming and technology
-  if (subjectLower.includes('programming') || subjectLower.includes('coding') ||
-      subjectLower.includes('computer') || subjectLower.includes('software') ||
-      topicLower.includes('code') || topicLower.includes('algorithm')) {
-    return 'programming'
-  }
-
-  // Writing and language
-  if (subjectLower.includes('writing') || subjectLower.includes('english') ||
-      subjectLower.includes('literature') || topicLower.includes('essay') ||
-      topicLower.includes('story') || topicLower.includes('creative')) {
-    return 'creative_writing'
-  }
-
-  // Language learning
-  if (subjectLower.includes('language') || subjectLower.includes('spanish') ||
-      subjectLower.includes('french') || subjectLower.includes('german') ||
-      subjectLower.includes('chinese') || subjectLower.includes('japanese')) {
-    return 'language_learning'
-  }
-
-  // History
-  if (subjectLower.includes('history') || topicLower.includes('historical') ||
-      topicLower.includes('ancient') || topicLower.includes('war')) {
-    return 'history'
-  }
-
-  // Philosophy
-  if (subjectLower.includes('philosophy') || topicLower.includes('ethical') ||
-      topicLower.includes('moral') || topicLower.includes('philosophical')) {
-    return 'philosophy'
-  }
-
-  // Business
-  if (subjectLower.includes('business') || subjectLower.includes('marketing') ||
-      subjectLower.includes('finance') || subjectLower.includes('management')) {
-    return 'business'
-  }
-
-  // Default to general tutoring
-  return 'general_tutoring'
-}
\ No newline at end of file
+}
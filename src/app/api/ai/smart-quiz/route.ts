@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { generateSmartQuiz } from '@/lib/multi-model-ai'
 import type { UserProfile } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -14,6 +15,10 @@ interface SmartQuizRequest {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   let body: SmartQuizRequest | undefined
   try {
     body = await request.json()
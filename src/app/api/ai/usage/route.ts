@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  aiBudgetManager,
+  ANY_SCOPE_ID,
+  type BudgetPeriod,
+  type BudgetPolicy,
+  type BudgetScope
+} from '@/lib/ai-budget-manager'
+import {
+  requireAuth,
+  authorize,
+  authErrorResponse,
+  type AccessRule,
+  type AccessSubject
+} from '@/lib/auth-guard'
+
+interface UsageRequest {
+  action: 'set_policy' | 'remove_policy'
+
+  // For set_policy
+  policy?: Pick<BudgetPolicy, 'scope' | 'scopeId' | 'period'> &
+    Partial<Pick<BudgetPolicy, 'maxTokens' | 'maxCostUsd' | 'degradeThreshold' | 'enforcement'>>
+
+  // For remove_policy
+  policyId?: string
+}
+
+const SCOPES: BudgetScope[] = ['user', 'organization', 'use_case']
+const PERIODS: BudgetPeriod[] = ['daily', 'monthly']
+
+// Org admins set their own organization's quota; user, use-case and wildcard quotas are platform-wide
+const MANAGE_POLICY: AccessRule = { roles: ['org_admin'] }
+
+function policySubject(policy: Pick<BudgetPolicy, 'scope' | 'scopeId'>): AccessSubject {
+  return policy.scope === 'organization' && policy.scopeId !== ANY_SCOPE_ID
+    ? { organizationId: policy.scopeId }
+    : {}
+}
+
+// GET /api/ai/usage?scope=organization&scopeId=...&period=monthly
+// Without scopeId, returns the top consumers for the scope in the current period
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const scope = (searchParams.get('scope') || 'user') as BudgetScope
+    const period = (searchParams.get('period') || 'monthly') as BudgetPeriod
+    const scopeId = searchParams.get('scopeId')
+    const date = searchParams.get('date')
+
+    if (!SCOPES.includes(scope) || !PERIODS.includes(period)) {
+      return NextResponse.json(
+        { error: 'Invalid scope or period', validScopes: SCOPES, validPeriods: PERIODS },
+        { status: 400 }
+      )
+    }
+
+    await aiBudgetManager.hydrate()
+
+    if (!scopeId) {
+      const limit = Number(searchParams.get('limit')) || 10
+      return NextResponse.json({
+        success: true,
+        scope,
+        period,
+        topConsumers: aiBudgetManager.getTopConsumers(scope, period, limit),
+        policies: aiBudgetManager.listPolicies(scope)
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      report: aiBudgetManager.getUsageReport(scope, scopeId, period, date ? new Date(date) : new Date())
+    })
+  } catch (error) {
+    console.error('AI usage report error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load AI usage' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const body: UsageRequest = await request.json()
+    await aiBudgetManager.hydrate()
+
+    let response: Record<string, any>
+
+    switch (body.action) {
+      case 'set_policy':
+        if (!body.policy || !SCOPES.includes(body.policy.scope) || !PERIODS.includes(body.policy.period) || !body.policy.scopeId) {
+          return NextResponse.json({ error: 'Missing or invalid policy scope, scopeId or period' }, { status: 400 })
+        }
+        if (!body.policy.maxTokens && !body.policy.maxCostUsd) {
+          return NextResponse.json({ error: 'Policy needs maxTokens or maxCostUsd' }, { status: 400 })
+        }
+        authorize(auth, MANAGE_POLICY, policySubject(body.policy))
+        response = { policy: aiBudgetManager.setPolicy(body.policy) }
+        break
+
+      case 'remove_policy': {
+        if (!body.policyId) {
+          return NextResponse.json({ error: 'Missing policyId' }, { status: 400 })
+        }
+        const policy = aiBudgetManager.listPolicies().find(candidate => candidate.policyId === body.policyId)
+        if (!policy) {
+          return NextResponse.json({ error: 'Policy not found' }, { status: 404 })
+        }
+        authorize(auth, MANAGE_POLICY, policySubject(policy))
+        response = { removed: aiBudgetManager.removePolicy(body.policyId) }
+        break
+      }
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action. Must be: set_policy or remove_policy' },
+          { status: 400 }
+        )
+    }
+
+    await aiBudgetManager.flush()
+    return NextResponse.json({ success: true, action: body.action, ...response })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('AI usage policy error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update AI budget policy' },
+      { status: 500 }
+    )
+  }
+}
@@ -3,13 +3,14 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import { multiModelAI } from '@/lib/multi-model-ai'
+import { withAICaller } from '@/lib/ai-caller'
 
 export async function GET(request: NextRequest) {
+  return withAICaller(request, () => handleGet(request))
+}
+
+async function handleGet(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url)
     const userId = searchParams.get('user_id')
@@ -278,13 +279,6 @@ async function generateAIInsights(
   engagement: any, 
   performance: any
 ): Promise<string[]> {
-  if (!process.env.OPENAI_API_KEY) {
-    return [
-      "AI insights require OpenAI API configuration",
-      "Contact support to enable personalized AI recommendations"
-    ]
-  }
-
   try {
     const prompt = `Analyze this learner's data and provide 3-5 personalized insights:
 
@@ -311,18 +305,22 @@ Please provide specific, actionable insights focusing on:
 
 Keep insights encouraging and specific to this learner's patterns.`
 
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 500,
-      temperature: 0.7
+    const response = await multiModelAI.generateContent({
+      useCase: 'study_planning',
+      userProfile: { id: profile.id, subject: profile.subjects?.[0] || 'general', age_group: profile.age_group, use_case: profile.use_case } as any,
+      context: prompt,
+      requestType: 'planning',
+      priority: 'low',
+      prompt,
+      maxTokens: 500,
+      temperature: 0.7,
+      fallbackRequired: false
     })
 
-    const aiResponse = completion.choices[0]?.message?.content || ''
-    return aiResponse.split('\n').filter(line => line.trim().length > 0).slice(0, 5)
+    return response.content.split('\n').filter(line => line.trim().length > 0).slice(0, 5)
 
   } catch (error) {
-    console.error('OpenAI insights generation error:', error)
+    console.error('AI insights generation error:', error)
     return [
       "Personalized AI insights are temporarily unavailable",
       "Your learning analytics show consistent engagement patterns",
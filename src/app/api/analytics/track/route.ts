@@ -4,14 +4,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { supabaseAdmin } from '@/lib/supabase'
 import { AnalyticsEvent } from '@/lib/analytics'
+import { offlineReplayService } from '@/lib/offline-replay'
+import { resolveAuthContext } from '@/lib/auth-guard'
 
 interface TrackingRequest {
   events: AnalyticsEvent[]
+  batchId?: string // set when replaying a batch queued offline, so a retried batch is stored once
 }
 
 export async function POST(request: NextRequest) {
   try {
-    const { events }: TrackingRequest = await request.json()
+    const { events, batchId }: TrackingRequest = await request.json()
 
     if (!events || !Array.isArray(events) || events.length === 0) {
       return NextResponse.json(
@@ -20,6 +23,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Replayed batch ids belong to the signed-in user who queued them
+    const userId = batchId ? (await resolveAuthContext(request))?.userId || null : null
+    if (batchId) {
+      await offlineReplayService.hydrate()
+      // Claimed before the insert so two concurrent retries cannot both store the batch
+      if (!await offlineReplayService.reserve(batchId, userId, 'analytics_batch')) {
+        return NextResponse.json({
+          success: true,
+          processed: 0,
+          duplicate: true,
+          message: 'Batch already tracked'
+        })
+      }
+    }
+
     // Validate and sanitize events
     const validEvents = events
       .filter(event => event.event_type && event.session_id && event.timestamp)
@@ -36,6 +54,7 @@ export async function POST(request: NextRequest) {
       }))
 
     if (validEvents.length === 0) {
+      if (batchId) await releaseBatch(batchId, userId)
       return NextResponse.json(
         { error: 'No valid events to process' },
         { status: 400 }
@@ -49,6 +68,7 @@ export async function POST(request: NextRequest) {
 
     if (insertError) {
       console.error('Database insert error:', insertError)
+      if (batchId) await releaseBatch(batchId, userId)
       return NextResponse.json(
         { error: 'Failed to store events' },
         { status: 500 }
@@ -77,6 +97,12 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Let a client retry a batch that was not stored
+async function releaseBatch(batchId: string, userId: string | null): Promise<void> {
+  offlineReplayService.release(batchId, userId)
+  await offlineReplayService.flush()
+}
+
 // Update user engagement metrics in real-time
 async function updateUserEngagementMetrics(events: AnalyticsEvent[]): Promise<void> {
   const userEvents = events.filter(e => e.user_id)
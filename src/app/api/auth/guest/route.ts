@@ -1,11 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
+import {
+  createGuestSessionToken,
+  GUEST_SESSION_COOKIE,
+  GUEST_SESSION_TTL_SECONDS
+} from '@/lib/request-identity'
 
 export async function POST(request: NextRequest) {
   try {
     // Create a guest user session for testing
+    const guestId = `guest_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     const guestUser = {
-      id: `guest_${Date.now()}`,
-      email: `guest_${Date.now()}@demo.app`,
+      id: guestId,
+      email: `${guestId}@demo.app`,
       name: 'Guest User',
       subject: 'mathematics',
       level: 'beginner',
@@ -14,17 +20,30 @@ export async function POST(request: NextRequest) {
       is_guest: true
     }
 
-    return NextResponse.json({
+    // Signed token identifies the guest to the API rate limiter (cookie or x-guest-session header)
+    const accessToken = await createGuestSessionToken(guestId)
+
+    const response = NextResponse.json({
       success: true,
       user: guestUser,
       session: {
-        access_token: `guest_token_${Date.now()}`,
+        access_token: accessToken,
         user: guestUser,
-        expires_at: Date.now() + (24 * 60 * 60 * 1000) // 24 hours
+        expires_at: Date.now() + GUEST_SESSION_TTL_SECONDS * 1000 // 24 hours
       },
       message: 'Guest session created! You can explore all features.'
     })
 
+    response.cookies.set(GUEST_SESSION_COOKIE, accessToken, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: GUEST_SESSION_TTL_SECONDS
+    })
+
+    return response
+
   } catch (error) {
     console.error('Guest login error:', error)
     return NextResponse.json(
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { getIssuerProfile, BadgeError } from '@/lib/open-badges'
+
+export const runtime = 'nodejs'
+
+// Issuer profile: verifiers resolve a badge's issuer and proof.verificationMethod to this document
+export async function GET() {
+  try {
+    return NextResponse.json(getIssuerProfile(), {
+      headers: { 'Cache-Control': 'public, max-age=300' }
+    })
+  } catch (error) {
+    const status = error instanceof BadgeError ? error.status : 500
+    return NextResponse.json(
+      { error: error instanceof BadgeError ? error.message : 'Failed to load issuer profile' },
+      { status }
+    )
+  }
+}
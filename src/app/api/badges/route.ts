@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  openBadgesIssuer,
+  BadgeError,
+  getIssuerId,
+  getStatusListUrl,
+  type WalletBadge,
+  type BadgeRecord,
+  type OpenBadgeCredential
+} from '@/lib/open-badges'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+interface BadgesRequest {
+  action: 'get_wallet' | 'get_credential' | 'revoke_badge'
+  userId?: string
+  credentialId?: string
+  revocationReason?: string
+}
+
+interface BadgesResponse {
+  success: boolean
+  action: string
+  badges?: WalletBadge[]
+  credential?: OpenBadgeCredential
+  badge?: Omit<BadgeRecord, 'credential'>
+}
+
+// A learner's wallet is theirs and their parents'
+const VIEW_WALLET: AccessRule = { roles: [], allowSelf: true, allowGuardian: true }
+// Certification badges belong to the company that certified; its admins may withdraw them. Other badges
+// are the platform's, so only platform admins may.
+const REVOKE_CERTIFICATION_BADGE: AccessRule = { roles: ['org_admin'] }
+const REVOKE_BADGE: AccessRule = { roles: [] }
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: BadgesRequest = await request.json()
+    if (!body.action) {
+      return NextResponse.json({ error: 'Missing required field: action' }, { status: 400 })
+    }
+
+    const auth = await requireAuth(request)
+    await openBadgesIssuer.hydrate()
+
+    let response: BadgesResponse
+    switch (body.action) {
+      case 'get_wallet': {
+        const userId = body.userId || auth.userId
+        authorize(auth, VIEW_WALLET, { userIds: [userId] })
+        response = { success: true, action: body.action, badges: await openBadgesIssuer.getWallet(userId) }
+        break
+      }
+
+      case 'get_credential': {
+        const badge = body.credentialId ? openBadgesIssuer.getBadge(body.credentialId) : null
+        if (!badge) {
+          throw new BadgeError('Badge not found', 404)
+        }
+        authorize(auth, VIEW_WALLET, { userIds: [badge.userId] })
+        response = { success: true, action: body.action, credential: badge.credential }
+        break
+      }
+
+      case 'revoke_badge': {
+        if (!body.credentialId || !body.revocationReason) {
+          throw new BadgeError('Missing credentialId or revocationReason')
+        }
+        const badge = openBadgesIssuer.getBadge(body.credentialId)
+        if (!badge) {
+          throw new BadgeError('Badge not found', 404)
+        }
+        if (badge.source === 'certification' && badge.organizationId) {
+          authorize(auth, REVOKE_CERTIFICATION_BADGE, { organizationId: badge.organizationId })
+        } else {
+          authorize(auth, REVOKE_BADGE)
+        }
+
+        const { credential, ...revoked } = openBadgesIssuer.revokeBadge(body.credentialId, body.revocationReason)!
+        response = { success: true, action: body.action, badge: revoked }
+        break
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    await openBadgesIssuer.flush()
+    return NextResponse.json(response)
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+    if (error instanceof BadgeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Badges API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process badges request' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Open Badges API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        description: 'Badge wallet and revocation',
+        actions: ['get_wallet', 'get_credential', 'revoke_badge']
+      },
+      'POST /api/badges/verify': {
+        description: 'Verify a presented credential (fields: credential or credentialId)'
+      },
+      'GET /api/badges/issuer': {
+        description: 'Issuer profile with the verification key'
+      },
+      'GET /api/badges/status': {
+        description: 'Signed Bitstring Status List of revoked badges'
+      }
+    },
+    issuer: getIssuerId(),
+    statusList: getStatusListUrl(),
+    format: 'Open Badges 3.0 / W3C Verifiable Credentials 2.0, Data Integrity proof (eddsa-jcs-2022)',
+    sources: ['achievement', 'skill', 'challenge', 'certification']
+  })
+}
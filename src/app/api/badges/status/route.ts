@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { openBadgesIssuer, BadgeError } from '@/lib/open-badges'
+
+export const runtime = 'nodejs'
+
+// Revocation list: a signed Bitstring Status List every issued badge points at
+export async function GET() {
+  try {
+    await openBadgesIssuer.hydrate()
+    const statusList = openBadgesIssuer.getStatusListCredential()
+    // Revoking a certification revokes its badge as the list is built
+    await openBadgesIssuer.flush()
+
+    return NextResponse.json(statusList, {
+      headers: { 'Cache-Control': 'public, max-age=60' }
+    })
+  } catch (error) {
+    if (error instanceof BadgeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Badge status list error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build revocation list' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { openBadgesIssuer, BadgeError, type OpenBadgeCredential } from '@/lib/open-badges'
+
+export const runtime = 'nodejs'
+
+interface VerifyBadgeRequest {
+  credential?: OpenBadgeCredential // the credential as presented by its holder
+  credentialId?: string // or the id of one issued here
+}
+
+// Public: anyone a learner shares a badge with (an employer, another school) may check it
+export async function POST(request: NextRequest) {
+  try {
+    const body: VerifyBadgeRequest = await request.json()
+    if (!body.credential && !body.credentialId) {
+      return NextResponse.json({ error: 'Missing required field: credential or credentialId' }, { status: 400 })
+    }
+
+    await openBadgesIssuer.hydrate()
+    const credential = body.credential || openBadgesIssuer.getBadge(body.credentialId!)?.credential
+    if (!credential) {
+      return NextResponse.json({ error: 'Credential not found' }, { status: 404 })
+    }
+
+    const verification = openBadgesIssuer.verifyCredential(credential)
+    await openBadgesIssuer.flush()
+    return NextResponse.json({ success: true, verification })
+  } catch (error) {
+    if (error instanceof BadgeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Badge verification error:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify badge' },
+      { status: 500 }
+    )
+  }
+}
@@ -9,6 +9,7 @@ import {
   type LearningChallenge,
   type UserProgress
 } from '@/lib/community-learning-engine'
+import { AuthError, authErrorResponse, requireAuth, type AuthContext } from '@/lib/auth-guard'
 
 export const maxDuration = 30
 
@@ -106,10 +107,77 @@ interface CommunityLearningResponse {
   }
 }
 
+// Browsing communities and their content is open to everyone; every other action is taken as the signed-in member
+const PUBLIC_ACTIONS: CommunityLearningRequest['action'][] = [
+  'get_member', 'get_community', 'search_communities', 'get_content', 'get_content_by_community',
+  'get_posts_by_community', 'get_comments_by_post', 'get_comments_by_content', 'get_active_challenges',
+  'get_challenges_by_community', 'get_trending_content', 'get_featured_communities', 'search_content'
+]
+
+function isModerator(auth: AuthContext, communityId?: string): boolean {
+  if (auth.isPlatformAdmin) return true
+  return !!communityId && !!communityLearningEngine.getCommunity(communityId)?.moderators.includes(auth.userId)
+}
+
+/**
+ * Pin the acting member, creator and author fields to the caller, and let only authors and community
+ * moderators change what they own. Throws a 403 AuthError otherwise.
+ */
+function authorizeCommunityAction(auth: AuthContext, body: CommunityLearningRequest): void {
+  const deny = () => { throw new AuthError('You do not have permission to perform this action', 403) }
+
+  body.memberId = body.memberId || auth.userId
+  if (body.memberId !== auth.userId) {
+    throw new AuthError('Cannot act on behalf of another member', 403)
+  }
+
+  switch (body.action) {
+    case 'create_member':
+      if (body.member) body.member.memberId = auth.userId
+      break
+    case 'update_member':
+      if (body.memberUpdates) body.memberUpdates.memberId = body.memberId
+      break
+    case 'create_community':
+      if (body.community?.metadata) body.community.metadata.createdBy = auth.userId
+      break
+    case 'update_community':
+    case 'generate_community_analytics':
+      if (!isModerator(auth, body.communityId)) deny()
+      break
+    case 'create_content':
+      if (body.content) body.content.createdBy = auth.userId
+      break
+    case 'update_content': {
+      const content = body.contentId ? communityLearningEngine.getContent(body.contentId) : null
+      if (content && content.createdBy !== auth.userId && !isModerator(auth, content.communityId)) deny()
+      if (content && body.contentUpdates) body.contentUpdates.createdBy = content.createdBy
+      break
+    }
+    case 'create_post':
+      if (body.post) body.post.authorId = auth.userId
+      break
+    case 'update_post': {
+      const post = body.postId ? communityLearningEngine.getPost(body.postId) : null
+      if (post && post.authorId !== auth.userId && !isModerator(auth, post.communityId)) deny()
+      if (post && body.postUpdates) body.postUpdates.authorId = post.authorId
+      break
+    }
+    case 'create_comment':
+      if (body.comment) body.comment.authorId = auth.userId
+      break
+    case 'create_challenge':
+      if (!isModerator(auth, body.challenge?.communityId)) deny()
+      if (body.challenge) body.challenge.createdBy = auth.userId
+      break
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: CommunityLearningRequest = await request.json()
+    await communityLearningEngine.hydrate()
 
     if (!body.action) {
       return NextResponse.json(
@@ -118,6 +186,10 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!PUBLIC_ACTIONS.includes(body.action)) {
+      authorizeCommunityAction(await requireAuth(request), body)
+    }
+
     let response: Partial<CommunityLearningResponse> = {
       success: true,
       action: body.action
@@ -285,9 +357,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await communityLearningEngine.flush()
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Community Learning API error:', error)
     return NextResponse.json(
       { 
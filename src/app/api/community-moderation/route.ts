@@ -9,6 +9,15 @@ import {
   type ReportEvidence
 } from '@/lib/community-moderation-engine'
 import type { UserProfile } from '@/types'
+import {
+  requireAuth,
+  authorize,
+  hasRole,
+  authErrorResponse,
+  AuthError,
+  type AccessRule
+} from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -93,11 +102,33 @@ interface CommunityModerationAPIResponse {
   }
 }
 
+// Any learner can report and vote; reviewing, resolving and queue/metrics access is for moderators
+const ACTION_ACCESS: Record<CommunityModerationAPIRequest['action'], AccessRule> = {
+  submit_report: { roles: ['learner'] },
+  submit_vote: { roles: ['learner'] },
+  moderator_review: { roles: ['moderator'] },
+  get_queue: { roles: ['moderator'] },
+  get_reports: { roles: ['learner'] },
+  get_metrics: { roles: ['moderator'] },
+  resolve_report: { roles: ['moderator'] }
+}
+
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: CommunityModerationAPIRequest = await request.json()
 
+    // Reports, votes and reviews are always attributed to the signed-in user
+    const auth = await requireAuth(request)
+    body.userId = body.userId || auth.userId
+    if (body.userId !== auth.userId || (body.userProfile && body.userProfile.id !== auth.userId)) {
+      throw new AuthError('Cannot act on behalf of another user', 403)
+    }
+
     if (!body.action || !body.userId) {
       return NextResponse.json(
         { error: 'Missing required fields: action, userId' },
@@ -105,6 +136,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    authorize(auth, ACTION_ACCESS[body.action])
+
+    // Only moderators may browse other users' reports
+    if (body.action === 'get_reports' && !hasRole(auth, 'moderator')) {
+      body.filters = { ...body.filters, myReportsOnly: true }
+    }
+
+    await communityModerationEngine.hydrate()
+
     let response: Partial<CommunityModerationAPIResponse> = {
       success: true,
       action: body.action
@@ -146,6 +186,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await communityModerationEngine.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: CommunityModerationAPIResponse = {
@@ -164,6 +206,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Community moderation API error:', error)
     return NextResponse.json(
       { error: 'Failed to process community moderation request' },
@@ -7,17 +7,24 @@ import {
   type ContentInteraction,
   type RecommendationAnalytics
 } from '@/lib/content-recommendation-engine'
+import type { BanditReport } from '@/lib/contextual-bandit'
+import type { LearningStyleProfile } from '@/lib/learning-style-engine'
 import type { UserProfile, ContentItem } from '@/types'
 import type { LearningObjective } from '@/lib/intelligent-sequencing-engine'
 import type { ObjectiveProgress } from '@/lib/objective-tracking-engine'
 import type { UserMasteryProfile } from '@/lib/mastery-progression-engine'
+import { AuthError, authErrorResponse, authorize, requireAuth, type AccessRule } from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
+// Algorithm weights and the cross-learner bandit report are platform-wide, so only platform admins touch them
+const MANAGE_RECOMMENDER: AccessRule = { roles: [] }
+
 interface ContentRecommendationAPIRequest {
   userId: string
   userProfile: UserProfile
-  action: 'generate_recommendations' | 'record_interaction' | 'get_analytics' | 'optimize_weights' | 'get_similarity'
+  action: 'generate_recommendations' | 'record_interaction' | 'get_analytics' | 'optimize_weights' | 'get_similarity' | 'get_bandit_report'
   
   // For generate_recommendations
   currentObjectives?: LearningObjective[]
@@ -31,6 +38,7 @@ interface ContentRecommendationAPIRequest {
   masteryProfile?: UserMasteryProfile
   targetSkills?: string[]
   progressionPriority?: 'mastery' | 'exploration' | 'review' | 'challenge'
+  learningStyleProfile?: LearningStyleProfile
   
   // For record_interaction
   contentId?: string
@@ -45,6 +53,9 @@ interface ContentRecommendationAPIRequest {
   // For get_similarity
   contentId1?: string
   contentId2?: string
+
+  // For get_bandit_report
+  scope?: 'user' | 'all'
 }
 
 interface ContentRecommendationAPIResponse {
@@ -62,6 +73,9 @@ interface ContentRecommendationAPIResponse {
   
   // Optimization results
   optimizationComplete?: boolean
+
+  // Strategy selection results
+  banditReport?: BanditReport
   
   metadata: {
     userId: string
@@ -74,10 +88,24 @@ interface ContentRecommendationAPIResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: ContentRecommendationAPIRequest = await request.json()
 
+    // Recommendations, interactions and analytics belong to the signed-in user
+    const auth = await requireAuth(request)
+    body.userId = body.userId || auth.userId
+    if (body.userId !== auth.userId || (body.userProfile && body.userProfile.id !== auth.userId)) {
+      throw new AuthError('Cannot act on behalf of another user', 403)
+    }
+    if (body.action === 'optimize_weights' || (body.action === 'get_bandit_report' && body.scope === 'all')) {
+      authorize(auth, MANAGE_RECOMMENDER)
+    }
+
     if (!body.userId || !body.userProfile || !body.action) {
       return NextResponse.json(
         { error: 'Missing required fields: userId, userProfile, action' },
@@ -85,6 +113,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await contentRecommendationEngine.hydrate()
+
     let response: Partial<ContentRecommendationAPIResponse> = {
       success: true,
       action: body.action
@@ -110,14 +140,20 @@ export async function POST(request: NextRequest) {
       case 'get_similarity':
         response = await handleGetSimilarity(body)
         break
+
+      case 'get_bandit_report':
+        response = handleGetBanditReport(body)
+        break
         
       default:
         return NextResponse.json(
-          { error: 'Invalid action. Must be: generate_recommendations, record_interaction, get_analytics, optimize_weights, or get_similarity' },
+          { error: 'Invalid action. Must be: generate_recommendations, record_interaction, get_analytics, optimize_weights, get_similarity, or get_bandit_report' },
           { status: 400 }
         )
     }
 
+    await contentRecommendationEngine.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: ContentRecommendationAPIResponse = {
@@ -137,6 +173,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Content recommendation API error:', error)
     return NextResponse.json(
       { error: 'Failed to process content recommendation request' },
@@ -164,7 +203,8 @@ async function handleGenerateRecommendations(body: ContentRecommendationAPIReque
     diversityFactor: body.diversityFactor || 0.7,
     masteryProfile: body.masteryProfile,
     targetSkills: body.targetSkills,
-    progressionPriority: body.progressionPriority
+    progressionPriority: body.progressionPriority,
+    learningStyleProfile: body.learningStyleProfile
   }
 
   const recommendations = await contentRecommendationEngine.generateRecommendations(
@@ -237,6 +277,13 @@ async function handleGetSimilarity(body: ContentRecommendationAPIRequest): Promi
   }
 }
 
+// Handle strategy selection report, for the caller or across all learners
+function handleGetBanditReport(body: ContentRecommendationAPIRequest): Partial<ContentRecommendationAPIResponse> {
+  return {
+    banditReport: contentRecommendationEngine.getBanditReport(body.scope === 'all' ? undefined : body.userId)
+  }
+}
+
 // Generate mock content library for testing
 function generateMockContentLibrary(userProfile: UserProfile): ContentItem[] {
   const subject = userProfile.subject || 'General'
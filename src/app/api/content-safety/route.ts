@@ -7,6 +7,7 @@ import {
   type SafetyMetrics
 } from '@/lib/content-safety-engine'
 import type { UserProfile, ContentItem } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -62,6 +63,10 @@ interface ContentSafetyAPIResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: ContentSafetyAPIRequest = await request.json()
@@ -73,6 +78,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await contentSafetyEngine.hydrate()
+
     let response: Partial<ContentSafetyAPIResponse> = {
       success: true,
       action: body.action
@@ -106,6 +113,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await contentSafetyEngine.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: ContentSafetyAPIResponse = {
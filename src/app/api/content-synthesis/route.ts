@@ -7,6 +7,7 @@ import {
   type ConceptNetwork,
   type SynthesisProgress
 } from '@/lib/content-synthesis-engine'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 60
 
@@ -70,6 +71,10 @@ const activeSyntheses = new Map<string, {
 }>()
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: ContentSynthesisApiRequest = await request.json()
@@ -408,7 +413,7 @@ async function handleSearchSyntheses(body: ContentSynthesisApiRequest): Promise<
     throw new Error('Missing required field: query')
   }
   
-  const syntheses = contentSynthesisEngine.searchSyntheses(body.query)
+  const syntheses = await contentSynthesisEngine.searchSyntheses(body.query)
   
   return { syntheses }
 }
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { corporateTrainingEngine } from '@/lib/corporate-training-engine'
+import {
+  CertificateError,
+  getCertificatePublicKey,
+  renderCertificatePdf,
+  verifyCertificate
+} from '@/lib/compliance-certificates'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+
+export const runtime = 'nodejs'
+
+interface VerifyCertificateRequest {
+  serial: string
+  signature?: string // as printed on the certificate being checked
+}
+
+// Employees download their own certificates; their manager and the company's admins may too
+const DOWNLOAD_CERTIFICATE: AccessRule = { roles: ['org_admin'], allowSelf: true, allowManager: true }
+
+function certificateErrorResponse(error: unknown) {
+  if (error instanceof CertificateError) {
+    return NextResponse.json({ error: error.message }, { status: error.status })
+  }
+  return null
+}
+
+// Public: anyone holding a certificate (an auditor, a prospective employer) may check it
+export async function POST(request: NextRequest) {
+  try {
+    const body: VerifyCertificateRequest = await request.json()
+    if (!body.serial) {
+      return NextResponse.json({ error: 'Missing required field: serial' }, { status: 400 })
+    }
+
+    await corporateTrainingEngine.hydrate()
+    const verification = verifyCertificate(body.serial, body.signature)
+    return NextResponse.json({ success: true, verification })
+  } catch (error) {
+    const certificateResponse = certificateErrorResponse(error)
+    if (certificateResponse) return certificateResponse
+
+    console.error('Certificate verification error:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify certificate' },
+      { status: 500 }
+    )
+  }
+}
+
+// ?employeeId=&certificationId= downloads the signed PDF; without them, describes the API and the signing key
+export async function GET(request: NextRequest) {
+  const employeeId = request.nextUrl.searchParams.get('employeeId')
+  const certificationId = request.nextUrl.searchParams.get('certificationId')
+
+  try {
+    if (!employeeId || !certificationId) {
+      return NextResponse.json({
+        message: 'Compliance Certificates API',
+        version: '1.0.0',
+        endpoints: {
+          GET: {
+            description: 'Download a signed PDF certificate (query: employeeId, certificationId)'
+          },
+          POST: {
+            description: 'Verify a certificate by its serial, optionally with the signature printed on it (fields: serial, signature)'
+          }
+        },
+        signingKey: getCertificatePublicKey()
+      })
+    }
+
+    const auth = await requireAuth(request)
+    await corporateTrainingEngine.hydrate()
+    const employee = corporateTrainingEngine.getEmployeeProfile(employeeId)
+    if (!employee) {
+      return NextResponse.json({ error: 'Employee not found' }, { status: 404 })
+    }
+    authorize(auth, DOWNLOAD_CERTIFICATE, {
+      userIds: [employeeId],
+      organizationId: employee.companyId,
+      managerId: employee.manager
+    })
+
+    const { filename, pdf } = renderCertificatePdf(employeeId, certificationId)
+    await corporateTrainingEngine.flush()
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+    const certificateResponse = certificateErrorResponse(error)
+    if (certificateResponse) return certificateResponse
+
+    console.error('Certificate download error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate certificate' },
+      { status: 500 }
+    )
+  }
+}
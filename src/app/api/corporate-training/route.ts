@@ -5,8 +5,27 @@ import {
   type CompanyProfile,
   type TrainingProgram,
   type EmployeeProgress,
-  type LearningRecommendation
+  type LearningRecommendation,
+  type Certification,
+  type ComplianceCycleSummary,
+  type EnrollmentRule
 } from '@/lib/corporate-training-engine'
+import { signComplianceReport } from '@/lib/compliance-certificates'
+import {
+  hrisProvisioningService,
+  ScimError,
+  type ScimTokenSummary,
+  type EmployeeImportResult
+} from '@/lib/hris-provisioning'
+import { notificationService } from '@/lib/notification-service'
+import {
+  requireAuth,
+  authorize,
+  authErrorResponse,
+  AuthError,
+  type AccessRule,
+  type AccessSubject
+} from '@/lib/auth-guard'
 
 export const maxDuration = 30
 
@@ -14,7 +33,13 @@ interface CorporateTrainingRequest {
   action: 'create_employee' | 'update_employee' | 'get_employee' | 'get_employees_by_department' | 
           'create_program' | 'update_program' | 'get_program' | 'get_programs' |
           'enroll_employee' | 'update_progress' | 'get_progress' |
-          'generate_analytics' | 'get_recommendations' | 'get_company_overview'
+          'generate_analytics' | 'get_recommendations' | 'get_company_overview' |
+          'create_company' | 'update_company' | 'get_company' |
+          'issue_certification' | 'revoke_certification' | 'get_certifications' |
+          'run_compliance_cycle' | 'get_compliance_report' |
+          'deactivate_employee' | 'import_employees_csv' |
+          'create_scim_token' | 'list_scim_tokens' | 'revoke_scim_token' |
+          'create_enrollment_rule' | 'update_enrollment_rule' | 'delete_enrollment_rule' | 'get_enrollment_rules'
   
   // Employee actions
   employeeProfile?: EmployeeProfile
@@ -24,6 +49,39 @@ interface CorporateTrainingRequest {
   department?: string
   managerId?: string
   
+  // Company actions
+  companyProfile?: CompanyProfile
+  companyUpdates?: Partial<CompanyProfile>
+  
+  // Certification actions
+  certificationData?: {
+    name: string
+    programId?: string
+    issuedAt?: string
+    expiresAt?: string
+  }
+  certificationId?: string
+  revocationReason?: string
+  reportOptions?: {
+    department?: string
+    asOf?: string
+  }
+  
+  // Provisioning actions
+  csv?: string
+  importOptions?: {
+    dryRun?: boolean
+    deactivateMissing?: boolean // deactivate active employees missing from the file
+    delimiter?: string
+  }
+  tokenName?: string
+  tokenId?: string
+  
+  // Enrollment rule actions
+  enrollmentRule?: Omit<EnrollmentRule, 'ruleId' | 'createdAt' | 'active'> & Partial<Pick<EnrollmentRule, 'active'>>
+  ruleId?: string
+  ruleUpdates?: Partial<Omit<EnrollmentRule, 'ruleId' | 'companyId' | 'createdAt'>>
+  
   // Program actions
   trainingProgram?: TrainingProgram
   programId?: string
@@ -63,6 +121,18 @@ interface CorporateTrainingResponse {
   analytics?: any
   recommendations?: LearningRecommendation[]
   overview?: any
+  company?: CompanyProfile
+  certification?: Certification
+  certifications?: Certification[]
+  complianceCycle?: ComplianceCycleSummary
+  complianceReport?: any
+  reportSignature?: { signature: string; signingKeyId: string }
+  importResult?: EmployeeImportResult
+  scimToken?: string // shown once, at creation
+  scimTokens?: ScimTokenSummary[]
+  enrollmentRule?: EnrollmentRule
+  enrollmentRules?: EnrollmentRule[]
+  deleted?: boolean
   
   metadata: {
     processingTime: number
@@ -70,10 +140,76 @@ interface CorporateTrainingResponse {
   }
 }
 
+// Company-wide data is for the company's admins; an employee's own records are also open to them and their manager
+const ACTION_ACCESS: Record<CorporateTrainingRequest['action'], AccessRule> = {
+  create_employee: { roles: ['org_admin'] },
+  update_employee: { roles: ['org_admin'] },
+  get_employee: { roles: ['org_admin', 'instructor'], allowSelf: true, allowManager: true },
+  get_employees_by_department: { roles: ['org_admin'] },
+  create_program: { roles: ['org_admin', 'instructor'] },
+  update_program: { roles: ['org_admin', 'instructor'] },
+  get_program: { roles: ['learner'] },
+  get_programs: { roles: ['learner'] },
+  enroll_employee: { roles: ['org_admin'], allowManager: true },
+  update_progress: { roles: ['org_admin'], allowSelf: true, allowManager: true },
+  get_progress: { roles: ['org_admin', 'instructor'], allowSelf: true, allowManager: true },
+  generate_analytics: { roles: ['org_admin'] },
+  get_recommendations: { roles: ['org_admin'], allowSelf: true, allowManager: true },
+  get_company_overview: { roles: ['org_admin'] },
+  create_company: { roles: ['org_admin'] },
+  update_company: { roles: ['org_admin'] },
+  get_company: { roles: ['org_admin', 'instructor'] },
+  issue_certification: { roles: ['org_admin'] },
+  revoke_certification: { roles: ['org_admin'] },
+  get_certifications: { roles: ['org_admin', 'instructor'], allowSelf: true, allowManager: true },
+  run_compliance_cycle: { roles: ['org_admin'] },
+  get_compliance_report: { roles: ['org_admin'] },
+  deactivate_employee: { roles: ['org_admin'] },
+  import_employees_csv: { roles: ['org_admin'] },
+  create_scim_token: { roles: ['org_admin'] },
+  list_scim_tokens: { roles: ['org_admin'] },
+  revoke_scim_token: { roles: ['org_admin'] },
+  create_enrollment_rule: { roles: ['org_admin'] },
+  update_enrollment_rule: { roles: ['org_admin'] },
+  delete_enrollment_rule: { roles: ['org_admin'] },
+  get_enrollment_rules: { roles: ['org_admin', 'instructor'] }
+}
+
+// Employees are keyed by their user id and companies by their organization id. A request acts on one
+// company: the stored record's when it names one, otherwise the one its body names, consistently.
+function resolveAccessSubject(body: CorporateTrainingRequest): AccessSubject {
+  const namedCompanies = new Set([
+    body.employeeProfile?.companyId,
+    body.companyProfile?.companyId,
+    body.enrollmentRule?.companyId,
+    body.companyId
+  ].filter(Boolean))
+
+  let subject: AccessSubject
+  const employeeId = body.enrollmentData?.employeeId || body.employeeId
+  if (employeeId) {
+    const employee = corporateTrainingEngine.getEmployeeProfile(employeeId)
+    if (employee) namedCompanies.add(employee.companyId)
+    subject = { userIds: [employeeId], managerId: employee?.manager }
+  } else if (body.ruleId) {
+    const rule = corporateTrainingEngine.getEnrollmentRule(body.ruleId)
+    if (rule) namedCompanies.add(rule.companyId)
+    subject = {}
+  } else {
+    subject = {}
+  }
+
+  if (namedCompanies.size > 1) {
+    throw new AuthError('The request names more than one company', 403)
+  }
+  return { ...subject, organizationId: Array.from(namedCompanies)[0] }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: CorporateTrainingRequest = await request.json()
+    await corporateTrainingEngine.hydrate()
 
     if (!body.action) {
       return NextResponse.json(
@@ -82,6 +218,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const auth = await requireAuth(request)
+    const subject = resolveAccessSubject(body)
+    authorize(auth, ACTION_ACCESS[body.action], subject)
+    // Provisioning and enrollment rules act on the company that was authorized, whatever else the body says
+    const companyId = subject.organizationId
+    // Email domains decide which existing accounts HR provisioning may take over, so only platform admins verify them
+    if (!auth.isPlatformAdmin && (body.companyProfile?.verifiedEmailDomains || body.companyUpdates?.verifiedEmailDomains)) {
+      throw new AuthError('Only platform administrators can verify company email domains', 403)
+    }
+    // Moving an employee to another company needs admin rights there too
+    if (body.action === 'update_employee' && body.employeeUpdates?.companyId) {
+      authorize(auth, ACTION_ACCESS.update_employee, { organizationId: body.employeeUpdates.companyId })
+    }
+
     let response: Partial<CorporateTrainingResponse> = {
       success: true,
       action: body.action
@@ -144,6 +294,74 @@ export async function POST(request: NextRequest) {
         response = await handleGetCompanyOverview(body)
         break
         
+      case 'create_company':
+        response = await handleCreateCompany(body)
+        break
+        
+      case 'update_company':
+        response = await handleUpdateCompany(body)
+        break
+        
+      case 'get_company':
+        response = await handleGetCompany(body)
+        break
+        
+      case 'issue_certification':
+        response = await handleIssueCertification(body)
+        break
+        
+      case 'revoke_certification':
+        response = await handleRevokeCertification(body)
+        break
+        
+      case 'get_certifications':
+        response = await handleGetCertifications(body)
+        break
+        
+      case 'run_compliance_cycle':
+        response = await handleRunComplianceCycle(body)
+        break
+        
+      case 'get_compliance_report':
+        response = await handleGetComplianceReport(body)
+        break
+        
+      case 'deactivate_employee':
+        response = await handleDeactivateEmployee(body)
+        break
+        
+      case 'import_employees_csv':
+        response = await handleImportEmployeesCsv(body, companyId)
+        break
+        
+      case 'create_scim_token':
+        response = await handleCreateScimToken(body, companyId)
+        break
+        
+      case 'list_scim_tokens':
+        response = await handleListScimTokens(companyId)
+        break
+        
+      case 'revoke_scim_token':
+        response = await handleRevokeScimToken(body, companyId)
+        break
+        
+      case 'create_enrollment_rule':
+        response = await handleCreateEnrollmentRule(body, companyId)
+        break
+        
+      case 'update_enrollment_rule':
+        response = await handleUpdateEnrollmentRule(body)
+        break
+        
+      case 'delete_enrollment_rule':
+        response = await handleDeleteEnrollmentRule(body)
+        break
+        
+      case 'get_enrollment_rules':
+        response = await handleGetEnrollmentRules(companyId)
+        break
+        
       default:
         return NextResponse.json(
           { error: 'Invalid action' },
@@ -163,9 +381,16 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await corporateTrainingEngine.flush()
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+    if (error instanceof ScimError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
     console.error('Corporate Training API error:', error)
     return NextResponse.json(
       { error: 'Failed to process corporate training request' },
@@ -274,6 +499,29 @@ async function handleEnrollEmployee(body: CorporateTrainingRequest): Promise<Par
   const deadlineDate = deadline ? new Date(deadline) : undefined
   
   const progress = await corporateTrainingEngine.enrollEmployee(employeeId, programId, deadlineDate)
+
+  // The enrollment stands even if the employee cannot be told about it right now
+  try {
+    const employee = corporateTrainingEngine.getEmployeeProfile(employeeId)
+    const program = corporateTrainingEngine.getTrainingProgram(programId)
+    await notificationService.hydrate()
+    await notificationService.notify({
+      userId: employeeId,
+      template: 'training_enrolled',
+      data: {
+        programTitle: program?.title || 'A training program',
+        deadlineNote: progress.nextDeadline
+          ? `, due ${new Date(progress.nextDeadline).toLocaleDateString('en-US', { dateStyle: 'medium', timeZone: 'UTC' })}`
+          : ''
+      },
+      dedupeKey: `training_enrolled:${programId}`,
+      email: employee?.email
+    })
+    await notificationService.flush()
+  } catch (error) {
+    console.error('Enrollment notification failed:', error)
+  }
+
   return { progress }
 }
 
@@ -363,6 +611,215 @@ async function handleGetCompanyOverview(body: CorporateTrainingRequest): Promise
   return { overview }
 }
 
+// Company and Compliance Handlers
+async function handleCreateCompany(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.companyProfile) {
+    throw new Error('Missing company profile')
+  }
+
+  const company = await corporateTrainingEngine.createCompanyProfile(body.companyProfile)
+  return { company }
+}
+
+async function handleUpdateCompany(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.companyId || !body.companyUpdates) {
+    throw new Error('Missing companyId or updates')
+  }
+
+  const company = await corporateTrainingEngine.updateCompanyProfile(body.companyId, body.companyUpdates)
+  
+  if (!company) {
+    throw new Error('Company not found')
+  }
+  
+  return { company }
+}
+
+async function handleGetCompany(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.companyId) {
+    throw new Error('Missing companyId')
+  }
+
+  const company = corporateTrainingEngine.getCompanyProfile(body.companyId)
+  
+  if (!company) {
+    throw new Error('Company not found')
+  }
+  
+  return { company }
+}
+
+// For certifications earned outside the platform; program completions issue their own
+async function handleIssueCertification(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.employeeId || !body.certificationData?.name) {
+    throw new Error('Missing employeeId or certification data')
+  }
+
+  const { name, programId, issuedAt, expiresAt } = body.certificationData
+  const certification = corporateTrainingEngine.issueCertification(body.employeeId, {
+    name,
+    programId,
+    issuedAt: issuedAt ? new Date(issuedAt) : undefined,
+    expiresAt: expiresAt ? new Date(expiresAt) : undefined
+  })
+  return { certification }
+}
+
+async function handleRevokeCertification(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.employeeId || !body.certificationId || !body.revocationReason) {
+    throw new Error('Missing employeeId, certificationId, or revocation reason')
+  }
+
+  const certification = corporateTrainingEngine.revokeCertification(body.employeeId, body.certificationId, body.revocationReason)
+  
+  if (!certification) {
+    throw new Error('Certification not found')
+  }
+  
+  return { certification }
+}
+
+async function handleGetCertifications(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.employeeId) {
+    throw new Error('Missing employeeId')
+  }
+
+  const certifications = corporateTrainingEngine.getCertifications(body.employeeId)
+  return { certifications }
+}
+
+// The notification scheduler runs the cycle for every company; this runs it now for one
+async function handleRunComplianceCycle(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.companyId) {
+    throw new Error('Missing companyId')
+  }
+
+  const complianceCycle = await corporateTrainingEngine.runComplianceCycle(new Date(), body.companyId)
+  return { complianceCycle }
+}
+
+// Signed when a certificate signing key is configured, so auditors can check the report was not altered
+async function handleGetComplianceReport(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.companyId) {
+    throw new Error('Missing companyId')
+  }
+
+  const complianceReport = corporateTrainingEngine.generateComplianceReport(body.companyId, {
+    department: body.reportOptions?.department,
+    asOf: body.reportOptions?.asOf ? new Date(body.reportOptions.asOf) : undefined
+  })
+  
+  if (!process.env.CERTIFICATE_SIGNING_KEY) {
+    return { complianceReport }
+  }
+  
+  const { report, signature, signingKeyId } = signComplianceReport(complianceReport)
+  return { complianceReport: report, reportSignature: { signature, signingKeyId } }
+}
+
+// Provisioning Handlers
+// Deprovision one employee by hand; HR systems do this over SCIM or with the CSV import
+async function handleDeactivateEmployee(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.employeeId) {
+    throw new Error('Missing employeeId')
+  }
+
+  const employee = await corporateTrainingEngine.deactivateEmployee(body.employeeId)
+  
+  if (!employee) {
+    throw new Error('Employee not found')
+  }
+  
+  return { employee }
+}
+
+async function handleImportEmployeesCsv(body: CorporateTrainingRequest, companyId?: string): Promise<Partial<CorporateTrainingResponse>> {
+  if (!companyId || !body.csv) {
+    throw new Error('Missing companyId or csv')
+  }
+
+  await hrisProvisioningService.hydrate()
+  const importResult = await hrisProvisioningService.importEmployeesCsv(companyId, body.csv, body.importOptions)
+  await hrisProvisioningService.flush()
+  return { importResult }
+}
+
+async function handleCreateScimToken(body: CorporateTrainingRequest, companyId?: string): Promise<Partial<CorporateTrainingResponse>> {
+  if (!companyId) {
+    throw new Error('Missing companyId')
+  }
+
+  await hrisProvisioningService.hydrate()
+  const { token, summary } = hrisProvisioningService.createToken(companyId, body.tokenName || '')
+  await hrisProvisioningService.flush()
+  return { scimToken: token, scimTokens: [summary] }
+}
+
+async function handleListScimTokens(companyId?: string): Promise<Partial<CorporateTrainingResponse>> {
+  if (!companyId) {
+    throw new Error('Missing companyId')
+  }
+
+  await hrisProvisioningService.hydrate()
+  return { scimTokens: hrisProvisioningService.listTokens(companyId) }
+}
+
+async function handleRevokeScimToken(body: CorporateTrainingRequest, companyId?: string): Promise<Partial<CorporateTrainingResponse>> {
+  if (!companyId || !body.tokenId) {
+    throw new Error('Missing companyId or tokenId')
+  }
+
+  await hrisProvisioningService.hydrate()
+  const revoked = hrisProvisioningService.revokeToken(companyId, body.tokenId)
+  
+  if (!revoked) {
+    throw new ScimError('Token not found', 404)
+  }
+  
+  await hrisProvisioningService.flush()
+  return { scimTokens: [revoked] }
+}
+
+// Enrollment Rule Handlers
+async function handleCreateEnrollmentRule(body: CorporateTrainingRequest, companyId?: string): Promise<Partial<CorporateTrainingResponse>> {
+  if (!companyId || !body.enrollmentRule?.programId || !body.enrollmentRule.match) {
+    throw new Error('Missing enrollment rule companyId, programId, or match')
+  }
+
+  const { rule, enrolled } = await corporateTrainingEngine.createEnrollmentRule({ ...body.enrollmentRule, companyId })
+  return { enrollmentRule: rule, progress: enrolled }
+}
+
+async function handleUpdateEnrollmentRule(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.ruleId || !body.ruleUpdates) {
+    throw new Error('Missing ruleId or updates')
+  }
+
+  const updated = await corporateTrainingEngine.updateEnrollmentRule(body.ruleId, body.ruleUpdates)
+  
+  if (!updated) {
+    throw new Error('Enrollment rule not found')
+  }
+  
+  return { enrollmentRule: updated.rule, progress: updated.enrolled }
+}
+
+async function handleDeleteEnrollmentRule(body: CorporateTrainingRequest): Promise<Partial<CorporateTrainingResponse>> {
+  if (!body.ruleId) {
+    throw new Error('Missing ruleId')
+  }
+
+  return { deleted: corporateTrainingEngine.deleteEnrollmentRule(body.ruleId) }
+}
+
+async function handleGetEnrollmentRules(companyId?: string): Promise<Partial<CorporateTrainingResponse>> {
+  if (!companyId) {
+    throw new Error('Missing companyId')
+  }
+
+  return { enrollmentRules: corporateTrainingEngine.getEnrollmentRules(companyId) }
+}
+
 export async function GET() {
   return NextResponse.json({
     message: 'Corporate Training API',
@@ -384,8 +841,28 @@ export async function GET() {
           'get_progress',
           'generate_analytics',
           'get_recommendations',
-          'get_company_overview'
+          'get_company_overview',
+          'create_company',
+          'update_company',
+          'get_company',
+          'issue_certification',
+          'revoke_certification',
+          'get_certifications',
+          'run_compliance_cycle',
+          'get_compliance_report',
+          'deactivate_employee',
+          'import_employees_csv',
+          'create_scim_token',
+          'list_scim_tokens',
+          'revoke_scim_token',
+          'create_enrollment_rule',
+          'update_enrollment_rule',
+          'delete_enrollment_rule',
+          'get_enrollment_rules'
         ]
+      },
+      SCIM: {
+        description: 'SCIM 2.0 provisioning of employees (Users) and departments (Groups) at /api/scim/v2, authenticated with a token from create_scim_token'
       }
     },
     capabilities: [
@@ -393,6 +870,10 @@ export async function GET() {
       'Training Program Administration',
       'Progress Tracking & Analytics',
       'Compliance Monitoring',
+      'Certification Lifecycle & Recertification',
+      'Signed PDF Certificates',
+      'HRIS Provisioning (SCIM 2.0, CSV Import)',
+      'Rule-based Auto-enrollment',
       'Skill Gap Analysis',
       'Learning Recommendations',
       'Department Analytics',
@@ -8,9 +8,36 @@ import {
   type TargetAudience,
   type BloomsTaxonomyLevel
 } from '@/lib/automated-curriculum-generator'
+import {
+  buildCurriculumPackage,
+  type CurriculumPackageFile,
+  type CurriculumPackageFormat
+} from '@/lib/curriculum-package-export'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 300 // 5 minutes for complex curriculum generation
 
+type CurriculumExportFormat =
+  | 'pdf'
+  | 'word'
+  | 'json'
+  | 'common_cartridge'
+  | 'scorm_1_2'
+  | 'scorm_2004'
+  | 'scorm'
+  | 'canvas'
+  | 'moodle'
+
+// Formats delivered as an import package; Canvas and Moodle both import Common Cartridge 1.3
+const PACKAGE_EXPORT_FORMATS: Partial<Record<CurriculumExportFormat, CurriculumPackageFormat>> = {
+  common_cartridge: 'common_cartridge',
+  canvas: 'common_cartridge',
+  moodle: 'common_cartridge',
+  scorm_1_2: 'scorm_1_2',
+  scorm_2004: 'scorm_2004',
+  scorm: 'scorm_2004'
+}
+
 interface CurriculumGeneratorApiRequest {
   action: 
     | 'generate_curriculum'
@@ -40,7 +67,7 @@ interface CurriculumGeneratorApiRequest {
   validation_criteria?: string[]
   
   // For export and templates
-  export_format?: 'pdf' | 'word' | 'json' | 'scorm' | 'canvas' | 'moodle'
+  export_format?: CurriculumExportFormat
   template_category?: string
   
   // General parameters
@@ -82,6 +109,10 @@ interface CurriculumGeneratorApiResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: CurriculumGeneratorApiRequest = await request.json()
@@ -252,6 +283,16 @@ async function handleCustomizeCurriculum(body: CurriculumGeneratorApiRequest): P
 
 // Handle curriculum export
 async function handleExportCurriculum(body: CurriculumGeneratorApiRequest): Promise<Partial<CurriculumGeneratorApiResponse>> {
+  const packageFormat = body.export_format ? PACKAGE_EXPORT_FORMATS[body.export_format] : undefined
+  if (packageFormat) {
+    if (!body.curriculum_data?.blueprint) {
+      throw new Error('Missing required field: curriculum_data (generated curriculum to package)')
+    }
+
+    const packageFile = await buildCurriculumPackage(body.curriculum_data as GeneratedCurriculum, packageFormat)
+    return { export_data: buildPackageExportData(body.curriculum_data as GeneratedCurriculum, body.export_format!, packageFile) }
+  }
+
   if (!body.curriculum_id || !body.export_format) {
     throw new Error('Missing required fields: curriculum_id, export_format')
   }
@@ -576,6 +617,32 @@ async function generateCurriculumExport(curriculumId: string, format: string): P
   return exportData
 }
 
+function buildPackageExportData(
+  curriculum: GeneratedCurriculum,
+  format: string,
+  packageFile: CurriculumPackageFile
+): ExportData {
+  return {
+    export_id: `export_${Date.now()}`,
+    curriculum_id: curriculum.curriculum_id,
+    format,
+    file_size: packageFile.size_bytes >= 1024 * 1024
+      ? `${(packageFile.size_bytes / (1024 * 1024)).toFixed(1)} MB`
+      : `${Math.max(1, Math.round(packageFile.size_bytes / 1024))} KB`,
+    export_timestamp: new Date().toISOString(),
+    expiration_date: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days
+    content_summary: {
+      modules: packageFile.summary.modules,
+      lessons: packageFile.summary.lessons,
+      assessments: packageFile.summary.assessments,
+      resources: packageFile.summary.files
+    },
+    compatibility_info: getFormatCompatibilityInfo(format),
+    usage_instructions: getFormatUsageInstructions(format),
+    package_file: packageFile
+  }
+}
+
 async function getCurriculumTemplates(category?: string): Promise<CurriculumTemplate[]> {
   const templates: CurriculumTemplate[] = [
     {
@@ -939,9 +1006,12 @@ function getFormatCompatibilityInfo(format: string): string {
     pdf: 'Compatible with all PDF readers',
     word: 'Requires Microsoft Word 2016 or compatible software',
     json: 'Machine-readable format for integration',
-    scorm: 'Compatible with SCORM-compliant LMS platforms',
-    canvas: 'Optimized for Canvas LMS import',
-    moodle: 'Formatted for direct Moodle import'
+    common_cartridge: 'IMS Common Cartridge 1.3 with QTI 1.2 quizzes (Canvas, Moodle, Blackboard, D2L, Schoology)',
+    scorm_1_2: 'SCORM 1.2 package with scored quiz SCOs and QTI 2.1 items',
+    scorm_2004: 'SCORM 2004 4th Edition package with scored quiz SCOs and QTI 2.1 items',
+    scorm: 'SCORM 2004 4th Edition package with scored quiz SCOs and QTI 2.1 items',
+    canvas: 'IMS Common Cartridge 1.3 package for Canvas LMS import',
+    moodle: 'IMS Common Cartridge 1.3 package for Moodle course restore'
   }
   
   return compatibility[format] || 'Standard format compatibility'
@@ -952,9 +1022,12 @@ function getFormatUsageInstructions(format: string): string {
     pdf: 'Download and open with any PDF reader for viewing and printing',
     word: 'Download .docx file and edit using Microsoft Word or compatible editor',
     json: 'Use for programmatic integration or import into educational systems',
-    scorm: 'Upload to SCORM-compatible LMS using standard import procedures',
-    canvas: 'Import directly into Canvas using the curriculum import tool',
-    moodle: 'Use Moodle backup/restore feature to import course structure'
+    common_cartridge: 'Import the .imscc file with your LMS course import tool',
+    scorm_1_2: 'Upload the .zip file as a SCORM 1.2 activity or course',
+    scorm_2004: 'Upload the .zip file as a SCORM 2004 activity or course',
+    scorm: 'Upload the .zip file as a SCORM 2004 activity or course',
+    canvas: 'In Canvas, use Settings > Import Course Content > Common Cartridge 1.x Package',
+    moodle: 'In Moodle, use Course administration > Restore and upload the .imscc file'
   }
   
   return instructions[format] || 'Follow standard import procedures for your platform'
@@ -1028,7 +1101,7 @@ interface ExportData {
   format: string
   file_size: string
   export_timestamp: string
-  download_url: string
+  download_url?: string
   expiration_date: string
   content_summary: {
     pages?: number
@@ -1039,6 +1112,7 @@ interface ExportData {
   }
   compatibility_info: string
   usage_instructions: string
+  package_file?: CurriculumPackageFile // zip contents for package formats
 }
 
 interface CurriculumTemplate {
@@ -1161,9 +1235,9 @@ export async function GET() {
       'PDF (printable curriculum)',
       'Microsoft Word (editable format)',
       'JSON (machine-readable)',
-      'SCORM (LMS integration)',
-      'Canvas (direct import)',
-      'Moodle (course backup)'
+      'IMS Common Cartridge 1.3 with QTI quizzes (LMS import)',
+      'SCORM 1.2 and SCORM 2004 packages (LMS integration)',
+      'Canvas and Moodle (Common Cartridge import)'
     ],
     quality_assurance: [
       'Pedagogical alignment validation',
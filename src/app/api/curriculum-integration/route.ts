@@ -8,6 +8,17 @@ import {
   type Assignment,
   type StudentSubmission
 } from '@/lib/curriculum-integration-engine'
+import {
+  requireAuth,
+  authorize,
+  authErrorResponse,
+  isInOrganization,
+  AuthError,
+  type AccessRule,
+  type AccessSubject,
+  type AuthContext
+} from '@/lib/auth-guard'
+import { ltiToolProvider, type LtiPlatform, type LtiGradeSyncResult } from '@/lib/lti-tool'
 
 export const maxDuration = 30
 
@@ -18,7 +29,8 @@ interface CurriculumIntegrationRequest {
           'create_course' | 'update_course' | 'get_course' | 'get_courses_by_instructor' | 'get_courses_by_institution' |
           'create_assignment' | 'update_assignment' | 'get_assignment' | 'get_assignments_by_course' |
           'submit_assignment' | 'grade_submission' | 'get_submissions_by_assignment' | 'get_submissions_by_student' |
-          'generate_classroom_analytics' | 'generate_institution_dashboard' | 'generate_transcript' | 'sync_grades_with_lms'
+          'generate_classroom_analytics' | 'generate_institution_dashboard' | 'generate_transcript' | 'sync_grades_with_lms' |
+          'register_lti_platform' | 'list_lti_platforms'
   
   // Institution actions
   institution?: AcademicInstitution
@@ -63,6 +75,7 @@ interface CurriculumIntegrationRequest {
   
   // LMS Integration
   lmsType?: 'canvas' | 'blackboard' | 'moodle' | 'google_classroom'
+  ltiPlatform?: Omit<LtiPlatform, 'platformId' | 'createdAt'> & { platformId?: string }
 }
 
 interface CurriculumIntegrationResponse {
@@ -85,6 +98,9 @@ interface CurriculumIntegrationResponse {
   dashboard?: any
   transcript?: any
   syncResult?: boolean
+  gradeSync?: LtiGradeSyncResult
+  ltiPlatform?: LtiPlatform
+  ltiPlatforms?: LtiPlatform[]
   
   metadata: {
     processingTime: number
@@ -97,10 +113,111 @@ interface CurriculumIntegrationResponse {
   }
 }
 
+// Institutions map to organizations. Course records belong to their instructor, student records to the
+// student (and their listed guardians); FERPA limits the rest to the institution's staff.
+const ACTION_ACCESS: Record<CurriculumIntegrationRequest['action'], AccessRule> = {
+  create_institution: { roles: ['org_admin'] },
+  update_institution: { roles: ['org_admin'] },
+  get_institution: { roles: ['learner'] },
+  create_instructor: { roles: ['org_admin'] },
+  update_instructor: { roles: ['org_admin'], allowSelf: true },
+  get_instructor: { roles: ['learner'] },
+  get_instructors_by_institution: { roles: ['org_admin', 'instructor'] },
+  create_student: { roles: ['org_admin'] },
+  update_student: { roles: ['org_admin'], allowSelf: true },
+  get_student: { roles: ['org_admin', 'instructor'], allowSelf: true, allowGuardian: true },
+  get_students_by_institution: { roles: ['org_admin', 'instructor'] },
+  get_students_by_course: { roles: ['org_admin'], allowSelf: true },
+  create_course: { roles: ['org_admin'], allowSelf: true },
+  update_course: { roles: ['org_admin'], allowSelf: true },
+  get_course: { roles: ['learner'] },
+  get_courses_by_instructor: { roles: ['learner'] },
+  get_courses_by_institution: { roles: ['learner'] },
+  create_assignment: { roles: ['org_admin'], allowSelf: true },
+  update_assignment: { roles: ['org_admin'], allowSelf: true },
+  get_assignment: { roles: ['learner'] },
+  get_assignments_by_course: { roles: ['learner'] },
+  submit_assignment: { roles: [], allowSelf: true },
+  grade_submission: { roles: ['org_admin'], allowSelf: true },
+  get_submissions_by_assignment: { roles: ['org_admin'], allowSelf: true },
+  get_submissions_by_student: { roles: ['org_admin', 'instructor'], allowSelf: true, allowGuardian: true },
+  generate_classroom_analytics: { roles: ['org_admin'], allowSelf: true },
+  generate_institution_dashboard: { roles: ['org_admin'] },
+  generate_transcript: { roles: ['org_admin'], allowSelf: true, allowGuardian: true },
+  sync_grades_with_lms: { roles: ['org_admin'], allowSelf: true },
+  register_lti_platform: { roles: ['org_admin'] },
+  list_lti_platforms: { roles: ['org_admin'] }
+}
+
+function studentSubject(studentId: string, fallbackInstitutionId?: string): AccessSubject {
+  const student = curriculumIntegrationEngine.getStudent(studentId)
+  return {
+    userIds: [studentId],
+    organizationId: student?.institutionId || fallbackInstitutionId,
+    guardianEmails: student?.parentGuardian?.map(guardian => guardian.email)
+  }
+}
+
+function courseSubject(course: Pick<Course, 'institutionId' | 'instructorId'> | null): AccessSubject {
+  return course ? { userIds: [course.instructorId], organizationId: course.institutionId } : {}
+}
+
+// New records carry their own institution and owner, so callers may only create them in their own institution
+function newRecordSubject(auth: AuthContext, userIds: string[], organizationId?: string): AccessSubject {
+  if (!isInOrganization(auth, organizationId)) {
+    throw new AuthError('Records can only be created in your own institution', 403)
+  }
+  return { userIds, organizationId }
+}
+
+// Existing records are checked as stored; request bodies only describe records being created
+function resolveAccessSubject(body: CurriculumIntegrationRequest, auth: AuthContext): AccessSubject {
+  const engine = curriculumIntegrationEngine
+
+  // Grading is done by the course instructor; everything else about a submission belongs to its student
+  if (body.submissionId) {
+    const submission = engine.getSubmission(body.submissionId)
+    if (!submission) return {}
+    if (body.action === 'grade_submission') {
+      const assignment = engine.getAssignment(submission.assignmentId)
+      return courseSubject(assignment ? engine.getCourse(assignment.courseId) : null)
+    }
+    return studentSubject(submission.studentId)
+  }
+
+  const studentId = body.studentId || body.student?.studentId || body.submission?.studentId
+  if (studentId) {
+    return studentSubject(studentId, body.student?.institutionId || body.institutionId)
+  }
+
+  if (body.action === 'create_course') {
+    return newRecordSubject(auth, [body.course?.instructorId], body.course?.institutionId)
+  }
+
+  const courseId = body.assignmentId
+    ? engine.getAssignment(body.assignmentId)?.courseId
+    : body.courseId || body.assignment?.courseId
+  if (courseId || body.assignmentId) {
+    return courseSubject(courseId ? engine.getCourse(courseId) : null)
+  }
+
+  const instructorId = body.instructorId || body.instructor?.instructorId
+  if (instructorId) {
+    const instructor = engine.getInstructor(instructorId)
+    return {
+      userIds: [instructorId],
+      organizationId: instructor?.institutionId || body.instructor?.institutionId || body.institutionId
+    }
+  }
+
+  return { organizationId: body.institutionId || body.institution?.institutionId || body.ltiPlatform?.institutionId }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: CurriculumIntegrationRequest = await request.json()
+    await curriculumIntegrationEngine.hydrate()
 
     if (!body.action) {
       return NextResponse.json(
@@ -109,6 +226,18 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const auth = await requireAuth(request)
+    authorize(auth, ACTION_ACCESS[body.action], resolveAccessSubject(body, auth))
+    // Moving a record to another institution or course needs the same rights there
+    const movedToInstitution = body.courseUpdates?.institutionId || body.studentUpdates?.institutionId ||
+      body.instructorUpdates?.institutionId
+    if (movedToInstitution) {
+      authorize(auth, ACTION_ACCESS[body.action], { organizationId: movedToInstitution })
+    }
+    if (body.assignmentUpdates?.courseId) {
+      authorize(auth, ACTION_ACCESS[body.action], courseSubject(curriculumIntegrationEngine.getCourse(body.assignmentUpdates.courseId)))
+    }
+
     let response: Partial<CurriculumIntegrationResponse> = {
       success: true,
       action: body.action
@@ -237,6 +366,15 @@ export async function POST(request: NextRequest) {
       case 'sync_grades_with_lms':
         response = await handleSyncGradesWithLMS(body)
         break
+
+      // LTI 1.3 platform registration
+      case 'register_lti_platform':
+        response = await handleRegisterLtiPlatform(body)
+        break
+
+      case 'list_lti_platforms':
+        response = await handleListLtiPlatforms(body)
+        break
         
       default:
         return NextResponse.json(
@@ -261,9 +399,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await curriculumIntegrationEngine.flush()
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Curriculum Integration API error:', error)
     return NextResponse.json(
       { 
@@ -604,8 +746,34 @@ async function handleSyncGradesWithLMS(body: CurriculumIntegrationRequest): Prom
     throw new Error('Missing courseId or LMS type')
   }
 
-  const syncResult = await curriculumIntegrationEngine.syncGradesWithLMS(body.courseId, body.lmsType)
-  return { syncResult }
+  const gradeSync = await curriculumIntegrationEngine.publishGradesToLMS(body.courseId, body.lmsType)
+  return { syncResult: gradeSync.success, gradeSync }
+}
+
+async function handleRegisterLtiPlatform(body: CurriculumIntegrationRequest): Promise<Partial<CurriculumIntegrationResponse>> {
+  if (!body.ltiPlatform || !body.ltiPlatform.institutionId) {
+    throw new Error('Missing LTI platform registration or institutionId')
+  }
+
+  await ltiToolProvider.hydrate()
+  const existing = (body.ltiPlatform.platformId && ltiToolProvider.getPlatform(body.ltiPlatform.platformId)) ||
+    ltiToolProvider.findPlatform(body.ltiPlatform.issuer, body.ltiPlatform.clientId)
+  if (existing && existing.institutionId !== body.ltiPlatform.institutionId) {
+    throw new Error('LTI platform belongs to another institution')
+  }
+
+  const ltiPlatform = ltiToolProvider.registerPlatform(body.ltiPlatform)
+  await ltiToolProvider.flush()
+  return { ltiPlatform }
+}
+
+async function handleListLtiPlatforms(body: CurriculumIntegrationRequest): Promise<Partial<CurriculumIntegrationResponse>> {
+  if (!body.institutionId) {
+    throw new Error('Missing institutionId')
+  }
+
+  await ltiToolProvider.hydrate()
+  return { ltiPlatforms: ltiToolProvider.listPlatforms(body.institutionId) }
 }
 
 // Compliance Validation
@@ -709,8 +877,18 @@ export async function GET() {
           'generate_classroom_analytics',
           'generate_institution_dashboard',
           'generate_transcript',
-          'sync_grades_with_lms'
+          'sync_grades_with_lms',
+
+          // LTI 1.3
+          'register_lti_platform',
+          'list_lti_platforms'
         ]
+      },
+      lti: {
+        login: '/api/lti/login',
+        launch: '/api/lti/launch',
+        deepLinking: '/api/lti/deep-link',
+        jwks: '/api/lti/jwks'
       }
     },
     capabilities: [
@@ -721,7 +899,7 @@ export async function GET() {
       'AI-Powered Assessment Analysis',
       'Classroom Analytics',
       'Institution Dashboard',
-      'LMS Integration',
+      'LMS Integration (LTI 1.3: launch, Deep Linking, Assignment and Grade Services)',
       'Transcript Generation',
       'Compliance Management (FERPA, COPPA, GDPR)'
     ],
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  featureFlagService,
+  FeatureFlagError,
+  type FeatureFlagInput,
+  type FlagValue
+} from '@/lib/feature-flags'
+import { resolveFlagContext } from '@/lib/feature-flags-server'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+
+interface FeatureFlagRequest {
+  action: 'evaluate' | 'list_flags' | 'get_flag' | 'create_flag' | 'update_flag' | 'set_kill_switch' | 'delete_flag'
+
+  // For evaluate
+  keys?: string[]
+  fallbacks?: Record<string, FlagValue>
+  attributes?: Record<string, any> // only those a flag lists as clientAttributes are used
+  userProfile?: Record<string, any>
+
+  // For get_flag, update_flag, set_kill_switch, delete_flag
+  key?: string
+
+  // For create_flag, update_flag
+  flag?: FeatureFlagInput
+
+  // For set_kill_switch
+  killed?: boolean
+  reason?: string
+
+  // For list_flags
+  tag?: string
+}
+
+// Flags switch behaviour for every organization, so only platform admins manage them
+const MANAGE_FLAGS: AccessRule = { roles: [] }
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: FeatureFlagRequest = await request.json()
+
+    if (!body.action) {
+      return NextResponse.json({ error: 'Missing required field: action' }, { status: 400 })
+    }
+
+    await featureFlagService.hydrate()
+
+    // Callers name the flags they use; listing every flag would tell anonymous callers what is being built
+    if (body.action === 'evaluate') {
+      if (!Array.isArray(body.keys) || body.keys.length === 0) {
+        return NextResponse.json({ error: 'Missing required field: keys' }, { status: 400 })
+      }
+      const context = await resolveFlagContext(request)
+      const supplied = { attributes: body.attributes, userProfile: body.userProfile }
+      const evaluations = Object.fromEntries(
+        body.keys.map(key => [key, featureFlagService.evaluate(key, context, body.fallbacks?.[key] ?? false, supplied)])
+      )
+      return NextResponse.json({ success: true, action: body.action, evaluations })
+    }
+
+    const auth = await requireAuth(request)
+    authorize(auth, MANAGE_FLAGS)
+
+    let response: Record<string, any>
+
+    switch (body.action) {
+      case 'list_flags':
+        response = { flags: featureFlagService.listFlags(body.tag) }
+        break
+
+      case 'get_flag': {
+        const flag = body.key ? featureFlagService.getFlag(body.key) : undefined
+        if (!flag) {
+          return NextResponse.json({ error: 'Flag not found' }, { status: 404 })
+        }
+        response = { flag }
+        break
+      }
+
+      case 'create_flag':
+        if (!body.flag) {
+          return NextResponse.json({ error: 'Missing required field: flag' }, { status: 400 })
+        }
+        response = { flag: featureFlagService.createFlag({ ...body.flag, createdBy: auth.userId }) }
+        break
+
+      case 'update_flag':
+        if (!body.key || !body.flag) {
+          return NextResponse.json({ error: 'Missing required fields: key, flag' }, { status: 400 })
+        }
+        response = { flag: featureFlagService.updateFlag(body.key, body.flag) }
+        break
+
+      case 'set_kill_switch':
+        if (!body.key || typeof body.killed !== 'boolean') {
+          return NextResponse.json({ error: 'Missing required fields: key, killed' }, { status: 400 })
+        }
+        response = { flag: featureFlagService.setKillSwitch(body.key, body.killed, auth.userId, body.reason) }
+        break
+
+      case 'delete_flag':
+        if (!body.key) {
+          return NextResponse.json({ error: 'Missing required field: key' }, { status: 400 })
+        }
+        response = { deleted: featureFlagService.deleteFlag(body.key) }
+        break
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    await featureFlagService.flush()
+    return NextResponse.json({ success: true, action: body.action, ...response })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    if (error instanceof FeatureFlagError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Feature flag API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process feature flag request' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Feature Flags API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        description: 'Evaluate flags for the caller, or manage flags (platform admins)',
+        actions: ['evaluate', 'list_flags', 'get_flag', 'create_flag', 'update_flag', 'set_kill_switch', 'delete_flag']
+      }
+    },
+    flagTypes: ['boolean', 'multivariate'],
+    targeting: {
+      contextFields: ['userId', 'organizationId', 'roles', 'profileRole', '<clientAttributes: caller-supplied attributes and userProfile.* fields>'],
+      operators: ['equals', 'not_equals', 'in', 'not_in', 'greater_than', 'less_than', 'contains', 'exists'],
+      bucketBy: ['userId', 'organizationId']
+    }
+  })
+}
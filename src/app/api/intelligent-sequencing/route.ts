@@ -6,6 +6,9 @@ import {
   type SequencingRecommendation
 } from '@/lib/intelligent-sequencing-engine'
 import type { UserProfile, ContentItem } from '@/types'
+import { logPolicyDecision, logPolicyOutcome } from '@/lib/replay-harness'
+import { AuthError, authErrorResponse, requireAuth } from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -26,6 +29,7 @@ interface SequencingRequest {
   
   // For progress tracking and adaptation
   pathId?: string
+  decisionId?: string // from generate_path; progress reports are logged as its outcome
   currentProgress?: any
   performanceData?: any[]
   adaptationTriggers?: string[]
@@ -37,6 +41,7 @@ interface SequencingResponse {
   
   // Path generation results
   sequencingRecommendation?: SequencingRecommendation
+  decisionId?: string
   
   // Gap analysis results
   knowledgeGaps?: any[]
@@ -59,10 +64,21 @@ interface SequencingResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: SequencingRequest = await request.json()
 
+    // Paths, progress and logged replay decisions belong to the signed-in user
+    const auth = await requireAuth(request)
+    body.userId = body.userId || auth.userId
+    if (body.userId !== auth.userId || (body.userProfile && body.userProfile.id !== auth.userId)) {
+      throw new AuthError('Cannot act on behalf of another user', 403)
+    }
+
     if (!body.userId || !body.userProfile || !body.action) {
       return NextResponse.json(
         { error: 'Missing required fields: userId, userProfile, action' },
@@ -70,6 +86,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await intelligentSequencingEngine.hydrate()
+
     let response: Partial<SequencingResponse> = {
       success: true,
       action: body.action
@@ -103,6 +121,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await intelligentSequencingEngine.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: SequencingResponse = {
@@ -120,6 +140,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Intelligent sequencing API error:', error)
     return NextResponse.json(
       { error: 'Failed to process intelligent sequencing request' },
@@ -152,11 +175,46 @@ async function handlePathGeneration(body: SequencingRequest): Promise<Partial<Se
     body.constraints
   )
 
+  const decisionId = await logSequencingDecision(body, targetObjectives, sequencingRecommendation)
+
   return {
-    sequencingRecommendation
+    sequencingRecommendation,
+    decisionId
   }
 }
 
+// Log which objective the path starts with, for offline replay; the engine does not report a propensity
+async function logSequencingDecision(
+  body: SequencingRequest,
+  targetObjectives: LearningObjective[],
+  recommendation: any
+): Promise<string | undefined> {
+  const actions = targetObjectives.map(objective => objective.id)
+  const order: string[] = recommendation?.recommendedOrder || []
+  const action = order.find(id => actions.includes(id))
+  if (!action) return undefined
+
+  const decisionId = `seq_${Date.now()}_${body.userId}`
+  await logPolicyDecision({
+    system: 'learning_sequencing',
+    decisionId,
+    userId: body.userId,
+    context: {
+      objectives: targetObjectives.map(objective => ({
+        id: objective.id,
+        difficulty: objective.difficulty,
+        estimatedTime: objective.estimatedTime,
+        prerequisites: objective.prerequisites
+      })),
+      urgentObjectives: body.constraints?.urgentObjectives || []
+    },
+    stratum: body.userProfile.level || 'unknown',
+    action,
+    actions
+  })
+  return decisionId
+}
+
 // Handle knowledge gap analysis
 async function handleGapAnalysis(body: SequencingRequest): Promise<Partial<SequencingResponse>> {
   const targetObjectives = body.targetObjectives || generateMockObjectives(body.userProfile.subject, 3)
@@ -211,6 +269,13 @@ async function handleProgressTracking(body: SequencingRequest): Promise<Partial<
     body.userProfile
   )
 
+  // Only reported progress counts as an outcome, never the placeholder
+  if (body.decisionId && body.currentProgress?.totalObjectives) {
+    const completion = (body.currentProgress.completedObjectives || 0) / body.currentProgress.totalObjectives
+    const reward = 0.5 * completion + 0.5 * (body.currentProgress.averageSuccessRate ?? completion)
+    await logPolicyOutcome('learning_sequencing', body.decisionId, reward, body.userId, { pathId: body.pathId })
+  }
+
   return {
     progressAnalysis,
     nextRecommendations
@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  runInSandbox,
+  evaluateTestCases,
+  isSandboxLanguage,
+  SUPPORTED_SANDBOX_LANGUAGES,
+  SANDBOX_LIMITS,
+  type SandboxTestResult
+} from '@/lib/code-execution-sandbox'
+import { createEventStreamResponse } from '@/lib/event-stream'
+import { interactiveContentEngine, type ExecutionEnvironment } from '@/lib/interactive-content-engine'
+import { authErrorResponse, requireAuth } from '@/lib/auth-guard'
+
+// Child processes need the Node.js runtime
+export const runtime = 'nodejs'
+export const maxDuration = 60
+
+interface ExecuteCodeRequest {
+  action: 'run' | 'test'
+  language: string
+  code: string
+
+  // For run action
+  input?: string
+
+  // For test action: the generated exercise whose (hidden) test cases score the submission
+  exerciseId?: string
+
+  executionEnvironment?: Partial<ExecutionEnvironment>
+}
+
+// Streams events: stdout, stderr, test_result, result, error
+export async function POST(request: NextRequest) {
+  try {
+    // Submissions run as processes on the host, so only signed-in users may run code
+    await requireAuth(request)
+    const body: ExecuteCodeRequest = await request.json()
+
+    if (!body.action || !body.language || typeof body.code !== 'string') {
+      return NextResponse.json(
+        { error: 'Missing required fields: action, language, code' },
+        { status: 400 }
+      )
+    }
+
+    const language = body.language
+    if (!isSandboxLanguage(language)) {
+      return NextResponse.json(
+        { error: `Unsupported language. Must be: ${SUPPORTED_SANDBOX_LANGUAGES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (body.action !== 'run' && body.action !== 'test') {
+      return NextResponse.json(
+        { error: 'Invalid action. Must be: run or test' },
+        { status: 400 }
+      )
+    }
+
+    // Test cases and limits come from the stored exercise, never from the client
+    let environment = body.executionEnvironment
+    let exercise: ReturnType<typeof interactiveContentEngine.getCodingExercise> = null
+    if (body.action === 'test') {
+      if (!body.exerciseId) {
+        return NextResponse.json(
+          { error: 'Missing required field for test action: exerciseId' },
+          { status: 400 }
+        )
+      }
+
+      await interactiveContentEngine.hydrate()
+      exercise = interactiveContentEngine.getCodingExercise(body.exerciseId)
+      if (!exercise || exercise.testCases.length === 0) {
+        return NextResponse.json({ error: 'Exercise not found' }, { status: 404 })
+      }
+      if (exercise.language !== language) {
+        return NextResponse.json(
+          { error: `This exercise is written in ${exercise.language}` },
+          { status: 400 }
+        )
+      }
+      if (exercise.testCases.length > SANDBOX_LIMITS.maxTestCases) {
+        return NextResponse.json(
+          { error: `Exercises can have at most ${SANDBOX_LIMITS.maxTestCases} test cases` },
+          { status: 400 }
+        )
+      }
+      environment = exercise.executionEnvironment
+    }
+
+    const limits = {
+      timeLimitMs: environment?.timeLimit ? environment.timeLimit * 1000 : undefined,
+      memoryLimitMb: environment?.memoryLimit
+    }
+
+    return createEventStreamResponse(async writer => {
+      const startTime = Date.now()
+
+      if (body.action === 'run') {
+        const result = await runInSandbox(
+          { language, code: body.code, input: body.input, ...limits },
+          (stream, chunk) => writer.send(stream, { chunk }),
+          request.signal
+        )
+        writer.send('result', { ...result, processingTime: Date.now() - startTime })
+        return
+      }
+
+      const testResults: SandboxTestResult[] = await evaluateTestCases(
+        { language, code: body.code, ...limits },
+        exercise!.testCases,
+        result => writer.send('test_result', result),
+        request.signal
+      )
+
+      const totalWeight = testResults.reduce((sum, r) => sum + (r.weight || 1), 0)
+      const passedWeight = testResults.filter(r => r.passed).reduce((sum, r) => sum + (r.weight || 1), 0)
+
+      writer.send('result', {
+        passedTests: testResults.filter(r => r.passed).length,
+        totalTests: testResults.length,
+        score: totalWeight > 0 ? passedWeight / totalWeight : 0,
+        testResults,
+        processingTime: Date.now() - startTime
+      })
+    })
+
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('Code execution API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to execute code' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Code Execution API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        description: 'Run a submission or evaluate it against test cases; responds with a text/event-stream',
+        actions: ['run', 'test'],
+        events: ['stdout', 'stderr', 'test_result', 'result', 'error']
+      }
+    },
+    languages: SUPPORTED_SANDBOX_LANGUAGES,
+    limits: {
+      maxTimeLimitSeconds: SANDBOX_LIMITS.maxTimeLimitMs / 1000,
+      maxMemoryLimitMb: SANDBOX_LIMITS.maxMemoryLimitMb,
+      maxOutputBytes: SANDBOX_LIMITS.maxOutputBytes,
+      maxTestCases: SANDBOX_LIMITS.maxTestCases
+    }
+  })
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { interactiveContentEngine, type InteractiveContent } from '@/lib/interactive-content-engine'
+import { interactiveContentEngine, type CodingExercise, type InteractiveContent } from '@/lib/interactive-content-engine'
 import type { UserProfile } from '@/types'
 
 export const maxDuration = 30
@@ -66,6 +66,8 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await interactiveContentEngine.hydrate()
+
     let response: Partial<InteractiveContentResponse> = {
       success: true,
       action: body.action
@@ -95,6 +97,8 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await interactiveContentEngine.flush()
+
     const processingTime = Date.now() - startTime
     
     const finalResponse: InteractiveContentResponse = {
@@ -131,7 +135,14 @@ async function handleGenerate(body: InteractiveContentRequest): Promise<Partial<
     body.learningContext
   )
 
-  return { content }
+  return { content: withoutHiddenTestCases(content) }
+}
+
+// Hidden test cases score submissions server-side, so their inputs and expected outputs never reach the client
+function withoutHiddenTestCases(content: InteractiveContent): InteractiveContent {
+  if (content.type !== 'coding_exercise') return content
+  const exercise = content as CodingExercise
+  return { ...exercise, testCases: exercise.testCases.filter(testCase => !testCase.isHidden) } as InteractiveContent
 }
 
 // Handle user interaction
@@ -5,6 +5,7 @@ import {
   type LearningPath,
   type ConceptNode
 } from '@/lib/knowledge-graph-generator'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 60 // Knowledge graph generation can take longer
 
@@ -46,6 +47,10 @@ interface KnowledgeGraphResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: KnowledgeGraphRequest = await request.json()
@@ -167,7 +172,7 @@ async function handleSearchConcepts(body: KnowledgeGraphRequest): Promise<Partia
     throw new Error('Missing required field: query')
   }
   
-  const concepts = knowledgeGraphGenerator.searchConcepts(body.query)
+  const concepts = await knowledgeGraphGenerator.searchConcepts(body.query)
   
   return { concepts }
 }
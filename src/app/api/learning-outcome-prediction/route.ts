@@ -7,6 +7,7 @@ import {
   type OutcomePrediction,
   type PredictionUpdate
 } from '@/lib/learning-outcome-prediction-engine'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 60
 
@@ -56,6 +57,10 @@ interface LearningOutcomePredictionApiResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: LearningOutcomePredictionApiRequest = await request.json()
@@ -42,15 +42,22 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    await learningStyleEngine.hydrate()
+
+    let response: NextResponse
     switch (body.action) {
       case 'detect':
-        return await handleDetectionRequest(body)
+        response = await handleDetectionRequest(body)
+        break
       case 'analyze_content':
-        return await handleContentAnalysisRequest(body)
+        response = await handleContentAnalysisRequest(body)
+        break
       case 'get_profile':
-        return await handleGetProfileRequest(body)
+        response = await handleGetProfileRequest(body)
+        break
       case 'update_effectiveness':
-        return await handleEffectivenessUpdateRequest(body)
+        response = await handleEffectivenessUpdateRequest(body)
+        break
       default:
         return NextResponse.json(
           { error: 'Invalid action. Must be: detect, analyze_content, get_profile, or update_effectiveness' },
@@ -58,6 +65,9 @@ export async function POST(request: NextRequest) {
         )
     }
 
+    await learningStyleEngine.flush()
+    return response
+
   } catch (error) {
     console.error('Learning style detection error:', error)
     return NextResponse.json(
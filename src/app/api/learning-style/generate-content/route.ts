@@ -5,7 +5,9 @@ import {
   type LearningStyleType 
 } from '@/lib/learning-style-engine'
 import { multiModelAI, type UseCase } from '@/lib/multi-model-ai'
+import { resolveAuthContext, type AuthContext } from '@/lib/auth-guard'
 import type { UserProfile, ContentItem } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -53,6 +55,10 @@ interface ContentGenerationResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const body: ContentGenerationRequest = await request.json()
 
@@ -64,6 +70,8 @@ export async function POST(request: NextRequest) {
     }
 
     const startTime = Date.now()
+    const auth = await resolveAuthContext(request)
+    await learningStyleEngine.hydrate()
 
     // Get or detect user's learning style
     let userStyleProfile = await learningStyleEngine.getLearningStyleProfile(body.userId)
@@ -98,7 +106,8 @@ export async function POST(request: NextRequest) {
           body.topic,
           body.baseContent,
           body.contentLength || 'medium',
-          body.difficulty
+          body.difficulty,
+          auth
         )
 
         generatedContent.push(styleContent)
@@ -140,6 +149,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await learningStyleEngine.flush()
     return NextResponse.json(response)
 
   } catch (error) {
@@ -214,7 +224,8 @@ async function generateContentForStyle(
   topic: string,
   baseContent?: ContentItem,
   contentLength: 'short' | 'medium' | 'long' = 'medium',
-  difficulty?: number
+  difficulty?: number,
+  auth?: AuthContext | null
 ): Promise<StyleContent> {
   const startTime = Date.now()
 
@@ -236,7 +247,8 @@ async function generateContentForStyle(
     priority: 'high',
     maxTokens,
     temperature: 0.7,
-    fallbackRequired: true
+    fallbackRequired: true,
+    auth
   })
 
   const adaptedContent: ContentItem = {
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ltiToolProvider,
+  getToolUrl,
+  autoSubmitForm,
+  escapeHtml,
+  ltiSessionCookieName,
+  LtiError,
+  type LtiDeepLinkItem
+} from '@/lib/lti-tool'
+import { curriculumIntegrationEngine, type Assignment } from '@/lib/curriculum-integration-engine'
+
+export const runtime = 'nodejs'
+
+/**
+ * Deep linking return: sign the selected assignments as LTI resource links (with line items, so the
+ * LMS gradebook gets a column per assignment) and post them back to the platform
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData()
+    const launchId = form.get('launch_id')
+    const assignmentIds = form.getAll('assignment_id').filter((id): id is string => typeof id === 'string')
+
+    await ltiToolProvider.hydrate()
+    await curriculumIntegrationEngine.hydrate()
+
+    // The launch id is in the form; the session cookie proves this browser made the launch
+    const launch = typeof launchId === 'string'
+      ? ltiToolProvider.getLaunchForSession(launchId, request.cookies.get(ltiSessionCookieName(launchId))?.value)
+      : null
+    if (!launch || !launch.isInstructor) {
+      throw new LtiError('Deep linking session not found or expired', 404)
+    }
+
+    const instructorId = ltiToolProvider.getLinkedUserId(launch.platformId, launch.userId)
+    const assignments = assignmentIds
+      .map(id => curriculumIntegrationEngine.getAssignment(id))
+      .filter((assignment): assignment is Assignment => {
+        const course = assignment ? curriculumIntegrationEngine.getCourse(assignment.courseId) : null
+        return !!course && course.instructorId === instructorId
+      })
+
+    // Placing content links the LMS course to ours, so later launches and grade syncs resolve it
+    const course = assignments[0] ? curriculumIntegrationEngine.getCourse(assignments[0].courseId) : null
+    if (course && launch.context && !ltiToolProvider.getLinkedCourseId(launch.platformId, launch.context.id)) {
+      ltiToolProvider.linkContext(launch, course.courseId)
+    }
+
+    const toolUrl = getToolUrl(request.nextUrl.origin)
+    const items: LtiDeepLinkItem[] = assignments.map(assignment => ({
+      title: assignment.title,
+      text: assignment.description,
+      url: `${toolUrl}/api/lti/launch`,
+      custom: {
+        course_id: assignment.courseId,
+        assignment_id: assignment.assignmentId
+      },
+      lineItem: {
+        scoreMaximum: assignment.grading.totalPoints,
+        label: assignment.title,
+        resourceId: assignment.assignmentId,
+        tag: assignment.type
+      }
+    }))
+
+    const { returnUrl, jwt } = ltiToolProvider.buildDeepLinkingResponse(launch.launchId, items)
+    await ltiToolProvider.flush()
+
+    return new NextResponse(autoSubmitForm(returnUrl, { JWT: jwt }), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+  } catch (error) {
+    const status = error instanceof LtiError ? error.status : 500
+    console.error('LTI deep linking error:', error)
+    return new NextResponse(
+      `<!DOCTYPE html><html><body><h1>Unable to add content</h1><p>${escapeHtml(error instanceof Error ? error.message : 'Deep linking failed')}</p></body></html>`,
+      { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } }
+    )
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { getToolJwks, LtiError } from '@/lib/lti-tool'
+
+export const runtime = 'nodejs'
+
+// Tool public keys: platforms verify client assertions and deep linking responses against these
+export async function GET() {
+  try {
+    return NextResponse.json(getToolJwks(), {
+      headers: { 'Cache-Control': 'public, max-age=300' }
+    })
+  } catch (error) {
+    const status = error instanceof LtiError ? error.status : 500
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to load tool keys' },
+      { status }
+    )
+  }
+}
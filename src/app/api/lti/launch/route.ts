@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  ltiToolProvider,
+  getToolUrl,
+  escapeHtml,
+  ltiSessionCookieName,
+  LtiError,
+  type LtiLaunch
+} from '@/lib/lti-tool'
+import { curriculumIntegrationEngine, type Course } from '@/lib/curriculum-integration-engine'
+
+export const runtime = 'nodejs'
+
+function htmlResponse(html: string, status = 200) {
+  return new NextResponse(html, {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  })
+}
+
+function errorPage(message: string, status: number) {
+  return htmlResponse(
+    `<!DOCTYPE html><html><body><h1>Unable to launch</h1><p>${escapeHtml(message)}</p></body></html>`,
+    status
+  )
+}
+
+// The launch's browser session: later reads of the launch and the deep linking form post must carry it
+function withLaunchSession(response: NextResponse, launch: LtiLaunch, sessionToken: string): NextResponse {
+  response.cookies.set(ltiSessionCookieName(launch.launchId), sessionToken, {
+    httpOnly: true,
+    secure: true,
+    sameSite: 'none',
+    partitioned: true,
+    path: '/api/lti',
+    maxAge: Math.max(0, Math.floor((new Date(launch.expiresAt).getTime() - Date.now()) / 1000))
+  })
+  return response
+}
+
+// Resource link launches land on the target link when it is ours, otherwise on the home page
+function resolveLandingUrl(launch: LtiLaunch, toolUrl: string, ids: Record<string, string | undefined>): string {
+  let landing = new URL('/', toolUrl)
+  try {
+    const target = new URL(launch.targetLinkUri)
+    if (target.origin === landing.origin && !target.pathname.startsWith('/api/')) {
+      landing = target
+    }
+  } catch {
+    // Malformed target_link_uri: fall back to the home page
+  }
+
+  landing.searchParams.set('lti_launch', launch.launchId)
+  for (const [key, value] of Object.entries(ids)) {
+    if (value) landing.searchParams.set(key, value)
+  }
+  return landing.toString()
+}
+
+// Deep linking: the instructor picks assignments to place in the LMS course
+function renderContentSelection(launch: LtiLaunch, courses: Course[]): string {
+  const sections = courses.map(course => {
+    const assignments = curriculumIntegrationEngine.getAssignmentsByCourse(course.courseId)
+    const rows = assignments.map(assignment => `
+      <label style="display:block;margin:4px 0">
+        <input type="${launch.deepLinking?.acceptMultiple ? 'checkbox' : 'radio'}" name="assignment_id" value="${escapeHtml(assignment.assignmentId)}">
+        ${escapeHtml(assignment.title)} <small>(${escapeHtml(assignment.type)}, ${assignment.grading.totalPoints} pts)</small>
+      </label>`).join('')
+    return `<fieldset><legend>${escapeHtml(course.courseInfo.code)} — ${escapeHtml(course.courseInfo.title)}</legend>${rows || '<p>No assignments yet.</p>'}</fieldset>`
+  }).join('')
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Select content</title></head>
+<body style="font-family:system-ui,sans-serif;max-width:640px;margin:24px auto">
+  <h1>Add content to ${escapeHtml(launch.context?.title || 'your course')}</h1>
+  <form method="POST" action="/api/lti/deep-link">
+    <input type="hidden" name="launch_id" value="${escapeHtml(launch.launchId)}">
+    ${sections || '<p>No courses are linked to your account.</p>'}
+    <button type="submit">Add selected</button>
+  </form>
+</body>
+</html>`
+}
+
+/**
+ * LTI 1.3 launch: the platform posts the id_token here after the OIDC login redirect
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const form = await request.formData()
+    const idToken = form.get('id_token')
+    const state = form.get('state')
+
+    await ltiToolProvider.hydrate()
+    await curriculumIntegrationEngine.hydrate()
+
+    const launch = await ltiToolProvider.validateLaunch(
+      typeof idToken === 'string' ? idToken : undefined,
+      typeof state === 'string' ? state : undefined
+    )
+    const { course, assignment, student, instructor } = await curriculumIntegrationEngine.resolveLtiLaunch(launch)
+    const sessionToken = ltiToolProvider.startLaunchSession(launch.launchId)
+    await ltiToolProvider.flush()
+
+    if (launch.messageType === 'LtiDeepLinkingRequest') {
+      if (!launch.isInstructor || !instructor) {
+        return errorPage('Only instructors with an account at this institution can add content.', 403)
+      }
+      const courses = course ? [course] : curriculumIntegrationEngine.getCoursesByInstructor(instructor.instructorId)
+      return withLaunchSession(htmlResponse(renderContentSelection(launch, courses)), launch, sessionToken)
+    }
+
+    const landingUrl = resolveLandingUrl(launch, getToolUrl(request.nextUrl.origin), {
+      course_id: course?.courseId,
+      assignment_id: assignment?.assignmentId,
+      user_id: student?.studentId || instructor?.instructorId
+    })
+    return withLaunchSession(NextResponse.redirect(landingUrl, 303), launch, sessionToken)
+  } catch (error) {
+    const status = error instanceof LtiError ? error.status : 500
+    console.error('LTI launch error:', error)
+    return errorPage(error instanceof Error ? error.message : 'LTI launch failed', status)
+  }
+}
+
+/**
+ * Launch context for the landing page (`?id=<lti_launch>`), for the browser that made the launch
+ */
+export async function GET(request: NextRequest) {
+  const launchId = request.nextUrl.searchParams.get('id')
+  if (!launchId) {
+    return NextResponse.json({ error: 'Missing launch id' }, { status: 400 })
+  }
+
+  const sessionToken = request.cookies.get(ltiSessionCookieName(launchId))?.value
+  if (!sessionToken) {
+    return NextResponse.json({ error: 'Launch session required' }, { status: 401 })
+  }
+
+  await ltiToolProvider.hydrate()
+  const launch = ltiToolProvider.getLaunchForSession(launchId, sessionToken)
+  if (!launch) {
+    return NextResponse.json({ error: 'Launch not found or expired' }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    launchId: launch.launchId,
+    messageType: launch.messageType,
+    name: launch.name,
+    isInstructor: launch.isInstructor,
+    isLearner: launch.isLearner,
+    context: launch.context,
+    resourceLink: launch.resourceLink,
+    custom: launch.custom,
+    courseId: launch.context ? ltiToolProvider.getLinkedCourseId(launch.platformId, launch.context.id) : null,
+    localUserId: ltiToolProvider.getLinkedUserId(launch.platformId, launch.userId),
+    gradePassback: !!launch.ags
+  })
+}
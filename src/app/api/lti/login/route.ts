@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { ltiToolProvider, getToolUrl, LtiError } from '@/lib/lti-tool'
+
+export const runtime = 'nodejs'
+
+// OIDC third-party initiated login. Platforms send it as GET or as a form POST.
+async function handleLogin(request: NextRequest, params: URLSearchParams) {
+  try {
+    await ltiToolProvider.hydrate()
+
+    const redirectUrl = ltiToolProvider.initiateLogin({
+      iss: params.get('iss') || undefined,
+      login_hint: params.get('login_hint') || undefined,
+      target_link_uri: params.get('target_link_uri') || undefined,
+      lti_message_hint: params.get('lti_message_hint') || undefined,
+      client_id: params.get('client_id') || undefined,
+      lti_deployment_id: params.get('lti_deployment_id') || undefined
+    }, getToolUrl(request.nextUrl.origin))
+
+    await ltiToolProvider.flush()
+    return NextResponse.redirect(redirectUrl, 302)
+  } catch (error) {
+    const status = error instanceof LtiError ? error.status : 500
+    console.error('LTI login error:', error)
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'LTI login failed' },
+      { status }
+    )
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return handleLogin(request, request.nextUrl.searchParams)
+}
+
+export async function POST(request: NextRequest) {
+  const form = await request.formData()
+  const params = new URLSearchParams()
+  form.forEach((value, key) => {
+    if (typeof value === 'string') params.set(key, value)
+  })
+  return handleLogin(request, params)
+}
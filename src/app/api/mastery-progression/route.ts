@@ -9,6 +9,7 @@ import {
   type UnlockBenefit
 } from '@/lib/mastery-progression-engine'
 import type { UserProfile } from '@/types'
+import { AuthError, authErrorResponse, requireAuth } from '@/lib/auth-guard'
 
 export const maxDuration = 30
 
@@ -76,6 +77,14 @@ export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: MasteryProgressionAPIRequest = await request.json()
+    await masteryProgressionEngine.hydrate()
+
+    // Mastery profiles, assessments and achievements belong to the signed-in user
+    const auth = await requireAuth(request)
+    body.userId = body.userId || auth.userId
+    if (body.userId !== auth.userId || (body.userProfile && body.userProfile.id !== auth.userId)) {
+      throw new AuthError('Cannot act on behalf of another user', 403)
+    }
 
     if (!body.userId || !body.userProfile || !body.action) {
       return NextResponse.json(
@@ -141,9 +150,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    await masteryProgressionEngine.flush()
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Mastery progression API error:', error)
     return NextResponse.json(
       { error: 'Failed to process mastery progression request' },
@@ -7,6 +7,7 @@ import {
   type ContentStreamMonitor
 } from '@/lib/real-time-content-monitor'
 import type { UserProfile, ContentItem } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -97,6 +98,10 @@ interface MonitoringAPIResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: MonitoringAPIRequest = await request.json()
@@ -6,6 +6,7 @@ import {
   type ContentOptimizationConfig,
   type ContentPerformanceMetrics
 } from '@/lib/multimodal-content-generator'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 300 // 5 minutes for complex content generation
 
@@ -56,6 +57,10 @@ interface MultimodalContentApiResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: MultimodalContentApiRequest = await request.json()
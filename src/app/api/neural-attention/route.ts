@@ -10,6 +10,8 @@ import NeuralAttentionTracking, {
   type AttentionMeasurement,
   type AttentionProfile
 } from '@/lib/neural-attention-tracking'
+import { KNOWN_FLAGS } from '@/lib/feature-flags'
+import { featureGateResponse } from '@/lib/feature-flags-server'
 
 // Initialize neural attention tracking system
 const attentionSystem = new NeuralAttentionTracking(null)
@@ -19,6 +21,10 @@ export async function POST(request: NextRequest) {
     const body = await request.json()
     const { action } = body
 
+    // On for everyone until the flag exists; then per-organization targeting applies
+    const gate = await featureGateResponse(request, KNOWN_FLAGS.neuralAttentionTracking, { fallback: true })
+    if (gate) return gate
+
     switch (action) {
       case 'measure_attention':
         return handleMeasureAttention(body)
@@ -0,0 +1,207 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  notificationService,
+  NotificationError,
+  NOTIFICATION_CHANNELS,
+  type NotificationPreferencesUpdate
+} from '@/lib/notification-service'
+import { runNotificationScheduler } from '@/lib/notification-scheduler'
+import {
+  NOTIFICATION_TEMPLATES,
+  isNotificationTemplateId,
+  type NotificationChannel,
+  type NotificationPriority,
+  type TemplateData
+} from '@/lib/notification-templates'
+import { vapidConfigFromEnv, type PushSubscriptionRecord } from '@/lib/notification-channels'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+
+export const maxDuration = 60
+
+interface NotificationApiRequest {
+  action: 'list' | 'mark_read' | 'get_preferences' | 'update_preferences' | 'subscribe_push' | 'unsubscribe_push' | 'send' | 'run_scheduler'
+
+  // For list
+  unreadOnly?: boolean
+  limit?: number
+
+  // For mark_read
+  notificationIds?: string[]
+
+  // For update_preferences
+  preferences?: NotificationPreferencesUpdate
+
+  // For subscribe_push (PushSubscription.toJSON()), unsubscribe_push (endpoint only)
+  subscription?: Omit<PushSubscriptionRecord, 'createdAt'>
+
+  // For send
+  userIds?: string[]
+  template?: string
+  data?: TemplateData
+  priority?: NotificationPriority
+  channels?: NotificationChannel[]
+  dedupeKey?: string
+  expiresAt?: string
+}
+
+const PRIORITIES: NotificationPriority[] = ['low', 'medium', 'high', 'urgent']
+const MAX_RECIPIENTS = 500
+
+// Sending to arbitrary users and running the sweep by hand are platform admin tasks
+const MANAGE_NOTIFICATIONS: AccessRule = { roles: [] }
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const body: NotificationApiRequest = await request.json()
+
+    if (!body.action) {
+      return NextResponse.json({ error: 'Missing required field: action' }, { status: 400 })
+    }
+
+    await notificationService.hydrate()
+
+    let response: Record<string, any>
+
+    switch (body.action) {
+      case 'list':
+        response = {
+          notifications: await notificationService.listInbox(auth.userId, {
+            unreadOnly: body.unreadOnly,
+            limit: Math.max(1, Math.min(body.limit || 50, 200))
+          })
+        }
+        break
+
+      case 'mark_read':
+        if (!Array.isArray(body.notificationIds) || body.notificationIds.length === 0) {
+          return NextResponse.json({ error: 'Missing required field: notificationIds' }, { status: 400 })
+        }
+        await notificationService.markRead(auth.userId, body.notificationIds)
+        response = { marked: body.notificationIds.length }
+        break
+
+      case 'get_preferences':
+        response = { preferences: notificationService.getPreferences(auth.userId) }
+        break
+
+      case 'update_preferences':
+        if (!body.preferences) {
+          return NextResponse.json({ error: 'Missing required field: preferences' }, { status: 400 })
+        }
+        response = { preferences: notificationService.updatePreferences(auth.userId, body.preferences) }
+        break
+
+      case 'subscribe_push':
+        if (!body.subscription) {
+          return NextResponse.json({ error: 'Missing required field: subscription' }, { status: 400 })
+        }
+        response = {
+          subscription: notificationService.subscribePush(auth.userId, {
+            ...body.subscription,
+            userAgent: request.headers.get('user-agent') || undefined
+          })
+        }
+        break
+
+      case 'unsubscribe_push':
+        if (!body.subscription?.endpoint) {
+          return NextResponse.json({ error: 'Missing required field: subscription.endpoint' }, { status: 400 })
+        }
+        response = { removed: notificationService.unsubscribePush(auth.userId, body.subscription.endpoint) }
+        break
+
+      case 'send': {
+        authorize(auth, MANAGE_NOTIFICATIONS)
+        if (!Array.isArray(body.userIds) || body.userIds.length === 0 || !body.template) {
+          return NextResponse.json({ error: 'Missing required fields: userIds, template' }, { status: 400 })
+        }
+        if (body.userIds.length > MAX_RECIPIENTS) {
+          return NextResponse.json({ error: `At most ${MAX_RECIPIENTS} recipients per request` }, { status: 400 })
+        }
+        if (!isNotificationTemplateId(body.template)) {
+          return NextResponse.json({ error: `Unknown template: ${body.template}` }, { status: 404 })
+        }
+        if (body.priority && !PRIORITIES.includes(body.priority)) {
+          return NextResponse.json({ error: `priority must be one of: ${PRIORITIES.join(', ')}` }, { status: 400 })
+        }
+        if (body.channels && !body.channels.every(channel => NOTIFICATION_CHANNELS.includes(channel))) {
+          return NextResponse.json({ error: `channels must be among: ${NOTIFICATION_CHANNELS.join(', ')}` }, { status: 400 })
+        }
+        const expiresAt = body.expiresAt ? new Date(body.expiresAt) : undefined
+        if (expiresAt && isNaN(expiresAt.getTime())) {
+          return NextResponse.json({ error: 'Invalid date for expiresAt' }, { status: 400 })
+        }
+
+        const results = []
+        for (const userId of Array.from(new Set(body.userIds))) {
+          results.push({
+            userId,
+            ...(await notificationService.notify({
+              userId,
+              template: body.template,
+              data: body.data,
+              priority: body.priority,
+              channels: body.channels,
+              dedupeKey: body.dedupeKey,
+              expiresAt
+            }))
+          })
+        }
+        response = { results }
+        break
+      }
+
+      case 'run_scheduler':
+        authorize(auth, MANAGE_NOTIFICATIONS)
+        response = { summary: await runNotificationScheduler() }
+        break
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+
+    await notificationService.flush()
+    return NextResponse.json({ success: true, action: body.action, ...response })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    if (error instanceof NotificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Notifications API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process notification request' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Notifications API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        list: 'In-app notifications for the caller (fields: unreadOnly, limit)',
+        mark_read: 'Mark the caller\'s notifications read (fields: notificationIds)',
+        get_preferences: 'Channel, quiet-hour and digest preferences of the caller',
+        update_preferences: 'Change them (fields: preferences)',
+        subscribe_push: 'Register a browser push subscription (fields: subscription)',
+        unsubscribe_push: 'Remove one (fields: subscription.endpoint)',
+        send: 'Send a template to users (platform admins; fields: userIds, template, data, priority, channels, dedupeKey, expiresAt)',
+        run_scheduler: 'Run the reminder sweep now (platform admins)'
+      }
+    },
+    channels: NOTIFICATION_CHANNELS,
+    templates: Object.values(NOTIFICATION_TEMPLATES).map(template => ({
+      id: template.id,
+      category: template.category,
+      priority: template.priority,
+      channels: template.channels
+    })),
+    vapidPublicKey: vapidConfigFromEnv()?.publicKey || null
+  })
+}
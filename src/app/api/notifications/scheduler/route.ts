@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { runNotificationScheduler } from '@/lib/notification-scheduler'
+import { getBearerToken } from '@/lib/request-identity'
+
+export const maxDuration = 60
+
+// Vercel cron sends `Authorization: Bearer $CRON_SECRET`; without a secret the endpoint stays closed
+function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  const token = getBearerToken(request)
+  if (!secret || !token) return false
+
+  const expected = Buffer.from(secret)
+  const given = Buffer.from(token)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const summary = await runNotificationScheduler()
+    return NextResponse.json({ success: true, summary })
+  } catch (error) {
+    console.error('Notification scheduler error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run notification scheduler' },
+      { status: 500 }
+    )
+  }
+}
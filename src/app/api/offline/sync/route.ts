@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { offlineReplayService, type OfflineOperation, type OfflineOperationKind } from '@/lib/offline-replay'
+import { spacedRepetitionEngine } from '@/lib/spaced-repetition-engine'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
+
+export const maxDuration = 60
+
+interface OfflineSyncRequest {
+  operations: OfflineOperation[]
+}
+
+const OPERATION_KINDS: OfflineOperationKind[] = ['srs_review']
+const MAX_OPERATIONS = 200
+
+// Learners replay their own reviews; parents and instructors reviewing on a learner's behalf may too
+const REPLAY_REVIEWS: AccessRule = { roles: ['instructor', 'org_admin'], allowSelf: true, allowGuardian: true }
+
+export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const body: OfflineSyncRequest = await request.json()
+
+    if (!Array.isArray(body.operations) || body.operations.length === 0) {
+      return NextResponse.json({ error: 'Missing required field: operations' }, { status: 400 })
+    }
+    if (body.operations.length > MAX_OPERATIONS) {
+      return NextResponse.json({ error: `At most ${MAX_OPERATIONS} operations per request` }, { status: 400 })
+    }
+    if (!body.operations.every(operation => operation?.operationId && OPERATION_KINDS.includes(operation.kind))) {
+      return NextResponse.json({ error: `Every operation needs an operationId and a kind among: ${OPERATION_KINDS.join(', ')}` }, { status: 400 })
+    }
+
+    // Reviews default to the caller's own cards
+    const operations = body.operations.map(operation => operation.kind === 'srs_review'
+      ? { ...operation, payload: { ...operation.payload, learnerId: operation.payload?.learnerId || auth.userId } }
+      : operation
+    )
+    const learnerIds = Array.from(new Set(operations.map(operation => operation.payload.learnerId as string)))
+    for (const learnerId of learnerIds) {
+      authorize(auth, REPLAY_REVIEWS, { userIds: [learnerId] })
+    }
+
+    await Promise.all([offlineReplayService.hydrate(), spacedRepetitionEngine.hydrate()])
+    const results = await offlineReplayService.replay(auth.userId, operations)
+    await Promise.all([offlineReplayService.flush(), spacedRepetitionEngine.flush()])
+
+    return NextResponse.json({ success: true, results })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('Offline sync API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to replay offline operations' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Offline Sync API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        description: 'Replay operations queued while offline, each at most once (fields: operations)',
+        operation: '{ operationId, kind, occurredAt, payload }'
+      }
+    },
+    kinds: OPERATION_KINDS,
+    statuses: ['applied', 'duplicate', 'conflict', 'rejected'],
+    maxOperations: MAX_OPERATIONS
+  })
+}
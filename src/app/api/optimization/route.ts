@@ -3,6 +3,7 @@ import {
   optimizationRecommendationsEngine,
   type OptimizationRecommendation
 } from '@/lib/optimization-recommendations-engine'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -44,6 +45,10 @@ interface OptimizationResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: OptimizationRequest = await request.json()
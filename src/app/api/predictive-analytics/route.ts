@@ -5,6 +5,7 @@ import {
   type EarlyWarningSignal,
   type InterventionRecommendation
 } from '@/lib/predictive-analytics-engine'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 45
 
@@ -52,6 +53,10 @@ interface PredictiveAnalyticsResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: PredictiveAnalyticsRequest = await request.json()
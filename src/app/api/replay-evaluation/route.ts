@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  REPLAY_SYSTEMS,
+  ReplayEvaluationError,
+  candidatePolicies,
+  runReplayEvaluation
+} from '@/lib/replay-harness'
+import type { ReplaySystem } from '@/lib/replay-evaluation'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+
+export const maxDuration = 60
+
+interface ReplayEvaluationRequest {
+  system: ReplaySystem
+  since?: string // ISO date; decisions made from then on
+  until?: string
+  limit?: number
+  policies?: string[] // candidate policy names, all when omitted
+  weightClip?: number
+  confidenceLevel?: number
+}
+
+// Replays read every learner's logged decisions, so only platform admins run them
+const RUN_REPLAY: AccessRule = { roles: [] }
+
+function parseDate(value: string | undefined, field: string): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value)
+  if (isNaN(date.getTime())) {
+    throw new ReplayEvaluationError(`Invalid date for ${field}`, 400)
+  }
+  return date
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    authorize(auth, RUN_REPLAY)
+
+    const body: ReplayEvaluationRequest = await request.json()
+
+    if (!body.system) {
+      return NextResponse.json({ error: 'Missing required field: system' }, { status: 400 })
+    }
+    if (body.weightClip !== undefined && !(body.weightClip > 0)) {
+      return NextResponse.json({ error: 'weightClip must be positive' }, { status: 400 })
+    }
+    if (body.confidenceLevel !== undefined && !(body.confidenceLevel > 0 && body.confidenceLevel < 1)) {
+      return NextResponse.json({ error: 'confidenceLevel must be between 0 and 1' }, { status: 400 })
+    }
+
+    const report = await runReplayEvaluation(body.system, {
+      window: {
+        since: parseDate(body.since, 'since'),
+        until: parseDate(body.until, 'until'),
+        limit: body.limit
+      },
+      policies: body.policies,
+      options: {
+        ...(body.weightClip !== undefined && { weightClip: body.weightClip }),
+        ...(body.confidenceLevel !== undefined && { confidenceLevel: body.confidenceLevel })
+      }
+    })
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    if (error instanceof ReplayEvaluationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error('Replay evaluation API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to run replay evaluation' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Offline Replay Evaluation API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        description: 'Replay logged decisions against candidate policies (platform admins)',
+        fields: ['system', 'since', 'until', 'limit', 'policies', 'weightClip', 'confidenceLevel']
+      }
+    },
+    systems: Object.fromEntries(
+      REPLAY_SYSTEMS.map(system => [
+        system,
+        candidatePolicies(system).map(policy => ({ name: policy.name, description: policy.description }))
+      ])
+    ),
+    estimators: ['direct_method', 'inverse_propensity', 'self_normalized', 'doubly_robust']
+  })
+}
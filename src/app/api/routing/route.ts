@@ -2,8 +2,12 @@ import { NextRequest, NextResponse } from 'next/server'
 import { 
   automatedModelRouter,
   type RequestContext,
+  type RoutingDecision,
   type RoutingStrategy
 } from '@/lib/automated-model-routing'
+import { logPolicyDecision, logPolicyOutcome } from '@/lib/replay-harness'
+import { authErrorResponse, requireAuth, type AuthContext } from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -51,6 +55,10 @@ interface RoutingResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: RoutingRequest = await request.json()
@@ -77,7 +85,8 @@ export async function POST(request: NextRequest) {
         break
         
       case 'execute_request':
-        response = await handleExecuteRequest(body)
+        // Executed requests are logged for replay against the signed-in user
+        response = await handleExecuteRequest(body, await requireAuth(request))
         break
         
       case 'add_strategy':
@@ -114,6 +123,9 @@ export async function POST(request: NextRequest) {
     return NextResponse.json(finalResponse)
 
   } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
     console.error('Model routing API error:', error)
     return NextResponse.json(
       { error: 'Failed to process routing request' },
@@ -143,7 +155,7 @@ async function handleMakeDecision(body: RoutingRequest): Promise<Partial<Routing
 }
 
 // Execute request with fallback
-async function handleExecuteRequest(body: RoutingRequest): Promise<Partial<RoutingResponse>> {
+async function handleExecuteRequest(body: RoutingRequest, auth: AuthContext): Promise<Partial<RoutingResponse>> {
   if (!body.context || !body.requestPayload) {
     throw new Error('Missing context or request payload')
   }
@@ -168,13 +180,42 @@ async function handleExecuteRequest(body: RoutingRequest): Promise<Partial<Routi
     return response.json()
   }
 
-  const result = await automatedModelRouter.executeWithFallback(
-    requestFn,
-    body.context,
-    body.strategyName
-  )
-  
-  return { result }
+  const context: RequestContext = { ...body.context, userId: auth.userId }
+  let decision: RoutingDecision | undefined
+  try {
+    const result = await automatedModelRouter.executeWithFallback(
+      requestFn,
+      context,
+      body.strategyName,
+      made => { decision = made }
+    )
+    if (decision) await logRoutingReplay(context, body.strategyName, decision, routingReward(context, result))
+    return { result }
+  } catch (error) {
+    if (decision) await logRoutingReplay(context, body.strategyName, decision, 0)
+    throw error
+  }
+}
+
+// A first-try success earns full credit less a latency penalty; falling back halves it
+function routingReward(context: RequestContext, execution: { attempts: number, totalTime: number }): number {
+  const latencyPenalty = 0.5 * Math.min(1, execution.totalTime / Math.max(context.timeout, 1))
+  return (execution.attempts === 1 ? 1 : 0.5) * (1 - latencyPenalty)
+}
+
+// Log the routing decision and its outcome for offline replay
+async function logRoutingReplay(context: RequestContext, strategyName: string | undefined, decision: RoutingDecision, reward: number) {
+  await logPolicyDecision({
+    system: 'model_routing',
+    decisionId: context.requestId,
+    userId: context.userId,
+    context: { request: context, strategyName: strategyName || 'default' },
+    stratum: `${context.useCase}|${context.priority}`,
+    action: decision.selectedModel,
+    actions: [decision.selectedModel, ...decision.alternativeModels],
+    propensity: decision.propensity
+  })
+  await logPolicyOutcome('model_routing', context.requestId, reward, context.userId)
 }
 
 // Add routing strategy
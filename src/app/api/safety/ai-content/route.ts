@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { contentSafetyEngine } from '@/lib/content-safety-engine'
 import { multiModelAI } from '@/lib/multi-model-ai'
+import { resolveAuthContext, type AuthContext } from '@/lib/auth-guard'
 import type { UserProfile } from '@/types'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -36,6 +38,10 @@ interface AISafetyResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: AISafetyRequest = await request.json()
@@ -49,6 +55,7 @@ export async function POST(request: NextRequest) {
 
     const { content, contentType, context, safetyLevel } = body
     const userProfile = context.userProfile
+    const auth = await resolveAuthContext(request)
 
     // Multi-layered safety analysis
     const safetyResults = await Promise.all([
@@ -62,7 +69,7 @@ export async function POST(request: NextRequest) {
       }),
 
       // Layer 2: AI-Powered Safety Analysis
-      analyzeContentWithAI(content, contentType, userProfile, safetyLevel),
+      analyzeContentWithAI(content, contentType, userProfile, safetyLevel, auth),
 
       // Layer 3: Age-Specific Content Analysis
       analyzeAgeAppropriateness(content, userProfile.age_group, safetyLevel)
@@ -79,7 +86,7 @@ export async function POST(request: NextRequest) {
     // Generate filtered content if needed
     let filteredContent = content
     if (!isSafe && combinedAnalysis.violations.length > 0) {
-      filteredContent = await generateSafeAlternative(content, contentType, userProfile, combinedAnalysis.violations)
+      filteredContent = await generateSafeAlternative(content, contentType, userProfile, combinedAnalysis.violations, auth)
     }
 
     const processingTime = Date.now() - startTime
@@ -134,7 +141,8 @@ async function analyzeContentWithAI(
   content: string,
   contentType: string,
   userProfile: UserProfile,
-  safetyLevel: string
+  safetyLevel: string,
+  auth: AuthContext | null
 ): Promise<any> {
   try {
     const prompt = `
@@ -175,6 +183,7 @@ async function analyzeContentWithAI(
     const response = await multiModelAI.generateContent({
       useCase: 'content_explanation',
       userProfile,
+      auth,
       context: prompt,
       requestType: 'content',
       priority: 'high',
@@ -322,7 +331,8 @@ async function generateSafeAlternative(
   content: string,
   contentType: string,
   userProfile: UserProfile,
-  violations: string[]
+  violations: string[],
+  auth: AuthContext | null
 ): Promise<string> {
   try {
     const prompt = `
@@ -345,6 +355,7 @@ async function generateSafeAlternative(
     const response = await multiModelAI.generateContent({
       useCase: 'general_tutoring',
       userProfile,
+      auth,
       context: prompt,
       requestType: 'content',
       priority: 'medium',
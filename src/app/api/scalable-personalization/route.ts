@@ -7,6 +7,7 @@ import {
   type PersonalizationAnalytics,
   type ScalabilityConfig
 } from '@/lib/scalable-learning-path-personalization'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 180 // 3 minutes for complex personalization
 
@@ -57,6 +58,10 @@ interface ScalablePersonalizationApiResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: ScalablePersonalizationApiRequest = await request.json()
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hrisProvisioningService, ScimError, SCIM_SCHEMAS } from '@/lib/hris-provisioning'
+
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+interface ScimRouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+type ScimResource = 'Users' | 'Groups' | 'ServiceProviderConfig' | 'ResourceTypes' | 'Schemas'
+
+function scimResponse(body: unknown, status = 200, location?: string) {
+  return new NextResponse(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/scim+json',
+      ...(location ? { Location: location } : {})
+    }
+  })
+}
+
+function scimErrorResponse(error: unknown, label: string) {
+  if (error instanceof ScimError) {
+    return scimResponse(error.toJSON(), error.status)
+  }
+  if (error instanceof SyntaxError) {
+    return scimResponse(new ScimError('Request body is not valid JSON', 400, 'invalidSyntax').toJSON(), 400)
+  }
+
+  console.error(`SCIM ${label} error:`, error)
+  return scimResponse({ schemas: [SCIM_SCHEMAS.error], status: '500', detail: 'Failed to process SCIM request' }, 500)
+}
+
+function getBaseUrl(request: NextRequest): string {
+  return `${(process.env.NEXT_PUBLIC_SITE_URL || request.nextUrl.origin).replace(/\/$/, '')}/api/scim/v2`
+}
+
+// Every request acts for the company whose bearer token it carries
+async function resolveRequest(request: NextRequest, context: ScimRouteContext) {
+  const { path } = await context.params
+  const [resource, id, ...rest] = path
+  if (rest.length > 0 || !['Users', 'Groups', 'ServiceProviderConfig', 'ResourceTypes', 'Schemas'].includes(resource)) {
+    throw new ScimError(`Unknown SCIM endpoint: /${path.join('/')}`, 404)
+  }
+
+  await hrisProvisioningService.hydrate()
+  const companyId = hrisProvisioningService.authenticate(request.headers.get('authorization'))
+  return { resource: resource as ScimResource, id: id as string | undefined, companyId, baseUrl: getBaseUrl(request) }
+}
+
+function requireId(id: string | undefined, resource: ScimResource): string {
+  if (!id) {
+    throw new ScimError(`${resource} requests need a resource id`, 404)
+  }
+  return id
+}
+
+function listOf(resources: Record<string, any>[]) {
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults: resources.length,
+    startIndex: 1,
+    itemsPerPage: resources.length,
+    Resources: resources
+  }
+}
+
+export async function GET(request: NextRequest, context: ScimRouteContext) {
+  try {
+    const { resource, id, companyId, baseUrl } = await resolveRequest(request, context)
+    const searchParams = request.nextUrl.searchParams
+    const query = {
+      filter: searchParams.get('filter'),
+      startIndex: searchParams.has('startIndex') ? Number(searchParams.get('startIndex')) : undefined,
+      count: searchParams.has('count') ? Number(searchParams.get('count')) : undefined,
+      excludedAttributes: searchParams.get('excludedAttributes')
+    }
+
+    let body: unknown
+    switch (resource) {
+      case 'Users':
+        body = id ? hrisProvisioningService.getUser(companyId, id, baseUrl) : hrisProvisioningService.listUsers(companyId, baseUrl, query)
+        break
+      case 'Groups':
+        body = id ? hrisProvisioningService.getGroup(companyId, id, baseUrl) : hrisProvisioningService.listGroups(companyId, baseUrl, query)
+        break
+      case 'ServiceProviderConfig':
+        body = hrisProvisioningService.getServiceProviderConfig(baseUrl)
+        break
+      case 'ResourceTypes': {
+        const resourceTypes = hrisProvisioningService.getResourceTypes(baseUrl)
+        body = id ? resourceTypes.find(type => type.id === id) : listOf(resourceTypes)
+        break
+      }
+      case 'Schemas': {
+        const schemas = hrisProvisioningService.getSchemas(baseUrl)
+        body = id ? schemas.find(schema => schema.id === id) : listOf(schemas)
+        break
+      }
+    }
+    if (!body) {
+      throw new ScimError(`${resource} ${id} not found`, 404)
+    }
+
+    // Authenticating stamps the token's lastUsedAt
+    await hrisProvisioningService.flush()
+    return scimResponse(body)
+  } catch (error) {
+    return scimErrorResponse(error, 'read')
+  }
+}
+
+export async function POST(request: NextRequest, context: ScimRouteContext) {
+  try {
+    const { resource, id, companyId, baseUrl } = await resolveRequest(request, context)
+    if (id || (resource !== 'Users' && resource !== 'Groups')) {
+      throw new ScimError('POST creates Users and Groups only', 404)
+    }
+
+    const body = await request.json()
+    const created = resource === 'Users'
+      ? await hrisProvisioningService.createUser(companyId, body, baseUrl)
+      : await hrisProvisioningService.createGroup(companyId, body, baseUrl)
+
+    await hrisProvisioningService.flush()
+    return scimResponse(created, 201, created.meta.location)
+  } catch (error) {
+    return scimErrorResponse(error, 'create')
+  }
+}
+
+export async function PUT(request: NextRequest, context: ScimRouteContext) {
+  try {
+    const { resource, id, companyId, baseUrl } = await resolveRequest(request, context)
+    const resourceId = requireId(id, resource)
+    const body = await request.json()
+
+    let replaced: Record<string, any>
+    if (resource === 'Users') {
+      replaced = await hrisProvisioningService.replaceUser(companyId, resourceId, body, baseUrl)
+    } else if (resource === 'Groups') {
+      replaced = await hrisProvisioningService.replaceGroup(companyId, resourceId, body, baseUrl)
+    } else {
+      throw new ScimError(`${resource} is read-only`, 404)
+    }
+
+    await hrisProvisioningService.flush()
+    return scimResponse(replaced)
+  } catch (error) {
+    return scimErrorResponse(error, 'replace')
+  }
+}
+
+export async function PATCH(request: NextRequest, context: ScimRouteContext) {
+  try {
+    const { resource, id, companyId, baseUrl } = await resolveRequest(request, context)
+    const resourceId = requireId(id, resource)
+    const body = await request.json()
+
+    let patched: Record<string, any>
+    if (resource === 'Users') {
+      patched = await hrisProvisioningService.patchUser(companyId, resourceId, body, baseUrl)
+    } else if (resource === 'Groups') {
+      patched = await hrisProvisioningService.patchGroup(companyId, resourceId, body, baseUrl)
+    } else {
+      throw new ScimError(`${resource} is read-only`, 404)
+    }
+
+    await hrisProvisioningService.flush()
+    return scimResponse(patched)
+  } catch (error) {
+    return scimErrorResponse(error, 'patch')
+  }
+}
+
+// Deleting a User deprovisions the employee; their training history is kept
+export async function DELETE(request: NextRequest, context: ScimRouteContext) {
+  try {
+    const { resource, id, companyId } = await resolveRequest(request, context)
+    const resourceId = requireId(id, resource)
+
+    if (resource === 'Users') {
+      await hrisProvisioningService.deleteUser(companyId, resourceId)
+    } else if (resource === 'Groups') {
+      await hrisProvisioningService.deleteGroup(companyId, resourceId)
+    } else {
+      throw new ScimError(`${resource} is read-only`, 404)
+    }
+
+    await hrisProvisioningService.flush()
+    return scimResponse(null, 204)
+  } catch (error) {
+    return scimErrorResponse(error, 'delete')
+  }
+}
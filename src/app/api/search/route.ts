@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  searchDocuments,
+  findSimilarDocuments,
+  indexPublishedContent,
+  type SearchMode,
+  type SearchSourceType,
+  type SearchMetadata
+} from '@/lib/semantic-search'
+import { getActiveEmbeddingProvider } from '@/lib/embedding-providers'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+
+export const maxDuration = 60
+
+interface SearchApiRequest {
+  action: 'search' | 'similar' | 'index_content'
+
+  // For search
+  query?: string
+  mode?: SearchMode
+
+  // For search and similar
+  types?: SearchSourceType[] // all source types when omitted
+  subject?: string
+  contentType?: string
+  difficulty?: string
+  limit?: number
+
+  // For similar
+  sourceType?: SearchSourceType
+  sourceId?: string
+
+  // For index_content
+  since?: string // ISO date; only content updated from then on
+}
+
+const SOURCE_TYPES: SearchSourceType[] = ['content', 'synthesis', 'concept']
+const SEARCH_MODES: SearchMode[] = ['hybrid', 'vector', 'keyword']
+
+// Indexing embeds the whole content table, so only platform admins run it
+const INDEX_CONTENT: AccessRule = { roles: [] }
+
+function metadataFilter(body: SearchApiRequest): SearchMetadata | undefined {
+  const filter: SearchMetadata = {}
+  if (body.subject) filter.subject = body.subject
+  if (body.contentType) filter.content_type = body.contentType
+  if (body.difficulty) filter.difficulty_level = body.difficulty
+  return Object.keys(filter).length > 0 ? filter : undefined
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await requireAuth(request)
+    const body: SearchApiRequest = await request.json()
+
+    if (!body.action) {
+      return NextResponse.json({ error: 'Missing required field: action' }, { status: 400 })
+    }
+    if (body.types && !body.types.every(type => SOURCE_TYPES.includes(type))) {
+      return NextResponse.json({ error: `types must be among: ${SOURCE_TYPES.join(', ')}` }, { status: 400 })
+    }
+
+    switch (body.action) {
+      case 'search': {
+        if (!body.query?.trim()) {
+          return NextResponse.json({ error: 'Missing required field: query' }, { status: 400 })
+        }
+        if (body.mode && !SEARCH_MODES.includes(body.mode)) {
+          return NextResponse.json({ error: `mode must be one of: ${SEARCH_MODES.join(', ')}` }, { status: 400 })
+        }
+        const search = await searchDocuments({
+          query: body.query.trim(),
+          mode: body.mode,
+          limit: body.limit,
+          sourceTypes: body.types,
+          metadata: metadataFilter(body)
+        })
+        return NextResponse.json({ success: true, action: body.action, ...search })
+      }
+
+      case 'similar': {
+        if (!body.sourceType || !SOURCE_TYPES.includes(body.sourceType) || !body.sourceId) {
+          return NextResponse.json({ error: 'Missing required fields: sourceType, sourceId' }, { status: 400 })
+        }
+        const results = await findSimilarDocuments(
+          body.sourceType,
+          body.sourceId,
+          { sourceTypes: body.types, metadata: metadataFilter(body) },
+          Math.max(1, Math.min(body.limit || 10, 50))
+        )
+        return NextResponse.json({ success: true, action: body.action, results })
+      }
+
+      case 'index_content': {
+        authorize(auth, INDEX_CONTENT)
+        const since = body.since ? new Date(body.since) : undefined
+        if (since && isNaN(since.getTime())) {
+          return NextResponse.json({ error: 'Invalid date for since' }, { status: 400 })
+        }
+        const summary = await indexPublishedContent(since)
+        return NextResponse.json({ success: true, action: body.action, summary })
+      }
+
+      default:
+        return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
+    }
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+
+    console.error('Search API error:', error)
+    return NextResponse.json(
+      { error: 'Failed to process search request' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Hybrid Search API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        search: 'BM25 and vector search fused by reciprocal rank (fields: query, mode, types, subject, contentType, difficulty, limit)',
+        similar: 'Nearest neighbours of an indexed document (fields: sourceType, sourceId, types, limit)',
+        index_content: 'Embed published content into the search index (platform admins; fields: since)'
+      }
+    },
+    sourceTypes: SOURCE_TYPES,
+    modes: SEARCH_MODES,
+    embeddingModel: getActiveEmbeddingProvider().model
+  })
+}
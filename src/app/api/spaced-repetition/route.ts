@@ -0,0 +1,320 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  spacedRepetitionEngine,
+  type LearningItem,
+  type ReviewSession,
+  type SuperMemoAlgorithm
+} from '@/lib/spaced-repetition-engine'
+import { SchedulerSettingsError, type SchedulerSettings } from '@/lib/spaced-repetition-schedulers'
+import {
+  DeckImportError,
+  parseAnkiPackage,
+  parseAnkiText,
+  parseCSVDeck,
+  type CSVFieldMapping,
+  type DeckExportFormat,
+  type DeckImportFormat,
+  type ImportedCard
+} from '@/lib/flashcard-deck-io'
+import { requireAuth, authorize, authErrorResponse, type AccessRule } from '@/lib/auth-guard'
+import { withAICaller } from '@/lib/ai-caller'
+
+// Anki packages are read with sql.js on the server
+export const runtime = 'nodejs'
+export const maxDuration = 30
+
+interface SpacedRepetitionRequest {
+  action: 'add_learning_item' | 'record_review_session' | 'generate_schedule' | 'analyze_forgetting_curve' |
+          'optimize_review_intervals' | 'get_optimal_review_times' | 'initialize_leitner_system' |
+          'initialize_supermemo' | 'get_items_due_today' | 'get_due_cards' | 'get_memory_state' |
+          'get_scheduler_settings' | 'configure_scheduler' | 'optimize_scheduler_parameters' |
+          'import_deck' | 'export_schedule' | 'get_learning_item'
+  learnerId?: string // defaults to the caller
+
+  // For add_learning_item
+  item?: LearningItem
+  initialPerformance?: Partial<ReviewSession['performance_data']>
+
+  // For record_review_session, analyze_forgetting_curve, get_memory_state
+  itemId?: string
+  sessionData?: Partial<ReviewSession>
+
+  // For generate_schedule
+  horizonDays?: number
+  maxDailyReviews?: number
+
+  // For optimize_review_intervals
+  itemIds?: string[]
+
+  // For get_optimal_review_times
+  targetDate?: string
+
+  // For initialize_leitner_system
+  maxBoxes?: number
+  initialInterval?: number
+
+  // For initialize_supermemo
+  version?: SuperMemoAlgorithm['version']
+
+  // For configure_scheduler
+  schedulerSettings?: Partial<SchedulerSettings>
+
+  // For import_deck (apkg content is base64-encoded)
+  deckFormat?: DeckImportFormat
+  deckContent?: string
+  fieldMapping?: Partial<CSVFieldMapping>
+
+  // For export_schedule
+  exportFormat?: DeckExportFormat
+}
+
+const MAX_DECK_BYTES = 50 * 1024 * 1024
+
+// Same as offline review replay: learners manage their own cards, parents and instructors on a learner's behalf
+const MANAGE_CARDS: AccessRule = { roles: ['instructor', 'org_admin'], allowSelf: true, allowGuardian: true }
+
+async function parseDeck(format: DeckImportFormat, content: string, fieldMapping?: Partial<CSVFieldMapping>): Promise<ImportedCard[]> {
+  switch (format) {
+    case 'apkg':
+      return parseAnkiPackage(new Uint8Array(Buffer.from(content, 'base64')))
+    case 'anki_text':
+      return parseAnkiText(content)
+    case 'csv':
+      return parseCSVDeck(content, fieldMapping)
+    default:
+      throw new Error('Invalid deckFormat. Must be: apkg, anki_text or csv')
+  }
+}
+
+export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    const startTime = Date.now()
+    const auth = await requireAuth(request)
+    const body: SpacedRepetitionRequest = await request.json()
+
+    if (!body.action) {
+      return NextResponse.json(
+        { error: 'Missing required field: action' },
+        { status: 400 }
+      )
+    }
+
+    const learnerId = body.learnerId || auth.userId
+    authorize(auth, MANAGE_CARDS, { userIds: [learnerId] })
+    await spacedRepetitionEngine.hydrate()
+
+    let response: Record<string, any>
+
+    switch (body.action) {
+      case 'add_learning_item':
+        if (!body.item) {
+          return NextResponse.json({ error: 'Missing item' }, { status: 400 })
+        }
+        response = {
+          memoryState: await spacedRepetitionEngine.addLearningItem(learnerId, body.item, body.initialPerformance)
+        }
+        break
+
+      case 'record_review_session':
+        if (!body.itemId || !body.sessionData) {
+          return NextResponse.json({ error: 'Missing itemId or sessionData' }, { status: 400 })
+        }
+        response = await spacedRepetitionEngine.recordReviewSession(learnerId, body.itemId, body.sessionData)
+        break
+
+      case 'generate_schedule':
+        response = {
+          schedule: await spacedRepetitionEngine.generateSchedule(learnerId, body.horizonDays, body.maxDailyReviews)
+        }
+        break
+
+      case 'analyze_forgetting_curve':
+        if (!body.itemId) {
+          return NextResponse.json({ error: 'Missing itemId' }, { status: 400 })
+        }
+        response = {
+          analysis: await spacedRepetitionEngine.analyzeForgettingCurve(learnerId, body.itemId)
+        }
+        break
+
+      case 'optimize_review_intervals':
+        response = {
+          optimization: await spacedRepetitionEngine.optimizeReviewIntervals(learnerId, body.itemIds)
+        }
+        break
+
+      case 'get_optimal_review_times':
+        response = {
+          recommendations: await spacedRepetitionEngine.getOptimalReviewTimes(
+            learnerId,
+            body.targetDate ? new Date(body.targetDate) : new Date()
+          )
+        }
+        break
+
+      case 'initialize_leitner_system':
+        response = {
+          system: spacedRepetitionEngine.initializeLeitnerSystem(learnerId, body.maxBoxes, body.initialInterval)
+        }
+        break
+
+      case 'initialize_supermemo':
+        response = {
+          algorithm: spacedRepetitionEngine.initializeSuperMemo(learnerId, body.version)
+        }
+        break
+
+      case 'get_items_due_today':
+        response = {
+          dueItems: spacedRepetitionEngine.getItemsDueToday(learnerId)
+        }
+        break
+
+      case 'get_due_cards':
+        response = {
+          dueCards: spacedRepetitionEngine.getDueCards(learnerId)
+        }
+        break
+
+      case 'get_memory_state':
+        if (!body.itemId) {
+          return NextResponse.json({ error: 'Missing itemId' }, { status: 400 })
+        }
+        response = {
+          memoryState: spacedRepetitionEngine.getMemoryState(learnerId, body.itemId)
+        }
+        break
+
+      case 'get_scheduler_settings':
+        response = {
+          schedulerSettings: spacedRepetitionEngine.getSchedulerSettings(learnerId)
+        }
+        break
+
+      case 'configure_scheduler':
+        if (!body.schedulerSettings) {
+          return NextResponse.json({ error: 'Missing schedulerSettings' }, { status: 400 })
+        }
+        response = {
+          schedulerSettings: spacedRepetitionEngine.configureScheduler(learnerId, body.schedulerSettings)
+        }
+        break
+
+      case 'optimize_scheduler_parameters':
+        response = {
+          optimization: spacedRepetitionEngine.optimizeSchedulerParameters(learnerId),
+          schedulerSettings: spacedRepetitionEngine.getSchedulerSettings(learnerId)
+        }
+        break
+
+      case 'import_deck': {
+        if (!body.deckFormat || !body.deckContent) {
+          return NextResponse.json({ error: 'Missing deckFormat or deckContent' }, { status: 400 })
+        }
+        if (body.deckContent.length > MAX_DECK_BYTES) {
+          return NextResponse.json({ error: 'Deck exceeds maximum import size' }, { status: 413 })
+        }
+        let cards: ImportedCard[]
+        try {
+          cards = await parseDeck(body.deckFormat, body.deckContent, body.fieldMapping)
+        } catch (error) {
+          return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Could not read deck' },
+            { status: error instanceof DeckImportError ? error.status : 400 }
+          )
+        }
+        response = {
+          importResult: await spacedRepetitionEngine.importDeck(learnerId, cards, body.deckFormat)
+        }
+        break
+      }
+
+      case 'export_schedule':
+        response = {
+          exportFile: spacedRepetitionEngine.exportSchedule(learnerId, body.exportFormat)
+        }
+        break
+
+      case 'get_learning_item':
+        if (!body.itemId) {
+          return NextResponse.json({ error: 'Missing itemId' }, { status: 400 })
+        }
+        response = {
+          item: spacedRepetitionEngine.getLearningItem(learnerId, body.itemId)
+        }
+        break
+
+      default:
+        return NextResponse.json(
+          { error: 'Invalid action' },
+          { status: 400 }
+        )
+    }
+
+    await spacedRepetitionEngine.flush()
+    return NextResponse.json({
+      ...response,
+      success: true,
+      action: body.action,
+      metadata: {
+        learnerId,
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString()
+      }
+    })
+
+  } catch (error) {
+    const authResponse = authErrorResponse(error)
+    if (authResponse) return authResponse
+    if (error instanceof DeckImportError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status })
+    }
+    if (error instanceof SchedulerSettingsError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: 400 })
+    }
+
+    console.error('Spaced repetition API error:', error)
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to process spaced repetition request' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Spaced Repetition API',
+    version: '1.0.0',
+    endpoints: {
+      POST: {
+        description: 'Spaced repetition scheduling and memory modelling',
+        actions: [
+          'add_learning_item',
+          'record_review_session',
+          'generate_schedule',
+          'analyze_forgetting_curve',
+          'optimize_review_intervals',
+          'get_optimal_review_times',
+          'initialize_leitner_system',
+          'initialize_supermemo',
+          'get_items_due_today',
+          'get_due_cards',
+          'get_memory_state',
+          'get_scheduler_settings',
+          'configure_scheduler',
+          'optimize_scheduler_parameters',
+          'import_deck',
+          'export_schedule',
+          'get_learning_item'
+        ]
+      }
+    },
+    schedulingAlgorithms: ['fsrs', 'sm2', 'heuristic'],
+    importFormats: ['apkg', 'anki_text', 'csv'],
+    exportFormats: ['csv', 'anki_text', 'review_log_csv']
+  })
+}
@@ -5,6 +5,8 @@ import {
   type TutorPersonality,
   type ConversationContext
 } from '@/lib/intelligent-tutoring-system'
+import { createEventStreamResponse } from '@/lib/event-stream'
+import { withAICaller } from '@/lib/ai-caller'
 
 export const maxDuration = 30
 
@@ -27,6 +29,9 @@ interface TutoringRequest {
   // For continue_conversation
   sessionId?: string
   studentMessage?: string
+
+  // Respond with a text/event-stream of tutor tokens (start_conversation, continue_conversation)
+  stream?: boolean
 }
 
 interface TutoringResponse {
@@ -55,6 +60,10 @@ interface TutoringResponse {
 }
 
 export async function POST(request: NextRequest) {
+  return withAICaller(request, () => handlePost(request))
+}
+
+async function handlePost(request: NextRequest) {
   try {
     const startTime = Date.now()
     const body: TutoringRequest = await request.json()
@@ -66,6 +75,21 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (body.stream && (body.action === 'start_conversation' || body.action === 'continue_conversation')) {
+      const missing = body.action === 'start_conversation'
+        ? !body.studentProfile || !body.subject || !body.learningObjectives
+        : !body.sessionId || !body.studentMessage
+      if (missing) {
+        return NextResponse.json(
+          { error: body.action === 'start_conversation'
+            ? 'Missing required fields: studentProfile, subject, learningObjectives'
+            : 'Missing required fields: sessionId, studentMessage' },
+          { status: 400 }
+        )
+      }
+      return streamTutorMessage(body, startTime)
+    }
+
     let response: Partial<TutoringResponse> = {
       success: true,
       action: body.action
@@ -127,6 +151,45 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Stream the tutor's next message as it is generated.
+// Events: token ({ text }), message (final message, history and session id), error
+function streamTutorMessage(body: TutoringRequest, startTime: number): Response {
+  return createEventStreamResponse(async writer => {
+    const onToken = (text: string) => writer.send('token', { text })
+    let sessionId = body.sessionId!
+    let message: ConversationMessage
+
+    if (body.action === 'start_conversation') {
+      sessionId = await intelligentTutoringSystem.startConversation(
+        body.studentProfile!,
+        body.subject!,
+        body.learningObjectives!,
+        body.tutorPersonalityId,
+        onToken
+      )
+      const history = intelligentTutoringSystem.getConversationHistory(sessionId)
+      message = history[history.length - 1]
+    } else {
+      message = await intelligentTutoringSystem.continueConversation(sessionId, body.studentMessage!, onToken)
+    }
+
+    const conversationHistory = intelligentTutoringSystem.getConversationHistory(sessionId)
+
+    writer.send('message', {
+      success: true,
+      action: body.action,
+      sessionId,
+      message,
+      conversationHistory,
+      metadata: {
+        processingTime: Date.now() - startTime,
+        timestamp: new Date().toISOString(),
+        messageCount: conversationHistory.length
+      }
+    })
+  })
+}
+
 // Start a new tutoring conversation
 async function handleStartConversation(body: TutoringRequest): Promise<Partial<TutoringResponse>> {
   if (!body.studentProfile || !body.subject || !body.learningObjectives) {
@@ -216,6 +279,7 @@ export async function GET() {
     endpoints: {
       POST: {
         description: 'AI-powered tutoring conversations',
+        streaming: 'Set stream: true on start_conversation or continue_conversation for a text/event-stream of token and message events',
         actions: [
           'start_conversation',
           'continue_conversation', 
@@ -0,0 +1,8 @@
+// Badge Wallet Page
+// The signed-in learner's Open Badges from skill trees, challenges and certifications
+
+import BadgeWallet from '@/components/BadgeWallet'
+
+export default function BadgesPage() {
+  return <BadgeWallet />
+}
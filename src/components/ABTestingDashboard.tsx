@@ -18,7 +18,7 @@ import {
   useQuickABTest,
   useMultiArmedBandit
 } from '@/hooks/useABTesting'
-import type { ABTest, ABTestResults, TestVariant } from '@/lib/ab-testing-framework'
+import type { ABTest, ABTestResults, TestVariant, VariantComparison } from '@/lib/ab-testing-framework'
 
 interface ABTestingDashboardProps {
   userProfile?: UserProfile
@@ -520,7 +520,8 @@ function CreateTestTab({ onCreateTest, userProfile }: CreateTestTabProps) {
     treatmentModelId: 'claude-3-sonnet',
     useCase: 'general',
     duration: 14,
-    minimumSampleSize: 1000
+    minimumSampleSize: 1000,
+    analysisMethod: 'fixed_horizon' as 'fixed_horizon' | 'sequential' | 'bayesian'
   })
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -538,7 +539,8 @@ function CreateTestTab({ onCreateTest, userProfile }: CreateTestTabProps) {
         treatmentModelId: 'claude-3-sonnet',
         useCase: 'general',
         duration: 14,
-        minimumSampleSize: 1000
+        minimumSampleSize: 1000,
+        analysisMethod: 'fixed_horizon'
       })
     } catch (error) {
       console.error('Failed to create test:', error)
@@ -673,6 +675,21 @@ function CreateTestTab({ onCreateTest, userProfile }: CreateTestTabProps) {
               />
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Analysis Method
+            </label>
+            <select
+              value={formData.analysisMethod}
+              onChange={(e) => setFormData(prev => ({ ...prev, analysisMethod: e.target.value as typeof prev.analysisMethod }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="fixed_horizon">Fixed horizon (read once at the end)</option>
+              <option value="sequential">Sequential (safe to check any time)</option>
+              <option value="bayesian">Bayesian (probability to beat control)</option>
+            </select>
+          </div>
         </div>
 
         {/* Submit Button */}
@@ -945,6 +962,8 @@ function TestCard({ test, isSelected, onClick, onStartTest, onAnalyzeTest, metri
             </div>
           )}
 
+          {test.results && <ResultStatistics results={test.results} />}
+
           {banditPerformance && (
             <div className="mt-4 p-3 bg-blue-50 rounded">
               <div className="text-sm font-medium mb-2">Bandit Performance</div>
@@ -976,6 +995,13 @@ function TestAnalyticsCard({ test, metrics, impact }: {
       <h4 className="font-semibold mb-4">{test.name}</h4>
       
       <div className="space-y-4">
+        {test.results?.sampleRatioMismatch?.detected && (
+          <div className="flex items-center space-x-2 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            <span>Sample ratio mismatch: results are not trustworthy until the traffic split is fixed</span>
+          </div>
+        )}
+
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div>
             <span className="text-gray-600">Total Exposures:</span>
@@ -1007,6 +1033,95 @@ function TestAnalyticsCard({ test, metrics, impact }: {
   )
 }
 
+function ResultStatistics({ results }: { results: ABTestResults }) {
+  const srm = results.sampleRatioMismatch
+  const formatInterval = ([lower, upper]: [number, number]) =>
+    isFinite(lower) && isFinite(upper) ? `[${(lower * 100).toFixed(2)}, ${(upper * 100).toFixed(2)}] pts` : 'not yet bounded'
+
+  return (
+    <div className="mt-4 space-y-3">
+      {srm && (
+        <div className={`p-3 rounded text-sm ${srm.detected ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+          <div className="flex items-center font-medium mb-1">
+            {srm.detected ? <AlertTriangle className="w-4 h-4 mr-1" /> : <CheckCircle className="w-4 h-4 mr-1" />}
+            {srm.detected ? 'Sample ratio mismatch' : 'Traffic split healthy'}
+            <span className="ml-auto font-normal">p = {srm.pValue < 0.0001 ? srm.pValue.toExponential(1) : srm.pValue.toFixed(4)}</span>
+          </div>
+          <div className="flex flex-wrap gap-x-4 text-xs">
+            {srm.variants.map(variant => (
+              <span key={variant.variantId}>
+                {variant.variantId}: {(variant.observedShare * 100).toFixed(1)}% of {(variant.expectedShare * 100).toFixed(1)}%
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {results.variantComparisons.map(comparison => (
+        <ComparisonStatistics key={comparison.variantB} comparison={comparison} formatInterval={formatInterval} />
+      ))}
+    </div>
+  )
+}
+
+function ComparisonStatistics({ comparison, formatInterval }: {
+  comparison: VariantComparison
+  formatInterval: (interval: [number, number]) => string
+}) {
+  const { sequential, bayesian, cuped } = comparison
+  const basisLabels: Record<VariantComparison['decisionBasis'], string> = {
+    fixed_horizon: 'Fixed horizon',
+    sequential: 'Sequential (mSPRT)',
+    bayesian: 'Bayesian'
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 rounded text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium">{comparison.variantB} vs {comparison.variantA}</span>
+        <span className="text-xs text-gray-500">{basisLabels[comparison.decisionBasis]}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        {sequential && (
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Sequential test</div>
+            <div>Always-valid p: {sequential.alwaysValidPValue.toFixed(4)}</div>
+            <div>Interval: {formatInterval(sequential.confidenceInterval)}</div>
+            <div className="text-xs text-gray-500">
+              {sequential.looks} looks · {sequential.boundaryCrossed ? 'boundary crossed' : `boundary at p < ${sequential.alpha}`}
+            </div>
+          </div>
+        )}
+
+        {bayesian && (
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Posterior</div>
+            <div>P(beats control): {(bayesian.probabilityToBeatControl * 100).toFixed(1)}%</div>
+            <div>Lift: {formatInterval(bayesian.liftCredibleInterval)}</div>
+            <div className="text-xs text-gray-500">
+              Expected loss {(bayesian.expectedLoss * 100).toFixed(3)} pts if shipped, {(bayesian.expectedLossControl * 100).toFixed(3)} pts if not
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="text-xs text-gray-500 mb-1">{cuped ? 'CUPED-adjusted difference' : 'Difference'}</div>
+          <div>{(comparison.difference * 100).toFixed(2)} pts ({comparison.percentageChange.toFixed(1)}%)</div>
+          {!sequential && <div>Interval: {formatInterval(comparison.confidenceInterval)}</div>}
+          {cuped ? (
+            <div className="text-xs text-gray-500">
+              Variance -{(cuped.varianceReduction * 100).toFixed(0)}% · {(cuped.coverage * 100).toFixed(0)}% of users with pre-period data
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">No pre-period engagement for CUPED</div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
 function QuickTestModal({ onClose, onCreateTest }: {
   onClose: () => void
   onCreateTest: (config: any) => Promise<any>
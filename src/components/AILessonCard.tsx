@@ -13,6 +13,7 @@ import {
   Shield
 } from 'lucide-react'
 import type { UserProfile } from '@/types'
+import { isOnline, cacheLessonContent, getOfflineLessonContent } from '@/lib/offline-sync'
 
 interface AILessonCardProps {
   topic: string
@@ -46,8 +47,22 @@ export default function AILessonCard({ topic, userProfile, onInteraction, safety
     setIsLoading(true)
     setError(null)
     onInteraction?.('ai_lesson_generate_start', { topic })
+    const cacheKey = `${topic}:${userProfile.level || 'beginner'}`
 
     try {
+      // Offline: show the lesson generated for this topic on an earlier visit, if there was one
+      if (!isOnline()) {
+        const cached = await getOfflineLessonContent<{ content: string; metadata: AIResponse }>(cacheKey)
+        if (!cached) {
+          throw new Error("You're offline and this lesson hasn't been saved yet")
+        }
+        setContent(cached.content)
+        setAiMetadata(cached.metadata)
+        setHasGenerated(true)
+        onInteraction?.('ai_lesson_generate_success', { topic, offline: true })
+        return
+      }
+
       const response = await fetch('/api/ai/smart-content', {
         method: 'POST',
         headers: {
@@ -89,6 +104,8 @@ export default function AILessonCard({ topic, userProfile, onInteraction, safety
         setContent(finalContent)
         setAiMetadata(result.metadata)
         setHasGenerated(true)
+        cacheLessonContent(cacheKey, { content: finalContent, metadata: result.metadata })
+          .catch(error => console.warn('Failed to cache lesson:', error))
         onInteraction?.('ai_lesson_generate_success', { 
           topic, 
           model: result.metadata.model,
@@ -0,0 +1,363 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useItemAnalysis } from '@/hooks/useAdaptiveExamGeneration'
+import type { ItemFlag, ItemStatistics } from '@/lib/item-analysis'
+
+interface AdaptiveExamDashboardProps {
+  examId?: string
+  bankId?: string
+}
+
+const FLAG_LABELS: Record<ItemFlag, string> = {
+  insufficient_data: 'Too few responses',
+  too_easy: 'Too easy',
+  too_hard: 'Too hard',
+  low_discrimination: 'Low discrimination',
+  negative_discrimination: 'Negative discrimination',
+  possible_miskey: 'Possible miskey',
+  nonfunctioning_distractors: 'Weak distractors',
+  reduces_reliability: 'Lowers alpha',
+  dif: 'DIF',
+  overexposed: 'Overexposed'
+}
+
+const RECOMMENDATION_STYLES: Record<ItemStatistics['recommendation'], string> = {
+  keep: 'bg-green-100 text-green-700',
+  review: 'bg-yellow-100 text-yellow-700',
+  retire: 'bg-red-100 text-red-700'
+}
+
+function formatNumber(value: number | null | undefined, digits = 2): string {
+  return value === null || value === undefined || !Number.isFinite(value) ? '—' : value.toFixed(digits)
+}
+
+export default function AdaptiveExamDashboard({ examId, bankId }: AdaptiveExamDashboardProps) {
+  const [scopeType, setScopeType] = useState<'exam' | 'bank'>(bankId && !examId ? 'bank' : 'exam')
+  const [scopeId, setScopeId] = useState(examId || bankId || '')
+  const [referenceGroup, setReferenceGroup] = useState<string>('')
+  const [filter, setFilter] = useState<'all' | 'flagged' | 'retire'>('all')
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null)
+
+  const { report, isLoading, error, loadItemAnalysis, clearError } = useItemAnalysis()
+
+  const loadReport = (group: string = referenceGroup) => {
+    if (!scopeId) return
+    loadItemAnalysis(
+      scopeType === 'exam' ? { examId: scopeId } : { bankId: scopeId },
+      { referenceGroup: group || undefined }
+    )
+  }
+
+  useEffect(() => {
+    if (examId || bankId) {
+      loadItemAnalysis(examId ? { examId } : { bankId })
+    }
+  }, [examId, bankId, loadItemAnalysis])
+
+  const items = (report?.items || []).filter(item => {
+    if (filter === 'retire') return item.recommendation === 'retire'
+    if (filter === 'flagged') return item.recommendation !== 'keep'
+    return true
+  })
+  const selectedItem = report?.items.find(item => item.item_id === selectedItemId) || null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      {/* Header */}
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between py-4">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Adaptive Exam Dashboard</h1>
+              <p className="text-sm text-gray-600">Item analysis from finished exam sittings</p>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <select
+                value={scopeType}
+                onChange={(e) => setScopeType(e.target.value as 'exam' | 'bank')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="exam">Exam</option>
+                <option value="bank">Question bank</option>
+              </select>
+              <input
+                value={scopeId}
+                onChange={(e) => setScopeId(e.target.value)}
+                placeholder={scopeType === 'exam' ? 'Exam ID' : 'Question bank ID'}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <button
+                onClick={() => loadReport()}
+                disabled={!scopeId || isLoading}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {isLoading ? 'Analyzing...' : 'Analyze'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+            <div className="flex items-center">
+              <span className="text-red-500 mr-2">⚠️</span>
+              <span className="text-red-700">{error}</span>
+            </div>
+            <button onClick={clearError} className="text-red-500 hover:text-red-700">
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        {!report ? (
+          <div className="text-center py-12">
+            <p className="text-gray-600">
+              {isLoading ? 'Running item analysis...' : 'Choose an exam or question bank to see its item analysis.'}
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+              <StatCard title="Sittings" value={report.sittings} icon="📝" color="blue" />
+              <StatCard
+                title="Cronbach's Alpha"
+                value={formatNumber(report.reliability.cronbach_alpha)}
+                icon="🎯"
+                color="purple"
+                note={report.reliability.method === 'pairwise' ? 'pairwise (adaptive sittings)' : undefined}
+              />
+              <StatCard title="Mean p-value" value={formatNumber(report.summary.mean_p_value)} icon="📊" color="green" />
+              <StatCard title="To Review" value={report.summary.review_items} icon="🔍" color="yellow" />
+              <StatCard title="To Retire" value={report.summary.retire_items} icon="🗑️" color="orange" />
+            </div>
+
+            {/* Learner groups for DIF */}
+            {report.groups.length > 0 && (
+              <div className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="text-lg font-semibold text-gray-900">Learner Groups</h3>
+                  <select
+                    value={referenceGroup || report.reference_group || ''}
+                    onChange={(e) => {
+                      setReferenceGroup(e.target.value)
+                      loadReport(e.target.value)
+                    }}
+                    className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  >
+                    {report.groups.map(({ group }) => (
+                      <option key={group} value={group}>Reference: {group}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                  {report.groups.map(({ group, sittings }) => (
+                    <div
+                      key={group}
+                      className={`px-3 py-2 rounded-lg text-sm ${
+                        group === report.reference_group ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-700'
+                      }`}
+                    >
+                      {group} · {sittings} sittings
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Items */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Items</h3>
+                <div className="flex space-x-1">
+                  {(['all', 'flagged', 'retire'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setFilter(option)}
+                      className={`px-3 py-1 text-sm rounded-lg ${
+                        filter === option ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {option === 'all' ? 'All' : option === 'flagged' ? 'Flagged' : 'Retire'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4">Question</th>
+                      <th className="py-2 pr-4">Responses</th>
+                      <th className="py-2 pr-4">p-value</th>
+                      <th className="py-2 pr-4">Point-biserial</th>
+                      <th className="py-2 pr-4">Alpha if deleted</th>
+                      <th className="py-2 pr-4">Exposure</th>
+                      <th className="py-2 pr-4">Flags</th>
+                      <th className="py-2">Recommendation</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {items.map(item => (
+                      <tr
+                        key={item.item_id}
+                        onClick={() => setSelectedItemId(item.item_id === selectedItemId ? null : item.item_id)}
+                        className={`border-b cursor-pointer hover:bg-gray-50 ${item.item_id === selectedItemId ? 'bg-blue-50' : ''}`}
+                      >
+                        <td className="py-2 pr-4 font-medium text-gray-900">{item.item_id}</td>
+                        <td className="py-2 pr-4">{item.responses}</td>
+                        <td className="py-2 pr-4">{formatNumber(item.p_value)}</td>
+                        <td className={`py-2 pr-4 ${item.point_biserial < 0 ? 'text-red-600 font-semibold' : ''}`}>
+                          {formatNumber(item.point_biserial)}
+                        </td>
+                        <td className="py-2 pr-4">{formatNumber(item.alpha_if_deleted)}</td>
+                        <td className="py-2 pr-4">
+                          {item.exposure_rate === undefined ? '—' : `${Math.round(item.exposure_rate * 100)}%`}
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="flex flex-wrap gap-1">
+                            {item.flags.map(flag => (
+                              <span key={flag} className="px-2 py-0.5 rounded bg-gray-100 text-gray-700 text-xs">
+                                {FLAG_LABELS[flag]}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td className="py-2">
+                          <span className={`px-2 py-1 rounded text-xs font-medium ${RECOMMENDATION_STYLES[item.recommendation]}`}>
+                            {item.recommendation}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {items.length === 0 && (
+                  <p className="text-center text-gray-500 py-6">No items match this filter.</p>
+                )}
+              </div>
+            </div>
+
+            {selectedItem && <ItemDetail item={selectedItem} />}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Distractor analysis and DIF for one item
+function ItemDetail({ item }: { item: ItemStatistics }) {
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Distractors · {item.item_id}</h3>
+        {item.distractors.length === 0 ? (
+          <p className="text-gray-600">Not a choice item.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">Option</th>
+                <th className="py-2 pr-4">Chosen</th>
+                <th className="py-2 pr-4">Upper 27%</th>
+                <th className="py-2 pr-4">Lower 27%</th>
+                <th className="py-2">Point-biserial</th>
+              </tr>
+            </thead>
+            <tbody>
+              {item.distractors.map(option => (
+                <tr key={option.option_id} className={`border-b ${option.is_key ? 'bg-green-50' : ''}`}>
+                  <td className="py-2 pr-4 font-medium">
+                    {option.option_id}{option.is_key && ' ✓'}
+                  </td>
+                  <td className="py-2 pr-4">{Math.round(option.proportion * 100)}%</td>
+                  <td className="py-2 pr-4">{Math.round(option.upper_proportion * 100)}%</td>
+                  <td className="py-2 pr-4">{Math.round(option.lower_proportion * 100)}%</td>
+                  <td className={`py-2 ${!option.is_key && option.point_biserial > 0 ? 'text-red-600 font-semibold' : ''}`}>
+                    {formatNumber(option.point_biserial)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Differential Item Functioning</h3>
+        {item.dif.length === 0 ? (
+          <p className="text-gray-600">Not enough sittings per learner group for a Mantel-Haenszel test.</p>
+        ) : (
+          <div className="space-y-3">
+            {item.dif.map(result => (
+              <div
+                key={result.focal_group}
+                className={`flex items-center justify-between p-3 rounded-lg border ${
+                  result.classification === 'C' ? 'bg-red-50 border-red-200'
+                    : result.classification === 'B' ? 'bg-yellow-50 border-yellow-200'
+                    : 'bg-gray-50 border-gray-200'
+                }`}
+              >
+                <div>
+                  <div className="font-medium">{result.focal_group} vs {result.reference_group}</div>
+                  <div className="text-sm text-gray-600">
+                    {result.focal_count} / {result.reference_count} responses · MH odds ratio {formatNumber(result.odds_ratio)} · p {formatNumber(result.p_value, 3)}
+                  </div>
+                </div>
+                <div className="text-right">
+                  <div className="font-semibold">Δ {formatNumber(result.delta)}</div>
+                  <div className="text-xs text-gray-500">ETS class {result.classification}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Stat Card Component
+function StatCard({
+  title,
+  value,
+  icon,
+  color,
+  note
+}: {
+  title: string
+  value: string | number
+  icon: string
+  color: string
+  note?: string
+}) {
+  const colorClasses = {
+    blue: 'bg-blue-50 text-blue-600 border-blue-200',
+    green: 'bg-green-50 text-green-600 border-green-200',
+    purple: 'bg-purple-50 text-purple-600 border-purple-200',
+    orange: 'bg-orange-50 text-orange-600 border-orange-200',
+    yellow: 'bg-yellow-50 text-yellow-600 border-yellow-200'
+  }
+
+  return (
+    <div className={`rounded-lg border p-4 ${colorClasses[color as keyof typeof colorClasses]}`}>
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium opacity-75">{title}</p>
+          <p className="text-2xl font-bold">{value}</p>
+          {note && <p className="text-xs opacity-75">{note}</p>}
+        </div>
+        <div className="text-2xl">{icon}</div>
+      </div>
+    </div>
+  )
+}
@@ -5,7 +5,9 @@ import { motion, AnimatePresence } from 'framer-motion'
 import { 
   useAutomatedCurriculumGenerator, 
   useCurriculumTemplates, 
-  useCurriculumValidation 
+  useCurriculumValidation,
+  downloadPackageFile,
+  type CurriculumExportFormat
 } from '@/hooks/useAutomatedCurriculumGenerator'
 import {
   type CurriculumGenerationRequest,
@@ -24,6 +26,7 @@ const AutomatedCurriculumGeneratorDashboard: React.FC = () => {
     validationResults,
     qualityAnalysis,
     systemAnalytics,
+    exportData,
     isGenerating,
     isValidating,
     isExporting,
@@ -172,11 +175,11 @@ const AutomatedCurriculumGeneratorDashboard: React.FC = () => {
     }
   }
 
-  const handleExportCurriculum = async (format: 'pdf' | 'word' | 'json' | 'scorm' | 'canvas' | 'moodle') => {
+  const handleExportCurriculum = async (format: CurriculumExportFormat) => {
     if (!currentCurriculum) return
     
     try {
-      await exportCurriculum(currentCurriculum.curriculum_id, format)
+      await exportCurriculum(currentCurriculum, format)
     } catch (error) {
       console.error('Error exporting curriculum:', error)
     }
@@ -297,6 +300,7 @@ const AutomatedCurriculumGeneratorDashboard: React.FC = () => {
                 isValidating={isValidating}
                 isAnalyzing={isAnalyzing}
                 isExporting={isExporting}
+                exportData={exportData}
                 generationProgress={generationProgress}
                 currentCurriculum={currentCurriculum}
                 currentCurriculumMetrics={currentCurriculumMetrics}
@@ -380,6 +384,7 @@ const GeneratorTab: React.FC<{
   isValidating: boolean
   isAnalyzing: boolean
   isExporting: boolean
+  exportData: any
   generationProgress: any
   currentCurriculum: any
   currentCurriculumMetrics: any
@@ -389,7 +394,7 @@ const GeneratorTab: React.FC<{
   onGenerateCurriculum: () => Promise<void>
   onValidateCurriculum: () => Promise<void>
   onAnalyzeQuality: () => Promise<void>
-  onExportCurriculum: (format: string) => Promise<void>
+  onExportCurriculum: (format: CurriculumExportFormat) => Promise<void>
 }> = ({
   hasLearningObjectives,
   hasCurrentCurriculum,
@@ -397,6 +402,7 @@ const GeneratorTab: React.FC<{
   isValidating,
   isAnalyzing,
   isExporting,
+  exportData,
   generationProgress,
   currentCurriculum,
   currentCurriculumMetrics,
@@ -408,16 +414,19 @@ const GeneratorTab: React.FC<{
   onAnalyzeQuality,
   onExportCurriculum
 }) => {
-  const [selectedExportFormat, setSelectedExportFormat] = useState<string>('pdf')
+  const [selectedExportFormat, setSelectedExportFormat] = useState<CurriculumExportFormat>('pdf')
 
-  const exportFormats = [
+  const exportFormats: { value: CurriculumExportFormat; label: string; description: string; isPackage?: boolean }[] = [
     { value: 'pdf', label: 'PDF Document', description: 'Printable curriculum document' },
     { value: 'word', label: 'Microsoft Word', description: 'Editable document format' },
     { value: 'json', label: 'JSON Data', description: 'Machine-readable format' },
-    { value: 'scorm', label: 'SCORM Package', description: 'LMS-compatible format' },
-    { value: 'canvas', label: 'Canvas Import', description: 'Direct Canvas LMS import' },
-    { value: 'moodle', label: 'Moodle Backup', description: 'Moodle course format' }
+    { value: 'common_cartridge', label: 'IMS Common Cartridge 1.3', description: 'Lessons, QTI quizzes and rubrics for any CC-compliant LMS', isPackage: true },
+    { value: 'scorm_2004', label: 'SCORM 2004 Package', description: 'Tracked lessons and scored quizzes (SCORM 2004 4th Edition)', isPackage: true },
+    { value: 'scorm_1_2', label: 'SCORM 1.2 Package', description: 'Tracked lessons and scored quizzes for older LMS platforms', isPackage: true },
+    { value: 'canvas', label: 'Canvas Import', description: 'Common Cartridge package for Canvas course import', isPackage: true },
+    { value: 'moodle', label: 'Moodle Import', description: 'Common Cartridge package for Moodle course restore', isPackage: true }
   ]
+  const selectedFormat = exportFormats.find(f => f.value === selectedExportFormat)
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -568,7 +577,7 @@ const GeneratorTab: React.FC<{
               </label>
               <select
                 value={selectedExportFormat}
-                onChange={(e) => setSelectedExportFormat(e.target.value)}
+                onChange={(e) => setSelectedExportFormat(e.target.value as CurriculumExportFormat)}
                 className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
               >
                 {exportFormats.map((format) => (
@@ -578,7 +587,7 @@ const GeneratorTab: React.FC<{
                 ))}
               </select>
               <p className="text-xs text-gray-500 mt-1">
-                {exportFormats.find(f => f.value === selectedExportFormat)?.description}
+                {selectedFormat?.description}
               </p>
             </div>
 
@@ -594,11 +603,30 @@ const GeneratorTab: React.FC<{
                 </>
               ) : (
                 <>
-                  <span>📤</span>
-                  <span>Export Curriculum</span>
+                  <span>{selectedFormat?.isPackage ? '📦' : '📤'}</span>
+                  <span>{selectedFormat?.isPackage ? 'Download Package' : 'Export Curriculum'}</span>
                 </>
               )}
             </button>
+
+            {exportData?.package_file && (
+              <div className="p-3 bg-gray-50 rounded-md border border-gray-200 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-gray-900 truncate">{exportData.package_file.filename}</span>
+                  <span className="text-gray-500 ml-2">{exportData.file_size}</span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {exportData.package_file.summary.lessons} lessons · {exportData.package_file.summary.assessments} assessments · {exportData.package_file.summary.questions} questions
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{exportData.usage_instructions}</p>
+                <button
+                  onClick={() => downloadPackageFile(exportData.package_file)}
+                  className="mt-2 text-indigo-600 hover:text-indigo-800 text-xs font-medium"
+                >
+                  Download again
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useState } from 'react'
+import { motion } from 'framer-motion'
+import { Award, BadgeCheck, Download, ShieldAlert, ShieldCheck, Trophy, Target, GraduationCap } from 'lucide-react'
+import { useBadgeWallet } from '@/hooks/useBadgeWallet'
+import type { BadgeSource, WalletBadge } from '@/lib/open-badges'
+
+interface BadgeWalletProps {
+  userId?: string // defaults to the signed-in learner
+}
+
+const SOURCE_LABELS: Record<BadgeSource, { label: string; icon: React.ElementType }> = {
+  achievement: { label: 'Achievements', icon: Trophy },
+  skill: { label: 'Skills', icon: Target },
+  challenge: { label: 'Challenges', icon: Award },
+  certification: { label: 'Certifications', icon: GraduationCap }
+}
+
+const STATUS_STYLES: Record<WalletBadge['status'], string> = {
+  valid: 'bg-green-100 text-green-700',
+  expired: 'bg-yellow-100 text-yellow-700',
+  revoked: 'bg-red-100 text-red-700'
+}
+
+function formatDate(date: Date | string): string {
+  return new Date(date).toLocaleDateString('en-US', { dateStyle: 'medium' })
+}
+
+export default function BadgeWallet({ userId }: BadgeWalletProps) {
+  const [filter, setFilter] = useState<BadgeSource | 'all'>('all')
+  const { badges, verifications, isLoading, error, downloadCredential, verifyCredential, clearError } = useBadgeWallet(userId)
+
+  const visible = filter === 'all' ? badges : badges.filter(badge => badge.source === filter)
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading your badges...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-purple-50">
+      <div className="bg-white shadow-sm border-b border-gray-200">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <h1 className="text-2xl font-bold text-gray-900">Badge Wallet</h1>
+          <p className="text-sm text-gray-600">
+            Open Badges you can download and share. Anyone can check them at /api/badges/verify.
+          </p>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            {(['all', ...Object.keys(SOURCE_LABELS)] as (BadgeSource | 'all')[]).map(source => (
+              <button
+                key={source}
+                onClick={() => setFilter(source)}
+                className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  filter === source ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {source === 'all' ? 'All' : SOURCE_LABELS[source].label}
+                <span className="ml-1 opacity-75">
+                  {source === 'all' ? badges.length : badges.filter(badge => badge.source === source).length}
+                </span>
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+            <span className="text-red-700">{error}</span>
+            <button onClick={clearError} className="text-red-500 hover:text-red-700">✕</button>
+          </div>
+        </div>
+      )}
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {visible.length === 0 ? (
+          <div className="text-center py-12">
+            <Award className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">
+              No badges yet. Master skills, finish challenges and complete certifications to earn them.
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {visible.map(badge => {
+              const SourceIcon = SOURCE_LABELS[badge.source].icon
+              const verification = verifications[badge.credentialId]
+              return (
+                <motion.div
+                  key={badge.credentialId}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="bg-white rounded-lg shadow p-6 flex flex-col"
+                >
+                  <div className="flex items-start justify-between mb-3">
+                    <div className="w-12 h-12 rounded-full bg-blue-50 flex items-center justify-center text-2xl">
+                      {badge.icon || <SourceIcon className="w-6 h-6 text-blue-600" />}
+                    </div>
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[badge.status]}`}>
+                      {badge.status}
+                    </span>
+                  </div>
+
+                  <h3 className="text-lg font-semibold text-gray-900">{badge.name}</h3>
+                  <p className="text-sm text-gray-600 mt-1 flex-1">{badge.description}</p>
+
+                  <div className="text-xs text-gray-500 mt-4 space-y-1">
+                    <p>{SOURCE_LABELS[badge.source].label.replace(/s$/, '')} · issued {formatDate(badge.issuedAt)}</p>
+                    {badge.validUntil && <p>Valid until {formatDate(badge.validUntil)}</p>}
+                    {badge.revocationReason && <p className="text-red-600">Revoked: {badge.revocationReason}</p>}
+                  </div>
+
+                  {verification && (
+                    <div className={`mt-3 text-xs flex items-center ${verification.valid ? 'text-green-700' : 'text-red-700'}`}>
+                      {verification.valid
+                        ? <><ShieldCheck className="w-4 h-4 mr-1" /> Signature and status verified</>
+                        : <><ShieldAlert className="w-4 h-4 mr-1" /> {verification.reason}</>}
+                    </div>
+                  )}
+
+                  <div className="flex gap-2 mt-4">
+                    <button
+                      onClick={() => downloadCredential(badge)}
+                      className="flex-1 flex items-center justify-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors"
+                    >
+                      <Download className="w-4 h-4 mr-1" /> Download
+                    </button>
+                    <button
+                      onClick={() => verifyCredential(badge.credential)}
+                      className="flex-1 flex items-center justify-center px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm hover:bg-gray-50 transition-colors"
+                    >
+                      <BadgeCheck className="w-4 h-4 mr-1" /> Verify
+                    </button>
+                  </div>
+                </motion.div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import React, { useState, useCallback, useEffect } from 'react'
 import { useUserProfile } from '@/lib/store'
 import { useContentRecommendations, useRecommendationAnalytics } from '@/hooks/useContentRecommendations'
 import type { ContentRecommendation, RecommendationFactor } from '@/lib/content-recommendation-engine'
+import type { BanditReport } from '@/lib/contextual-bandit'
 import type { ContentItem } from '@/types'
 
 interface ContentRecommendationDashboardProps {
@@ -39,6 +40,13 @@ export default function ContentRecommendationDashboard({
     }
   }, [userProfile, analytics])
 
+  const { loadBanditReport } = analytics
+  useEffect(() => {
+    if (userProfile) {
+      loadBanditReport().catch(console.error)
+    }
+  }, [userProfile, loadBanditReport])
+
   // Handle content selection
   const handleContentSelect = useCallback((content: ContentItem) => {
     if (onContentSelect) {
@@ -506,6 +514,84 @@ function AnalyticsTab({ analytics, recommendations }: any) {
           </button>
         </div>
       )}
+
+      {analytics.banditReport && (
+        <StrategySelectionPanel
+          report={analytics.banditReport}
+          onRefresh={() => analytics.loadBanditReport()}
+        />
+      )}
+    </div>
+  )
+}
+
+// Strategy Selection Panel Component
+function StrategySelectionPanel({ report, onRefresh }: { report: BanditReport; onRefresh: () => void }) {
+  const curve = report.regretCurve
+  const maxRegret = Math.max(...curve.map(point => point.cumulativeRegret), 0.001)
+  const maxDecisions = Math.max(...curve.map(point => point.decisions), 1)
+  const points = curve
+    .map(point => `${(point.decisions / maxDecisions) * 100},${40 - (point.cumulativeRegret / maxRegret) * 40}`)
+    .join(' ')
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="font-medium text-gray-900">Strategy Selection</h4>
+        <button onClick={onRefresh} className="text-sm text-blue-600 hover:text-blue-700">
+          Refresh
+        </button>
+      </div>
+
+      {report.totalDecisions === 0 ? (
+        <p className="text-sm text-gray-600">No recommendation strategies have been chosen for you yet</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <span className="text-gray-600">Decisions:</span>
+              <span className="ml-2 font-medium">{report.totalDecisions}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Avg Reward:</span>
+              <span className="ml-2 font-medium">{Math.round(report.averageReward * 100)}%</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Cumulative Regret:</span>
+              <span className="ml-2 font-medium">{report.cumulativeRegret.toFixed(2)}</span>
+            </div>
+            <div>
+              <span className="text-gray-600">Min Propensity:</span>
+              <span className="ml-2 font-medium">{report.minimumPropensity.toFixed(3)}</span>
+            </div>
+          </div>
+
+          {curve.length > 1 && (
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Estimated cumulative regret over decisions</div>
+              <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16 bg-gray-50 rounded">
+                <polyline points={points} fill="none" stroke="#2563eb" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+              </svg>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {report.arms.filter(arm => arm.pulls > 0).map(arm => (
+              <div key={arm.arm} className="text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-700">{arm.arm.replace(/_/g, ' ')}</span>
+                  <span className="text-gray-500">
+                    {Math.round(arm.share * 100)}% of requests · reward {Math.round(arm.meanReward * 100)}%
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                  <div className="bg-blue-500 h-1.5 rounded-full" style={{ width: `${arm.share * 100}%` }} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
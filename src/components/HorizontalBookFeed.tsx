@@ -16,7 +16,8 @@ import {
   optimizeLayoutForContent,
   getResponsiveMediaSizes
 } from '@/lib/responsive-layout'
-import { defaultBookConfigs } from '@/types/book-layout'
+import { defaultBookConfigs, offlinePreloadStrategy } from '@/types/book-layout'
+import { startOfflineSync, precacheBookPages, getOfflineBookPages, isOnline } from '@/lib/offline-sync'
 import BookPage from './BookPage'
 import BookNavigation from './BookNavigation'
 import PerformanceMonitor, { usePerformanceOptimization } from './PerformanceMonitor'
@@ -35,6 +36,7 @@ interface HorizontalBookFeedProps {
   hasMore?: boolean
   onLoadMore?: () => void
   onInteraction?: (contentId: string, action: string, value?: unknown) => void
+  feedKey?: string // separates the offline copies of different feeds
 }
 
 export default function HorizontalBookFeed({
@@ -42,7 +44,8 @@ export default function HorizontalBookFeed({
   isLoading = false,
   hasMore = true,
   onLoadMore,
-  onInteraction
+  onInteraction,
+  feedKey = 'main'
 }: HorizontalBookFeedProps) {
   const capabilities = useBrowserCapabilities()
   const { characteristics, config: responsiveConfig, cssProperties } = useResponsiveLayout()
@@ -98,6 +101,14 @@ export default function HorizontalBookFeed({
   // Process feed items into book pages with responsive optimization
   useEffect(() => {
     if (feedItems.length === 0) {
+      // Without a connection the feed cannot load; fall back to the pages cached on the last visit
+      if (!isOnline()) {
+        let cancelled = false
+        getOfflineBookPages(feedKey).then(cached => {
+          if (!cancelled) setPages(cached)
+        })
+        return () => { cancelled = true }
+      }
       setPages([])
       return
     }
@@ -120,7 +131,20 @@ export default function HorizontalBookFeed({
     }
 
     setPages(chunkingResult.pages)
-  }, [feedItems, config, deviceType, isResponsiveMode, characteristics, responsiveConfig])
+  }, [feedItems, config, deviceType, isResponsiveMode, characteristics, responsiveConfig, feedKey])
+
+  useEffect(() => {
+    void startOfflineSync()
+  }, [])
+
+  // Keep the pages ahead of the reader, with their quizzes, lessons and media, available offline
+  useEffect(() => {
+    if (pages.length === 0 || !isOnline()) return
+    void precacheBookPages(feedKey, pages, currentPageIndex, {
+      ...offlinePreloadStrategy,
+      prioritizeMedia: offlinePreloadStrategy.prioritizeMedia && !shouldOptimize
+    })
+  }, [feedKey, pages, currentPageIndex, shouldOptimize])
 
   // Update navigation state when pages or current index changes
   useEffect(() => {
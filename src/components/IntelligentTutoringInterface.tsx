@@ -53,6 +53,7 @@ export default function IntelligentTutoringInterface({
     currentContext,
     isLoading,
     isTyping,
+    streamingMessage,
     error,
     sessionSummary,
     isActive,
@@ -87,17 +88,17 @@ export default function IntelligentTutoringInterface({
     learningObjectives: ['']
   })
 
-  // Scroll to bottom when new messages arrive
+  // Scroll to bottom when new messages or streamed text arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [conversationHistory])
+  }, [conversationHistory, streamingMessage])
 
-  // Switch to chat tab when conversation starts
+  // Switch to chat tab when conversation starts (the opening message streams in there)
   useEffect(() => {
-    if (isActive && activeTab === 'setup') {
+    if ((isActive || streamingMessage) && activeTab === 'setup') {
       setActiveTab('chat')
     }
-  }, [isActive, activeTab])
+  }, [isActive, streamingMessage, activeTab])
 
   // Handle conversation end
   useEffect(() => {
@@ -302,6 +303,7 @@ export default function IntelligentTutoringInterface({
               onSendMessage={handleSendMessage}
               onKeyPress={handleKeyPress}
               isTyping={isTyping}
+              streamingMessage={streamingMessage}
               isActive={isActive}
               currentContext={currentContext}
               messagesEndRef={messagesEndRef}
@@ -576,11 +578,12 @@ function ChatTab({
   onSendMessage, 
   onKeyPress, 
   isTyping, 
+  streamingMessage,
   isActive,
   currentContext,
   messagesEndRef 
 }: any) {
-  if (!isActive) {
+  if (!isActive && !streamingMessage) {
     return (
       <div className="text-center py-12">
         <MessageCircle className="w-16 h-16 text-gray-300 mx-auto mb-4" />
@@ -660,7 +663,19 @@ function ChatTab({
             </div>
           ))}
           
-          {isTyping && (
+          {streamingMessage ? (
+            <div className="flex items-start space-x-3">
+              <div className="p-2 bg-purple-100 rounded-lg">
+                <Bot className="w-5 h-5 text-purple-600" />
+              </div>
+              <div className="max-w-xs lg:max-w-md px-4 py-2 rounded-lg bg-white border border-gray-200 text-gray-900">
+                <p className="text-sm whitespace-pre-wrap">
+                  {streamingMessage}
+                  <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-purple-400 animate-pulse" />
+                </p>
+              </div>
+            </div>
+          ) : isTyping && (
             <div className="flex items-start space-x-3">
               <div className="p-2 bg-purple-100 rounded-lg">
                 <Bot className="w-5 h-5 text-purple-600" />
@@ -18,6 +18,7 @@ import {
   type ModelOptimizationRecommendation,
   type ModelComparisonResult
 } from '@/lib/model-performance-analytics'
+import type { ResponseCacheMetrics } from '@/lib/ai-response-cache'
 import ModelEffectivenessDashboard from './ModelEffectivenessDashboard'
 import RealTimeMonitoringDashboard from './RealTimeMonitoringDashboard'
 
@@ -71,6 +72,7 @@ export default function ModelPerformanceDashboard({
   })
 
   const [comparisonResults, setComparisonResults] = useState<ModelComparisonResult[]>([])
+  const [cacheMetrics, setCacheMetrics] = useState<ResponseCacheMetrics | null>(null)
 
   // Load dashboard data
   useEffect(() => {
@@ -103,6 +105,17 @@ export default function ModelPerformanceDashboard({
         isLoading: false,
         lastUpdated: new Date()
       })
+
+      // Cache metrics live on the server; the rest of the dashboard still renders without them
+      try {
+        const cacheResponse = await fetch('/api/ai/cache')
+        if (cacheResponse.ok) {
+          const { metrics } = await cacheResponse.json()
+          setCacheMetrics(metrics)
+        }
+      } catch (cacheError) {
+        console.error('Failed to load response cache metrics:', cacheError)
+      }
     } catch (error) {
       console.error('Failed to load dashboard data:', error)
       setPerformanceData(prev => ({ 
@@ -368,6 +381,14 @@ export default function ModelPerformanceDashboard({
               </div>
             </div>
 
+            {/* Response Cache */}
+            {cacheMetrics && (
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Response Cache</h3>
+                <ResponseCachePanel metrics={cacheMetrics} />
+              </div>
+            )}
+
             {/* Optimization Recommendations */}
             {state.showOptimizations && performanceData.recommendations.length > 0 && (
               <div>
@@ -539,6 +560,54 @@ function UseCasePerformanceCard({ useCase, performance, isSelected, onClick }: U
   )
 }
 
+// Response Cache Panel Component
+interface ResponseCachePanelProps {
+  metrics: ResponseCacheMetrics
+}
+
+function ResponseCachePanel({ metrics }: ResponseCachePanelProps) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+        <div>
+          <div className="text-sm text-gray-600">Hit Rate</div>
+          <div className="text-2xl font-bold text-green-600">{(metrics.hitRate * 100).toFixed(1)}%</div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Hits / Misses</div>
+          <div className="text-2xl font-bold text-gray-900">{metrics.hits} / {metrics.misses}</div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Cached Entries</div>
+          <div className="text-2xl font-bold text-gray-900">{metrics.entries}</div>
+        </div>
+        <div>
+          <div className="text-sm text-gray-600">Safety Invalidations</div>
+          <div className="text-2xl font-bold text-orange-600">{metrics.invalidations}</div>
+        </div>
+      </div>
+
+      {Object.keys(metrics.byUseCase).length > 0 && (
+        <div className="space-y-2">
+          {Object.entries(metrics.byUseCase).map(([useCase, counters]) => (
+            <div key={useCase} className="flex items-center justify-between text-sm">
+              <span className="text-gray-600 capitalize">
+                {useCase.replace('_', ' ')}
+                {metrics.settings.disabledUseCases.includes(useCase as any) && (
+                  <span className="ml-2 text-xs text-gray-400">(cache disabled)</span>
+                )}
+              </span>
+              <span className="font-medium">
+                {(counters.hitRate * 100).toFixed(0)}% of {counters.hits + counters.misses + counters.bypassed}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 // Optimization Recommendation Card Component
 interface OptimizationRecommendationCardProps {
   recommendation: ModelOptimizationRecommendation
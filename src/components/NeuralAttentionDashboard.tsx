@@ -6,11 +6,14 @@ import {
   useNeuralAttentionTracking,
   useNeuralAttentionConfiguration
 } from '@/hooks/useNeuralAttentionTracking'
+import { useFeatureFlag } from '@/hooks/useFeatureFlag'
+import { KNOWN_FLAGS } from '@/lib/feature-flags'
 
 // Dashboard component with four main tabs
 export default function NeuralAttentionDashboard() {
   const [activeTab, setActiveTab] = useState('monitoring')
   const [userId] = useState('demo_user_001') // Demo user ID
+  const { enabled: trackingEnabled, isLoading: flagLoading } = useFeatureFlag(KNOWN_FLAGS.neuralAttentionTracking, true)
 
   const {
     measurements,
@@ -64,7 +67,7 @@ export default function NeuralAttentionDashboard() {
 
   // Auto-create profile and start monitoring on component mount
   useEffect(() => {
-    if (!attentionProfile) {
+    if (!attentionProfile && trackingEnabled && !flagLoading) {
       createAttentionProfile({
         user_id: userId,
         behavioral_data: {
@@ -80,7 +83,7 @@ export default function NeuralAttentionDashboard() {
         }
       })
     }
-  }, [attentionProfile, createAttentionProfile, userId])
+  }, [attentionProfile, createAttentionProfile, userId, trackingEnabled, flagLoading])
 
   const handleToggleTracking = async () => {
     try {
@@ -187,6 +190,14 @@ export default function NeuralAttentionDashboard() {
     }
   }
 
+  if (!flagLoading && !trackingEnabled) {
+    return (
+      <div className="max-w-7xl mx-auto p-6 text-center text-gray-600">
+        Neural attention tracking is not enabled for your organization.
+      </div>
+    )
+  }
+
   return (
     <div className="max-w-7xl mx-auto p-6 space-y-6">
       {/* Header */}
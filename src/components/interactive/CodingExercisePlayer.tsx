@@ -11,6 +11,8 @@ import {
 } from 'lucide-react'
 import type { UserProfile } from '@/types'
 import type { CodingExercise, TestCase } from '@/lib/interactive-content-engine'
+import { readEventStream, type StreamEvent } from '@/lib/event-stream'
+import { getAuthHeaders } from '@/lib/auth'
 
 interface CodingExercisePlayerProps {
   exercise: CodingExercise
@@ -66,10 +68,12 @@ export default function CodingExercisePlayer({
     isRunning: boolean
     result: ExecutionResult | null
     lastRun: Date | null
+    liveOutput: string
   }>({
     isRunning: false,
     result: null,
-    lastRun: null
+    lastRun: null,
+    liveOutput: ''
   })
 
   const [testState, setTestState] = useState<{
@@ -136,36 +140,66 @@ export default function CodingExercisePlayer({
     })
   }
 
+  // Execution runs server-side in an isolated process; output is streamed back as server-sent events
+  const streamExecution = async (body: any, onEvent: (event: StreamEvent) => void) => {
+    const response = await fetch('/api/interactive/execute-code', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+      body: JSON.stringify({
+        ...body,
+        language: exercise.language,
+        code: editorState.code,
+        executionEnvironment: exercise.executionEnvironment
+      })
+    })
+
+    if (!response.ok) {
+      const errorBody = await response.json().catch(() => null)
+      throw new Error(errorBody?.error || `Execution request failed: ${response.statusText}`)
+    }
+
+    await readEventStream(response, onEvent)
+  }
+
   const executeCode = async () => {
-    setExecutionState(prev => ({ ...prev, isRunning: true }))
+    setExecutionState(prev => ({ ...prev, isRunning: true, liveOutput: '' }))
     setEditorMetrics(prev => ({ ...prev, runs: prev.runs + 1 }))
 
     try {
-      // Simulate code execution (in real implementation, would send to secure execution service)
-      await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000))
-      
-      const mockResult: ExecutionResult = {
-        success: Math.random() > 0.3,
-        output: `Output from your ${exercise.language} code:\n${generateMockOutput()}`,
-        executionTime: Math.random() * 1000,
-        memoryUsage: Math.random() * 50 + 10
-      }
+      let result: ExecutionResult | null = null
+
+      await streamExecution({ action: 'run' }, ({ event, data }) => {
+        if (event === 'stdout' || event === 'stderr') {
+          setExecutionState(prev => ({ ...prev, liveOutput: prev.liveOutput + data.chunk }))
+        } else if (event === 'result') {
+          result = {
+            success: data.success,
+            output: data.stdout,
+            error: data.success ? undefined : (data.stderr.trim() || `Process exited with code ${data.exitCode}`),
+            executionTime: data.executionTime
+          }
+        } else if (event === 'error') {
+          throw new Error(data.message)
+        }
+      })
 
-      if (!mockResult.success) {
-        mockResult.error = generateMockError()
+      if (!result) {
+        throw new Error('Execution ended without a result')
       }
+      const finalResult: ExecutionResult = result
 
       setExecutionState({
         isRunning: false,
-        result: mockResult,
-        lastRun: new Date()
+        result: finalResult,
+        lastRun: new Date(),
+        liveOutput: ''
       })
 
       onInteraction({
         type: 'code_execution',
         data: {
-          success: mockResult.success,
-          executionTime: mockResult.executionTime,
+          success: finalResult.success,
+          executionTime: finalResult.executionTime,
           codeLength: editorState.code.length
         }
       })
@@ -177,28 +211,34 @@ export default function CodingExercisePlayer({
           success: false,
           error: 'Execution failed: ' + (error instanceof Error ? error.message : 'Unknown error')
         },
-        lastRun: new Date()
+        lastRun: new Date(),
+        liveOutput: ''
       })
     }
   }
 
   const runTests = async () => {
-    setTestState(prev => ({ ...prev, runningTests: true }))
+    setTestState(prev => ({
+      ...prev,
+      showTests: true,
+      runningTests: true,
+      testResults: [],
+      passedTests: 0
+    }))
 
     try {
-      // Simulate test execution
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      const testResults: TestResult[] = exercise.testCases.map(testCase => {
-        const passed = Math.random() > 0.4
-        return {
-          testId: testCase.id,
-          passed,
-          input: testCase.input,
-          expectedOutput: testCase.expectedOutput,
-          actualOutput: passed ? testCase.expectedOutput : generateMockOutput(),
-          executionTime: Math.random() * 100,
-          error: passed ? undefined : 'Output does not match expected result'
+      const testResults: TestResult[] = []
+
+      await streamExecution({ action: 'test', exerciseId: exercise.id }, ({ event, data }) => {
+        if (event === 'test_result') {
+          testResults.push(data)
+          setTestState(prev => ({
+            ...prev,
+            testResults: [...testResults],
+            passedTests: testResults.filter(r => r.passed).length
+          }))
+        } else if (event === 'error') {
+          throw new Error(data.message)
         }
       })
 
@@ -230,6 +270,13 @@ export default function CodingExercisePlayer({
 
     } catch (error) {
       setTestState(prev => ({ ...prev, runningTests: false }))
+      setExecutionState(prev => ({
+        ...prev,
+        result: {
+          success: false,
+          error: 'Test run failed: ' + (error instanceof Error ? error.message : 'Unknown error')
+        }
+      }))
     }
   }
 
@@ -297,31 +344,6 @@ export default function CodingExercisePlayer({
     return extensions[language as keyof typeof extensions] || 'txt'
   }
 
-  const generateMockOutput = (): string => {
-    const outputs = [
-      'Hello, World!',
-      '42',
-      'True',
-      '[1, 2, 3, 4, 5]',
-      'Process completed successfully',
-      'Result: 3.14159',
-      'Found 5 matches'
-    ]
-    return outputs[Math.floor(Math.random() * outputs.length)]
-  }
-
-  const generateMockError = (): string => {
-    const errors = [
-      'SyntaxError: invalid syntax',
-      'NameError: name \'variable\' is not defined',
-      'TypeError: unsupported operand type(s)',
-      'IndentationError: expected an indented block',
-      'ValueError: invalid literal for int()',
-      'IndexError: list index out of range'
-    ]
-    return errors[Math.floor(Math.random() * errors.length)]
-  }
-
   const formatTime = (ms: number): string => {
     const seconds = Math.floor(ms / 1000)
     const minutes = Math.floor(seconds / 60)
@@ -455,8 +477,21 @@ export default function CodingExercisePlayer({
         )}
       </div>
 
+      {/* Live Output */}
+      {executionState.isRunning && (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="bg-gray-50 px-4 py-2 border-b border-gray-200 flex items-center space-x-2">
+            <Terminal className="w-4 h-4" />
+            <span className="font-medium">Running...</span>
+          </div>
+          <pre className="p-4 font-mono text-sm bg-gray-900 text-gray-100 whitespace-pre-wrap min-h-[3rem]">
+            {executionState.liveOutput}
+          </pre>
+        </div>
+      )}
+
       {/* Execution Output */}
-      {executionState.result && (
+      {executionState.result && !executionState.isRunning && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
@@ -593,7 +628,7 @@ export default function CodingExercisePlayer({
             <span className="text-xl font-bold text-green-800">Congratulations!</span>
           </div>
           <p className="text-green-700 mb-4">
-            Your solution passed all test cases! You've successfully completed this coding exercise.
+            Your solution passed all test cases! You&apos;ve successfully completed this coding exercise.
           </p>
           <button
             onClick={handleComplete}
@@ -200,7 +200,8 @@ export function useExperimentAssignment() {
       browser: string
       screenResolution?: string
       timezone: string
-    }
+    },
+    preExperimentEngagement?: number
   ) => {
     try {
       setIsLoading(true)
@@ -211,7 +212,8 @@ export function useExperimentAssignment() {
         userId,
         userProfile,
         sessionInfo,
-        deviceInfo
+        deviceInfo,
+        preExperimentEngagement
       )
       
       if (variantId) {
@@ -447,6 +449,7 @@ export function useQuickABTest() {
     targetAudience?: Partial<AudienceSegment>
     duration?: number // days
     minimumSampleSize?: number
+    analysisMethod?: 'fixed_horizon' | 'sequential' | 'bayesian'
   }) => {
     const defaultAudience: AudienceSegment = {
       segmentId: 'all_users',
@@ -503,13 +506,16 @@ export function useQuickABTest() {
     const testConfig = {
       name: config.name,
       description: config.description,
-      testType: 'simple_ab' as const,
+      testType: config.analysisMethod === 'sequential' ? 'sequential' as const : 'simple_ab' as const,
       variants,
       trafficAllocation,
       targetAudience: defaultAudience,
       primaryGoal,
       plannedDuration: (config.duration || 14) * 24 * 60 * 60 * 1000, // Convert days to ms
       minimumSampleSize: config.minimumSampleSize || 1000,
+      statisticalConfig: {
+        method: config.analysisMethod === 'bayesian' ? 'bayesian' as const : 'frequentist' as const
+      },
       createdBy: 'system',
       category: config.useCase,
       tags: ['quick_test', config.useCase]
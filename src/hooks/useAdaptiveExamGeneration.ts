@@ -7,8 +7,14 @@ import {
   type ExamSession,
   type ExamResults,
   type QuestionItem,
-  type DifficultyCalibration
+  type DifficultyCalibration,
+  type ExternalItemResponse,
+  type ExamItemAnalysis
 } from '@/lib/adaptive-exam-generation-engine'
+import type { IrtModel } from '@/lib/item-response-theory'
+import type { QtiImportResult, QtiPackageFile, QtiVersion } from '@/lib/qti-interchange'
+import { getAuthHeaders } from '@/lib/auth'
+import { downloadPackageFile } from './useAutomatedCurriculumGenerator'
 
 interface AdaptiveExamState {
   currentExam: AdaptiveExam | null
@@ -60,7 +66,7 @@ export function useAdaptiveExamGeneration() {
       
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'generate_exam',
           requirements
@@ -111,7 +117,7 @@ export function useAdaptiveExamGeneration() {
       // Start exam generation
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'generate_exam_with_progress',
           requirements
@@ -129,7 +135,7 @@ export function useAdaptiveExamGeneration() {
         try {
           const progressResponse = await fetch('/api/adaptive-exam-generation', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
             body: JSON.stringify({
               action: 'get_generation_progress',
               examId
@@ -148,7 +154,7 @@ export function useAdaptiveExamGeneration() {
                 // Generation complete, get result
                 const resultResponse = await fetch('/api/adaptive-exam-generation', {
                   method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
+                  headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
                   body: JSON.stringify({
                     action: 'get_exam',
                     examId
@@ -190,19 +196,21 @@ export function useAdaptiveExamGeneration() {
   const startExamSession = useCallback(async (
     examId: string,
     learnerId: string,
-    initialAbility?: number
+    initialAbility?: number,
+    learnerGroup?: string
   ) => {
     try {
       setState(prev => ({ ...prev, error: null }))
       
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'start_session',
           examId,
           learnerId,
-          initialAbility
+          initialAbility,
+          learnerGroup
         })
       })
 
@@ -238,7 +246,7 @@ export function useAdaptiveExamGeneration() {
     try {
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_next_question',
           sessionId
@@ -287,7 +295,7 @@ export function useAdaptiveExamGeneration() {
       
       const submitResponse = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'submit_response',
           sessionId,
@@ -336,7 +344,7 @@ export function useAdaptiveExamGeneration() {
     try {
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'complete_exam',
           sessionId
@@ -375,7 +383,7 @@ export function useAdaptiveExamGeneration() {
     try {
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_exam',
           examId
@@ -409,7 +417,7 @@ export function useAdaptiveExamGeneration() {
     try {
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_exam_statistics',
           examId
@@ -522,7 +530,7 @@ export function useAdaptiveExamGeneration() {
     try {
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_exam_history'
         })
@@ -634,7 +642,7 @@ export function useExamAnalytics() {
       
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_analytics'
         })
@@ -670,25 +678,24 @@ export function useDifficultyCalibration() {
   const [calibrationData, setCalibrationData] = useState<DifficultyCalibration | null>(null)
   const [isCalibrating, setIsCalibrating] = useState(false)
 
+  // Responses already stored with the exam's sessions are included server-side
   const calibrateQuestions = useCallback(async (
     questions: QuestionItem[],
-    responseData: Array<{
-      question_id: string
-      learner_ability: number
-      response_correct: boolean
-      response_time: number
-    }>
+    responseData: ExternalItemResponse[] = [],
+    options: { examId?: string; model?: IrtModel } = {}
   ) => {
     try {
       setIsCalibrating(true)
       
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'calibrate_difficulty',
           questions,
-          responseData
+          responseData,
+          examId: options.examId,
+          irtModel: options.model
         })
       })
 
@@ -716,7 +723,7 @@ export function useDifficultyCalibration() {
     try {
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_calibration_results',
           calibrationId
@@ -745,6 +752,154 @@ export function useDifficultyCalibration() {
   }
 }
 
+// Hook for QTI item bank import and exam export
+export function useQtiInterchange() {
+  const [lastImport, setLastImport] = useState<QtiImportResult | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Accepts a zipped QTI content package or a single item/test XML file
+  const importQtiFile = useCallback(async (file: File) => {
+    try {
+      setIsImporting(true)
+      setError(null)
+
+      const isXml = file.name.toLowerCase().endsWith('.xml')
+      let qtiPackage: string | undefined
+      if (!isXml) {
+        const bytes = new Uint8Array(await file.arrayBuffer())
+        let binary = ''
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+        }
+        qtiPackage = btoa(binary)
+      }
+
+      const response = await fetch('/api/adaptive-exam-generation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'import_qti',
+          qtiPackage,
+          qtiXml: isXml ? await file.text() : undefined,
+          qtiFilename: file.name
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to import QTI: ${response.statusText}`)
+      }
+
+      setLastImport(data.questionBank)
+      return data.questionBank as QtiImportResult
+    } catch (error) {
+      console.error('Error importing QTI:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import QTI')
+      return null
+    } finally {
+      setIsImporting(false)
+    }
+  }, [])
+
+  const exportExamToQti = useCallback(async (examId: string, version: QtiVersion = '2.1', download: boolean = true) => {
+    try {
+      setIsExporting(true)
+      setError(null)
+
+      const response = await fetch('/api/adaptive-exam-generation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'export_qti',
+          examId,
+          qtiVersion: version
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to export QTI: ${response.statusText}`)
+      }
+
+      if (download) {
+        downloadPackageFile(data.qtiFile)
+      }
+      return data.qtiFile as QtiPackageFile
+    } catch (error) {
+      console.error('Error exporting QTI:', error)
+      setError(error instanceof Error ? error.message : 'Failed to export QTI')
+      return null
+    } finally {
+      setIsExporting(false)
+    }
+  }, [])
+
+  return {
+    lastImport,
+    isImporting,
+    isExporting,
+    error,
+    importQtiFile,
+    exportExamToQti
+  }
+}
+
+// Hook for the item analysis report of an exam or an imported question bank
+export function useItemAnalysis() {
+  const [report, setReport] = useState<ExamItemAnalysis | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadItemAnalysis = useCallback(async (
+    scope: { examId?: string; bankId?: string },
+    groups: { learnerGroups?: Record<string, string>; referenceGroup?: string } = {}
+  ) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/adaptive-exam-generation', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'get_item_analysis',
+          examId: scope.examId,
+          bankId: scope.bankId,
+          learnerGroups: groups.learnerGroups,
+          referenceGroup: groups.referenceGroup
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to load item analysis: ${response.statusText}`)
+      }
+
+      setReport(data.itemAnalysis)
+      return data.itemAnalysis as ExamItemAnalysis
+    } catch (error) {
+      console.error('Error loading item analysis:', error)
+      setError(error instanceof Error ? error.message : 'Failed to load item analysis')
+      return null
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  return {
+    report,
+    isLoading,
+    error,
+    loadItemAnalysis,
+    clearError: () => setError(null)
+  }
+}
+
 // Hook for exam session monitoring (for instructors/administrators)
 export function useExamSessionMonitoring() {
   const [activeSessions, setActiveSessions] = useState<ExamSession[]>([])
@@ -768,7 +923,7 @@ export function useExamSessionMonitoring() {
       
       const response = await fetch('/api/adaptive-exam-generation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_session_monitoring'
         })
@@ -9,6 +9,17 @@ import {
   type TargetAudience,
   type BloomsTaxonomyLevel
 } from '@/lib/automated-curriculum-generator'
+import type { CurriculumPackageFile } from '@/lib/curriculum-package-export'
+
+export type CurriculumExportFormat =
+  | 'pdf'
+  | 'word'
+  | 'json'
+  | 'common_cartridge'
+  | 'scorm_1_2'
+  | 'scorm_2004'
+  | 'canvas'
+  | 'moodle'
 
 interface CurriculumGeneratorState {
   generatedCurricula: GeneratedCurriculum[]
@@ -51,6 +62,22 @@ interface ObjectiveGenerationParams {
   priority_weighting?: Record<string, number>
 }
 
+// Save a base64 package from the export endpoint as a file
+export function downloadPackageFile(file: Pick<CurriculumPackageFile, 'filename' | 'mime_type' | 'content_base64'>): void {
+  const binary = atob(file.content_base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.mime_type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = file.filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
 // Main hook for automated curriculum generation
 export function useAutomatedCurriculumGenerator() {
   const [state, setState] = useState<CurriculumGeneratorState>({
@@ -337,10 +364,11 @@ export function useAutomatedCurriculumGenerator() {
     }
   }, [])
 
-  // Export curriculum in various formats
+  // Export curriculum in various formats; LMS packages are saved as a file in the browser
   const exportCurriculum = useCallback(async (
-    curriculumId: string,
-    format: 'pdf' | 'word' | 'json' | 'scorm' | 'canvas' | 'moodle'
+    curriculum: GeneratedCurriculum,
+    format: CurriculumExportFormat,
+    download: boolean = true
   ) => {
     try {
       setState(prev => ({ ...prev, isExporting: true, error: null }))
@@ -350,7 +378,8 @@ export function useAutomatedCurriculumGenerator() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'export_curriculum',
-          curriculum_id: curriculumId,
+          curriculum_id: curriculum.curriculum_id,
+          curriculum_data: curriculum,
           export_format: format
         })
       })
@@ -365,6 +394,11 @@ export function useAutomatedCurriculumGenerator() {
         throw new Error(data.error || 'Failed to export curriculum')
       }
 
+      const file = (data.export_data as ExportData).package_file
+      if (file && download) {
+        downloadPackageFile(file)
+      }
+
       setState(prev => ({
         ...prev,
         exportData: data.export_data,
@@ -867,11 +901,12 @@ interface ExportData {
   format: string
   file_size: string
   export_timestamp: string
-  download_url: string
+  download_url?: string
   expiration_date: string
   content_summary: any
   compatibility_info: string
   usage_instructions: string
+  package_file?: CurriculumPackageFile
 }
 
 interface ValidationRequest {
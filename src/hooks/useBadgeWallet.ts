@@ -0,0 +1,77 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import type { WalletBadge, BadgeVerification, OpenBadgeCredential } from '@/lib/open-badges'
+import { getAuthHeaders } from '@/lib/auth'
+
+async function callBadgesApi(path: string, payload: Record<string, any>) {
+  const response = await fetch(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify(payload)
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Badge request failed: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+// Hook for a learner's Open Badges: loading the wallet, downloading credentials and checking them
+export function useBadgeWallet(userId?: string) {
+  const [badges, setBadges] = useState<WalletBadge[]>([])
+  const [verifications, setVerifications] = useState<Record<string, BadgeVerification>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      setError(null)
+      const data = await callBadgesApi('/api/badges', { action: 'get_wallet', userId })
+      setBadges(data.badges)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load badges')
+    }
+    setIsLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  // Saves the signed credential as JSON, ready to import into another wallet or hand to a verifier
+  const downloadCredential = useCallback((badge: WalletBadge) => {
+    const blob = new Blob([JSON.stringify(badge.credential, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${badge.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'badge'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }, [])
+
+  const verifyCredential = useCallback(async (credential: OpenBadgeCredential) => {
+    try {
+      setError(null)
+      const data = await callBadgesApi('/api/badges/verify', { credential })
+      setVerifications(current => ({ ...current, [credential.id]: data.verification }))
+      return data.verification as BadgeVerification
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to verify badge')
+      return null
+    }
+  }, [])
+
+  return {
+    badges,
+    verifications,
+    isLoading,
+    error,
+    refresh,
+    downloadCredential,
+    verifyCredential,
+    clearError: () => setError(null)
+  }
+}
@@ -10,6 +10,7 @@ import type {
   LearningChallenge,
   UserProgress
 } from '@/lib/community-learning-engine'
+import { getAuthHeaders } from '@/lib/auth'
 
 interface CommunityLearningState {
   currentMember: CommunityMember | null
@@ -50,7 +51,7 @@ export function useCommunityLearning(memberId?: string) {
   const apiCall = useCallback(async (body: any) => {
     const response = await fetch('/api/community-learning', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify(body)
     })
     
@@ -12,6 +12,7 @@ import type {
   ReportEvidence,
   ModeratorProfile
 } from '@/lib/community-moderation-engine'
+import { getAuthHeaders } from '@/lib/auth'
 
 export interface ModerationState {
   reports: CommunityReport[]
@@ -83,7 +84,7 @@ export function useCommunityModeration(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/community-moderation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'submit_report',
           userId,
@@ -142,7 +143,7 @@ export function useCommunityModeration(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/community-moderation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'submit_vote',
           userId,
@@ -201,7 +202,7 @@ export function useCommunityModeration(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/community-moderation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'moderator_review',
           userId,
@@ -257,7 +258,7 @@ export function useCommunityModeration(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/community-moderation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_queue',
           userId,
@@ -298,7 +299,7 @@ export function useCommunityModeration(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/community-moderation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_reports',
           userId,
@@ -337,7 +338,7 @@ export function useCommunityModeration(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/community-moderation', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_metrics',
           userId,
@@ -16,8 +16,10 @@ import type {
 import type { LearningObjective } from '@/lib/intelligent-sequencing-engine'
 import type { ObjectiveProgress } from '@/lib/objective-tracking-engine'
 import type { UserMasteryProfile } from '@/lib/mastery-progression-engine'
+import type { BanditReport } from '@/lib/contextual-bandit'
 import { useMasteryProgression } from './useMasteryProgression'
 import { useContentSafety } from './useContentSafety'
+import { getAuthHeaders } from '@/lib/auth'
 
 export interface RecommendationState {
   recommendations: ContentRecommendation[]
@@ -123,7 +125,7 @@ export function useContentRecommendations(userId: string, userProfile: UserProfi
 
       const response = await fetch('/api/content-recommendations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -248,12 +250,14 @@ export function useContentRecommendations(userId: string, userProfile: UserProfi
           priorContent: [],
           adaptationsActive: [],
           ...additionalData.context
-        }
+        },
+        // Credits the strategy that served this batch
+        batchId: additionalData.batchId || state.currentBatch?.batchId
       }
 
       const response = await fetch('/api/content-recommendations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -287,7 +291,7 @@ export function useContentRecommendations(userId: string, userProfile: UserProfi
       console.error('Failed to record interaction:', error)
       throw error
     }
-  }, [userId, userProfile])
+  }, [userId, userProfile, state.currentBatch?.batchId])
 
   // Get recommendation analytics
   const getAnalytics = useCallback(async (timeframe: 'daily' | 'weekly' | 'monthly' = 'weekly') => {
@@ -296,7 +300,7 @@ export function useContentRecommendations(userId: string, userProfile: UserProfi
     try {
       const response = await fetch('/api/content-recommendations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -375,7 +379,7 @@ export function useContentRecommendations(userId: string, userProfile: UserProfi
     try {
       const response = await fetch('/api/content-recommendations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -589,6 +593,7 @@ export function useRecommendationAnalytics(userId: string, userProfile: UserProf
   const [analytics, setAnalytics] = useState<RecommendationAnalytics | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [timeframe, setTimeframe] = useState<'daily' | 'weekly' | 'monthly'>('weekly')
+  const [banditReport, setBanditReport] = useState<BanditReport | null>(null)
 
   const loadAnalytics = useCallback(async (newTimeframe?: 'daily' | 'weekly' | 'monthly') => {
     setIsLoading(true)
@@ -598,7 +603,7 @@ export function useRecommendationAnalytics(userId: string, userProfile: UserProf
 
       const response = await fetch('/api/content-recommendations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -629,6 +634,38 @@ export function useRecommendationAnalytics(userId: string, userProfile: UserProf
     }
   }, [userId, userProfile, timeframe])
 
+  const loadBanditReport = useCallback(async (scope: 'user' | 'all' = 'user') => {
+    try {
+      const response = await fetch('/api/content-recommendations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          userId,
+          userProfile,
+          action: 'get_bandit_report',
+          scope
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to load strategy report: ${response.status}`)
+      }
+
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to load strategy report')
+      }
+
+      setBanditReport(data.banditReport)
+      return data.banditReport as BanditReport
+
+    } catch (error) {
+      console.error('Failed to load strategy report:', error)
+      return null
+    }
+  }, [userId, userProfile])
+
   const getRecommendationTrends = useCallback(() => {
     if (!analytics) return null
 
@@ -645,7 +682,9 @@ export function useRecommendationAnalytics(userId: string, userProfile: UserProf
     analytics,
     isLoading,
     timeframe,
+    banditReport,
     loadAnalytics,
+    loadBanditReport,
     setTimeframe,
     getRecommendationTrends,
     
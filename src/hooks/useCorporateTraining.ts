@@ -9,6 +9,7 @@ import type {
   CompanyAnalytics, 
   LearningRecommendation 
 } from '@/lib/corporate-training-engine'
+import { getAuthHeaders } from '@/lib/auth'
 
 interface CorporateTrainingState {
   employees: EmployeeProfile[]
@@ -35,7 +36,7 @@ export function useCorporateTraining(companyId?: string) {
   const apiCall = useCallback(async (body: any) => {
     const response = await fetch('/api/corporate-training', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify(body)
     })
     
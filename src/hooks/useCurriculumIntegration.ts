@@ -11,6 +11,7 @@ import type {
   ClassroomAnalytics,
   InstitutionDashboard
 } from '@/lib/curriculum-integration-engine'
+import { getAuthHeaders } from '@/lib/auth'
 
 interface CurriculumIntegrationState {
   institution: AcademicInstitution | null
@@ -43,7 +44,7 @@ export function useCurriculumIntegration(institutionId?: string) {
   const apiCall = useCallback(async (body: any) => {
     const response = await fetch('/api/curriculum-integration', {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
       body: JSON.stringify(body)
     })
     
@@ -0,0 +1,76 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import type { FlagEvaluation, FlagValue } from '@/lib/feature-flags'
+import { getAuthHeaders } from '@/lib/auth'
+
+// Evaluations depend only on the caller, so components asking for the same flag share one request for a minute
+const CACHE_TTL_MS = 60 * 1000
+const evaluationCache = new Map<string, { expiresAt: number; evaluation: Promise<FlagEvaluation> }>()
+
+async function requestEvaluation(key: string, fallback: FlagValue, attributes?: Record<string, any>): Promise<FlagEvaluation> {
+  const response = await fetch('/api/feature-flags', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ action: 'evaluate', keys: [key], fallbacks: { [key]: fallback }, attributes })
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to evaluate feature flag: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  return data.evaluations[key]
+}
+
+function loadEvaluation(key: string, fallback: FlagValue, attributes: Record<string, any> | undefined, force: boolean) {
+  const cacheKey = `${key}:${JSON.stringify(attributes || {})}`
+  const cached = evaluationCache.get(cacheKey)
+  if (!force && cached && cached.expiresAt > Date.now()) return cached.evaluation
+
+  const evaluation = requestEvaluation(key, fallback, attributes)
+  evaluationCache.set(cacheKey, { expiresAt: Date.now() + CACHE_TTL_MS, evaluation })
+  // A failed request should not be served from the cache
+  evaluation.catch(() => evaluationCache.delete(cacheKey))
+  return evaluation
+}
+
+// Hook for gating UI on a feature flag; serves the fallback while loading and when evaluation fails
+export function useFeatureFlag<T extends FlagValue = boolean>(
+  key: string,
+  fallback: T = false as T,
+  attributes?: Record<string, any>
+) {
+  const [evaluation, setEvaluation] = useState<FlagEvaluation | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const attributesKey = JSON.stringify(attributes || {})
+
+  const load = useCallback(async (force: boolean) => {
+    try {
+      setIsLoading(true)
+      setError(null)
+      setEvaluation(await loadEvaluation(key, fallback, JSON.parse(attributesKey), force))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to evaluate feature flag')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [key, fallback, attributesKey])
+
+  useEffect(() => {
+    load(false)
+  }, [load])
+
+  const value = (evaluation ? evaluation.value : fallback) as T
+
+  return {
+    value,
+    enabled: value === true,
+    evaluation,
+    isLoading,
+    error,
+    refresh: () => load(true),
+    clearError: () => setError(null)
+  }
+}
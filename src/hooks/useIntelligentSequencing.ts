@@ -9,6 +9,7 @@ import type {
   SequencingRecommendation,
   KnowledgeGap 
 } from '@/lib/intelligent-sequencing-engine'
+import { getAuthHeaders } from '@/lib/auth'
 
 export interface SequencingState {
   currentPath: LearningPath | null
@@ -58,7 +59,7 @@ export function useIntelligentSequencing(userId: string, userProfile: UserProfil
     try {
       const response = await fetch('/api/intelligent-sequencing', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -107,7 +108,7 @@ export function useIntelligentSequencing(userId: string, userProfile: UserProfil
     try {
       const response = await fetch('/api/intelligent-sequencing', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -150,7 +151,7 @@ export function useIntelligentSequencing(userId: string, userProfile: UserProfil
     try {
       const response = await fetch('/api/intelligent-sequencing', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -201,7 +202,7 @@ export function useIntelligentSequencing(userId: string, userProfile: UserProfil
     try {
       const response = await fetch('/api/intelligent-sequencing', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -329,7 +330,7 @@ export function useLearningPathOptimization() {
     try {
       const response = await fetch('/api/intelligent-sequencing', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -397,7 +398,7 @@ export function useKnowledgeGapAnalysis() {
     try {
       const response = await fetch('/api/intelligent-sequencing', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -6,6 +6,7 @@ import {
   type TutorPersonality,
   type ConversationContext
 } from '@/lib/intelligent-tutoring-system'
+import { readEventStream } from '@/lib/event-stream'
 
 interface TutoringState {
   sessionId: string | null
@@ -13,6 +14,7 @@ interface TutoringState {
   currentContext: ConversationContext | null
   isLoading: boolean
   isTyping: boolean
+  streamingMessage: string | null // tutor reply received so far while it streams in
   error: string | null
   personalities: TutorPersonality[]
   sessionSummary: {
@@ -32,6 +34,41 @@ interface StudentProfile {
   strengths: string[]
 }
 
+// POST a streaming tutoring action. Tokens are passed to onToken as they arrive;
+// resolves with the final message event payload.
+async function streamTutoringRequest(
+  body: Record<string, any>,
+  signal: AbortSignal,
+  onToken: (text: string) => void
+): Promise<any> {
+  const response = await fetch('/api/tutoring', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null)
+    throw new Error(data?.error || `Tutoring request failed: ${response.statusText}`)
+  }
+
+  let result: any = null
+  let streamError = null as string | null
+
+  await readEventStream(response, ({ event, data }) => {
+    if (event === 'token') onToken(data.text)
+    else if (event === 'message') result = data
+    else if (event === 'error') streamError = data.message
+  })
+
+  if (streamError || !result) {
+    throw new Error(streamError || 'Tutor response ended unexpectedly')
+  }
+
+  return result
+}
+
 // Main hook for intelligent tutoring
 export function useIntelligentTutoring() {
   const [state, setState] = useState<TutoringState>({
@@ -40,11 +77,16 @@ export function useIntelligentTutoring() {
     currentContext: null,
     isLoading: false,
     isTyping: false,
+    streamingMessage: null,
     error: null,
     personalities: [],
     sessionSummary: null
   })
 
+  const appendToken = useCallback((text: string) => {
+    setState(prev => ({ ...prev, streamingMessage: (prev.streamingMessage || '') + text }))
+  }, [])
+
   const abortControllerRef = useRef<AbortController | null>(null)
 
   // Start a new tutoring conversation
@@ -55,7 +97,7 @@ export function useIntelligentTutoring() {
     tutorPersonalityId?: string
   ) => {
     try {
-      setState(prev => ({ ...prev, isLoading: true, error: null, sessionSummary: null }))
+      setState(prev => ({ ...prev, isLoading: true, streamingMessage: '', error: null, sessionSummary: null }))
       
       // Cancel any ongoing request
       if (abortControllerRef.current) {
@@ -64,33 +106,24 @@ export function useIntelligentTutoring() {
       
       abortControllerRef.current = new AbortController()
       
-      const response = await fetch('/api/tutoring', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+
+      const data = await streamTutoringRequest(
+        {
           action: 'start_conversation',
           studentProfile,
           subject,
           learningObjectives,
           tutorPersonalityId
-        }),
-        signal: abortControllerRef.current.signal
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to start conversation: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to start conversation')
-      }
+        },
+        abortControllerRef.current.signal,
+        appendToken
+      )
 
       setState(prev => ({
         ...prev,
         sessionId: data.sessionId,
         conversationHistory: data.conversationHistory || [],
+        streamingMessage: null,
         isLoading: false
       }))
 
@@ -103,20 +136,36 @@ export function useIntelligentTutoring() {
       setState(prev => ({
         ...prev,
         isLoading: false,
+        streamingMessage: null,
         error: error instanceof Error ? error.message : 'Failed to start conversation'
       }))
       throw error
     }
-  }, [])
+  }, [appendToken])
 
-  // Send a message and get tutor response
+  // Send a message and stream the tutor response
   const sendMessage = useCallback(async (message: string) => {
     if (!state.sessionId || !message.trim()) {
       return
     }
 
+    // Show the student's message right away; the server returns the authoritative history
+    const pendingMessage: ConversationMessage = {
+      id: `pending_${Date.now()}`,
+      role: 'student',
+      content: message.trim(),
+      timestamp: new Date(),
+      metadata: { messageType: 'question', confidence: 1 }
+    }
+
     try {
-      setState(prev => ({ ...prev, isTyping: true, error: null }))
+      setState(prev => ({
+        ...prev,
+        conversationHistory: [...prev.conversationHistory, pendingMessage],
+        isTyping: true,
+        streamingMessage: '',
+        error: null
+      }))
       
       // Cancel any ongoing request
       if (abortControllerRef.current) {
@@ -125,30 +174,20 @@ export function useIntelligentTutoring() {
       
       abortControllerRef.current = new AbortController()
       
-      const response = await fetch('/api/tutoring', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
+      const data = await streamTutoringRequest(
+        {
           action: 'continue_conversation',
           sessionId: state.sessionId,
           studentMessage: message.trim()
-        }),
-        signal: abortControllerRef.current.signal
-      })
-
-      if (!response.ok) {
-        throw new Error(`Failed to send message: ${response.statusText}`)
-      }
-
-      const data = await response.json()
-      
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to send message')
-      }
+        },
+        abortControllerRef.current.signal,
+        appendToken
+      )
 
       setState(prev => ({
         ...prev,
         conversationHistory: data.conversationHistory || prev.conversationHistory,
+        streamingMessage: null,
         isTyping: false
       }))
 
@@ -160,12 +199,14 @@ export function useIntelligentTutoring() {
       
       setState(prev => ({
         ...prev,
+        conversationHistory: prev.conversationHistory.filter(msg => msg.id !== pendingMessage.id),
         isTyping: false,
+        streamingMessage: null,
         error: error instanceof Error ? error.message : 'Failed to send message'
       }))
       throw error
     }
-  }, [state.sessionId])
+  }, [state.sessionId, appendToken])
 
   // End the current conversation
   const endConversation = useCallback(async () => {
@@ -296,6 +337,7 @@ export function useIntelligentTutoring() {
       currentContext: null,
       isLoading: false,
       isTyping: false,
+      streamingMessage: null,
       error: null,
       personalities: state.personalities, // Keep personalities loaded
       sessionSummary: null
@@ -392,6 +434,7 @@ export function useIntelligentTutoring() {
     currentContext: state.currentContext,
     isLoading: state.isLoading,
     isTyping: state.isTyping,
+    streamingMessage: state.streamingMessage,
     error: state.error,
     personalities: state.personalities,
     sessionSummary: state.sessionSummary,
@@ -12,6 +12,7 @@ import type {
   MasteryAssessment,
   UnlockBenefit
 } from '@/lib/mastery-progression-engine'
+import { getAuthHeaders } from '@/lib/auth'
 
 export interface MasteryProgressionState {
   masteryProfile: UserMasteryProfile | null
@@ -76,7 +77,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -138,7 +139,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
 
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -194,7 +195,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -234,7 +235,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -271,7 +272,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -313,7 +314,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -353,7 +354,7 @@ export function useMasteryProgression(userId: string, userProfile: UserProfile)
     try {
       const response = await fetch('/api/mastery-progression', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           userId,
           userProfile,
@@ -6,6 +6,7 @@ import {
   type AttentionProfile,
   type OptimizedAttentionSystem
 } from '@/lib/neural-attention-tracking'
+import { getAuthHeaders } from '@/lib/auth'
 
 interface NeuralAttentionState {
   measurements: AttentionMeasurement[]
@@ -142,7 +143,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'measure_attention',
           ...params
@@ -250,7 +251,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'optimize_focus',
           ...params
@@ -291,7 +292,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'mitigate_distractions',
           ...params
@@ -332,7 +333,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'analyze_attention_patterns',
           ...params
@@ -368,7 +369,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'create_attention_profile',
           ...params
@@ -409,7 +410,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'update_attention_profile',
           ...params
@@ -448,7 +449,7 @@ export function useNeuralAttentionTracking() {
     try {
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_focus_recommendations',
           ...params
@@ -479,7 +480,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'track_attention_trends',
           ...params
@@ -515,7 +516,7 @@ export function useNeuralAttentionTracking() {
       
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'generate_attention_insights',
           ...params
@@ -549,7 +550,7 @@ export function useNeuralAttentionTracking() {
     try {
       const response = await fetch('/api/neural-attention', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'export_attention_data',
           ...params
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import type { NotificationPreferences, NotificationPreferencesUpdate } from '@/lib/notification-service'
+import type { InAppNotification } from '@/lib/notification-channels'
+import { getAuthHeaders } from '@/lib/auth'
+
+async function callNotificationsApi(action: string, payload: Record<string, any> = {}) {
+  const response = await fetch('/api/notifications', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ action, ...payload })
+  })
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}))
+    throw new Error(data.error || `Notification request failed: ${response.statusText}`)
+  }
+  return response.json()
+}
+
+// applicationServerKey wants the raw key bytes, the API hands out base64url
+function decodeVapidKey(key: string): Uint8Array {
+  const base64 = key.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - key.length % 4) % 4)
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
+
+function pushSupported(): boolean {
+  return typeof window !== 'undefined' && 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window
+}
+
+// Hook for the in-app inbox, notification preferences and this browser's push subscription
+export function useNotifications(options: { pollIntervalMs?: number } = {}) {
+  const [notifications, setNotifications] = useState<InAppNotification[]>([])
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [pushEnabled, setPushEnabled] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = useCallback(async <T>(operation: () => Promise<T>, fallbackMessage: string): Promise<T | null> => {
+    try {
+      setError(null)
+      return await operation()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackMessage)
+      return null
+    }
+  }, [])
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    await run(async () => {
+      const [inbox, settings] = await Promise.all([
+        callNotificationsApi('list'),
+        callNotificationsApi('get_preferences')
+      ])
+      setNotifications(inbox.notifications)
+      setPreferences(settings.preferences)
+    }, 'Failed to load notifications')
+    setIsLoading(false)
+  }, [run])
+
+  const markRead = useCallback(async (notificationIds: string[]) => {
+    await run(async () => {
+      await callNotificationsApi('mark_read', { notificationIds })
+      setNotifications(current => current.map(notification =>
+        notificationIds.includes(notification.notificationId) ? { ...notification, isRead: true } : notification
+      ))
+    }, 'Failed to mark notifications read')
+  }, [run])
+
+  const updatePreferences = useCallback(async (update: NotificationPreferencesUpdate) => {
+    return run(async () => {
+      const data = await callNotificationsApi('update_preferences', { preferences: update })
+      setPreferences(data.preferences)
+      return data.preferences as NotificationPreferences
+    }, 'Failed to update notification preferences')
+  }, [run])
+
+  const enablePush = useCallback(async () => {
+    return run(async () => {
+      if (!pushSupported()) throw new Error('Push notifications are not supported in this browser')
+
+      const info = await (await fetch('/api/notifications')).json()
+      if (!info.vapidPublicKey) throw new Error('Push notifications are not configured')
+      if (await Notification.requestPermission() !== 'granted') throw new Error('Notification permission was denied')
+
+      const registration = await navigator.serviceWorker.register('/sw.js')
+      await navigator.serviceWorker.ready
+      const subscription = await registration.pushManager.getSubscription() ||
+        await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: decodeVapidKey(info.vapidPublicKey) as BufferSource
+        })
+
+      await callNotificationsApi('subscribe_push', { subscription: subscription.toJSON() })
+      setPushEnabled(true)
+      return true
+    }, 'Failed to enable push notifications')
+  }, [run])
+
+  const disablePush = useCallback(async () => {
+    return run(async () => {
+      const registration = pushSupported() ? await navigator.serviceWorker.getRegistration('/sw.js') : undefined
+      const subscription = await registration?.pushManager.getSubscription()
+      if (subscription) {
+        await callNotificationsApi('unsubscribe_push', { subscription: { endpoint: subscription.endpoint } })
+        await subscription.unsubscribe()
+      }
+      setPushEnabled(false)
+      return true
+    }, 'Failed to disable push notifications')
+  }, [run])
+
+  useEffect(() => {
+    refresh()
+    if (!pushSupported()) return
+    navigator.serviceWorker.getRegistration('/sw.js')
+      .then(registration => registration?.pushManager.getSubscription())
+      .then(subscription => setPushEnabled(!!subscription))
+      .catch(() => setPushEnabled(false))
+  }, [refresh])
+
+  useEffect(() => {
+    if (!options.pollIntervalMs) return
+    const timer = setInterval(refresh, options.pollIntervalMs)
+    return () => clearInterval(timer)
+  }, [options.pollIntervalMs, refresh])
+
+  return {
+    notifications,
+    unreadCount: notifications.filter(notification => !notification.isRead).length,
+    preferences,
+    pushEnabled,
+    pushSupported: pushSupported(),
+    isLoading,
+    error,
+    refresh,
+    markRead,
+    updatePreferences,
+    enablePush,
+    disablePush,
+    clearError: () => setError(null)
+  }
+}
@@ -0,0 +1,63 @@
+'use client'
+
+import { useState, useCallback, useEffect } from 'react'
+import {
+  startOfflineSync,
+  getOfflineSyncStatus,
+  subscribeOfflineSync,
+  replayOutbox,
+  type OfflineSyncStatus
+} from '@/lib/offline-sync'
+import { listConflicts, clearConflicts, type OfflineConflict } from '@/lib/offline-store'
+
+// Hook for connection status, operations waiting to replay and conflicts from earlier replays
+export function useOfflineSync() {
+  const [status, setStatus] = useState<OfflineSyncStatus>(getOfflineSyncStatus())
+  const [conflicts, setConflicts] = useState<OfflineConflict[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const loadConflicts = useCallback(async () => {
+    setConflicts(await listConflicts())
+  }, [])
+
+  useEffect(() => {
+    void startOfflineSync()
+    void loadConflicts()
+    return subscribeOfflineSync(next => {
+      setStatus(next)
+      // A replay just finished; it may have recorded new conflicts
+      if (!next.syncing) void loadConflicts()
+    })
+  }, [loadConflicts])
+
+  const syncNow = useCallback(async () => {
+    try {
+      setError(null)
+      const summary = await replayOutbox()
+      if (getOfflineSyncStatus().lastError) {
+        setError(getOfflineSyncStatus().lastError)
+      }
+      return summary
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sync offline changes')
+      return null
+    }
+  }, [])
+
+  const dismissConflicts = useCallback(async () => {
+    await clearConflicts()
+    setConflicts([])
+  }, [])
+
+  return {
+    isOnline: status.online,
+    isSyncing: status.syncing,
+    pendingCount: status.pending,
+    lastSyncedAt: status.lastSyncedAt,
+    conflicts,
+    syncNow,
+    dismissConflicts,
+    error,
+    clearError: () => setError(null)
+  }
+}
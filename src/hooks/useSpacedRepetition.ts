@@ -10,6 +10,35 @@ import {
   type LeitnerBoxSystem,
   type SuperMemoAlgorithm
 } from '@/lib/spaced-repetition-engine'
+import type { SchedulerSettings, FSRSOptimizationResult } from '@/lib/spaced-repetition-schedulers'
+import type {
+  CSVFieldMapping,
+  DeckExportFile,
+  DeckExportFormat,
+  DeckImportFormat
+} from '@/lib/flashcard-deck-io'
+import { isOnline, queueOfflineOperation, precacheDueCards, getOfflineDueCards } from '@/lib/offline-sync'
+import { getAuthHeaders } from '@/lib/auth'
+
+interface DeckImportResult {
+  imported: number
+  skipped: number
+  replayed_reviews: number
+  item_ids: string[]
+}
+
+// .apkg files are binary and travel base64-encoded
+async function readDeckFile(file: File, format: DeckImportFormat): Promise<string> {
+  if (format !== 'apkg') {
+    return file.text()
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
 
 interface SpacedRepetitionState {
   currentSchedule: SpacedRepetitionSchedule | null
@@ -19,6 +48,7 @@ interface SpacedRepetitionState {
   reviewHistory: ReviewSession[]
   leitnerSystem: LeitnerBoxSystem | null
   superMemoData: SuperMemoAlgorithm | null
+  schedulerSettings: SchedulerSettings | null
   isLoading: boolean
   isReviewing: boolean
   error: string | null
@@ -43,6 +73,7 @@ export function useSpacedRepetition(learnerId: string) {
     reviewHistory: [],
     leitnerSystem: null,
     superMemoData: null,
+    schedulerSettings: null,
     isLoading: false,
     isReviewing: false,
     error: null,
@@ -59,7 +90,7 @@ export function useSpacedRepetition(learnerId: string) {
       
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'add_learning_item',
           learnerId,
@@ -100,10 +131,28 @@ export function useSpacedRepetition(learnerId: string) {
   ) => {
     try {
       setState(prev => ({ ...prev, isReviewing: true, error: null }))
+
+      // Offline: queue the review with the time it happened; the card is rescheduled when it replays
+      if (!isOnline()) {
+        const reviewedAt = sessionData.session_date ? new Date(sessionData.session_date) : new Date()
+        const operationId = await queueOfflineOperation('srs_review', { learnerId, itemId, sessionData }, reviewedAt)
+        if (!operationId) {
+          throw new Error('Reviews cannot be saved offline in this browser')
+        }
+
+        setState(prev => ({
+          ...prev,
+          todaysDueItems: prev.todaysDueItems.filter(item => item.item_id !== itemId),
+          reviewHistory: [{ ...sessionData, item_id: itemId, session_date: reviewedAt } as ReviewSession, ...prev.reviewHistory.slice(0, 99)],
+          isReviewing: false,
+          lastReviewId: itemId
+        }))
+        return { queued: true as const, operation_id: operationId }
+      }
       
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'record_review_session',
           learnerId,
@@ -133,6 +182,7 @@ export function useSpacedRepetition(learnerId: string) {
       }))
 
       return {
+        queued: false as const,
         updated_memory_state: data.updated_memory_state,
         next_review_date: new Date(data.next_review_date),
         adaptive_adjustments: data.adaptive_adjustments,
@@ -158,7 +208,7 @@ export function useSpacedRepetition(learnerId: string) {
       
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'generate_schedule',
           learnerId,
@@ -199,7 +249,7 @@ export function useSpacedRepetition(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'analyze_forgetting_curve',
           learnerId,
@@ -237,7 +287,7 @@ export function useSpacedRepetition(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'optimize_review_intervals',
           learnerId,
@@ -270,7 +320,7 @@ export function useSpacedRepetition(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_optimal_review_times',
           learnerId,
@@ -303,7 +353,7 @@ export function useSpacedRepetition(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'initialize_leitner_system',
           learnerId,
@@ -344,7 +394,7 @@ export function useSpacedRepetition(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'initialize_supermemo',
           learnerId,
@@ -380,9 +430,22 @@ export function useSpacedRepetition(learnerId: string) {
   // Get items due today
   const loadItemsDueToday = useCallback(async () => {
     try {
+      if (!isOnline()) {
+        const dueCards = await getOfflineDueCards(learnerId)
+        setState(prev => ({
+          ...prev,
+          todaysDueItems: dueCards.map(card => ({
+            item_id: card.memory_state.item_id,
+            priority: card.priority,
+            overdue_days: card.overdue_days
+          }))
+        }))
+        return
+      }
+
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_items_due_today',
           learnerId
@@ -397,6 +460,8 @@ export function useSpacedRepetition(learnerId: string) {
             ...prev,
             todaysDueItems: data.dueItems
           }))
+          // Keep the cards themselves for reviewing offline
+          precacheDueCards(learnerId).catch(error => console.warn('Failed to cache due cards:', error))
         }
       }
     } catch (error) {
@@ -409,7 +474,7 @@ export function useSpacedRepetition(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_memory_state',
           learnerId,
@@ -434,6 +499,167 @@ export function useSpacedRepetition(learnerId: string) {
     }
   }, [learnerId])
 
+  // Select FSRS / SM-2 scheduling and its options
+  const configureScheduler = useCallback(async (settings: Partial<SchedulerSettings>) => {
+    try {
+      const response = await fetch('/api/spaced-repetition', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'configure_scheduler',
+          learnerId,
+          schedulerSettings: settings
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to configure scheduler: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to configure scheduler')
+      }
+
+      setState(prev => ({
+        ...prev,
+        schedulerSettings: data.schedulerSettings
+      }))
+
+      return data.schedulerSettings as SchedulerSettings
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to configure scheduler'
+      }))
+      throw error
+    }
+  }, [learnerId])
+
+  // Fit FSRS parameters to this learner's review history
+  const optimizeSchedulerParameters = useCallback(async () => {
+    try {
+      const response = await fetch('/api/spaced-repetition', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'optimize_scheduler_parameters',
+          learnerId
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to optimize scheduler parameters: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to optimize scheduler parameters')
+      }
+
+      setState(prev => ({
+        ...prev,
+        schedulerSettings: data.schedulerSettings
+      }))
+
+      return data.optimization as FSRSOptimizationResult
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to optimize scheduler parameters'
+      }))
+      throw error
+    }
+  }, [learnerId])
+
+  // Import an Anki package, Anki text export or CSV deck
+  const importDeck = useCallback(async (
+    file: File,
+    format: DeckImportFormat,
+    fieldMapping?: Partial<CSVFieldMapping>
+  ) => {
+    try {
+      setState(prev => ({ ...prev, isLoading: true, error: null }))
+
+      const response = await fetch('/api/spaced-repetition', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'import_deck',
+          learnerId,
+          deckFormat: format,
+          deckContent: await readDeckFile(file, format),
+          fieldMapping
+        })
+      })
+
+      const data = await response.json()
+      
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to import deck: ${response.statusText}`)
+      }
+
+      await loadItemsDueToday()
+      return data.importResult as DeckImportResult
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to import deck'
+      }))
+      throw error
+    } finally {
+      setState(prev => ({ ...prev, isLoading: false }))
+    }
+  }, [learnerId, loadItemsDueToday])
+
+  // Export the schedule and optionally save it as a file in the browser
+  const exportSchedule = useCallback(async (
+    format: DeckExportFormat = 'csv',
+    download: boolean = true
+  ) => {
+    try {
+      const response = await fetch('/api/spaced-repetition', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+        body: JSON.stringify({
+          action: 'export_schedule',
+          learnerId,
+          exportFormat: format
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Failed to export schedule: ${response.statusText}`)
+      }
+
+      const data = await response.json()
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to export schedule')
+      }
+
+      const file = data.exportFile as DeckExportFile
+      if (download) {
+        const url = URL.createObjectURL(new Blob([file.content], { type: file.mime_type }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = file.filename
+        link.click()
+        URL.revokeObjectURL(url)
+      }
+
+      return file
+    } catch (error) {
+      setState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to export schedule'
+      }))
+      throw error
+    }
+  }, [learnerId])
+
   // Clear error
   const clearError = useCallback(() => {
     setState(prev => ({ ...prev, error: null }))
@@ -471,6 +697,7 @@ export function useSpacedRepetition(learnerId: string) {
     reviewHistory: state.reviewHistory,
     leitnerSystem: state.leitnerSystem,
     superMemoData: state.superMemoData,
+    schedulerSettings: state.schedulerSettings,
     isLoading: state.isLoading,
     isReviewing: state.isReviewing,
     error: state.error,
@@ -487,6 +714,10 @@ export function useSpacedRepetition(learnerId: string) {
     initializeSuperMemo,
     loadItemsDueToday,
     getMemoryState,
+    configureScheduler,
+    optimizeSchedulerParameters,
+    importDeck,
+    exportSchedule,
     clearError,
     loadAllData,
     
@@ -565,7 +796,7 @@ export function useSpacedRepetitionAnalytics(learnerId: string) {
       
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'get_analytics',
           learnerId
@@ -621,7 +852,7 @@ export function useReviewSession(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'start_review_session',
           learnerId,
@@ -671,7 +902,7 @@ export function useReviewSession(learnerId: string) {
     try {
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'complete_review_in_session',
           learnerId,
@@ -706,7 +937,7 @@ export function useReviewSession(learnerId: string) {
         // Continue session with next item
         const nextItemResponse = await fetch('/api/spaced-repetition', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
           body: JSON.stringify({
             action: 'get_learning_item',
             itemId: remainingQueue[0]
@@ -775,7 +1006,7 @@ export function useForgettingCurveAnalysis(learnerId: string, itemId: string) {
       
       const response = await fetch('/api/spaced-repetition', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
         body: JSON.stringify({
           action: 'analyze_forgetting_curve',
           learnerId,
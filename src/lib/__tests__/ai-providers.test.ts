@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { stubCompletion } from '@/lib/ai-providers'
+
+describe('stubCompletion', () => {
+  it('answers prose prompts with deterministic prose', () => {
+    const prompt = 'Task: Explain fractions.\nContext: halves and quarters'
+    expect(stubCompletion(prompt, 200)).toBe(stubCompletion(prompt, 200))
+    expect(stubCompletion(prompt, 200)).toMatch(/^\[offline:[0-9a-f]{8}\] Explain fractions\./)
+  })
+
+  it('echoes the JSON example a prompt asks for', () => {
+    const prompt = `Generate 1 quiz question.
+
+Format as JSON array with this structure:
+[
+  { "id": "q1", "question": "Question text", "options": ["A", "B"], "correct_answer": "A", "points": 10 }
+]`
+    expect(JSON.parse(stubCompletion(prompt, 50))).toEqual([
+      { id: 'q1', question: 'Question text', options: ['A', 'B'], correct_answer: 'A', points: 10 }
+    ])
+  })
+
+  it('returns empty JSON when the prompt only describes the shape', () => {
+    expect(JSON.parse(stubCompletion('Respond in JSON format with:\n- severity: "low" | "high"', 300))).toEqual({})
+    expect(JSON.parse(stubCompletion('Return a JSON array of concept objects.', 300))).toEqual([])
+  })
+})
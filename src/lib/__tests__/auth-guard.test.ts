@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { canAccess, type AccessRule } from '@/lib/auth-guard'
+import { session } from '@/test/auth'
+
+const ORG_ADMINS: AccessRule = { roles: ['org_admin'] }
+const STAFF: AccessRule = { roles: ['org_admin', 'instructor'] }
+const PLATFORM_ADMINS: AccessRule = { roles: [] }
+const OWNERS: AccessRule = { roles: [], allowSelf: true, allowManager: true, allowGuardian: true }
+
+describe('canAccess', () => {
+  it('lets super admins do anything', () => {
+    const admin = session('root', 'super_admin')
+    expect(canAccess(admin, PLATFORM_ADMINS)).toBe(true)
+    expect(canAccess(admin, ORG_ADMINS, { organizationId: 'org-b' })).toBe(true)
+  })
+
+  it('keeps org admins and instructors to their own organization', () => {
+    const admin = session('admin-a', 'admin', { organizationId: 'org-a' })
+    const teacher = session('teacher-a', 'teacher', { organizationId: 'org-a' })
+
+    expect(canAccess(admin, ORG_ADMINS, { organizationId: 'org-a' })).toBe(true)
+    expect(canAccess(admin, ORG_ADMINS, { organizationId: 'org-b' })).toBe(false)
+    expect(canAccess(teacher, STAFF, { organizationId: 'org-a' })).toBe(true)
+    expect(canAccess(teacher, STAFF, { organizationId: 'org-b' })).toBe(false)
+    expect(canAccess(teacher, ORG_ADMINS, { organizationId: 'org-a' })).toBe(false)
+  })
+
+  it('denies org-scoped roles when the subject has no organization', () => {
+    expect(canAccess(session('admin-a', 'admin', { organizationId: 'org-a' }), ORG_ADMINS)).toBe(false)
+    expect(canAccess(session('teacher-a', 'teacher', { organizationId: 'org-a' }), STAFF, { userIds: ['someone'] })).toBe(false)
+    expect(canAccess(session('admin-x', 'admin'), ORG_ADMINS, {})).toBe(false)
+  })
+
+  it('reserves empty role lists for platform admins', () => {
+    expect(canAccess(session('admin-a', 'admin', { organizationId: 'org-a' }), PLATFORM_ADMINS, { organizationId: 'org-a' })).toBe(false)
+    expect(canAccess(session('mod', 'moderator'), PLATFORM_ADMINS)).toBe(false)
+  })
+
+  it('grants owners, managers and guardians their own records', () => {
+    const subject = { userIds: ['kid'], managerId: 'boss', guardianEmails: ['Mum@example.com'] }
+
+    expect(canAccess(session('kid', 'student'), OWNERS, subject)).toBe(true)
+    expect(canAccess(session('other', 'student'), OWNERS, subject)).toBe(false)
+    expect(canAccess(session('boss', 'student'), OWNERS, subject)).toBe(true)
+    expect(canAccess(session('dad', 'parent', { childIds: ['kid'] }), OWNERS, subject)).toBe(true)
+    expect(canAccess(session('mum', 'parent', { email: 'mum@example.com' }), OWNERS, subject)).toBe(true)
+    expect(canAccess(session('stranger', 'parent', { childIds: ['someone-else'] }), OWNERS, subject)).toBe(false)
+    // Only parents are matched by guardian email
+    expect(canAccess(session('mum', 'student', { email: 'mum@example.com' }), OWNERS, subject)).toBe(false)
+  })
+})
@@ -0,0 +1,58 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { generateKeyPairSync } from 'crypto'
+import { signCertification, verifyCertificate } from '@/lib/compliance-certificates'
+import { corporateTrainingEngine, type CompanyProfile, type EmployeeProfile } from '@/lib/corporate-training-engine'
+
+const holder: EmployeeProfile = {
+  employeeId: 'cert-holder',
+  name: 'Cert Holder',
+  email: 'cert-holder@initech.test',
+  department: 'Operations',
+  role: 'operator',
+  level: 'mid',
+  startDate: new Date('2024-01-01'),
+  skills: [],
+  certifications: [],
+  learningGoals: [],
+  companyId: 'initech',
+  timezone: 'UTC',
+  preferredLanguage: 'en'
+}
+
+function issueSigned(name: string, expiresAt: Date) {
+  const issued = corporateTrainingEngine.issueCertification(holder.employeeId, { name, issuedAt: new Date('2026-01-01'), expiresAt })
+  return signCertification(holder.employeeId, issued.certificationId).certification
+}
+
+beforeAll(async () => {
+  const { privateKey } = generateKeyPairSync('ed25519')
+  process.env.CERTIFICATE_SIGNING_KEY = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+
+  await corporateTrainingEngine.hydrate()
+  await corporateTrainingEngine.createCompanyProfile({ companyId: 'initech', name: 'Initech', complianceRequirements: [], learningPriorities: [] } as CompanyProfile)
+  await corporateTrainingEngine.createEmployeeProfile(holder)
+})
+
+describe('verifyCertificate', () => {
+  const now = new Date('2026-06-01')
+
+  it('accepts a genuine certificate that is in force', () => {
+    const certificate = issueSigned('Forklift safety', new Date('2027-06-01'))
+    expect(verifyCertificate(certificate.serial, certificate.signature, now)).toMatchObject({ valid: true, authentic: true, status: 'active' })
+  })
+
+  it('rejects genuine certificates that were revoked or have expired', () => {
+    const revoked = issueSigned('Fire warden', new Date('2027-06-01'))
+    corporateTrainingEngine.revokeCertification(holder.employeeId, revoked.certificationId, 'Issued in error')
+    expect(verifyCertificate(revoked.serial, revoked.signature, now)).toMatchObject({ valid: false, authentic: true, status: 'revoked' })
+
+    const expired = issueSigned('First aid', new Date('2026-03-01'))
+    expect(verifyCertificate(expired.serial, expired.signature, now)).toMatchObject({ valid: false, authentic: true, status: 'expired' })
+  })
+
+  it('rejects a signature that does not match', () => {
+    const certificate = issueSigned('Working at height', new Date('2027-06-01'))
+    const other = issueSigned('Confined spaces', new Date('2027-06-01'))
+    expect(verifyCertificate(certificate.serial, other.signature, now)).toMatchObject({ valid: false, authentic: false })
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { contentSafetyEngine } from '@/lib/content-safety-engine'
+import { aiResponseCache } from '@/lib/ai-response-cache'
+import type { UserProfile } from '@/types'
+
+const learner: UserProfile = {
+  id: 'learner-1',
+  name: 'Ada',
+  language: 'en',
+  subject: 'mathematics',
+  level: 'beginner',
+  age_group: 'teen',
+  use_case: 'student',
+  created_at: '2026-01-01T00:00:00Z'
+}
+
+const request = { topic: 'Fractions', contentType: 'lesson', difficulty: 'beginner', length: 'short', format: 'text' }
+
+function generateLesson(text: string) {
+  return aiResponseCache.getOrGenerate({
+    kind: 'content',
+    useCase: 'mathematics',
+    request,
+    userProfile: learner,
+    generate: async () => text
+  })
+}
+
+describe('ContentSafetyEngine', () => {
+  it('drops the cached generation when its item is reported', async () => {
+    const first = await generateLesson('A lesson on fractions')
+    expect(first.cache.status).toBe('miss')
+    expect((await generateLesson('unused')).cache.status).toBe('hit')
+
+    const item = contentSafetyEngine.generatedItem({ kind: 'content', request }, learner, {
+      content_type: 'ai_lesson',
+      title: 'Fractions',
+      description: first.value,
+      difficulty: 3,
+      estimated_time: 5
+    })
+    expect(item.metadata?.generation).toEqual({ kind: 'content', request })
+
+    await contentSafetyEngine.submitSafetyReport(item.id, 'learner-2', { reportType: 'inappropriate_content' })
+
+    const regenerated = await generateLesson('A fresh lesson on fractions')
+    expect(regenerated.cache.status).toBe('miss')
+    expect(regenerated.value).toBe('A fresh lesson on fractions')
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { createArmState, expectedReward, rewardCoefficients, selectArm, updateArm } from '@/lib/contextual-bandit'
+import { seededRandom } from '@/test/random'
+
+describe('arm models', () => {
+  it('match the ridge regression solution', () => {
+    // A = I + [1,0][1,0]ᵀ·2 + [0,1][0,1]ᵀ = diag(3, 2), b = [2, 0], so the coefficients are A⁻¹b = [2/3, 0]
+    let state = createArmState('video', 2)
+    state = updateArm(state, [1, 0], 1)
+    state = updateArm(state, [1, 0], 1)
+    state = updateArm(state, [0, 1], 0)
+    expect(rewardCoefficients(state)[0]).toBeCloseTo(2 / 3, 10)
+    expect(rewardCoefficients(state)[1]).toBeCloseTo(0, 10)
+    expect(expectedReward(state, [1, 1])).toBeCloseTo(2 / 3, 10)
+  })
+
+  it('replace a decision reward instead of counting it twice', () => {
+    const first = updateArm(createArmState('video', 1), [1], 0.2)
+    const revised = updateArm(first, [1], 1, 0.2)
+    // A = 1 + 1 = 2 either way, b moves from 0.2 to 1
+    expect(revised.rewarded).toBe(1)
+    expect(rewardCoefficients(revised)[0]).toBeCloseTo(0.5, 10)
+  })
+})
+
+describe('selectArm', () => {
+  it('logs the probability each arm is actually served with', () => {
+    const random = seededRandom(5)
+    const context = [1, 0.5]
+    let strong = createArmState('strong', 2)
+    let weak = createArmState('weak', 2)
+    for (let i = 0; i < 3; i++) {
+      strong = updateArm(strong, context, 0.7)
+      weak = updateArm(weak, context, 0.5)
+    }
+
+    const config = { ridge: 1, explorationScale: 0.5, explorationFloor: 0.1, propensitySamples: 4000 }
+    const reference = selectArm([strong, weak], context, config, random)
+    expect(reference.probabilities.strong + reference.probabilities.weak).toBeCloseTo(1, 10)
+    expect(Math.min(reference.probabilities.strong, reference.probabilities.weak)).toBeGreaterThanOrEqual(0.05)
+
+    const draws = 4000
+    let servedStrong = 0
+    for (let i = 0; i < draws; i++) {
+      if (selectArm([strong, weak], context, config, random).arm === 'strong') servedStrong++
+    }
+    const p = reference.probabilities.strong
+    // Each selection re-estimates its probabilities from 4000 posterior draws, hence the extra allowance
+    expect(Math.abs(servedStrong / draws - p)).toBeLessThan(4 * Math.sqrt(p * (1 - p) / draws) + 0.01)
+  })
+})
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  DELETION_RETENTION_MS,
+  EngineStateStore,
+  InMemoryEngineRepository,
+  type EngineStateRecord
+} from '@/lib/engine-repository'
+
+// In-memory repository that behaves like the shared Supabase one: it can list recent writes and deletions
+class SharedRepository extends InMemoryEngineRepository {
+  private collections = new Set<string>()
+  private tombstones: EngineStateRecord[] = []
+
+  async save<T>(namespace: string, collection: string, key: string, data: T): Promise<void> {
+    this.collections.add(`${namespace}::${collection}`)
+    await super.save(namespace, collection, key, data)
+  }
+
+  async delete(namespace: string, collection: string, key: string): Promise<void> {
+    await super.delete(namespace, collection, key)
+    this.tombstones.push({ namespace, collection, key, data: null, updatedAt: new Date(), deleted: true })
+  }
+
+  async listUpdatedSince<T>(namespace: string, since: Date): Promise<EngineStateRecord<T>[]> {
+    const records: EngineStateRecord<T>[] = []
+    for (const id of this.collections) {
+      const [recordNamespace, collection] = id.split('::')
+      if (recordNamespace !== namespace) continue
+      records.push(...(await super.list<T>(namespace, collection)).filter(record => record.updatedAt >= since))
+    }
+    const deletions = this.tombstones.filter(record => record.namespace === namespace && record.updatedAt >= since)
+    return [...records, ...(deletions as EngineStateRecord<T>[])]
+  }
+}
+
+// Two server instances of one engine
+function instances() {
+  const repository = new SharedRepository()
+  const first = new EngineStateStore('engine', repository)
+  const second = new EngineStateStore('engine', repository)
+  return {
+    first: { store: first, items: first.map<{ value: number }>('items') },
+    second: { store: second, items: second.map<{ value: number }>('items') }
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('EngineStateStore', () => {
+  it('picks up writes from other instances on every hydrate', async () => {
+    const { first, second } = instances()
+    await second.store.hydrate()
+
+    first.items.set('a', { value: 1 })
+    await first.store.flush()
+    await second.store.hydrate()
+    expect(second.items.get('a')).toEqual({ value: 1 })
+
+    first.items.set('a', { value: 2 })
+    await first.store.flush()
+    await second.store.hydrate()
+    expect(second.items.get('a')).toEqual({ value: 2 })
+  })
+
+  it('drops records deleted elsewhere on the next hydrate', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const { first, second } = instances()
+
+    first.items.set('a', { value: 1 })
+    first.items.set('b', { value: 1 })
+    await first.store.flush()
+    await second.store.hydrate()
+    expect(second.items.has('a')).toBe(true)
+
+    vi.setSystemTime(Date.now() + 1000)
+    first.items.delete('a')
+    first.items.delete('b')
+    await first.store.flush()
+    vi.setSystemTime(Date.now() + 1000)
+    first.items.set('b', { value: 2 })
+    await first.store.flush()
+
+    const list = vi.spyOn(SharedRepository.prototype, 'list')
+    await second.store.hydrate()
+    expect(list).not.toHaveBeenCalled()
+    expect(second.items.has('a')).toBe(false)
+    expect(second.items.get('b')).toEqual({ value: 2 })
+  })
+
+  it('reloads in full once deletion tombstones may have expired', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const { first, second } = instances()
+    first.items.set('a', { value: 1 })
+    await first.store.flush()
+    await second.store.hydrate()
+
+    vi.setSystemTime(Date.now() + DELETION_RETENTION_MS)
+    const list = vi.spyOn(SharedRepository.prototype, 'list')
+    await second.store.hydrate()
+    expect(list).toHaveBeenCalled()
+  })
+
+  it('does not persist in-place edits until the value is set again', async () => {
+    const { first, second } = instances()
+    first.items.set('a', { value: 1 })
+    await first.store.flush()
+
+    first.items.get('a')!.value = 5
+    await second.store.hydrate()
+    expect(second.items.get('a')).toEqual({ value: 1 })
+
+    first.items.set('a', first.items.get('a')!)
+    await first.store.flush()
+    await second.store.hydrate()
+    expect(second.items.get('a')).toEqual({ value: 5 })
+  })
+
+  it('lets only one instance create a key', async () => {
+    const { first, second } = instances()
+    const claims = await Promise.all([first.items.create('a', { value: 1 }), second.items.create('a', { value: 2 })])
+    expect(claims.filter(Boolean)).toHaveLength(1)
+
+    await first.store.hydrate()
+    await second.store.hydrate()
+    expect(first.items.get('a')).toEqual(second.items.get('a'))
+    expect(await first.items.create('a', { value: 3 })).toBe(false)
+  })
+})
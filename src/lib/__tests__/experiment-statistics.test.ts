@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import { mixtureSequentialTest, normalQuantile, sampleNormal, type SequentialAnalysis } from '@/lib/experiment-statistics'
+import { seededRandom } from '@/test/random'
+
+// A/A experiments read after every batch: both arms draw unit-variance outcomes with the same mean
+function simulateAATests(experiments: number, looks: number, batch: number, alpha: number) {
+  const random = seededRandom(2024)
+  const critical = normalQuantile(1 - alpha / 2)
+  let sequentialRejections = 0
+  let peekingRejections = 0
+
+  for (let experiment = 0; experiment < experiments; experiment++) {
+    let sumA = 0
+    let sumB = 0
+    let n = 0
+    let analysis: SequentialAnalysis | undefined
+    let peekedSignificant = false
+    for (let look = 0; look < looks; look++) {
+      for (let i = 0; i < batch; i++) {
+        sumA += sampleNormal(random)
+        sumB += sampleNormal(random)
+      }
+      n += batch
+      const estimate = sumB / n - sumA / n
+      analysis = mixtureSequentialTest(estimate, 2 / n, 0.01, alpha, analysis)
+      if (Math.abs(estimate) / Math.sqrt(2 / n) > critical) peekedSignificant = true
+    }
+    if (analysis!.boundaryCrossed) sequentialRejections++
+    if (peekedSignificant) peekingRejections++
+  }
+
+  return { sequential: sequentialRejections / experiments, peeking: peekingRejections / experiments }
+}
+
+describe('mixtureSequentialTest', () => {
+  it('matches the closed-form likelihood ratio', () => {
+    // Λ = sqrt(V / (V + τ²)) · exp(τ² θ² / (2V(V + τ²))) with θ = 0.3, V = 0.01, τ² = 0.02: sqrt(1/3) · e³ = 11.5964
+    const analysis = mixtureSequentialTest(0.3, 0.01, 0.02, 0.05)
+    expect(analysis.likelihoodRatio).toBeCloseTo(11.5964, 4)
+    expect(analysis.alwaysValidPValue).toBeCloseTo(0.08623, 5)
+    expect(analysis.boundaryCrossed).toBe(false)
+  })
+
+  it('keeps the false positive rate under alpha when read after every batch', () => {
+    const { sequential, peeking } = simulateAATests(400, 50, 20, 0.05)
+    expect(sequential).toBeLessThanOrEqual(0.05)
+    // The same experiments judged by a fixed-horizon z-test at every look reject far more often
+    expect(peeking).toBeGreaterThan(0.15)
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { FeatureFlagError, FeatureFlagService } from '@/lib/feature-flags'
+
+function serviceWithPlanFlag(clientAttributes: string[]) {
+  const service = new FeatureFlagService()
+  service.createFlag({
+    key: 'new-editor',
+    clientAttributes,
+    rolloutPercentage: 0,
+    rules: [
+      { ruleId: 'pro', criteria: [{ field: 'plan', operator: 'equals', value: 'pro' }], variationId: 'on' },
+      { ruleId: 'admins', criteria: [{ field: 'profileRole', operator: 'equals', value: 'admin' }], variationId: 'on' },
+      { ruleId: 'advanced', criteria: [{ field: 'userProfile.level', operator: 'equals', value: 'advanced' }], variationId: 'on' }
+    ]
+  })
+  return service
+}
+
+describe('FeatureFlagService', () => {
+  it('ignores caller-supplied attributes the flag does not allow', () => {
+    const service = serviceWithPlanFlag([])
+    const supplied = { attributes: { plan: 'pro', profileRole: 'admin' }, userProfile: { level: 'advanced' as const } }
+    expect(service.evaluate('new-editor', { userId: 'user-1' }, false, supplied).value).toBe(false)
+  })
+
+  it('targets on allowlisted caller attributes and profile fields', () => {
+    const service = serviceWithPlanFlag(['plan', 'userProfile.level'])
+    expect(service.evaluate('new-editor', { userId: 'user-1' }, false, { attributes: { plan: 'pro' } }).value).toBe(true)
+    expect(service.evaluate('new-editor', { userId: 'user-1' }, false, { userProfile: { level: 'advanced' } }).value).toBe(true)
+  })
+
+  it('lets session fields win over caller-supplied ones', () => {
+    const service = serviceWithPlanFlag(['plan'])
+    const context = { userId: 'user-1', attributes: { plan: 'free' } }
+    expect(service.evaluate('new-editor', context, false, { attributes: { plan: 'pro' } }).value).toBe(false)
+    expect(service.evaluate('new-editor', { userId: 'user-1', attributes: { profileRole: 'admin' } }).value).toBe(true)
+  })
+
+  it('refuses session fields as client attributes', () => {
+    expect(() => serviceWithPlanFlag(['profileRole'])).toThrow(FeatureFlagError)
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { MAX_IMPORTED_CARDS, parseAnkiPackage, type ImportedCard } from '@/lib/flashcard-deck-io'
+import { spacedRepetitionEngine } from '@/lib/spaced-repetition-engine'
+
+async function zipped(zip: JSZip): Promise<Uint8Array> {
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' })
+}
+
+describe('parseAnkiPackage', () => {
+  it('refuses packages with too many entries', async () => {
+    const zip = new JSZip()
+    for (let i = 0; i < 50001; i++) zip.file(String(i), '')
+    await expect(parseAnkiPackage(await zipped(zip))).rejects.toMatchObject({ status: 413, message: expect.stringMatching(/entries/) })
+  })
+
+  it('stops inflating collections that expand past the size cap', async () => {
+    const zip = new JSZip()
+    zip.file('collection.anki2', new Uint8Array(101 * 1024 * 1024))
+    await expect(parseAnkiPackage(await zipped(zip))).rejects.toMatchObject({ status: 413, message: expect.stringMatching(/MB/) })
+  })
+})
+
+describe('importDeck', () => {
+  it('refuses decks over the card cap', async () => {
+    const cards: ImportedCard[] = Array.from({ length: MAX_IMPORTED_CARDS + 1 }, (_, index) => ({
+      external_id: `card_${index}`,
+      front: `Front ${index}`,
+      back: `Back ${index}`,
+      tags: [],
+      reviews: []
+    }))
+    await expect(spacedRepetitionEngine.importDeck('deck-learner', cards, 'csv')).rejects.toMatchObject({ status: 413 })
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { analyzeItems, type ItemAnalysisSitting } from '@/lib/item-analysis'
+
+describe('analyzeItems', () => {
+  it('matches KR-20 on a complete dichotomous form', () => {
+    // Five items, ten examinees: p = .8 .7 .5 .3 .2, so Σpq = 0.99; total scores 5 4 4 3 3 2 2 1 1 0 have
+    // variance 2.25, and KR-20 = 5/4 × (1 - 0.99 / 2.25) = 0.70
+    const matrix = ['11111', '11110', '11101', '11100', '11010', '10100', '11000', '10000', '01000', '00000']
+    const items = ['i1', 'i2', 'i3', 'i4', 'i5'].map(item_id => ({ item_id }))
+    const sittings: ItemAnalysisSitting[] = matrix.map((row, index) => ({
+      sitting_id: `s${index}`,
+      ability: 0,
+      responses: items.map(({ item_id }, i) => ({ item_id, correct: row[i] === '1' }))
+    }))
+
+    const report = analyzeItems(items, sittings, { min_responses: 10 })
+    expect(report.reliability.method).toBe('complete')
+    expect(report.reliability.cronbach_alpha).toBeCloseTo(0.7, 10)
+    expect(report.items.map(item => item.p_value)).toEqual([0.8, 0.7, 0.5, 0.3, 0.2])
+  })
+
+  it('matches the Mantel-Haenszel odds ratio, ETS delta and chi-square of a two-stratum table', () => {
+    // Stratum θ = 0: reference 30 right / 10 wrong, focal 20 / 20. Stratum θ = 1: reference 15 / 5, focal 10 / 10.
+    // α_MH = (30·20/80 + 15·10/40) / (10·20/80 + 5·10/40) = 11.25 / 3.75 = 3, Δ_MH = -2.35 ln 3 = -2.5817.
+    // Σa = 45 against E = 40·50/80 + 20·25/40 = 37.5, Var = 40·40·50·30/(80²·79) + 20·20·25·15/(40²·39) = 7.15069,
+    // so χ²_MH = (|45 - 37.5| - 0.5)² / 7.15069 = 6.8525
+    const table = [
+      { ability: 0, group: 'reference', right: 30, wrong: 10 },
+      { ability: 0, group: 'focal', right: 20, wrong: 20 },
+      { ability: 1, group: 'reference', right: 15, wrong: 5 },
+      { ability: 1, group: 'focal', right: 10, wrong: 10 }
+    ]
+    const sittings: ItemAnalysisSitting[] = table.flatMap(cell => [
+      ...Array.from({ length: cell.right }, () => true),
+      ...Array.from({ length: cell.wrong }, () => false)
+    ].map((correct, index) => ({
+      sitting_id: `${cell.group}-${cell.ability}-${index}`,
+      group: cell.group,
+      ability: cell.ability,
+      responses: [{ item_id: 'q1', correct }]
+    })))
+
+    const [item] = analyzeItems([{ item_id: 'q1' }], sittings, { reference_group: 'reference' }).items
+    expect(item.dif).toHaveLength(1)
+    const [dif] = item.dif
+    expect(dif.odds_ratio).toBeCloseTo(3, 10)
+    expect(dif.delta).toBeCloseTo(-2.5817, 4)
+    expect(dif.chi_square).toBeCloseTo(6.8525, 3)
+    expect(dif.p_value).toBeCloseTo(0.00885, 4)
+    expect(dif.classification).toBe('C')
+    expect(item.flags).toContain('dif')
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { calibrateItems, estimateAbility, probabilityCorrect, type IrtResponsePattern } from '@/lib/item-response-theory'
+import { sampleNormal } from '@/lib/experiment-statistics'
+import { seededRandom } from '@/test/random'
+
+const rasch = { discrimination: 1, difficulty: 0, guessing: 0 }
+
+describe('estimateAbility', () => {
+  it('returns the prior without responses', () => {
+    const estimate = estimateAbility([])
+    expect(estimate.theta).toBeCloseTo(0, 6)
+    expect(estimate.standard_error).toBeCloseTo(1, 2)
+  })
+
+  it('matches the closed-form EAP for one correct answer to a centred Rasch item', () => {
+    // Posterior ∝ φ(θ)σ(θ). By symmetry E[σ(θ)] = 1/2, and by Stein's lemma E[θσ(θ)] = E[σ(θ)(1 - σ(θ))] ≈ 0.20662,
+    // so the EAP is 2 × 0.20662 = 0.41324
+    expect(estimateAbility([{ parameters: rasch, correct: true }]).theta).toBeCloseTo(0.41324, 3)
+    expect(estimateAbility([{ parameters: rasch, correct: false }]).theta).toBeCloseTo(-0.41324, 3)
+  })
+
+  it('recovers simulated abilities from a long test', () => {
+    const random = seededRandom(7)
+    const items = Array.from({ length: 60 }, (_, i) => ({ discrimination: 1.5, difficulty: -3 + (6 * i) / 59, guessing: 0 }))
+    for (const theta of [-1.5, 0, 1.5]) {
+      const responses = items.map(parameters => ({ parameters, correct: random() < probabilityCorrect(theta, parameters) }))
+      const estimate = estimateAbility(responses)
+      expect(estimate.standard_error).toBeLessThan(0.35)
+      expect(Math.abs(estimate.theta - theta)).toBeLessThan(3 * estimate.standard_error)
+    }
+  })
+})
+
+describe('calibrateItems', () => {
+  it('recovers 2PL parameters from simulated sittings', () => {
+    const random = seededRandom(42)
+    const truth = [
+      { item_id: 'q1', discrimination: 0.8, difficulty: -1.5, guessing: 0 },
+      { item_id: 'q2', discrimination: 1.2, difficulty: -0.5, guessing: 0 },
+      { item_id: 'q3', discrimination: 1.8, difficulty: 0, guessing: 0 },
+      { item_id: 'q4', discrimination: 1, difficulty: 0.7, guessing: 0 },
+      { item_id: 'q5', discrimination: 1.5, difficulty: 1.4, guessing: 0 },
+      { item_id: 'q6', discrimination: 0.6, difficulty: 0.2, guessing: 0 }
+    ]
+    const patterns: IrtResponsePattern[] = Array.from({ length: 2000 }, (_, person) => {
+      const theta = sampleNormal(random)
+      return {
+        person_id: `p${person}`,
+        responses: truth.map(item => ({ item_id: item.item_id, correct: random() < probabilityCorrect(theta, item) }))
+      }
+    })
+
+    const result = calibrateItems(patterns, { model: '2PL' })
+    expect(result.converged).toBe(true)
+    for (const item of truth) {
+      const calibrated = result.items.find(candidate => candidate.item_id === item.item_id)!
+      expect(Math.abs(calibrated.difficulty - item.difficulty)).toBeLessThan(0.3)
+      expect(Math.abs(calibrated.discrimination - item.discrimination)).toBeLessThan(0.3)
+      expect(Math.abs(calibrated.difficulty - item.difficulty)).toBeLessThan(4 * calibrated.standard_errors.difficulty)
+    }
+  })
+})
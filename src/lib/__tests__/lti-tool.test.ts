@@ -0,0 +1,131 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createHmac, generateKeyPairSync, type KeyObject } from 'crypto'
+import { LtiError, ltiToolProvider, signJwt } from '@/lib/lti-tool'
+
+const ISSUER = 'https://lms.test'
+const CLIENT_ID = 'tool-client'
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim/'
+
+const current = generateKeyPairSync('rsa', { modulusLength: 2048 })
+const retired = generateKeyPairSync('rsa', { modulusLength: 2048 })
+let publishedKeys: Record<string, any>[] = []
+
+function jwk(publicKey: KeyObject, kid: string) {
+  return { ...(publicKey.export({ format: 'jwk' }) as Record<string, any>), kid, alg: 'RS256', use: 'sig' }
+}
+
+function login(): { state: string; nonce: string } {
+  const url = new URL(ltiToolProvider.initiateLogin(
+    { iss: ISSUER, client_id: CLIENT_ID, login_hint: 'learner-7', target_link_uri: 'https://tool.test/lti' },
+    'https://tool.test'
+  ))
+  return { state: url.searchParams.get('state')!, nonce: url.searchParams.get('nonce')! }
+}
+
+function claims(nonce: string, overrides: Record<string, any> = {}) {
+  const now = Math.floor(Date.now() / 1000)
+  return {
+    iss: ISSUER,
+    aud: CLIENT_ID,
+    sub: 'learner-7',
+    iat: now,
+    exp: now + 300,
+    nonce,
+    [`${LTI_CLAIM}deployment_id`]: 'deployment-1',
+    [`${LTI_CLAIM}version`]: '1.3.0',
+    [`${LTI_CLAIM}message_type`]: 'LtiResourceLinkRequest',
+    [`${LTI_CLAIM}resource_link`]: { id: 'link-1' },
+    ...overrides
+  }
+}
+
+async function rejection(idToken: string, state: string): Promise<LtiError> {
+  const error = await ltiToolProvider.validateLaunch(idToken, state).catch(caught => caught)
+  expect(error).toBeInstanceOf(LtiError)
+  return error
+}
+
+beforeAll(() => {
+  ltiToolProvider.registerPlatform({
+    issuer: ISSUER,
+    clientId: CLIENT_ID,
+    deploymentIds: ['deployment-1'],
+    authLoginUrl: `${ISSUER}/auth`,
+    accessTokenUrl: `${ISSUER}/token`,
+    keysetUrl: `${ISSUER}/jwks`
+  })
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(JSON.stringify({ keys: publishedKeys }))))
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('validateLaunch', () => {
+  it('accepts a launch signed with the published key', async () => {
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    const { state, nonce } = login()
+    const launch = await ltiToolProvider.validateLaunch(signJwt(claims(nonce), current.privateKey, 'current'), state)
+    expect(launch).toMatchObject({ userId: 'learner-7', resourceLink: { id: 'link-1' } })
+  })
+
+  it('rejects a token for another audience', async () => {
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    const { state, nonce } = login()
+    const error = await rejection(signJwt(claims(nonce, { aud: 'another-tool' }), current.privateKey, 'current'), state)
+    expect(error).toMatchObject({ status: 401, message: 'id_token audience mismatch' })
+  })
+
+  it('rejects a stale token', async () => {
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    const { state, nonce } = login()
+    const now = Math.floor(Date.now() / 1000)
+    const error = await rejection(signJwt(claims(nonce, { iat: now - 3600, exp: now - 600 }), current.privateKey, 'current'), state)
+    expect(error).toMatchObject({ status: 401, message: 'id_token expired' })
+  })
+
+  it('accepts each login state once', async () => {
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    const { state, nonce } = login()
+    const token = signJwt(claims(nonce), current.privateKey, 'current')
+    await ltiToolProvider.validateLaunch(token, state)
+    expect(await rejection(token, state)).toMatchObject({ status: 401, message: 'Invalid or expired login state' })
+  })
+
+  it('rejects a nonce from another login', async () => {
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    const { state } = login()
+    const { nonce: otherNonce } = login()
+    const error = await rejection(signJwt(claims(otherNonce), current.privateKey, 'current'), state)
+    expect(error).toMatchObject({ status: 401, message: 'id_token nonce mismatch' })
+  })
+
+  it('rejects tokens that are not RS256', async () => {
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url')
+
+    const { state: noneState, nonce: noneNonce } = login()
+    const unsigned = `${encode({ alg: 'none', kid: 'current' })}.${encode(claims(noneNonce))}.`
+    expect(await rejection(unsigned, noneState)).toMatchObject({ status: 401, message: 'Invalid id_token signature' })
+
+    // HS256 keyed with the platform's public key, the classic algorithm confusion forgery
+    const { state, nonce } = login()
+    const signingInput = `${encode({ alg: 'HS256', kid: 'current' })}.${encode(claims(nonce))}`
+    const secret = current.publicKey.export({ format: 'pem', type: 'spki' })
+    const forged = `${signingInput}.${createHmac('sha256', secret).update(signingInput).digest('base64url')}`
+    expect(await rejection(forged, state)).toMatchObject({ status: 401, message: 'Invalid id_token signature' })
+  })
+
+  it('stops trusting a key once the platform retires it and the cached keyset expires', async () => {
+    publishedKeys = [jwk(retired.publicKey, 'retired')]
+    const first = login()
+    await ltiToolProvider.validateLaunch(signJwt(claims(first.nonce), retired.privateKey, 'retired'), first.state)
+
+    publishedKeys = [jwk(current.publicKey, 'current')]
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000)
+    const { state, nonce } = login()
+    const error = await rejection(signJwt(claims(nonce), retired.privateKey, 'retired'), state)
+    expect(error).toMatchObject({ status: 401, message: 'No matching platform signing key' })
+  })
+})
@@ -0,0 +1,68 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { createServer, type AddressInfo, type Server } from 'net'
+import { sendSmtpMail, type SmtpConfig } from '@/lib/notification-channels'
+
+// Plain relay without STARTTLS that records every command it receives
+const received: string[] = []
+let server: Server
+
+beforeAll(async () => {
+  server = createServer(socket => {
+    socket.write('220 relay ready\r\n')
+    let buffered = ''
+    let inData = false
+    socket.on('data', chunk => {
+      buffered += chunk.toString()
+      let newline: number
+      while ((newline = buffered.indexOf('\r\n')) >= 0) {
+        const line = buffered.slice(0, newline)
+        buffered = buffered.slice(newline + 2)
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 queued\r\n')
+          }
+          continue
+        }
+        received.push(line)
+        if (line === 'DATA') {
+          inData = true
+          socket.write('354 go ahead\r\n')
+        } else if (line.startsWith('EHLO')) socket.write('250-relay\r\n250 AUTH PLAIN\r\n')
+        else if (line.startsWith('AUTH')) socket.write('235 ok\r\n')
+        else if (line === 'QUIT') socket.end('221 bye\r\n')
+        else socket.write('250 ok\r\n')
+      }
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+})
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+function relayConfig(overrides: Partial<SmtpConfig>): SmtpConfig {
+  return {
+    host: '127.0.0.1',
+    port: (server.address() as AddressInfo).port,
+    secure: false,
+    requireTls: false,
+    allowPlaintextAuth: false,
+    from: 'no-reply@example.test',
+    timeoutMs: 2000,
+    ...overrides
+  }
+}
+
+const message = { to: 'learner@example.test', subject: 'Hello', text: 'Hi', html: '<p>Hi</p>' }
+
+describe('sendSmtpMail', () => {
+  it('refuses to send credentials without TLS', async () => {
+    await expect(sendSmtpMail(relayConfig({ username: 'mailer', password: 'secret' }), message)).rejects.toThrow(/in the clear/)
+    expect(received.some(line => line.startsWith('AUTH'))).toBe(false)
+  })
+
+  it('sends them when plaintext AUTH is explicitly allowed', async () => {
+    await sendSmtpMail(relayConfig({ username: 'mailer', password: 'secret', allowPlaintextAuth: true }), message)
+    expect(received.some(line => line.startsWith('AUTH PLAIN'))).toBe(true)
+  })
+})
@@ -0,0 +1,86 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { generateKeyPairSync, type KeyObject } from 'crypto'
+import { getIssuerId, getIssuerProfile, openBadgesIssuer, type OpenBadgeCredential } from '@/lib/open-badges'
+import { corporateTrainingEngine, type CompanyProfile, type EmployeeProfile } from '@/lib/corporate-training-engine'
+
+const holder: EmployeeProfile = {
+  employeeId: 'badge-holder',
+  name: 'Badge Holder',
+  email: 'badge-holder@initech.test',
+  department: 'Operations',
+  role: 'operator',
+  level: 'mid',
+  startDate: new Date('2024-01-01'),
+  skills: [],
+  certifications: [],
+  learningGoals: [],
+  companyId: 'initech',
+  timezone: 'UTC',
+  preferredLanguage: 'en'
+}
+
+const original = generateKeyPairSync('ed25519')
+const replacement = generateKeyPairSync('ed25519')
+const now = new Date('2026-06-01')
+let credential: OpenBadgeCredential
+
+function useSigningKey(privateKey: KeyObject, retiredPublicKeys: KeyObject[] = []) {
+  process.env.CERTIFICATE_SIGNING_KEY = privateKey.export({ format: 'pem', type: 'pkcs8' }).toString()
+  process.env.CERTIFICATE_RETIRED_PUBLIC_KEYS = retiredPublicKeys
+    .map(key => (key.export({ format: 'der', type: 'spki' }) as Buffer).toString('base64'))
+    .join(',')
+}
+
+function verify(document: OpenBadgeCredential) {
+  return openBadgesIssuer.verifyCredential(document, now)
+}
+
+beforeAll(async () => {
+  useSigningKey(original.privateKey)
+  await openBadgesIssuer.hydrate()
+  await corporateTrainingEngine.createCompanyProfile({ companyId: 'initech', name: 'Initech', complianceRequirements: [], learningPriorities: [] } as CompanyProfile)
+  await corporateTrainingEngine.createEmployeeProfile(holder)
+  corporateTrainingEngine.issueCertification(holder.employeeId, { name: 'Forklift safety', issuedAt: new Date('2026-01-01') })
+
+  await openBadgesIssuer.getWallet(holder.employeeId, now)
+  credential = openBadgesIssuer.getBadges(holder.employeeId)[0].credential
+})
+
+beforeEach(() => useSigningKey(original.privateKey))
+
+describe('verifyCredential', () => {
+  it('accepts an untouched credential', () => {
+    expect(verify(credential)).toMatchObject({ valid: true, signatureValid: true, status: 'valid' })
+  })
+
+  it('rejects a credential whose content was altered', () => {
+    const tampered = { ...credential, name: 'Nuclear plant operator' }
+    expect(verify(tampered)).toMatchObject({ valid: false, signatureValid: false, reason: 'The signature does not match this credential' })
+
+    const extended = { ...credential, validUntil: '2099-01-01T00:00:00.000Z' }
+    expect(verify(extended)).toMatchObject({ valid: false, reason: 'The signature does not match this credential' })
+  })
+
+  it('rejects a proof moved onto another document or pointing at another issuer', () => {
+    const rebased = { ...credential, '@context': [...credential['@context'], 'https://example.test/context'] }
+    expect(verify(rebased)).toMatchObject({ valid: false, reason: 'The proof does not belong to this credential' })
+
+    const foreign = { ...credential, proof: { ...credential.proof!, verificationMethod: 'https://issuer.example.test#key-1' } }
+    expect(verify(foreign)).toMatchObject({ valid: false, reason: 'The credential was not issued here' })
+  })
+
+  it('keeps verifying after a rotation while the old key is listed as retired, and not once it is dropped', () => {
+    useSigningKey(replacement.privateKey, [original.publicKey])
+    expect(verify(credential)).toMatchObject({ valid: true })
+    expect(getIssuerProfile().verificationMethod).toHaveLength(2)
+
+    useSigningKey(replacement.privateKey)
+    expect(verify(credential)).toMatchObject({
+      valid: false,
+      signatureValid: false,
+      reason: 'The credential was signed with a key that is no longer trusted'
+    })
+    expect(getIssuerProfile().verificationMethod).toHaveLength(1)
+    expect(credential.proof!.verificationMethod.startsWith(`${getIssuerId()}#key-`)).toBe(true)
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import JSZip from 'jszip'
+import { exportExamToQti, importQti, type QtiVersion } from '@/lib/qti-interchange'
+import type { AdaptiveExam, QuestionItem } from '@/lib/adaptive-exam-generation-engine'
+
+function question(id: string, overrides: Partial<QuestionItem> & { content: QuestionItem['content'] }): QuestionItem {
+  return {
+    question_id: id,
+    question_type: 'multiple_choice',
+    metadata: {
+      difficulty_level: 5,
+      estimated_time_seconds: 60,
+      competency_level: 'apply',
+      objective_id: 'fractions',
+      subject_tags: ['math'],
+      prerequisite_knowledge: [],
+      discrimination_index: 1,
+      cognitive_load: 3
+    },
+    scoring: { max_points: 1 },
+    feedback: { correct_feedback: '', incorrect_feedback: '', detailed_explanation: '', related_resources: [] },
+    adaptive_properties: { branch_conditions: [], prerequisite_questions: [], follow_up_questions: [], alternative_versions: [] },
+    ...overrides
+  }
+}
+
+function examOf(questions: QuestionItem[]): AdaptiveExam {
+  return {
+    exam_id: 'exam_fractions',
+    title: 'Fractions',
+    description: 'Adding and comparing fractions',
+    requirements: {
+      learning_objectives: [{ objective_id: 'fractions', title: 'Fractions' }],
+      constraints: { time_limit_minutes: 20 }
+    },
+    questions,
+    calibration_data: {
+      difficulty_calibration: [
+        { question_id: 'q_add', calibrated_difficulty: 0.7, discrimination: 1.4, guessing_parameter: 0.2, reliability_score: 0.8 }
+      ]
+    }
+  } as unknown as AdaptiveExam
+}
+
+const source = examOf([
+  question('q_add', {
+    content: {
+      question_text: 'What is 1/2 + 1/4?',
+      options: [
+        { option_id: 'a', text: '3/4', is_correct: true },
+        { option_id: 'b', text: '2/6', is_correct: false },
+        { option_id: 'c', text: '1/8', is_correct: false }
+      ]
+    }
+  }),
+  question('q_compare', {
+    question_type: 'short_answer',
+    content: { question_text: 'Which is larger, 2/3 or 3/5? Answer with the fraction.', correct_answer: '2/3' }
+  })
+])
+
+// What a bank keeps of each question across a round trip
+function essentials(questions: QuestionItem[]) {
+  return questions.map(q => ({
+    id: q.question_id,
+    type: q.question_type,
+    text: q.content.question_text,
+    options: q.content.options?.map(option => ({ text: option.text, correct: option.is_correct })),
+    answer: q.content.correct_answer,
+    objective: q.metadata.objective_id
+  }))
+}
+
+describe.each<QtiVersion>(['2.1', '3.0'])('QTI %s', version => {
+  it('survives import, export and import again', async () => {
+    const first = await importQti({ base64: (await exportExamToQti(source, version)).content_base64 })
+    expect(first.version).toBe(version)
+    expect(first.warnings).toEqual([])
+    expect(essentials(first.questions)).toEqual(essentials(source.questions))
+
+    const second = await importQti({ base64: (await exportExamToQti(examOf(first.questions), version, first.calibration.calibration_results)).content_base64 })
+    expect(second.version).toBe(version)
+    expect(essentials(second.questions)).toEqual(essentials(first.questions))
+    expect(second.calibration.calibration_results.map(result => result.irt_parameters))
+      .toEqual(first.calibration.calibration_results.map(result => result.irt_parameters))
+  })
+})
+
+describe('importQti', () => {
+  it('refuses packages with too many entries', async () => {
+    const zip = new JSZip()
+    for (let i = 0; i < 5001; i++) zip.file(`items/${i}.txt`, '')
+    const base64 = await zip.generateAsync({ type: 'base64' })
+    await expect(importQti({ base64 })).rejects.toThrow(/entries/)
+  })
+
+  it('stops inflating packages that expand past the size cap', async () => {
+    const zip = new JSZip()
+    zip.file('items/bomb.xml', '<a>' + ' '.repeat(51 * 1024 * 1024) + '</a>')
+    const base64 = await zip.generateAsync({ type: 'base64', compression: 'DEFLATE' })
+    await expect(importQti({ base64 })).rejects.toThrow(/MB/)
+  })
+})
@@ -0,0 +1,25 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { consumeRateLimit, MemoryRateLimitStore, setRateLimitStore, type RateLimitPolicy } from '@/lib/rate-limit'
+
+const policy: RateLimitPolicy = { policyId: 'test', pathPrefixes: ['/api'], capacity: 4, refillPerSecond: 0.001 }
+
+beforeEach(() => setRateLimitStore(new MemoryRateLimitStore()))
+
+describe('consumeRateLimit', () => {
+  it('caps all guest sessions from one IP with the IP bucket', async () => {
+    // Guests and bare IPs get half the policy capacity by default
+    const results = []
+    for (let guest = 0; guest < 3; guest++) {
+      results.push(await consumeRateLimit(policy, { kind: 'guest', id: `guest_${guest}`, ip: '203.0.113.7' }))
+    }
+    expect(results.map(result => result.allowed)).toEqual([true, true, false])
+
+    expect((await consumeRateLimit(policy, { kind: 'guest', id: 'guest_3', ip: '198.51.100.4' })).allowed).toBe(true)
+  })
+
+  it('leaves signed-in users on their own bucket', async () => {
+    for (let i = 0; i < 4; i++) {
+      expect((await consumeRateLimit(policy, { kind: 'user', id: 'user-1' })).allowed).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { NextRequest } from 'next/server'
+import { getClientIp } from '@/lib/request-identity'
+
+function requestWith(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/health', { headers })
+}
+
+describe('getClientIp', () => {
+  const forwarded = { 'x-forwarded-for': '6.6.6.6, 203.0.113.7, 10.0.0.2', 'x-real-ip': '6.6.6.6' }
+
+  it('ignores X-Real-IP and takes the last hop without a trusted proxy', () => {
+    expect(getClientIp(requestWith(forwarded), { trustedProxyHops: 0 })).toBe('10.0.0.2')
+  })
+
+  it('skips the hops appended by trusted proxies', () => {
+    expect(getClientIp(requestWith(forwarded), { trustedProxyHops: 2 })).toBe('203.0.113.7')
+    expect(getClientIp(requestWith(forwarded), { trustedProxyHops: 4 })).toBe('unknown')
+  })
+
+  it('reads the configured platform header only', () => {
+    expect(getClientIp(requestWith({ ...forwarded, 'cf-connecting-ip': '198.51.100.4' }), { header: 'cf-connecting-ip', trustedProxyHops: 0 }))
+      .toBe('198.51.100.4')
+    expect(getClientIp(requestWith(forwarded), { header: 'cf-connecting-ip', trustedProxyHops: 0 })).toBe('unknown')
+  })
+})
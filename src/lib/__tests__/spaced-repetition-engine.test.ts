@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import { spacedRepetitionEngine } from '@/lib/spaced-repetition-engine'
+import { DEFAULT_FSRS_WEIGHTS, SchedulerSettingsError, type SchedulerSettings } from '@/lib/spaced-repetition-schedulers'
+
+describe('configureScheduler', () => {
+  it('rejects settings the schedulers cannot run with', () => {
+    const invalid: Partial<SchedulerSettings>[] = [
+      { algorithm: 'leitner' as SchedulerSettings['algorithm'] },
+      { desired_retention: NaN },
+      { maximum_interval_days: Infinity },
+      { fsrs_weights: DEFAULT_FSRS_WEIGHTS.slice(1) },
+      { fsrs_weights: DEFAULT_FSRS_WEIGHTS.map((weight, i) => (i === 4 ? NaN : weight)) }
+    ]
+    for (const settings of invalid) {
+      expect(() => spacedRepetitionEngine.configureScheduler('learner-1', settings)).toThrow(SchedulerSettingsError)
+    }
+    expect(spacedRepetitionEngine.getSchedulerSettings('learner-1').algorithm).toBe('fsrs')
+  })
+
+  it('clamps retention and ignores fields callers do not own', () => {
+    const settings = spacedRepetitionEngine.configureScheduler('learner-2', {
+      algorithm: 'sm2',
+      desired_retention: 0.5,
+      optimization: { review_count: 9999 }
+    } as Partial<SchedulerSettings>)
+    expect(settings).toMatchObject({ algorithm: 'sm2', desired_retention: 0.7 })
+    expect(settings.optimization).toBeUndefined()
+  })
+})
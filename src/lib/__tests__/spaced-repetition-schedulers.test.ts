@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_FSRS_WEIGHTS,
+  fsrsInterval,
+  fsrsRetrievability,
+  fsrsReview,
+  sm2Review,
+  type FSRSCardState
+} from '@/lib/spaced-repetition-schedulers'
+
+const w = DEFAULT_FSRS_WEIGHTS
+
+describe('FSRS-5', () => {
+  it('defines stability as the interval at 90% retention', () => {
+    expect(fsrsRetrievability(10, 10)).toBeCloseTo(0.9, 10)
+    expect(fsrsInterval(10, 0.9, 365)).toBe(10)
+    // t = S / (19/81) × (R^(1/-0.5) - 1) = 10 × 81/19 × 0.5625 = 23.98
+    expect(fsrsInterval(10, 0.8, 365)).toBe(24)
+    expect(fsrsInterval(1000, 0.9, 365)).toBe(365)
+  })
+
+  it('starts new cards from the default weights', () => {
+    // S0 = w[G-1]; D0 = w4 - e^(w5 (G - 1)) + 1
+    expect(fsrsReview(w, null, 0, 1)).toMatchObject({ stability: 0.40255, difficulty: 7.1949 })
+    expect(fsrsReview(w, null, 0, 3).stability).toBe(3.173)
+    expect(fsrsReview(w, null, 0, 3).difficulty).toBeCloseTo(5.28243, 5)
+    expect(fsrsReview(w, null, 0, 4).difficulty).toBeCloseTo(3.22450, 5)
+  })
+
+  it('matches reference intervals for a card answered Good at each due date, then forgotten', () => {
+    // Reference values from an independent implementation of the FSRS-5 formulas with the default weights
+    const expected = [
+      { stability: 10.7389, difficulty: 5.2730, retrievability: 0.9047, interval: 11 },
+      { stability: 34.5776, difficulty: 5.2635, retrievability: 0.8979, interval: 35 },
+      { stability: 100.7483, difficulty: 5.2542, retrievability: 0.8990, interval: 101 }
+    ]
+
+    let state: FSRSCardState = fsrsReview(w, null, 0, 3)
+    let interval = fsrsInterval(state.stability, 0.9, 36500)
+    expect(interval).toBe(3)
+    for (const step of expected) {
+      const next = fsrsReview(w, state, interval, 3)
+      interval = fsrsInterval(next.stability, 0.9, 36500)
+      expect(next.stability).toBeCloseTo(step.stability, 3)
+      expect(next.difficulty).toBeCloseTo(step.difficulty, 3)
+      expect(next.retrievability).toBeCloseTo(step.retrievability, 3)
+      expect(interval).toBe(step.interval)
+      state = next
+    }
+
+    const lapse = fsrsReview(w, state, interval, 1)
+    expect(lapse.stability).toBeCloseTo(5.9430, 3)
+    expect(lapse.difficulty).toBeCloseTo(6.7779, 3)
+    expect(fsrsInterval(lapse.stability, 0.9, 36500)).toBe(6)
+  })
+})
+
+describe('SM-2', () => {
+  it('follows the original interval sequence', () => {
+    const parameters = { initial_easiness: 2.5, min_easiness: 1.3, max_easiness: 2.5, first_interval: 1, second_interval: 6 }
+    const first = sm2Review(null, 3, parameters)
+    const second = sm2Review(first, 3, parameters)
+    const third = sm2Review(second, 3, parameters)
+    // Quality 4 leaves EF at 2.5: 1, 6, then round(6 × 2.5) = 15 days
+    expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15])
+    expect(third.easiness_factor).toBeCloseTo(2.5, 10)
+
+    const again = sm2Review(third, 1, parameters)
+    // Quality 1: EF' = 2.5 + 0.1 - 4 × (0.08 + 4 × 0.02) = 1.96, and the card restarts
+    expect(again).toMatchObject({ interval: 1, repetition_number: 0 })
+    expect(again.easiness_factor).toBeCloseTo(1.96, 10)
+  })
+})
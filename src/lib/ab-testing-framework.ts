@@ -4,6 +4,18 @@
 
 import type { UserProfile } from '@/types'
 import { modelComparisonEngine } from '@/lib/model-comparison-engine'
+import { EngineStateStore } from './engine-repository'
+import {
+  betaBinomialComparison,
+  cupedAdjustment,
+  mixtureSequentialTest,
+  sampleBeta,
+  sampleRatioMismatch,
+  type BayesianAnalysis,
+  type CupedAdjustment,
+  type SampleRatioMismatchCheck,
+  type SequentialAnalysis
+} from '@/lib/experiment-statistics'
 
 export interface ABTest {
   testId: string
@@ -202,6 +214,9 @@ export interface ABTestResults {
   // Recommendations
   recommendations: TestRecommendation[]
   
+  // Assignment health; null until every variant has enough expected traffic or when allocation is adaptive
+  sampleRatioMismatch?: SampleRatioMismatchCheck | null
+  
   // Meta Information
   analysisDate: Date
   sampleSize: number
@@ -229,6 +244,12 @@ export interface VariantComparison {
   // Practical Significance
   isPracticallySignificant: boolean
   practicalSignificanceThreshold: number
+  
+  // Which analysis isSignificant and pValue come from
+  decisionBasis: 'fixed_horizon' | 'sequential' | 'bayesian'
+  sequential?: SequentialAnalysis
+  bayesian?: BayesianAnalysis
+  cuped?: CupedAdjustment // present when enough users have pre-period engagement
 }
 
 export interface GoalResult {
@@ -406,6 +427,9 @@ export interface UserExperiment {
   
   // User context at assignment
   userContext: UserContext
+  
+  // Engagement before assignment, the CUPED covariate
+  preExperimentEngagement?: number
 }
 
 export interface ExposureEvent {
@@ -460,10 +484,68 @@ export interface LocationInfo {
   timezone?: string
 }
 
+// ==================================================================
+// ASSIGNMENT PRIMITIVES (shared with the feature-flag service)
+// ==================================================================
+
+function getNestedValue(obj: any, path: string): any {
+  return path.split('.').reduce((current, key) => current?.[key], obj)
+}
+
+export function evaluateSegmentCriterion(subject: any, criterion: SegmentCriteria): boolean {
+  const value = getNestedValue(subject, criterion.field)
+  
+  switch (criterion.operator) {
+    case 'equals':
+      return value === criterion.value
+    case 'not_equals':
+      return value !== criterion.value
+    case 'in':
+      return Array.isArray(criterion.value) && criterion.value.includes(value)
+    case 'not_in':
+      return Array.isArray(criterion.value) && !criterion.value.includes(value)
+    case 'contains':
+      return typeof value === 'string' && value.includes(criterion.value)
+    case 'greater_than':
+      return typeof value === 'number' && value > criterion.value
+    case 'less_than':
+      return typeof value === 'number' && value < criterion.value
+    case 'exists':
+      return value !== undefined && value !== null
+    default:
+      return false
+  }
+}
+
+// Every criterion must hold; an empty list matches everyone
+export function matchesSegmentCriteria(subject: any, criteria: SegmentCriteria[]): boolean {
+  return criteria.every(criterion => evaluateSegmentCriterion(subject, criterion))
+}
+
+// Deterministic, so the same key always lands in the same bucket
+export function hashAssignmentKey(input: string): number {
+  let hash = 0
+  for (let i = 0; i < input.length; i++) {
+    const char = input.charCodeAt(i)
+    hash = ((hash << 5) - hash) + char
+    hash = hash & hash // Convert to 32-bit integer
+  }
+  return Math.abs(hash)
+}
+
 class ABTestingFramework {
-  private tests: Map<string, ABTest> = new Map()
-  private userExperiments: Map<string, UserExperiment[]> = new Map()
-  private variantAssignments: Map<string, Map<string, string>> = new Map() // userId -> testId -> variantId
+  private store = new EngineStateStore('ab_testing')
+  private tests: Map<string, ABTest> = this.store.map('tests')
+  private userExperiments: Map<string, UserExperiment[]> = this.store.map('user_experiments')
+  private variantAssignments: Map<string, Record<string, string>> = this.store.map('variant_assignments') // userId -> testId -> variantId
+
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
   
   // Create a new A/B test
   async createTest(config: {
@@ -546,6 +628,7 @@ class ABTestingFramework {
     test.startDate = new Date()
     test.endDate = new Date(Date.now() + test.plannedDuration)
     test.updatedAt = new Date()
+    this.tests.set(testId, test)
     
     return true
   }
@@ -556,7 +639,8 @@ class ABTestingFramework {
     userId: string, 
     userProfile: UserProfile,
     sessionInfo: SessionInfo,
-    deviceInfo: DeviceInfo
+    deviceInfo: DeviceInfo,
+    preExperimentEngagement?: number
   ): Promise<string | null> {
     const test = this.tests.get(testId)
     if (!test || test.status !== 'running') {
@@ -564,9 +648,9 @@ class ABTestingFramework {
     }
     
     // Check if user is already assigned
-    const userTestAssignments = this.variantAssignments.get(userId) || new Map()
-    if (userTestAssignments.has(testId)) {
-      return userTestAssignments.get(testId)!
+    const userTestAssignments = this.variantAssignments.get(userId) || {}
+    if (userTestAssignments[testId]) {
+      return userTestAssignments[testId]
     }
     
     // Check if user matches target audience
@@ -588,8 +672,7 @@ class ABTestingFramework {
     const variantId = this.selectVariant(test, userId, userProfile)
     
     // Record assignment
-    userTestAssignments.set(testId, variantId)
-    this.variantAssignments.set(userId, userTestAssignments)
+    this.variantAssignments.set(userId, { ...userTestAssignments, [testId]: variantId })
     
     // Create user experiment record
     const userExperiment: UserExperiment = {
@@ -604,7 +687,8 @@ class ABTestingFramework {
         userProfile,
         sessionInfo,
         deviceInfo
-      }
+      },
+      preExperimentEngagement
     }
     
     const userExperiments = this.userExperiments.get(userId) || []
@@ -615,6 +699,7 @@ class ABTestingFramework {
     const variant = test.variants.find(v => v.variantId === variantId)
     if (variant) {
       variant.exposures++
+      this.tests.set(testId, test)
     }
     
     return variantId
@@ -640,6 +725,7 @@ class ABTestingFramework {
     }
     
     experiment.exposures.push(exposureEvent)
+    this.userExperiments.set(userId, userExperiments)
   }
   
   // Track conversion event
@@ -666,13 +752,15 @@ class ABTestingFramework {
     }
     
     experiment.conversions.push(conversionEvent)
+    this.userExperiments.set(userId, userExperiments)
     
-    // Update variant conversion count
-    const test = this.tests.get(testId)
+    // Variants count converted users, not conversion events, so their rate is a proportion
+    const test = experiment.conversions.length === 1 ? this.tests.get(testId) : undefined
     if (test) {
       const variant = test.variants.find(v => v.variantId === experiment.variantId)
       if (variant) {
         variant.conversions++
+        this.tests.set(testId, test)
       }
     }
   }
@@ -698,6 +786,7 @@ class ABTestingFramework {
     
     // Update variant metrics
     this.updateVariantMetric(variant, metricName, value)
+    this.tests.set(testId, test)
     
     // Track as custom event
     const customEvent: CustomEvent = {
@@ -712,6 +801,7 @@ class ABTestingFramework {
     }
     
     experiment.customEvents.push(customEvent)
+    this.userExperiments.set(userId, userExperiments)
   }
   
   // Analyze test results
@@ -721,6 +811,7 @@ class ABTestingFramework {
     
     // Check if we have enough data
     const totalExposures = test.variants.reduce((sum, v) => sum + v.exposures, 0)
+    const srm = this.checkSampleRatio(test)
     if (totalExposures < test.minimumSampleSize) {
       return {
         testId,
@@ -732,6 +823,7 @@ class ABTestingFramework {
         goalResults: [],
         statisticalAnalysis: this.createBasicStatisticalAnalysis(),
         recommendations: [],
+        sampleRatioMismatch: srm,
         analysisDate: new Date(),
         sampleSize: totalExposures,
         testDuration: test.startDate ? Date.now() - test.startDate.getTime() : 0
@@ -741,15 +833,15 @@ class ABTestingFramework {
     // Perform statistical analysis
     const variantComparisons = this.performVariantComparisons(test)
     const goalResults = this.analyzeGoals(test, variantComparisons)
-    const statisticalAnalysis = this.performStatisticalAnalysis(test, variantComparisons)
+    const statisticalAnalysis = this.performStatisticalAnalysis(test, variantComparisons, srm)
     
     // Determine overall result
     const primaryGoalResult = goalResults.find(r => r.goalId === test.primaryGoal.goalId)
-    const winningVariant = this.determineWinner(test, variantComparisons, goalResults)
+    const winningVariant = srm?.detected ? undefined : this.determineWinner(test, variantComparisons, goalResults)
     
     const results: ABTestResults = {
       testId,
-      status: this.determineTestStatus(test, variantComparisons, goalResults),
+      status: srm?.detected ? 'inconclusive' : this.determineTestStatus(test, variantComparisons, goalResults),
       winningVariant,
       confidence: primaryGoalResult?.confidence || 0,
       pValue: Math.min(...variantComparisons.map(c => c.pValue)),
@@ -757,7 +849,8 @@ class ABTestingFramework {
       variantComparisons,
       goalResults,
       statisticalAnalysis,
-      recommendations: this.generateRecommendations(test, variantComparisons, goalResults),
+      recommendations: this.generateRecommendations(test, variantComparisons, goalResults, srm),
+      sampleRatioMismatch: srm,
       analysisDate: new Date(),
       sampleSize: totalExposures,
       testDuration: test.startDate ? Date.now() - test.startDate.getTime() : 0
@@ -765,6 +858,7 @@ class ABTestingFramework {
     
     test.results = results
     test.updatedAt = new Date()
+    this.tests.set(testId, test)
     
     return results
   }
@@ -797,46 +891,11 @@ class ABTestingFramework {
   }
   
   private matchesAudience(userProfile: UserProfile, audience: AudienceSegment): boolean {
-    return audience.criteria.every(criterion => 
-      this.evaluateCriteria(userProfile, criterion)
-    )
+    return matchesSegmentCriteria(userProfile, audience.criteria)
   }
   
   private matchesExclusion(userProfile: UserProfile, exclusions: ExclusionCriteria[]): boolean {
-    return exclusions.some(exclusion => 
-      exclusion.criteria.every(criterion => 
-        this.evaluateCriteria(userProfile, criterion)
-      )
-    )
-  }
-  
-  private evaluateCriteria(userProfile: UserProfile, criterion: SegmentCriteria): boolean {
-    const value = this.getNestedValue(userProfile, criterion.field)
-    
-    switch (criterion.operator) {
-      case 'equals':
-        return value === criterion.value
-      case 'not_equals':
-        return value !== criterion.value
-      case 'in':
-        return Array.isArray(criterion.value) && criterion.value.includes(value)
-      case 'not_in':
-        return Array.isArray(criterion.value) && !criterion.value.includes(value)
-      case 'contains':
-        return typeof value === 'string' && value.includes(criterion.value)
-      case 'greater_than':
-        return typeof value === 'number' && value > criterion.value
-      case 'less_than':
-        return typeof value === 'number' && value < criterion.value
-      case 'exists':
-        return value !== undefined && value !== null
-      default:
-        return false
-    }
-  }
-  
-  private getNestedValue(obj: any, path: string): any {
-    return path.split('.').reduce((current, key) => current?.[key], obj)
+    return exclusions.some(exclusion => matchesSegmentCriteria(userProfile, exclusion.criteria))
   }
   
   private selectVariant(test: ABTest, userId: string, userProfile: UserProfile): string {
@@ -891,8 +950,7 @@ class ABTestingFramework {
       const alpha = 1 + successes
       const beta = 1 + failures
       
-      // Sample from Beta distribution (simplified)
-      return this.sampleBeta(alpha, beta)
+      return sampleBeta(alpha, beta)
     })
     
     // Select variant with highest sampled probability
@@ -926,19 +984,7 @@ class ABTestingFramework {
   }
   
   private hashUserId(input: string): number {
-    let hash = 0
-    for (let i = 0; i < input.length; i++) {
-      const char = input.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
-    }
-    return Math.abs(hash)
-  }
-  
-  private sampleBeta(alpha: number, beta: number): number {
-    // Simplified Beta distribution sampling
-    const x = Math.random()
-    return Math.pow(x, alpha - 1) * Math.pow(1 - x, beta - 1)
+    return hashAssignmentKey(input)
   }
   
   private updateVariantMetric(variant: TestVariant, metricName: string, value: number): void {
@@ -1021,25 +1067,71 @@ class ABTestingFramework {
     // Compare each treatment variant against control
     for (const variant of test.variants.filter(v => !v.isControl)) {
       // Compare conversion rates
-      const comparison = this.compareConversionRates(controlVariant, variant)
+      const comparison = this.compareConversionRates(test, controlVariant, variant)
       comparisons.push(comparison)
     }
     
     return comparisons
   }
   
-  private compareConversionRates(variantA: TestVariant, variantB: TestVariant): VariantComparison {
+  private compareConversionRates(test: ABTest, variantA: TestVariant, variantB: TestVariant): VariantComparison {
     const rateA = variantA.exposures > 0 ? variantA.conversions / variantA.exposures : 0
     const rateB = variantB.exposures > 0 ? variantB.conversions / variantB.exposures : 0
-    
-    const difference = rateB - rateA
-    const percentageChange = rateA > 0 ? (difference / rateA) * 100 : 0
+    const goal = test.primaryGoal
+    const confidenceLevel = goal.confidenceLevel || 0.95
     
     // Perform z-test for proportions
-    const { pValue, confidenceInterval, zScore } = this.zTestProportions(
+    let { pValue, confidenceInterval } = this.zTestProportions(
       variantA.conversions, variantA.exposures,
       variantB.conversions, variantB.exposures
     )
+    let difference = rateB - rateA
+    let sampleVariance = (variantA.exposures > 0 ? rateA * (1 - rateA) / variantA.exposures : 0) +
+      (variantB.exposures > 0 ? rateB * (1 - rateB) / variantB.exposures : 0)
+    
+    // CUPED replaces the raw difference with the covariate-adjusted one when pre-period engagement is available
+    const cuped = cupedAdjustment(this.cupedObservations(test, variantA.variantId, variantB.variantId), 'pre_experiment_engagement', confidenceLevel)
+    if (cuped) {
+      difference = cuped.difference
+      sampleVariance = cuped.standardError * cuped.standardError
+      pValue = cuped.pValue
+      confidenceInterval = cuped.confidenceInterval
+    }
+    
+    const bayesian = betaBinomialComparison(
+      { conversions: variantA.conversions, exposures: variantA.exposures },
+      { conversions: variantB.conversions, exposures: variantB.exposures },
+      { direction: goal.direction }
+    )
+    
+    let decisionBasis: VariantComparison['decisionBasis'] = 'fixed_horizon'
+    let isSignificant = pValue < 1 - confidenceLevel
+    let sequential: SequentialAnalysis | undefined
+    
+    if (test.testType === 'sequential' || test.statisticalConfig.earlyStoppingRule?.enabled) {
+      // The mixture is centred on the smallest effect worth detecting, as a share of the baseline rate
+      const baseline = rateA || goal.expectedBaseline || 0.1
+      const tau = baseline * (goal.minimumDetectableEffect / 100)
+      const previous = test.results?.variantComparisons.find(c => c.variantB === variantB.variantId)?.sequential
+      sequential = mixtureSequentialTest(
+        difference,
+        sampleVariance,
+        tau * tau,
+        test.statisticalConfig.earlyStoppingRule?.efficacyBoundary ?? 1 - confidenceLevel,
+        previous
+      )
+      decisionBasis = 'sequential'
+      pValue = sequential.alwaysValidPValue
+      confidenceInterval = sequential.confidenceInterval
+      isSignificant = sequential.boundaryCrossed
+    }
+    
+    if (test.statisticalConfig.method === 'bayesian') {
+      decisionBasis = 'bayesian'
+      isSignificant = Math.max(bayesian.probabilityToBeatControl, 1 - bayesian.probabilityToBeatControl) >= confidenceLevel
+    }
+    
+    const percentageChange = rateA > 0 ? (difference / rateA) * 100 : 0
     
     // Calculate effect sizes
     const cohensD = this.calculateCohensD(rateA, rateB, variantA.exposures, variantB.exposures)
@@ -1049,20 +1141,55 @@ class ABTestingFramework {
       variantA: variantA.variantId,
       variantB: variantB.variantId,
       metric: 'conversion_rate',
-      meanA: rateA,
-      meanB: rateB,
+      meanA: cuped ? cuped.adjustedMeanA : rateA,
+      meanB: cuped ? cuped.adjustedMeanB : rateB,
       difference,
       percentageChange,
       confidenceInterval,
       pValue,
-      isSignificant: pValue < 0.05,
+      isSignificant,
       cohensD,
       hedgesG,
       isPracticallySignificant: Math.abs(percentageChange) > 5, // 5% threshold
-      practicalSignificanceThreshold: 5
+      practicalSignificanceThreshold: 5,
+      decisionBasis,
+      sequential,
+      bayesian,
+      cuped: cuped || undefined
     }
   }
   
+  // Per-user outcomes for the two arms, with pre-period engagement as the covariate. The outcome is
+  // whether the user converted (0/1), so the adjusted means are conversion rates like the z-test's.
+  private cupedObservations(test: ABTest, controlId: string, treatmentId: string) {
+    const observations: Array<{ arm: 'control' | 'treatment'; outcome: number; covariate?: number }> = []
+    for (const experiments of this.userExperiments.values()) {
+      for (const experiment of experiments) {
+        if (experiment.testId !== test.testId) continue
+        if (experiment.variantId !== controlId && experiment.variantId !== treatmentId) continue
+        observations.push({
+          arm: experiment.variantId === controlId ? 'control' : 'treatment',
+          outcome: experiment.conversions.length > 0 ? 1 : 0,
+          covariate: experiment.preExperimentEngagement
+        })
+      }
+    }
+    return observations
+  }
+  
+  // Adaptive and bandit allocation move traffic on purpose, so only fixed splits can mismatch
+  private checkSampleRatio(test: ABTest): SampleRatioMismatchCheck | null {
+    const strategy = test.trafficAllocation.strategy
+    if (strategy === 'adaptive' || strategy === 'bandit' || test.testType === 'multi_armed_bandit') return null
+    
+    const activeVariants = test.variants.filter(v => v.isActive)
+    return sampleRatioMismatch(activeVariants.map(variant => ({
+      variantId: variant.variantId,
+      count: variant.exposures,
+      expectedShare: strategy === 'equal' ? 1 : variant.trafficWeight
+    })))
+  }
+  
   private zTestProportions(
     x1: number, n1: number,
     x2: number, n2: number
@@ -1169,7 +1296,9 @@ class ABTestingFramework {
       status,
       actualEffect,
       expectedEffect: goal.minimumDetectableEffect,
-      confidence: 1 - comparison.pValue,
+      confidence: comparison.decisionBasis === 'bayesian' && comparison.bayesian
+        ? Math.max(comparison.bayesian.probabilityToBeatControl, 1 - comparison.bayesian.probabilityToBeatControl)
+        : 1 - comparison.pValue,
       bestVariant: comparison.meanB > comparison.meanA ? comparison.variantB : comparison.variantA,
       improvement: comparison.percentageChange,
       testStatistic: 0, // Would be calculated based on test type
@@ -1177,17 +1306,21 @@ class ABTestingFramework {
     }
   }
   
-  private performStatisticalAnalysis(test: ABTest, comparisons: VariantComparison[]): StatisticalAnalysis {
+  private performStatisticalAnalysis(
+    test: ABTest,
+    comparisons: VariantComparison[],
+    srm: SampleRatioMismatchCheck | null
+  ): StatisticalAnalysis {
     return {
       method: test.statisticalConfig.method,
-      assumptions: this.checkAssumptions(test),
+      assumptions: this.checkAssumptions(test, srm),
       powerAnalysis: this.performPowerAnalysis(test, comparisons),
-      dataQuality: this.assessDataQuality(test),
-      biasAssessment: this.assessBias(test)
+      dataQuality: this.assessDataQuality(test, srm),
+      biasAssessment: this.assessBias(test, srm)
     }
   }
   
-  private checkAssumptions(test: ABTest): AssumptionCheck[] {
+  private checkAssumptions(test: ABTest, srm: SampleRatioMismatchCheck | null): AssumptionCheck[] {
     const checks: AssumptionCheck[] = []
     
     // Check sample size adequacy
@@ -1207,6 +1340,18 @@ class ABTestingFramework {
       details: 'Users randomly assigned to variants'
     })
     
+    if (srm) {
+      checks.push({
+        assumption: 'Configured Traffic Split',
+        test: 'Sample Ratio Mismatch (chi-square)',
+        result: srm.detected ? 'failed' : 'passed',
+        pValue: srm.pValue,
+        details: srm.variants
+          .map(v => `${v.variantId}: ${(v.observedShare * 100).toFixed(1)}% observed vs ${(v.expectedShare * 100).toFixed(1)}% expected`)
+          .join(', ')
+      })
+    }
+    
     return checks
   }
   
@@ -1255,22 +1400,40 @@ class ABTestingFramework {
     return Math.ceil(numerator / denominator)
   }
   
-  private assessDataQuality(test: ABTest): DataQualityMetrics {
+  private assessDataQuality(test: ABTest, srm: SampleRatioMismatchCheck | null): DataQualityMetrics {
     const totalExposures = test.variants.reduce((sum, v) => sum + v.exposures, 0)
     const totalConversions = test.variants.reduce((sum, v) => sum + v.conversions, 0)
+    const issues: DataQualityIssue[] = []
+    
+    if (srm?.detected) {
+      issues.push({
+        type: 'inconsistent',
+        severity: 'critical',
+        description: `Sample ratio mismatch: assignment counts deviate from the configured split (p=${srm.pValue.toExponential(2)})`,
+        affectedRecords: totalExposures,
+        recommendation: 'Check assignment, bot filtering and exposure logging before trusting any comparison'
+      })
+    }
     
     return {
       completeness: totalExposures > 0 ? 1.0 : 0.0, // Simplified
-      consistency: 1.0, // Assume consistent data collection
+      consistency: srm?.detected ? 0.5 : 1.0,
       timeliness: 1.0, // Assume real-time data
       validity: totalConversions <= totalExposures ? 1.0 : 0.8,
-      issues: []
+      issues
     }
   }
   
-  private assessBias(test: ABTest): BiasAssessment {
+  private assessBias(test: ABTest, srm: SampleRatioMismatchCheck | null): BiasAssessment {
     return {
-      selectionBias: { detected: false, severity: 'low', evidence: [], mitigation: [] },
+      selectionBias: srm?.detected
+        ? {
+          detected: true,
+          severity: 'high',
+          evidence: srm.variants.map(v => `${v.variantId}: ${v.count} users, ${(v.observedShare * 100).toFixed(1)}% vs ${(v.expectedShare * 100).toFixed(1)}% expected`),
+          mitigation: ['Audit assignment and logging', 'Restart the test once the cause is fixed']
+        }
+        : { detected: false, severity: 'low', evidence: [], mitigation: [] },
       survivorshipBias: { detected: false, severity: 'low', evidence: [], mitigation: [] },
       confirmationBias: { detected: false, severity: 'low', evidence: [], mitigation: [] },
       noveltyEffect: { detected: false, severity: 'low', evidence: [], mitigation: [] },
@@ -1314,14 +1477,55 @@ class ABTestingFramework {
   private generateRecommendations(
     test: ABTest,
     comparisons: VariantComparison[],
-    goalResults: GoalResult[]
+    goalResults: GoalResult[],
+    srm: SampleRatioMismatchCheck | null
   ): TestRecommendation[] {
     const recommendations: TestRecommendation[] = []
     
     const primaryGoalResult = goalResults.find(r => r.goalId === test.primaryGoal.goalId)
     const primaryComparison = comparisons[0]
     
+    if (srm?.detected) {
+      recommendations.push({
+        type: 'investigate',
+        priority: 'high',
+        title: 'Investigate Sample Ratio Mismatch',
+        description: 'Traffic is not splitting as configured, so the results are not trustworthy',
+        reasoning: [
+          `Chi-square ${srm.chiSquare.toFixed(2)} on ${srm.degreesOfFreedom} df, p=${srm.pValue.toExponential(2)}`,
+          ...srm.variants.map(v => `${v.variantId}: ${(v.observedShare * 100).toFixed(1)}% observed vs ${(v.expectedShare * 100).toFixed(1)}% expected`)
+        ],
+        suggestedActions: [
+          {
+            action: 'Audit assignment and exposure logging',
+            description: 'Look for redirects, bot traffic, caching or variants that crash before logging',
+            effort: 'medium',
+            timeline: '1-3 days',
+            prerequisites: []
+          }
+        ],
+        estimatedImpact: {
+          metric: test.primaryGoal.name,
+          currentValue: primaryComparison?.meanA || 0,
+          projectedValue: primaryComparison?.meanA || 0,
+          improvement: 0,
+          confidence: 1 - srm.pValue
+        },
+        risks: [
+          {
+            risk: 'Shipping a variant on biased results',
+            probability: 0.5,
+            impact: 'high',
+            mitigation: 'Hold launch decisions until the split is healthy'
+          }
+        ],
+        confidence: 1 - srm.pValue
+      })
+      return recommendations
+    }
+    
     if (primaryGoalResult && primaryComparison) {
+      const futile = this.isFutile(test, primaryComparison)
       if (primaryGoalResult.status === 'met' && primaryComparison.isSignificant) {
         recommendations.push({
           type: 'launch',
@@ -1330,7 +1534,7 @@ class ABTestingFramework {
           description: `Variant ${primaryGoalResult.bestVariant} shows significant improvement`,
           reasoning: [
             `${primaryGoalResult.improvement.toFixed(2)}% improvement in primary goal`,
-            `Statistical significance achieved (p=${primaryComparison.pValue.toFixed(4)})`,
+            this.describeEvidence(primaryComparison),
             `Effect size: ${primaryComparison.cohensD.toFixed(3)}`
           ],
           suggestedActions: [
@@ -1359,6 +1563,36 @@ class ABTestingFramework {
           ],
           confidence: primaryGoalResult.confidence
         })
+      } else if (futile) {
+        recommendations.push({
+          type: 'stop',
+          priority: 'medium',
+          title: 'Stop Test for Futility',
+          description: 'The always-valid interval rules out an effect as large as the minimum detectable effect',
+          reasoning: [
+            `Confidence interval for the difference: [${primaryComparison.confidenceInterval[0].toFixed(4)}, ${primaryComparison.confidenceInterval[1].toFixed(4)}]`,
+            `Minimum detectable effect: ${test.primaryGoal.minimumDetectableEffect}%`,
+            'More traffic is unlikely to change the decision'
+          ],
+          suggestedActions: [
+            {
+              action: 'Stop the test and keep the control',
+              description: 'Free the traffic for the next experiment',
+              effort: 'low',
+              timeline: 'Immediate',
+              prerequisites: []
+            }
+          ],
+          estimatedImpact: {
+            metric: test.primaryGoal.name,
+            currentValue: primaryComparison.meanA,
+            projectedValue: primaryComparison.meanB,
+            improvement: primaryGoalResult.improvement,
+            confidence: 1 - (primaryComparison.sequential?.alpha || 0.05)
+          },
+          risks: [],
+          confidence: 1 - (primaryComparison.sequential?.alpha || 0.05)
+        })
       } else {
         recommendations.push({
           type: 'continue',
@@ -1395,6 +1629,30 @@ class ABTestingFramework {
     return recommendations
   }
   
+  private describeEvidence(comparison: VariantComparison): string {
+    switch (comparison.decisionBasis) {
+      case 'bayesian':
+        return `Probability to beat control: ${((comparison.bayesian?.probabilityToBeatControl || 0) * 100).toFixed(1)}%`
+      case 'sequential':
+        return `Sequential boundary crossed after ${comparison.sequential?.looks || 1} looks (always-valid p=${comparison.pValue.toFixed(4)})`
+      default:
+        return `Statistical significance achieved (p=${comparison.pValue.toFixed(4)})`
+    }
+  }
+  
+  // Sequential tests can stop early once the interval excludes every effect worth shipping
+  private isFutile(test: ABTest, comparison: VariantComparison): boolean {
+    if (comparison.decisionBasis !== 'sequential' || comparison.isSignificant) return false
+    const rule = test.statisticalConfig.earlyStoppingRule
+    const sampleSize = test.variants.reduce((sum, v) => sum + v.exposures, 0)
+    if (rule && sampleSize < rule.minimumSampleSize) return false
+    
+    const baseline = comparison.meanA || test.primaryGoal.expectedBaseline || 0.1
+    const threshold = baseline * (test.primaryGoal.minimumDetectableEffect / 100)
+    const [lower, upper] = comparison.confidenceInterval
+    return lower > -threshold && upper < threshold
+  }
+  
   private createBasicStatisticalAnalysis(): StatisticalAnalysis {
     return {
       method: 'frequentist',
@@ -1435,7 +1693,7 @@ class ABTestingFramework {
   
   // Get user assignments
   getUserAssignments(userId: string): Map<string, string> {
-    return this.variantAssignments.get(userId) || new Map()
+    return new Map(Object.entries(this.variantAssignments.get(userId) || {}))
   }
   
   // Get user experiments
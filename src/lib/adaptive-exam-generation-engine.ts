@@ -1,6 +1,23 @@
 'use client'
 
 import { multiModelAI } from './multi-model-ai'
+import { EngineStateStore } from './engine-repository'
+import {
+  calibrateItems,
+  estimateAbility,
+  selectMaximumInformationItem,
+  logistic,
+  logit,
+  DEFAULT_ITEM_PARAMETERS,
+  DEFAULT_EXPOSURE_CONTROL,
+  MIN_SITTINGS_FOR_3PL,
+  type IrtExposureControl,
+  type IrtItemParameters,
+  type IrtModel,
+  type IrtResponsePattern
+} from './item-response-theory'
+import { analyzeItems, type ItemAnalysisReport } from './item-analysis'
+import type { QtiImportResult, QtiImportSource, QtiPackageFile, QtiVersion } from './qti-interchange'
 
 // Types for adaptive exam generation system
 export interface ExamRequirements {
@@ -62,7 +79,7 @@ export interface QuestionItem {
     objective_id: string
     subject_tags: string[]
     prerequisite_knowledge: string[]
-    discrimination_index: number // statistical measure of question quality
+    discrimination_index: number // IRT discrimination (a), provisional until calibrated from responses
     cognitive_load: number // 1-5 scale
   }
   scoring: {
@@ -114,10 +131,11 @@ export interface AdaptiveExam {
     difficulty_adjustment_factor: number
     confidence_threshold: number
     termination_criteria: Array<{
-      type: 'fixed_questions' | 'time_limit' | 'confidence_reached' | 'difficulty_plateau'
+      type: 'fixed_questions' | 'time_limit' | 'confidence_reached' | 'difficulty_plateau' | 'standard_error'
       value: number
     }>
     question_selection_algorithm: 'irt' | 'content_balanced' | 'adaptive_weighted' | 'difficulty_spiral'
+    exposure_control?: IrtExposureControl
     branching_rules: Array<{
       condition: string
       action: string
@@ -127,10 +145,10 @@ export interface AdaptiveExam {
   calibration_data: {
     difficulty_calibration: Array<{
       question_id: string
-      calibrated_difficulty: number
+      calibrated_difficulty: number // logistic of the IRT difficulty (b), 0.5 = b of 0
       discrimination: number
       guessing_parameter: number
-      reliability_score: number
+      reliability_score: number // precision of the difficulty estimate, 0 while provisional
     }>
     content_coverage: Array<{
       objective_id: string
@@ -154,12 +172,20 @@ export interface AdaptiveExam {
   version: string
 }
 
+export type ExamTerminationReason =
+  | AdaptiveExam['adaptive_configuration']['termination_criteria'][0]['type']
+  | 'item_pool_exhausted'
+  | 'ended_early'
+
 export interface ExamSession {
   session_id: string
   exam_id: string
   learner_id: string
+  learner_group?: string // reporting group for differential item functioning
   started_at: Date
   current_question_index: number
+  administered_questions: string[] // in order, including one still awaiting a response
+  prior_theta: number // starting ability, the prior mean of the EAP estimate
   responses: Array<{
     question_id: string
     response: any
@@ -170,9 +196,11 @@ export interface ExamSession {
     timestamp: Date
   }>
   current_state: {
-    estimated_ability: number
-    confidence_level: number
-    difficulty_trend: number[]
+    estimated_ability: number // theta on the 0-1 scale (logistic)
+    confidence_level: number // 1 - SE², the reliability of the current estimate
+    theta: number
+    standard_error: number
+    difficulty_trend: number[] // theta after each response
     performance_indicators: {
       accuracy_rate: number
       avg_response_time: number
@@ -194,6 +222,7 @@ export interface ExamSession {
     timestamp: Date
   }>
   completion_status: 'in_progress' | 'completed' | 'abandoned' | 'terminated'
+  termination_reason?: ExamTerminationReason
   final_results?: ExamResults
 }
 
@@ -208,6 +237,9 @@ export interface ExamResults {
     percentage_score: number
     estimated_ability: number
     confidence_interval: [number, number]
+    theta: number
+    standard_error: number
+    termination_reason: ExamTerminationReason
     performance_level: 'below_basic' | 'basic' | 'proficient' | 'advanced' | 'expert'
   }
   objective_breakdown: Array<{
@@ -281,6 +313,7 @@ export interface DifficultyCalibration {
       difficulty: number
       guessing: number
     }
+    standard_errors?: IrtItemParameters
     performance_data: {
       total_attempts: number
       correct_responses: number
@@ -299,15 +332,68 @@ export interface DifficultyCalibration {
     convergence_achieved: boolean
     standard_error: number
     confidence_level: number
+    model?: IrtModel
+    log_likelihood?: number
+    iterations?: number
   }
 }
 
+// Responses gathered outside exam sessions (e.g. a paper administration) for calibration
+export interface ExternalItemResponse {
+  question_id: string
+  learner_id?: string // groups responses into one examinee's pattern
+  response_correct: boolean
+  response_time?: number
+}
+
+export interface ExamItemAnalysis extends ItemAnalysisReport {
+  scope: 'exam' | 'question_bank'
+  scope_id: string
+}
+
+interface ItemExposure {
+  sittings: number
+  administered: Record<string, number>
+}
+
+// Cut points on theta for the reported performance level
+const PERFORMANCE_LEVEL_CUTS: Array<[number, ExamResults['overall_performance']['performance_level']]> = [
+  [1.25, 'expert'],
+  [0.5, 'advanced'],
+  [-0.25, 'proficient'],
+  [-1, 'basic']
+]
+
+// Sittings before per-question exposure rates are meaningful enough to enforce the ceiling
+const EXPOSURE_CONTROL_MIN_SITTINGS = 20
+
+// Target standard error of theta by assessment purpose: high-stakes sittings run longer
+const TARGET_STANDARD_ERROR: Record<ExamRequirements['assessment_purpose'], number> = {
+  certification: 0.25,
+  summative: 0.3,
+  placement: 0.3,
+  diagnostic: 0.35,
+  formative: 0.4,
+  practice: 0.45
+}
+
 // Main Adaptive Exam Generation Engine
 export class AdaptiveExamGenerationEngine {
-  private examCache = new Map<string, AdaptiveExam>()
-  private sessionCache = new Map<string, ExamSession>()
-  private calibrationData = new Map<string, DifficultyCalibration>()
-  private questionPool = new Map<string, QuestionItem[]>()
+  private store = new EngineStateStore('adaptive_exams')
+  private examCache: Map<string, AdaptiveExam> = this.store.map('exams')
+  private sessionCache: Map<string, ExamSession> = this.store.map('sessions')
+  private calibrationData: Map<string, DifficultyCalibration> = this.store.map('calibrations')
+  private questionPool: Map<string, QuestionItem[]> = this.store.map('question_pools')
+  private exposure: Map<string, ItemExposure> = this.store.map('item_exposure')
+
+  // Persistence
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
   
   // Generate adaptive exam based on requirements
   async generateAdaptiveExam(requirements: ExamRequirements): Promise<AdaptiveExam> {
@@ -318,7 +404,7 @@ export class AdaptiveExamGenerationEngine {
       const questionPool = await this.generateQuestionPool(requirements)
       
       // Calibrate question difficulties
-      const calibrationData = await this.calibrateQuestionDifficulties(questionPool, requirements)
+      const calibrationData = this.calibrateQuestionDifficulties(questionPool, requirements)
       
       // Select and sequence questions
       const selectedQuestions = await this.selectOptimalQuestions(
@@ -478,54 +564,30 @@ export class AdaptiveExamGenerationEngine {
     }
   }
   
-  // Calibrate question difficulties using IRT or other methods
-  private async calibrateQuestionDifficulties(
+  // Starting IRT parameters: the latest calibration from responses (or an imported item bank),
+  // otherwise provisional values from the authored difficulty until enough responses come in
+  private calibrateQuestionDifficulties(
     questions: QuestionItem[],
     requirements: ExamRequirements
-  ): Promise<AdaptiveExam['calibration_data']> {
-    // In a real implementation, this would use historical response data
-    // For now, use AI-powered estimation with statistical modeling
-    
-    const calibrationPrompt = `
-      Calibrate the difficulty and discrimination parameters for these assessment questions:
-      
-      Questions: ${JSON.stringify(questions.map(q => ({
-        id: q.question_id,
-        text: q.content.question_text,
-        type: q.question_type,
-        estimated_difficulty: q.metadata.difficulty_level
-      })))}
-      
-      For each question, estimate:
-      1. Calibrated difficulty (0-1 scale, where 0.5 = 50% of target learners answer correctly)
-      2. Discrimination index (0-2, where higher = better differentiation between abilities)
-      3. Guessing parameter (0-1, probability of correct guess)
-      4. Reliability score (0-1, consistency measure)
-      
-      Consider:
-      - Question complexity and cognitive load
-      - Target audience ability level
-      - Subject domain characteristics
-      - Question type characteristics
-      
-      Return calibration data as structured JSON.
-    `
-    
-    try {
-      const calibrationResult = await multiModelAI.generateContent({
-        context: calibrationPrompt,
-        useCase: 'general_tutoring',
-        userProfile: { age_group: 'adult', level: 'intermediate', subject: 'assessment', use_case: 'general_tutoring' } as any,
-        requestType: 'content',
-        priority: 'medium',
-        temperature: 0.2
-      })
-      
-      return this.parseCalibrationData(calibrationResult.content, questions, requirements)
-      
-    } catch (error) {
-      console.error('Question calibration failed:', error)
-      return this.generateFallbackCalibration(questions, requirements)
+  ): AdaptiveExam['calibration_data'] {
+    const latest = this.latestCalibrationResults(questions.map(q => q.question_id))
+
+    return {
+      difficulty_calibration: questions.map(q => {
+        const calibrated = latest.get(q.question_id)
+        const parameters = calibrated ? calibrated.irt_parameters : this.provisionalParameters(q)
+        return this.calibrationEntry(q.question_id, parameters, calibrated?.standard_errors)
+      }),
+      content_coverage: requirements.learning_objectives.map(obj => ({
+        objective_id: obj.objective_id,
+        coverage_percentage: obj.weight * 100,
+        question_distribution: [obj.weight * questions.length]
+      })),
+      timing_estimates: [
+        { difficulty_level: 3, avg_time_seconds: 90, time_variance: 30 },
+        { difficulty_level: 5, avg_time_seconds: 120, time_variance: 40 },
+        { difficulty_level: 7, avg_time_seconds: 180, time_variance: 60 }
+      ]
     }
   }
   
@@ -582,11 +644,12 @@ export class AdaptiveExamGenerationEngine {
       difficulty_adjustment_factor: 0.3,
       confidence_threshold: 0.85,
       termination_criteria: [
+        { type: 'standard_error', value: TARGET_STANDARD_ERROR[requirements.assessment_purpose] },
         { type: 'fixed_questions', value: requirements.constraints.total_questions },
-        { type: 'time_limit', value: requirements.constraints.time_limit_minutes * 60 },
-        { type: 'confidence_reached', value: 0.95 }
+        { type: 'time_limit', value: requirements.constraints.time_limit_minutes * 60 }
       ],
-      question_selection_algorithm: 'adaptive_weighted',
+      question_selection_algorithm: 'irt',
+      exposure_control: { ...DEFAULT_EXPOSURE_CONTROL },
       branching_rules: [
         {
           condition: 'consecutive_correct >= 3',
@@ -664,7 +727,8 @@ export class AdaptiveExamGenerationEngine {
   async startExamSession(
     examId: string,
     learnerId: string,
-    initialAbility?: number
+    initialAbility?: number,
+    learnerGroup?: string
   ): Promise<ExamSession> {
     const exam = this.examCache.get(examId)
     if (!exam) {
@@ -672,17 +736,23 @@ export class AdaptiveExamGenerationEngine {
     }
     
     const sessionId = `session_${examId}_${learnerId}_${Date.now()}`
+    const startingAbility = initialAbility ?? exam.adaptive_configuration.initial_difficulty
     
     const session: ExamSession = {
       session_id: sessionId,
       exam_id: examId,
       learner_id: learnerId,
+      learner_group: learnerGroup,
       started_at: new Date(),
       current_question_index: 0,
+      administered_questions: [],
+      prior_theta: logit(startingAbility),
       responses: [],
       current_state: {
-        estimated_ability: initialAbility || exam.adaptive_configuration.initial_difficulty,
-        confidence_level: 0.5,
+        estimated_ability: startingAbility,
+        confidence_level: 0,
+        theta: logit(startingAbility),
+        standard_error: 1,
         difficulty_trend: [],
         performance_indicators: {
           accuracy_rate: 0,
@@ -690,7 +760,7 @@ export class AdaptiveExamGenerationEngine {
           consistency_score: 0
         },
         next_question_prediction: {
-          recommended_difficulty: initialAbility || exam.adaptive_configuration.initial_difficulty,
+          recommended_difficulty: startingAbility,
           question_type_preference: exam.requirements.constraints.question_types[0],
           objective_focus: exam.requirements.learning_objectives[0].objective_id
         }
@@ -699,18 +769,25 @@ export class AdaptiveExamGenerationEngine {
       completion_status: 'in_progress'
     }
     
+    const exposure = this.exposure.get(examId) || { sittings: 0, administered: {} }
+    this.exposure.set(examId, { ...exposure, sittings: exposure.sittings + 1 })
+    
     this.sessionCache.set(sessionId, session)
     return session
   }
   
-  // Get next question for adaptive session
+  // Get next question for adaptive session: re-estimate theta, then either stop or pick the most
+  // informative question at that ability. question is null once a stopping rule is met.
   async getNextQuestion(sessionId: string): Promise<{
-    question: QuestionItem
+    question: QuestionItem | null
     adaptive_context: {
       current_difficulty: number
       confidence_level: number
+      theta: number
+      standard_error: number
       questions_remaining: number
       estimated_time_remaining: number
+      stop_reason: ExamTerminationReason | null
     }
   }> {
     const session = this.sessionCache.get(sessionId)
@@ -723,14 +800,34 @@ export class AdaptiveExamGenerationEngine {
       throw new Error(`Exam ${session.exam_id} not found`)
     }
     
-    // Select next question based on adaptive algorithm
-    const nextQuestion = await this.selectNextQuestion(session, exam)
+    if (session.completion_status !== 'in_progress') {
+      throw new Error(`Session ${sessionId} is ${session.completion_status}`)
+    }
+    
+    this.updateAbilityEstimate(session, exam)
+    
+    // A question that was served but not answered yet is served again
+    const answered = new Set(session.responses.map(r => r.question_id))
+    const pendingId = session.administered_questions.find(id => !answered.has(id))
+    let nextQuestion = pendingId ? exam.questions.find(q => q.question_id === pendingId) || null : null
+    let stopReason: ExamTerminationReason | null = null
+    
+    if (!nextQuestion) {
+      stopReason = this.checkStoppingRules(session, exam)
+      if (!stopReason) {
+        nextQuestion = this.selectNextQuestion(session, exam)
+        if (nextQuestion) {
+          this.recordAdministration(session, exam, nextQuestion)
+        } else {
+          stopReason = 'item_pool_exhausted'
+        }
+      }
+    }
     
-    // Update session state
-    session.current_question_index++
     this.sessionCache.set(sessionId, session)
     
-    const questionsRemaining = exam.questions.length - session.current_question_index
+    const maxQuestions = exam.adaptive_configuration.termination_criteria.find(c => c.type === 'fixed_questions')?.value ?? exam.questions.length
+    const questionsRemaining = stopReason ? 0 : Math.max(0, Math.min(maxQuestions, exam.questions.length) - session.administered_questions.length)
     const avgTimePerQuestion = exam.requirements.constraints.time_limit_minutes * 60 / exam.questions.length
     
     return {
@@ -738,8 +835,11 @@ export class AdaptiveExamGenerationEngine {
       adaptive_context: {
         current_difficulty: session.current_state.estimated_ability,
         confidence_level: session.current_state.confidence_level,
+        theta: session.current_state.theta,
+        standard_error: session.current_state.standard_error,
         questions_remaining: questionsRemaining,
-        estimated_time_remaining: questionsRemaining * avgTimePerQuestion
+        estimated_time_remaining: questionsRemaining * avgTimePerQuestion,
+        stop_reason: stopReason
       }
     }
   }
@@ -773,6 +873,10 @@ export class AdaptiveExamGenerationEngine {
       throw new Error(`Question ${questionId} not found`)
     }
     
+    if (session.responses.some(r => r.question_id === questionId)) {
+      throw new Error(`Question ${questionId} was already answered in session ${sessionId}`)
+    }
+    
     // Evaluate response
     const evaluation = this.evaluateResponse(question, response)
     
@@ -788,9 +892,12 @@ export class AdaptiveExamGenerationEngine {
     }
     
     session.responses.push(responseRecord)
+    if (!session.administered_questions.includes(questionId)) {
+      session.administered_questions.push(questionId)
+    }
     
     // Update ability estimation and make adaptive adjustments
-    const adaptiveUpdates = await this.updateAdaptiveState(session, evaluation, responseTime)
+    const adaptiveUpdates = await this.updateAdaptiveState(session, exam, evaluation, responseTime)
     
     // Update session cache
     this.sessionCache.set(sessionId, session)
@@ -804,7 +911,8 @@ export class AdaptiveExamGenerationEngine {
     }
   }
   
-  // Complete exam and generate results
+  // Complete exam and generate results. The session counts as completed when a stopping rule was
+  // met (target standard error, question limit, time limit...), otherwise as terminated early.
   async completeExam(sessionId: string): Promise<ExamResults> {
     const session = this.sessionCache.get(sessionId)
     if (!session) {
@@ -816,17 +924,147 @@ export class AdaptiveExamGenerationEngine {
       throw new Error(`Exam ${session.exam_id} not found`)
     }
     
+    this.updateAbilityEstimate(session, exam)
+    const terminationReason = this.checkStoppingRules(session, exam) || 'ended_early'
+    
     // Generate comprehensive results
-    const results = await this.generateExamResults(session, exam)
+    const results = await this.generateExamResults(session, exam, terminationReason)
     
     // Update session status
-    session.completion_status = 'completed'
+    session.completion_status = terminationReason === 'ended_early' ? 'terminated' : 'completed'
+    session.termination_reason = terminationReason
     session.final_results = results
     this.sessionCache.set(sessionId, session)
     
     return results
   }
   
+  // Calibrate 2PL/3PL parameters by marginal maximum likelihood from the responses stored with
+  // exam sessions plus any external responses. Only a calibration from stored sittings alone is applied to
+  // the exams using the questions; external responses cannot be checked, so they never move live parameters
+  async calibrateItemParameters(options: {
+    examId?: string
+    questions?: QuestionItem[]
+    responses?: ExternalItemResponse[]
+    model?: IrtModel
+  }): Promise<DifficultyCalibration> {
+    const exam = options.examId ? this.examCache.get(options.examId) : null
+    if (options.examId && !exam) {
+      throw new Error(`Exam ${options.examId} not found`)
+    }
+    
+    const questions = options.questions?.length ? options.questions : exam?.questions || []
+    if (questions.length === 0) {
+      throw new Error('No questions to calibrate')
+    }
+    
+    const questionIds = new Set(questions.map(q => q.question_id))
+    const scorable = new Set(questions.filter(q => this.isDichotomous(q)).map(q => q.question_id))
+    
+    // Every stored sitting is one response pattern; external responses are grouped by learner
+    const patterns: IrtResponsePattern[] = []
+    const responseTimes = new Map<string, number[]>()
+    const recordTime = (questionId: string, seconds?: number) => {
+      if (seconds === undefined) return
+      responseTimes.set(questionId, [...(responseTimes.get(questionId) || []), seconds])
+    }
+    
+    for (const session of this.sessionCache.values()) {
+      const responses = session.responses.filter(r => scorable.has(r.question_id) && r.is_correct !== undefined)
+      if (responses.length === 0) continue
+      responses.forEach(r => recordTime(r.question_id, r.response_time_seconds))
+      patterns.push({
+        person_id: session.session_id,
+        responses: responses.map(r => ({ item_id: r.question_id, correct: !!r.is_correct }))
+      })
+    }
+    
+    const external = new Map<string, IrtResponsePattern>()
+    ;(options.responses || []).forEach((r, index) => {
+      if (!questionIds.has(r.question_id)) return
+      const personId = r.learner_id ? `external_${r.learner_id}` : `external_response_${index}`
+      const pattern = external.get(personId) || { person_id: personId, responses: [] }
+      pattern.responses.push({ item_id: r.question_id, correct: !!r.response_correct })
+      external.set(personId, pattern)
+      recordTime(r.question_id, r.response_time)
+    })
+    patterns.push(...external.values())
+    
+    // Start from the current parameters so repeated calibrations converge quickly
+    const starting = this.latestCalibrationResults(Array.from(questionIds))
+    const initialParameters: Record<string, IrtItemParameters> = {}
+    const guessingPriors: Record<string, number> = {}
+    for (const question of questions) {
+      initialParameters[question.question_id] = starting.get(question.question_id)?.irt_parameters || this.provisionalParameters(question)
+      guessingPriors[question.question_id] = this.nominalGuessing(question)
+    }
+    
+    const model = options.model || (patterns.length >= MIN_SITTINGS_FOR_3PL ? '3PL' : '2PL')
+    const result = calibrateItems(patterns, {
+      model,
+      initial_parameters: initialParameters,
+      guessing_priors: guessingPriors
+    })
+    
+    const respondentAbilities = new Map<string, number[]>()
+    for (const pattern of patterns) {
+      const theta = result.abilities[pattern.person_id].theta
+      pattern.responses.forEach(r => {
+        respondentAbilities.set(r.item_id, [...(respondentAbilities.get(r.item_id) || []), theta])
+      })
+    }
+    
+    const calibratedItems = result.items.filter(item => item.calibrated)
+    const calibration: DifficultyCalibration = {
+      calibration_id: `calibration_${crypto.randomUUID()}`,
+      question_pool: questions,
+      calibration_results: result.items.map(item => {
+        const times = responseTimes.get(item.item_id) || []
+        const respondents = respondentAbilities.get(item.item_id) || []
+        return {
+          question_id: item.item_id,
+          statistical_difficulty: logistic(item.difficulty),
+          irt_parameters: {
+            discrimination: item.discrimination,
+            difficulty: item.difficulty,
+            guessing: item.guessing
+          },
+          standard_errors: item.calibrated ? item.standard_errors : undefined,
+          performance_data: {
+            total_attempts: item.responses,
+            correct_responses: item.correct,
+            avg_response_time: times.length > 0 ? times.reduce((sum, t) => sum + t, 0) / times.length : 0,
+            ability_range: respondents.length > 0
+              ? [Math.min(...respondents), Math.max(...respondents)] as [number, number]
+              : [0, 0] as [number, number]
+          },
+          quality_metrics: {
+            discrimination_index: item.discrimination,
+            point_biserial_correlation: item.point_biserial,
+            reliability_contribution: item.information_share
+          }
+        }
+      }),
+      calibration_metadata: {
+        sample_size: patterns.length,
+        ability_distribution: result.ability_distribution,
+        convergence_achieved: result.converged,
+        standard_error: calibratedItems.length > 0
+          ? calibratedItems.reduce((sum, item) => sum + item.standard_errors.difficulty, 0) / calibratedItems.length
+          : 0,
+        confidence_level: 0.95,
+        model: result.model,
+        log_likelihood: result.log_likelihood,
+        iterations: result.iterations
+      }
+    }
+    
+    this.calibrationData.set(calibration.calibration_id, calibration)
+    if (external.size === 0) this.applyCalibration(calibration)
+    
+    return calibration
+  }
+  
   // Utility methods for parsing responses
   private parseGeneratedQuestions(
     questionsData: string,
@@ -861,7 +1099,7 @@ export class AdaptiveExamGenerationEngine {
         objective_id: objective.objective_id,
         subject_tags: data.subject_tags || [],
         prerequisite_knowledge: objective.prerequisite_concepts,
-        discrimination_index: 1.2,
+        discrimination_index: DEFAULT_ITEM_PARAMETERS.discrimination,
         cognitive_load: 3
       },
       scoring: {
@@ -911,7 +1149,7 @@ export class AdaptiveExamGenerationEngine {
           objective_id: objective.objective_id,
           subject_tags: [requirements.subject_domain],
           prerequisite_knowledge: objective.prerequisite_concepts,
-          discrimination_index: 1.0,
+          discrimination_index: DEFAULT_ITEM_PARAMETERS.discrimination,
           cognitive_load: 3
         },
         scoring: {
@@ -940,44 +1178,6 @@ export class AdaptiveExamGenerationEngine {
     return []
   }
   
-  private parseCalibrationData(
-    calibrationResult: string,
-    questions: QuestionItem[],
-    requirements: ExamRequirements
-  ): AdaptiveExam['calibration_data'] {
-    try {
-      const parsed = JSON.parse(calibrationResult)
-      return parsed
-    } catch {
-      return this.generateFallbackCalibration(questions, requirements)
-    }
-  }
-  
-  private generateFallbackCalibration(
-    questions: QuestionItem[],
-    requirements: ExamRequirements
-  ): AdaptiveExam['calibration_data'] {
-    return {
-      difficulty_calibration: questions.map(q => ({
-        question_id: q.question_id,
-        calibrated_difficulty: q.metadata.difficulty_level / 10,
-        discrimination: 1.2,
-        guessing_parameter: 0.25,
-        reliability_score: 0.8
-      })),
-      content_coverage: requirements.learning_objectives.map(obj => ({
-        objective_id: obj.objective_id,
-        coverage_percentage: obj.weight * 100,
-        question_distribution: [obj.weight * questions.length]
-      })),
-      timing_estimates: [
-        { difficulty_level: 3, avg_time_seconds: 90, time_variance: 30 },
-        { difficulty_level: 5, avg_time_seconds: 120, time_variance: 40 },
-        { difficulty_level: 7, avg_time_seconds: 180, time_variance: 60 }
-      ]
-    }
-  }
-  
   private parseQuestionSelection(selectionResult: string): string[] {
     try {
       const parsed = JSON.parse(selectionResult)
@@ -1005,24 +1205,203 @@ export class AdaptiveExamGenerationEngine {
     }
   }
   
-  private async selectNextQuestion(session: ExamSession, exam: AdaptiveExam): Promise<QuestionItem> {
-    // Simplified next question selection
-    if (session.current_question_index < exam.questions.length) {
-      return exam.questions[session.current_question_index]
+  // Maximum-information selection among the exam's unanswered scorable questions
+  private selectNextQuestion(session: ExamSession, exam: AdaptiveExam): QuestionItem | null {
+    const administered = new Set(session.administered_questions)
+    const remaining = exam.questions.filter(q => !administered.has(q.question_id))
+    const scorable = remaining.filter(q => this.isDichotomous(q))
+    
+    // Essays and other hand-scored items carry no information about theta, serve them in order
+    if (scorable.length === 0) {
+      return remaining[0] || null
+    }
+    
+    // Exposure rates from a handful of sittings are noise, only enforce the ceiling once they settle
+    const exposure = this.exposure.get(exam.exam_id)
+    const exposureRate = (questionId: string) =>
+      exposure && exposure.sittings >= EXPOSURE_CONTROL_MIN_SITTINGS
+        ? (exposure.administered[questionId] || 0) / exposure.sittings
+        : 0
+    
+    const choice = selectMaximumInformationItem(
+      session.current_state.theta,
+      scorable.map(q => ({
+        item_id: q.question_id,
+        parameters: this.itemParameters(exam, q),
+        exposure_rate: exposureRate(q.question_id)
+      })),
+      exam.adaptive_configuration.exposure_control || DEFAULT_EXPOSURE_CONTROL
+    )
+    
+    return scorable.find(q => q.question_id === choice?.item_id) || null
+  }
+  
+  private recordAdministration(session: ExamSession, exam: AdaptiveExam, question: QuestionItem): void {
+    session.administered_questions.push(question.question_id)
+    session.current_question_index = session.administered_questions.length
+    
+    const exposure = this.exposure.get(exam.exam_id) || { sittings: 1, administered: {} }
+    this.exposure.set(exam.exam_id, {
+      ...exposure,
+      administered: {
+        ...exposure.administered,
+        [question.question_id]: (exposure.administered[question.question_id] || 0) + 1
+      }
+    })
+  }
+  
+  // EAP theta from the scored responses, with the session's starting ability as the prior mean
+  private updateAbilityEstimate(session: ExamSession, exam: AdaptiveExam): void {
+    const scored = session.responses.flatMap(r => {
+      const question = exam.questions.find(q => q.question_id === r.question_id)
+      return question && this.isDichotomous(question) && r.is_correct !== undefined
+        ? [{ parameters: this.itemParameters(exam, question), correct: r.is_correct }]
+        : []
+    })
+    
+    const estimate = estimateAbility(scored, { mean: session.prior_theta, sd: 1 })
+    session.current_state.theta = estimate.theta
+    session.current_state.standard_error = estimate.standard_error
+    session.current_state.estimated_ability = logistic(estimate.theta)
+    session.current_state.confidence_level = Math.max(0, 1 - estimate.standard_error * estimate.standard_error)
+  }
+  
+  // First termination criterion the session satisfies, in configuration order
+  private checkStoppingRules(session: ExamSession, exam: AdaptiveExam): ExamTerminationReason | null {
+    const answered = session.responses.length
+    const { standard_error, confidence_level, difficulty_trend } = session.current_state
+    const elapsedSeconds = (Date.now() - new Date(session.started_at).getTime()) / 1000
+    
+    for (const criterion of exam.adaptive_configuration.termination_criteria) {
+      switch (criterion.type) {
+        case 'standard_error':
+          if (answered > 0 && standard_error <= criterion.value) return criterion.type
+          break
+        case 'confidence_reached':
+          if (answered > 0 && confidence_level >= criterion.value) return criterion.type
+          break
+        case 'fixed_questions':
+          if (answered >= criterion.value) return criterion.type
+          break
+        case 'time_limit':
+          if (elapsedSeconds >= criterion.value) return criterion.type
+          break
+        case 'difficulty_plateau': {
+          const recent = difficulty_trend.slice(-3)
+          if (recent.length === 3 && Math.max(...recent) - Math.min(...recent) < criterion.value) return criterion.type
+          break
+        }
+      }
     }
     
-    // Return first question as fallback
-    return exam.questions[0]
+    return answered >= exam.questions.length ? 'item_pool_exhausted' : null
+  }
+  
+  // Questions with an answer key can be scored right/wrong and so fit the 2PL/3PL models
+  private isDichotomous(question: QuestionItem): boolean {
+    const answer = question.content.correct_answer
+    return !!question.content.options?.some(opt => opt.is_correct) ||
+      (answer !== undefined && answer !== null && answer !== '')
+  }
+  
+  // Chance of a correct guess: one over the number of options, zero for open responses
+  private nominalGuessing(question: QuestionItem): number {
+    const options = question.content.options || []
+    if (options.length > 1 && options.some(opt => opt.is_correct)) return 1 / options.length
+    return question.question_type === 'true_false' ? 0.5 : 0
+  }
+  
+  private provisionalParameters(question: QuestionItem): IrtItemParameters {
+    return {
+      discrimination: DEFAULT_ITEM_PARAMETERS.discrimination,
+      difficulty: logit(question.metadata.difficulty_level / 10),
+      guessing: this.nominalGuessing(question)
+    }
+  }
+  
+  private itemParameters(exam: AdaptiveExam, question: QuestionItem): IrtItemParameters {
+    const entry = exam.calibration_data.difficulty_calibration.find(c => c.question_id === question.question_id)
+    if (!entry) return this.provisionalParameters(question)
+    return {
+      discrimination: entry.discrimination,
+      difficulty: logit(entry.calibrated_difficulty),
+      guessing: entry.guessing_parameter
+    }
+  }
+  
+  private calibrationEntry(
+    questionId: string,
+    parameters: IrtItemParameters,
+    standardErrors?: IrtItemParameters
+  ): AdaptiveExam['calibration_data']['difficulty_calibration'][0] {
+    const difficultyError = standardErrors?.difficulty
+    return {
+      question_id: questionId,
+      calibrated_difficulty: logistic(parameters.difficulty),
+      discrimination: parameters.discrimination,
+      guessing_parameter: parameters.guessing,
+      reliability_score: difficultyError !== undefined && Number.isFinite(difficultyError)
+        ? 1 / (1 + difficultyError * difficultyError)
+        : 0
+    }
+  }
+  
+  // Latest calibration result per question, across response calibrations and imported item banks
+  private latestCalibrationResults(questionIds: string[]): Map<string, DifficultyCalibration['calibration_results'][0]> {
+    const wanted = new Set(questionIds)
+    const latest = new Map<string, DifficultyCalibration['calibration_results'][0]>()
+    for (const calibration of this.calibrationData.values()) {
+      for (const result of calibration.calibration_results) {
+        if (wanted.has(result.question_id)) latest.set(result.question_id, result)
+      }
+    }
+    return latest
+  }
+  
+  // Write freshly calibrated parameters into every exam that uses the questions
+  private applyCalibration(calibration: DifficultyCalibration): void {
+    const calibrated = new Map(
+      calibration.calibration_results
+        .filter(result => result.standard_errors)
+        .map(result => [result.question_id, result])
+    )
+    if (calibrated.size === 0) return
+    
+    for (const exam of this.examCache.values()) {
+      if (!exam.questions.some(q => calibrated.has(q.question_id))) continue
+      
+      exam.calibration_data.difficulty_calibration = exam.calibration_data.difficulty_calibration.map(entry => {
+        const result = calibrated.get(entry.question_id)
+        return result ? this.calibrationEntry(entry.question_id, result.irt_parameters, result.standard_errors) : entry
+      })
+      for (const question of exam.questions) {
+        const result = calibrated.get(question.question_id)
+        if (result) question.metadata.discrimination_index = result.irt_parameters.discrimination
+      }
+      this.examCache.set(exam.exam_id, exam)
+    }
   }
   
   private evaluateResponse(question: QuestionItem, response: any): {
     is_correct: boolean
     points_earned: number
   } {
-    // Simplified response evaluation
-    if (question.question_type === 'multiple_choice') {
-      const correctOption = question.content.options?.find(opt => opt.is_correct)
-      const isCorrect = correctOption?.option_id === response
+    // Choice questions (multiple choice, true/false with options) match the correct option
+    const correctOption = question.content.options?.find(opt => opt.is_correct)
+    if (correctOption) {
+      const isCorrect = correctOption.option_id === response
+      return {
+        is_correct: isCorrect,
+        points_earned: isCorrect ? question.scoring.max_points : 0
+      }
+    }
+    
+    // Keyed answers (true/false, numerical, short answer) compare against the answer key
+    const answer = question.content.correct_answer
+    if (answer !== undefined && answer !== null && answer !== '') {
+      const isCorrect = typeof answer === 'number'
+        ? Number(response) === answer
+        : String(response).trim().toLowerCase() === String(answer).trim().toLowerCase()
       return {
         is_correct: isCorrect,
         points_earned: isCorrect ? question.scoring.max_points : 0
@@ -1037,24 +1416,24 @@ export class AdaptiveExamGenerationEngine {
   
   private async updateAdaptiveState(
     session: ExamSession,
+    exam: AdaptiveExam,
     evaluation: { is_correct: boolean, points_earned: number },
     responseTime: number
   ): Promise<{
     adjustments: any[]
     state_update: Partial<ExamSession['current_state']>
   }> {
-    // Simplified adaptive state update
     const adjustments: any[] = []
     
-    if (evaluation.is_correct) {
-      session.current_state.estimated_ability = Math.min(1, session.current_state.estimated_ability + 0.1)
-    } else {
-      session.current_state.estimated_ability = Math.max(0, session.current_state.estimated_ability - 0.05)
-    }
+    this.updateAbilityEstimate(session, exam)
+    session.current_state.difficulty_trend.push(session.current_state.theta)
+    session.current_state.next_question_prediction.recommended_difficulty = session.current_state.estimated_ability
     
     const totalResponses = session.responses.length
     const correctResponses = session.responses.filter(r => r.is_correct).length
-    session.current_state.performance_indicators.accuracy_rate = correctResponses / totalResponses
+    const indicators = session.current_state.performance_indicators
+    indicators.accuracy_rate = correctResponses / totalResponses
+    indicators.avg_response_time = indicators.avg_response_time + (responseTime - indicators.avg_response_time) / totalResponses
     
     return {
       adjustments,
@@ -1062,7 +1441,15 @@ export class AdaptiveExamGenerationEngine {
     }
   }
   
-  private async generateExamResults(session: ExamSession, exam: AdaptiveExam): Promise<ExamResults> {
+  private async generateExamResults(
+    session: ExamSession,
+    exam: AdaptiveExam,
+    terminationReason: ExamTerminationReason
+  ): Promise<ExamResults> {
+    const { theta, standard_error } = session.current_state
+    // Adaptive sittings aim every learner at ~50% correct, so the level comes from theta, not the score
+    const performanceLevel = PERFORMANCE_LEVEL_CUTS.find(([cut]) => theta >= cut)?.[1] || 'below_basic'
+    
     const totalScore = session.responses.reduce((sum, r) => sum + (r.points_earned || 0), 0)
     const maxScore = session.responses.reduce((sum, r) => {
       const question = exam.questions.find(q => q.question_id === r.question_id)
@@ -1079,11 +1466,11 @@ export class AdaptiveExamGenerationEngine {
         max_possible_score: maxScore,
         percentage_score: maxScore > 0 ? (totalScore / maxScore) * 100 : 0,
         estimated_ability: session.current_state.estimated_ability,
-        confidence_interval: [session.current_state.estimated_ability - 0.1, session.current_state.estimated_ability + 0.1],
-        performance_level: totalScore / maxScore > 0.9 ? 'expert' : 
-                          totalScore / maxScore > 0.8 ? 'advanced' :
-                          totalScore / maxScore > 0.7 ? 'proficient' :
-                          totalScore / maxScore > 0.6 ? 'basic' : 'below_basic'
+        confidence_interval: [logistic(theta - 1.96 * standard_error), logistic(theta + 1.96 * standard_error)],
+        theta,
+        standard_error,
+        termination_reason: terminationReason,
+        performance_level: performanceLevel
       },
       objective_breakdown: exam.requirements.learning_objectives.map(obj => ({
         objective_id: obj.objective_id,
@@ -1136,6 +1523,127 @@ export class AdaptiveExamGenerationEngine {
     return this.sessionCache.get(sessionId) || null
   }
   
+  // Import a QTI item bank; its IRT parameters become a calibration run
+  async importQtiQuestionBank(source: QtiImportSource): Promise<QtiImportResult> {
+    const { importQti } = await import('./qti-interchange')
+    const bank = await importQti(source)
+    if (bank.questions.length === 0) {
+      throw new Error(`No importable items found${bank.warnings.length > 0 ? `: ${bank.warnings.join('; ')}` : ''}`)
+    }
+
+    this.questionPool.set(bank.bank_id, bank.questions)
+    this.calibrationData.set(bank.calibration.calibration_id, bank.calibration)
+    return bank
+  }
+
+  // Export an exam as a QTI content package, with the latest calibrated IRT parameters per question
+  async exportExamToQti(examId: string, version: QtiVersion = '2.1'): Promise<QtiPackageFile> {
+    const exam = this.examCache.get(examId)
+    if (!exam) {
+      throw new Error(`Exam ${examId} not found`)
+    }
+
+    const questionIds = new Set(exam.questions.map(q => q.question_id))
+    const calibrationResults = Array.from(this.calibrationData.values())
+      .flatMap(calibration => calibration.calibration_results)
+      .filter(result => questionIds.has(result.question_id))
+      .reverse()
+
+    const { exportExamToQti } = await import('./qti-interchange')
+    return exportExamToQti(exam, version, calibrationResults)
+  }
+
+  // Get imported question bank by ID
+  getQuestionBank(bankId: string): QuestionItem[] | null {
+    return this.questionPool.get(bankId) || null
+  }
+
+  // Get calibration run by ID
+  getCalibration(calibrationId: string): DifficultyCalibration | null {
+    return this.calibrationData.get(calibrationId) || null
+  }
+
+  // Psychometric report over the finished sittings of an exam
+  getItemAnalysis(
+    examId: string,
+    options: { learnerGroups?: Record<string, string>; referenceGroup?: string } = {}
+  ): ExamItemAnalysis {
+    const exam = this.examCache.get(examId)
+    if (!exam) {
+      throw new Error(`Exam ${examId} not found`)
+    }
+    
+    const exposure = this.exposure.get(examId)
+    const sessions = Array.from(this.sessionCache.values()).filter(session => session.exam_id === examId)
+    const report = this.analyzeQuestions(exam.questions, sessions, {
+      ...options,
+      exposure,
+      maxExposureRate: (exam.adaptive_configuration.exposure_control || DEFAULT_EXPOSURE_CONTROL).max_exposure_rate
+    })
+    return { ...report, scope: 'exam', scope_id: examId }
+  }
+  
+  // Psychometric report for an imported question bank, across every exam that used its questions
+  getQuestionBankItemAnalysis(
+    bankId: string,
+    options: { learnerGroups?: Record<string, string>; referenceGroup?: string } = {}
+  ): ExamItemAnalysis {
+    const questions = this.questionPool.get(bankId)
+    if (!questions) {
+      throw new Error(`Question bank ${bankId} not found`)
+    }
+    
+    const report = this.analyzeQuestions(questions, Array.from(this.sessionCache.values()), options)
+    return { ...report, scope: 'question_bank', scope_id: bankId }
+  }
+  
+  private analyzeQuestions(
+    questions: QuestionItem[],
+    sessions: ExamSession[],
+    options: {
+      learnerGroups?: Record<string, string>
+      referenceGroup?: string
+      exposure?: ItemExposure
+      maxExposureRate?: number
+    }
+  ): ItemAnalysisReport {
+    const scorable = new Set(questions.filter(q => this.isDichotomous(q)).map(q => q.question_id))
+    
+    // Finished sittings only; an explicit learner -> group mapping overrides the group given at start
+    const sittings = sessions
+      .filter(session => session.completion_status === 'completed' || session.completion_status === 'terminated')
+      .map(session => ({
+        sitting_id: session.session_id,
+        group: options.learnerGroups?.[session.learner_id] || session.learner_group,
+        ability: session.current_state.theta,
+        responses: session.responses
+          .filter(r => scorable.has(r.question_id) && r.is_correct !== undefined)
+          .map(r => ({
+            item_id: r.question_id,
+            correct: !!r.is_correct,
+            choice: typeof r.response === 'string' ? r.response : undefined
+          }))
+      }))
+      .filter(sitting => sitting.responses.length > 0)
+    
+    return analyzeItems(
+      questions
+        .filter(q => scorable.has(q.question_id))
+        .map(q => ({
+          item_id: q.question_id,
+          options: q.content.options?.map(opt => ({ option_id: opt.option_id, is_correct: opt.is_correct })),
+          exposure_rate: options.exposure && options.exposure.sittings > 0
+            ? (options.exposure.administered[q.question_id] || 0) / options.exposure.sittings
+            : undefined
+        })),
+      sittings,
+      {
+        reference_group: options.referenceGroup,
+        max_exposure_rate: options.maxExposureRate
+      }
+    )
+  }
+  
   // Get exam statistics
   getExamStatistics(examId: string): {
     total_attempts: number
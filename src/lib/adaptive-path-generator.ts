@@ -8,6 +8,7 @@ import type { LearningObjective, LearningPath, SequencingRecommendation } from '
 import { multiModelAI, type UseCase } from './multi-model-ai'
 import { learningStyleEngine } from './learning-style-engine'
 import { difficultyEngine } from './difficulty-engine'
+import { EngineStateStore } from './engine-repository'
 import { intelligentSequencingEngine } from './intelligent-sequencing-engine'
 import { realTimeAdaptationEngine } from './real-time-adaptation'
 import { analyzeUserBehavior } from './adaptive-learning-engine'
@@ -174,9 +175,19 @@ export interface AdaptationRecord {
 }
 
 export class AdaptivePathGenerator {
-  private userProfiles: Map<string, AdaptivePathProfile> = new Map()
-  private activePaths: Map<string, LearningPath> = new Map()
-  private adaptationHistory: Map<string, AdaptationRecord[]> = new Map()
+  private store = new EngineStateStore('adaptive_path')
+  private userProfiles: Map<string, AdaptivePathProfile> = this.store.map('user_profiles')
+  private activePaths: Map<string, LearningPath> = this.store.map('active_paths')
+  private adaptationHistory: Map<string, AdaptationRecord[]> = this.store.map('adaptation_history')
+
+  // Paths are built from the learner's style and difficulty profiles, which persist in their own engines
+  async hydrate(): Promise<void> {
+    await Promise.all([this.store.hydrate(), learningStyleEngine.hydrate(), difficultyEngine.hydrate()])
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([this.store.flush(), learningStyleEngine.flush(), difficultyEngine.flush()])
+  }
 
   /**
    * Generate comprehensive adaptive learning path
@@ -0,0 +1,404 @@
+// AI Budget Manager
+// Token and cost accounting per user, organization and use case, with daily/monthly quotas
+// that MultiModelAI and ModelFallbackRouter check before calling a provider
+
+import { EngineStateStore } from './engine-repository'
+import type { UseCase } from './multi-model-ai'
+import type { AuthContext } from './auth-guard'
+
+export type BudgetScope = 'user' | 'organization' | 'use_case'
+export type BudgetPeriod = 'daily' | 'monthly'
+
+// Policies with scopeId '*' apply to every user/organization/use case without a specific policy
+export const ANY_SCOPE_ID = '*'
+
+export interface BudgetPolicy {
+  policyId: string
+  scope: BudgetScope
+  scopeId: string
+  period: BudgetPeriod
+  maxTokens?: number
+  maxCostUsd?: number
+  degradeThreshold: number // 0-1, utilization at which requests move to cheaper models
+  enforcement: 'hard' | 'soft' // soft policies degrade but never block
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface BudgetContext {
+  userId?: string
+  organizationId?: string
+  useCase?: UseCase
+}
+
+export interface UsageEstimate {
+  tokens: number
+  costUsd: number
+}
+
+export interface UsageTotals {
+  tokens: number
+  costUsd: number
+  requests: number
+}
+
+export interface UsageBucket extends UsageTotals {
+  scope: BudgetScope
+  scopeId: string
+  period: BudgetPeriod
+  periodKey: string // YYYY-MM-DD or YYYY-MM (UTC)
+  degradedRequests: number
+  byModel: Record<string, UsageTotals>
+  byUseCase: Record<string, UsageTotals>
+  updatedAt: Date
+}
+
+export interface PolicyStatus {
+  policy: BudgetPolicy
+  usage: UsageTotals
+  utilization: number // projected, including the pending request
+  exceeded: boolean
+}
+
+export interface BudgetCheck {
+  allowed: boolean
+  tier: 'normal' | 'degraded' | 'exceeded'
+  utilization: number
+  limitingPolicy?: BudgetPolicy
+  policies: PolicyStatus[]
+  reason?: string
+}
+
+export interface UsageReport {
+  scope: BudgetScope
+  scopeId: string
+  period: BudgetPeriod
+  periodKey: string
+  usage: UsageBucket | null
+  policies: PolicyStatus[]
+  history: UsageBucket[]
+  generatedAt: Date
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public check: BudgetCheck,
+    public retryAt?: Date
+  ) {
+    super(message)
+    this.name = 'BudgetExceededError'
+  }
+
+  // Value for a Retry-After header
+  retryAfterSeconds(): number | undefined {
+    return this.retryAt ? Math.max(1, Math.ceil((this.retryAt.getTime() - Date.now()) / 1000)) : undefined
+  }
+}
+
+const DEFAULT_DEGRADE_THRESHOLD = 0.8
+
+function emptyTotals(): UsageTotals {
+  return { tokens: 0, costUsd: 0, requests: 0 }
+}
+
+function addTotals(totals: UsageTotals, tokens: number, costUsd: number): void {
+  totals.tokens += tokens
+  totals.costUsd += costUsd
+  totals.requests++
+}
+
+// Usage is charged to the verified session, never to ids a client put in a request body
+export function budgetContextFor(auth: AuthContext | null | undefined, useCase?: UseCase): BudgetContext {
+  return {
+    userId: auth?.userId,
+    organizationId: auth?.organizationId,
+    useCase
+  }
+}
+
+export function periodKeyFor(period: BudgetPeriod, date: Date = new Date()): string {
+  const iso = date.toISOString()
+  return period === 'daily' ? iso.slice(0, 10) : iso.slice(0, 7)
+}
+
+// Start of the next UTC day or month, when a blocked scope can spend again
+function periodResetAt(period: BudgetPeriod, date: Date = new Date()): Date {
+  return period === 'daily'
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1))
+}
+
+// AI_BUDGET_USER_DAILY_TOKENS, AI_BUDGET_ORG_MONTHLY_USD etc. create wildcard policies at startup
+function readDefaultPolicies(): BudgetPolicy[] {
+  const defaults: Array<{ env: string; scope: BudgetScope; period: BudgetPeriod; field: 'maxTokens' | 'maxCostUsd' }> = [
+    { env: 'AI_BUDGET_USER_DAILY_TOKENS', scope: 'user', period: 'daily', field: 'maxTokens' },
+    { env: 'AI_BUDGET_USER_MONTHLY_USD', scope: 'user', period: 'monthly', field: 'maxCostUsd' },
+    { env: 'AI_BUDGET_ORG_DAILY_TOKENS', scope: 'organization', period: 'daily', field: 'maxTokens' },
+    { env: 'AI_BUDGET_ORG_MONTHLY_USD', scope: 'organization', period: 'monthly', field: 'maxCostUsd' }
+  ]
+
+  const policies = new Map<string, BudgetPolicy>()
+  for (const { env, scope, period, field } of defaults) {
+    const limit = Number(process.env[env])
+    if (!limit || limit <= 0) continue
+
+    const policyId = `${scope}:${ANY_SCOPE_ID}:${period}`
+    const policy = policies.get(policyId) || {
+      policyId,
+      scope,
+      scopeId: ANY_SCOPE_ID,
+      period,
+      degradeThreshold: DEFAULT_DEGRADE_THRESHOLD,
+      enforcement: 'hard' as const,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+    policy[field] = limit
+    policies.set(policyId, policy)
+  }
+
+  return Array.from(policies.values())
+}
+
+export class AIBudgetManager {
+  private store = new EngineStateStore('ai_budgets')
+  private policies = this.store.map<BudgetPolicy>('policies')
+  private usage = this.store.map<UsageBucket>('usage')
+  private defaultPolicies = readDefaultPolicies()
+
+  /**
+   * Load persisted policies and usage
+   */
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  /**
+   * Wait for pending usage writes
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
+  /**
+   * Create or replace the policy for a scope and period
+   */
+  setPolicy(policy: Omit<BudgetPolicy, 'policyId' | 'createdAt' | 'updatedAt' | 'degradeThreshold' | 'enforcement'> &
+    Partial<Pick<BudgetPolicy, 'degradeThreshold' | 'enforcement'>>): BudgetPolicy {
+    if (!policy.maxTokens && !policy.maxCostUsd) {
+      throw new Error('Budget policy needs maxTokens or maxCostUsd')
+    }
+
+    const policyId = `${policy.scope}:${policy.scopeId}:${policy.period}`
+    const existing = this.policies.get(policyId)
+    const saved: BudgetPolicy = {
+      ...policy,
+      policyId,
+      degradeThreshold: Math.min(1, Math.max(0, policy.degradeThreshold ?? DEFAULT_DEGRADE_THRESHOLD)),
+      enforcement: policy.enforcement || 'hard',
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date()
+    }
+
+    this.policies.set(policyId, saved)
+    return saved
+  }
+
+  removePolicy(policyId: string): boolean {
+    return this.policies.delete(policyId)
+  }
+
+  listPolicies(scope?: BudgetScope, scopeId?: string): BudgetPolicy[] {
+    return [...this.defaultPolicies, ...this.policies.values()]
+      .filter(policy => (!scope || policy.scope === scope) && (!scopeId || policy.scopeId === scopeId))
+  }
+
+  /**
+   * Check whether a request of the estimated size fits every applicable quota.
+   * Near a limit the request should be served by a cheaper model; past a hard limit it is refused.
+   */
+  checkBudget(context: BudgetContext, estimate: UsageEstimate = { tokens: 0, costUsd: 0 }): BudgetCheck {
+    const now = new Date()
+    const statuses: PolicyStatus[] = []
+
+    for (const policy of this.getApplicablePolicies(context)) {
+      const bucket = this.usage.get(this.bucketKey(policy.scope, this.scopeIdFor(policy.scope, context)!, policy.period, now))
+      const usage = bucket ? { tokens: bucket.tokens, costUsd: bucket.costUsd, requests: bucket.requests } : emptyTotals()
+
+      const ratios: number[] = []
+      let exceeded = false
+      if (policy.maxTokens) {
+        ratios.push((usage.tokens + estimate.tokens) / policy.maxTokens)
+        exceeded = exceeded || usage.tokens >= policy.maxTokens
+      }
+      if (policy.maxCostUsd) {
+        ratios.push((usage.costUsd + estimate.costUsd) / policy.maxCostUsd)
+        exceeded = exceeded || usage.costUsd >= policy.maxCostUsd
+      }
+
+      statuses.push({ policy, usage, utilization: Math.max(0, ...ratios), exceeded })
+    }
+
+    const blocking = statuses.find(status => status.exceeded && status.policy.enforcement === 'hard')
+    const limiting = blocking || statuses
+      .filter(status => status.utilization >= status.policy.degradeThreshold)
+      .sort((a, b) => b.utilization - a.utilization)[0]
+    const utilization = Math.max(0, ...statuses.map(status => status.utilization))
+
+    if (blocking) {
+      return {
+        allowed: false,
+        tier: 'exceeded',
+        utilization,
+        limitingPolicy: blocking.policy,
+        policies: statuses,
+        reason: `${blocking.policy.period} ${blocking.policy.scope} budget exhausted`
+      }
+    }
+
+    return {
+      allowed: true,
+      tier: limiting ? 'degraded' : 'normal',
+      utilization,
+      limitingPolicy: limiting?.policy,
+      policies: statuses,
+      reason: limiting ? `${limiting.policy.period} ${limiting.policy.scope} budget at ${Math.round(limiting.utilization * 100)}%` : undefined
+    }
+  }
+
+  /**
+   * Throw BudgetExceededError when a hard quota is exhausted, otherwise return the check
+   */
+  assertWithinBudget(context: BudgetContext, estimate?: UsageEstimate): BudgetCheck {
+    const check = this.checkBudget(context, estimate)
+    if (!check.allowed) {
+      throw new BudgetExceededError(
+        `AI usage budget exceeded: ${check.reason}`,
+        check,
+        check.limitingPolicy ? periodResetAt(check.limitingPolicy.period) : undefined
+      )
+    }
+    return check
+  }
+
+  /**
+   * Account a completed request against the user, organization and use case buckets
+   */
+  recordUsage(
+    context: BudgetContext,
+    usage: UsageEstimate & { model: string; degraded?: boolean }
+  ): void {
+    const now = new Date()
+
+    for (const scope of ['user', 'organization', 'use_case'] as BudgetScope[]) {
+      const scopeId = this.scopeIdFor(scope, context)
+      if (!scopeId) continue
+
+      for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+        const key = this.bucketKey(scope, scopeId, period, now)
+        const bucket: UsageBucket = this.usage.get(key) || {
+          scope,
+          scopeId,
+          period,
+          periodKey: periodKeyFor(period, now),
+          ...emptyTotals(),
+          degradedRequests: 0,
+          byModel: {},
+          byUseCase: {},
+          updatedAt: now
+        }
+
+        addTotals(bucket, usage.tokens, usage.costUsd)
+        bucket.byModel[usage.model] = bucket.byModel[usage.model] || emptyTotals()
+        addTotals(bucket.byModel[usage.model], usage.tokens, usage.costUsd)
+        if (context.useCase) {
+          bucket.byUseCase[context.useCase] = bucket.byUseCase[context.useCase] || emptyTotals()
+          addTotals(bucket.byUseCase[context.useCase], usage.tokens, usage.costUsd)
+        }
+        if (usage.degraded) {
+          bucket.degradedRequests++
+        }
+        bucket.updatedAt = now
+
+        // Re-set so the write-through map persists the mutation
+        this.usage.set(key, bucket)
+      }
+    }
+  }
+
+  /**
+   * Usage for one scope in the current (or given) period, with quota status and recent history
+   */
+  getUsageReport(scope: BudgetScope, scopeId: string, period: BudgetPeriod = 'monthly', date: Date = new Date()): UsageReport {
+    const periodKey = periodKeyFor(period, date)
+    const context: BudgetContext = scope === 'user'
+      ? { userId: scopeId }
+      : scope === 'organization'
+        ? { organizationId: scopeId }
+        : { useCase: scopeId as UseCase }
+
+    const history = Array.from(this.usage.values())
+      .filter(bucket => bucket.scope === scope && bucket.scopeId === scopeId && bucket.period === period)
+      .sort((a, b) => b.periodKey.localeCompare(a.periodKey))
+      .slice(0, period === 'daily' ? 31 : 12)
+
+    return {
+      scope,
+      scopeId,
+      period,
+      periodKey,
+      usage: this.usage.get(`${scope}:${scopeId}:${period}:${periodKey}`) || null,
+      policies: this.checkBudget(context).policies,
+      history,
+      generatedAt: new Date()
+    }
+  }
+
+  /**
+   * Highest spenders for a scope in the current period
+   */
+  getTopConsumers(scope: BudgetScope, period: BudgetPeriod = 'monthly', limit: number = 10): UsageBucket[] {
+    const periodKey = periodKeyFor(period)
+    return Array.from(this.usage.values())
+      .filter(bucket => bucket.scope === scope && bucket.period === period && bucket.periodKey === periodKey)
+      .sort((a, b) => b.costUsd - a.costUsd || b.tokens - a.tokens)
+      .slice(0, limit)
+  }
+
+  // Specific policies replace the wildcard policy for the same scope and period
+  private getApplicablePolicies(context: BudgetContext): BudgetPolicy[] {
+    const applicable: BudgetPolicy[] = []
+
+    for (const scope of ['user', 'organization', 'use_case'] as BudgetScope[]) {
+      const scopeId = this.scopeIdFor(scope, context)
+      if (!scopeId) continue
+
+      for (const period of ['daily', 'monthly'] as BudgetPeriod[]) {
+        const policy = this.policies.get(`${scope}:${scopeId}:${period}`) ||
+          this.policies.get(`${scope}:${ANY_SCOPE_ID}:${period}`) ||
+          this.defaultPolicies.find(candidate => candidate.scope === scope && candidate.period === period)
+        if (policy) {
+          applicable.push(policy)
+        }
+      }
+    }
+
+    return applicable
+  }
+
+  private scopeIdFor(scope: BudgetScope, context: BudgetContext): string | undefined {
+    switch (scope) {
+      case 'user': return context.userId
+      case 'organization': return context.organizationId
+      case 'use_case': return context.useCase
+    }
+  }
+
+  private bucketKey(scope: BudgetScope, scopeId: string, period: BudgetPeriod, date: Date): string {
+    return `${scope}:${scopeId}:${period}:${periodKeyFor(period, date)}`
+  }
+}
+
+// Export singleton instance
+export const aiBudgetManager = new AIBudgetManager()
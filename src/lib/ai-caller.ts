@@ -0,0 +1,28 @@
+// AI Caller Context
+// Carries the signed-in caller of an API request down to MultiModelAI, so every model call an engine makes
+// while handling the request is charged to that caller's user and organization budgets
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import type { NextRequest } from 'next/server'
+import { resolveAuthContext, type AuthContext } from './auth-guard'
+
+const callers = new AsyncLocalStorage<AuthContext | null>()
+
+/**
+ * Run a route handler with its caller available to AI calls made anywhere beneath it.
+ * Anonymous and unresolvable callers run as null and are charged to the global budget only.
+ */
+export async function withAICaller<T>(request: NextRequest, run: () => Promise<T>): Promise<T> {
+  const auth = await resolveAuthContext(request).catch(error => {
+    console.error('Failed to resolve AI caller:', error)
+    return null
+  })
+  return callers.run(auth, run)
+}
+
+/**
+ * Caller of the request being handled, or null outside withAICaller
+ */
+export function currentAICaller(): AuthContext | null {
+  return callers.getStore() ?? null
+}
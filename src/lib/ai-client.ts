@@ -1,4 +1,5 @@
-import OpenAI from 'openai'
+import { multiModelAI, inferUseCase, type AIRequest } from './multi-model-ai'
+import { BudgetExceededError } from './ai-budget-manager'
 import type { 
   UserProfile, 
   ContentItem, 
@@ -6,12 +7,6 @@ import type {
   Subject
 } from '@/types'
 
-// AI Configuration
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-  dangerouslyAllowBrowser: false // Server-side only for security
-})
-
 export interface AITutorPersonality {
   id: string
   name: string
@@ -109,12 +104,6 @@ export const AI_TUTORS: Record<string, AITutorPersonality> = {
 }
 
 export class AITutorClient {
-  private openai: OpenAI
-  private defaultModel: string = 'gpt-4o-mini'
-
-  constructor() {
-    this.openai = openai
-  }
 
   /**
    * Select the best AI tutor personality for a user profile
@@ -150,22 +139,24 @@ export class AITutorClient {
   async generateContent(request: ContentGenerationRequest): Promise<string> {
     const tutor = this.selectTutorPersonality(request.userProfile)
     
-    const systemPrompt = this.buildSystemPrompt(tutor, request.userProfile)
+    const systemPrompt = this.buildSystemPrompt(tutor, request.userProfile, { shared: true })
     const userPrompt = this.buildContentPrompt(request)
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        max_tokens: this.getMaxTokensForLength(request.length),
-        temperature: 0.7,
+      const content = await this.complete({
+        useCase: inferUseCase(request.userProfile.subject || '', request.topic),
+        userProfile: request.userProfile,
+        context: request.topic,
+        requestType: 'content',
+        priority: 'medium',
+        prompt: `${systemPrompt}\n\n${userPrompt}`,
+        maxTokens: this.getMaxTokensForLength(request.length),
+        temperature: 0.7
       })
 
-      return completion.choices[0]?.message?.content || 'Unable to generate content at this time.'
+      return content || 'Unable to generate content at this time.'
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error
       console.error('AI content generation error:', error)
       return this.getFallbackContent(request)
     }
@@ -177,25 +168,25 @@ export class AITutorClient {
   async generateQuizQuestions(request: QuizGenerationRequest): Promise<QuizQuestion[]> {
     const tutor = this.selectTutorPersonality(request.userProfile)
     
-    const systemPrompt = this.buildSystemPrompt(tutor, request.userProfile)
+    const systemPrompt = this.buildSystemPrompt(tutor, request.userProfile, { shared: true })
     const userPrompt = this.buildQuizPrompt(request)
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        max_tokens: 2000,
-        temperature: 0.6,
+      const content = await this.complete({
+        useCase: 'quiz_generation',
+        userProfile: request.userProfile,
+        context: request.topic,
+        requestType: 'quiz',
+        priority: 'medium',
+        prompt: `${systemPrompt}\n\n${userPrompt}`,
+        maxTokens: 2000,
+        temperature: 0.6
       })
-
-      const content = completion.choices[0]?.message?.content
       if (!content) throw new Error('No content generated')
 
       return this.parseQuizQuestions(content, request)
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error
       console.error('AI quiz generation error:', error)
       return this.getFallbackQuizQuestions(request)
     }
@@ -211,27 +202,42 @@ export class AITutorClient {
     const userPrompt = this.buildFeedbackPrompt(request)
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.defaultModel,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        max_tokens: 300,
-        temperature: 0.8,
+      const content = await this.complete({
+        useCase: 'personalized_feedback',
+        userProfile: request.userProfile,
+        context: request.question,
+        requestType: 'feedback',
+        priority: 'medium',
+        prompt: `${systemPrompt}\n\n${userPrompt}`,
+        maxTokens: 300,
+        temperature: 0.8
       })
 
-      return completion.choices[0]?.message?.content || 'Great effort! Keep practicing.'
+      return content || 'Great effort! Keep practicing.'
     } catch (error) {
+      if (error instanceof BudgetExceededError) throw error
       console.error('AI feedback generation error:', error)
       return this.getFallbackFeedback(request)
     }
   }
 
   /**
-   * Build system prompt based on tutor personality and user profile
+   * Run a tutor prompt through the multi-model router, which charges it to the caller's budgets.
+   * Throws when every provider failed, so callers fall back to their own canned content.
+   */
+  private async complete(request: AIRequest): Promise<string> {
+    const response = await multiModelAI.generateContent(request)
+    if (response.model === 'static-fallback') {
+      throw new Error('All AI providers failed')
+    }
+    return response.content
+  }
+
+  /**
+   * Build system prompt based on tutor personality and user profile. Shared generations (lessons and quizzes,
+   * cached per profile bucket) only use the fields the bucket keys on, never the learner's name.
    */
-  private buildSystemPrompt(tutor: AITutorPersonality, userProfile: UserProfile): string {
+  private buildSystemPrompt(tutor: AITutorPersonality, userProfile: UserProfile, options: { shared?: boolean } = {}): string {
     return `You are ${tutor.name}, ${tutor.description}.
 
 Your characteristics:
@@ -240,8 +246,7 @@ Your characteristics:
 - Specialties: ${tutor.specialties.join(', ')}
 
 Student Profile:
-- Name: ${userProfile.name}
-- Subject: ${userProfile.subject}
+${options.shared ? '' : `- Name: ${userProfile.name}\n`}- Subject: ${userProfile.subject}
 - Level: ${userProfile.level || 'beginner'}
 - Age Group: ${userProfile.age_group || 'adult'}
 - Use Case: ${userProfile.use_case || 'general learning'}
@@ -346,6 +351,20 @@ Keep it positive and educational (2-3 sentences).`
     }
   }
 
+  /**
+   * Whether generated content is the canned fallback rather than model output
+   */
+  isFallbackContent(request: ContentGenerationRequest, content: string): boolean {
+    return content === this.getFallbackContent(request) || content === 'Unable to generate content at this time.'
+  }
+
+  /**
+   * Whether generated questions are the canned fallback rather than model output
+   */
+  isFallbackQuiz(questions: QuizQuestion[]): boolean {
+    return questions.length === 0 || questions.every(question => question.id.startsWith('fallback-'))
+  }
+
   /**
    * Get max tokens based on content length
    */
@@ -332,6 +332,7 @@ export class AIMentorSystem {
     model: 'gpt-4o-mini',
     temperature: 0.7,
     maxTokens: 2000,
+    costPer1kTokens: 0.0004,
     specialties: ['mentoring', 'career_guidance', 'personal_development'],
     strengths: ['empathy', 'practical_advice', 'goal_setting'],
     optimalUseCases: ['general_tutoring', 'study_planning', 'business']
@@ -0,0 +1,296 @@
+// AI Providers
+// Completion backends behind MultiModelAI: the hosted OpenAI and Anthropic APIs, any
+// OpenAI-compatible local server (llama.cpp, Ollama, vLLM), and a deterministic stub
+// that needs no network so the app and its tests can run air-gapped
+
+import OpenAI from 'openai'
+import Anthropic from '@anthropic-ai/sdk'
+
+export type AIProviderId = 'openai' | 'claude' | 'local' | 'stub'
+
+export interface ProviderCompletionRequest {
+  model: string
+  prompt: string
+  maxTokens: number
+  temperature: number
+}
+
+export interface ProviderCompletion {
+  content: string
+  tokensUsed: number
+}
+
+export interface AIProvider {
+  id: AIProviderId
+  isAvailable(): boolean
+  complete(request: ProviderCompletionRequest): Promise<ProviderCompletion>
+  stream(request: ProviderCompletionRequest, onToken: (token: string) => void): Promise<ProviderCompletion>
+}
+
+// ==================================================================
+// OPENAI-COMPATIBLE (hosted OpenAI and local servers)
+// ==================================================================
+
+interface OpenAICompatibleOptions {
+  id: AIProviderId
+  baseURL?: string
+  apiKey: string
+  // Local servers are often single-slot; give them longer before timing out
+  timeoutMs: number
+  isAvailable: () => boolean
+}
+
+function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): AIProvider {
+  let client: OpenAI | null = null
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({
+        apiKey: options.apiKey,
+        baseURL: options.baseURL,
+        timeout: options.timeoutMs,
+        maxRetries: options.id === 'local' ? 0 : 2
+      })
+    }
+    return client
+  }
+
+  return {
+    id: options.id,
+    isAvailable: options.isAvailable,
+
+    async complete(request) {
+      const completion = await getClient().chat.completions.create({
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      })
+
+      return {
+        content: completion.choices[0]?.message?.content || '',
+        tokensUsed: completion.usage?.total_tokens || 0
+      }
+    },
+
+    async stream(request, onToken) {
+      const stream = await getClient().chat.completions.create({
+        model: request.model,
+        messages: [{ role: 'user', content: request.prompt }],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        // llama.cpp and Ollama ignore this; usage is estimated below when missing
+        stream_options: { include_usage: true }
+      })
+
+      let content = ''
+      let tokensUsed = 0
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content
+        if (delta) {
+          content += delta
+          onToken(delta)
+        }
+        if (chunk.usage) {
+          tokensUsed = chunk.usage.total_tokens
+        }
+      }
+
+      return { content, tokensUsed: tokensUsed || estimateTokens(request.prompt + content) }
+    }
+  }
+}
+
+// ==================================================================
+// ANTHROPIC
+// ==================================================================
+
+function createClaudeProvider(): AIProvider {
+  let client: Anthropic | null = null
+  const getClient = () => {
+    if (!client) {
+      client = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY || '' })
+    }
+    return client
+  }
+
+  return {
+    id: 'claude',
+    isAvailable: () => !!process.env.ANTHROPIC_API_KEY,
+
+    async complete(request) {
+      const completion = await getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }]
+      })
+
+      const block = completion.content[0]
+      return {
+        content: block?.type === 'text' ? block.text : '',
+        tokensUsed: completion.usage.input_tokens + completion.usage.output_tokens
+      }
+    },
+
+    async stream(request, onToken) {
+      const stream = await getClient().messages.create({
+        model: request.model,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: true
+      })
+
+      let content = ''
+      let inputTokens = 0
+      let outputTokens = 0
+
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          inputTokens = event.message.usage.input_tokens
+        } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          content += event.delta.text
+          onToken(event.delta.text)
+        } else if (event.type === 'message_delta') {
+          outputTokens = event.usage.output_tokens
+        }
+      }
+
+      return { content, tokensUsed: inputTokens + outputTokens }
+    }
+  }
+}
+
+// ==================================================================
+// STUB
+// ==================================================================
+
+// Same prompt in, same text out. Content is derived from the prompt's task and context
+// lines so callers still get something topical, and a short hash makes responses traceable.
+// Prompts that ask for JSON get JSON back, so callers parsing the response keep working offline.
+export function stubCompletion(prompt: string, maxTokens: number): string {
+  if (/\bJSON\b/i.test(prompt)) {
+    return stubJsonCompletion(prompt)
+  }
+
+  let hash = 2166136261
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  const fingerprint = (hash >>> 0).toString(16).padStart(8, '0')
+
+  const line = (label: string) => {
+    const match = prompt.match(new RegExp(`^${label}:\\s*(.+)$`, 'm'))
+    return match ? match[1].trim() : ''
+  }
+  const task = line('Task') || 'Respond to the learner.'
+  const context = line('Context') || prompt.trim().split('\n').filter(Boolean).slice(-1)[0] || ''
+  const words = `[offline:${fingerprint}] ${task} Regarding ${context.slice(0, 200)}: start from the core idea, ` +
+    'work through one concrete example step by step, then check understanding with a short question.'
+
+  // Roughly respect the token budget (about four characters per token)
+  return words.slice(0, Math.max(32, maxTokens * 4))
+}
+
+// Echo the first JSON example in the prompt, which has the shape the caller parses;
+// otherwise an empty array or object, whichever the prompt asks for
+function stubJsonCompletion(prompt: string): string {
+  for (let start = 0; start < prompt.length; start++) {
+    if (prompt[start] !== '{' && prompt[start] !== '[') continue
+    const example = balancedJsonAt(prompt, start)
+    if (example !== undefined) return JSON.stringify(example)
+  }
+  return /JSON array/i.test(prompt) ? '[]' : '{}'
+}
+
+// Parse the bracketed JSON value starting at `start`, or undefined when it is not valid JSON
+function balancedJsonAt(text: string, start: number): unknown {
+  let depth = 0
+  let inString = false
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]
+    if (inString) {
+      if (char === '\\') i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) {
+        try {
+          return JSON.parse(text.slice(start, i + 1))
+        } catch {
+          return undefined
+        }
+      }
+    }
+  }
+  return undefined
+}
+
+function createStubProvider(): AIProvider {
+  return {
+    id: 'stub',
+    isAvailable: () => true,
+
+    async complete(request) {
+      const content = stubCompletion(request.prompt, request.maxTokens)
+      return { content, tokensUsed: estimateTokens(request.prompt + content) }
+    },
+
+    async stream(request, onToken) {
+      const content = stubCompletion(request.prompt, request.maxTokens)
+      for (const token of content.match(/\S+\s*/g) || []) {
+        onToken(token)
+      }
+      return { content, tokensUsed: estimateTokens(request.prompt + content) }
+    }
+  }
+}
+
+// ==================================================================
+// REGISTRY
+// ==================================================================
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export const LOCAL_LLM_DEFAULT_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1:8b'
+
+const providers: Record<AIProviderId, AIProvider> = {
+  openai: createOpenAICompatibleProvider({
+    id: 'openai',
+    apiKey: process.env.OPENAI_API_KEY || '',
+    timeoutMs: 60_000,
+    isAvailable: () => !!process.env.OPENAI_API_KEY
+  }),
+  claude: createClaudeProvider(),
+  // e.g. LOCAL_LLM_BASE_URL=http://localhost:11434/v1 (Ollama) or http://localhost:8080/v1 (llama.cpp server)
+  local: createOpenAICompatibleProvider({
+    id: 'local',
+    baseURL: process.env.LOCAL_LLM_BASE_URL,
+    apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    timeoutMs: 300_000,
+    isAvailable: () => !!process.env.LOCAL_LLM_BASE_URL
+  }),
+  stub: createStubProvider()
+}
+
+export function getAIProvider(id: AIProviderId): AIProvider {
+  return providers[id]
+}
+
+// Swap in a custom backend (another local server, a recording double in tests)
+export function registerAIProvider(provider: AIProvider): void {
+  providers[provider.id] = provider
+}
+
+export function isAIProviderId(value: string): value is AIProviderId {
+  return value === 'openai' || value === 'claude' || value === 'local' || value === 'stub'
+}
@@ -0,0 +1,348 @@
+// AI Response Cache
+// Request-level cache for generated lessons and quizzes. Keys combine the normalized request
+// with a coarse user-profile bucket (subject, level, age group, use case), so learners with the
+// same profile asking for the same thing share one generation instead of hitting the model again.
+
+import type { UserProfile } from '@/types'
+import type { UseCase } from './multi-model-ai'
+
+export type CachedGenerationKind = 'content' | 'quiz'
+
+export interface ResponseCacheSettings {
+  enabled: boolean
+  ttlSeconds: Record<CachedGenerationKind, number>
+  useCaseTtlSeconds: Partial<Record<UseCase, number>> // overrides the per-kind TTL
+  disabledUseCases: UseCase[] // always generated fresh
+  maxEntries: number
+}
+
+export class ResponseCacheSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ResponseCacheSettingsError'
+  }
+}
+
+export interface CacheLookup {
+  status: 'hit' | 'miss' | 'bypass'
+  cacheId?: string
+  expiresAt?: string
+}
+
+interface CacheEntry {
+  id: string
+  kind: CachedGenerationKind
+  useCase: UseCase
+  value: unknown
+  searchText: string // normalized response text, used for safety invalidation
+  createdAt: number
+  expiresAt: number
+  hits: number
+}
+
+interface CacheCounters {
+  hits: number
+  misses: number
+  bypassed: number
+}
+
+export interface ResponseCacheMetrics {
+  hits: number
+  misses: number
+  bypassed: number
+  hitRate: number
+  entries: number
+  evictions: number
+  invalidations: number
+  byUseCase: Record<string, CacheCounters & { hitRate: number }>
+  byKind: Record<CachedGenerationKind, CacheCounters & { hitRate: number }>
+  settings: ResponseCacheSettings
+}
+
+const DEFAULT_SETTINGS: ResponseCacheSettings = {
+  enabled: process.env.AI_RESPONSE_CACHE !== 'off',
+  ttlSeconds: {
+    content: 24 * 60 * 60,
+    quiz: 6 * 60 * 60 // shorter so repeat learners see fresh questions
+  },
+  useCaseTtlSeconds: {},
+  disabledUseCases: (process.env.AI_RESPONSE_CACHE_DISABLED_USE_CASES || '')
+    .split(',')
+    .map(useCase => useCase.trim())
+    .filter(Boolean) as UseCase[],
+  maxEntries: 1000
+}
+
+// Bounds for configure(): every entry holds a full generation in memory
+const MAX_ENTRIES_LIMIT = 10000
+const MAX_TTL_SECONDS = 7 * 24 * 60 * 60
+
+function isTtl(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= MAX_TTL_SECONDS
+}
+
+function validateSettings(settings: Partial<ResponseCacheSettings>): void {
+  if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+    throw new ResponseCacheSettingsError('enabled must be true or false')
+  }
+  if (settings.maxEntries !== undefined &&
+    (!Number.isInteger(settings.maxEntries) || settings.maxEntries < 0 || settings.maxEntries > MAX_ENTRIES_LIMIT)) {
+    throw new ResponseCacheSettingsError(`maxEntries must be a whole number from 0 to ${MAX_ENTRIES_LIMIT}`)
+  }
+  const ttls = [...Object.entries(settings.ttlSeconds || {}), ...Object.entries(settings.useCaseTtlSeconds || {})]
+  if (settings.ttlSeconds && Object.keys(settings.ttlSeconds).some(kind => kind !== 'content' && kind !== 'quiz')) {
+    throw new ResponseCacheSettingsError('ttlSeconds only takes content and quiz')
+  }
+  if (ttls.some(([, ttl]) => !isTtl(ttl))) {
+    throw new ResponseCacheSettingsError(`TTLs must be from 0 to ${MAX_TTL_SECONDS} seconds`)
+  }
+  if (settings.disabledUseCases !== undefined &&
+    (!Array.isArray(settings.disabledUseCases) || settings.disabledUseCases.some(useCase => typeof useCase !== 'string'))) {
+    throw new ResponseCacheSettingsError('disabledUseCases must be a list of use cases')
+  }
+}
+
+// Lowercase and collapse whitespace so trivially different prompts share a key. Punctuation and
+// operators stay: "2+3" and "2-3", or "C" and "C++", are different requests.
+export function normalizeCacheText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+// Object keys are sorted, array order is kept (question types, steps and options are ordered)
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === 'string') return normalizeCacheText(value)
+  if (Array.isArray(value)) return value.map(normalizeValue)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => [key, normalizeValue((value as Record<string, unknown>)[key])])
+    )
+  }
+  return value
+}
+
+export function profileBucket(userProfile: UserProfile): string {
+  return [
+    normalizeCacheText(userProfile.subject || ''),
+    userProfile.level || 'beginner',
+    userProfile.age_group || 'adult',
+    userProfile.use_case || 'lifelong'
+  ].join('|')
+}
+
+function hashKey(text: string): string {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+// The text a learner would see: every string in the generation, without JSON quoting
+function textOf(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (Array.isArray(value)) return value.map(textOf).join(' ')
+  if (value && typeof value === 'object') return Object.values(value as Record<string, unknown>).map(textOf).join(' ')
+  return ''
+}
+
+function cacheIdOf(key: string): string {
+  return `cache_${hashKey(key)}`
+}
+
+export class AIResponseCache {
+  private entries = new Map<string, CacheEntry>()
+  private settings: ResponseCacheSettings = { ...DEFAULT_SETTINGS, ttlSeconds: { ...DEFAULT_SETTINGS.ttlSeconds } }
+  private counters = new Map<string, CacheCounters>()
+  private evictions = 0
+  private invalidations = 0
+
+  buildKey(kind: CachedGenerationKind, request: Record<string, unknown>, userProfile: UserProfile): string {
+    return `${kind}:${profileBucket(userProfile)}:${JSON.stringify(normalizeValue(request))}`
+  }
+
+  /**
+   * The id a generation of `request` is cached under, for invalidating it from elsewhere
+   */
+  cacheIdFor(kind: CachedGenerationKind, request: Record<string, unknown>, userProfile: UserProfile): string {
+    return cacheIdOf(this.buildKey(kind, request, userProfile))
+  }
+
+  /**
+   * Return a cached generation or produce, store and return a fresh one.
+   * `cacheable` lets callers keep fallback/placeholder results out of the cache.
+   */
+  async getOrGenerate<T>(options: {
+    kind: CachedGenerationKind
+    useCase: UseCase
+    request: Record<string, unknown>
+    userProfile: UserProfile
+    generate: () => Promise<T>
+    cacheable?: (value: T) => boolean
+  }): Promise<{ value: T; cache: CacheLookup }> {
+    const { kind, useCase } = options
+
+    if (!this.settings.enabled || this.settings.disabledUseCases.includes(useCase)) {
+      this.count(kind, useCase, 'bypassed')
+      return { value: await options.generate(), cache: { status: 'bypass' } }
+    }
+
+    const key = this.buildKey(kind, options.request, options.userProfile)
+    const existing = this.entries.get(key)
+
+    if (existing && existing.expiresAt > Date.now()) {
+      existing.hits++
+      // Re-insert to keep the Map in least-recently-used order
+      this.entries.delete(key)
+      this.entries.set(key, existing)
+      this.count(kind, useCase, 'hits')
+      return {
+        value: existing.value as T,
+        cache: { status: 'hit', cacheId: existing.id, expiresAt: new Date(existing.expiresAt).toISOString() }
+      }
+    }
+
+    if (existing) {
+      this.entries.delete(key)
+    }
+
+    this.count(kind, useCase, 'misses')
+    const value = await options.generate()
+
+    if (options.cacheable && !options.cacheable(value)) {
+      return { value, cache: { status: 'miss' } }
+    }
+
+    const ttlSeconds = this.settings.useCaseTtlSeconds[useCase] ?? this.settings.ttlSeconds[kind]
+    const entry: CacheEntry = {
+      id: cacheIdOf(key),
+      kind,
+      useCase,
+      value,
+      searchText: normalizeCacheText(textOf(value)),
+      createdAt: Date.now(),
+      expiresAt: Date.now() + ttlSeconds * 1000,
+      hits: 0
+    }
+    this.entries.set(key, entry)
+    this.evictOverflow()
+
+    return {
+      value,
+      cache: { status: 'miss', cacheId: entry.id, expiresAt: new Date(entry.expiresAt).toISOString() }
+    }
+  }
+
+  /**
+   * Drop cached generations by cache id, or any whose text contains a flagged passage
+   */
+  invalidate(match: { cacheId?: string; text?: string }): number {
+    const flaggedText = match.text ? normalizeCacheText(match.text) : ''
+    let removed = 0
+
+    for (const [key, entry] of this.entries) {
+      const idMatch = match.cacheId !== undefined && entry.id === match.cacheId
+      // Very short passages would match unrelated content
+      const textMatch = flaggedText.length >= 20 && entry.searchText.includes(flaggedText)
+      if (idMatch || textMatch) {
+        this.entries.delete(key)
+        removed++
+      }
+    }
+
+    this.invalidations += removed
+    return removed
+  }
+
+  clear(): void {
+    this.invalidations += this.entries.size
+    this.entries.clear()
+  }
+
+  configure(settings: Partial<ResponseCacheSettings>): ResponseCacheSettings {
+    validateSettings(settings)
+    this.settings = {
+      enabled: settings.enabled ?? this.settings.enabled,
+      ttlSeconds: { ...this.settings.ttlSeconds, ...settings.ttlSeconds },
+      useCaseTtlSeconds: { ...this.settings.useCaseTtlSeconds, ...settings.useCaseTtlSeconds },
+      disabledUseCases: settings.disabledUseCases ?? this.settings.disabledUseCases,
+      maxEntries: settings.maxEntries ?? this.settings.maxEntries
+    }
+    this.evictOverflow()
+    return this.settings
+  }
+
+  getMetrics(): ResponseCacheMetrics {
+    const withRate = (counters: CacheCounters) => ({
+      ...counters,
+      hitRate: counters.hits + counters.misses > 0 ? counters.hits / (counters.hits + counters.misses) : 0
+    })
+
+    const totals: CacheCounters = { hits: 0, misses: 0, bypassed: 0 }
+    const byUseCase: ResponseCacheMetrics['byUseCase'] = {}
+    const byKind: Record<CachedGenerationKind, CacheCounters> = {
+      content: { hits: 0, misses: 0, bypassed: 0 },
+      quiz: { hits: 0, misses: 0, bypassed: 0 }
+    }
+
+    for (const [counterKey, counters] of this.counters) {
+      const [kind, useCase] = counterKey.split(':') as [CachedGenerationKind, string]
+      const useCaseTotals = byUseCase[useCase] || { hits: 0, misses: 0, bypassed: 0, hitRate: 0 }
+      for (const field of ['hits', 'misses', 'bypassed'] as const) {
+        totals[field] += counters[field]
+        byKind[kind][field] += counters[field]
+        useCaseTotals[field] += counters[field]
+      }
+      byUseCase[useCase] = withRate(useCaseTotals)
+    }
+
+    this.pruneExpired()
+
+    return {
+      ...withRate(totals),
+      entries: this.entries.size,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      byUseCase,
+      byKind: { content: withRate(byKind.content), quiz: withRate(byKind.quiz) },
+      settings: this.settings
+    }
+  }
+
+  private count(kind: CachedGenerationKind, useCase: UseCase, field: keyof CacheCounters): void {
+    const key = `${kind}:${useCase}`
+    const counters = this.counters.get(key) || { hits: 0, misses: 0, bypassed: 0 }
+    counters[field]++
+    this.counters.set(key, counters)
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  private evictOverflow(): void {
+    if (this.entries.size <= this.settings.maxEntries) return
+    this.pruneExpired()
+    // Oldest-used entries come first in Map iteration order
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.settings.maxEntries) break
+      this.entries.delete(key)
+      this.evictions++
+    }
+  }
+}
+
+// Export singleton instance
+export const aiResponseCache = new AIResponseCache()
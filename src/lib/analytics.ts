@@ -273,14 +273,36 @@ class AnalyticsClient {
     const events = [...this.eventQueue]
     this.eventQueue = []
 
+    if (!navigator.onLine) {
+      await this.queueOffline(events)
+      return
+    }
+
     try {
       await this.sendEvents(events)
     } catch (error) {
       console.error('Failed to send analytics events:', error)
-      // Re-queue failed events (with limit to prevent infinite queue growth)
-      if (this.eventQueue.length < 100) {
-        this.eventQueue.unshift(...events)
-      }
+      await this.queueOffline(events)
+    }
+  }
+
+  // Unsent batches go to the offline outbox and replay on reconnect (see offline-sync.ts)
+  private async queueOffline(events: AnalyticsEvent[]): Promise<void> {
+    try {
+      const { queueOfflineOperation } = await import('./offline-sync')
+      const queued = await queueOfflineOperation(
+        'analytics_batch',
+        { events: events.map(event => ({ ...event, properties: { ...event.properties, offline: true } })) },
+        new Date(events[0].timestamp)
+      )
+      if (queued) return
+    } catch (error) {
+      console.error('Failed to queue analytics events offline:', error)
+    }
+
+    // No offline storage: re-queue in memory (with limit to prevent infinite queue growth)
+    if (this.eventQueue.length < 100) {
+      this.eventQueue.unshift(...events)
     }
   }
 
@@ -310,6 +332,12 @@ class AnalyticsClient {
     }
     
     window.addEventListener('beforeunload', () => {
+      if (this.eventQueue.length > 0 && !navigator.onLine) {
+        void this.queueOffline(this.eventQueue)
+        this.eventQueue = []
+        return
+      }
+
       // Send any remaining events synchronously before page unload
       if (this.eventQueue.length > 0) {
         navigator.sendBeacon('/api/analytics/track', JSON.stringify({
@@ -0,0 +1,211 @@
+// API Auth Guard
+// Resolves the Supabase session behind an API request, maps the profile to application roles and
+// checks per-action access the same way 002_rls_policies.sql / 008_guardian_roles.sql do for the tables:
+// users own their records, teachers read their organization's learners, org admins manage their
+// organization, super admins manage everything, parents see linked children.
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { getBearerToken, verifySupabaseJwt } from './request-identity'
+
+export type AppRole = 'learner' | 'parent' | 'instructor' | 'org_admin' | 'moderator'
+
+export type ProfileRole = 'student' | 'teacher' | 'admin' | 'super_admin' | 'parent' | 'moderator'
+
+export interface AuthContext {
+  userId: string
+  email?: string
+  profileRole: ProfileRole
+  roles: AppRole[]
+  organizationId?: string
+  childIds: string[] // learners linked through guardian_links
+  isPlatformAdmin: boolean // super_admin: not limited to one organization
+}
+
+// Who may perform an action. `roles` grant access outright (org-scoped for instructors and org admins);
+// the other flags grant it for the subject's own records, their direct manager and their parents.
+export interface AccessRule {
+  roles: AppRole[]
+  allowSelf?: boolean
+  allowManager?: boolean
+  allowGuardian?: boolean
+}
+
+// The record an action touches, as far as access control is concerned
+export interface AccessSubject {
+  userIds?: string[] // owners: the learner, employee, course instructor...
+  organizationId?: string
+  managerId?: string // direct manager
+  guardianEmails?: string[] // parent/guardian contacts stored on the record
+}
+
+export class AuthError extends Error {
+  constructor(
+    message: string,
+    public status: 401 | 403
+  ) {
+    super(message)
+    this.name = 'AuthError'
+  }
+}
+
+// Profile rows (role, organization) change rarely; cache them briefly to avoid a query per request
+const PROFILE_CACHE_TTL_MS = 60 * 1000
+const profileCache = new Map<string, { expiresAt: number; profile: Omit<AuthContext, 'userId' | 'email'> }>()
+
+// Every signed-in user can learn; other roles come from profiles.role
+const ROLE_MAPPING: Record<ProfileRole, AppRole[]> = {
+  student: ['learner'],
+  teacher: ['learner', 'instructor'],
+  admin: ['learner', 'instructor', 'org_admin'],
+  super_admin: ['learner', 'instructor', 'org_admin', 'moderator'],
+  parent: ['learner', 'parent'],
+  moderator: ['learner', 'moderator']
+}
+
+async function getSupabaseAdmin() {
+  const { supabaseAdmin } = await import('./supabase')
+  return supabaseAdmin
+}
+
+// Without SUPABASE_JWT_SECRET the token is checked by the Supabase Auth server instead
+async function resolveSessionUser(token: string): Promise<{ id: string; email?: string } | null> {
+  if (process.env.SUPABASE_JWT_SECRET) {
+    const claims = await verifySupabaseJwt(token)
+    return claims ? { id: claims.sub, email: claims.email } : null
+  }
+
+  const client = await getSupabaseAdmin()
+  const { data, error } = await client.auth.getUser(token)
+  if (error || !data.user) return null
+  return { id: data.user.id, email: data.user.email }
+}
+
+async function loadProfileAccess(userId: string): Promise<Omit<AuthContext, 'userId' | 'email'>> {
+  const cached = profileCache.get(userId)
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.profile
+  }
+
+  const client = await getSupabaseAdmin()
+  const { data: profile, error } = await client
+    .from('profiles')
+    .select('role, organization_id')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load profile for ${userId}: ${error.message}`)
+  }
+
+  const profileRole: ProfileRole = profile?.role || 'student'
+  let childIds: string[] = []
+  if (profileRole === 'parent') {
+    const { data: links } = await client
+      .from('guardian_links')
+      .select('child_id')
+      .eq('parent_id', userId)
+    childIds = (links || []).map(link => link.child_id)
+  }
+
+  const access = {
+    profileRole,
+    roles: ROLE_MAPPING[profileRole] || ['learner'],
+    organizationId: profile?.organization_id || undefined,
+    childIds,
+    isPlatformAdmin: profileRole === 'super_admin'
+  }
+  profileCache.set(userId, { expiresAt: Date.now() + PROFILE_CACHE_TTL_MS, profile: access })
+  return access
+}
+
+/**
+ * Resolve the caller from `Authorization: Bearer <supabase access token>`, or null when signed out
+ */
+export async function resolveAuthContext(request: NextRequest): Promise<AuthContext | null> {
+  const token = getBearerToken(request)
+  if (!token) return null
+
+  const user = await resolveSessionUser(token)
+  if (!user) return null
+
+  return {
+    userId: user.id,
+    email: user.email,
+    ...(await loadProfileAccess(user.id))
+  }
+}
+
+/**
+ * Resolve the caller or throw a 401 AuthError
+ */
+export async function requireAuth(request: NextRequest): Promise<AuthContext> {
+  const auth = await resolveAuthContext(request)
+  if (!auth) {
+    throw new AuthError('Authentication required', 401)
+  }
+  return auth
+}
+
+export function hasRole(auth: AuthContext, ...roles: AppRole[]): boolean {
+  return roles.some(role => auth.roles.includes(role))
+}
+
+export function isInOrganization(auth: AuthContext, organizationId?: string): boolean {
+  return auth.isPlatformAdmin || (!!organizationId && auth.organizationId === organizationId)
+}
+
+/**
+ * Whether the caller may perform an action on a subject under a rule
+ */
+export function canAccess(auth: AuthContext, rule: AccessRule, subject: AccessSubject = {}): boolean {
+  if (auth.isPlatformAdmin) return true
+
+  for (const role of rule.roles) {
+    if (!auth.roles.includes(role)) continue
+
+    // Instructors and org admins act within their own organization only, so a subject without one is not theirs
+    if (role === 'instructor' || role === 'org_admin') {
+      if (isInOrganization(auth, subject.organizationId)) return true
+      continue
+    }
+
+    return true
+  }
+
+  const owners = subject.userIds?.filter(Boolean) || []
+
+  if (rule.allowSelf && owners.includes(auth.userId)) {
+    return true
+  }
+
+  if (rule.allowManager && !!subject.managerId && subject.managerId === auth.userId) {
+    return true
+  }
+
+  if (rule.allowGuardian && hasRole(auth, 'parent')) {
+    const linkedChild = owners.some(ownerId => auth.childIds.includes(ownerId))
+    const listedGuardian = !!auth.email && !!subject.guardianEmails?.some(
+      email => email.toLowerCase() === auth.email!.toLowerCase()
+    )
+    if (linkedChild || listedGuardian) return true
+  }
+
+  return false
+}
+
+/**
+ * Throw a 403 AuthError unless the caller may perform the action
+ */
+export function authorize(auth: AuthContext, rule: AccessRule | undefined, subject: AccessSubject = {}): void {
+  if (!rule || !canAccess(auth, rule, subject)) {
+    throw new AuthError('You do not have permission to perform this action', 403)
+  }
+}
+
+/**
+ * JSON response for an AuthError, or null so callers fall through to their own error handling
+ */
+export function authErrorResponse(error: unknown): NextResponse | null {
+  if (!(error instanceof AuthError)) return null
+  return NextResponse.json({ error: error.message }, { status: error.status })
+}
@@ -2,6 +2,7 @@
 // Handles user registration, login, profile creation, and session management
 
 import { supabase, supabaseAdmin, safeQuery, createUserProfile } from './supabase'
+import { deleteOfflineData } from './offline-store'
 import type { UserProfile } from '@/types'
 
 export interface AuthUser {
@@ -123,6 +124,7 @@ export async function signIn(data: SignInData) {
 // Sign out current user
 export async function signOut() {
   try {
+    const { data: { session } } = await supabase.auth.getSession()
     const { error } = await supabase.auth.signOut()
     
     if (error) {
@@ -133,6 +135,7 @@ export async function signOut() {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('learning-platform-user')
       sessionStorage.clear()
+      if (session?.user) await deleteOfflineData(session.user.id)
     }
   } catch (error) {
     console.error('Sign out error:', error)
@@ -157,6 +160,12 @@ export async function getCurrentSession() {
   }
 }
 
+// Authorization header for calls to guarded API routes (empty when signed out)
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const session = await getCurrentSession()
+  return session?.access_token ? { Authorization: `Bearer ${session.access_token}` } : {}
+}
+
 // Get current user
 export async function getCurrentUser() {
   try {
@@ -520,6 +520,7 @@ export class AutomatedCurriculumGenerator {
     model: 'gpt-4o-mini',
     temperature: 0.7,
     maxTokens: 3000,
+    costPer1kTokens: 0.0004,
     specialties: ['curriculum_development', 'educational_design', 'learning_objectives'],
     strengths: ['structured_content', 'comprehensive_analysis', 'educational_methodology'],
     optimalUseCases: ['general_tutoring', 'study_planning', 'content_explanation']
@@ -64,6 +64,8 @@ interface RoutingDecision {
   estimatedCost: number
   estimatedResponseTime: number
   routingStrategy: string
+  propensity: number // probability the strategy had of selecting this model, logged for offline evaluation
+  selectionProbabilities: Record<string, number>
   metadata: {
     circuitBreakerStates: Record<string, CircuitBreakerState>
     modelHealthScores: Record<string, number>
@@ -319,26 +321,8 @@ class AutomatedModelRouter {
     const availableModels = this.getAvailableModels()
     
     // Apply routing strategy
-    let selectedModel: string
-    let reason: string
-    let confidence: number
-
-    switch (strategy.strategy) {
-      case 'primary_fallback':
-        ({ selectedModel, reason, confidence } = this.applyPrimaryFallbackStrategy(strategy, availableModels, context))
-        break
-      case 'load_balanced':
-        ({ selectedModel, reason, confidence } = this.applyLoadBalancedStrategy(strategy, availableModels, context))
-        break
-      case 'performance_optimized':
-        ({ selectedModel, reason, confidence } = this.applyPerformanceOptimizedStrategy(strategy, availableModels, context))
-        break
-      case 'cost_optimized':
-        ({ selectedModel, reason, confidence } = this.applyCostOptimizedStrategy(strategy, availableModels, context))
-        break
-      default:
-        ({ selectedModel, reason, confidence } = this.applyPrimaryFallbackStrategy(strategy, availableModels, context))
-    }
+    const { selectedModel, reason, confidence } = this.applyStrategy(strategy, availableModels, context)
+    const selectionProbabilities = this.selectionProbabilities(strategy, availableModels, context)
 
     // Get alternative models for fallback
     const alternativeModels = availableModels.filter(m => m !== selectedModel)
@@ -358,6 +342,8 @@ class AutomatedModelRouter {
       estimatedCost,
       estimatedResponseTime,
       routingStrategy: strategy.strategy,
+      propensity: selectionProbabilities[selectedModel] ?? 1,
+      selectionProbabilities,
       metadata: {
         circuitBreakerStates: Object.fromEntries(
           Array.from(this.circuitBreakers.entries()).map(([id, breaker]) => [id, breaker.state])
@@ -371,6 +357,53 @@ class AutomatedModelRouter {
     }
   }
 
+  // Probability of each available model under a named strategy, for replaying logged routing decisions
+  strategyProbabilities(strategyName: string, availableModels: string[], context: RequestContext): Record<string, number> {
+    const strategy = this.routingStrategies.get(strategyName) || this.routingStrategies.get('default')!
+    return this.selectionProbabilities(strategy, availableModels, context)
+  }
+
+  private applyStrategy(
+    strategy: RoutingStrategy,
+    availableModels: string[],
+    context: RequestContext
+  ): { selectedModel: string, reason: string, confidence: number } {
+    switch (strategy.strategy) {
+      case 'primary_fallback':
+        return this.applyPrimaryFallbackStrategy(strategy, availableModels, context)
+      case 'load_balanced':
+        return this.applyLoadBalancedStrategy(strategy, availableModels, context)
+      case 'performance_optimized':
+        return this.applyPerformanceOptimizedStrategy(strategy, availableModels, context)
+      case 'cost_optimized':
+        return this.applyCostOptimizedStrategy(strategy, availableModels, context)
+      default:
+        return this.applyPrimaryFallbackStrategy(strategy, availableModels, context)
+    }
+  }
+
+  // Load balancing draws by weight; every other strategy is deterministic given model health
+  private selectionProbabilities(
+    strategy: RoutingStrategy,
+    availableModels: string[],
+    context: RequestContext
+  ): Record<string, number> {
+    if (strategy.strategy === 'load_balanced' && strategy.weights) {
+      const weights = strategy.weights
+      const total = availableModels.reduce((sum, modelId) => sum + (weights[modelId] || 0), 0)
+      return total > 0
+        ? Object.fromEntries(availableModels.map(modelId => [modelId, (weights[modelId] || 0) / total]))
+        : {}
+    }
+
+    try {
+      const { selectedModel } = this.applyStrategy(strategy, availableModels, context)
+      return Object.fromEntries(availableModels.map(modelId => [modelId, modelId === selectedModel ? 1 : 0]))
+    } catch {
+      return {}
+    }
+  }
+
   // Get models that are available (circuit breaker allows)
   private getAvailableModels(): string[] {
     return Array.from(this.circuitBreakers.entries())
@@ -572,10 +605,12 @@ class AutomatedModelRouter {
   async executeWithFallback(
     requestFn: (modelId: string) => Promise<any>,
     context: RequestContext,
-    strategyName: string = 'default'
+    strategyName: string = 'default',
+    onDecision?: (decision: RoutingDecision) => void
   ): Promise<{ result: any, modelUsed: string, attempts: number, totalTime: number }> {
     const startTime = Date.now()
     const decision = await this.makeRoutingDecision(context, strategyName)
+    onDecision?.(decision)
     let attempts = 0
 
     for (const modelId of decision.metadata.fallbackChain) {
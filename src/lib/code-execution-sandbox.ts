@@ -0,0 +1,397 @@
+// Code Execution Sandbox
+// Runs learner submissions in a separate, resource-limited process and evaluates test cases.
+// In production every run goes through nsjail (SANDBOX_NSJAIL_PATH): a fresh network namespace with no
+// interfaces, read-only runtime directories and nothing else of the host filesystem, an unprivileged uid,
+// and cgroup memory and process caps that also count what the runtimes allocate outside their own limits
+// (V8 ArrayBuffers, native memory). Outside production, submissions run unjailed under rlimits only.
+// Server-only: spawns child processes.
+
+import { spawn } from 'child_process'
+import { existsSync } from 'fs'
+import { chmod, mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import type { TestCase } from './interactive-content-engine'
+
+export type SandboxLanguage = 'javascript' | 'typescript' | 'python'
+
+export const SUPPORTED_SANDBOX_LANGUAGES: SandboxLanguage[] = ['javascript', 'typescript', 'python']
+
+export interface SandboxExecutionRequest {
+  language: SandboxLanguage
+  code: string
+  input?: string
+  timeLimitMs?: number
+  memoryLimitMb?: number
+}
+
+export interface SandboxExecutionResult {
+  success: boolean
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  timedOut: boolean
+  memoryExceeded: boolean
+  outputTruncated: boolean
+  executionTime: number // ms
+}
+
+export interface SandboxTestResult {
+  testId: string
+  passed: boolean
+  input: any
+  expectedOutput: any
+  actualOutput: any
+  executionTime: number
+  weight: number
+  isHidden: boolean
+  error?: string
+}
+
+export type SandboxOutputListener = (stream: 'stdout' | 'stderr', chunk: string) => void
+
+export const SANDBOX_LIMITS = {
+  defaultTimeLimitMs: 5000,
+  maxTimeLimitMs: 15000,
+  defaultMemoryLimitMb: 128,
+  minMemoryLimitMb: 64,
+  maxMemoryLimitMb: 512,
+  maxOutputBytes: 64 * 1024,
+  maxCodeBytes: 100 * 1024,
+  maxTestCases: 25,
+  maxProcesses: 16
+}
+
+// ==================================================================
+// RUNNERS
+// ==================================================================
+
+// Node runner: evaluates the submission inside a fresh vm context with no require/process access
+const NODE_RUNNER = `
+const vm = require('vm')
+const util = require('util')
+let raw = ''
+process.stdin.setEncoding('utf8')
+process.stdin.on('data', chunk => { raw += chunk })
+process.stdin.on('end', () => {
+  const payload = JSON.parse(raw)
+  const format = args => args.map(arg => typeof arg === 'string' ? arg : util.inspect(arg, { depth: 4 })).join(' ') + '\\n'
+  const out = (...args) => process.stdout.write(format(args))
+  const err = (...args) => process.stderr.write(format(args))
+  const lines = payload.input.split('\\n')
+  let cursor = 0
+  const sandbox = {
+    console: { log: out, info: out, debug: out, warn: err, error: err },
+    input: payload.input,
+    readInput: () => payload.input,
+    readLine: () => (cursor < lines.length ? lines[cursor++] : null)
+  }
+  try {
+    vm.runInNewContext(payload.code, sandbox, {
+      filename: 'submission.js',
+      timeout: payload.timeLimitMs,
+      contextCodeGeneration: { strings: false, wasm: false }
+    })
+  } catch (error) {
+    const stack = error && error.stack ? error.stack.split('\\n').filter(line => !/node:|\\[eval\\]/.test(line)).join('\\n') : String(error)
+    process.stderr.write(stack + '\\n')
+    process.exitCode = 1
+  }
+})
+`
+
+// Python runner: applies rlimits to itself, then executes the submission with stdin replaced by the test input
+const PYTHON_RUNNER = `
+import io, json, resource, sys, traceback
+payload = json.loads(sys.stdin.read())
+memory = payload['memoryLimitMb'] * 1024 * 1024
+cpu = max(1, int(payload['timeLimitMs'] / 1000) + 1)
+resource.setrlimit(resource.RLIMIT_AS, (memory, memory))
+resource.setrlimit(resource.RLIMIT_CPU, (cpu, cpu))
+resource.setrlimit(resource.RLIMIT_FSIZE, (1024 * 1024, 1024 * 1024))
+resource.setrlimit(resource.RLIMIT_NPROC, (0, 0))
+sys.stdin = io.StringIO(payload['input'])
+try:
+    exec(compile(payload['code'], 'submission.py', 'exec'), {'__name__': '__main__'})
+except MemoryError:
+    sys.stderr.write('MemoryError: memory limit exceeded\\n')
+    sys.exit(137)
+except SystemExit:
+    raise
+except BaseException:
+    lines = traceback.format_exc().splitlines()
+    sys.stderr.write('\\n'.join(l for l in lines if '<string>' not in l) + '\\n')
+    sys.exit(1)
+`
+
+async function transpileTypeScript(code: string): Promise<string> {
+  try {
+    const ts = await import('typescript')
+    return ts.transpileModule(code, {
+      compilerOptions: {
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.None
+      },
+      reportDiagnostics: false
+    }).outputText
+  } catch (error) {
+    throw new Error(`TypeScript execution is unavailable: ${error instanceof Error ? error.message : 'compiler not installed'}`)
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// Host directories the runtimes need, mounted read-only inside the jail
+const JAIL_READONLY_MOUNTS = ['/usr', '/lib', '/lib64', '/bin', '/etc/alternatives', '/etc/ld.so.cache']
+const JAIL_UID = '65534' // nobody
+const JAIL_ENV = { PATH: '/usr/local/bin:/usr/bin:/bin', LANG: 'C.UTF-8', PYTHONIOENCODING: 'utf-8', NODE_ENV: 'production', HOME: '/tmp' }
+
+function jailed(
+  command: string,
+  args: string[],
+  workDir: string,
+  limits: { timeLimitMs: number; memoryLimitMb: number }
+): [string, string[]] {
+  const nsjail = process.env.SANDBOX_NSJAIL_PATH
+  if (!nsjail) {
+    if (process.env.NODE_ENV === 'production' && process.env.SANDBOX_ALLOW_UNJAILED !== 'true') {
+      throw new Error('Code execution is unavailable: SANDBOX_NSJAIL_PATH is not configured')
+    }
+    return [command, args]
+  }
+
+  // nsjail does not search PATH. Runtimes installed outside /usr (nvm, pyenv, /opt) get their prefix mounted too.
+  const executable = path.isAbsolute(command) ? command : path.join('/usr/bin', command)
+  const mounts = new Set(JAIL_READONLY_MOUNTS)
+  if (!JAIL_READONLY_MOUNTS.some(mount => executable.startsWith(`${mount}/`))) {
+    mounts.add(path.dirname(path.dirname(executable)))
+  }
+
+  return [nsjail, [
+    '--mode', 'o',
+    '--quiet',
+    '--user', JAIL_UID,
+    '--group', JAIL_UID,
+    '--hostname', 'sandbox',
+    // nsjail's default fresh network namespace has only a down loopback interface: no network access
+    ...Array.from(mounts).filter(mount => existsSync(mount)).flatMap(mount => ['--bindmount_ro', mount]),
+    '--bindmount', `${workDir}:/work`,
+    '--tmpfsmount', '/tmp',
+    '--cwd', '/work',
+    '--time_limit', String(Math.ceil(limits.timeLimitMs / 1000) + 1),
+    // Address space is capped by the cgroup instead; V8 reserves far more than it uses
+    '--rlimit_as', 'inf',
+    '--rlimit_fsize', '1',
+    '--detect_cgroupv2',
+    '--cgroup_mem_max', String(limits.memoryLimitMb * 1024 * 1024),
+    '--cgroup_pids_max', String(SANDBOX_LIMITS.maxProcesses),
+    ...Object.entries(JAIL_ENV).flatMap(([name, value]) => ['--env', `${name}=${value}`]),
+    '--',
+    executable,
+    ...args
+  ]]
+}
+
+// ==================================================================
+// EXECUTION
+// ==================================================================
+
+export function isSandboxLanguage(language: string): language is SandboxLanguage {
+  return (SUPPORTED_SANDBOX_LANGUAGES as string[]).includes(language)
+}
+
+/**
+ * Run one submission. Aborting `signal` (the client went away) kills the process.
+ */
+export async function runInSandbox(
+  request: SandboxExecutionRequest,
+  onOutput?: SandboxOutputListener,
+  signal?: AbortSignal
+): Promise<SandboxExecutionResult> {
+  if (!isSandboxLanguage(request.language)) {
+    throw new Error(`Unsupported language: ${request.language}`)
+  }
+  if (Buffer.byteLength(request.code, 'utf8') > SANDBOX_LIMITS.maxCodeBytes) {
+    throw new Error('Submission exceeds maximum code size')
+  }
+
+  const timeLimitMs = clamp(request.timeLimitMs || SANDBOX_LIMITS.defaultTimeLimitMs, 100, SANDBOX_LIMITS.maxTimeLimitMs)
+  const memoryLimitMb = clamp(
+    request.memoryLimitMb || SANDBOX_LIMITS.defaultMemoryLimitMb,
+    SANDBOX_LIMITS.minMemoryLimitMb,
+    SANDBOX_LIMITS.maxMemoryLimitMb
+  )
+
+  const code = request.language === 'typescript' ? await transpileTypeScript(request.code) : request.code
+  const payload = JSON.stringify({ code, input: request.input || '', timeLimitMs, memoryLimitMb })
+
+  const [runtime, runtimeArgs] = request.language === 'python'
+    ? [process.env.SANDBOX_PYTHON_PATH || 'python3', ['-I', '-S', '-c', PYTHON_RUNNER]]
+    : [process.execPath, [`--max-old-space-size=${memoryLimitMb}`, '--disallow-code-generation-from-strings', '-e', NODE_RUNNER]]
+
+  // Each run gets an empty working directory and a scrubbed environment
+  const workDir = await mkdtemp(path.join(tmpdir(), 'sandbox-'))
+  const startTime = Date.now()
+
+  try {
+    const [command, args] = jailed(runtime, runtimeArgs, workDir, { timeLimitMs, memoryLimitMb })
+    if (command !== runtime) {
+      // The jailed uid needs to enter its working directory
+      await chmod(workDir, 0o777)
+    }
+    signal?.throwIfAborted()
+
+    return await new Promise<SandboxExecutionResult>((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd: workDir,
+        env: {
+          PATH: process.env.PATH || '/usr/bin:/bin',
+          LANG: 'C.UTF-8',
+          PYTHONIOENCODING: 'utf-8',
+          NODE_ENV: 'production'
+        },
+        stdio: ['pipe', 'pipe', 'pipe']
+      })
+
+      let stdout = ''
+      let stderr = ''
+      let outputBytes = 0
+      let outputTruncated = false
+      let timedOut = false
+
+      const collect = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+        if (outputTruncated) return
+        outputBytes += chunk.length
+        let text = chunk.toString('utf8')
+        if (outputBytes > SANDBOX_LIMITS.maxOutputBytes) {
+          outputTruncated = true
+          text = text.slice(0, Math.max(0, text.length - (outputBytes - SANDBOX_LIMITS.maxOutputBytes))) + '\n[output truncated]\n'
+          child.kill('SIGKILL')
+        }
+        if (stream === 'stdout') stdout += text
+        else stderr += text
+        onOutput?.(stream, text)
+      }
+
+      child.stdout.on('data', collect('stdout'))
+      child.stderr.on('data', collect('stderr'))
+
+      // Wall-clock limit on top of the in-process limits (blocked I/O, sleeps)
+      const timer = setTimeout(() => {
+        timedOut = true
+        child.kill('SIGKILL')
+      }, timeLimitMs + 500)
+
+      const abort = () => child.kill('SIGKILL')
+      signal?.addEventListener('abort', abort, { once: true })
+      const cleanUp = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', abort)
+      }
+
+      child.on('error', error => {
+        cleanUp()
+        reject(new Error(`Failed to start ${request.language} runtime: ${error.message}`))
+      })
+
+      child.on('close', (exitCode, exitSignal) => {
+        cleanUp()
+        const vmTimeout = stderr.includes('Script execution timed out')
+        const cpuLimit = exitSignal === 'SIGXCPU'
+        const memoryExceeded = exitCode === 137 ||
+          /heap out of memory|MemoryError/.test(stderr)
+
+        if (timedOut || vmTimeout || cpuLimit) {
+          stderr += `\nTime limit exceeded (${timeLimitMs}ms)\n`
+        }
+
+        resolve({
+          success: exitCode === 0 && !timedOut && !vmTimeout && !outputTruncated,
+          stdout,
+          stderr,
+          exitCode,
+          timedOut: timedOut || vmTimeout || cpuLimit,
+          memoryExceeded,
+          outputTruncated,
+          executionTime: Date.now() - startTime
+        })
+      })
+
+      child.stdin.on('error', () => {
+        // Process exited before reading its payload; reported through 'close'
+      })
+      child.stdin.end(payload)
+    })
+  } finally {
+    await rm(workDir, { recursive: true, force: true })
+  }
+}
+
+// ==================================================================
+// TEST EVALUATION
+// ==================================================================
+
+// Test inputs are fed to the program on stdin: strings verbatim, anything else as JSON
+export function serializeTestInput(input: any): string {
+  if (input === undefined || input === null) return ''
+  return typeof input === 'string' ? input : JSON.stringify(input)
+}
+
+export function outputMatches(actual: string, expected: any): boolean {
+  const normalized = actual.replace(/\r\n/g, '\n').trim()
+
+  if (typeof expected === 'string') {
+    return normalized === expected.replace(/\r\n/g, '\n').trim()
+  }
+
+  try {
+    return JSON.stringify(JSON.parse(normalized)) === JSON.stringify(expected)
+  } catch {
+    return normalized === String(expected)
+  }
+}
+
+export async function evaluateTestCases(
+  request: Omit<SandboxExecutionRequest, 'input'>,
+  testCases: TestCase[],
+  onResult?: (result: SandboxTestResult) => void,
+  signal?: AbortSignal
+): Promise<SandboxTestResult[]> {
+  if (testCases.length > SANDBOX_LIMITS.maxTestCases) {
+    throw new Error(`Exercises can have at most ${SANDBOX_LIMITS.maxTestCases} test cases`)
+  }
+  const results: SandboxTestResult[] = []
+
+  for (const testCase of testCases) {
+    const execution = await runInSandbox({ ...request, input: serializeTestInput(testCase.input) }, undefined, signal)
+    const passed = execution.success && outputMatches(execution.stdout, testCase.expectedOutput)
+
+    let error: string | undefined
+    if (execution.timedOut) error = 'Time limit exceeded'
+    else if (execution.memoryExceeded) error = 'Memory limit exceeded'
+    else if (!execution.success) error = execution.stderr.trim() || `Process exited with code ${execution.exitCode}`
+    else if (!passed) error = 'Output does not match expected result'
+
+    // Hidden tests report pass/fail only
+    const result: SandboxTestResult = {
+      testId: testCase.id,
+      passed,
+      input: testCase.isHidden ? null : testCase.input,
+      expectedOutput: testCase.isHidden ? null : testCase.expectedOutput,
+      actualOutput: testCase.isHidden ? null : execution.stdout.trim(),
+      executionTime: execution.executionTime,
+      weight: testCase.weight,
+      isHidden: testCase.isHidden,
+      error: testCase.isHidden && error && !execution.timedOut && !execution.memoryExceeded
+        ? (passed ? undefined : 'Hidden test failed')
+        : error
+    }
+
+    results.push(result)
+    onResult?.(result)
+  }
+
+  return results
+}
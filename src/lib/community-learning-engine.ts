@@ -1,5 +1,7 @@
 'use client'
 
+import { EngineStateStore } from './engine-repository'
+
 export interface CommunityMember {
   memberId: string
   profile: {
@@ -314,14 +316,24 @@ export interface CommunityAnalytics {
 }
 
 class CommunityLearningEngine {
-  private members: Map<string, CommunityMember> = new Map()
-  private communities: Map<string, LearningCommunity> = new Map()
-  private content: Map<string, HobbyContent> = new Map()
-  private posts: Map<string, CommunityPost> = new Map()
-  private comments: Map<string, Comment> = new Map()
-  private challenges: Map<string, LearningChallenge> = new Map()
-  private progress: Map<string, UserProgress[]> = new Map()
-  private analytics: Map<string, CommunityAnalytics> = new Map()
+  private store = new EngineStateStore('community_learning')
+  private members: Map<string, CommunityMember> = this.store.map('members')
+  private communities: Map<string, LearningCommunity> = this.store.map('communities')
+  private content: Map<string, HobbyContent> = this.store.map('content')
+  private posts: Map<string, CommunityPost> = this.store.map('posts')
+  private comments: Map<string, Comment> = this.store.map('comments')
+  private challenges: Map<string, LearningChallenge> = this.store.map('challenges')
+  private progress: Map<string, UserProgress[]> = this.store.map('progress')
+  private analytics: Map<string, CommunityAnalytics> = this.store.map('analytics')
+
+  // Persistence
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
 
   // Member Management
   async createMember(member: CommunityMember): Promise<CommunityMember> {
@@ -616,6 +628,10 @@ class CommunityLearningEngine {
     return updatedPost
   }
 
+  getPost(postId: string): CommunityPost | null {
+    return this.posts.get(postId) || null
+  }
+
   getPostsByCommunity(communityId: string): CommunityPost[] {
     return Array.from(this.posts.values())
       .filter(post => post.communityId === communityId && post.moderation.isApproved)
@@ -712,12 +728,32 @@ class CommunityLearningEngine {
       .sort((a, b) => a.timeline.endDate.getTime() - b.timeline.endDate.getTime())
   }
 
+  // Active challenges ending before `until`, with each participant's progress
+  getChallengesEndingBefore(until: Date): { challenge: LearningChallenge; participants: { memberId: string; progressPercentage: number }[] }[] {
+    const endingSoon = this.getActiveChallenges().filter(challenge => challenge.timeline.endDate <= until)
+
+    return endingSoon.map(challenge => ({
+      challenge,
+      participants: Array.from(this.progress.entries()).flatMap(([memberId, progressList]) =>
+        progressList
+          .filter(entry => entry.challengeId === challenge.challengeId)
+          .map(entry => ({ memberId, progressPercentage: entry.progress.progressPercentage }))
+      )
+    }))
+  }
+
   getChallengesByCommunity(communityId: string): LearningChallenge[] {
     return Array.from(this.challenges.values())
       .filter(challenge => challenge.communityId === communityId)
       .sort((a, b) => b.timeline.startDate.getTime() - a.timeline.startDate.getTime())
   }
 
+  getCompletedChallenges(memberId: string): { challenge: LearningChallenge; completedAt: Date }[] {
+    return (this.progress.get(memberId) || [])
+      .filter(entry => entry.challengeId && entry.progress.completionDate && this.challenges.has(entry.challengeId))
+      .map(entry => ({ challenge: this.challenges.get(entry.challengeId!)!, completedAt: entry.progress.completionDate! }))
+  }
+
   async joinChallenge(memberId: string, challengeId: string): Promise<boolean> {
     const challenge = this.challenges.get(challengeId)
     if (!challenge || challenge.status !== 'active') return false
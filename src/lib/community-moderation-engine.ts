@@ -4,6 +4,7 @@ import type { UserProfile, ContentItem } from '@/types'
 import type { SafetyReport, SafetyClassification } from './content-safety-engine'
 import { contentSafetyEngine } from './content-safety-engine'
 import { multiModelAI } from './multi-model-ai'
+import { EngineStateStore } from './engine-repository'
 
 export interface CommunityReport {
   reportId: string
@@ -167,17 +168,26 @@ export interface CommunityModerationMetrics {
 }
 
 export class CommunityModerationEngine {
-  private reports: Map<string, CommunityReport> = new Map()
-  private moderationQueues: Map<string, ModerationQueue> = new Map()
-  private moderatorProfiles: Map<string, ModeratorProfile> = new Map()
-  private reportHistory: CommunityReport[] = []
-  private votingWeights: Map<string, number> = new Map()
+  private store = new EngineStateStore('community_moderation')
+  private reports: Map<string, CommunityReport> = this.store.map('reports')
+  private moderationQueues: Map<string, ModerationQueue> = new Map() // queue definitions, reports are resolved from queueAssignments
+  private queueAssignments: Map<string, ModerationQueue['queueType']> = this.store.map('queue_assignments')
+  private moderatorProfiles: Map<string, ModeratorProfile> = this.store.map('moderator_profiles')
+  private votingWeights: Map<string, number> = this.store.map('voting_weights')
 
   constructor() {
     this.initializeDefaultQueues()
     this.initializeVotingWeights()
   }
 
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
   /**
    * Submit a community report
    */
@@ -232,7 +242,6 @@ export class CommunityModerationEngine {
 
     // Store report
     this.reports.set(reportId, report)
-    this.reportHistory.push(report)
 
     // Add to appropriate moderation queue
     await this.addToModerationQueue(report)
@@ -294,6 +303,8 @@ export class CommunityModerationEngine {
     // Check if consensus threshold is reached
     await this.checkConsensusThreshold(report)
 
+    this.reports.set(reportId, report)
+
     return vote
   }
 
@@ -348,6 +359,8 @@ export class CommunityModerationEngine {
     // Update moderator statistics
     this.updateModeratorStatistics(moderatorId, action)
 
+    this.reports.set(reportId, report)
+
     return action
   }
 
@@ -385,6 +398,7 @@ export class CommunityModerationEngine {
     // Update report
     report.resolution = resolution
     report.status = 'resolved'
+    this.reports.set(reportId, report)
 
     // Notify involved parties
     await this.notifyResolution(report, resolution)
@@ -407,7 +421,8 @@ export class CommunityModerationEngine {
     const queue = this.moderationQueues.get(queueType)
     if (!queue) return null
 
-    let filteredReports = queue.reports
+    let filteredReports = Array.from(this.reports.values())
+      .filter(report => this.queueAssignments.get(report.reportId) === queueType)
 
     // Apply filters
     if (filters) {
@@ -434,7 +449,7 @@ export class CommunityModerationEngine {
     const timeframeMs = this.getTimeframeMs(timeframe)
     const cutoffDate = new Date(Date.now() - timeframeMs)
     
-    const recentReports = this.reportHistory.filter(report => report.timestamp >= cutoffDate)
+    const recentReports = Array.from(this.reports.values()).filter(report => report.timestamp >= cutoffDate)
     const resolvedReports = recentReports.filter(report => report.status === 'resolved')
 
     // Calculate metrics
@@ -639,7 +654,7 @@ export class CommunityModerationEngine {
     
     const queue = this.moderationQueues.get(queueType)
     if (queue) {
-      queue.reports.push(report)
+      this.queueAssignments.set(report.reportId, queueType)
       queue.lastUpdated = new Date()
     }
   }
@@ -0,0 +1,317 @@
+// Compliance Certificates
+// Signed PDF certificates for certifications issued by the corporate training engine, and signatures for
+// auditor compliance reports. Certificates are signed with Ed25519 over a canonical payload of the fields
+// printed on them; the signature and key id are printed too, so anyone holding the published public key
+// (GET /api/corporate-training/certificates) can check a certificate without access to the platform.
+
+import { createHash, createPrivateKey, createPublicKey, sign, verify, type KeyObject } from 'crypto'
+import {
+  corporateTrainingEngine,
+  type Certification,
+  type CertificationStatus,
+  type ComplianceReport,
+  type EmployeeProfile
+} from './corporate-training-engine'
+
+export class CertificateError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 503
+  ) {
+    super(message)
+    this.name = 'CertificateError'
+  }
+}
+
+export interface CertificateVerification {
+  valid: boolean // authentic and still in force (active or expiring)
+  authentic: boolean // the signature matches the certificate on record
+  serial: string
+  status?: CertificationStatus
+  holderName?: string
+  certification?: string
+  companyName?: string
+  issuedAt?: Date
+  expiresAt?: Date
+  revocationReason?: string
+  reason?: string
+}
+
+export interface SignedComplianceReport {
+  report: ComplianceReport
+  signature: string // Ed25519 over JSON.stringify(report), base64url
+  signingKeyId: string
+}
+
+// ==================================================================
+// SIGNING KEY
+// ==================================================================
+
+let cachedKey: { source: string; privateKey: KeyObject; publicKey: KeyObject; keyId: string } | null = null
+
+// CERTIFICATE_SIGNING_KEY holds the organization's Ed25519 private key, PEM or base64 PKCS#8 DER; it also
+// signs Open Badges (open-badges.ts). Generate one with `node scripts/generate-certificate-key.js`.
+export function getSigningKey() {
+  const source = process.env.CERTIFICATE_SIGNING_KEY
+  if (!source) {
+    throw new CertificateError('Certificate signing is not configured', 503)
+  }
+  if (cachedKey?.source === source) return cachedKey
+
+  const privateKey = source.includes('BEGIN')
+    ? createPrivateKey(source.replace(/\\n/g, '\n'))
+    : createPrivateKey({ key: Buffer.from(source, 'base64'), format: 'der', type: 'pkcs8' })
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new CertificateError('CERTIFICATE_SIGNING_KEY must be an Ed25519 key', 503)
+  }
+
+  const publicKey = createPublicKey(privateKey)
+  cachedKey = { source, privateKey, publicKey, keyId: keyIdOf(publicKey) }
+  return cachedKey
+}
+
+function keyIdOf(publicKey: KeyObject): string {
+  return createHash('sha256').update(publicKey.export({ format: 'der', type: 'spki' })).digest('hex').slice(0, 16)
+}
+
+let cachedRing: { source: string; keys: Map<string, KeyObject> } | null = null
+
+// CERTIFICATE_RETIRED_PUBLIC_KEYS lists the public keys of replaced signing keys, comma-separated, PEM or
+// base64 SPKI DER. Documents signed with them keep verifying after a rotation until the key is dropped here.
+export function getVerificationKeys(): Map<string, KeyObject> {
+  const { publicKey, keyId } = getSigningKey()
+  const source = process.env.CERTIFICATE_RETIRED_PUBLIC_KEYS || ''
+  if (cachedRing?.source !== source) {
+    const keys = new Map<string, KeyObject>()
+    for (const entry of source.split(',').map(value => value.trim()).filter(Boolean)) {
+      const retired = entry.includes('BEGIN')
+        ? createPublicKey(entry.replace(/\\n/g, '\n'))
+        : createPublicKey({ key: Buffer.from(entry, 'base64'), format: 'der', type: 'spki' })
+      if (retired.asymmetricKeyType !== 'ed25519') {
+        throw new CertificateError('CERTIFICATE_RETIRED_PUBLIC_KEYS must hold Ed25519 keys', 503)
+      }
+      keys.set(keyIdOf(retired), retired)
+    }
+    cachedRing = { source, keys }
+  }
+  return new Map([...cachedRing.keys, [keyId, publicKey]])
+}
+
+function publicKeyPem(publicKey: KeyObject): string {
+  return publicKey.export({ format: 'pem', type: 'spki' }).toString()
+}
+
+export function getCertificatePublicKey(): {
+  keyId: string
+  algorithm: 'Ed25519'
+  publicKeyPem: string
+  retiredKeys: { keyId: string; publicKeyPem: string }[]
+} | null {
+  if (!process.env.CERTIFICATE_SIGNING_KEY) return null
+  const { publicKey, keyId } = getSigningKey()
+  const retiredKeys = Array.from(getVerificationKeys())
+    .filter(([id]) => id !== keyId)
+    .map(([id, key]) => ({ keyId: id, publicKeyPem: publicKeyPem(key) }))
+  return { keyId, algorithm: 'Ed25519', publicKeyPem: publicKeyPem(publicKey), retiredKeys }
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+}
+
+// ==================================================================
+// CERTIFICATES
+// ==================================================================
+
+// Fixed key order; the holder name is the one printed at issue, so later profile edits keep old certificates valid
+export function certificatePayload(employee: EmployeeProfile, certification: Certification): string {
+  return JSON.stringify({
+    v: 1,
+    serial: certification.serial,
+    certificationId: certification.certificationId,
+    name: certification.name,
+    holderName: certification.holderName,
+    employeeId: employee.employeeId,
+    companyId: employee.companyId,
+    issuedAt: new Date(certification.issuedAt).toISOString(),
+    expiresAt: certification.expiresAt ? new Date(certification.expiresAt).toISOString() : null
+  })
+}
+
+/**
+ * Sign a certification with the current key, unless it already is. The signature is stored on the
+ * certification so reissued PDFs carry the same one.
+ */
+export function signCertification(employeeId: string, certificationId: string): { employee: EmployeeProfile; certification: Certification } {
+  const employee = corporateTrainingEngine.getEmployeeProfile(employeeId)
+  const certification = employee?.certifications.find(cert => cert.certificationId === certificationId)
+  if (!employee || !certification) {
+    throw new CertificateError('Certification not found', 404)
+  }
+
+  const { privateKey, keyId } = getSigningKey()
+  if (certification.signature && certification.signingKeyId === keyId) {
+    return { employee, certification }
+  }
+
+  const signature = base64url(sign(null, Buffer.from(certificatePayload(employee, certification)), privateKey))
+  const signed = corporateTrainingEngine.recordCertificationSignature(employeeId, certificationId, signature, keyId)!
+  return { employee: corporateTrainingEngine.getEmployeeProfile(employeeId)!, certification: signed }
+}
+
+/**
+ * Check a certificate by its serial. `signature` is the one printed on the document being checked;
+ * without it the signature on record is checked.
+ */
+export function verifyCertificate(serial: string, signature?: string, now = new Date()): CertificateVerification {
+  const found = corporateTrainingEngine.findCertificationBySerial(serial)
+  if (!found) {
+    return { valid: false, authentic: false, serial, reason: 'No certificate with this serial was issued' }
+  }
+
+  const { employee, certification } = found
+  const details: CertificateVerification = {
+    valid: false,
+    authentic: false,
+    serial,
+    status: corporateTrainingEngine.getCertificationStatus(employee, certification, now),
+    holderName: certification.holderName,
+    certification: certification.name,
+    companyName: corporateTrainingEngine.getCompanyProfile(employee.companyId)?.name,
+    issuedAt: certification.issuedAt,
+    expiresAt: certification.expiresAt,
+    revocationReason: certification.revocationReason
+  }
+
+  const presented = signature || certification.signature
+  if (!presented) {
+    return { ...details, reason: 'The certificate has not been signed' }
+  }
+
+  // A printed copy may predate a re-signing, so a presented signature is checked against every trusted key
+  const keys = getVerificationKeys()
+  const candidates = signature
+    ? Array.from(keys.values())
+    : [keys.get(certification.signingKeyId || getSigningKey().keyId)].filter(Boolean)
+  if (candidates.length === 0) {
+    return { ...details, reason: 'The certificate was signed with a key that is no longer trusted' }
+  }
+
+  const payload = Buffer.from(certificatePayload(employee, certification))
+  const authentic = candidates.some(publicKey => verify(null, payload, publicKey, fromBase64url(presented)))
+  if (!authentic) {
+    return { ...details, reason: 'The signature does not match this certificate' }
+  }
+
+  // A genuine certificate that was revoked, has expired or was replaced by a renewal no longer certifies anything
+  const inForce = details.status === 'active' || details.status === 'expiring'
+  return inForce
+    ? { ...details, valid: true, authentic }
+    : { ...details, authentic, reason: `The certificate is ${details.status}` }
+}
+
+export function signComplianceReport(report: ComplianceReport): SignedComplianceReport {
+  const { privateKey, keyId } = getSigningKey()
+  return {
+    report,
+    signature: base64url(sign(null, Buffer.from(JSON.stringify(report)), privateKey)),
+    signingKeyId: keyId
+  }
+}
+
+// ==================================================================
+// PDF RENDERING
+// ==================================================================
+
+const PAGE_WIDTH = 842 // A4 landscape, in points
+const PAGE_HEIGHT = 595
+
+// PDF string literal in WinAnsi; characters outside Latin-1 have no glyph in the standard fonts
+function pdfString(text: string): string {
+  const latin1 = text.normalize('NFC').replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+  return `(${latin1.replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)')})`
+}
+
+// Helvetica averages roughly half an em per character, close enough to centre a line
+function centeredLine(text: string, font: 'F1' | 'F2', size: number, y: number): string {
+  const x = Math.max(40, (PAGE_WIDTH - text.length * size * 0.5) / 2)
+  return `BT /${font} ${size} Tf ${x.toFixed(1)} ${y} Td ${pdfString(text)} Tj ET`
+}
+
+function formatDate(date: Date): string {
+  return new Date(date).toLocaleDateString('en-US', { dateStyle: 'long', timeZone: 'UTC' })
+}
+
+function buildPdf(objects: string[], info: Record<string, string>): Buffer {
+  const infoId = objects.length + 1
+  const infoEntries = Object.entries(info).map(([key, value]) => `/${key} ${pdfString(value)}`).join(' ')
+  const all = [...objects, `<< ${infoEntries} >>`]
+
+  let body = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets: number[] = []
+  all.forEach((object, index) => {
+    offsets.push(Buffer.byteLength(body, 'latin1'))
+    body += `${index + 1} 0 obj\n${object}\nendobj\n`
+  })
+
+  const xrefOffset = Buffer.byteLength(body, 'latin1')
+  body += `xref\n0 ${all.length + 1}\n0000000000 65535 f \n`
+  body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  body += `trailer\n<< /Size ${all.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+  return Buffer.from(body, 'latin1')
+}
+
+/**
+ * Render a signed certificate as a one-page PDF. Signs the certification first if needed.
+ */
+export function renderCertificatePdf(employeeId: string, certificationId: string): { filename: string; pdf: Buffer } {
+  const { employee, certification } = signCertification(employeeId, certificationId)
+  const company = corporateTrainingEngine.getCompanyProfile(employee.companyId)
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000'
+
+  const lines = [
+    // Double border
+    '0.15 0.25 0.45 RG 3 w 30 30 782 535 re S 1 w 40 40 762 515 re S',
+    '0.15 0.25 0.45 rg',
+    centeredLine('CERTIFICATE OF COMPLIANCE', 'F2', 30, 470),
+    '0.1 0.1 0.1 rg',
+    centeredLine('This certifies that', 'F1', 14, 420),
+    centeredLine(certification.holderName, 'F2', 26, 380),
+    centeredLine('holds the certification', 'F1', 14, 345),
+    centeredLine(certification.name, 'F2', 20, 310),
+    ...(company ? [centeredLine(`issued by ${company.name}`, 'F1', 14, 280)] : []),
+    centeredLine(
+      `Issued ${formatDate(certification.issuedAt)}` +
+        (certification.expiresAt ? `  -  Valid until ${formatDate(certification.expiresAt)}` : '  -  Does not expire'),
+      'F1', 12, 230
+    ),
+    centeredLine(`Serial ${certification.serial}`, 'F2', 11, 205),
+    '0.35 0.35 0.35 rg',
+    `BT /F1 7 Tf 60 90 Td ${pdfString(`Ed25519 signature (key ${certification.signingKeyId}):`)} Tj ET`,
+    `BT /F1 7 Tf 60 80 Td ${pdfString(certification.signature!)} Tj ET`,
+    `BT /F1 7 Tf 60 66 Td ${pdfString(`Verify at ${siteUrl}/api/corporate-training/certificates with the serial and this signature.`)} Tj ET`
+  ]
+  const content = lines.join('\n')
+
+  const pdf = buildPdf([
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>`,
+    `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  ], {
+    Title: `${certification.name} - ${certification.holderName}`,
+    Subject: `Certificate ${certification.serial}`,
+    Producer: 'Learning Platform',
+    CertificateSerial: certification.serial,
+    CertificateSignature: certification.signature!,
+    CertificateSigningKeyId: certification.signingKeyId!
+  })
+
+  return { filename: `${certification.serial}.pdf`, pdf }
+}
@@ -13,6 +13,21 @@ import type {
 } from '@/lib/mastery-progression-engine'
 import { masteryProgressionEngine } from '@/lib/mastery-progression-engine'
 import { multiModelAI, type UseCase } from './multi-model-ai'
+import { learningStyleEngine, type LearningStyleProfile } from './learning-style-engine'
+import { EngineStateStore } from './engine-repository'
+import { searchDocuments, similarityToDocuments } from './semantic-search'
+import {
+  LEARNER_FEATURES,
+  DEFAULT_BANDIT_CONFIG,
+  createArmState,
+  learnerFeatures,
+  selectArm,
+  summarizeBandit,
+  updateArm,
+  type BanditArmState,
+  type BanditDecision,
+  type BanditReport
+} from './contextual-bandit'
 
 export interface ContentRecommendation {
   contentId: string
@@ -59,6 +74,7 @@ export interface ContentInteraction {
   qualityRating?: number // 1-5 stars
   difficulty: number // 1-10
   context: InteractionContext
+  batchId?: string // recommendation batch the content was served in
 }
 
 export interface InteractionContext {
@@ -101,6 +117,7 @@ export interface RecommendationRequest {
   masteryProfile?: UserMasteryProfile // Include mastery progression data
   targetSkills?: string[] // Specific skills to focus recommendations on
   progressionPriority?: 'mastery' | 'exploration' | 'review' | 'challenge' // Learning goal priority
+  learningStyleProfile?: LearningStyleProfile // Detected VARK profile, used as learner context for strategy selection
 }
 
 export interface ContextualHint {
@@ -141,6 +158,15 @@ export interface RecommendationBatch {
   serendipityScore: number
   explanations: BatchExplanation[]
   fallbackRecommendations: ContentRecommendation[]
+  strategy?: StrategyDecision
+}
+
+export interface StrategyDecision {
+  decisionId: string
+  strategy: string
+  propensity: number
+  eligibleStrategies: string[]
+  policy: 'linear_thompson'
 }
 
 export interface BatchExplanation {
@@ -184,6 +210,12 @@ export interface AccuracyMetrics {
   coverage: number // Percentage of content catalog covered
 }
 
+// The decision log is capped; the oldest decisions go first once it outgrows the cap by the slack
+const MAX_BANDIT_DECISIONS = 50000
+const BANDIT_DECISION_PRUNE_SLACK = 5000
+// Interactions credit one of the learner's most recent decisions
+const MAX_DECISIONS_PER_LEARNER = 50
+
 export class ContentRecommendationEngine {
   private userProfiles: Map<string, UserContentProfile> = new Map()
   private contentFeatures: Map<string, ContentFeatureVector> = new Map()
@@ -191,10 +223,30 @@ export class ContentRecommendationEngine {
   private socialGraphs: Map<string, SocialGraph> = new Map()
   private algorithmWeights: Map<string, number> = new Map()
 
+  // Per-request strategy selection: arm models and the decision log kept for offline evaluation
+  private store = new EngineStateStore('content_recommendations')
+  private banditArms = this.store.map<BanditArmState>('bandit_arms')
+  private banditDecisions = this.store.map<BanditDecision>('bandit_decisions')
+  private learnerDecisionIds = this.store.map<string[]>('bandit_learner_decisions') // newest first
+
   constructor() {
     this.initializeAlgorithmWeights()
   }
 
+  /**
+   * Load persisted strategy models and decisions, and the learning style profiles recommendations read
+   */
+  async hydrate(): Promise<void> {
+    await Promise.all([this.store.hydrate(), learningStyleEngine.hydrate()])
+  }
+
+  /**
+   * Wait for pending strategy writes
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
   /**
    * Generate personalized content recommendations
    */
@@ -232,11 +284,23 @@ export class ContentRecommendationEngine {
       )
     }
 
+    const batchId = `batch_${Date.now()}_${request.userId}`
+
+    // Pick the strategy to lead with for this learner; only strategies with candidates are eligible
+    const eligibleStrategies = algorithms.filter(algorithm => algorithmResults[algorithm].length > 0)
+    const strategyContext = eligibleStrategies.length > 0
+      ? await this.buildStrategyContext(request, userProfile)
+      : null
+    const selection = strategyContext
+      ? selectArm(eligibleStrategies.map(strategy => this.getBanditArm(strategy)), strategyContext)
+      : null
+
     // Ensemble combination with intelligent weighting
     const combinedRecommendations = await this.combineAlgorithmResults(
       algorithmResults,
       request,
-      userProfile
+      userProfile,
+      selection?.arm
     )
 
     // Apply diversity and quality filters
@@ -259,18 +323,45 @@ export class ContentRecommendationEngine {
       finalRecommendations.map(r => r.contentId)
     )
 
+    let strategy: StrategyDecision | undefined
+    if (selection && strategyContext) {
+      this.banditDecisions.set(batchId, {
+        decisionId: batchId,
+        userId: request.userId,
+        policy: 'linear_thompson',
+        featureNames: LEARNER_FEATURES,
+        context: strategyContext,
+        arms: eligibleStrategies,
+        chosenArm: selection.arm,
+        propensity: selection.propensity,
+        probabilities: selection.probabilities,
+        expectedRewards: selection.expectedRewards,
+        contentIds: finalRecommendations.map(r => r.contentId),
+        decidedAt: new Date()
+      })
+      this.indexBanditDecision(request.userId, batchId)
+      strategy = {
+        decisionId: batchId,
+        strategy: selection.arm,
+        propensity: selection.propensity,
+        eligibleStrategies,
+        policy: 'linear_thompson'
+      }
+    }
+
     const batch: RecommendationBatch = {
       recommendations: finalRecommendations,
-      batchId: `batch_${Date.now()}_${request.userId}`,
+      batchId,
       userId: request.userId,
       generatedAt: new Date(),
-      algorithm: 'hybrid_ensemble',
+      algorithm: strategy ? strategy.strategy : 'hybrid_ensemble',
       diversityScore: this.calculateDiversityScore(finalRecommendations),
       qualityScore: this.calculateQualityScore(finalRecommendations),
       noveltyScore: this.calculateNoveltyScore(finalRecommendations, userProfile),
       serendipityScore: this.calculateSerendipityScore(finalRecommendations),
       explanations,
-      fallbackRecommendations
+      fallbackRecommendations,
+      strategy
     }
 
     return batch
@@ -311,6 +402,41 @@ export class ContentRecommendationEngine {
 
     // Update collaborative filtering data
     await this.updateCollaborativeFilter(userId, contentId, interaction)
+
+    // Credit the strategy that served the content
+    this.rewardStrategy(userId, contentId, interaction)
+  }
+
+  /**
+   * Strategy selection performance: estimated cumulative regret, rewards and per-strategy traffic
+   */
+  getBanditReport(userId?: string): BanditReport {
+    const decisions = Array.from(this.banditDecisions.values())
+      .filter(decision => !userId || decision.userId === userId)
+    return summarizeBandit(Array.from(this.banditArms.values()), decisions)
+  }
+
+  /**
+   * Logged strategy decisions with their propensities, oldest first, for offline policy evaluation
+   */
+  getBanditDecisions(since?: Date): BanditDecision[] {
+    return Array.from(this.banditDecisions.values())
+      .filter(decision => !since || decision.decidedAt >= since)
+      .sort((a, b) => a.decidedAt.getTime() - b.decidedAt.getTime())
+  }
+
+  /**
+   * Current per-strategy reward models
+   */
+  getStrategyModels(): BanditArmState[] {
+    return Array.from(this.banditArms.values())
+  }
+
+  /**
+   * Global algorithm weights maintained by optimizeAlgorithmWeights
+   */
+  getAlgorithmWeights(): Record<string, number> {
+    return Object.fromEntries(this.algorithmWeights)
   }
 
   /**
@@ -419,6 +545,13 @@ export class ContentRecommendationEngine {
    * Get content similarity for recommendation explanations
    */
   async getContentSimilarity(contentId1: string, contentId2: string): Promise<number> {
+    try {
+      const similarity = (await similarityToDocuments('content', [contentId1], [contentId2])).get(contentId2)
+      if (similarity !== undefined) return similarity
+    } catch (error) {
+      console.error('Failed to compare content embeddings:', error)
+    }
+
     const features1 = this.contentFeatures.get(contentId1)
     const features2 = this.contentFeatures.get(contentId2)
     
@@ -491,19 +624,22 @@ export class ContentRecommendationEngine {
   ): Promise<ContentRecommendation[]> {
     
     const recommendations: ContentRecommendation[] = []
+    const semantic = await this.semanticSignals(request, availableContent, userProfile)
     
     for (const content of availableContent) {
       // Skip if user has already interacted with this content recently
       if (this.hasRecentInteraction(userProfile, content.id)) continue
       
       // Calculate content similarity to user preferences
-      const similarityScore = await this.calculateContentSimilarity(content, userProfile)
+      const similarityScore = semantic.similarity.get(content.id) ??
+        await this.calculateContentSimilarity(content, userProfile)
       
       // Calculate difficulty match
       const difficultyMatch = this.calculateDifficultyMatch(content, userProfile, request.userProfile)
       
       // Calculate topic relevance
-      const topicRelevance = this.calculateTopicRelevance(content, request.currentObjectives || [])
+      const topicRelevance = semantic.relevance.get(content.id) ??
+        this.calculateTopicRelevance(content, request.currentObjectives || [])
       
       const factors: RecommendationFactor[] = [
         {
@@ -925,6 +1061,85 @@ export class ContentRecommendationEngine {
     return recommendations.sort((a, b) => b.score - a.score).slice(0, 5)
   }
 
+  // Strategy selection helpers
+  private async buildStrategyContext(request: RecommendationRequest, userProfile: UserContentProfile): Promise<number[]> {
+    const learningStyle = request.learningStyleProfile ||
+      await learningStyleEngine.getLearningStyleProfile(request.userId)
+
+    return learnerFeatures({
+      userProfile: request.userProfile,
+      learningStyle,
+      timeAvailable: request.sessionContext?.timeAvailable,
+      multitaskingLevel: request.sessionContext?.multitaskingLevel,
+      progressionPriority: request.progressionPriority,
+      hasMasteryProfile: !!request.masteryProfile,
+      interactionCount: userProfile.contentInteractions.length
+    })
+  }
+
+  // Models are reset when the learner feature set changes shape
+  private getBanditArm(strategy: string): BanditArmState {
+    const existing = this.banditArms.get(strategy)
+    if (existing && existing.weightedRewards.length === LEARNER_FEATURES.length) return existing
+    return createArmState(strategy, LEARNER_FEATURES.length, DEFAULT_BANDIT_CONFIG.ridge)
+  }
+
+  // Skips count as no reward; otherwise completion matters more than engagement, blended with any rating
+  private interactionReward(interaction: ContentInteraction): number {
+    if (interaction.interactionType === 'skip') return 0
+    const behavioural = 0.6 * interaction.completionRate + 0.4 * interaction.engagementScore
+    const reward = interaction.qualityRating
+      ? (behavioural + (interaction.qualityRating - 1) / 4) / 2
+      : behavioural
+    return Math.min(1, Math.max(0, reward))
+  }
+
+  // A decision is rewarded with the best interaction its content receives
+  private rewardStrategy(userId: string, contentId: string, interaction: ContentInteraction): void {
+    const servedIn = (decision?: BanditDecision) =>
+      !!decision && decision.userId === userId && decision.contentIds.includes(contentId)
+
+    let decision = interaction.batchId ? this.banditDecisions.get(interaction.batchId) : undefined
+    if (!servedIn(decision)) {
+      decision = this.learnerDecisions(userId).find(candidate => servedIn(candidate))
+    }
+    if (!decision || decision.context.length !== LEARNER_FEATURES.length) return
+
+    const reward = this.interactionReward(interaction)
+    if (decision.reward !== undefined && reward <= decision.reward) return
+
+    this.banditArms.set(
+      decision.chosenArm,
+      updateArm(this.getBanditArm(decision.chosenArm), decision.context, reward, decision.reward)
+    )
+    this.banditDecisions.set(decision.decisionId, {
+      ...decision,
+      reward,
+      rewardedAt: new Date()
+    })
+  }
+
+  private indexBanditDecision(userId: string, decisionId: string): void {
+    const decisionIds = [decisionId, ...(this.learnerDecisionIds.get(userId) || [])]
+    this.learnerDecisionIds.set(userId, decisionIds.slice(0, MAX_DECISIONS_PER_LEARNER))
+
+    if (this.banditDecisions.size > MAX_BANDIT_DECISIONS + BANDIT_DECISION_PRUNE_SLACK) {
+      const oldest = Array.from(this.banditDecisions.values())
+        .sort((a, b) => a.decidedAt.getTime() - b.decidedAt.getTime())
+        .slice(0, this.banditDecisions.size - MAX_BANDIT_DECISIONS)
+      for (const decision of oldest) {
+        this.banditDecisions.delete(decision.decisionId)
+      }
+    }
+  }
+
+  // The learner's recent decisions, newest first
+  private learnerDecisions(userId: string): BanditDecision[] {
+    return (this.learnerDecisionIds.get(userId) || [])
+      .map(decisionId => this.banditDecisions.get(decisionId))
+      .filter((decision): decision is BanditDecision => !!decision)
+  }
+
   // Helper method implementations
   private async getUserContentProfile(userId: string): Promise<UserContentProfile> {
     let profile = this.userProfiles.get(userId)
@@ -956,9 +1171,21 @@ export class ContentRecommendationEngine {
     return 0.8 // Mock implementation
   }
 
-  private async combineAlgorithmResults(algorithmResults: Record<string, ContentRecommendation[]>, request: RecommendationRequest, userProfile: UserContentProfile): Promise<ContentRecommendation[]> {
-    // Ensemble combination logic would go here
-    return Object.values(algorithmResults).flat().slice(0, 20)
+  private async combineAlgorithmResults(algorithmResults: Record<string, ContentRecommendation[]>, request: RecommendationRequest, userProfile: UserContentProfile, leadStrategy?: string): Promise<ContentRecommendation[]> {
+    // The selected strategy leads, the others fill in by weight; content is kept once at its first position
+    const order = Object.keys(algorithmResults).sort((a, b) =>
+      (b === leadStrategy ? 1 : 0) - (a === leadStrategy ? 1 : 0) ||
+      (this.algorithmWeights.get(b) || 0) - (this.algorithmWeights.get(a) || 0)
+    )
+    const seen = new Set<string>()
+    return order
+      .flatMap(algorithm => algorithmResults[algorithm])
+      .filter(recommendation => {
+        if (seen.has(recommendation.contentId)) return false
+        seen.add(recommendation.contentId)
+        return true
+      })
+      .slice(0, 20)
   }
 
   private async applyRecommendationFilters(recommendations: ContentRecommendation[], count: number, diversityFactor: number): Promise<ContentRecommendation[]> {
@@ -998,6 +1225,57 @@ export class ContentRecommendationEngine {
     )
   }
 
+  /**
+   * Embedding similarity of each candidate to content the learner engaged with, and hybrid search
+   * relevance to their current objectives and target skills. Only content already in the search
+   * index gets a signal; the rest keeps the heuristic scores.
+   */
+  private async semanticSignals(
+    request: RecommendationRequest,
+    availableContent: ContentItem[],
+    userProfile: UserContentProfile
+  ): Promise<{ similarity: Map<string, number>; relevance: Map<string, number> }> {
+    const similarity = new Map<string, number>()
+    const relevance = new Map<string, number>()
+    const candidateIds = availableContent.map(content => content.id)
+    if (candidateIds.length === 0) return { similarity, relevance }
+
+    try {
+      const engagedIds = userProfile.contentInteractions
+        .filter(interaction => interaction.interactionType !== 'skip' &&
+          (interaction.completionRate >= 0.5 || ['like', 'bookmark', 'share'].includes(interaction.interactionType)))
+        .slice(-20)
+        .map(interaction => interaction.contentId)
+      const similarities = await similarityToDocuments('content', Array.from(new Set(engagedIds)), candidateIds)
+      similarities.forEach((value, contentId) => similarity.set(contentId, Math.max(0, value)))
+
+      const query = [
+        ...(request.currentObjectives || []).map(objective => `${objective.title} ${objective.description}`),
+        ...(request.targetSkills || [])
+      ].join('\n').trim()
+      if (query) {
+        const { results } = await searchDocuments({
+          query,
+          sourceTypes: ['content'],
+          sourceIds: candidateIds,
+          limit: candidateIds.length
+        })
+        // The vector leg ranks every indexed candidate, so all of them get a fused score; rescale it
+        // to 0-1 across the candidates since fused scores only carry rank information
+        const scores = results.map(result => result.score)
+        const [lowest, highest] = [Math.min(...scores), Math.max(...scores)]
+        results.forEach(result => relevance.set(
+          result.sourceId,
+          highest > lowest ? (result.score - lowest) / (highest - lowest) : 1
+        ))
+      }
+    } catch (error) {
+      console.error('Semantic signals unavailable for recommendations:', error)
+    }
+
+    return { similarity, relevance }
+  }
+
   private async calculateContentSimilarity(content: ContentItem, userProfile: UserContentProfile): Promise<number> {
     return Math.random() * 0.4 + 0.3 // Mock implementation
   }
@@ -3,6 +3,8 @@
 
 import type { UserProfile, ContentItem } from '@/types'
 import { multiModelAI } from './multi-model-ai'
+import { aiResponseCache } from './ai-response-cache'
+import { EngineStateStore } from './engine-repository'
 
 export interface SafetyClassification {
   safetyLevel: 'safe' | 'caution' | 'restricted' | 'blocked'
@@ -131,16 +133,29 @@ export interface SafetyReportingActivity {
   escalationRate: number
 }
 
+// Matches the response cache's default capacity
+const MAX_REMEMBERED_GENERATIONS = 1000
+
 export class ContentSafetyEngine {
-  private safetyPolicies: Map<string, SafetyPolicy> = new Map()
-  private moderationHistory: Map<string, ModerationAction[]> = new Map()
-  private parentalControls: Map<string, ParentalControls> = new Map()
-  private safetyReports: Map<string, SafetyReport> = new Map()
+  private store = new EngineStateStore('content_safety')
+  private safetyPolicies: Map<string, SafetyPolicy> = new Map() // built-in defaults, not persisted
+  private moderationHistory: Map<string, ModerationAction[]> = this.store.map('moderation_history')
+  private parentalControls: Map<string, ParentalControls> = this.store.map('parental_controls')
+  private safetyReports: Map<string, SafetyReport> = this.store.map('safety_reports')
+  private generationCacheIds: Map<string, string> = new Map() // content id -> response cache id, process-local like the cache
 
   constructor() {
     this.initializeDefaultPolicies()
   }
 
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
   /**
    * Analyze content for safety and appropriateness
    */
@@ -163,6 +178,12 @@ export class ContentSafetyEngine {
       parentalAnalysis
     )
 
+    // Flagged generations must not be served again from the response cache
+    const cacheId = this.rememberGeneration(content, userProfile)
+    if (combinedClassification.safetyLevel === 'restricted' || combinedClassification.safetyLevel === 'blocked') {
+      aiResponseCache.invalidate({ cacheId, text: content.description })
+    }
+
     // Log moderation action
     await this.logModerationAction(content, userProfile, combinedClassification)
 
@@ -192,6 +213,12 @@ export class ContentSafetyEngine {
 
     this.safetyReports.set(report.reportId, report)
 
+    // Reported AI content is generated fresh until moderation clears it
+    const cacheId = this.generationCacheIds.get(contentId)
+    if (cacheId) {
+      aiResponseCache.invalidate({ cacheId })
+    }
+
     // Auto-escalate urgent reports
     if (report.severity === 'urgent') {
       await this.escalateReport(report.reportId)
@@ -320,8 +347,43 @@ export class ContentSafetyEngine {
     return { appropriate: true }
   }
 
+  /**
+   * The item a generated lesson or quiz is shown as. It carries its generation and is remembered with
+   * the cache entry, so a report on it drops the generation everyone in the profile bucket shares.
+   */
+  generatedItem(
+    generation: NonNullable<ContentItem['metadata']>['generation'],
+    userProfile: UserProfile,
+    item: Pick<ContentItem, 'content_type' | 'title' | 'description' | 'difficulty' | 'estimated_time' | 'metadata'>
+  ): ContentItem {
+    const content: ContentItem = {
+      ...item,
+      id: `generated_${aiResponseCache.cacheIdFor(generation.kind, generation.request, userProfile)}`,
+      subject: userProfile.subject,
+      metadata: { ...item.metadata, generation },
+      created_at: new Date().toISOString()
+    }
+    this.rememberGeneration(content, userProfile)
+    return content
+  }
+
   // Private helper methods
 
+  // Response cache id of the generation an item shows, derived the way the cache keys it. Kept so a
+  // later report on the item (which only carries its id) can drop the same entry.
+  private rememberGeneration(content: ContentItem, userProfile: UserProfile): string | undefined {
+    const generation = content.metadata?.generation
+    if (!generation?.request) return undefined
+
+    const cacheId = aiResponseCache.cacheIdFor(generation.kind, generation.request, userProfile)
+    this.generationCacheIds.delete(content.id)
+    this.generationCacheIds.set(content.id, cacheId)
+    if (this.generationCacheIds.size > MAX_REMEMBERED_GENERATIONS) {
+      this.generationCacheIds.delete(this.generationCacheIds.keys().next().value!)
+    }
+    return cacheId
+  }
+
   private async performAISafetyAnalysis(
     content: ContentItem,
     userProfile: UserProfile
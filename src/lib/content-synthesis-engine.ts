@@ -1,6 +1,7 @@
 'use client'
 
 import { multiModelAI } from './multi-model-ai'
+import { indexDocuments, searchDocuments, synthesisDocument } from './semantic-search'
 
 // Types for content synthesis system
 export interface ContentSource {
@@ -235,7 +236,7 @@ export class ContentSynthesisEngine {
       )
       
       // Cache the result
-      this.synthesisCache.set(synthesisId, finalContent)
+      await this.cacheSynthesis(finalContent)
       
       progressCallback?.({
         stage: 'finalization',
@@ -603,7 +604,7 @@ export class ContentSynthesisEngine {
         }
       }
       
-      this.synthesisCache.set(synthesisId, updatedSynthesis)
+      await this.cacheSynthesis(updatedSynthesis)
       return updatedSynthesis
       
     } catch (error) {
@@ -657,7 +658,7 @@ export class ContentSynthesisEngine {
         }
       }
       
-      this.synthesisCache.set(adaptedSynthesis.synthesis_id, adaptedSynthesis)
+      await this.cacheSynthesis(adaptedSynthesis)
       return adaptedSynthesis
       
     } catch (error) {
@@ -813,8 +814,26 @@ export class ContentSynthesisEngine {
     return this.conceptNetworks.get(synthesisId) || []
   }
   
-  // Search synthesized content
-  searchSyntheses(query: string): SynthesizedContent[] {
+  // Cache a synthesis and make it searchable; a failed index only costs search quality
+  private async cacheSynthesis(synthesis: SynthesizedContent): Promise<void> {
+    this.synthesisCache.set(synthesis.synthesis_id, synthesis)
+    await indexDocuments([synthesisDocument(synthesis)]).catch(error => {
+      console.error('Failed to index synthesis:', error)
+    })
+  }
+  
+  // Search synthesized content, hybrid BM25 and embedding search with substring matching as fallback
+  async searchSyntheses(query: string): Promise<SynthesizedContent[]> {
+    try {
+      const { results } = await searchDocuments({ query, sourceTypes: ['synthesis'], limit: 30 })
+      const matches = results
+        .map(result => this.synthesisCache.get(result.sourceId))
+        .filter((synthesis): synthesis is SynthesizedContent => !!synthesis)
+      if (matches.length > 0) return matches.slice(0, 10)
+    } catch (error) {
+      console.error('Synthesis search failed, falling back to substring matching:', error)
+    }
+
     const results: SynthesizedContent[] = []
     
     for (const synthesis of this.synthesisCache.values()) {
@@ -0,0 +1,399 @@
+// Contextual Bandit
+// Linear Thompson sampling over learner features: each arm keeps a ridge-regression reward model, requests
+// are served by sampling from the posteriors, and every decision is logged with the propensity it was made with
+
+import type { UserProfile } from '@/types'
+import type { LearningStyleProfile } from './learning-style-engine'
+import { sampleNormal } from './experiment-statistics'
+
+export interface BanditArmState {
+  arm: string
+  precision: number[][] // A = ridge * I + sum of x x^T over rewarded decisions
+  weightedRewards: number[] // b = sum of reward * x
+  rewarded: number
+  rewardSum: number
+  updatedAt: Date
+}
+
+export interface BanditDecision {
+  decisionId: string
+  userId: string
+  policy: 'linear_thompson'
+  featureNames: string[]
+  context: number[]
+  arms: string[] // arms that were eligible for this request
+  chosenArm: string
+  propensity: number // probability the logging policy gave the chosen arm
+  probabilities: Record<string, number>
+  expectedRewards: Record<string, number> // posterior means when the decision was made
+  contentIds: string[]
+  decidedAt: Date
+  reward?: number
+  rewardedAt?: Date
+}
+
+export interface BanditSelection {
+  arm: string
+  propensity: number
+  probabilities: Record<string, number>
+  expectedRewards: Record<string, number>
+}
+
+export interface BanditPolicyConfig {
+  ridge: number
+  explorationScale: number // posterior standard deviations are scaled by this before sampling
+  explorationFloor: number // share of traffic spread uniformly so every eligible arm keeps a propensity
+  propensitySamples: number
+}
+
+export interface ArmSummary {
+  arm: string
+  pulls: number
+  share: number
+  rewarded: number
+  meanReward: number
+  averagePropensity: number
+}
+
+export interface BanditReport {
+  policy: 'linear_thompson'
+  totalDecisions: number
+  rewardedDecisions: number
+  averageReward: number
+  cumulativeRegret: number
+  averageRegret: number
+  regretCurve: Array<{ decisions: number; cumulativeRegret: number }>
+  minimumPropensity: number
+  arms: ArmSummary[]
+}
+
+export interface LearnerContextInput {
+  userProfile: UserProfile
+  learningStyle?: LearningStyleProfile | null
+  timeAvailable?: number // minutes
+  multitaskingLevel?: number // 0-1
+  progressionPriority?: 'mastery' | 'exploration' | 'review' | 'challenge'
+  hasMasteryProfile: boolean
+  interactionCount: number
+}
+
+export const DEFAULT_BANDIT_CONFIG: BanditPolicyConfig = {
+  ridge: 1,
+  explorationScale: 0.5,
+  explorationFloor: 0.05,
+  propensitySamples: 200
+}
+
+export const LEARNER_FEATURES = [
+  'bias',
+  'level_beginner',
+  'level_intermediate',
+  'level_advanced',
+  'age_child',
+  'age_teen',
+  'age_adult',
+  'use_case_academic',
+  'use_case_work',
+  'use_case_personal',
+  'style_visual',
+  'style_auditory',
+  'style_kinesthetic',
+  'style_reading',
+  'style_confidence',
+  'time_available',
+  'multitasking',
+  'priority_mastery',
+  'priority_exploration',
+  'priority_review',
+  'priority_challenge',
+  'has_mastery_profile',
+  'interaction_history'
+]
+
+const REGRET_CURVE_POINTS = 50
+
+// ==================================================================
+// LEARNER FEATURES
+// ==================================================================
+
+// VARK scores from the detected profile, else the onboarding assessment, else uniform
+function styleScores(input: LearnerContextInput): { scores: number[]; confidence: number } {
+  if (input.learningStyle) {
+    const style = input.learningStyle
+    return {
+      scores: [style.visualScore, style.auditoryScore, style.kinestheticScore, style.readingScore],
+      confidence: style.detectionConfidence
+    }
+  }
+
+  const assessed = input.userProfile.learning_style_profile?.style_scores
+  if (assessed) {
+    const raw = ['visual', 'auditory', 'kinesthetic', 'reading'].map(style => Math.max(0, assessed[style] || 0))
+    const total = raw.reduce((sum, score) => sum + score, 0)
+    if (total > 0) {
+      const confidence = input.userProfile.learning_style_profile?.assessment_completed ? 0.6 : 0.3
+      return { scores: raw.map(score => score / total), confidence }
+    }
+  }
+
+  return { scores: [0.25, 0.25, 0.25, 0.25], confidence: 0 }
+}
+
+/**
+ * Context vector in LEARNER_FEATURES order. Every feature is scaled to [0, 1] so no single
+ * feature dominates the ridge penalty.
+ */
+export function learnerFeatures(input: LearnerContextInput): number[] {
+  const profile = input.userProfile
+  const style = styleScores(input)
+  const useCase = profile.use_case
+
+  return [
+    1,
+    profile.level === 'beginner' ? 1 : 0,
+    profile.level === 'intermediate' ? 1 : 0,
+    profile.level === 'advanced' ? 1 : 0,
+    profile.age_group === 'child' ? 1 : 0,
+    profile.age_group === 'teen' ? 1 : 0,
+    profile.age_group === 'adult' ? 1 : 0,
+    useCase === 'student' || useCase === 'college' || useCase === 'tutor' ? 1 : 0,
+    useCase === 'work' ? 1 : 0,
+    useCase === 'personal' || useCase === 'lifelong' ? 1 : 0,
+    ...style.scores,
+    style.confidence,
+    Math.min(1, (input.timeAvailable ?? 30) / 60),
+    Math.min(1, Math.max(0, input.multitaskingLevel ?? 0)),
+    input.progressionPriority === 'mastery' ? 1 : 0,
+    input.progressionPriority === 'exploration' ? 1 : 0,
+    input.progressionPriority === 'review' ? 1 : 0,
+    input.progressionPriority === 'challenge' ? 1 : 0,
+    input.hasMasteryProfile ? 1 : 0,
+    Math.min(1, Math.log1p(input.interactionCount) / Math.log1p(100))
+  ]
+}
+
+// ==================================================================
+// LINEAR ALGEBRA
+// ==================================================================
+
+// Lower-triangular L with A = L L^T
+function cholesky(matrix: number[][]): number[][] {
+  const n = matrix.length
+  const lower = Array.from({ length: n }, () => new Array(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j]
+      for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k]
+      lower[i][j] = i === j ? Math.sqrt(Math.max(sum, 1e-12)) : sum / lower[j][j]
+    }
+  }
+  return lower
+}
+
+// Solve L y = v
+function forwardSubstitute(lower: number[][], vector: number[]): number[] {
+  const result = new Array(vector.length).fill(0)
+  for (let i = 0; i < vector.length; i++) {
+    let sum = vector[i]
+    for (let k = 0; k < i; k++) sum -= lower[i][k] * result[k]
+    result[i] = sum / lower[i][i]
+  }
+  return result
+}
+
+// Solve L^T x = y
+function backSubstitute(lower: number[][], vector: number[]): number[] {
+  const n = vector.length
+  const result = new Array(n).fill(0)
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = vector[i]
+    for (let k = i + 1; k < n; k++) sum -= lower[k][i] * result[k]
+    result[i] = sum / lower[i][i]
+  }
+  return result
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i]
+  return sum
+}
+
+// ==================================================================
+// ARM MODELS
+// ==================================================================
+
+export function createArmState(arm: string, dimension: number, ridge = DEFAULT_BANDIT_CONFIG.ridge): BanditArmState {
+  return {
+    arm,
+    precision: Array.from({ length: dimension }, (_, i) =>
+      Array.from({ length: dimension }, (_, j) => (i === j ? ridge : 0))
+    ),
+    weightedRewards: new Array(dimension).fill(0),
+    rewarded: 0,
+    rewardSum: 0,
+    updatedAt: new Date()
+  }
+}
+
+// Posterior mean reward x^T A^-1 b and its standard deviation sqrt(x^T A^-1 x)
+function predict(state: BanditArmState, context: number[]): { mean: number; spread: number } {
+  const lower = cholesky(state.precision)
+  const coefficients = backSubstitute(lower, forwardSubstitute(lower, state.weightedRewards))
+  const whitened = forwardSubstitute(lower, context)
+  return { mean: dot(coefficients, context), spread: Math.sqrt(dot(whitened, whitened)) }
+}
+
+// Ridge coefficients A^-1 b; the expected reward for a context is their dot product with it
+export function rewardCoefficients(state: BanditArmState): number[] {
+  const lower = cholesky(state.precision)
+  return backSubstitute(lower, forwardSubstitute(lower, state.weightedRewards))
+}
+
+export function expectedReward(state: BanditArmState, context: number[]): number {
+  return dot(rewardCoefficients(state), context)
+}
+
+/**
+ * Fold a reward into an arm's model. Passing the reward already credited for the same decision
+ * replaces it instead, so a decision counts once however many interactions it receives.
+ */
+export function updateArm(state: BanditArmState, context: number[], reward: number, previousReward?: number): BanditArmState {
+  const precision = state.precision.map(row => [...row])
+  const weightedRewards = [...state.weightedRewards]
+  const delta = previousReward === undefined ? reward : reward - previousReward
+
+  if (previousReward === undefined) {
+    for (let i = 0; i < context.length; i++) {
+      for (let j = 0; j < context.length; j++) precision[i][j] += context[i] * context[j]
+    }
+  }
+  for (let i = 0; i < context.length; i++) weightedRewards[i] += delta * context[i]
+
+  return {
+    ...state,
+    precision,
+    weightedRewards,
+    rewarded: state.rewarded + (previousReward === undefined ? 1 : 0),
+    rewardSum: state.rewardSum + delta,
+    updatedAt: new Date()
+  }
+}
+
+// ==================================================================
+// SELECTION
+// ==================================================================
+
+/**
+ * Thompson sampling with a uniform exploration floor. The probability of each arm winning a posterior
+ * draw is estimated by simulation, and the served arm is drawn from that estimate mixed with the floor,
+ * so the logged propensity is exactly the probability the served arm had.
+ */
+export function selectArm(
+  states: BanditArmState[],
+  context: number[],
+  config: BanditPolicyConfig = DEFAULT_BANDIT_CONFIG,
+  random: () => number = Math.random
+): BanditSelection {
+  if (states.length === 0) {
+    throw new Error('Cannot select from an empty set of arms')
+  }
+
+  const predictions = states.map(state => predict(state, context))
+  const wins = new Array(states.length).fill(0)
+
+  for (let draw = 0; draw < config.propensitySamples; draw++) {
+    let best = 0
+    let bestScore = -Infinity
+    predictions.forEach((prediction, index) => {
+      const score = prediction.mean + config.explorationScale * prediction.spread * sampleNormal(random)
+      if (score > bestScore) {
+        bestScore = score
+        best = index
+      }
+    })
+    wins[best]++
+  }
+
+  const floor = config.explorationFloor / states.length
+  const probabilities = wins.map(count => (1 - config.explorationFloor) * (count / config.propensitySamples) + floor)
+
+  let chosen = probabilities.length - 1
+  let cumulative = 0
+  const u = random()
+  for (let i = 0; i < probabilities.length; i++) {
+    cumulative += probabilities[i]
+    if (u < cumulative) {
+      chosen = i
+      break
+    }
+  }
+
+  return {
+    arm: states[chosen].arm,
+    propensity: probabilities[chosen],
+    probabilities: Object.fromEntries(states.map((state, i) => [state.arm, probabilities[i]])),
+    expectedRewards: Object.fromEntries(states.map((state, i) => [state.arm, predictions[i].mean]))
+  }
+}
+
+// ==================================================================
+// REPORTING
+// ==================================================================
+
+/**
+ * Regret of each logged decision under the current reward models: the best eligible arm's expected
+ * reward for that learner minus the served arm's. It is an estimate that sharpens as the models learn,
+ * and it is what exploration has cost so far.
+ */
+export function summarizeBandit(states: BanditArmState[], decisions: BanditDecision[]): BanditReport {
+  const coefficients = new Map(states.map(state => [state.arm, rewardCoefficients(state)]))
+  const ordered = [...decisions].sort((a, b) => a.decidedAt.getTime() - b.decidedAt.getTime())
+
+  let cumulativeRegret = 0
+  const regrets: number[] = []
+  for (const decision of ordered) {
+    const estimates = decision.arms
+      .filter(arm => coefficients.get(arm)?.length === decision.context.length)
+      .map(arm => ({ arm, reward: dot(coefficients.get(arm)!, decision.context) }))
+    const best = Math.max(...estimates.map(estimate => estimate.reward))
+    const served = estimates.find(estimate => estimate.arm === decision.chosenArm)
+    const regret = served && Number.isFinite(best) ? Math.max(0, best - served.reward) : 0
+    cumulativeRegret += regret
+    regrets.push(cumulativeRegret)
+  }
+
+  const step = Math.max(1, Math.ceil(regrets.length / REGRET_CURVE_POINTS))
+  const regretCurve = regrets
+    .map((value, index) => ({ decisions: index + 1, cumulativeRegret: value }))
+    .filter((point, index) => (index + 1) % step === 0 || index === regrets.length - 1)
+
+  const rewarded = decisions.filter(decision => decision.reward !== undefined)
+  const arms = states.map(state => {
+    const served = decisions.filter(decision => decision.chosenArm === state.arm)
+    return {
+      arm: state.arm,
+      pulls: served.length,
+      share: decisions.length > 0 ? served.length / decisions.length : 0,
+      rewarded: state.rewarded,
+      meanReward: state.rewarded > 0 ? state.rewardSum / state.rewarded : 0,
+      averagePropensity: served.length > 0
+        ? served.reduce((sum, decision) => sum + decision.propensity, 0) / served.length
+        : 0
+    }
+  })
+
+  return {
+    policy: 'linear_thompson',
+    totalDecisions: decisions.length,
+    rewardedDecisions: rewarded.length,
+    averageReward: rewarded.length > 0
+      ? rewarded.reduce((sum, decision) => sum + (decision.reward || 0), 0) / rewarded.length
+      : 0,
+    cumulativeRegret,
+    averageRegret: decisions.length > 0 ? cumulativeRegret / decisions.length : 0,
+    regretCurve,
+    minimumPropensity: decisions.length > 0 ? Math.min(...decisions.map(decision => decision.propensity)) : 0,
+    arms: arms.sort((a, b) => b.pulls - a.pulls)
+  }
+}
@@ -1,5 +1,7 @@
 'use client'
 
+import { EngineStateStore } from './engine-repository'
+
 export interface EmployeeProfile {
   employeeId: string
   name: string
@@ -11,11 +13,14 @@ export interface EmployeeProfile {
   manager?: string
   directReports?: string[]
   skills: string[]
-  certifications: string[]
+  certifications: Certification[] // plain names from older clients are kept as non-expiring certifications
   learningGoals: string[]
   companyId: string
   timezone: string
   preferredLanguage: string
+  externalId?: string // the HR system's id, set by SCIM or CSV provisioning
+  active?: boolean // false once deprovisioned; records are kept for audit
+  deactivatedAt?: Date
 }
 
 export interface CompanyProfile {
@@ -24,7 +29,7 @@ export interface CompanyProfile {
   industry: string
   size: 'startup' | 'small' | 'medium' | 'large' | 'enterprise'
   learningBudget: number
-  complianceRequirements: string[]
+  complianceRequirements: ComplianceRequirement[]
   learningPriorities: string[]
   customBranding?: {
     logo: string
@@ -32,6 +37,119 @@ export interface CompanyProfile {
     secondaryColor: string
     fontFamily?: string
   }
+  verifiedEmailDomains?: string[] // set by platform admins; provisioning links existing accounts on these domains only
+}
+
+export interface Certification {
+  certificationId: string
+  serial: string // printed on the certificate; auditors verify by it
+  name: string
+  programId?: string // the program whose completion awarded it
+  holderName: string // as printed when issued
+  issuedAt: Date
+  expiresAt?: Date // certifications without an expiry never lapse
+  renewalOf?: string // the certification this one renewed
+  revokedAt?: Date
+  revocationReason?: string
+  signature?: string // Ed25519 over the certificate payload, added by compliance-certificates.ts
+  signingKeyId?: string
+}
+
+// superseded: renewed by a later certification
+export type CertificationStatus = 'active' | 'expiring' | 'expired' | 'revoked' | 'superseded'
+
+export interface ComplianceRequirement {
+  requirementId: string
+  name: string
+  certificationName: string // the certification that satisfies it
+  programId: string // completing this program issues the certification
+  appliesTo?: string[] // roles or departments; everyone in the company when empty
+  validityDays: number // how long a certification stays valid
+  recertificationWindowDays: number // employees are enrolled this long before their certification expires
+  gracePeriodDays?: number // completion deadline for employees who never held it (default 30)
+  escalationDays?: number // lapsed this long, the manager's manager is told as well (default 14)
+}
+
+// expiring: valid, but inside the recertification window
+export type ComplianceState = 'compliant' | 'expiring' | 'expired' | 'missing'
+
+export interface ComplianceEscalation {
+  escalationId: string
+  companyId: string
+  requirementId: string
+  employeeId: string
+  managerId: string
+  level: 1 | 2 // 1: direct manager, 2: the manager's manager
+  state: ComplianceState
+  lapsedSince: Date
+  escalatedAt: Date
+}
+
+export interface ComplianceCycleSummary {
+  ranAt: Date
+  recertificationEnrollments: {
+    employeeId: string
+    requirementId: string
+    programId: string
+    progress: EmployeeProgress
+  }[]
+  escalations: ComplianceEscalation[] // raised by this run only
+}
+
+export interface ComplianceReportEntry {
+  employeeId: string
+  name: string
+  role: string
+  manager?: string
+  requirements: {
+    requirementId: string
+    state: ComplianceState
+    certificationId?: string
+    serial?: string
+    issuedAt?: Date
+    expiresAt?: Date
+    enrollmentStatus?: EmployeeProgress['status']
+    enrollmentDeadline?: Date
+    escalations: number
+  }[]
+}
+
+export interface ComplianceReport {
+  companyId: string
+  companyName: string
+  asOf: Date
+  requirements: ComplianceRequirement[]
+  departments: {
+    department: string
+    employeeCount: number
+    complianceRate: number // share of required certifications currently valid
+    byRequirement: {
+      requirementId: string
+      required: number
+      compliant: number
+      expiring: number
+      expired: number
+      missing: number
+    }[]
+    employees: ComplianceReportEntry[]
+  }[]
+}
+
+// Enrolls a company's employees in a program by role, department or level. Every criterion given must
+// match; within a criterion any listed value does.
+export interface EnrollmentRule {
+  ruleId: string
+  companyId: string
+  programId: string
+  name?: string
+  match: {
+    roles?: string[]
+    departments?: string[]
+    levels?: EmployeeProfile['level'][]
+  }
+  deadlineDays?: number // completion deadline counted from enrollment; the program's own deadline otherwise
+  active: boolean
+  createdAt: Date
 }
 
 export interface TrainingProgram {
@@ -141,26 +259,55 @@ export interface LearningRecommendation {
   managerApprovalRequired: boolean
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000
+const DEFAULT_RECERTIFICATION_WINDOW_DAYS = 30
+const DEFAULT_GRACE_PERIOD_DAYS = 30
+const DEFAULT_ESCALATION_DAYS = 14
+
+interface RequirementEvaluation {
+  state: ComplianceState
+  certification?: Certification
+  enrollment?: EmployeeProgress // latest enrollment in the requirement's program since the certification was issued
+  lapsedSince?: Date // when the employee fell out of compliance; unset while still within a deadline
+}
+
 class CorporateTrainingEngine {
-  private employeeProfiles: Map<string, EmployeeProfile> = new Map()
-  private companyProfiles: Map<string, CompanyProfile> = new Map()
-  private trainingPrograms: Map<string, TrainingProgram> = new Map()
-  private employeeProgress: Map<string, EmployeeProgress[]> = new Map()
-  private analytics: Map<string, CompanyAnalytics> = new Map()
+  private store = new EngineStateStore('corporate_training')
+  private employeeProfiles: Map<string, EmployeeProfile> = this.store.map('employee_profiles')
+  private companyProfiles: Map<string, CompanyProfile> = this.store.map('company_profiles')
+  private trainingPrograms: Map<string, TrainingProgram> = this.store.map('training_programs')
+  private employeeProgress: Map<string, EmployeeProgress[]> = this.store.map('employee_progress')
+  private analytics: Map<string, CompanyAnalytics> = this.store.map('analytics')
+  private escalations: Map<string, ComplianceEscalation> = this.store.map('compliance_escalations')
+  private enrollmentRules: Map<string, EnrollmentRule> = this.store.map('enrollment_rules')
+
+  // Persistence
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
 
   // Employee Management
   async createEmployeeProfile(profile: EmployeeProfile): Promise<EmployeeProfile> {
+    profile = { ...profile, certifications: this.normalizeCertifications(profile.certifications, profile.name) }
     this.employeeProfiles.set(profile.employeeId, profile)
+    this.syncDirectReports(profile.employeeId, undefined, profile.manager)
     
     // Initialize progress tracking
     if (!this.employeeProgress.has(profile.employeeId)) {
       this.employeeProgress.set(profile.employeeId, [])
     }
     
-    // Auto-enroll in mandatory programs based on role/department
-    await this.autoEnrollMandatoryPrograms(profile)
+    // Auto-enroll in mandatory programs and by enrollment rules
+    if (profile.active !== false) {
+      await this.autoEnrollMandatoryPrograms(profile)
+      await this.applyEnrollmentRules(profile)
+    }
     
-    return profile
+    return this.employeeProfiles.get(profile.employeeId)!
   }
 
   async updateEmployeeProfile(employeeId: string, updates: Partial<EmployeeProfile>): Promise<EmployeeProfile | null> {
@@ -168,14 +315,22 @@ class CorporateTrainingEngine {
     if (!profile) return null
     
     const updatedProfile = { ...profile, ...updates }
+    if (updates.certifications) {
+      updatedProfile.certifications = this.normalizeCertifications(updates.certifications, updatedProfile.name)
+    }
     this.employeeProfiles.set(employeeId, updatedProfile)
+    if ('manager' in updates && updates.manager !== profile.manager) {
+      this.syncDirectReports(employeeId, profile.manager, updatedProfile.manager)
+    }
     
-    // Re-check mandatory programs if role/department changed
-    if (updates.role || updates.department) {
+    // Re-check mandatory programs and enrollment rules if role/department/level changed or the employee was reactivated
+    const reactivated = profile.active === false && updatedProfile.active !== false
+    if (updatedProfile.active !== false && (updates.role || updates.department || updates.level || reactivated)) {
       await this.autoEnrollMandatoryPrograms(updatedProfile)
+      await this.applyEnrollmentRules(updatedProfile)
     }
     
-    return updatedProfile
+    return this.employeeProfiles.get(employeeId)!
   }
 
   getEmployeeProfile(employeeId: string): EmployeeProfile | null {
@@ -192,6 +347,89 @@ class CorporateTrainingEngine {
       .filter(emp => emp.manager === managerId)
   }
 
+  getEmployeesByCompany(companyId: string, options: { includeInactive?: boolean } = {}): EmployeeProfile[] {
+    return Array.from(this.employeeProfiles.values())
+      .filter(emp => emp.companyId === companyId && (options.includeInactive || emp.active !== false))
+  }
+
+  /**
+   * Deprovision an employee: they stop being enrolled, reminded and counted for compliance, while their
+   * progress and certifications stay on record. Reactivate with updateEmployeeProfile({ active: true }).
+   */
+  async deactivateEmployee(employeeId: string, at = new Date()): Promise<EmployeeProfile | null> {
+    const profile = this.employeeProfiles.get(employeeId)
+    if (!profile) return null
+    if (profile.active === false) return profile
+
+    const deactivated = { ...profile, active: false, deactivatedAt: at }
+    this.employeeProfiles.set(employeeId, deactivated)
+    return deactivated
+  }
+
+  // Company Management
+  async createCompanyProfile(profile: CompanyProfile): Promise<CompanyProfile> {
+    this.companyProfiles.set(profile.companyId, profile)
+    return profile
+  }
+
+  async updateCompanyProfile(companyId: string, updates: Partial<CompanyProfile>): Promise<CompanyProfile | null> {
+    const profile = this.companyProfiles.get(companyId)
+    if (!profile) return null
+
+    const updatedProfile = { ...profile, ...updates, companyId }
+    this.companyProfiles.set(companyId, updatedProfile)
+    return updatedProfile
+  }
+
+  getCompanyProfile(companyId: string): CompanyProfile | null {
+    return this.companyProfiles.get(companyId) || null
+  }
+
+  // Enrollment Rules
+  /**
+   * Add a rule and enroll the company's current employees who match it. Employees provisioned or
+   * moved into a matching role, department or level later are enrolled as that happens.
+   */
+  async createEnrollmentRule(input: Omit<EnrollmentRule, 'ruleId' | 'createdAt' | 'active'> & Partial<Pick<EnrollmentRule, 'ruleId' | 'active'>>): Promise<{ rule: EnrollmentRule; enrolled: EmployeeProgress[] }> {
+    if (!this.trainingPrograms.has(input.programId)) {
+      throw new Error('Program not found')
+    }
+
+    const rule: EnrollmentRule = {
+      ...input,
+      ruleId: input.ruleId || `rule_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      active: input.active ?? true,
+      createdAt: new Date()
+    }
+    this.enrollmentRules.set(rule.ruleId, rule)
+    return { rule, enrolled: await this.enrollByRule(rule) }
+  }
+
+  async updateEnrollmentRule(ruleId: string, updates: Partial<Omit<EnrollmentRule, 'ruleId' | 'companyId' | 'createdAt'>>): Promise<{ rule: EnrollmentRule; enrolled: EmployeeProgress[] } | null> {
+    const rule = this.enrollmentRules.get(ruleId)
+    if (!rule) return null
+
+    // A rule stays with the company that created it, whatever the updates carry
+    const updatedRule = { ...rule, ...updates, ruleId: rule.ruleId, companyId: rule.companyId, createdAt: rule.createdAt }
+    this.enrollmentRules.set(ruleId, updatedRule)
+    // Widened criteria or a re-enabled rule pick up newly matching employees; existing enrollments stay
+    return { rule: updatedRule, enrolled: await this.enrollByRule(updatedRule) }
+  }
+
+  getEnrollmentRule(ruleId: string): EnrollmentRule | null {
+    return this.enrollmentRules.get(ruleId) || null
+  }
+
+  deleteEnrollmentRule(ruleId: string): boolean {
+    return this.enrollmentRules.delete(ruleId)
+  }
+
+  getEnrollmentRules(companyId: string): EnrollmentRule[] {
+    return Array.from(this.enrollmentRules.values())
+      .filter(rule => rule.companyId === companyId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+  }
+
   // Training Program Management
   async createTrainingProgram(program: TrainingProgram): Promise<TrainingProgram> {
     this.trainingPrograms.set(program.programId, program)
@@ -277,10 +515,12 @@ class CorporateTrainingEngine {
     updates: Partial<EmployeeProgress>
   ): Promise<EmployeeProgress | null> {
     const progressList = this.employeeProgress.get(employeeId) || []
-    const progressIndex = progressList.findIndex(p => p.programId === programId)
+    // Recertification re-enrolls employees in a program they completed before; updates go to the latest enrollment
+    const progressIndex = progressList.map(p => p.programId).lastIndexOf(programId)
     
     if (progressIndex === -1) return null
     
+    const wasCompleted = progressList[progressIndex].status === 'completed'
     const updatedProgress = { ...progressList[progressIndex], ...updates }
     
     // Auto-update status based on progress
@@ -297,6 +537,17 @@ class CorporateTrainingEngine {
       updatedProgress.status = 'overdue'
     }
     
+    // Completing a certifying program issues (or renews) its certification
+    const program = this.trainingPrograms.get(programId)
+    if (updatedProgress.status === 'completed' && !wasCompleted && program?.certificationAwarded) {
+      const certification = this.issueCertification(employeeId, {
+        name: program.certificationAwarded,
+        programId,
+        issuedAt: updatedProgress.completionDate
+      })
+      updatedProgress.certificationsEarned = [...updatedProgress.certificationsEarned, certification.certificationId]
+    }
+    
     progressList[progressIndex] = updatedProgress
     this.employeeProgress.set(employeeId, progressList)
     
@@ -313,6 +564,248 @@ class CorporateTrainingEngine {
     return progressList
   }
 
+  // Unfinished enrollments whose deadline falls before `until`, overdue ones included
+  getUpcomingDeadlines(until: Date): { employee: EmployeeProfile; program: TrainingProgram; progress: EmployeeProgress }[] {
+    const upcoming: { employee: EmployeeProfile; program: TrainingProgram; progress: EmployeeProgress }[] = []
+
+    for (const [employeeId, progressList] of Array.from(this.employeeProgress.entries())) {
+      const employee = this.employeeProfiles.get(employeeId)
+      if (!employee) continue
+
+      if (employee.active === false) continue
+
+      for (const progress of progressList) {
+        const program = this.trainingPrograms.get(progress.programId)
+        if (!program || !progress.nextDeadline) continue
+        if (progress.status === 'completed' || progress.status === 'failed') continue
+        if (new Date(progress.nextDeadline) > until) continue
+        upcoming.push({ employee, program, progress })
+      }
+    }
+
+    return upcoming.sort((a, b) => new Date(a.progress.nextDeadline!).getTime() - new Date(b.progress.nextDeadline!).getTime())
+  }
+
+  // Certifications
+  /**
+   * Record a certification for an employee. Without an explicit expiry, the company requirement it
+   * satisfies decides how long it stays valid; a certification held before under the same name is renewed.
+   */
+  issueCertification(
+    employeeId: string,
+    input: { name: string; programId?: string; issuedAt?: Date; expiresAt?: Date }
+  ): Certification {
+    const employee = this.employeeProfiles.get(employeeId)
+    if (!employee) {
+      throw new Error('Employee not found')
+    }
+
+    const issuedAt = input.issuedAt ? new Date(input.issuedAt) : new Date()
+    const requirement = this.getComplianceRequirements(employee.companyId)
+      .find(req => req.certificationName === input.name)
+    const expiresAt = input.expiresAt
+      ? new Date(input.expiresAt)
+      : requirement ? new Date(issuedAt.getTime() + requirement.validityDays * DAY_MS) : undefined
+
+    const certification: Certification = {
+      certificationId: `cert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      serial: this.generateSerial(issuedAt),
+      name: input.name,
+      programId: input.programId,
+      holderName: employee.name,
+      issuedAt,
+      expiresAt,
+      renewalOf: this.getCurrentCertification(employee, input.name)?.certificationId
+    }
+
+    this.employeeProfiles.set(employeeId, {
+      ...employee,
+      certifications: [...employee.certifications, certification]
+    })
+    return certification
+  }
+
+  revokeCertification(employeeId: string, certificationId: string, reason: string): Certification | null {
+    const employee = this.employeeProfiles.get(employeeId)
+    const certification = employee?.certifications.find(cert => cert.certificationId === certificationId)
+    if (!employee || !certification) return null
+
+    const revoked = { ...certification, revokedAt: new Date(), revocationReason: reason }
+    this.replaceCertification(employee, revoked)
+    return revoked
+  }
+
+  // Stores the signature compliance-certificates.ts computed for the certificate
+  recordCertificationSignature(employeeId: string, certificationId: string, signature: string, signingKeyId: string): Certification | null {
+    const employee = this.employeeProfiles.get(employeeId)
+    const certification = employee?.certifications.find(cert => cert.certificationId === certificationId)
+    if (!employee || !certification) return null
+
+    const signed = { ...certification, signature, signingKeyId }
+    this.replaceCertification(employee, signed)
+    return signed
+  }
+
+  getCertifications(employeeId: string, now = new Date()): (Certification & { status: CertificationStatus })[] {
+    const employee = this.employeeProfiles.get(employeeId)
+    if (!employee) return []
+
+    return employee.certifications
+      .map(cert => ({ ...cert, status: this.getCertificationStatus(employee, cert, now) }))
+      .sort((a, b) => new Date(b.issuedAt).getTime() - new Date(a.issuedAt).getTime())
+  }
+
+  findCertificationBySerial(serial: string): { employee: EmployeeProfile; certification: Certification } | null {
+    for (const employee of Array.from(this.employeeProfiles.values())) {
+      const certification = employee.certifications.find(cert => cert.serial === serial)
+      if (certification) return { employee, certification }
+    }
+    return null
+  }
+
+  getCertificationStatus(employee: EmployeeProfile, certification: Certification, now = new Date()): CertificationStatus {
+    if (certification.revokedAt) return 'revoked'
+    if (employee.certifications.some(cert => cert.renewalOf === certification.certificationId && !cert.revokedAt)) return 'superseded'
+    if (!certification.expiresAt) return 'active'
+
+    const expiresAt = new Date(certification.expiresAt).getTime()
+    if (expiresAt <= now.getTime()) return 'expired'
+
+    const windowDays = this.getComplianceRequirements(employee.companyId)
+      .find(req => req.certificationName === certification.name)?.recertificationWindowDays ?? DEFAULT_RECERTIFICATION_WINDOW_DAYS
+    return expiresAt - now.getTime() <= windowDays * DAY_MS ? 'expiring' : 'active'
+  }
+
+  // Compliance Lifecycle
+  /**
+   * One compliance pass: enrolls employees whose certification is missing, expired or inside its
+   * recertification window in the requirement's program, then escalates lapsed employees to their
+   * manager and, once lapsed past the requirement's escalation period, to the manager's manager.
+   * Escalations are raised once per lapse, so the pass can run as often as the scheduler likes.
+   */
+  async runComplianceCycle(now = new Date(), companyId?: string): Promise<ComplianceCycleSummary> {
+    const summary: ComplianceCycleSummary = { ranAt: now, recertificationEnrollments: [], escalations: [] }
+    const companies = Array.from(this.companyProfiles.values())
+      .filter(company => !companyId || company.companyId === companyId)
+
+    for (const company of companies) {
+      const requirements = this.getComplianceRequirements(company.companyId)
+      if (requirements.length === 0) continue
+      const employees = this.getEmployeesByCompany(company.companyId)
+
+      for (const requirement of requirements) {
+        const program = this.trainingPrograms.get(requirement.programId)
+        if (!program || program.status !== 'active') continue
+
+        for (const employee of employees.filter(emp => this.requirementApplies(requirement, emp))) {
+          const evaluation = this.evaluateRequirement(employee, requirement, now)
+          if (evaluation.state === 'compliant') continue
+
+          const enrollment = evaluation.enrollment
+          if (enrollment && enrollment.status !== 'completed' && enrollment.status !== 'failed') continue
+
+          const expiresAt = evaluation.certification?.expiresAt ? new Date(evaluation.certification.expiresAt) : undefined
+          const deadline = expiresAt && expiresAt > now
+            ? expiresAt
+            : new Date(now.getTime() + (requirement.gracePeriodDays ?? DEFAULT_GRACE_PERIOD_DAYS) * DAY_MS)
+          const progress = await this.enrollEmployee(employee.employeeId, requirement.programId, deadline)
+          summary.recertificationEnrollments.push({
+            employeeId: employee.employeeId,
+            requirementId: requirement.requirementId,
+            programId: requirement.programId,
+            progress
+          })
+        }
+      }
+
+      summary.escalations.push(...this.escalateLapsedEmployees(company.companyId, employees, requirements, now))
+    }
+
+    return summary
+  }
+
+  getComplianceEscalations(companyId: string, employeeId?: string): ComplianceEscalation[] {
+    return Array.from(this.escalations.values())
+      .filter(escalation => escalation.companyId === companyId && (!employeeId || escalation.employeeId === employeeId))
+      .sort((a, b) => new Date(b.escalatedAt).getTime() - new Date(a.escalatedAt).getTime())
+  }
+
+  /**
+   * Auditor-facing snapshot: every applicable requirement for every employee, with the certificate
+   * that satisfies it (serial, issue and expiry dates), the recertification enrollment and escalations.
+   */
+  generateComplianceReport(companyId: string, options: { department?: string; asOf?: Date } = {}): ComplianceReport {
+    const company = this.companyProfiles.get(companyId)
+    if (!company) {
+      throw new Error('Company not found')
+    }
+
+    const asOf = options.asOf || new Date()
+    const requirements = this.getComplianceRequirements(companyId)
+    const employees = Array.from(this.employeeProfiles.values())
+      .filter(emp => emp.companyId === companyId && (!options.department || emp.department === options.department))
+    const departments = [...new Set(employees.map(emp => emp.department))].sort()
+
+    return {
+      companyId,
+      companyName: company.name,
+      asOf,
+      requirements,
+      departments: departments.map(department => {
+        const deptEmployees = employees.filter(emp => emp.department === department)
+
+        const entries: ComplianceReportEntry[] = deptEmployees.map(employee => ({
+          employeeId: employee.employeeId,
+          name: employee.name,
+          role: employee.role,
+          manager: employee.manager,
+          requirements: requirements
+            .filter(requirement => this.requirementApplies(requirement, employee))
+            .map(requirement => {
+              const { state, certification, enrollment } = this.evaluateRequirement(employee, requirement, asOf)
+              return {
+                requirementId: requirement.requirementId,
+                state,
+                certificationId: certification?.certificationId,
+                serial: certification?.serial,
+                issuedAt: certification?.issuedAt,
+                expiresAt: certification?.expiresAt,
+                enrollmentStatus: enrollment?.status,
+                enrollmentDeadline: enrollment?.nextDeadline,
+                escalations: Array.from(this.escalations.values()).filter(escalation =>
+                  escalation.employeeId === employee.employeeId && escalation.requirementId === requirement.requirementId
+                ).length
+              }
+            })
+        }))
+
+        const byRequirement = requirements.map(requirement => {
+          const states = entries.flatMap(entry => entry.requirements
+            .filter(record => record.requirementId === requirement.requirementId)
+            .map(record => record.state))
+          return {
+            requirementId: requirement.requirementId,
+            required: states.length,
+            compliant: states.filter(state => state === 'compliant').length,
+            expiring: states.filter(state => state === 'expiring').length,
+            expired: states.filter(state => state === 'expired').length,
+            missing: states.filter(state => state === 'missing').length
+          }
+        })
+        const required = byRequirement.reduce((sum, req) => sum + req.required, 0)
+        const valid = byRequirement.reduce((sum, req) => sum + req.compliant + req.expiring, 0)
+
+        return {
+          department,
+          employeeCount: deptEmployees.length,
+          complianceRate: required > 0 ? valid / required : 1,
+          byRequirement,
+          employees: entries
+        }
+      })
+    }
+  }
+
   // Analytics and Reporting
   async generateCompanyAnalytics(companyId: string, period: { startDate: Date; endDate: Date }): Promise<CompanyAnalytics> {
     const employees = Array.from(this.employeeProfiles.values())
@@ -419,13 +912,63 @@ class CorporateTrainingEngine {
     }
   }
 
+  private ruleMatches(rule: EnrollmentRule, employee: EmployeeProfile): boolean {
+    const { roles, departments, levels } = rule.match
+    return (!roles?.length || roles.includes(employee.role)) &&
+      (!departments?.length || departments.includes(employee.department)) &&
+      (!levels?.length || levels.includes(employee.level))
+  }
+
+  private async enrollByRule(rule: EnrollmentRule, employees = this.getEmployeesByCompany(rule.companyId)): Promise<EmployeeProgress[]> {
+    const program = this.trainingPrograms.get(rule.programId)
+    if (!rule.active || !program || program.status !== 'active') return []
+
+    const enrolled: EmployeeProgress[] = []
+    for (const employee of employees) {
+      if (employee.active === false || !this.ruleMatches(rule, employee)) continue
+      if (this.getEmployeeProgress(employee.employeeId, rule.programId).length > 0) continue
+
+      const deadline = rule.deadlineDays !== undefined
+        ? new Date(Date.now() + rule.deadlineDays * DAY_MS)
+        : program.deadlines?.completionDeadline
+      enrolled.push(await this.enrollEmployee(employee.employeeId, rule.programId, deadline))
+    }
+    return enrolled
+  }
+
+  private async applyEnrollmentRules(employee: EmployeeProfile): Promise<void> {
+    for (const rule of this.getEnrollmentRules(employee.companyId)) {
+      await this.enrollByRule(rule, [employee])
+    }
+  }
+
+  // Keeps managers' directReports in step with their reports' manager field
+  private syncDirectReports(employeeId: string, previousManagerId?: string, managerId?: string): void {
+    const previousManager = previousManagerId ? this.employeeProfiles.get(previousManagerId) : undefined
+    if (previousManager && previousManagerId !== managerId) {
+      this.employeeProfiles.set(previousManager.employeeId, {
+        ...previousManager,
+        directReports: (previousManager.directReports || []).filter(id => id !== employeeId)
+      })
+    }
+
+    const manager = managerId ? this.employeeProfiles.get(managerId) : undefined
+    if (manager && !(manager.directReports || []).includes(employeeId)) {
+      this.employeeProfiles.set(manager.employeeId, {
+        ...manager,
+        directReports: [...(manager.directReports || []), employeeId]
+      })
+    }
+  }
+
   private async enrollEligibleEmployees(program: TrainingProgram): Promise<void> {
     if (!program.requiredFor) return
     
     const eligibleEmployees = Array.from(this.employeeProfiles.values())
       .filter(emp => 
-        program.requiredFor!.includes(emp.role) || 
-        program.requiredFor!.includes(emp.department)
+        emp.active !== false &&
+        (program.requiredFor!.includes(emp.role) || 
+        program.requiredFor!.includes(emp.department))
       )
     
     for (const employee of eligibleEmployees) {
@@ -436,6 +979,128 @@ class CorporateTrainingEngine {
     }
   }
 
+  // Older clients sent certification names only; those are kept as held certifications that never expire
+  private normalizeCertifications(certifications: (Certification | string)[] | undefined, holderName: string): Certification[] {
+    return (certifications || []).map(cert => typeof cert === 'string'
+      ? {
+          certificationId: `cert_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          serial: this.generateSerial(new Date()),
+          name: cert,
+          holderName,
+          issuedAt: new Date()
+        }
+      : cert
+    )
+  }
+
+  // Serials are printed on certificates and looked up to verify them, so they must be unguessable and unique
+  private generateSerial(issuedAt: Date): string {
+    let serial: string
+    do {
+      const random = Array.from(crypto.getRandomValues(new Uint8Array(8)), byte => byte.toString(16).padStart(2, '0'))
+      serial = `CERT-${issuedAt.getUTCFullYear()}-${random.join('').toUpperCase()}`
+    } while (this.findCertificationBySerial(serial))
+    return serial
+  }
+
+  private replaceCertification(employee: EmployeeProfile, certification: Certification): void {
+    this.employeeProfiles.set(employee.employeeId, {
+      ...employee,
+      certifications: employee.certifications.map(cert =>
+        cert.certificationId === certification.certificationId ? certification : cert
+      )
+    })
+  }
+
+  // The most recently issued certification of that name that has not been revoked
+  private getCurrentCertification(employee: EmployeeProfile, name: string): Certification | undefined {
+    return employee.certifications
+      .filter(cert => cert.name === name && !cert.revokedAt)
+      .sort((a, b) => new Date(b.issuedAt).getTime() - new Date(a.issuedAt).getTime())[0]
+  }
+
+  // Requirements stored as plain names by older clients name no program and cannot be tracked
+  private getComplianceRequirements(companyId: string): ComplianceRequirement[] {
+    const company = this.companyProfiles.get(companyId)
+    return (company?.complianceRequirements || []).filter(req => typeof req === 'object' && req.programId)
+  }
+
+  private requirementApplies(requirement: ComplianceRequirement, employee: EmployeeProfile): boolean {
+    return !requirement.appliesTo || requirement.appliesTo.length === 0 ||
+      requirement.appliesTo.includes(employee.role) || requirement.appliesTo.includes(employee.department)
+  }
+
+  private evaluateRequirement(employee: EmployeeProfile, requirement: ComplianceRequirement, now: Date): RequirementEvaluation {
+    const certification = this.getCurrentCertification(employee, requirement.certificationName)
+    const issuedAt = certification ? new Date(certification.issuedAt).getTime() : 0
+    const enrollment = this.getEmployeeProgress(employee.employeeId, requirement.programId)
+      .filter(progress => new Date(progress.enrollmentDate).getTime() >= issuedAt)
+      .pop()
+
+    if (!certification) {
+      const deadline = enrollment?.nextDeadline ? new Date(enrollment.nextDeadline) : undefined
+      return { state: 'missing', enrollment, lapsedSince: deadline && deadline <= now ? deadline : undefined }
+    }
+
+    const status = this.getCertificationStatus(employee, certification, now)
+    if (status === 'expired') {
+      return { state: 'expired', certification, enrollment, lapsedSince: new Date(certification.expiresAt!) }
+    }
+    return { state: status === 'expiring' ? 'expiring' : 'compliant', certification, enrollment }
+  }
+
+  // Each manager hears about lapsed direct reports; reports of reports still lapsed after the
+  // escalation period go to their manager's manager as well
+  private escalateLapsedEmployees(
+    companyId: string,
+    employees: EmployeeProfile[],
+    requirements: ComplianceRequirement[],
+    now: Date
+  ): ComplianceEscalation[] {
+    const raised: ComplianceEscalation[] = []
+    // Deprovisioned managers cannot act on an escalation; their reports' lapses wait for a new manager
+    const managerIds = new Set(employees.map(emp => emp.manager)
+      .filter((id): id is string => !!id && this.employeeProfiles.get(id)?.active !== false))
+
+    const escalate = (managerId: string, employee: EmployeeProfile, level: 1 | 2) => {
+      for (const requirement of requirements.filter(req => this.requirementApplies(req, employee))) {
+        const { state, lapsedSince } = this.evaluateRequirement(employee, requirement, now)
+        if (!lapsedSince) continue
+
+        const escalationDays = requirement.escalationDays ?? DEFAULT_ESCALATION_DAYS
+        if (level === 2 && now.getTime() - lapsedSince.getTime() < escalationDays * DAY_MS) continue
+
+        const escalationId = `${requirement.requirementId}:${employee.employeeId}:${level}:${lapsedSince.toISOString()}`
+        if (this.escalations.has(escalationId)) continue
+
+        const escalation: ComplianceEscalation = {
+          escalationId,
+          companyId,
+          requirementId: requirement.requirementId,
+          employeeId: employee.employeeId,
+          managerId,
+          level,
+          state,
+          lapsedSince,
+          escalatedAt: now
+        }
+        this.escalations.set(escalationId, escalation)
+        raised.push(escalation)
+      }
+    }
+
+    for (const managerId of Array.from(managerIds)) {
+      for (const report of this.getEmployeesByManager(managerId).filter(emp => emp.active !== false)) {
+        escalate(managerId, report, 1)
+        for (const skipLevelReport of this.getEmployeesByManager(report.employeeId).filter(emp => emp.active !== false)) {
+          escalate(managerId, skipLevelReport, 2)
+        }
+      }
+    }
+
+    return raised
+  }
+
   private calculateComplianceRate(companyId: string, employees: EmployeeProfile[]): number {
     const compliancePrograms = Array.from(this.trainingPrograms.values())
       .filter(p => p.type === 'compliance' && p.status === 'active')
@@ -519,6 +1184,36 @@ class CorporateTrainingEngine {
   }
 
   private async getComplianceTracking(companyId: string): Promise<CompanyAnalytics['complianceTracking']> {
+    // Companies with certification requirements are tracked by certificate validity, as of now
+    const requirements = this.getComplianceRequirements(companyId)
+    if (requirements.length > 0) {
+      const now = new Date()
+      const employees = Array.from(this.employeeProfiles.values())
+        .filter(emp => emp.companyId === companyId)
+
+      return requirements.map(requirement => {
+        const evaluations = employees
+          .filter(emp => this.requirementApplies(requirement, emp))
+          .map(emp => this.evaluateRequirement(emp, requirement, now))
+        const valid = evaluations.filter(e => e.state === 'compliant' || e.state === 'expiring')
+        const overdue = evaluations.filter(e => e.lapsedSince)
+        // The next date someone falls out of compliance: a certificate expiry or a completion deadline
+        const upcoming = evaluations
+          .map(e => e.state === 'expiring' ? e.certification?.expiresAt : e.enrollment?.nextDeadline)
+          .filter((date): date is Date => !!date && new Date(date) > now)
+          .map(date => new Date(date))
+          .sort((a, b) => a.getTime() - b.getTime())
+
+        return {
+          requirementName: requirement.name,
+          dueDate: upcoming[0] || now,
+          completionRate: valid.length / Math.max(evaluations.length, 1),
+          atRiskEmployees: evaluations.length - valid.length - overdue.length + evaluations.filter(e => e.state === 'expiring').length,
+          overdue: overdue.length
+        }
+      })
+    }
+
     const compliancePrograms = Array.from(this.trainingPrograms.values())
       .filter(p => p.type === 'compliance' && p.status === 'active')
     
@@ -1,5 +1,8 @@
 'use client'
 
+import { EngineStateStore } from './engine-repository'
+import type { LtiGradeSyncResult, LtiLaunch, LtiLineItemScores, LtiLmsType } from './lti-tool'
+
 export interface AcademicInstitution {
   institutionId: string
   name: string
@@ -364,13 +367,23 @@ export interface InstitutionDashboard {
 }
 
 class CurriculumIntegrationEngine {
-  private institutions: Map<string, AcademicInstitution> = new Map()
-  private instructors: Map<string, Instructor> = new Map()
-  private students: Map<string, Student> = new Map()
-  private courses: Map<string, Course> = new Map()
-  private assignments: Map<string, Assignment> = new Map()
-  private submissions: Map<string, StudentSubmission[]> = new Map()
-  private analytics: Map<string, ClassroomAnalytics> = new Map()
+  private store = new EngineStateStore('curriculum_integration')
+  private institutions: Map<string, AcademicInstitution> = this.store.map('institutions')
+  private instructors: Map<string, Instructor> = this.store.map('instructors')
+  private students: Map<string, Student> = this.store.map('students')
+  private courses: Map<string, Course> = this.store.map('courses')
+  private assignments: Map<string, Assignment> = this.store.map('assignments')
+  private submissions: Map<string, StudentSubmission[]> = this.store.map('submissions')
+  private analytics: Map<string, ClassroomAnalytics> = this.store.map('analytics')
+
+  // Persistence
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
 
   // Institution Management
   async createInstitution(institution: AcademicInstitution): Promise<AcademicInstitution> {
@@ -598,6 +611,15 @@ class CurriculumIntegrationEngine {
     return null
   }
 
+  getSubmission(submissionId: string): StudentSubmission | null {
+    for (const submissions of this.submissions.values()) {
+      const submission = submissions.find(s => s.submissionId === submissionId)
+      if (submission) return submission
+    }
+
+    return null
+  }
+
   getSubmissionsByAssignment(assignmentId: string): StudentSubmission[] {
     const allSubmissions: StudentSubmission[] = []
     
@@ -754,18 +776,126 @@ class CurriculumIntegrationEngine {
   }
 
   // Grade Management and LMS Integration
+  // Grades flow back over LTI 1.3 Assignment and Grade Services to every LMS course linked by a launch
   async syncGradesWithLMS(courseId: string, lmsType: 'canvas' | 'blackboard' | 'moodle' | 'google_classroom'): Promise<boolean> {
-    // This would integrate with external LMS APIs
+    const result = await this.publishGradesToLMS(courseId, lmsType)
+    return result.success
+  }
+
+  async publishGradesToLMS(courseId: string, lmsType?: LtiLmsType): Promise<LtiGradeSyncResult> {
+    const emptyResult: LtiGradeSyncResult = { success: false, lineItemsCreated: 0, scoresPublished: 0, skipped: [], errors: [] }
     const course = this.courses.get(courseId)
-    if (!course) return false
-    
-    const assignments = this.getAssignmentsByCourse(courseId)
-    const submissions = assignments.flatMap(a => this.getSubmissionsByAssignment(a.assignmentId))
-    
-    // Mock LMS sync - in real implementation, this would use LMS APIs
-    console.log(`Syncing ${submissions.length} grades to ${lmsType} for course ${courseId}`)
-    
-    return true
+    if (!course) return { ...emptyResult, errors: ['Course not found'] }
+
+    const { ltiToolProvider } = await import('./lti-tool')
+    await ltiToolProvider.hydrate()
+
+    const contexts = ltiToolProvider.findCourseContexts(courseId).filter(context => {
+      const platform = ltiToolProvider.getPlatform(context.platformId)
+      return platform && (!lmsType || platform.lmsType === lmsType || platform.lmsType === 'other')
+    })
+    if (contexts.length === 0) {
+      return { ...emptyResult, errors: [`Course is not linked to a ${lmsType || 'LTI'} course; launch it from the LMS first`] }
+    }
+
+    // Latest graded attempt per student and assignment
+    const lineItems: LtiLineItemScores[] = this.getAssignmentsByCourse(courseId).map(assignment => {
+      const latest = new Map<string, StudentSubmission>()
+      for (const submission of this.getSubmissionsByAssignment(assignment.assignmentId)) {
+        if (submission.grading.status !== 'graded' && submission.grading.status !== 'returned') continue
+        if (submission.grading.score === undefined) continue
+        const current = latest.get(submission.studentId)
+        if (!current || submission.metadata.attemptNumber > current.metadata.attemptNumber) {
+          latest.set(submission.studentId, submission)
+        }
+      }
+
+      return {
+        resourceId: assignment.assignmentId,
+        label: assignment.title,
+        scoreMaximum: assignment.grading.totalPoints,
+        scores: Array.from(latest.values()).map(submission => ({
+          localUserId: submission.studentId,
+          scoreGiven: submission.grading.score!,
+          scoreMaximum: submission.grading.maxScore || assignment.grading.totalPoints,
+          comment: submission.grading.feedback,
+          timestamp: submission.grading.gradedAt || submission.metadata.lastModified,
+          submissionId: submission.submissionId
+        }))
+      }
+    })
+
+    const results = await Promise.all(
+      contexts.map(context => ltiToolProvider.publishScores(context.platformId, context.contextId, lineItems))
+    )
+    await ltiToolProvider.flush()
+
+    return results.reduce((total, result) => ({
+      success: total.success && result.success,
+      platformId: total.platformId || result.platformId,
+      contextId: total.contextId || result.contextId,
+      lineItemsCreated: total.lineItemsCreated + result.lineItemsCreated,
+      scoresPublished: total.scoresPublished + result.scoresPublished,
+      skipped: [...total.skipped, ...result.skipped],
+      errors: [...total.errors, ...result.errors]
+    }), { ...emptyResult, success: true })
+  }
+
+  /**
+   * Map a validated LTI launch onto local records: the LMS course to a course (by existing link or the
+   * course_id custom parameter set at deep linking), the LMS user to a student or instructor by email.
+   */
+  async resolveLtiLaunch(launch: LtiLaunch): Promise<{
+    course: Course | null
+    assignment: Assignment | null
+    student: Student | null
+    instructor: Instructor | null
+  }> {
+    const { ltiToolProvider } = await import('./lti-tool')
+    const platform = ltiToolProvider.getPlatform(launch.platformId)
+
+    let course: Course | null = null
+    if (launch.context) {
+      const linkedCourseId = ltiToolProvider.getLinkedCourseId(launch.platformId, launch.context.id)
+      course = this.courses.get(linkedCourseId || launch.custom.course_id) || null
+      // A platform registered for one institution can only reach that institution's courses
+      if (course && platform?.institutionId && course.institutionId !== platform.institutionId) {
+        course = null
+      }
+      if (course && !linkedCourseId) {
+        ltiToolProvider.linkContext(launch, course.courseId)
+      }
+    }
+
+    const candidate = launch.custom.assignment_id ? this.assignments.get(launch.custom.assignment_id) : undefined
+    const assignment = candidate && course && candidate.courseId === course.courseId ? candidate : null
+    if (assignment && launch.ags?.lineitem) {
+      ltiToolProvider.linkLineItem(launch.platformId, assignment.assignmentId, launch.ags.lineitem)
+    }
+
+    const institutionId = course?.institutionId || platform?.institutionId
+    const linkedUserId = ltiToolProvider.getLinkedUserId(launch.platformId, launch.userId)
+    const email = launch.email?.toLowerCase()
+    const inInstitution = (record: { institutionId: string }) => !institutionId || record.institutionId === institutionId
+
+    let student: Student | null = null
+    let instructor: Instructor | null = null
+    if (launch.isInstructor) {
+      instructor = (linkedUserId && this.instructors.get(linkedUserId)) ||
+        Array.from(this.instructors.values()).find(i => inInstitution(i) && !!email && i.personalInfo.email.toLowerCase() === email) ||
+        null
+    } else {
+      student = (linkedUserId && this.students.get(linkedUserId)) ||
+        Array.from(this.students.values()).find(s => inInstitution(s) && !!email && s.personalInfo.email?.toLowerCase() === email) ||
+        null
+    }
+
+    const localUserId = instructor?.instructorId || student?.studentId
+    if (localUserId && localUserId !== linkedUserId) {
+      ltiToolProvider.linkUser(launch.platformId, launch.userId, localUserId)
+    }
+
+    return { course, assignment, student, instructor }
   }
 
   async generateTranscript(studentId: string, institutionId: string): Promise<{
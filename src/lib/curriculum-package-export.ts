@@ -0,0 +1,858 @@
+// Curriculum Package Export
+// Packages a GeneratedCurriculum for LMS import: IMS Common Cartridge 1.3 (lessons as web content,
+// assessments as QTI 1.2 quizzes) and SCORM 1.2 / 2004 (lessons and quizzes as SCOs that report
+// completion and scores to the LMS, with the quiz items also written out as QTI 2.1)
+
+import type {
+  GeneratedCurriculum,
+  DetailedLessonPlan,
+  DetailedAssessmentMaterial,
+  AssessmentQuestion,
+  AssessmentRubric
+} from './automated-curriculum-generator'
+
+export type CurriculumPackageFormat = 'common_cartridge' | 'scorm_1_2' | 'scorm_2004'
+
+export interface CurriculumPackageOptions {
+  language?: string // default 'en'
+  masteryScore?: number // 0-1 share of auto-graded points needed to pass a SCORM quiz, default 0.7
+}
+
+export interface CurriculumPackageFile {
+  filename: string
+  mime_type: string
+  content_base64: string
+  format: CurriculumPackageFormat
+  size_bytes: number
+  summary: {
+    modules: number
+    lessons: number
+    assessments: number
+    questions: number
+    files: number
+  }
+}
+
+// Question as written to QTI and the SCORM quiz player
+export interface PackageQuestion {
+  identifier: string
+  kind: 'multiple_choice' | 'true_false' | 'short_answer' | 'essay'
+  prompt: string
+  choices: { identifier: string; text: string }[]
+  correctChoice?: string // choice identifier
+  correctText?: string // short answer
+  points: number
+}
+
+interface PackageModule {
+  identifier: string
+  title: string
+  description: string
+  lessons: DetailedLessonPlan[]
+  assessments: DetailedAssessmentMaterial[]
+}
+
+interface PackageItem {
+  identifier: string
+  title: string
+  resourceId?: string
+  masteryScore?: number // quizzes only
+  children?: PackageItem[]
+}
+
+interface PackageResource {
+  identifier: string
+  type: string
+  href?: string
+  files: string[]
+  sco?: boolean
+  dependencies?: string[]
+}
+
+const DEFAULT_MASTERY_SCORE = 0.7
+const SHARED_ASSETS_ID = 'shared_assets'
+
+// ==================================================================
+// TEXT AND IDENTIFIER HELPERS
+// ==================================================================
+
+export function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'curriculum'
+}
+
+// Manifest identifiers are XML IDs: they must start with a letter and be unique within the package
+function createIdentifierFactory() {
+  const used = new Set<string>()
+  return (prefix: string, raw?: string): string => {
+    const base = `${prefix}_${(raw || '').replace(/[^A-Za-z0-9_.-]/g, '_')}`.replace(/_+$/, '')
+    let identifier = base
+    for (let i = 2; used.has(identifier); i++) {
+      identifier = `${base}_${i}`
+    }
+    used.add(identifier)
+    return identifier
+  }
+}
+
+function list(items: string[] | undefined): string {
+  const entries = (items || []).filter(Boolean)
+  return entries.length > 0 ? `<ul>${entries.map(item => `<li>${escapeXml(item)}</li>`).join('')}</ul>` : ''
+}
+
+function section(title: string, body: string): string {
+  return body ? `<section><h2>${escapeXml(title)}</h2>${body}</section>` : ''
+}
+
+// ==================================================================
+// CURRICULUM OUTLINE
+// ==================================================================
+
+// Lessons come from lesson_plans and each module's lesson_sequence; assessments are attached to the
+// module that lists them and the rest are collected in a final module
+function buildOutline(curriculum: GeneratedCurriculum, createId: (prefix: string, raw?: string) => string): PackageModule[] {
+  const blueprintModules = curriculum.blueprint?.curriculum_structure || []
+  const detailedModules = curriculum.detailed_modules || []
+
+  const moduleIds: string[] = []
+  for (const moduleId of [
+    ...blueprintModules.map(m => m.module_id),
+    ...detailedModules.map(m => m.module_id)
+  ]) {
+    if (moduleId && !moduleIds.includes(moduleId)) moduleIds.push(moduleId)
+  }
+
+  const lessonsById = new Map<string, DetailedLessonPlan>()
+  for (const lesson of [
+    ...(curriculum.lesson_plans || []),
+    ...detailedModules.flatMap(m => m.lesson_sequence || [])
+  ]) {
+    if (lesson?.lesson_id && !lessonsById.has(lesson.lesson_id)) lessonsById.set(lesson.lesson_id, lesson)
+  }
+
+  const assessments = (curriculum.assessment_materials || []).filter(a => a?.assessment_id)
+  const placedAssessments = new Set<string>()
+  const placedLessons = new Set<string>()
+
+  const modules: PackageModule[] = moduleIds.map((moduleId, index) => {
+    const info = blueprintModules.find(m => m.module_id === moduleId) ||
+      detailedModules.find(m => m.module_id === moduleId)?.basic_info
+    const lessons = Array.from(lessonsById.values()).filter(lesson => lesson.module_id === moduleId)
+    const moduleAssessments = assessments.filter(a => info?.assessments?.includes(a.assessment_id))
+
+    lessons.forEach(lesson => placedLessons.add(lesson.lesson_id))
+    moduleAssessments.forEach(a => placedAssessments.add(a.assessment_id))
+
+    return {
+      identifier: createId('module', moduleId),
+      title: info?.title || `Module ${index + 1}`,
+      description: info?.description || '',
+      lessons,
+      assessments: moduleAssessments
+    }
+  })
+
+  const looseLessons = Array.from(lessonsById.values()).filter(lesson => !placedLessons.has(lesson.lesson_id))
+  const looseAssessments = assessments.filter(a => !placedAssessments.has(a.assessment_id))
+  if (looseLessons.length > 0 || looseAssessments.length > 0) {
+    modules.push({
+      identifier: createId('module', 'additional'),
+      title: looseLessons.length > 0 ? 'Additional Lessons and Assessments' : 'Assessments',
+      description: '',
+      lessons: looseLessons,
+      assessments: looseAssessments
+    })
+  }
+
+  return modules.filter(m => m.lessons.length > 0 || m.assessments.length > 0)
+}
+
+// ==================================================================
+// QUESTIONS
+// ==================================================================
+
+/**
+ * Normalize a generated question to the kinds QTI and the quiz player support
+ */
+export function normalizeQuestion(question: AssessmentQuestion, index: number): PackageQuestion {
+  // Generated questions carry their text in `content` as often as in `text`
+  const prompt = question.text || (question as any).content || `Question ${index + 1}`
+  const type = (question.type || '').toLowerCase()
+  const options = (question.options || []).filter(option => option !== undefined && option !== null && option !== '')
+  const correct = (question.correct_answer || '').trim()
+  const identifier = `q${index + 1}`
+
+  let kind: PackageQuestion['kind']
+  let choiceTexts: string[] = []
+  if (type === 'true_false') {
+    kind = 'true_false'
+    choiceTexts = ['True', 'False']
+  } else if (type === 'multiple_choice' && options.length > 1) {
+    kind = 'multiple_choice'
+    choiceTexts = options
+  } else if (type === 'short_answer' || type === 'fill_in_blank' || (type === 'multiple_choice' && correct)) {
+    kind = 'short_answer'
+  } else {
+    kind = 'essay'
+  }
+
+  const choices = choiceTexts.map((text, choiceIndex) => ({
+    identifier: String.fromCharCode(65 + choiceIndex),
+    text
+  }))
+
+  let correctChoice: string | undefined
+  if (choices.length > 0 && correct) {
+    const byText = choices.find(choice => choice.text.trim().toLowerCase() === correct.toLowerCase())
+    const letter = correct.match(/^(?:option\s+)?([a-z])$/i)?.[1]?.toUpperCase()
+    correctChoice = byText?.identifier || choices.find(choice => choice.identifier === letter)?.identifier
+  }
+
+  return {
+    identifier,
+    kind,
+    prompt,
+    choices,
+    correctChoice,
+    correctText: kind === 'short_answer' && correct ? correct : undefined,
+    points: question.points > 0 ? question.points : 1
+  }
+}
+
+function isAutoGraded(question: PackageQuestion): boolean {
+  return !!question.correctChoice || !!question.correctText
+}
+
+// ==================================================================
+// QTI 1.2 (COMMON CARTRIDGE PROFILE)
+// ==================================================================
+
+const CC_QUESTION_PROFILES: Record<PackageQuestion['kind'], string> = {
+  multiple_choice: 'cc.multiple_choice.v0p1',
+  true_false: 'cc.true_false.v0p1',
+  short_answer: 'cc.fib.v0p1',
+  essay: 'cc.essay.v0p1'
+}
+
+function qtiMetadataFields(fields: Record<string, string | number>): string {
+  return Object.entries(fields)
+    .map(([label, entry]) => `<qtimetadatafield><fieldlabel>${label}</fieldlabel><fieldentry>${escapeXml(entry)}</fieldentry></qtimetadatafield>`)
+    .join('')
+}
+
+function buildCCQuestion(question: PackageQuestion): string {
+  const metadata = `<itemmetadata><qtimetadata>${qtiMetadataFields({
+    cc_profile: CC_QUESTION_PROFILES[question.kind],
+    cc_weighting: question.points
+  })}</qtimetadata></itemmetadata>`
+  const prompt = `<material><mattext texttype="text/plain">${escapeXml(question.prompt)}</mattext></material>`
+
+  let response: string
+  let processing = ''
+  if (question.choices.length > 0) {
+    response = `<response_lid ident="response1" rcardinality="Single"><render_choice>${question.choices
+      .map(choice => `<response_label ident="${choice.identifier}"><material><mattext texttype="text/plain">${escapeXml(choice.text)}</mattext></material></response_label>`)
+      .join('')}</render_choice></response_lid>`
+    if (question.correctChoice) {
+      processing = `<resprocessing><outcomes><decvar varname="SCORE" vartype="Decimal" minvalue="0" maxvalue="100"/></outcomes>` +
+        `<respcondition continue="No"><conditionvar><varequal respident="response1">${question.correctChoice}</varequal></conditionvar>` +
+        `<setvar varname="SCORE" action="Set">100</setvar></respcondition></resprocessing>`
+    }
+  } else {
+    const rows = question.kind === 'essay' ? ' rows="10"' : ''
+    response = `<response_str ident="response1" rcardinality="Single"><render_fib${rows}><response_label ident="answer1"/></render_fib></response_str>`
+    if (question.correctText) {
+      processing = `<resprocessing><outcomes><decvar varname="SCORE" vartype="Decimal" minvalue="0" maxvalue="100"/></outcomes>` +
+        `<respcondition continue="No"><conditionvar><varequal respident="response1" case="No">${escapeXml(question.correctText)}</varequal></conditionvar>` +
+        `<setvar varname="SCORE" action="Set">100</setvar></respcondition></resprocessing>`
+    }
+  }
+
+  return `<item ident="${question.identifier}" title="${escapeXml(question.prompt.slice(0, 80))}">${metadata}<presentation>${prompt}${response}</presentation>${processing}</item>`
+}
+
+/**
+ * IMS CC 1.3 assessment (QTI 1.2.1 profile)
+ */
+export function buildCCAssessment(assessment: DetailedAssessmentMaterial, identifier: string): string {
+  const questions = (assessment.questions || []).map(normalizeQuestion)
+  const metadata = qtiMetadataFields({
+    cc_profile: 'cc.exam.v0p1',
+    qmd_assessmenttype: 'Examination',
+    qmd_scoretype: 'Percentage',
+    cc_maxattempts: assessment.type === 'formative' ? 'unlimited' : 1,
+    ...(assessment.time_allocation > 0 ? { qmd_timelimit: assessment.time_allocation } : {})
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<questestinterop xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_qtiasiv1p2p1_v1p0.xsd">
+<assessment ident="${identifier}" title="${escapeXml(assessment.title)}">
+<qtimetadata>${metadata}</qtimetadata>
+<section ident="root_section">
+${questions.map(buildCCQuestion).join('\n')}
+</section>
+</assessment>
+</questestinterop>
+`
+}
+
+// ==================================================================
+// QTI 2.1 (SCORM PACKAGES)
+// ==================================================================
+
+export function buildQti21Item(question: PackageQuestion): string {
+  const isChoice = question.choices.length > 0
+  const baseType = isChoice ? 'identifier' : 'string'
+  const correctValue = question.correctChoice || question.correctText
+  const correctResponse = correctValue ? `<correctResponse><value>${escapeXml(correctValue)}</value></correctResponse>` : ''
+
+  let interaction: string
+  if (isChoice) {
+    interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1"><prompt>${escapeXml(question.prompt)}</prompt>${question.choices
+      .map(choice => `<simpleChoice identifier="${choice.identifier}">${escapeXml(choice.text)}</simpleChoice>`)
+      .join('')}</choiceInteraction>`
+  } else if (question.kind === 'short_answer') {
+    interaction = `<p>${escapeXml(question.prompt)}</p><p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="40"/></p>`
+  } else {
+    interaction = `<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="10"><prompt>${escapeXml(question.prompt)}</prompt></extendedTextInteraction>`
+  }
+
+  const processing = correctValue
+    ? '<responseProcessing template="http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct"/>'
+    : ''
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${question.identifier}" title="${escapeXml(question.prompt.slice(0, 80))}" adaptive="false" timeDependent="false">
+<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="${baseType}">${correctResponse}</responseDeclaration>
+<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float" normalMaximum="${question.points}"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>
+<itemBody>${interaction}</itemBody>
+${processing}
+</assessmentItem>
+`
+}
+
+export function buildQti21Test(assessment: DetailedAssessmentMaterial, identifier: string, questions: PackageQuestion[]): string {
+  const itemRefs = questions
+    .map(question => `<assessmentItemRef identifier="${question.identifier}" href="${question.identifier}.xml"><weight identifier="W" value="${question.points}"/></assessmentItemRef>`)
+    .join('\n')
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentTest xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${identifier}" title="${escapeXml(assessment.title)}">
+<testPart identifier="part1" navigationMode="nonlinear" submissionMode="simultaneous">
+<assessmentSection identifier="section1" title="${escapeXml(assessment.title)}" visible="true">
+${itemRefs}
+</assessmentSection>
+</testPart>
+</assessmentTest>
+`
+}
+
+// ==================================================================
+// HTML PAGES
+// ==================================================================
+
+function renderPage(title: string, body: string, language: string, head: string = ''): string {
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(language)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:820px;margin:2rem auto;padding:0 1rem;line-height:1.6;color:#1f2937}h1{font-size:1.6rem}h2{font-size:1.2rem;margin-top:1.5rem}table{border-collapse:collapse;width:100%}td,th{border:1px solid #d1d5db;padding:.4rem;vertical-align:top;text-align:left}.meta{color:#6b7280}.question{margin:1.25rem 0;padding:1rem;border:1px solid #e5e7eb;border-radius:8px}.correct{border-color:#10b981}.incorrect{border-color:#ef4444}</style>
+${head}</head>
+<body>
+<h1>${escapeXml(title)}</h1>
+${body}
+</body>
+</html>
+`
+}
+
+function renderOverview(curriculum: GeneratedCurriculum, modules: PackageModule[]): string {
+  const blueprint = curriculum.blueprint
+  const objectives = (blueprint?.primary_objectives || []).map(o => `${o.title}: ${o.description}`)
+  const audience = blueprint?.target_audience
+  const meta = [
+    blueprint?.subject_area,
+    blueprint?.duration_weeks ? `${blueprint.duration_weeks} weeks` : '',
+    audience?.education_level?.replace(/_/g, ' '),
+    audience?.prior_knowledge_level
+  ].filter(Boolean).join(' · ')
+
+  return [
+    meta ? `<p class="meta">${escapeXml(meta)}</p>` : '',
+    blueprint?.description ? `<p>${escapeXml(blueprint.description)}</p>` : '',
+    section('Learning Objectives', list(objectives)),
+    section('Prerequisites', list(blueprint?.prerequisites)),
+    section('Modules', list(modules.map(m => m.description ? `${m.title}: ${m.description}` : m.title)))
+  ].join('\n')
+}
+
+function renderLesson(lesson: DetailedLessonPlan, objectiveTitles: Map<string, string>): string {
+  const structure = lesson.lesson_structure
+  const activities = (lesson.activities || []).map(activity =>
+    `<tr><td>${escapeXml(activity.name)}</td><td>${escapeXml(activity.type)}</td><td>${escapeXml(activity.duration)} min</td><td>${escapeXml(activity.description)}${list(activity.materials)}</td></tr>`
+  ).join('')
+
+  return [
+    lesson.duration_minutes ? `<p class="meta">${lesson.duration_minutes} minutes</p>` : '',
+    section('Objectives', list((lesson.objectives || []).map(id => objectiveTitles.get(id) || id))),
+    section('Introduction', structure?.introduction ? `<p>${escapeXml(structure.introduction)}</p>` : ''),
+    section('Content', list(structure?.main_content)),
+    section('Activities', activities ? `<table><thead><tr><th>Activity</th><th>Type</th><th>Duration</th><th>Details</th></tr></thead><tbody>${activities}</tbody></table>` : ''),
+    section('Materials', list(lesson.materials_needed)),
+    section('Check for Understanding', list((lesson.assessment_opportunities || []).map(o => `${o.timing ? `${o.timing}: ` : ''}${o.description}`))),
+    section('Differentiation', list(lesson.differentiation_notes)),
+    section('Conclusion', structure?.conclusion ? `<p>${escapeXml(structure.conclusion)}</p>` : '')
+  ].join('\n')
+}
+
+function renderRubrics(rubrics: AssessmentRubric[] | undefined): string {
+  return (rubrics || []).map(rubric => {
+    const levels = rubric.performance_levels || []
+    const header = levels.map(level => `<th>${escapeXml(level.name)}</th>`).join('')
+    const rows = (rubric.criteria || []).map(criterion =>
+      `<tr><td><strong>${escapeXml(criterion.name)}</strong><br>${escapeXml(criterion.description)}${criterion.weight ? `<br><span class="meta">Weight ${escapeXml(criterion.weight)}</span>` : ''}</td>${levels
+        .map((level, index) => `<td>${escapeXml(criterion.rubric_levels?.[index] || level.description)}</td>`)
+        .join('')}</tr>`
+    ).join('')
+    return section(rubric.title, `<table><thead><tr><th>Criterion</th>${header}</tr></thead><tbody>${rows}</tbody></table>`)
+  }).join('\n')
+}
+
+// ==================================================================
+// SCORM RUNTIME
+// ==================================================================
+
+// Finds the LMS API in the parent frames / opener, records completion for lessons and scores for quizzes
+function buildScormRuntimeScript(version: '1.2' | '2004'): string {
+  return `(function (window) {
+  var VERSION = '${version}';
+  var API_NAME = VERSION === '1.2' ? 'API' : 'API_1484_11';
+  var api = null;
+  var started = false;
+  var finished = false;
+
+  function search(win) {
+    for (var depth = 0; win && depth < 10; depth++) {
+      try {
+        if (win[API_NAME]) return win[API_NAME];
+      } catch (e) {
+        return null;
+      }
+      if (!win.parent || win.parent === win) break;
+      win = win.parent;
+    }
+    return null;
+  }
+
+  function call(name12, name2004, args) {
+    if (!api) return '';
+    var fn = api[VERSION === '1.2' ? name12 : name2004];
+    return fn ? fn.apply(api, args) : '';
+  }
+
+  function set(key12, key2004, value) {
+    call('LMSSetValue', 'SetValue', [VERSION === '1.2' ? key12 : key2004, String(value)]);
+  }
+
+  var runtime = {
+    start: function () {
+      if (started) return;
+      started = true;
+      api = search(window) || (window.opener ? search(window.opener) : null);
+      call('LMSInitialize', 'Initialize', ['']);
+    },
+    complete: function () {
+      runtime.start();
+      set('cmi.core.lesson_status', 'cmi.completion_status', 'completed');
+      call('LMSCommit', 'Commit', ['']);
+    },
+    recordScore: function (raw, max, passed) {
+      runtime.start();
+      var scaled = max > 0 ? raw / max : 1;
+      if (VERSION === '1.2') {
+        set('cmi.core.score.raw', '', Math.round(scaled * 100));
+        set('cmi.core.score.min', '', 0);
+        set('cmi.core.score.max', '', 100);
+        set('cmi.core.lesson_status', '', passed ? 'passed' : 'failed');
+      } else {
+        set('', 'cmi.score.scaled', scaled.toFixed(4));
+        set('', 'cmi.score.raw', raw);
+        set('', 'cmi.score.min', 0);
+        set('', 'cmi.score.max', max);
+        set('', 'cmi.success_status', passed ? 'passed' : 'failed');
+        set('', 'cmi.completion_status', 'completed');
+      }
+      call('LMSCommit', 'Commit', ['']);
+    },
+    finish: function () {
+      if (!started || finished) return;
+      finished = true;
+      call('LMSFinish', 'Terminate', ['']);
+    }
+  };
+
+  window.ScormRuntime = runtime;
+  window.addEventListener('load', runtime.start);
+  window.addEventListener('pagehide', runtime.finish);
+  window.addEventListener('beforeunload', runtime.finish);
+})(window);
+`
+}
+
+// Renders window.QUIZ_DATA as a form and scores it in the browser (essays are left for the instructor)
+const QUIZ_PLAYER_SCRIPT = `(function (window, document) {
+  function el(tag, text) {
+    var node = document.createElement(tag);
+    if (text !== undefined) node.textContent = text;
+    return node;
+  }
+
+  function render() {
+    var quiz = window.QUIZ_DATA;
+    var form = document.getElementById('quiz');
+    if (!quiz || !form) return;
+
+    quiz.questions.forEach(function (question, index) {
+      var box = el('div');
+      box.className = 'question';
+      box.id = 'box_' + question.identifier;
+      box.appendChild(el('p', (index + 1) + '. ' + question.prompt + ' (' + question.points + ' pts)'));
+
+      if (question.choices.length > 0) {
+        question.choices.forEach(function (choice) {
+          var label = el('label');
+          var input = el('input');
+          input.type = 'radio';
+          input.name = question.identifier;
+          input.value = choice.identifier;
+          label.appendChild(input);
+          label.appendChild(document.createTextNode(' ' + choice.text));
+          box.appendChild(label);
+          box.appendChild(el('br'));
+        });
+      } else {
+        var field = el(question.kind === 'essay' ? 'textarea' : 'input');
+        field.name = question.identifier;
+        if (question.kind === 'essay') field.rows = 6;
+        field.style.width = '100%';
+        box.appendChild(field);
+      }
+      form.appendChild(box);
+    });
+
+    var submit = el('button', 'Submit');
+    submit.type = 'submit';
+    form.appendChild(submit);
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      grade(quiz, form, submit);
+    });
+  }
+
+  function grade(quiz, form, submit) {
+    var raw = 0;
+    var max = 0;
+    quiz.questions.forEach(function (question) {
+      if (!question.correctChoice && !question.correctText) return;
+      max += question.points;
+      var answer = '';
+      var inputs = form.elements[question.identifier];
+      if (question.choices.length > 0) {
+        for (var i = 0; i < inputs.length; i++) {
+          if (inputs[i].checked) answer = inputs[i].value;
+        }
+      } else if (inputs) {
+        answer = inputs.value;
+      }
+      var correct = question.correctChoice
+        ? answer === question.correctChoice
+        : answer.trim().toLowerCase() === String(question.correctText).trim().toLowerCase();
+      if (correct) raw += question.points;
+      document.getElementById('box_' + question.identifier).className = 'question ' + (correct ? 'correct' : 'incorrect');
+    });
+
+    submit.disabled = true;
+    var result = document.getElementById('result');
+    if (max > 0) {
+      var passed = raw / max >= quiz.masteryScore;
+      result.textContent = 'Score: ' + raw + ' / ' + max + (passed ? ' (passed)' : ' (not yet passed)');
+      window.ScormRuntime.recordScore(raw, max, passed);
+    } else {
+      result.textContent = 'Submitted. Your responses will be reviewed by your instructor.';
+      window.ScormRuntime.complete();
+    }
+  }
+
+  document.addEventListener('DOMContentLoaded', render);
+})(window, document);
+`
+
+// ==================================================================
+// MANIFESTS
+// ==================================================================
+
+function buildLomTitle(title: string, description: string, language: string): string {
+  return `<lomimscc:lom><lomimscc:general><lomimscc:title><lomimscc:string language="${escapeXml(language)}">${escapeXml(title)}</lomimscc:string></lomimscc:title>` +
+    `<lomimscc:description><lomimscc:string language="${escapeXml(language)}">${escapeXml(description)}</lomimscc:string></lomimscc:description>` +
+    `<lomimscc:language>${escapeXml(language)}</lomimscc:language></lomimscc:general></lomimscc:lom>`
+}
+
+function buildItems(items: PackageItem[], format: CurriculumPackageFormat, indent: string): string {
+  return items.map(item => {
+    const ref = item.resourceId ? ` identifierref="${item.resourceId}"` : ''
+    const visible = format === 'common_cartridge' ? '' : ' isvisible="true"'
+    const children = item.children ? `\n${buildItems(item.children, format, `${indent}  `)}` : ''
+    let extras = ''
+    if (item.masteryScore !== undefined && format === 'scorm_1_2') {
+      extras = `\n${indent}  <adlcp:masteryscore>${Math.round(item.masteryScore * 100)}</adlcp:masteryscore>`
+    } else if (item.masteryScore !== undefined && format === 'scorm_2004') {
+      extras = `\n${indent}  <imsss:sequencing><imsss:objectives><imsss:primaryObjective objectiveID="${item.identifier}_mastery" satisfiedByMeasure="true">` +
+        `<imsss:minNormalizedMeasure>${item.masteryScore}</imsss:minNormalizedMeasure></imsss:primaryObjective></imsss:objectives></imsss:sequencing>`
+    }
+    return `${indent}<item identifier="${item.identifier}"${ref}${visible}>\n${indent}  <title>${escapeXml(item.title)}</title>${children}${extras}\n${indent}</item>`
+  }).join('\n')
+}
+
+function buildResources(resources: PackageResource[], format: CurriculumPackageFormat): string {
+  return resources.map(resource => {
+    const href = resource.href ? ` href="${resource.href}"` : ''
+    let scormType = ''
+    if (format === 'scorm_1_2') scormType = ` adlcp:scormtype="${resource.sco ? 'sco' : 'asset'}"`
+    if (format === 'scorm_2004') scormType = ` adlcp:scormType="${resource.sco ? 'sco' : 'asset'}"`
+    const files = resource.files.map(file => `      <file href="${file}"/>`).join('\n')
+    const dependencies = (resource.dependencies || []).map(id => `\n      <dependency identifierref="${id}"/>`).join('')
+    return `    <resource identifier="${resource.identifier}" type="${resource.type}"${href}${scormType}>\n${files}${dependencies}\n    </resource>`
+  }).join('\n')
+}
+
+function buildManifest(
+  format: CurriculumPackageFormat,
+  identifier: string,
+  title: string,
+  description: string,
+  language: string,
+  items: PackageItem[],
+  resources: PackageResource[]
+): string {
+  const resourceXml = buildResources(resources, format)
+
+  if (format === 'common_cartridge') {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" xmlns="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1" xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imsccv1p3/imscp_v1p1 http://www.imsglobal.org/profile/cc/ccv1p3/ccv1p3_imscp_v1p2_v1p0.xsd http://ltsc.ieee.org/xsd/imsccv1p3/LOM/manifest http://www.imsglobal.org/profile/cc/ccv1p3/LOM/ccv1p3_lommanifest_v1p0.xsd">
+  <metadata>
+    <schema>IMS Common Cartridge</schema>
+    <schemaversion>1.3.0</schemaversion>
+    ${buildLomTitle(title, description, language)}
+  </metadata>
+  <organizations>
+    <organization identifier="org_1" structure="rooted-hierarchy">
+      <item identifier="root">
+${buildItems(items, format, '        ')}
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+${resourceXml}
+  </resources>
+</manifest>
+`
+  }
+
+  const organizations = buildItems(items, format, '      ')
+
+  if (format === 'scorm_1_2') {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1.0" xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsproject.org/xsd/imscp_rootv1p1p2 imscp_rootv1p1p2.xsd http://www.adlnet.org/xsd/adlcp_rootv1p2 adlcp_rootv1p2.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="org_1">
+    <organization identifier="org_1">
+      <title>${escapeXml(title)}</title>
+${organizations}
+    </organization>
+  </organizations>
+  <resources>
+${resourceXml}
+  </resources>
+</manifest>
+`
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${identifier}" version="1" xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3" xmlns:adlseq="http://www.adlnet.org/xsd/adlseq_v1p3" xmlns:adlnav="http://www.adlnet.org/xsd/adlnav_v1p3" xmlns:imsss="http://www.imsglobal.org/xsd/imsss" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 imscp_v1p1.xsd http://www.adlnet.org/xsd/adlcp_v1p3 adlcp_v1p3.xsd http://www.adlnet.org/xsd/adlseq_v1p3 adlseq_v1p3.xsd http://www.adlnet.org/xsd/adlnav_v1p3 adlnav_v1p3.xsd http://www.imsglobal.org/xsd/imsss imsss_v1p0.xsd">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="org_1">
+    <organization identifier="org_1">
+      <title>${escapeXml(title)}</title>
+${organizations}
+      <imsss:sequencing><imsss:controlMode choice="true" flow="true"/></imsss:sequencing>
+    </organization>
+  </organizations>
+  <resources>
+${resourceXml}
+  </resources>
+</manifest>
+`
+}
+
+// ==================================================================
+// PACKAGING
+// ==================================================================
+
+/**
+ * Build an LMS import package for a generated curriculum, as a base64 zip
+ */
+export async function buildCurriculumPackage(
+  curriculum: GeneratedCurriculum,
+  format: CurriculumPackageFormat,
+  options: CurriculumPackageOptions = {}
+): Promise<CurriculumPackageFile> {
+  const { default: JSZip } = await import('jszip')
+  const zip = new JSZip()
+  const language = options.language || 'en'
+  const masteryScore = options.masteryScore ?? DEFAULT_MASTERY_SCORE
+  const isScorm = format !== 'common_cartridge'
+  const createId = createIdentifierFactory()
+
+  const title = curriculum.blueprint?.title || 'Curriculum'
+  const description = curriculum.blueprint?.description || ''
+  const modules = buildOutline(curriculum, createId)
+  const objectiveTitles = new Map(
+    (curriculum.blueprint?.primary_objectives || []).map(objective => [objective.objective_id, objective.title])
+  )
+
+  const items: PackageItem[] = []
+  const resources: PackageResource[] = []
+  const sharedDependency = isScorm ? [SHARED_ASSETS_ID] : undefined
+  // SCO pages load the runtime; Common Cartridge pages are plain web content
+  const scoHead = (depth: number) => isScorm
+    ? `<script src="${'../'.repeat(depth)}shared/scorm-api.js"></script>\n`
+    : ''
+  const lessonHead = (depth: number) => isScorm
+    ? `${scoHead(depth)}<script>window.addEventListener('load', function () { window.ScormRuntime.complete(); });</script>\n`
+    : ''
+
+  let questionCount = 0
+  let lessonCount = 0
+  let assessmentCount = 0
+
+  // Course overview
+  const overviewId = createId('res', 'overview')
+  zip.file('overview.html', renderPage(title, renderOverview(curriculum, modules), language, lessonHead(0)))
+  resources.push({ identifier: overviewId, type: 'webcontent', href: 'overview.html', files: ['overview.html'], sco: true, dependencies: sharedDependency })
+  items.push({ identifier: createId('item', 'overview'), title: 'Course Overview', resourceId: overviewId })
+
+  for (const packageModule of modules) {
+    const moduleItem: PackageItem = { identifier: packageModule.identifier, title: packageModule.title, children: [] }
+
+    for (const lesson of packageModule.lessons) {
+      const resourceId = createId('res', lesson.lesson_id)
+      const path = `lessons/${resourceId}.html`
+      zip.file(path, renderPage(lesson.title, renderLesson(lesson, objectiveTitles), language, lessonHead(1)))
+      resources.push({ identifier: resourceId, type: 'webcontent', href: path, files: [path], sco: true, dependencies: sharedDependency })
+      moduleItem.children!.push({ identifier: createId('item', lesson.lesson_id), title: lesson.title, resourceId })
+      lessonCount++
+    }
+
+    for (const assessment of packageModule.assessments) {
+      const resourceId = createId('res', assessment.assessment_id)
+      const folder = `assessments/${resourceId}`
+      const questions = (assessment.questions || []).map(normalizeQuestion)
+      questionCount += questions.length
+      assessmentCount++
+
+      if (!isScorm) {
+        zip.file(`${folder}/assessment.xml`, buildCCAssessment(assessment, resourceId))
+        resources.push({ identifier: resourceId, type: 'imsqti_xmlv1p2/imscc_xmlv1p3/assessment', files: [`${folder}/assessment.xml`] })
+        moduleItem.children!.push({ identifier: createId('item', assessment.assessment_id), title: assessment.title, resourceId })
+
+        // QTI has no rubric element; the rubric travels as a page next to the quiz
+        const rubricHtml = renderRubrics(assessment.rubrics)
+        if (rubricHtml) {
+          const rubricId = createId('res', `${assessment.assessment_id}_rubric`)
+          zip.file(`${folder}/rubric.html`, renderPage(`${assessment.title}: Rubric`, rubricHtml, language))
+          resources.push({ identifier: rubricId, type: 'webcontent', href: `${folder}/rubric.html`, files: [`${folder}/rubric.html`] })
+          moduleItem.children!.push({ identifier: createId('item', `${assessment.assessment_id}_rubric`), title: `${assessment.title}: Rubric`, resourceId: rubricId })
+        }
+        continue
+      }
+
+      const quizData = {
+        title: assessment.title,
+        masteryScore,
+        questions: questions.map(({ identifier, kind, prompt, choices, correctChoice, correctText, points }) =>
+          ({ identifier, kind, prompt, choices, correctChoice, correctText, points }))
+      }
+      const instructions = assessment.time_allocation > 0
+        ? `<p class="meta">Suggested time: ${assessment.time_allocation} minutes</p>`
+        : ''
+      const quizBody = `${instructions}<form id="quiz"></form><p id="result" role="status"></p>\n${renderRubrics(assessment.rubrics)}`
+      const quizHead = `${scoHead(2)}<script src="quiz-data.js"></script>\n<script src="../../shared/quiz.js"></script>\n`
+
+      const qtiFiles = questions.map(question => `${folder}/qti/${question.identifier}.xml`)
+      questions.forEach((question, index) => zip.file(qtiFiles[index], buildQti21Item(question)))
+      zip.file(`${folder}/qti/assessment.xml`, buildQti21Test(assessment, resourceId, questions))
+      zip.file(`${folder}/quiz-data.js`, `window.QUIZ_DATA = ${JSON.stringify(quizData, null, 2)};\n`)
+      zip.file(`${folder}/index.html`, renderPage(assessment.title, quizBody, language, quizHead))
+
+      resources.push({
+        identifier: resourceId,
+        type: 'webcontent',
+        href: `${folder}/index.html`,
+        files: [`${folder}/index.html`, `${folder}/quiz-data.js`, `${folder}/qti/assessment.xml`, ...qtiFiles],
+        sco: true,
+        dependencies: sharedDependency
+      })
+      moduleItem.children!.push({
+        identifier: createId('item', assessment.assessment_id),
+        title: assessment.title,
+        resourceId,
+        masteryScore: questions.some(isAutoGraded) ? masteryScore : undefined
+      })
+    }
+
+    items.push(moduleItem)
+  }
+
+  if (isScorm) {
+    zip.file('shared/scorm-api.js', buildScormRuntimeScript(format === 'scorm_1_2' ? '1.2' : '2004'))
+    zip.file('shared/quiz.js', QUIZ_PLAYER_SCRIPT)
+    resources.push({ identifier: SHARED_ASSETS_ID, type: 'webcontent', files: ['shared/scorm-api.js', 'shared/quiz.js'] })
+  }
+
+  const manifestId = createId('manifest', curriculum.curriculum_id)
+  zip.file('imsmanifest.xml', buildManifest(format, manifestId, title, description, language, items, resources))
+
+  const content = await zip.generateAsync({ type: 'base64', compression: 'DEFLATE' })
+  const extension = format === 'common_cartridge' ? 'imscc' : 'zip'
+
+  return {
+    filename: `${slugify(title)}_${format}.${extension}`,
+    mime_type: 'application/zip',
+    content_base64: content,
+    format,
+    size_bytes: Math.floor((content.length * 3) / 4) - (content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0),
+    summary: {
+      modules: modules.length,
+      lessons: lessonCount,
+      assessments: assessmentCount,
+      questions: questionCount,
+      files: Object.values(zip.files).filter(file => !file.dir).length
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import type { UserProfile, ContentItem } from '@/types'
+import { EngineStateStore } from './engine-repository'
 
 // Core interfaces for difficulty adjustment system
 export interface DifficultyProfile {
@@ -88,8 +89,17 @@ export interface ContentDifficultyMapping {
 }
 
 export class DifficultyAdjustmentEngine {
-  private difficultyProfiles: Map<string, DifficultyProfile> = new Map()
-  private contentMappings: Map<string, ContentDifficultyMapping> = new Map()
+  private store = new EngineStateStore('difficulty')
+  private difficultyProfiles: Map<string, DifficultyProfile> = this.store.map('difficulty_profiles')
+  private contentMappings: Map<string, ContentDifficultyMapping> = this.store.map('content_mappings')
+
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
   
   // Main method to analyze and recommend difficulty adjustments
   async analyzeDifficultyNeeds(
@@ -380,10 +390,12 @@ export class DifficultyAdjustmentEngine {
     profile.adjustmentHistory.push(adjustmentRecord)
     profile.currentLevel = adjustment.recommendedLevel
     profile.lastAdjustment = new Date()
+    this.difficultyProfiles.set(userId, profile)
     
     // Get or create content mapping
     const contentMapping = await this.getContentDifficultyMapping(contentId)
     contentMapping.userSpecificAdjustments[userId] = adjustment.recommendedLevel
+    this.contentMappings.set(contentId, contentMapping)
     
     // Generate adapted content
     const adaptedContent = await this.generateAdaptedContent(contentId, adjustment.recommendedLevel)
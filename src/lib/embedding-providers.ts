@@ -0,0 +1,194 @@
+// Embedding Providers
+// Text embedding backends behind semantic search: the hosted OpenAI embeddings API and a
+// feature-hashing model that runs in-process, so search keeps working air-gapped and in tests
+
+import OpenAI from 'openai'
+
+export type EmbeddingProviderId = 'openai' | 'hashing'
+
+// Must match the vector(512) column in 009_search_embeddings.sql
+export const EMBEDDING_DIMENSIONS = 512
+
+export interface EmbeddingProvider {
+  id: EmbeddingProviderId
+  model: string // stored next to every vector; vectors from different models are never compared
+  isAvailable(): boolean
+  embed(texts: string[]): Promise<number[][]>
+}
+
+export interface EmbeddingBatch {
+  model: string
+  vectors: number[][]
+}
+
+// ==================================================================
+// TOKENIZATION
+// ==================================================================
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how', 'in',
+  'into', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'what',
+  'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with', 'you', 'your'
+])
+
+// Crude English suffix stripping, enough for "derivatives" to meet "derivative"
+function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y'
+  if (token.length > 5 && token.endsWith('ing')) return token.slice(0, -3)
+  if (token.length > 4 && token.endsWith('ed')) return token.slice(0, -2)
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1)
+  return token
+}
+
+/**
+ * Lowercased, stemmed word tokens without stop words. Shared by the hashing model and the
+ * in-memory BM25 index so both see the same terms.
+ */
+export function tokenizeText(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(token => !STOP_WORDS.has(token))
+    .map(stem)
+}
+
+// ==================================================================
+// OPENAI
+// ==================================================================
+
+const OPENAI_BATCH_SIZE = 96
+const MAX_INPUT_CHARACTERS = 8000 // about 2k tokens, well inside the model's input limit
+
+function createOpenAIEmbeddingProvider(): EmbeddingProvider {
+  const modelName = process.env.EMBEDDING_MODEL || 'text-embedding-3-small'
+  let client: OpenAI | null = null
+  const getClient = () => {
+    if (!client) {
+      client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY || '', timeout: 30_000, maxRetries: 2 })
+    }
+    return client
+  }
+
+  return {
+    id: 'openai',
+    model: `openai:${modelName}@${EMBEDDING_DIMENSIONS}`,
+    isAvailable: () => !!process.env.OPENAI_API_KEY,
+
+    async embed(texts) {
+      const vectors: number[][] = []
+      for (let start = 0; start < texts.length; start += OPENAI_BATCH_SIZE) {
+        const response = await getClient().embeddings.create({
+          model: modelName,
+          // text-embedding-3 models shorten natively when asked for fewer dimensions
+          dimensions: EMBEDDING_DIMENSIONS,
+          input: texts.slice(start, start + OPENAI_BATCH_SIZE).map(text => text.slice(0, MAX_INPUT_CHARACTERS) || ' ')
+        })
+        const ordered = [...response.data].sort((a, b) => a.index - b.index)
+        vectors.push(...ordered.map(item => item.embedding))
+      }
+      return vectors
+    }
+  }
+}
+
+// ==================================================================
+// HASHING (local fallback)
+// ==================================================================
+
+function fnv1a(text: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Signed feature hashing of words, word bigrams and character trigrams into a fixed-size,
+ * L2-normalised vector. No training and no network; trigrams let misspellings and word forms
+ * land near each other, bigrams keep some phrase information.
+ */
+export function hashingEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0)
+  const add = (feature: string, weight: number) => {
+    const hash = fnv1a(feature)
+    vector[hash % dimensions] += (hash & 0x80000000 ? -1 : 1) * weight
+  }
+
+  const tokens = tokenizeText(text)
+  tokens.forEach((token, index) => {
+    add(`w:${token}`, 1)
+    if (index > 0) add(`b:${tokens[index - 1]} ${token}`, 0.5)
+    const padded = `#${token}#`
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`c:${padded.slice(i, i + 3)}`, 0.25)
+    }
+  })
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  return norm > 0 ? vector.map(value => value / norm) : vector
+}
+
+function createHashingEmbeddingProvider(): EmbeddingProvider {
+  return {
+    id: 'hashing',
+    model: `hashing-v1@${EMBEDDING_DIMENSIONS}`,
+    isAvailable: () => true,
+
+    async embed(texts) {
+      return texts.map(text => hashingEmbedding(text))
+    }
+  }
+}
+
+// ==================================================================
+// REGISTRY
+// ==================================================================
+
+const providers: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  openai: createOpenAIEmbeddingProvider(),
+  hashing: createHashingEmbeddingProvider()
+}
+
+export function getEmbeddingProvider(id: EmbeddingProviderId): EmbeddingProvider {
+  return providers[id]
+}
+
+// Swap in a custom backend (a local embedding server, a recording double in tests)
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers[provider.id] = provider
+}
+
+export function isEmbeddingProviderId(value: string): value is EmbeddingProviderId {
+  return value === 'openai' || value === 'hashing'
+}
+
+// EMBEDDING_PROVIDER=openai|hashing pins the provider; otherwise OpenAI when a key is configured
+export function getActiveEmbeddingProvider(): EmbeddingProvider {
+  const configured = process.env.EMBEDDING_PROVIDER?.trim()
+  if (configured && isEmbeddingProviderId(configured)) return providers[configured]
+  return providers.openai.isAvailable() ? providers.openai : providers.hashing
+}
+
+/**
+ * Embed with the active provider, falling back to the hashing model when it is unavailable or
+ * fails. Callers must keep the returned model with the vectors.
+ */
+export async function embedTexts(texts: string[]): Promise<EmbeddingBatch> {
+  const provider = getActiveEmbeddingProvider()
+  if (texts.length === 0) return { model: provider.model, vectors: [] }
+
+  if (provider.id !== 'hashing' && provider.isAvailable()) {
+    try {
+      const vectors = await provider.embed(texts)
+      if (vectors.length !== texts.length || vectors.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+        throw new Error(`${provider.model} returned vectors of the wrong shape`)
+      }
+      return { model: provider.model, vectors }
+    } catch (error) {
+      console.error(`Embedding with ${provider.id} failed, using the hashing model:`, error)
+    }
+  }
+
+  const fallback = providers.hashing
+  return { model: fallback.model, vectors: await fallback.embed(texts) }
+}
@@ -0,0 +1,495 @@
+// Engine State Repository
+// Pluggable persistence for engine state that used to live only in module-level Maps
+//
+// Engines that hold learner records, schedules, enrollments, experiments and moderation state
+// keep them in an EngineStateStore. Still process-local on purpose: caches and telemetry
+// (AI response cache, rate limits, model routing/health/performance metrics, real-time session
+// monitors) and the analytics engines that do not yet have a hydrate/flush cycle
+// (accessibility, emotional intelligence, tutoring conversations, knowledge graphs,
+// learning-disability detection, objective tracking, predictive analytics, peer matching,
+// use-case engagement, scalable path personalization, model comparison).
+
+export interface EngineStateRecord<T = any> {
+  namespace: string
+  collection: string
+  key: string
+  data: T
+  updatedAt: Date
+  deleted?: boolean // tombstone from listUpdatedSince: the key was deleted at updatedAt
+}
+
+export interface EngineRepository {
+  get<T>(namespace: string, collection: string, key: string): Promise<T | null>
+  list<T>(namespace: string, collection: string): Promise<EngineStateRecord<T>[]>
+  save<T>(namespace: string, collection: string, key: string, data: T): Promise<void>
+  // Insert only if the key is free; resolves to false when another writer got there first
+  create<T>(namespace: string, collection: string, key: string, data: T): Promise<boolean>
+  delete(namespace: string, collection: string, key: string): Promise<void>
+  clear(namespace: string, collection?: string): Promise<void>
+
+  // Records of every collection in a namespace written or deleted at or after `since`, deletions as
+  // tombstones. Repositories shared by several server instances implement it so each request can pick up
+  // the other instances' writes. Tombstones must be kept for at least DELETION_RETENTION_MS.
+  listUpdatedSince?<T>(namespace: string, since: Date): Promise<EngineStateRecord<T>[]>
+}
+
+// ==================================================================
+// SERIALIZATION
+// ==================================================================
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+
+// Engines keep Date objects in their state, JSON storage turns them into ISO strings
+export function reviveDates<T>(value: T): T {
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value) as unknown as T
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item)) as unknown as T
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const revived: Record<string, any> = {}
+    for (const [key, item] of Object.entries(value as Record<string, any>)) {
+      revived[key] = reviveDates(item)
+    }
+    return revived as T
+  }
+  return value
+}
+
+function serialize<T>(data: T): any {
+  return JSON.parse(JSON.stringify(data))
+}
+
+// ==================================================================
+// IN-MEMORY REPOSITORY (development and tests)
+// ==================================================================
+
+export class InMemoryEngineRepository implements EngineRepository {
+  private records = new Map<string, EngineStateRecord>()
+
+  private recordId(namespace: string, collection: string, key: string): string {
+    return `${namespace}::${collection}::${key}`
+  }
+
+  async get<T>(namespace: string, collection: string, key: string): Promise<T | null> {
+    const record = this.records.get(this.recordId(namespace, collection, key))
+    return record ? reviveDates(record.data as T) : null
+  }
+
+  async list<T>(namespace: string, collection: string): Promise<EngineStateRecord<T>[]> {
+    return Array.from(this.records.values())
+      .filter(record => record.namespace === namespace && record.collection === collection)
+      .map(record => ({ ...record, data: reviveDates(record.data as T) }))
+  }
+
+  async save<T>(namespace: string, collection: string, key: string, data: T): Promise<void> {
+    this.records.set(this.recordId(namespace, collection, key), {
+      namespace,
+      collection,
+      key,
+      data: serialize(data),
+      updatedAt: new Date()
+    })
+  }
+
+  async create<T>(namespace: string, collection: string, key: string, data: T): Promise<boolean> {
+    if (this.records.has(this.recordId(namespace, collection, key))) return false
+    await this.save(namespace, collection, key, data)
+    return true
+  }
+
+  async delete(namespace: string, collection: string, key: string): Promise<void> {
+    this.records.delete(this.recordId(namespace, collection, key))
+  }
+
+  async clear(namespace: string, collection?: string): Promise<void> {
+    for (const [id, record] of this.records) {
+      if (record.namespace === namespace && (!collection || record.collection === collection)) {
+        this.records.delete(id)
+      }
+    }
+  }
+}
+
+// ==================================================================
+// SUPABASE REPOSITORY (production)
+// ==================================================================
+
+export class SupabaseEngineRepository implements EngineRepository {
+  private readonly table = 'engine_state'
+  private readonly deletionsTable = 'engine_state_deletions'
+
+  // Loaded lazily so importing an engine never requires Supabase credentials
+  private async client() {
+    const { supabaseAdmin } = await import('./supabase')
+    return supabaseAdmin
+  }
+
+  async get<T>(namespace: string, collection: string, key: string): Promise<T | null> {
+    const client = await this.client()
+    const { data, error } = await client
+      .from(this.table)
+      .select('data')
+      .eq('namespace', namespace)
+      .eq('collection', collection)
+      .eq('key', key)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load ${namespace}/${collection}/${key}: ${error.message}`)
+    }
+
+    return data ? reviveDates(data.data as T) : null
+  }
+
+  async list<T>(namespace: string, collection: string): Promise<EngineStateRecord<T>[]> {
+    const client = await this.client()
+    const { data, error } = await client
+      .from(this.table)
+      .select('namespace, collection, key, data, updated_at')
+      .eq('namespace', namespace)
+      .eq('collection', collection)
+
+    if (error) {
+      throw new Error(`Failed to list ${namespace}/${collection}: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      namespace: row.namespace,
+      collection: row.collection,
+      key: row.key,
+      data: reviveDates(row.data as T),
+      updatedAt: new Date(row.updated_at)
+    }))
+  }
+
+  // Tombstones are written by a trigger on engine_state (migration 011)
+  async listUpdatedSince<T>(namespace: string, since: Date): Promise<EngineStateRecord<T>[]> {
+    const client = await this.client()
+    const [updated, deleted] = await Promise.all([
+      client
+        .from(this.table)
+        .select('namespace, collection, key, data, updated_at')
+        .eq('namespace', namespace)
+        .gte('updated_at', since.toISOString()),
+      client
+        .from(this.deletionsTable)
+        .select('namespace, collection, key, deleted_at')
+        .eq('namespace', namespace)
+        .gte('deleted_at', since.toISOString())
+    ])
+
+    const error = updated.error || deleted.error
+    if (error) {
+      throw new Error(`Failed to refresh ${namespace}: ${error.message}`)
+    }
+
+    const records: EngineStateRecord<T>[] = (updated.data || []).map(row => ({
+      namespace: row.namespace,
+      collection: row.collection,
+      key: row.key,
+      data: reviveDates(row.data as T),
+      updatedAt: new Date(row.updated_at)
+    }))
+    const tombstones: EngineStateRecord<T>[] = (deleted.data || []).map(row => ({
+      namespace: row.namespace,
+      collection: row.collection,
+      key: row.key,
+      data: null as T,
+      updatedAt: new Date(row.deleted_at),
+      deleted: true
+    }))
+    return [...records, ...tombstones]
+  }
+
+  async save<T>(namespace: string, collection: string, key: string, data: T): Promise<void> {
+    const client = await this.client()
+    const { error } = await client
+      .from(this.table)
+      .upsert({
+        namespace,
+        collection,
+        key,
+        data: serialize(data),
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'namespace,collection,key' })
+
+    if (error) {
+      throw new Error(`Failed to save ${namespace}/${collection}/${key}: ${error.message}`)
+    }
+  }
+
+  async create<T>(namespace: string, collection: string, key: string, data: T): Promise<boolean> {
+    const client = await this.client()
+    const { error } = await client
+      .from(this.table)
+      .insert({
+        namespace,
+        collection,
+        key,
+        data: serialize(data),
+        updated_at: new Date().toISOString()
+      })
+
+    // unique_violation: the primary key is taken
+    if (error?.code === '23505') return false
+    if (error) {
+      throw new Error(`Failed to create ${namespace}/${collection}/${key}: ${error.message}`)
+    }
+    return true
+  }
+
+  async delete(namespace: string, collection: string, key: string): Promise<void> {
+    const client = await this.client()
+    const { error } = await client
+      .from(this.table)
+      .delete()
+      .eq('namespace', namespace)
+      .eq('collection', collection)
+      .eq('key', key)
+
+    if (error) {
+      throw new Error(`Failed to delete ${namespace}/${collection}/${key}: ${error.message}`)
+    }
+  }
+
+  async clear(namespace: string, collection?: string): Promise<void> {
+    const client = await this.client()
+    let query = client.from(this.table).delete().eq('namespace', namespace)
+    if (collection) {
+      query = query.eq('collection', collection)
+    }
+
+    const { error } = await query
+    if (error) {
+      throw new Error(`Failed to clear ${namespace}: ${error.message}`)
+    }
+  }
+}
+
+// ==================================================================
+// REPOSITORY SELECTION
+// ==================================================================
+
+let activeRepository: EngineRepository | null = null
+
+// Supabase on the server when a service key is configured, memory everywhere else.
+// ENGINE_PERSISTENCE=memory|supabase overrides the detection.
+function createDefaultRepository(): EngineRepository {
+  const mode = process.env.ENGINE_PERSISTENCE
+  if (mode === 'memory') return new InMemoryEngineRepository()
+  if (mode === 'supabase') return new SupabaseEngineRepository()
+
+  const isServer = typeof window === 'undefined'
+  const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY
+  return isServer && hasSupabase ? new SupabaseEngineRepository() : new InMemoryEngineRepository()
+}
+
+export function getEngineRepository(): EngineRepository {
+  if (!activeRepository) {
+    activeRepository = createDefaultRepository()
+  }
+  return activeRepository
+}
+
+// Swap the backing repository (tests, scripts)
+export function setEngineRepository(repository: EngineRepository | null): void {
+  activeRepository = repository
+}
+
+// ==================================================================
+// WRITE-THROUGH MAP
+// ==================================================================
+
+// Drop-in replacement for the engines' private Maps: reads stay synchronous,
+// every set/delete is written through to the repository in the background.
+// Values are snapshots: replace them with set() after changing them, in-place edits are not persisted.
+export class PersistentMap<V> extends Map<string, V> {
+  // Keys with a write in flight; a refresh must not put the older stored value back
+  private pendingKeys = new Map<string, number>()
+
+  constructor(
+    private readonly store: EngineStateStore,
+    readonly collection: string
+  ) {
+    super()
+  }
+
+  set(key: string, value: V): this {
+    super.set(key, value)
+    // Map's constructor may call set() before fields are assigned
+    if (this.store) {
+      this.trackKey(key, repository => repository.save(this.store.namespace, this.collection, key, value))
+    }
+    return this
+  }
+
+  delete(key: string): boolean {
+    const existed = super.delete(key)
+    this.trackKey(key, repository => repository.delete(this.store.namespace, this.collection, key))
+    return existed
+  }
+
+  /**
+   * Claim a free key: resolves to false when this or another instance already holds it.
+   * Unlike set(), the write completes before the caller goes on.
+   */
+  async create(key: string, value: V): Promise<boolean> {
+    if (this.has(key)) return false
+    super.set(key, value)
+    this.pendingKeys.set(key, (this.pendingKeys.get(key) || 0) + 1)
+    try {
+      const created = await this.store.resolveRepository().create(this.store.namespace, this.collection, key, value)
+      // Another instance holds the key; the next refresh brings its value
+      if (!created) super.delete(key)
+      return created
+    } catch (error) {
+      super.delete(key)
+      throw error
+    } finally {
+      this.release(key)
+    }
+  }
+
+  clear(): void {
+    super.clear()
+    this.store.track(repository => repository.clear(this.store.namespace, this.collection))
+  }
+
+  private trackKey(key: string, operation: (repository: EngineRepository) => Promise<void>): void {
+    this.pendingKeys.set(key, (this.pendingKeys.get(key) || 0) + 1)
+    this.store.track(repository => operation(repository).finally(() => this.release(key)))
+  }
+
+  private release(key: string): void {
+    const remaining = (this.pendingKeys.get(key) || 1) - 1
+    if (remaining > 0) {
+      this.pendingKeys.set(key, remaining)
+    } else {
+      this.pendingKeys.delete(key)
+    }
+  }
+
+  // Bypass write-through, the data came from the repository. Applied oldest first so a key
+  // deleted and written again within one refresh ends up with whichever happened last.
+  applyStored(records: EngineStateRecord<V>[]): void {
+    const ordered = [...records].sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime())
+    for (const record of ordered) {
+      if (this.pendingKeys.has(record.key)) continue
+      if (record.deleted) {
+        super.delete(record.key)
+      } else {
+        super.set(record.key, record.data)
+      }
+    }
+  }
+
+  // Replace the contents with the stored collection, dropping records deleted elsewhere
+  async hydrate(repository: EngineRepository): Promise<Date | null> {
+    const records = await repository.list<V>(this.store.namespace, this.collection)
+    const storedKeys = new Set(records.map(record => record.key))
+    for (const key of Array.from(this.keys())) {
+      if (!storedKeys.has(key) && !this.pendingKeys.has(key)) {
+        super.delete(key)
+      }
+    }
+    this.applyStored(records)
+    return latestUpdate(records)
+  }
+}
+
+function latestDate(dates: Array<Date | null>): Date | null {
+  return dates.reduce<Date | null>((latest, date) => date && (!latest || date > latest) ? date : latest, null)
+}
+
+function latestUpdate(records: EngineStateRecord[]): Date | null {
+  return latestDate(records.map(record => record.updatedAt))
+}
+
+// Writes that committed just before the newest record seen may still be missing from a refresh
+const REFRESH_OVERLAP_MS = 5 * 1000
+// How long shared repositories keep deletion tombstones; a store that has not synced for longer
+// may have missed some, so it reloads in full instead of refreshing
+export const DELETION_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Groups the persistent collections of one engine under a namespace
+export class EngineStateStore {
+  private maps: PersistentMap<any>[] = []
+  private pending = new Set<Promise<void>>()
+  private loading: Promise<void> | null = null
+  private syncedAt = 0 // when the last sync started
+  private syncedThrough: Date | null = null // newest updated_at seen in the repository
+
+  constructor(
+    readonly namespace: string,
+    private readonly repository?: EngineRepository
+  ) {}
+
+  resolveRepository(): EngineRepository {
+    return this.repository || getEngineRepository()
+  }
+
+  map<V>(collection: string): PersistentMap<V> {
+    const persistentMap = new PersistentMap<V>(this, collection)
+    this.maps.push(persistentMap)
+    return persistentMap
+  }
+
+  track(operation: (repository: EngineRepository) => Promise<void>): void {
+    const write = operation(this.resolveRepository())
+      .catch(error => {
+        console.error(`Engine state write failed (${this.namespace}):`, error)
+      })
+      .finally(() => {
+        this.pending.delete(write)
+      })
+    this.pending.add(write)
+  }
+
+  // Bring the maps up to date before a request reads them. A process-local repository is loaded once;
+  // a shared one is refreshed on every call with what other instances wrote or deleted since the last sync.
+  // Concurrent callers share the same load.
+  hydrate(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.sync(this.resolveRepository()).finally(() => {
+        this.loading = null
+      })
+    }
+    return this.loading
+  }
+
+  private async sync(repository: EngineRepository): Promise<void> {
+    const shared = !!repository.listUpdatedSince
+    if (this.syncedAt > 0 && !shared) return
+
+    const startedAt = Date.now()
+    if (this.syncedAt === 0 || !this.syncedThrough || startedAt - this.syncedAt >= DELETION_RETENTION_MS) {
+      const latest = await Promise.all(this.maps.map(map => map.hydrate(repository)))
+      this.syncedAt = startedAt
+      this.advanceSyncedThrough(latestDate(latest))
+      return
+    }
+
+    const since = new Date(this.syncedThrough.getTime() - REFRESH_OVERLAP_MS)
+    const records = await repository.listUpdatedSince!(this.namespace, since)
+    for (const map of this.maps) {
+      map.applyStored(records.filter(record => record.collection === map.collection))
+    }
+    this.syncedAt = startedAt
+    this.advanceSyncedThrough(latestUpdate(records))
+  }
+
+  private advanceSyncedThrough(latest: Date | null): void {
+    if (latest && (!this.syncedThrough || latest > this.syncedThrough)) {
+      this.syncedThrough = latest
+    }
+  }
+
+  // Wait for in-flight writes (call before a serverless handler returns)
+  async flush(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending))
+    }
+  }
+}
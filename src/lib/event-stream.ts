@@ -0,0 +1,119 @@
+// Server-Sent Events helpers
+// Shared by streaming API routes (server) and the components that consume them (client)
+
+export interface StreamEvent<T = any> {
+  event: string
+  data: T
+}
+
+// ==================================================================
+// SERVER
+// ==================================================================
+
+export interface EventStreamWriter {
+  send: (event: string, data: any) => void
+  close: () => void
+}
+
+// Build a text/event-stream Response whose body is produced by `producer`.
+// Errors thrown by the producer are reported as an `error` event before closing.
+export function createEventStreamResponse(
+  producer: (writer: EventStreamWriter) => Promise<void>,
+  init: { headers?: Record<string, string> } = {}
+): Response {
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+
+      const writer: EventStreamWriter = {
+        send: (event, data) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+        },
+        close: () => {
+          if (closed) return
+          closed = true
+          controller.close()
+        }
+      }
+
+      try {
+        await producer(writer)
+      } catch (error) {
+        writer.send('error', { message: error instanceof Error ? error.message : 'Stream failed' })
+      } finally {
+        writer.close()
+      }
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      ...init.headers
+    }
+  })
+}
+
+// ==================================================================
+// CLIENT
+// ==================================================================
+
+// Parse an SSE response body and invoke `onEvent` for each complete event
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream')
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const dispatch = (block: string) => {
+    let event = 'message'
+    const dataLines: string[] = []
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim()
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+
+    if (dataLines.length === 0) return
+
+    const raw = dataLines.join('\n')
+    let data: any = raw
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      // Plain-text payload
+    }
+    onEvent({ event, data })
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    let separator = buffer.indexOf('\n\n')
+    while (separator !== -1) {
+      dispatch(buffer.slice(0, separator))
+      buffer = buffer.slice(separator + 2)
+      separator = buffer.indexOf('\n\n')
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer)
+  }
+}
@@ -0,0 +1,404 @@
+// Experiment Statistics
+// Always-valid sequential tests (mixture SPRT), Beta-Binomial posteriors, CUPED covariate adjustment and
+// sample-ratio-mismatch checks used by the A/B testing framework
+
+export interface SequentialAnalysis {
+  method: 'msprt'
+  alpha: number
+  mixingVariance: number // tau^2 of the normal mixture over effect sizes
+  likelihoodRatio: number
+  alwaysValidPValue: number // running minimum over every look, safe to peek at
+  confidenceInterval: [number, number] // running intersection over every look
+  looks: number
+  boundaryCrossed: boolean
+}
+
+export interface BayesianAnalysis {
+  prior: { alpha: number; beta: number }
+  control: PosteriorSummary
+  treatment: PosteriorSummary
+  probabilityToBeatControl: number
+  expectedLoss: number // expected shortfall from shipping the treatment if it is actually worse
+  expectedLossControl: number // ... and from keeping the control if the treatment is actually better
+  liftCredibleInterval: [number, number] // treatment minus control
+  draws: number
+}
+
+export interface PosteriorSummary {
+  alpha: number
+  beta: number
+  mean: number
+  credibleInterval: [number, number]
+}
+
+export interface CupedAdjustment {
+  covariate: string
+  theta: number
+  coverage: number // share of users with a pre-period value; the rest are centred so they are left unadjusted
+  varianceReduction: number
+  adjustedMeanA: number
+  adjustedMeanB: number
+  difference: number
+  standardError: number
+  confidenceInterval: [number, number]
+  pValue: number
+}
+
+export interface CupedObservation {
+  arm: 'control' | 'treatment'
+  outcome: number
+  covariate?: number
+}
+
+export interface SampleRatioMismatchCheck {
+  chiSquare: number
+  degreesOfFreedom: number
+  pValue: number
+  threshold: number
+  detected: boolean
+  variants: Array<{ variantId: string; count: number; expectedShare: number; observedShare: number }>
+}
+
+export const SRM_P_VALUE_THRESHOLD = 0.001
+const CUPED_MIN_COVARIATE_USERS = 50
+const POSTERIOR_DRAWS = 20000
+
+// ==================================================================
+// DISTRIBUTIONS
+// ==================================================================
+
+export function normalCDF(x: number): number {
+  // Abramowitz-Stegun 7.1.26
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2)
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t *
+    Math.exp(-(x * x) / 2)
+  return 0.5 * (1 + (x < 0 ? -erf : erf))
+}
+
+// Acklam's rational approximation
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity
+  if (p >= 1) return Infinity
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239]
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572]
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783]
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416]
+  const low = 0.02425
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p))
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1)
+    return p < low ? x : -x
+  }
+  const q = p - 0.5
+  const r = q * q
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+}
+
+// Lanczos approximation
+function lnGamma(x: number): number {
+  const g = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5]
+  let y = x
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5)
+  let series = 1.000000000190015
+  for (const coefficient of g) series += coefficient / ++y
+  return -tmp + Math.log(2.5066282746310005 * series / x)
+}
+
+// Regularized upper incomplete gamma Q(a, x)
+function gammaQ(a: number, x: number): number {
+  if (x <= 0) return 1
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < 500; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * 1e-12) break
+    }
+    return 1 - sum * Math.exp(-x + a * Math.log(x) - lnGamma(a))
+  }
+  // Lentz continued fraction
+  let b = x + 1 - a
+  let c = 1e300
+  let d = 1 / b
+  let h = d
+  for (let n = 1; n < 500; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < 1e-300) d = 1e-300
+    c = b + an / c
+    if (Math.abs(c) < 1e-300) c = 1e-300
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < 1e-12) break
+  }
+  return Math.exp(-x + a * Math.log(x) - lnGamma(a)) * h
+}
+
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  return Math.min(1, Math.max(0, gammaQ(degreesOfFreedom / 2, statistic / 2)))
+}
+
+export function sampleNormal(random: () => number = Math.random): number {
+  const u = 1 - random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random())
+}
+
+// Marsaglia-Tsang, with the shape < 1 boost
+function sampleGamma(shape: number, random: () => number): number {
+  if (shape < 1) return sampleGamma(shape + 1, random) * Math.pow(random(), 1 / shape)
+  const d = shape - 1 / 3
+  const c = 1 / Math.sqrt(9 * d)
+  for (;;) {
+    let x: number
+    let v: number
+    do {
+      x = sampleNormal(random)
+      v = 1 + c * x
+    } while (v <= 0)
+    v = v * v * v
+    const u = random()
+    if (u < 1 - 0.0331 * x * x * x * x || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v
+  }
+}
+
+export function sampleBeta(alpha: number, beta: number, random: () => number = Math.random): number {
+  const x = sampleGamma(alpha, random)
+  const y = sampleGamma(beta, random)
+  return x / (x + y)
+}
+
+function quantile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))))
+  return sorted[index]
+}
+
+function variance(values: number[]): number {
+  if (values.length < 2) return 0
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return values.reduce((sum, value) => sum + (value - mean) * (value - mean), 0) / (values.length - 1)
+}
+
+// ==================================================================
+// SEQUENTIAL TESTING
+// ==================================================================
+
+/**
+ * Mixture SPRT (Johari et al.) for a difference estimate with known sampling variance. The always-valid
+ * p-value and confidence interval carry over from the previous look, so the test can be read after every
+ * batch of traffic without inflating the false positive rate.
+ */
+export function mixtureSequentialTest(
+  estimate: number,
+  sampleVariance: number,
+  mixingVariance: number,
+  alpha: number,
+  previous?: SequentialAnalysis
+): SequentialAnalysis {
+  if (!(sampleVariance > 0) || !(mixingVariance > 0)) {
+    return previous
+      ? { ...previous, looks: previous.looks + 1 }
+      : {
+        method: 'msprt',
+        alpha,
+        mixingVariance,
+        likelihoodRatio: 1,
+        alwaysValidPValue: 1,
+        confidenceInterval: [-Infinity, Infinity],
+        looks: 1,
+        boundaryCrossed: false
+      }
+  }
+
+  const total = sampleVariance + mixingVariance
+  const likelihoodRatio = Math.sqrt(sampleVariance / total) *
+    Math.exp((mixingVariance * estimate * estimate) / (2 * sampleVariance * total))
+  const halfWidth = Math.sqrt((sampleVariance * total / mixingVariance) * Math.log(total / (sampleVariance * alpha * alpha)))
+
+  let pValue = Math.min(1, 1 / likelihoodRatio)
+  let interval: [number, number] = [estimate - halfWidth, estimate + halfWidth]
+  if (previous) {
+    pValue = Math.min(pValue, previous.alwaysValidPValue)
+    const lower = Math.max(interval[0], previous.confidenceInterval[0])
+    const upper = Math.min(interval[1], previous.confidenceInterval[1])
+    // An empty intersection only happens when the effect drifts; the current interval is then the honest one
+    if (lower <= upper) interval = [lower, upper]
+  }
+
+  return {
+    method: 'msprt',
+    alpha,
+    mixingVariance,
+    likelihoodRatio,
+    alwaysValidPValue: pValue,
+    confidenceInterval: interval,
+    looks: (previous?.looks || 0) + 1,
+    boundaryCrossed: pValue < alpha
+  }
+}
+
+// ==================================================================
+// BAYESIAN
+// ==================================================================
+
+/** Beta-Binomial posteriors for two conversion rates, compared by Monte Carlo. */
+export function betaBinomialComparison(
+  control: { conversions: number; exposures: number },
+  treatment: { conversions: number; exposures: number },
+  options: { direction?: 'increase' | 'decrease'; prior?: { alpha: number; beta: number }; draws?: number; random?: () => number } = {}
+): BayesianAnalysis {
+  const prior = options.prior || { alpha: 1, beta: 1 }
+  const draws = options.draws || POSTERIOR_DRAWS
+  const random = options.random || Math.random
+  const sign = options.direction === 'decrease' ? -1 : 1
+
+  const posterior = (arm: { conversions: number; exposures: number }) => ({
+    alpha: prior.alpha + arm.conversions,
+    beta: prior.beta + Math.max(0, arm.exposures - arm.conversions)
+  })
+  const controlPosterior = posterior(control)
+  const treatmentPosterior = posterior(treatment)
+
+  const controlDraws: number[] = []
+  const treatmentDraws: number[] = []
+  const lifts: number[] = []
+  let wins = 0
+  let loss = 0
+  let lossControl = 0
+  for (let i = 0; i < draws; i++) {
+    const a = sampleBeta(controlPosterior.alpha, controlPosterior.beta, random)
+    const b = sampleBeta(treatmentPosterior.alpha, treatmentPosterior.beta, random)
+    controlDraws.push(a)
+    treatmentDraws.push(b)
+    lifts.push(b - a)
+    const advantage = sign * (b - a)
+    if (advantage > 0) wins++
+    loss += Math.max(0, -advantage)
+    lossControl += Math.max(0, advantage)
+  }
+  controlDraws.sort((x, y) => x - y)
+  treatmentDraws.sort((x, y) => x - y)
+  lifts.sort((x, y) => x - y)
+
+  const summarize = (params: { alpha: number; beta: number }, sorted: number[]): PosteriorSummary => ({
+    ...params,
+    mean: params.alpha / (params.alpha + params.beta),
+    credibleInterval: [quantile(sorted, 0.025), quantile(sorted, 0.975)]
+  })
+
+  return {
+    prior,
+    control: summarize(controlPosterior, controlDraws),
+    treatment: summarize(treatmentPosterior, treatmentDraws),
+    probabilityToBeatControl: wins / draws,
+    expectedLoss: loss / draws,
+    expectedLossControl: lossControl / draws,
+    liftCredibleInterval: [quantile(lifts, 0.025), quantile(lifts, 0.975)],
+    draws
+  }
+}
+
+// ==================================================================
+// CUPED
+// ==================================================================
+
+/**
+ * CUPED (Deng et al.): subtract theta * (X - mean X) from each outcome, with theta = cov(Y, X) / var(X) pooled
+ * over both arms. Users without a pre-period value are given the pooled mean, which leaves them unadjusted.
+ * Returns null when too few users have a covariate for the adjustment to be worth it.
+ */
+export function cupedAdjustment(
+  observations: CupedObservation[],
+  covariate: string,
+  confidenceLevel = 0.95
+): CupedAdjustment | null {
+  const withCovariate = observations.filter(observation => typeof observation.covariate === 'number' && isFinite(observation.covariate))
+  if (withCovariate.length < CUPED_MIN_COVARIATE_USERS) return null
+
+  const covariateMean = withCovariate.reduce((sum, observation) => sum + observation.covariate!, 0) / withCovariate.length
+  const outcomeMean = observations.reduce((sum, observation) => sum + observation.outcome, 0) / observations.length
+  let covariance = 0
+  let covariateVariance = 0
+  for (const observation of observations) {
+    const x = (observation.covariate ?? covariateMean) - covariateMean
+    covariance += (observation.outcome - outcomeMean) * x
+    covariateVariance += x * x
+  }
+  if (covariateVariance === 0) return null
+  const theta = covariance / covariateVariance
+
+  const adjusted = { control: [] as number[], treatment: [] as number[] }
+  const raw = { control: [] as number[], treatment: [] as number[] }
+  for (const observation of observations) {
+    const x = (observation.covariate ?? covariateMean) - covariateMean
+    adjusted[observation.arm].push(observation.outcome - theta * x)
+    raw[observation.arm].push(observation.outcome)
+  }
+  if (adjusted.control.length < 2 || adjusted.treatment.length < 2) return null
+
+  const meanOf = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  const adjustedMeanA = meanOf(adjusted.control)
+  const adjustedMeanB = meanOf(adjusted.treatment)
+  const difference = adjustedMeanB - adjustedMeanA
+  const standardError = Math.sqrt(variance(adjusted.control) / adjusted.control.length + variance(adjusted.treatment) / adjusted.treatment.length)
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2)
+  const rawVariance = variance(raw.control) + variance(raw.treatment)
+
+  return {
+    covariate,
+    theta,
+    coverage: withCovariate.length / observations.length,
+    varianceReduction: rawVariance > 0 ? 1 - (variance(adjusted.control) + variance(adjusted.treatment)) / rawVariance : 0,
+    adjustedMeanA,
+    adjustedMeanB,
+    difference,
+    standardError,
+    confidenceInterval: [difference - z * standardError, difference + z * standardError],
+    pValue: standardError > 0 ? 2 * (1 - normalCDF(Math.abs(difference / standardError))) : 1
+  }
+}
+
+// ==================================================================
+// SAMPLE RATIO MISMATCH
+// ==================================================================
+
+/**
+ * Chi-square goodness of fit of assignment counts against the configured traffic split. A mismatch means
+ * assignment or logging is broken and the comparison is not trustworthy, whatever its p-value says.
+ * Returns null until every variant expects at least five users.
+ */
+export function sampleRatioMismatch(
+  variants: Array<{ variantId: string; count: number; expectedShare: number }>,
+  threshold = SRM_P_VALUE_THRESHOLD
+): SampleRatioMismatchCheck | null {
+  const total = variants.reduce((sum, variant) => sum + variant.count, 0)
+  const shareTotal = variants.reduce((sum, variant) => sum + variant.expectedShare, 0)
+  if (variants.length < 2 || shareTotal <= 0) return null
+  const normalized = variants.map(variant => ({ ...variant, expectedShare: variant.expectedShare / shareTotal }))
+  if (normalized.some(variant => variant.expectedShare * total < 5)) return null
+
+  const chiSquare = normalized.reduce((sum, variant) => {
+    const expected = variant.expectedShare * total
+    return sum + Math.pow(variant.count - expected, 2) / expected
+  }, 0)
+  const degreesOfFreedom = normalized.length - 1
+  const pValue = chiSquarePValue(chiSquare, degreesOfFreedom)
+
+  return {
+    chiSquare,
+    degreesOfFreedom,
+    pValue,
+    threshold,
+    detected: pValue < threshold,
+    variants: normalized.map(variant => ({
+      variantId: variant.variantId,
+      count: variant.count,
+      expectedShare: variant.expectedShare,
+      observedShare: variant.count / total
+    }))
+  }
+}
@@ -0,0 +1,63 @@
+// Feature Flags (server)
+// Evaluates flags inside API routes for the caller: signed-in users are targeted by id, organization and
+// role, guests and anonymous callers by their guest session or IP so percentage rollouts stay sticky
+
+import { NextResponse, type NextRequest } from 'next/server'
+import { resolveAuthContext } from './auth-guard'
+import { resolveRequestIdentity } from './request-identity'
+import { featureFlagService, type FlagEvaluation, type FlagEvaluationContext, type FlagValue } from './feature-flags'
+
+/**
+ * Build the evaluation context for a request from the session alone. Profile lookups failing never blocks
+ * evaluation; the caller is then treated as anonymous.
+ */
+export async function resolveFlagContext(request: NextRequest): Promise<FlagEvaluationContext> {
+  try {
+    const auth = await resolveAuthContext(request)
+    if (auth) {
+      return {
+        userId: auth.userId,
+        organizationId: auth.organizationId,
+        attributes: { roles: auth.roles, profileRole: auth.profileRole }
+      }
+    }
+    const identity = await resolveRequestIdentity(request)
+    return { userId: `${identity.kind}:${identity.id}` }
+  } catch (error) {
+    console.error('Feature flag context resolution failed:', error)
+    return {}
+  }
+}
+
+// `extra` is caller-supplied: a flag only sees the attributes and profile fields it lists as clientAttributes
+export async function evaluateFeatureFlag(
+  request: NextRequest,
+  key: string,
+  fallback: FlagValue = false,
+  extra?: Partial<FlagEvaluationContext>
+): Promise<FlagEvaluation> {
+  await featureFlagService.hydrate()
+  return featureFlagService.evaluate(key, await resolveFlagContext(request), fallback, extra)
+}
+
+export async function isFeatureEnabled(
+  request: NextRequest,
+  key: string,
+  fallback = false,
+  extra?: Partial<FlagEvaluationContext>
+): Promise<boolean> {
+  return (await evaluateFeatureFlag(request, key, fallback, extra)).value === true
+}
+
+/**
+ * 404 response when a boolean flag is off for the caller, or null so the route carries on. Gated routes
+ * answer as if they did not exist rather than advertising features an organization has not been given.
+ */
+export async function featureGateResponse(
+  request: NextRequest,
+  key: string,
+  options: { fallback?: boolean; extra?: Partial<FlagEvaluationContext> } = {}
+): Promise<NextResponse | null> {
+  if (await isFeatureEnabled(request, key, options.fallback ?? false, options.extra)) return null
+  return NextResponse.json({ success: false, error: 'This feature is not enabled' }, { status: 404 })
+}
@@ -0,0 +1,374 @@
+// Feature Flags
+// Boolean and multivariate flags with targeting rules, percentage rollouts and kill switches, evaluated with
+// the same segment matching and deterministic hashing the A/B testing framework uses for assignment
+
+import type { UserProfile } from '@/types'
+import { EngineStateStore } from './engine-repository'
+import { hashAssignmentKey, matchesSegmentCriteria, type SegmentCriteria } from './ab-testing-framework'
+
+export type FlagValue = boolean | string | number | Record<string, any>
+
+export interface FlagVariation {
+  variationId: string
+  value: FlagValue
+  name?: string
+}
+
+export interface RolloutWeight {
+  variationId: string
+  weight: number // percent, weights in a rollout sum to 100
+}
+
+// What a rule or the fallthrough serves: one variation, or a split bucketed on the flag's bucketBy key
+export interface FlagServe {
+  variationId?: string
+  rollout?: RolloutWeight[]
+}
+
+export interface FlagTargetingRule extends FlagServe {
+  ruleId: string
+  description?: string
+  criteria: SegmentCriteria[] // fields resolve against the evaluation context, e.g. 'organizationId', 'userProfile.level'
+}
+
+export interface FeatureFlag {
+  key: string
+  name: string
+  description: string
+  type: 'boolean' | 'multivariate'
+  variations: FlagVariation[]
+
+  // Kill switch: a disabled flag serves offVariationId to everyone, whatever its rules say
+  enabled: boolean
+  offVariationId: string
+
+  rules: FlagTargetingRule[] // first match wins
+  fallthrough: FlagServe
+  bucketBy: 'userId' | 'organizationId' // organizationId keeps a whole organization on one side of a rollout
+  clientAttributes: string[] // fields callers may supply for this flag, e.g. 'plan' or 'userProfile.level'
+
+  salt: string
+  tags: string[]
+  createdBy?: string
+  createdAt: Date
+  updatedAt: Date
+  killedAt?: Date
+  killedBy?: string
+  killReason?: string
+}
+
+export interface FeatureFlagInput {
+  key: string
+  name?: string
+  description?: string
+  type?: FeatureFlag['type']
+  variations?: FlagVariation[] // boolean flags always get 'on' (true) and 'off' (false)
+  enabled?: boolean
+  offVariationId?: string
+  rules?: FlagTargetingRule[]
+  fallthrough?: FlagServe
+  rolloutPercentage?: number // boolean shorthand for a fallthrough of this share on, the rest off
+  bucketBy?: FeatureFlag['bucketBy']
+  clientAttributes?: string[]
+  tags?: string[]
+  createdBy?: string
+}
+
+export interface FlagEvaluationContext {
+  userId?: string
+  organizationId?: string
+  userProfile?: Partial<UserProfile>
+  attributes?: Record<string, any> // anything else rules may target, e.g. roles or plan
+}
+
+export type FlagEvaluationReason = 'off' | 'rule_match' | 'fallthrough' | 'flag_not_found'
+
+export interface FlagEvaluation {
+  flagKey: string
+  value: FlagValue
+  variationId: string | null
+  reason: FlagEvaluationReason
+  ruleId?: string
+}
+
+export class FeatureFlagError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 409
+  ) {
+    super(message)
+    this.name = 'FeatureFlagError'
+  }
+}
+
+// Flags referenced from code. Until a flag is created through /api/feature-flags its callers' fallback applies.
+export const KNOWN_FLAGS = {
+  neuralAttentionTracking: 'neural_attention_tracking'
+} as const
+
+const FLAG_KEY_PATTERN = /^[a-z0-9][a-z0-9_.-]*$/
+const BOOLEAN_VARIATIONS: FlagVariation[] = [
+  { variationId: 'on', value: true, name: 'On' },
+  { variationId: 'off', value: false, name: 'Off' }
+]
+const BUCKETS = 10000
+
+// Who the caller is comes from the session only; no flag may let a caller supply these
+const SESSION_CONTEXT_FIELDS = ['userId', 'organizationId', 'roles', 'profileRole']
+
+// Caller-supplied attributes and profile fields, narrowed to the ones the flag allows
+function allowedCallerContext(flag: FeatureFlag, supplied: Partial<FlagEvaluationContext> = {}): Pick<FlagEvaluationContext, 'attributes' | 'userProfile'> {
+  const allowed = new Set(flag.clientAttributes || [])
+  return {
+    attributes: Object.fromEntries(Object.entries(supplied.attributes || {}).filter(([field]) => allowed.has(field))),
+    userProfile: Object.fromEntries(Object.entries(supplied.userProfile || {}).filter(([field]) => allowed.has(`userProfile.${field}`)))
+  }
+}
+
+// The Java-style string hash leaves sequential ids in neighbouring buckets; the murmur3 finalizer spreads them
+function bucketOf(input: string): number {
+  let h = hashAssignmentKey(input)
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return (h >>> 0) % BUCKETS
+}
+
+export class FeatureFlagService {
+  private store = new EngineStateStore('feature_flags')
+  private flags = this.store.map<FeatureFlag>('flags')
+
+  /**
+   * Load persisted flags
+   */
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  /**
+   * Wait for pending flag writes
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
+  createFlag(input: FeatureFlagInput): FeatureFlag {
+    if (!input.key || !FLAG_KEY_PATTERN.test(input.key)) {
+      throw new FeatureFlagError('Flag key must be lowercase letters, digits, ".", "_" or "-"', 400)
+    }
+    if (this.flags.has(input.key)) {
+      throw new FeatureFlagError(`Flag ${input.key} already exists`, 409)
+    }
+
+    const type = input.type || 'boolean'
+    const variations = type === 'boolean' ? BOOLEAN_VARIATIONS : input.variations || []
+    const flag: FeatureFlag = {
+      key: input.key,
+      name: input.name || input.key,
+      description: input.description || '',
+      type,
+      variations,
+      enabled: input.enabled ?? true,
+      offVariationId: input.offVariationId || (type === 'boolean' ? 'off' : variations[0]?.variationId),
+      rules: input.rules || [],
+      fallthrough: input.fallthrough || this.defaultFallthrough(type, variations, input.rolloutPercentage),
+      bucketBy: input.bucketBy || 'userId',
+      clientAttributes: input.clientAttributes || [],
+      salt: Math.random().toString(36).substr(2, 8),
+      tags: input.tags || [],
+      createdBy: input.createdBy,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+
+    this.validate(flag)
+    this.flags.set(flag.key, flag)
+    return flag
+  }
+
+  /**
+   * Replace rules, fallthrough or metadata. The key, type and salt are fixed so existing buckets stay put.
+   */
+  updateFlag(key: string, updates: Omit<FeatureFlagInput, 'key' | 'type' | 'createdBy'>): FeatureFlag {
+    const existing = this.requireFlag(key)
+    const { rolloutPercentage, ...changes } = updates
+    const rest = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as typeof changes
+    const variations = existing.type === 'boolean' ? existing.variations : rest.variations || existing.variations
+
+    const flag: FeatureFlag = {
+      ...existing,
+      ...rest,
+      variations,
+      fallthrough: rolloutPercentage !== undefined
+        ? this.defaultFallthrough(existing.type, variations, rolloutPercentage)
+        : rest.fallthrough || existing.fallthrough,
+      key: existing.key,
+      type: existing.type,
+      salt: existing.salt,
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    }
+
+    this.validate(flag)
+    this.flags.set(key, flag)
+    return flag
+  }
+
+  /**
+   * Turn a flag off for everyone (or back on) without touching its targeting
+   */
+  setKillSwitch(key: string, killed: boolean, actor?: string, reason?: string): FeatureFlag {
+    const flag = this.requireFlag(key)
+    const updated: FeatureFlag = {
+      ...flag,
+      enabled: !killed,
+      killedAt: killed ? new Date() : undefined,
+      killedBy: killed ? actor : undefined,
+      killReason: killed ? reason : undefined,
+      updatedAt: new Date()
+    }
+    this.flags.set(key, updated)
+    return updated
+  }
+
+  deleteFlag(key: string): boolean {
+    return this.flags.delete(key)
+  }
+
+  getFlag(key: string): FeatureFlag | undefined {
+    return this.flags.get(key)
+  }
+
+  listFlags(tag?: string): FeatureFlag[] {
+    return Array.from(this.flags.values())
+      .filter(flag => !tag || flag.tags.includes(tag))
+      .sort((a, b) => a.key.localeCompare(b.key))
+  }
+
+  /**
+   * Evaluate a flag for a context. Unknown flags return the fallback so code can ship before its flag does.
+   * `context` is trusted; `supplied` is what the caller sent, of which only the flag's clientAttributes count.
+   */
+  evaluate(key: string, context: FlagEvaluationContext, fallback: FlagValue = false, supplied?: Partial<FlagEvaluationContext>): FlagEvaluation {
+    const flag = this.flags.get(key)
+    if (!flag) {
+      return { flagKey: key, value: fallback, variationId: null, reason: 'flag_not_found' }
+    }
+
+    if (!flag.enabled) {
+      return this.serveVariation(flag, flag.offVariationId, 'off')
+    }
+
+    const caller = allowedCallerContext(flag, supplied)
+    const subject = {
+      ...caller.attributes,
+      ...context.attributes,
+      userId: context.userId,
+      organizationId: context.organizationId,
+      userProfile: { ...caller.userProfile, ...context.userProfile }
+    }
+    for (const rule of flag.rules) {
+      if (!matchesSegmentCriteria(subject, rule.criteria)) continue
+      return { ...this.serveVariation(flag, this.resolveServe(flag, rule, context), 'rule_match'), ruleId: rule.ruleId }
+    }
+
+    return this.serveVariation(flag, this.resolveServe(flag, flag.fallthrough, context), 'fallthrough')
+  }
+
+  isEnabled(key: string, context: FlagEvaluationContext, fallback = false): boolean {
+    return this.evaluate(key, context, fallback).value === true
+  }
+
+  evaluateAll(context: FlagEvaluationContext, keys?: string[]): Record<string, FlagEvaluation> {
+    const evaluations: Record<string, FlagEvaluation> = {}
+    for (const key of keys || Array.from(this.flags.keys())) {
+      evaluations[key] = this.evaluate(key, context)
+    }
+    return evaluations
+  }
+
+  private requireFlag(key: string): FeatureFlag {
+    const flag = this.flags.get(key)
+    if (!flag) {
+      throw new FeatureFlagError(`Flag ${key} not found`, 404)
+    }
+    return flag
+  }
+
+  private defaultFallthrough(type: FeatureFlag['type'], variations: FlagVariation[], rolloutPercentage?: number): FlagServe {
+    if (type === 'boolean' && rolloutPercentage !== undefined) {
+      const share = Math.min(100, Math.max(0, rolloutPercentage))
+      return { rollout: [{ variationId: 'on', weight: share }, { variationId: 'off', weight: 100 - share }] }
+    }
+    return { variationId: type === 'boolean' ? 'on' : variations[0]?.variationId }
+  }
+
+  private validate(flag: FeatureFlag): void {
+    const ids = new Set(flag.variations.map(variation => variation.variationId))
+    if (ids.size === 0 || ids.size !== flag.variations.length) {
+      throw new FeatureFlagError('Flag needs at least one variation and unique variation ids', 400)
+    }
+    if (!ids.has(flag.offVariationId)) {
+      throw new FeatureFlagError(`Unknown off variation ${flag.offVariationId}`, 400)
+    }
+
+    const serves: Array<{ label: string; serve: FlagServe }> = [
+      { label: 'fallthrough', serve: flag.fallthrough },
+      ...flag.rules.map(rule => ({ label: `rule ${rule.ruleId}`, serve: rule }))
+    ]
+    for (const { label, serve } of serves) {
+      if (serve.rollout?.length) {
+        const total = serve.rollout.reduce((sum, weight) => sum + weight.weight, 0)
+        if (Math.abs(total - 100) > 0.001 || serve.rollout.some(weight => weight.weight < 0)) {
+          throw new FeatureFlagError(`Rollout weights in ${label} must be non-negative and sum to 100`, 400)
+        }
+        const unknown = serve.rollout.find(weight => !ids.has(weight.variationId))
+        if (unknown) throw new FeatureFlagError(`Unknown variation ${unknown.variationId} in ${label}`, 400)
+      } else if (!serve.variationId || !ids.has(serve.variationId)) {
+        throw new FeatureFlagError(`${label} must serve a known variation or a rollout`, 400)
+      }
+    }
+
+    const sessionField = (flag.clientAttributes || []).find(field => SESSION_CONTEXT_FIELDS.includes(field))
+    if (sessionField) {
+      throw new FeatureFlagError(`${sessionField} comes from the session and cannot be a client attribute`, 400)
+    }
+
+    const ruleIds = new Set(flag.rules.map(rule => rule.ruleId))
+    if (ruleIds.size !== flag.rules.length) {
+      throw new FeatureFlagError('Rule ids must be unique', 400)
+    }
+  }
+
+  // Contexts without the bucketing key get the rollout's largest share rather than a hash of nothing
+  private resolveServe(flag: FeatureFlag, serve: FlagServe, context: FlagEvaluationContext): string {
+    if (!serve.rollout?.length) return serve.variationId!
+
+    const bucketKey = flag.bucketBy === 'organizationId' ? context.organizationId : context.userId
+    if (!bucketKey) {
+      return serve.rollout.reduce((best, weight) => (weight.weight > best.weight ? weight : best)).variationId
+    }
+
+    const bucket = bucketOf(`${flag.key}:${flag.salt}:${bucketKey}`)
+    let cumulative = 0
+    for (const weight of serve.rollout) {
+      cumulative += (weight.weight / 100) * BUCKETS
+      if (bucket < cumulative) return weight.variationId
+    }
+    return serve.rollout[serve.rollout.length - 1].variationId
+  }
+
+  private serveVariation(flag: FeatureFlag, variationId: string, reason: FlagEvaluationReason): FlagEvaluation {
+    const variation = flag.variations.find(candidate => candidate.variationId === variationId)
+    return {
+      flagKey: flag.key,
+      value: variation ? variation.value : false,
+      variationId: variation ? variation.variationId : null,
+      reason
+    }
+  }
+}
+
+export const featureFlagService = new FeatureFlagService()
@@ -0,0 +1,572 @@
+// Flashcard Deck Import/Export
+// Reads Anki packages (.apkg), Anki plain-text exports and CSV decks into a neutral card format,
+// and writes a learner's spaced repetition schedule back out as CSV or Anki-importable text
+
+import type JSZip from 'jszip'
+import type { LearningItem, MemoryState, ReviewSession } from './spaced-repetition-engine'
+
+export type DeckImportFormat = 'apkg' | 'anki_text' | 'csv'
+export type DeckExportFormat = 'csv' | 'anki_text' | 'review_log_csv'
+
+export interface ImportedReview {
+  reviewed_at: Date
+  rating: 1 | 2 | 3 | 4 // Again, Hard, Good, Easy
+  time_taken_ms: number
+}
+
+export interface ImportedCard {
+  external_id: string
+  front: string
+  back: string
+  tags: string[]
+  deck?: string
+  reviews: ImportedReview[]
+  // Scheduling snapshot when no review log is available (CSV columns, Anki card table)
+  scheduling?: {
+    interval_days: number
+    due_date?: Date
+    ease_factor?: number
+    review_count?: number
+    lapses?: number
+    last_review?: Date
+  }
+}
+
+// Which CSV column holds which card field (header names, case-insensitive)
+export interface CSVFieldMapping {
+  front: string
+  back: string
+  tags?: string
+  deck?: string
+  id?: string
+  interval?: string
+  due?: string
+  ease?: string
+  reviews?: string
+  lapses?: string
+  last_review?: string
+}
+
+export const DEFAULT_CSV_FIELD_MAPPING: CSVFieldMapping = {
+  front: 'front',
+  back: 'back',
+  tags: 'tags',
+  deck: 'deck',
+  id: 'id',
+  interval: 'interval_days',
+  due: 'due_date',
+  ease: 'ease_factor',
+  reviews: 'review_count',
+  lapses: 'lapses',
+  last_review: 'last_review'
+}
+
+export interface DeckExportFile {
+  filename: string
+  mime_type: string
+  content: string
+}
+
+// Decks are untrusted uploads: too large to read or import is a 413, otherwise unreadable is a 400
+export class DeckImportError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 413 = 400
+  ) {
+    super(message)
+    this.name = 'DeckImportError'
+  }
+}
+
+// One import adds at most this many cards, each replaying its own review log
+export const MAX_IMPORTED_CARDS = 20000
+
+const DAY_MS = 1000 * 60 * 60 * 24
+const ANKI_FIELD_SEPARATOR = '\x1f'
+
+// ==================================================================
+// TEXT HELPERS
+// ==================================================================
+
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function parseTags(raw: string | undefined): string[] {
+  if (!raw) return []
+  return raw.split(/[\s,;]+/).map(tag => tag.trim()).filter(Boolean)
+}
+
+function parseOptionalNumber(raw: string | undefined): number | undefined {
+  if (raw === undefined || raw.trim() === '') return undefined
+  const value = Number(raw)
+  return Number.isFinite(value) ? value : undefined
+}
+
+function parseOptionalDate(raw: string | undefined): Date | undefined {
+  if (!raw || raw.trim() === '') return undefined
+  const date = new Date(raw)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+// ==================================================================
+// CSV
+// ==================================================================
+
+// RFC 4180 parser: quoted fields, escaped quotes, embedded separators and newlines
+export function parseDelimited(text: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  const source = text.replace(/^﻿/, '')
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (source[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+function escapeDelimited(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || value.includes('\n') || value.includes('\r')) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+function toDelimited(rows: Array<Array<string | number | undefined | null>>, delimiter: string = ','): string {
+  return rows
+    .map(row => row.map(cell => escapeDelimited(cell === undefined || cell === null ? '' : String(cell), delimiter)).join(delimiter))
+    .join('\n') + '\n'
+}
+
+export function parseCSVDeck(text: string, mapping: Partial<CSVFieldMapping> = {}): ImportedCard[] {
+  const fields = { ...DEFAULT_CSV_FIELD_MAPPING, ...mapping }
+  const delimiter = text.split('\n')[0].includes('\t') && !text.split('\n')[0].includes(',') ? '\t' : ','
+  const [header, ...rows] = parseDelimited(text, delimiter)
+
+  if (!header) {
+    throw new Error('CSV deck is empty')
+  }
+
+  const columns = header.map(name => name.trim().toLowerCase())
+  const column = (name?: string) => (name ? columns.indexOf(name.toLowerCase()) : -1)
+
+  const frontIndex = column(fields.front)
+  const backIndex = column(fields.back)
+  if (frontIndex === -1 || backIndex === -1) {
+    throw new Error(`CSV deck must have "${fields.front}" and "${fields.back}" columns`)
+  }
+
+  const cell = (row: string[], name?: string) => {
+    const index = column(name)
+    return index === -1 ? undefined : row[index]
+  }
+
+  return rows.map((row, index) => {
+    const intervalDays = parseOptionalNumber(cell(row, fields.interval))
+    const card: ImportedCard = {
+      external_id: cell(row, fields.id) || `csv_${index + 1}`,
+      front: row[frontIndex] || '',
+      back: row[backIndex] || '',
+      tags: parseTags(cell(row, fields.tags)),
+      deck: cell(row, fields.deck) || undefined,
+      reviews: []
+    }
+
+    if (intervalDays !== undefined) {
+      card.scheduling = {
+        interval_days: intervalDays,
+        due_date: parseOptionalDate(cell(row, fields.due)),
+        ease_factor: parseOptionalNumber(cell(row, fields.ease)),
+        review_count: parseOptionalNumber(cell(row, fields.reviews)),
+        lapses: parseOptionalNumber(cell(row, fields.lapses)),
+        last_review: parseOptionalDate(cell(row, fields.last_review))
+      }
+    }
+
+    return card
+  }).filter(card => card.front.trim() !== '')
+}
+
+// ==================================================================
+// ANKI PLAIN TEXT ("Notes in Plain Text" export)
+// ==================================================================
+
+export function parseAnkiText(text: string): ImportedCard[] {
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/)
+  const headers: Record<string, string> = {}
+
+  // Header lines look like "#separator:tab", "#tags column:3"
+  while (lines.length > 0 && lines[0].startsWith('#')) {
+    const [key, ...value] = lines.shift()!.slice(1).split(':')
+    headers[key.trim().toLowerCase()] = value.join(':').trim()
+  }
+
+  const separatorNames: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ', colon: ':' }
+  const separator = separatorNames[headers.separator?.toLowerCase()] || headers.separator || '\t'
+  const tagsColumn = headers['tags column'] ? parseInt(headers['tags column'], 10) - 1 : -1
+  const deckColumn = headers['deck column'] ? parseInt(headers['deck column'], 10) - 1 : -1
+  const guidColumn = headers['guid column'] ? parseInt(headers['guid column'], 10) - 1 : -1
+  const notetypeColumn = headers['notetype column'] ? parseInt(headers['notetype column'], 10) - 1 : -1
+  const reserved = new Set([tagsColumn, deckColumn, guidColumn, notetypeColumn])
+
+  return parseDelimited(lines.join('\n'), separator).map((row, index) => {
+    const contentFields = row.filter((_, column) => !reserved.has(column))
+    return {
+      external_id: guidColumn >= 0 ? row[guidColumn] : `anki_text_${index + 1}`,
+      front: contentFields[0] || '',
+      back: contentFields.slice(1).filter(Boolean).join('<br>'),
+      tags: tagsColumn >= 0 ? parseTags(row[tagsColumn]) : [],
+      deck: deckColumn >= 0 ? row[deckColumn] : undefined,
+      reviews: []
+    }
+  }).filter(card => card.front.trim() !== '')
+}
+
+// ==================================================================
+// ANKI PACKAGE (.apkg)
+// ==================================================================
+
+// A few KB of zip can inflate to gigabytes. Media files are entries too, so the entry limit is generous;
+// only the collection is inflated, against its own budget.
+const MAX_PACKAGE_ENTRIES = 50000
+const MAX_PACKAGE_UNCOMPRESSED_BYTES = 100 * 1024 * 1024
+
+// Inflate one entry, giving up as soon as it goes over the uncompressed budget
+function readPackageEntry(entry: JSZip.JSZipObject, budget: { remaining: number }): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    const stream = entry.nodeStream('nodebuffer')
+    stream.on('data', (chunk: Buffer) => {
+      budget.remaining -= chunk.length
+      if (budget.remaining < 0) {
+        stream.pause()
+        stream.removeAllListeners('data')
+        reject(new DeckImportError(`Anki collection expands to more than ${MAX_PACKAGE_UNCOMPRESSED_BYTES / (1024 * 1024)} MB`, 413))
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('end', () => resolve(new Uint8Array(Buffer.concat(chunks))))
+    stream.on('error', reject)
+  })
+}
+
+// Packages are zip files holding a SQLite collection. Only the legacy-compatible
+// collection.anki2 / collection.anki21 files are readable; anki21b is zstd-compressed.
+export async function parseAnkiPackage(data: Uint8Array): Promise<ImportedCard[]> {
+  const { default: JSZip } = await import('jszip')
+  const zip = await JSZip.loadAsync(data)
+  const entryCount = Object.keys(zip.files).length
+  if (entryCount > MAX_PACKAGE_ENTRIES) {
+    throw new DeckImportError(`Anki package has ${entryCount} entries, at most ${MAX_PACKAGE_ENTRIES} are accepted`, 413)
+  }
+  const collectionFile = zip.file('collection.anki21') || zip.file('collection.anki2')
+
+  if (!collectionFile) {
+    if (zip.file('collection.anki21b')) {
+      throw new DeckImportError('This package uses the latest Anki format. Re-export it with "Support older Anki versions" enabled.')
+    }
+    throw new DeckImportError('Not an Anki package: no collection found')
+  }
+
+  const { default: initSqlJs } = await import('sql.js')
+  const SQL = await initSqlJs()
+  const db = new SQL.Database(await readPackageEntry(collectionFile, { remaining: MAX_PACKAGE_UNCOMPRESSED_BYTES }))
+
+  try {
+    const query = (sql: string): any[][] => {
+      const result = db.exec(sql)
+      return result.length > 0 ? result[0].values : []
+    }
+
+    const [[collectionCreated, decksJson]] = query('SELECT crt, decks FROM col') as [[number, string]]
+    const deckNames = new Map<number, string>()
+    try {
+      for (const deck of Object.values<any>(JSON.parse(decksJson || '{}'))) {
+        deckNames.set(Number(deck.id), deck.name)
+      }
+    } catch {
+      // Newer schema stores decks in their own table
+    }
+    if (deckNames.size === 0) {
+      try {
+        for (const [id, name] of query('SELECT id, name FROM decks')) {
+          deckNames.set(Number(id), String(name))
+        }
+      } catch {
+        // No deck table either; cards import without deck names
+      }
+    }
+
+    const notes = new Map<number, { guid: string; fields: string[]; tags: string[] }>()
+    for (const [id, guid, flds, tags] of query('SELECT id, guid, flds, tags FROM notes')) {
+      notes.set(Number(id), {
+        guid: String(guid),
+        fields: String(flds).split(ANKI_FIELD_SEPARATOR),
+        tags: parseTags(String(tags))
+      })
+    }
+
+    const reviewsByCard = new Map<number, ImportedReview[]>()
+    for (const [id, cardId, ease, time] of query('SELECT id, cid, ease, time FROM revlog WHERE ease BETWEEN 1 AND 4 ORDER BY id')) {
+      const reviews = reviewsByCard.get(Number(cardId)) || []
+      reviews.push({
+        reviewed_at: new Date(Number(id)),
+        rating: Number(ease) as ImportedReview['rating'],
+        time_taken_ms: Number(time)
+      })
+      reviewsByCard.set(Number(cardId), reviews)
+    }
+
+    const cards: ImportedCard[] = []
+    for (const [id, noteId, deckId, ord, type, due, ivl, factor, reps, lapses] of query(
+      'SELECT id, nid, did, ord, type, due, ivl, factor, reps, lapses FROM cards ORDER BY nid, ord'
+    )) {
+      const note = notes.get(Number(noteId))
+      if (!note) continue
+
+      // Reverse cards (ord 1) swap the first two fields
+      const [first, second, ...rest] = note.fields
+      const [front, back] = Number(ord) === 1 ? [second, first] : [first, [second, ...rest].filter(Boolean).join('<br>')]
+
+      const card: ImportedCard = {
+        external_id: `${note.guid}_${ord}`,
+        front: front || '',
+        back: back || '',
+        tags: note.tags,
+        deck: deckNames.get(Number(deckId)),
+        reviews: reviewsByCard.get(Number(id)) || []
+      }
+
+      // Review cards: due counts days from collection creation
+      if (Number(type) === 2 && Number(ivl) > 0) {
+        card.scheduling = {
+          interval_days: Number(ivl),
+          due_date: new Date((Number(collectionCreated) * 1000) + Number(due) * DAY_MS),
+          ease_factor: Number(factor) / 1000,
+          review_count: Number(reps),
+          lapses: Number(lapses)
+        }
+      }
+
+      cards.push(card)
+    }
+
+    return cards
+  } finally {
+    db.close()
+  }
+}
+
+// ==================================================================
+// MAPPING INTO THE ENGINE
+// ==================================================================
+
+const IMPORTED_ID_PREFIX = 'import_'
+
+export function cardToLearningItem(card: ImportedCard, source: DeckImportFormat): LearningItem {
+  const front = stripHtml(card.front)
+  const back = stripHtml(card.back)
+  const now = new Date()
+  // Our own CSV exports carry ids that were already prefixed on their first import
+  const externalId = card.external_id.replace(/[^a-zA-Z0-9_-]/g, '_')
+
+  return {
+    item_id: externalId.startsWith(IMPORTED_ID_PREFIX) ? externalId : `${IMPORTED_ID_PREFIX}${externalId}`,
+    content: {
+      title: front.length > 120 ? `${front.slice(0, 117)}...` : front,
+      description: back.length > 200 ? `${back.slice(0, 197)}...` : back,
+      content_text: back,
+      prompt_text: front,
+      content_type: 'fact',
+      subject_domain: card.deck || 'general',
+      difficulty_level: 5,
+      cognitive_load: 3,
+      prerequisites: [],
+      related_items: []
+    },
+    metadata: {
+      created_at: now,
+      last_modified: now,
+      source: `import:${source}`,
+      tags: card.tags,
+      importance_weight: 0.7,
+      estimated_learning_time: 2,
+      mastery_threshold: 0.8
+    }
+  }
+}
+
+// Anki grades become performance data that the engine maps back onto the same grade
+const RATING_PERFORMANCE: Record<ImportedReview['rating'], Pick<ReviewSession['performance_data'], 'response_quality' | 'confidence_level' | 'completion_status'>> = {
+  1: { response_quality: 0.2, confidence_level: 0.2, completion_status: 'failed' },
+  2: { response_quality: 0.55, confidence_level: 0.5, completion_status: 'completed' },
+  3: { response_quality: 0.8, confidence_level: 0.7, completion_status: 'completed' },
+  4: { response_quality: 0.95, confidence_level: 0.9, completion_status: 'completed' }
+}
+
+export function reviewToSession(learnerId: string, itemId: string, review: ImportedReview, index: number): ReviewSession {
+  return {
+    session_id: `review_${itemId}_${index}`,
+    learner_id: learnerId,
+    item_id: itemId,
+    session_date: review.reviewed_at,
+    review_type: index === 0 ? 'initial_learning' : 'scheduled_review',
+    performance_data: {
+      ...RATING_PERFORMANCE[review.rating],
+      response_time_seconds: Math.round(review.time_taken_ms / 1000),
+      effort_level: 0.5,
+      hints_used: 0,
+      errors_made: review.rating === 1 ? 1 : 0
+    },
+    context_factors: {
+      time_of_day: review.reviewed_at.getHours(),
+      session_length_minutes: 10,
+      concurrent_items_reviewed: 1,
+      emotional_state: 'neutral',
+      environment_quality: 0.8,
+      learning_motivation: 0.7
+    },
+    adaptive_adjustments: []
+  }
+}
+
+// ==================================================================
+// EXPORT
+// ==================================================================
+
+export interface ScheduleExportEntry {
+  item: LearningItem | null
+  state: MemoryState
+  history: ReviewSession[]
+}
+
+// The full front of the card; titles of long imported fronts are shortened
+function cardFront(item: LearningItem | null, state: MemoryState): string {
+  return item?.content.prompt_text || item?.content.title || state.item_id
+}
+
+function formatDate(date: Date | undefined): string {
+  return date ? new Date(date).toISOString() : ''
+}
+
+export function exportScheduleCSV(entries: ScheduleExportEntry[]): string {
+  const header = [
+    'id', 'front', 'back', 'tags', 'deck', 'algorithm', 'interval_days', 'due_date',
+    'last_review', 'review_count', 'lapses', 'stability_days', 'difficulty', 'learning_phase'
+  ]
+
+  return toDelimited([
+    header,
+    ...entries.map(({ item, state }) => [
+      state.item_id,
+      cardFront(item, state),
+      item?.content.content_text || '',
+      (item?.metadata.tags || []).join(' '),
+      item?.content.subject_domain || '',
+      state.scheduling?.algorithm || 'heuristic',
+      state.scheduling?.interval_days ?? Math.round(state.stability),
+      formatDate(state.scheduling?.due_date),
+      formatDate(state.last_review_date),
+      state.review_count,
+      state.scheduling?.lapses ?? 0,
+      state.stability.toFixed(2),
+      state.difficulty.toFixed(3),
+      state.learning_phase
+    ])
+  ])
+}
+
+// Anki plain-text import format: front, back, tags (scheduling is not importable into Anki)
+export function exportAnkiText(entries: ScheduleExportEntry[]): string {
+  const escapeField = (value: string) => value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>')
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#tags column:3',
+    ...entries.map(({ item, state }) => [
+      escapeField(cardFront(item, state)),
+      escapeField(item?.content.content_text || ''),
+      (item?.metadata.tags || []).map(tag => tag.replace(/\s+/g, '_')).join(' ')
+    ].join('\t'))
+  ]
+  return lines.join('\n') + '\n'
+}
+
+export function exportReviewLogCSV(entries: ScheduleExportEntry[]): string {
+  return toDelimited([
+    ['item_id', 'session_id', 'reviewed_at', 'review_type', 'response_quality', 'confidence_level', 'response_time_seconds', 'completion_status'],
+    ...entries.flatMap(({ state, history }) => history.map(session => [
+      state.item_id,
+      session.session_id,
+      formatDate(session.session_date),
+      session.review_type,
+      session.performance_data.response_quality,
+      session.performance_data.confidence_level,
+      session.performance_data.response_time_seconds,
+      session.performance_data.completion_status
+    ]))
+  ])
+}
+
+export function buildDeckExport(learnerId: string, format: DeckExportFormat, entries: ScheduleExportEntry[]): DeckExportFile {
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  switch (format) {
+    case 'anki_text':
+      return { filename: `${learnerId}_deck_${stamp}.txt`, mime_type: 'text/plain', content: exportAnkiText(entries) }
+    case 'review_log_csv':
+      return { filename: `${learnerId}_reviews_${stamp}.csv`, mime_type: 'text/csv', content: exportReviewLogCSV(entries) }
+    default:
+      return { filename: `${learnerId}_schedule_${stamp}.csv`, mime_type: 'text/csv', content: exportScheduleCSV(entries) }
+  }
+}
@@ -0,0 +1,1051 @@
+// HRIS Provisioning
+// Lets HR systems keep the corporate training engine's employee directory in step: a SCIM 2.0 service
+// provider (RFC 7643/7644 Users and Groups, as spoken by Okta, Entra ID and Workday) and a CSV bulk import
+// for systems that only export spreadsheets. Users map to employee profiles, Groups to departments, and the
+// enterprise extension's manager to the reporting line. Deprovisioning deactivates rather than deletes, so
+// progress and certifications stay on record for audits.
+// Server-only: bearer tokens are hashed with node crypto.
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto'
+import { EngineStateStore } from './engine-repository'
+import { parseDelimited } from './flashcard-deck-io'
+import { corporateTrainingEngine, type EmployeeProfile } from './corporate-training-engine'
+
+// Provisioned employees have no skills, goals or certifications yet; those come from training
+export type ProvisionedEmployee = Partial<Pick<
+  EmployeeProfile,
+  'name' | 'email' | 'department' | 'role' | 'level' | 'manager' | 'startDate' | 'timezone' | 'preferredLanguage' | 'externalId' | 'active'
+>>
+
+export interface ScimToken {
+  tokenId: string
+  companyId: string
+  name: string
+  prefix: string // first characters of the token, shown so admins can tell tokens apart
+  tokenHash: string
+  createdAt: Date
+  lastUsedAt?: Date
+  revokedAt?: Date
+}
+
+export type ScimTokenSummary = Omit<ScimToken, 'tokenHash'>
+
+// The SCIM identity of a provisioned employee; userName may differ from the email on the profile
+interface ScimUserRecord {
+  employeeId: string
+  companyId: string
+  userName: string
+  createdAt: Date
+  updatedAt: Date
+  deletedAt?: Date // DELETEd over SCIM: the employee is deactivated and the resource no longer exists
+}
+
+interface ScimGroupRecord {
+  groupId: string
+  companyId: string
+  displayName: string // the department name on employee profiles
+  externalId?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ScimListResponse {
+  schemas: string[]
+  totalResults: number
+  startIndex: number
+  itemsPerPage: number
+  Resources: Record<string, any>[]
+}
+
+export interface ScimPatchOperation {
+  op: 'add' | 'replace' | 'remove' | 'Add' | 'Replace' | 'Remove'
+  path?: string
+  value?: any
+}
+
+export interface EmployeeImportRowResult {
+  row: number // data row, 1-based, header excluded
+  status: 'created' | 'updated' | 'unchanged' | 'deactivated' | 'error'
+  employeeId?: string
+  email?: string
+  error?: string
+  warning?: string
+}
+
+export interface EmployeeImportResult {
+  dryRun: boolean
+  created: number
+  updated: number
+  unchanged: number
+  deactivated: number
+  errors: number
+  rows: EmployeeImportRowResult[]
+  deactivatedMissing: string[] // employees absent from the file, with deactivateMissing
+}
+
+export class ScimError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 401 | 404 | 409 | 413 | 501 = 400,
+    public scimType?: 'invalidFilter' | 'invalidPath' | 'invalidValue' | 'invalidSyntax' | 'uniqueness' | 'mutability' | 'noTarget' | 'tooMany'
+  ) {
+    super(message)
+    this.name = 'ScimError'
+  }
+
+  toJSON() {
+    return {
+      schemas: [SCIM_SCHEMAS.error],
+      status: String(this.status),
+      ...(this.scimType ? { scimType: this.scimType } : {}),
+      detail: this.message
+    }
+  }
+}
+
+// ==================================================================
+// SCHEMAS
+// ==================================================================
+
+export const SCIM_SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  enterpriseUser: 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  resourceType: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+  schema: 'urn:ietf:params:scim:schemas:core:2.0:Schema'
+} as const
+
+const EMPLOYEE_LEVELS: EmployeeProfile['level'][] = ['entry', 'mid', 'senior', 'lead', 'manager', 'director']
+const DEFAULT_PAGE_SIZE = 100
+const MAX_PAGE_SIZE = 200
+const MAX_IMPORT_ROWS = 10000
+const TOKEN_PREFIX = 'scim_'
+
+// The attributes this provider understands; anything else in a request is accepted and ignored
+const USER_ATTRIBUTES = [
+  { name: 'userName', type: 'string', required: true, uniqueness: 'server', caseExact: false },
+  { name: 'name', type: 'complex', subAttributes: ['formatted', 'givenName', 'familyName'] },
+  { name: 'displayName', type: 'string' },
+  { name: 'emails', type: 'complex', multiValued: true, subAttributes: ['value', 'type', 'primary'] },
+  { name: 'title', type: 'string', description: 'Job role; drives role-based enrollment rules' },
+  { name: 'userType', type: 'string', description: `Seniority level: ${EMPLOYEE_LEVELS.join(', ')}` },
+  { name: 'timezone', type: 'string' },
+  { name: 'preferredLanguage', type: 'string' },
+  { name: 'active', type: 'boolean' }
+]
+const ENTERPRISE_USER_ATTRIBUTES = [
+  { name: 'department', type: 'string' },
+  { name: 'manager', type: 'complex', subAttributes: ['value', 'displayName'] },
+  { name: 'employeeNumber', type: 'string' }
+]
+const GROUP_ATTRIBUTES = [
+  { name: 'displayName', type: 'string', required: true, uniqueness: 'server', description: 'Department name' },
+  { name: 'members', type: 'complex', multiValued: true, subAttributes: ['value', 'display'] }
+]
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+// `%` and `_` in an IdP-supplied email would otherwise match other people's addresses
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, char => `\\${char}`)
+}
+
+function sameInstant(a: Date, b: Date): boolean {
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+function isLevel(value: unknown): value is EmployeeProfile['level'] {
+  return typeof value === 'string' && (EMPLOYEE_LEVELS as string[]).includes(value)
+}
+
+// Profile fields that differ from `fields`; `manager` present but undefined clears the manager
+function changedFields(existing: EmployeeProfile, fields: ProvisionedEmployee): Partial<EmployeeProfile> {
+  const changes: Partial<EmployeeProfile> = {}
+  for (const [key, value] of Object.entries(fields) as [keyof ProvisionedEmployee, any][]) {
+    if (key === 'active') continue
+    if (value === undefined && key !== 'manager') continue
+    const current = existing[key]
+    const same = value instanceof Date && current ? sameInstant(value, current as Date) : current === value
+    if (!same) (changes as Record<string, any>)[key] = value
+  }
+  return changes
+}
+
+// Only `attr eq "value"` on the given attributes; that is all the major identity providers send
+function parseFilter(filter: string | null | undefined, attributes: string[]): { attribute: string; value: string } | null {
+  if (!filter) return null
+  const match = filter.trim().match(/^([\w.:]+)\s+eq\s+"((?:[^"\\]|\\.)*)"$/i)
+  if (!match) {
+    throw new ScimError(`Unsupported filter: ${filter}`, 400, 'invalidFilter')
+  }
+  const attribute = match[1].toLowerCase()
+  if (!attributes.includes(attribute)) {
+    throw new ScimError(`Filtering on ${match[1]} is not supported`, 400, 'invalidFilter')
+  }
+  return { attribute, value: match[2].replace(/\\(.)/g, '$1') }
+}
+
+function paginate(resources: Record<string, any>[], startIndex?: number, count?: number): ScimListResponse {
+  const start = Math.max(1, Math.floor(startIndex || 1))
+  const size = Math.min(MAX_PAGE_SIZE, Math.max(0, Math.floor(count ?? DEFAULT_PAGE_SIZE)))
+  const page = resources.slice(start - 1, start - 1 + size)
+  return {
+    schemas: [SCIM_SCHEMAS.listResponse],
+    totalResults: resources.length,
+    startIndex: start,
+    itemsPerPage: page.length,
+    Resources: page
+  }
+}
+
+// CSV headers are matched loosely: "Manager Email", "manager-email" and "manager_email" are the same column
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+// ==================================================================
+// PROVISIONING SERVICE
+// ==================================================================
+
+class HrisProvisioningService {
+  private store = new EngineStateStore('hris_provisioning')
+  private tokens: Map<string, ScimToken> = this.store.map('scim_tokens')
+  private users: Map<string, ScimUserRecord> = this.store.map('scim_users')
+  private groups: Map<string, ScimGroupRecord> = this.store.map('scim_groups')
+
+  async hydrate(): Promise<void> {
+    await Promise.all([this.store.hydrate(), corporateTrainingEngine.hydrate()])
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([this.store.flush(), corporateTrainingEngine.flush()])
+  }
+
+  // Bearer tokens
+  /**
+   * Issue a bearer token for a company's identity provider. The token itself is returned only here;
+   * only its hash is kept.
+   */
+  createToken(companyId: string, name: string): { token: string; summary: ScimTokenSummary } {
+    if (!corporateTrainingEngine.getCompanyProfile(companyId)) {
+      throw new ScimError('Company not found', 404)
+    }
+
+    const token = `${TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`
+    const record: ScimToken = {
+      tokenId: randomUUID(),
+      companyId,
+      name: name || 'SCIM token',
+      prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      tokenHash: hashToken(token),
+      createdAt: new Date()
+    }
+    this.tokens.set(record.tokenId, record)
+    return { token, summary: this.summarizeToken(record) }
+  }
+
+  listTokens(companyId: string): ScimTokenSummary[] {
+    return Array.from(this.tokens.values())
+      .filter(token => token.companyId === companyId)
+      .map(token => this.summarizeToken(token))
+  }
+
+  revokeToken(companyId: string, tokenId: string): ScimTokenSummary | null {
+    const token = this.tokens.get(tokenId)
+    if (!token || token.companyId !== companyId) return null
+    const revoked = { ...token, revokedAt: token.revokedAt || new Date() }
+    this.tokens.set(tokenId, revoked)
+    return this.summarizeToken(revoked)
+  }
+
+  // Resolves the company a SCIM request acts for
+  authenticate(authorization: string | null): string {
+    const token = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+    if (!token) {
+      throw new ScimError('Missing bearer token', 401)
+    }
+
+    const hash = Buffer.from(hashToken(token))
+    const record = Array.from(this.tokens.values())
+      .find(candidate => !candidate.revokedAt && timingSafeEqual(Buffer.from(candidate.tokenHash), hash))
+    if (!record) {
+      throw new ScimError('Invalid or revoked bearer token', 401)
+    }
+
+    this.tokens.set(record.tokenId, { ...record, lastUsedAt: new Date() })
+    return record.companyId
+  }
+
+  // Users
+  listUsers(companyId: string, baseUrl: string, query: { filter?: string | null; startIndex?: number; count?: number } = {}): ScimListResponse {
+    const filter = parseFilter(query.filter, ['username', 'externalid', 'id', 'emails', 'emails.value'])
+    const users = this.scimEmployees(companyId).filter(({ employee, record }) => {
+      if (!filter) return true
+      const value = filter.value.toLowerCase()
+      switch (filter.attribute) {
+        case 'username': return record.userName.toLowerCase() === value
+        case 'externalid': return employee.externalId === filter.value
+        case 'id': return employee.employeeId === filter.value
+        default: return employee.email.toLowerCase() === value
+      }
+    })
+    return paginate(users.map(({ employee, record }) => this.toScimUser(employee, record, baseUrl)), query.startIndex, query.count)
+  }
+
+  getUser(companyId: string, userId: string, baseUrl: string): Record<string, any> {
+    const { employee, record } = this.requireUser(companyId, userId)
+    return this.toScimUser(employee, record, baseUrl)
+  }
+
+  async createUser(companyId: string, resource: Record<string, any>, baseUrl: string): Promise<Record<string, any>> {
+    const fields = this.fromScimUser(resource)
+    const userName = String(resource.userName || '').trim()
+    if (!userName) {
+      throw new ScimError('userName is required', 400, 'invalidValue')
+    }
+    if (this.findUserByUserName(companyId, userName)) {
+      throw new ScimError(`A user with userName ${userName} already exists`, 409, 'uniqueness')
+    }
+
+    // Someone DELETEd earlier and provisioned again gets their old profile and history back
+    const existing = this.findEmployee(companyId, { externalId: fields.externalId, email: fields.email })
+    if (!existing && !fields.name) {
+      throw new ScimError('name or displayName is required', 400, 'invalidValue')
+    }
+    const employeeId = existing?.employeeId || await this.resolveEmployeeId(companyId, fields.email!)
+    this.validateManager(companyId, employeeId, fields.manager)
+
+    const employee = await this.saveEmployee(companyId, employeeId, existing, { ...fields, active: fields.active ?? true })
+    const record = this.saveUserRecord(companyId, employeeId, userName)
+    return this.toScimUser(employee, record, baseUrl)
+  }
+
+  // PUT replaces every attribute this provider maps; a missing manager clears the reporting line
+  async replaceUser(companyId: string, userId: string, resource: Record<string, any>, baseUrl: string): Promise<Record<string, any>> {
+    const { employee, record } = this.requireUser(companyId, userId)
+    const userName = String(resource.userName || record.userName).trim()
+    const duplicate = this.findUserByUserName(companyId, userName)
+    if (duplicate && duplicate.employeeId !== userId) {
+      throw new ScimError(`A user with userName ${userName} already exists`, 409, 'uniqueness')
+    }
+
+    const fields = this.fromScimUser(resource)
+    this.validateManager(companyId, userId, fields.manager)
+    const updated = await this.saveEmployee(companyId, userId, employee, fields)
+    return this.toScimUser(updated, this.saveUserRecord(companyId, userId, userName), baseUrl)
+  }
+
+  async patchUser(companyId: string, userId: string, patch: { Operations?: ScimPatchOperation[] }, baseUrl: string): Promise<Record<string, any>> {
+    const { employee, record } = this.requireUser(companyId, userId)
+    const original = this.toScimUser(employee, record, baseUrl)
+    const resource = this.applyPatch(original, patch, SCIM_SCHEMAS.enterpriseUser)
+    // name.formatted is read first; a rename through givenName/familyName or displayName alone must not be masked by it
+    if (resource.name?.formatted === original.name.formatted) {
+      const partsChanged = resource.name?.givenName !== original.name.givenName || resource.name?.familyName !== original.name.familyName
+      const renamed = partsChanged
+        ? [resource.name?.givenName, resource.name?.familyName].filter(Boolean).join(' ')
+        : resource.displayName !== original.displayName ? resource.displayName : undefined
+      if (renamed) resource.name = { ...resource.name, formatted: renamed }
+    }
+    return this.replaceUser(companyId, userId, resource, baseUrl)
+  }
+
+  async deleteUser(companyId: string, userId: string): Promise<void> {
+    const { record } = this.requireUser(companyId, userId)
+    await corporateTrainingEngine.deactivateEmployee(userId)
+    this.users.set(userId, { ...record, deletedAt: new Date(), updatedAt: new Date() })
+  }
+
+  // Groups
+  listGroups(companyId: string, baseUrl: string, query: { filter?: string | null; startIndex?: number; count?: number; excludedAttributes?: string | null } = {}): ScimListResponse {
+    const filter = parseFilter(query.filter, ['displayname', 'externalid', 'id'])
+    const groups = this.companyGroups(companyId).filter(group => {
+      if (!filter) return true
+      switch (filter.attribute) {
+        case 'displayname': return group.displayName.toLowerCase() === filter.value.toLowerCase()
+        case 'externalid': return group.externalId === filter.value
+        default: return group.groupId === filter.value
+      }
+    })
+    // Identity providers page through groups with excludedAttributes=members; large departments make that worthwhile
+    const withMembers = !query.excludedAttributes?.split(',').some(attribute => attribute.trim() === 'members')
+    return paginate(groups.map(group => this.toScimGroup(group, baseUrl, withMembers)), query.startIndex, query.count)
+  }
+
+  getGroup(companyId: string, groupId: string, baseUrl: string): Record<string, any> {
+    return this.toScimGroup(this.requireGroup(companyId, groupId), baseUrl)
+  }
+
+  async createGroup(companyId: string, resource: Record<string, any>, baseUrl: string): Promise<Record<string, any>> {
+    const displayName = String(resource.displayName || '').trim()
+    if (!displayName) {
+      throw new ScimError('displayName is required', 400, 'invalidValue')
+    }
+    if (this.findGroup(companyId, displayName)) {
+      throw new ScimError(`A group named ${displayName} already exists`, 409, 'uniqueness')
+    }
+
+    const group = this.ensureGroup(companyId, displayName, resource.externalId)
+    await this.setGroupMembers(companyId, group, this.memberIds(resource.members))
+    return this.toScimGroup(group, baseUrl)
+  }
+
+  async replaceGroup(companyId: string, groupId: string, resource: Record<string, any>, baseUrl: string): Promise<Record<string, any>> {
+    const group = this.requireGroup(companyId, groupId)
+    const renamed = await this.renameGroup(companyId, group, String(resource.displayName || group.displayName).trim(), resource.externalId)
+    if (resource.members !== undefined) {
+      await this.setGroupMembers(companyId, renamed, this.memberIds(resource.members))
+    }
+    return this.toScimGroup(renamed, baseUrl)
+  }
+
+  async patchGroup(companyId: string, groupId: string, patch: { Operations?: ScimPatchOperation[] }, baseUrl: string): Promise<Record<string, any>> {
+    const group = this.requireGroup(companyId, groupId)
+    const resource = this.applyPatch(this.toScimGroup(group, baseUrl), patch)
+    return this.replaceGroup(companyId, groupId, { ...resource, members: resource.members || [] }, baseUrl)
+  }
+
+  // Members keep their profiles but leave the department
+  async deleteGroup(companyId: string, groupId: string): Promise<void> {
+    const group = this.requireGroup(companyId, groupId)
+    await this.setGroupMembers(companyId, group, [])
+    this.groups.delete(groupId)
+  }
+
+  // Discovery
+  getServiceProviderConfig(baseUrl: string): Record<string, any> {
+    return {
+      schemas: [SCIM_SCHEMAS.serviceProviderConfig],
+      documentationUri: `${baseUrl}/ServiceProviderConfig`,
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [{
+        type: 'oauthbearertoken',
+        name: 'OAuth Bearer Token',
+        description: 'A per-company token created with the create_scim_token action of /api/corporate-training',
+        primary: true
+      }],
+      meta: { resourceType: 'ServiceProviderConfig', location: `${baseUrl}/ServiceProviderConfig` }
+    }
+  }
+
+  getResourceTypes(baseUrl: string): Record<string, any>[] {
+    return [
+      {
+        schemas: [SCIM_SCHEMAS.resourceType],
+        id: 'User',
+        name: 'User',
+        endpoint: '/Users',
+        description: 'Employee',
+        schema: SCIM_SCHEMAS.user,
+        schemaExtensions: [{ schema: SCIM_SCHEMAS.enterpriseUser, required: false }],
+        meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/User` }
+      },
+      {
+        schemas: [SCIM_SCHEMAS.resourceType],
+        id: 'Group',
+        name: 'Group',
+        endpoint: '/Groups',
+        description: 'Department',
+        schema: SCIM_SCHEMAS.group,
+        meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/Group` }
+      }
+    ]
+  }
+
+  getSchemas(baseUrl: string): Record<string, any>[] {
+    const schema = (id: string, name: string, attributes: Record<string, any>[]) => ({
+      schemas: [SCIM_SCHEMAS.schema],
+      id,
+      name,
+      attributes: attributes.map(({ subAttributes, ...attribute }) => ({
+        multiValued: false,
+        required: false,
+        mutability: 'readWrite',
+        returned: 'default',
+        ...attribute,
+        ...(subAttributes ? { subAttributes: subAttributes.map((subName: string) => ({ name: subName, type: subName === 'primary' ? 'boolean' : 'string' })) } : {})
+      })),
+      meta: { resourceType: 'Schema', location: `${baseUrl}/Schemas/${id}` }
+    })
+    return [
+      schema(SCIM_SCHEMAS.user, 'User', USER_ATTRIBUTES),
+      schema(SCIM_SCHEMAS.enterpriseUser, 'EnterpriseUser', ENTERPRISE_USER_ATTRIBUTES),
+      schema(SCIM_SCHEMAS.group, 'Group', GROUP_ATTRIBUTES)
+    ]
+  }
+
+  // CSV import
+  /**
+   * Create, update and deactivate a company's employees from an HR export. One row per employee with
+   * an `email` column; optional columns are employee_id (the HR system's id), name or first_name and
+   * last_name, department, role, level, manager_email or manager_id, start_date, timezone, language and
+   * active. Managers may appear anywhere in the file. With dryRun nothing is written; the result says
+   * what would happen.
+   */
+  async importEmployeesCsv(
+    companyId: string,
+    csv: string,
+    options: { dryRun?: boolean; deactivateMissing?: boolean; delimiter?: string } = {}
+  ): Promise<EmployeeImportResult> {
+    if (!corporateTrainingEngine.getCompanyProfile(companyId)) {
+      throw new ScimError('Company not found', 404)
+    }
+
+    const [header, ...dataRows] = parseDelimited(csv, options.delimiter || ',')
+    if (!header) {
+      throw new ScimError('The file is empty', 400, 'invalidValue')
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      throw new ScimError(`Import at most ${MAX_IMPORT_ROWS} rows at a time`, 413, 'tooMany')
+    }
+    const columns = header.map(normalizeHeader)
+    if (!columns.includes('email')) {
+      throw new ScimError('The file needs an email column', 400, 'invalidValue')
+    }
+
+    const results: EmployeeImportRowResult[] = []
+    const planned: {
+      result: EmployeeImportRowResult
+      existing?: EmployeeProfile
+      fields: ProvisionedEmployee
+      manager?: { email?: string; id?: string }
+    }[] = []
+    const plannedByEmail = new Map<string, string>()
+    const plannedByExternalId = new Map<string, string>()
+
+    // Pass 1: validate rows and decide who each one is
+    for (const [index, cells] of dataRows.entries()) {
+      const value = (column: string) => {
+        const position = columns.indexOf(column)
+        return position >= 0 ? cells[position]?.trim() || undefined : undefined
+      }
+      const result: EmployeeImportRowResult = { row: index + 1, status: 'unchanged', email: value('email')?.toLowerCase() }
+      results.push(result)
+
+      try {
+        const fields = this.fieldsFromCsvRow(value)
+        if (plannedByEmail.has(fields.email!)) {
+          throw new Error(`${fields.email} appears more than once`)
+        }
+
+        const existing = this.findEmployee(companyId, { externalId: fields.externalId, email: fields.email })
+        if (!existing && !fields.name) {
+          throw new Error('New employees need a name')
+        }
+        result.employeeId = existing?.employeeId || await this.resolveEmployeeId(companyId, fields.email!)
+
+        plannedByEmail.set(fields.email!, result.employeeId)
+        if (fields.externalId) plannedByExternalId.set(fields.externalId, result.employeeId)
+        const managerEmail = value('manager_email')?.toLowerCase()
+        const managerId = value('manager_id') || value('manager_employee_id')
+        planned.push({
+          result,
+          existing,
+          fields,
+          manager: managerEmail || managerId ? { email: managerEmail, id: managerId } : undefined
+        })
+      } catch (error) {
+        result.status = 'error'
+        result.error = error instanceof Error ? error.message : 'Invalid row'
+      }
+    }
+
+    // Pass 2: managers, who may be later in the file or already provisioned
+    for (const entry of planned) {
+      if (!entry.manager) continue
+      const { email, id } = entry.manager
+      const managerId = (email && (plannedByEmail.get(email) || this.findEmployee(companyId, { email })?.employeeId)) ||
+        (id && (plannedByExternalId.get(id) || this.findEmployee(companyId, { externalId: id })?.employeeId ||
+          (corporateTrainingEngine.getEmployeeProfile(id)?.companyId === companyId ? id : undefined)))
+
+      if (!managerId) {
+        entry.result.warning = `Manager ${email || id} was not found; the reporting line is unchanged`
+      } else if (managerId === entry.result.employeeId) {
+        entry.result.warning = 'An employee cannot manage themselves; the reporting line is unchanged'
+      } else {
+        entry.fields.manager = managerId
+      }
+    }
+
+    for (const entry of planned) {
+      const { result, existing, fields } = entry
+      if (!existing) {
+        result.status = 'created'
+      } else if (fields.active === false && existing.active !== false) {
+        result.status = 'deactivated'
+      } else {
+        const reactivated = fields.active !== false && existing.active === false
+        result.status = reactivated || Object.keys(changedFields(existing, fields)).length > 0 ? 'updated' : 'unchanged'
+      }
+    }
+
+    const listed = new Set(planned.map(entry => entry.result.employeeId))
+    const deactivatedMissing = options.deactivateMissing
+      ? corporateTrainingEngine.getEmployeesByCompany(companyId)
+        .filter(employee => !listed.has(employee.employeeId))
+        .map(employee => employee.employeeId)
+      : []
+
+    if (!options.dryRun) {
+      // Everyone exists before reporting lines are drawn, so a manager later in the file is never missing
+      for (const { result, existing, fields } of planned) {
+        const { manager, ...withoutManager } = fields
+        if (result.status === 'unchanged' && !manager) continue
+        await this.saveEmployee(companyId, result.employeeId!, existing, withoutManager)
+      }
+      for (const { result, fields } of planned) {
+        if (!fields.manager) continue
+        try {
+          this.validateManager(companyId, result.employeeId!, fields.manager)
+        } catch (error) {
+          result.warning = `${(error as Error).message}; the reporting line is unchanged`
+          continue
+        }
+        const employee = corporateTrainingEngine.getEmployeeProfile(result.employeeId!)!
+        if (employee.manager !== fields.manager) {
+          await corporateTrainingEngine.updateEmployeeProfile(result.employeeId!, { manager: fields.manager })
+          if (result.status === 'unchanged') result.status = 'updated'
+        }
+      }
+      for (const employeeId of deactivatedMissing) {
+        await corporateTrainingEngine.deactivateEmployee(employeeId)
+      }
+    }
+
+    const count = (status: EmployeeImportRowResult['status']) => results.filter(result => result.status === status).length
+    return {
+      dryRun: !!options.dryRun,
+      created: count('created'),
+      updated: count('updated'),
+      unchanged: count('unchanged'),
+      deactivated: count('deactivated') + deactivatedMissing.length,
+      errors: count('error'),
+      rows: results,
+      deactivatedMissing
+    }
+  }
+
+  // ==================================================================
+  // PRIVATE HELPERS
+  // ==================================================================
+
+  private summarizeToken({ tokenHash, ...summary }: ScimToken): ScimTokenSummary {
+    return summary
+  }
+
+  private scimEmployees(companyId: string): { employee: EmployeeProfile; record: ScimUserRecord }[] {
+    return corporateTrainingEngine.getEmployeesByCompany(companyId, { includeInactive: true })
+      .map(employee => ({ employee, record: this.users.get(employee.employeeId) || this.implicitRecord(employee) }))
+      .filter(({ record }) => !record.deletedAt)
+  }
+
+  // Employees created through the API or CSV before the company turned SCIM on are provisioned by email
+  private implicitRecord(employee: EmployeeProfile): ScimUserRecord {
+    const createdAt = new Date(employee.startDate)
+    return { employeeId: employee.employeeId, companyId: employee.companyId, userName: employee.email, createdAt, updatedAt: createdAt }
+  }
+
+  private requireUser(companyId: string, userId: string): { employee: EmployeeProfile; record: ScimUserRecord } {
+    const employee = corporateTrainingEngine.getEmployeeProfile(userId)
+    const record = employee && (this.users.get(userId) || this.implicitRecord(employee))
+    if (!employee || employee.companyId !== companyId || !record || record.deletedAt) {
+      throw new ScimError(`User ${userId} not found`, 404)
+    }
+    return { employee, record }
+  }
+
+  private findUserByUserName(companyId: string, userName: string): EmployeeProfile | null {
+    const wanted = userName.toLowerCase()
+    return this.scimEmployees(companyId).find(({ record }) => record.userName.toLowerCase() === wanted)?.employee || null
+  }
+
+  private saveUserRecord(companyId: string, employeeId: string, userName: string): ScimUserRecord {
+    const existing = this.users.get(employeeId)
+    const record: ScimUserRecord = {
+      employeeId,
+      companyId,
+      userName,
+      createdAt: existing && !existing.deletedAt ? existing.createdAt : new Date(),
+      updatedAt: new Date()
+    }
+    this.users.set(employeeId, record)
+    return record
+  }
+
+  // The HR system's id wins over email, which people change when they marry or move
+  private findEmployee(companyId: string, keys: { externalId?: string; email?: string }): EmployeeProfile | undefined {
+    const employees = corporateTrainingEngine.getEmployeesByCompany(companyId, { includeInactive: true })
+    return (keys.externalId ? employees.find(employee => employee.externalId === keys.externalId) : undefined) ||
+      (keys.email ? employees.find(employee => employee.email.toLowerCase() === keys.email!.toLowerCase()) : undefined)
+  }
+
+  /**
+   * Employee ids are platform user ids, so employees who already have an account see their training on
+   * sign-in. Only accounts on the company's verified email domains are linked: an HR system speaks for its
+   * own addresses, not anyone else's. Others get a fresh id.
+   */
+  private async resolveEmployeeId(companyId: string, email: string): Promise<string> {
+    const domain = email.split('@').pop()!.toLowerCase()
+    const verifiedDomains = corporateTrainingEngine.getCompanyProfile(companyId)?.verifiedEmailDomains || []
+    let userId: string | undefined
+    if (process.env.SUPABASE_SERVICE_ROLE_KEY && verifiedDomains.some(verified => verified.toLowerCase() === domain)) {
+      // Loaded lazily so provisioning works without Supabase credentials (tests, local development)
+      const { supabaseAdmin } = await import('./supabase')
+      // ILIKE with its wildcards escaped is an exact, case-insensitive comparison
+      const { data } = await supabaseAdmin.from('profiles').select('id').ilike('email', escapeLikePattern(email)).maybeSingle()
+      userId = data?.id
+    }
+
+    if (!userId) return randomUUID()
+    const elsewhere = corporateTrainingEngine.getEmployeeProfile(userId)
+    if (elsewhere && elsewhere.companyId !== companyId) {
+      throw new ScimError(`${email} is an employee of another company`, 409, 'uniqueness')
+    }
+    return userId
+  }
+
+  private validateManager(companyId: string, employeeId: string, managerId: string | undefined): void {
+    if (!managerId) return
+    const manager = corporateTrainingEngine.getEmployeeProfile(managerId)
+    if (!manager || manager.companyId !== companyId) {
+      throw new ScimError(`Manager ${managerId} not found`, 400, 'invalidValue')
+    }
+
+    // Walk up from the new manager; reaching the employee would make a loop in the reporting line
+    const seen = new Set<string>()
+    for (let current: EmployeeProfile | null = manager; current; current = current.manager ? corporateTrainingEngine.getEmployeeProfile(current.manager) : null) {
+      if (current.employeeId === employeeId) {
+        throw new ScimError('The manager reports to this employee', 400, 'invalidValue')
+      }
+      if (seen.has(current.employeeId)) break
+      seen.add(current.employeeId)
+    }
+  }
+
+  private async saveEmployee(
+    companyId: string,
+    employeeId: string,
+    existing: EmployeeProfile | undefined,
+    fields: ProvisionedEmployee
+  ): Promise<EmployeeProfile> {
+    let employee: EmployeeProfile
+    if (!existing) {
+      employee = await corporateTrainingEngine.createEmployeeProfile({
+        employeeId,
+        companyId,
+        name: fields.name!,
+        email: fields.email!,
+        department: fields.department || '',
+        role: fields.role || '',
+        level: fields.level || 'mid',
+        startDate: fields.startDate || new Date(),
+        manager: fields.manager,
+        directReports: [],
+        skills: [],
+        certifications: [],
+        learningGoals: [],
+        timezone: fields.timezone || 'UTC',
+        preferredLanguage: fields.preferredLanguage || 'en',
+        externalId: fields.externalId,
+        active: fields.active !== false,
+        ...(fields.active === false ? { deactivatedAt: new Date() } : {})
+      })
+    } else {
+      const changes = changedFields(existing, fields)
+      if (fields.active !== false && existing.active === false) {
+        Object.assign(changes, { active: true, deactivatedAt: undefined })
+      }
+      employee = Object.keys(changes).length > 0
+        ? (await corporateTrainingEngine.updateEmployeeProfile(employeeId, changes))!
+        : existing
+      if (fields.active === false && existing.active !== false) {
+        employee = (await corporateTrainingEngine.deactivateEmployee(employeeId))!
+      }
+    }
+
+    if (employee.department) this.ensureGroup(companyId, employee.department)
+    return employee
+  }
+
+  private fromScimUser(resource: Record<string, any>): ProvisionedEmployee {
+    if (!resource || typeof resource !== 'object') {
+      throw new ScimError('Request body must be a SCIM User', 400, 'invalidSyntax')
+    }
+
+    const enterprise = resource[SCIM_SCHEMAS.enterpriseUser] || {}
+    const emails: { value?: string; primary?: boolean }[] = Array.isArray(resource.emails) ? resource.emails : []
+    const email = (emails.find(entry => entry.primary)?.value || emails[0]?.value || resource.userName || '').trim().toLowerCase()
+    if (!email) {
+      throw new ScimError('userName or emails is required', 400, 'invalidValue')
+    }
+
+    const name = resource.name?.formatted ||
+      [resource.name?.givenName, resource.name?.familyName].filter(Boolean).join(' ') ||
+      resource.displayName
+    const userType = typeof resource.userType === 'string' ? resource.userType.toLowerCase() : undefined
+    const manager = typeof enterprise.manager === 'string' ? enterprise.manager : enterprise.manager?.value
+
+    return {
+      email,
+      name: name || undefined,
+      role: resource.title || undefined,
+      level: isLevel(userType) ? userType : undefined,
+      department: enterprise.department || undefined,
+      manager: manager || undefined,
+      externalId: resource.externalId || enterprise.employeeNumber || undefined,
+      timezone: resource.timezone || undefined,
+      preferredLanguage: resource.preferredLanguage || undefined,
+      active: resource.active === undefined ? undefined : resource.active !== false && resource.active !== 'false'
+    }
+  }
+
+  private toScimUser(employee: EmployeeProfile, record: ScimUserRecord, baseUrl: string): Record<string, any> {
+    const manager = employee.manager ? corporateTrainingEngine.getEmployeeProfile(employee.manager) : null
+    // Profiles keep one name; the split is a best guess for identity providers that edit the parts
+    const [givenName, ...familyNames] = employee.name.split(' ')
+    return {
+      schemas: [SCIM_SCHEMAS.user, SCIM_SCHEMAS.enterpriseUser],
+      id: employee.employeeId,
+      ...(employee.externalId ? { externalId: employee.externalId } : {}),
+      userName: record.userName,
+      name: { formatted: employee.name, givenName, familyName: familyNames.join(' ') },
+      displayName: employee.name,
+      emails: [{ value: employee.email, type: 'work', primary: true }],
+      ...(employee.role ? { title: employee.role } : {}),
+      userType: employee.level,
+      timezone: employee.timezone,
+      preferredLanguage: employee.preferredLanguage,
+      active: employee.active !== false,
+      [SCIM_SCHEMAS.enterpriseUser]: {
+        ...(employee.department ? { department: employee.department } : {}),
+        ...(manager ? { manager: { value: manager.employeeId, displayName: manager.name, $ref: `${baseUrl}/Users/${manager.employeeId}` } } : {})
+      },
+      meta: {
+        resourceType: 'User',
+        created: new Date(record.createdAt).toISOString(),
+        lastModified: new Date(record.updatedAt).toISOString(),
+        location: `${baseUrl}/Users/${employee.employeeId}`
+      }
+    }
+  }
+
+  private companyGroups(companyId: string): ScimGroupRecord[] {
+    return Array.from(this.groups.values())
+      .filter(group => group.companyId === companyId)
+      .sort((a, b) => a.displayName.localeCompare(b.displayName))
+  }
+
+  private findGroup(companyId: string, displayName: string): ScimGroupRecord | undefined {
+    return this.companyGroups(companyId).find(group => group.displayName.toLowerCase() === displayName.toLowerCase())
+  }
+
+  private requireGroup(companyId: string, groupId: string): ScimGroupRecord {
+    const group = this.groups.get(groupId)
+    if (!group || group.companyId !== companyId) {
+      throw new ScimError(`Group ${groupId} not found`, 404)
+    }
+    return group
+  }
+
+  // Departments named on provisioned users become groups, so identity providers see them on their next read
+  private ensureGroup(companyId: string, displayName: string, externalId?: string): ScimGroupRecord {
+    const existing = this.findGroup(companyId, displayName)
+    if (existing) return existing
+
+    const group: ScimGroupRecord = {
+      groupId: randomUUID(),
+      companyId,
+      displayName,
+      externalId,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }
+    this.groups.set(group.groupId, group)
+    return group
+  }
+
+  private async renameGroup(companyId: string, group: ScimGroupRecord, displayName: string, externalId?: string): Promise<ScimGroupRecord> {
+    if (!displayName) {
+      throw new ScimError('displayName is required', 400, 'invalidValue')
+    }
+    const clash = this.findGroup(companyId, displayName)
+    if (clash && clash.groupId !== group.groupId) {
+      throw new ScimError(`A group named ${displayName} already exists`, 409, 'uniqueness')
+    }
+
+    if (displayName !== group.displayName) {
+      for (const member of corporateTrainingEngine.getEmployeesByDepartment(companyId, group.displayName)) {
+        await corporateTrainingEngine.updateEmployeeProfile(member.employeeId, { department: displayName })
+      }
+    }
+    const renamed = { ...group, displayName, externalId: externalId ?? group.externalId, updatedAt: new Date() }
+    this.groups.set(group.groupId, renamed)
+    return renamed
+  }
+
+  private async setGroupMembers(companyId: string, group: ScimGroupRecord, memberIds: string[]): Promise<void> {
+    const wanted = new Set(memberIds)
+    for (const memberId of wanted) {
+      const { employee } = this.requireUser(companyId, memberId)
+      if (employee.department !== group.displayName) {
+        await corporateTrainingEngine.updateEmployeeProfile(memberId, { department: group.displayName })
+      }
+    }
+    for (const member of corporateTrainingEngine.getEmployeesByDepartment(companyId, group.displayName)) {
+      if (!wanted.has(member.employeeId)) {
+        await corporateTrainingEngine.updateEmployeeProfile(member.employeeId, { department: '' })
+      }
+    }
+    this.groups.set(group.groupId, { ...group, updatedAt: new Date() })
+  }
+
+  private memberIds(members: unknown): string[] {
+    if (!Array.isArray(members)) return []
+    return members.map(member => typeof member === 'string' ? member : member?.value).filter((id): id is string => !!id)
+  }
+
+  private toScimGroup(group: ScimGroupRecord, baseUrl: string, withMembers = true): Record<string, any> {
+    const members = withMembers
+      ? corporateTrainingEngine.getEmployeesByDepartment(group.companyId, group.displayName)
+        .filter(employee => !this.users.get(employee.employeeId)?.deletedAt)
+        .map(employee => ({ value: employee.employeeId, display: employee.name, $ref: `${baseUrl}/Users/${employee.employeeId}` }))
+      : undefined
+    return {
+      schemas: [SCIM_SCHEMAS.group],
+      id: group.groupId,
+      ...(group.externalId ? { externalId: group.externalId } : {}),
+      displayName: group.displayName,
+      ...(members ? { members } : {}),
+      meta: {
+        resourceType: 'Group',
+        created: new Date(group.createdAt).toISOString(),
+        lastModified: new Date(group.updatedAt).toISOString(),
+        location: `${baseUrl}/Groups/${group.groupId}`
+      }
+    }
+  }
+
+  /**
+   * Apply PatchOp operations to a resource. Paths are attribute names, dotted sub-attributes, an
+   * extension URN prefix, `emails[type eq "work"].value` and `members[value eq "id"]`; operations without
+   * a path merge their value into the resource.
+   */
+  private applyPatch(resource: Record<string, any>, patch: { Operations?: ScimPatchOperation[] }, extension?: string): Record<string, any> {
+    if (!Array.isArray(patch?.Operations) || patch.Operations.length === 0) {
+      throw new ScimError('PatchOp needs Operations', 400, 'invalidSyntax')
+    }
+
+    const result = JSON.parse(JSON.stringify(resource))
+    for (const operation of patch.Operations) {
+      const op = String(operation.op || '').toLowerCase()
+      if (!['add', 'replace', 'remove'].includes(op)) {
+        throw new ScimError(`Unsupported patch op: ${operation.op}`, 400, 'invalidSyntax')
+      }
+
+      if (!operation.path) {
+        if (op === 'remove' || !operation.value || typeof operation.value !== 'object') {
+          throw new ScimError('A patch without a path needs an object value', 400, 'noTarget')
+        }
+        for (const [key, value] of Object.entries(operation.value)) {
+          // Entra ID sends dotted and extension-qualified keys at the top level of the value
+          this.applyPatchPath(result, op, key, value, extension)
+        }
+        continue
+      }
+      this.applyPatchPath(result, op, operation.path, operation.value, extension)
+    }
+    return result
+  }
+
+  private applyPatchPath(resource: Record<string, any>, op: string, path: string, value: any, extension?: string): void {
+    let target = resource
+    let attributePath = path
+    if (extension && path.startsWith(`${extension}:`)) {
+      target = resource[extension] = resource[extension] || {}
+      attributePath = path.slice(extension.length + 1)
+    } else if (extension && path === extension) {
+      resource[extension] = op === 'remove' ? {} : { ...(resource[extension] || {}), ...value }
+      return
+    }
+
+    const filtered = attributePath.match(/^(\w+)\[(\w+)\s+eq\s+"([^"]*)"\](?:\.(\w+))?$/i)
+    if (filtered) {
+      const [, attribute, key, expected, subAttribute] = filtered
+      const entries: Record<string, any>[] = Array.isArray(target[attribute]) ? target[attribute] : []
+      if (op === 'remove' && !subAttribute) {
+        target[attribute] = entries.filter(entry => String(entry?.[key]) !== expected)
+        return
+      }
+      const entry = entries.find(candidate => String(candidate?.[key]) === expected) || entries[0]
+      if (attribute.toLowerCase() === 'emails' && subAttribute === 'value') {
+        target.emails = op === 'remove' ? [] : [{ ...(entry || {}), value, type: expected, primary: true }]
+        return
+      }
+      throw new ScimError(`Unsupported patch path: ${path}`, 400, 'invalidPath')
+    }
+
+    const segments = attributePath.split('.')
+    const last = segments.pop()!
+    for (const segment of segments) {
+      target = target[segment] = target[segment] && typeof target[segment] === 'object' ? target[segment] : {}
+    }
+
+    if (op === 'remove') {
+      delete target[last]
+    } else if (op === 'add' && Array.isArray(target[last])) {
+      const additions = Array.isArray(value) ? value : [value]
+      const existing = new Set(target[last].map((entry: any) => JSON.stringify(entry?.value ?? entry)))
+      target[last] = [...target[last], ...additions.filter(entry => !existing.has(JSON.stringify(entry?.value ?? entry)))]
+    } else {
+      target[last] = value
+    }
+  }
+
+  private fieldsFromCsvRow(value: (column: string) => string | undefined): ProvisionedEmployee {
+    const email = value('email')?.toLowerCase()
+    if (!email || !email.includes('@')) {
+      throw new Error('A valid email is required')
+    }
+
+    const level = value('level')?.toLowerCase()
+    if (level && !isLevel(level)) {
+      throw new Error(`Unknown level "${level}"; use one of ${EMPLOYEE_LEVELS.join(', ')}`)
+    }
+
+    const startDate = value('start_date')
+    if (startDate && Number.isNaN(Date.parse(startDate))) {
+      throw new Error(`Unreadable start_date "${startDate}"`)
+    }
+
+    const active = value('active')?.toLowerCase()
+    if (active && !['true', 'false', 'yes', 'no', '1', '0', 'active', 'inactive'].includes(active)) {
+      throw new Error(`Unreadable active value "${active}"`)
+    }
+
+    return {
+      email,
+      externalId: value('employee_id') || value('external_id') || value('employee_number'),
+      name: value('name') || [value('first_name'), value('last_name')].filter(Boolean).join(' ') || undefined,
+      department: value('department'),
+      role: value('role') || value('title') || value('job_title'),
+      level: level as EmployeeProfile['level'] | undefined,
+      startDate: startDate ? new Date(startDate) : undefined,
+      timezone: value('timezone'),
+      preferredLanguage: value('language') || value('preferred_language'),
+      active: active ? ['true', 'yes', '1', 'active'].includes(active) : undefined
+    }
+  }
+}
+
+export const hrisProvisioningService = new HrisProvisioningService()
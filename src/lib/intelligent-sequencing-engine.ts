@@ -7,6 +7,7 @@ import type { DifficultyProfile, PerformancePoint } from './difficulty-engine'
 import { multiModelAI, type UseCase } from './multi-model-ai'
 import { learningStyleEngine } from './learning-style-engine'
 import { difficultyEngine } from './difficulty-engine'
+import { EngineStateStore } from './engine-repository'
 
 export interface LearningObjective {
   id: string
@@ -145,9 +146,19 @@ export interface SequencingRecommendation {
 }
 
 export class IntelligentSequencingEngine {
-  private learningPaths: Map<string, LearningPath> = new Map()
-  private knowledgeGraph: Map<string, LearningObjective> = new Map()
-  private userProgressTracking: Map<string, ProgressTracking> = new Map()
+  private store = new EngineStateStore('intelligent_sequencing')
+  private learningPaths: Map<string, LearningPath> = this.store.map('learning_paths')
+  private knowledgeGraph: Map<string, LearningObjective> = this.store.map('knowledge_graph')
+  private userProgressTracking: Map<string, ProgressTracking> = this.store.map('progress_tracking')
+
+  // Paths are built from the learner's style and difficulty profiles, which persist in their own engines
+  async hydrate(): Promise<void> {
+    await Promise.all([this.store.hydrate(), learningStyleEngine.hydrate(), difficultyEngine.hydrate()])
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([this.store.flush(), learningStyleEngine.flush(), difficultyEngine.flush()])
+  }
 
   /**
    * Generate intelligent learning path with AI-powered sequencing
@@ -1,6 +1,6 @@
 'use client'
 
-import { multiModelAI } from './multi-model-ai'
+import { multiModelAI, type AIRequest, type AITokenListener } from './multi-model-ai'
 
 // Core conversation and tutoring types
 export interface ConversationMessage {
@@ -255,7 +255,8 @@ export class IntelligentTutoringSystem {
     studentProfile: ConversationContext['studentProfile'],
     subject: string,
     learningObjectives: string[],
-    tutorPersonalityId?: string
+    tutorPersonalityId?: string,
+    onToken?: AITokenListener
   ): Promise<string> {
     const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     
@@ -290,7 +291,7 @@ export class IntelligentTutoringSystem {
     this.conversations.set(sessionId, context)
 
     // Generate opening message
-    const openingMessage = await this.generateOpeningMessage(context)
+    await this.generateOpeningMessage(context, onToken)
     
     return sessionId
   }
@@ -298,7 +299,8 @@ export class IntelligentTutoringSystem {
   // Continue conversation with student input
   async continueConversation(
     sessionId: string,
-    studentMessage: string
+    studentMessage: string,
+    onToken?: AITokenListener
   ): Promise<ConversationMessage> {
     const context = this.conversations.get(sessionId)
     if (!context) {
@@ -332,7 +334,7 @@ export class IntelligentTutoringSystem {
     const strategy = this.selectTutoringStrategy(context, assessment)
 
     // Generate tutor response
-    const tutorResponse = await this.generateTutorResponse(context, strategy, assessment)
+    const tutorResponse = await this.generateTutorResponse(context, strategy, assessment, onToken)
 
     // Add tutor response to history
     context.conversationHistory.push(tutorResponse)
@@ -345,7 +347,7 @@ export class IntelligentTutoringSystem {
   }
 
   // Generate opening message for conversation
-  private async generateOpeningMessage(context: ConversationContext): Promise<ConversationMessage> {
+  private async generateOpeningMessage(context: ConversationContext, onToken?: AITokenListener): Promise<ConversationMessage> {
     const personality = context.tutorPersonality
     const student = context.studentProfile
 
@@ -378,7 +380,7 @@ Generate a warm, welcoming opening message that:
 
 Keep it conversational and match your personality traits. The message should be 2-3 sentences.`
 
-    const response = await multiModelAI.generateContent({
+    const response = await this.generateTutorText({
       useCase: 'general_tutoring',
       userProfile: { subject: 'tutoring', level: 'expert', age_group: 'adult', use_case: 'personal' } as any,
       context: prompt,
@@ -386,7 +388,7 @@ Keep it conversational and match your personality traits. The message should be
       priority: 'medium',
       temperature: 0.7,
       maxTokens: 200
-    })
+    }, onToken)
 
     const openingMessage: ConversationMessage = {
       id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -561,7 +563,8 @@ Base your assessment on:
   private async generateTutorResponse(
     context: ConversationContext,
     strategy: TutoringStrategy,
-    assessment: LearningAssessment
+    assessment: LearningAssessment,
+    onToken?: AITokenListener
   ): Promise<ConversationMessage> {
     const personality = context.tutorPersonality
     const student = context.studentProfile
@@ -602,7 +605,7 @@ Response requirements:
 
 Generate an appropriate response:`
 
-    const response = await multiModelAI.generateContent({
+    const response = await this.generateTutorText({
       useCase: 'general_tutoring',
       userProfile: { subject: 'tutoring', level: 'expert', age_group: 'adult', use_case: 'personal' } as any,
       context: prompt,
@@ -610,7 +613,7 @@ Generate an appropriate response:`
       priority: 'medium',
       temperature: 0.7,
       maxTokens: 300
-    })
+    }, onToken)
 
     return {
       id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -628,6 +631,13 @@ Generate an appropriate response:`
     }
   }
 
+  // Tutor-facing text streams when the caller is listening for tokens
+  private generateTutorText(request: AIRequest, onToken?: AITokenListener) {
+    return onToken
+      ? multiModelAI.generateContentStream(request, onToken)
+      : multiModelAI.generateContent(request)
+  }
+
   // Select optimal tutor based on subject and student profile
   private selectOptimalTutor(
     subject: string,
@@ -1,6 +1,7 @@
 // Interactive Content Engine
 // Comprehensive system for coding exercises, simulations, and interactive activities
 import type { UserProfile, ContentItem } from '@/types'
+import { EngineStateStore } from './engine-repository'
 
 export interface InteractiveContent {
   id: string
@@ -295,8 +296,9 @@ export interface ReportingConfig {
 }
 
 export class InteractiveContentEngine {
-  private contentLibrary: Map<string, InteractiveContent> = new Map()
-  private userProgress: Map<string, UserInteractiveProgress> = new Map()
+  private store = new EngineStateStore('interactive_content')
+  private contentLibrary: Map<string, InteractiveContent> = this.store.map('content_library')
+  private userProgress: Map<string, UserInteractiveProgress> = this.store.map('user_progress')
   private adaptationEngine: InteractiveAdaptationEngine
 
   constructor() {
@@ -304,6 +306,20 @@ export class InteractiveContentEngine {
     this.initializeContentLibrary()
   }
 
+  /**
+   * Load persisted content and progress
+   */
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  /**
+   * Wait until pending state writes reach the repository
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
   /**
    * Generate adaptive interactive content based on user profile and learning context
    */
@@ -319,20 +335,38 @@ export class InteractiveContentEngine {
   ): Promise<InteractiveContent> {
     const contentType = this.selectOptimalContentType(userProfile, learningContext)
     
+    let content: InteractiveContent
     switch (contentType) {
       case 'coding_exercise':
-        return this.generateCodingExercise(userProfile, learningContext)
+        content = await this.generateCodingExercise(userProfile, learningContext)
+        break
       case 'simulation':
-        return this.generateSimulation(userProfile, learningContext)
+        content = await this.generateSimulation(userProfile, learningContext)
+        break
       case 'diagram_labeling':
-        return this.generateDiagramLabeling(userProfile, learningContext)
+        content = await this.generateDiagramLabeling(userProfile, learningContext)
+        break
       case 'drag_drop':
-        return this.generateDragDropActivity(userProfile, learningContext)
+        content = await this.generateDragDropActivity(userProfile, learningContext)
+        break
       case 'virtual_lab':
-        return this.generateVirtualLab(userProfile, learningContext)
+        content = await this.generateVirtualLab(userProfile, learningContext)
+        break
       default:
-        return this.generateCodingExercise(userProfile, learningContext)
+        content = await this.generateCodingExercise(userProfile, learningContext)
     }
+
+    // Kept so interactions, assessments and test runs are checked against the content as generated
+    this.contentLibrary.set(content.id, content)
+    return content
+  }
+
+  /**
+   * A generated coding exercise, with its hidden test cases
+   */
+  getCodingExercise(exerciseId: string): CodingExercise | null {
+    const content = this.contentLibrary.get(exerciseId)
+    return content?.type === 'coding_exercise' ? content as CodingExercise : null
   }
 
   /**
@@ -463,7 +497,7 @@ export class InteractiveContentEngine {
     const difficulty = Math.min(10, Math.max(1, context.difficulty))
     
     return {
-      id: `coding_${Date.now()}`,
+      id: `coding_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
       type: 'coding_exercise',
       title: `${userProfile.subject} Coding Challenge`,
       description: `Apply your ${userProfile.subject} knowledge through programming`,
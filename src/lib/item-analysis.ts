@@ -0,0 +1,450 @@
+// Item Analysis
+// Classical psychometrics for exam questions: p-values, point-biserial correlations, distractor analysis,
+// Cronbach's alpha, Mantel-Haenszel differential item functioning and flags for items to review or retire
+
+export interface ItemAnalysisSitting {
+  sitting_id: string
+  group?: string // learner group for DIF (e.g. language, cohort)
+  ability: number // matching criterion for adaptive sittings, which see different items and so have no comparable total score
+  responses: Array<{
+    item_id: string
+    correct: boolean
+    choice?: string // selected option id for choice items
+  }>
+}
+
+export interface ItemAnalysisItem {
+  item_id: string
+  options?: Array<{ option_id: string; is_correct: boolean }>
+  exposure_rate?: number
+}
+
+export interface ItemAnalysisOptions {
+  reference_group?: string // defaults to the largest group
+  max_exposure_rate?: number
+  min_responses?: number
+}
+
+export type ItemFlag =
+  | 'insufficient_data'
+  | 'too_easy'
+  | 'too_hard'
+  | 'low_discrimination'
+  | 'negative_discrimination'
+  | 'possible_miskey'
+  | 'nonfunctioning_distractors'
+  | 'reduces_reliability'
+  | 'dif'
+  | 'overexposed'
+
+export interface DistractorStatistics {
+  option_id: string
+  is_key: boolean
+  count: number
+  proportion: number
+  upper_proportion: number // share of the top 27% on the matching criterion choosing this option
+  lower_proportion: number // ... and of the bottom 27%
+  discrimination: number // upper minus lower, should be negative for distractors
+  point_biserial: number
+}
+
+export interface DifStatistics {
+  focal_group: string
+  reference_group: string
+  focal_count: number
+  reference_count: number
+  odds_ratio: number // Mantel-Haenszel common odds ratio, > 1 favours the reference group
+  delta: number // ETS delta scale, -2.35 ln(odds ratio)
+  chi_square: number
+  p_value: number
+  classification: 'A' | 'B' | 'C' // ETS: negligible, moderate, large
+}
+
+export interface ItemStatistics {
+  item_id: string
+  responses: number
+  p_value: number // proportion correct
+  point_biserial: number // item score against the rest score (fixed forms) or ability (adaptive)
+  alpha_if_deleted: number | null
+  exposure_rate?: number
+  distractors: DistractorStatistics[]
+  dif: DifStatistics[]
+  flags: ItemFlag[]
+  recommendation: 'keep' | 'review' | 'retire'
+}
+
+export interface ItemAnalysisReport {
+  generated_at: Date
+  sittings: number
+  reference_group: string | null
+  groups: Array<{ group: string; sittings: number }>
+  reliability: {
+    cronbach_alpha: number | null
+    method: 'complete' | 'pairwise' // pairwise covariances when sittings saw different items
+    complete_sittings: number
+  }
+  items: ItemStatistics[]
+  summary: {
+    mean_p_value: number
+    mean_point_biserial: number
+    flagged_items: number
+    review_items: number
+    retire_items: number
+  }
+}
+
+export const MIN_RESPONSES_FOR_ANALYSIS = 20
+const MIN_DIF_GROUP_SIZE = 10
+const EXTREME_GROUP_SHARE = 0.27
+const DIF_STRATUM_WIDTH = 0.5 // logits
+
+const P_VALUE_BOUNDS = { too_hard: 0.1, too_easy: 0.95 }
+const LOW_DISCRIMINATION = 0.15
+const NONFUNCTIONING_DISTRACTOR = 0.05
+const RELIABILITY_GAIN = 0.01
+
+interface ResponseRow {
+  correct: boolean
+  choice?: string
+  criterion: number // rest score or ability
+  stratum: number // DIF matching stratum
+  group?: string
+}
+
+// ==================================================================
+// STATISTICS
+// ==================================================================
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length
+  if (n < 2) return 0
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY)
+    varianceX += (xs[i] - meanX) * (xs[i] - meanX)
+    varianceY += (ys[i] - meanY) * (ys[i] - meanY)
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0
+}
+
+// Complementary error function (Abramowitz & Stegun 7.1.26)
+function erfc(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x))
+  const y = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x)
+  return x >= 0 ? y : 2 - y
+}
+
+// Upper tail of the chi-square distribution with one degree of freedom
+function chiSquarePValue(chiSquare: number): number {
+  return chiSquare > 0 ? erfc(Math.sqrt(chiSquare / 2)) : 1
+}
+
+// ==================================================================
+// RELIABILITY
+// ==================================================================
+
+/**
+ * Cronbach's alpha from the mean item variance and mean inter-item covariance. With complete data this
+ * is the textbook alpha; when sittings saw different items the covariances come from pairwise-complete
+ * sittings. excludeItem gives alpha-if-item-deleted.
+ */
+function cronbachAlpha(
+  itemIds: string[],
+  scores: Map<string, Map<string, number>>,
+  excludeItem?: string
+): number | null {
+  const items = itemIds.filter(itemId => itemId !== excludeItem)
+  const k = items.length
+  if (k < 2) return null
+
+  const variances: number[] = []
+  const covariances: number[] = []
+  for (let i = 0; i < k; i++) {
+    const a = scores.get(items[i])!
+    const values = Array.from(a.values())
+    if (values.length >= 2) {
+      const m = mean(values)
+      variances.push(values.reduce((sum, value) => sum + (value - m) * (value - m), 0) / (values.length - 1))
+    }
+    for (let j = i + 1; j < k; j++) {
+      const b = scores.get(items[j])!
+      const shared = Array.from(a.keys()).filter(sittingId => b.has(sittingId))
+      if (shared.length < 2) continue
+      const xs = shared.map(sittingId => a.get(sittingId)!)
+      const ys = shared.map(sittingId => b.get(sittingId)!)
+      const mx = mean(xs)
+      const my = mean(ys)
+      covariances.push(xs.reduce((sum, x, index) => sum + (x - mx) * (ys[index] - my), 0) / (shared.length - 1))
+    }
+  }
+
+  if (variances.length === 0 || covariances.length === 0) return null
+  const meanVariance = mean(variances)
+  const meanCovariance = mean(covariances)
+  const denominator = meanVariance + (k - 1) * meanCovariance
+  return denominator > 0 ? (k * meanCovariance) / denominator : null
+}
+
+// ==================================================================
+// DIFFERENTIAL ITEM FUNCTIONING
+// ==================================================================
+
+// Mantel-Haenszel with sittings stratified on the matching criterion
+function mantelHaenszel(
+  responses: ResponseRow[],
+  focalGroup: string,
+  referenceGroup: string
+): DifStatistics | null {
+  const strata = new Map<number, { a: number; b: number; c: number; d: number }>()
+  let focalCount = 0
+  let referenceCount = 0
+  for (const response of responses) {
+    const isReference = response.group === referenceGroup
+    if (!isReference && response.group !== focalGroup) continue
+    if (isReference) referenceCount++
+    else focalCount++
+
+    const cell = strata.get(response.stratum) || { a: 0, b: 0, c: 0, d: 0 }
+    if (isReference) {
+      if (response.correct) cell.a++
+      else cell.b++
+    } else if (response.correct) {
+      cell.c++
+    } else {
+      cell.d++
+    }
+    strata.set(response.stratum, cell)
+  }
+
+  if (focalCount < MIN_DIF_GROUP_SIZE || referenceCount < MIN_DIF_GROUP_SIZE) return null
+
+  let numerator = 0
+  let denominator = 0
+  let observed = 0
+  let expected = 0
+  let variance = 0
+  for (const { a, b, c, d } of strata.values()) {
+    const total = a + b + c + d
+    if (total < 2) continue
+    numerator += (a * d) / total
+    denominator += (b * c) / total
+
+    const referenceTotal = a + b
+    const focalTotal = c + d
+    const correctTotal = a + c
+    const incorrectTotal = b + d
+    observed += a
+    expected += (referenceTotal * correctTotal) / total
+    variance += (referenceTotal * focalTotal * correctTotal * incorrectTotal) / (total * total * (total - 1))
+  }
+
+  if (numerator === 0 || denominator === 0 || variance === 0) return null
+
+  const oddsRatio = numerator / denominator
+  const delta = -2.35 * Math.log(oddsRatio)
+  const chiSquare = Math.pow(Math.max(0, Math.abs(observed - expected) - 0.5), 2) / variance
+  const pValue = chiSquarePValue(chiSquare)
+  const significant = pValue < 0.05
+  const classification = significant && Math.abs(delta) >= 1.5 ? 'C' : significant && Math.abs(delta) >= 1 ? 'B' : 'A'
+
+  return {
+    focal_group: focalGroup,
+    reference_group: referenceGroup,
+    focal_count: focalCount,
+    reference_count: referenceCount,
+    odds_ratio: oddsRatio,
+    delta,
+    chi_square: chiSquare,
+    p_value: pValue,
+    classification
+  }
+}
+
+// ==================================================================
+// REPORT
+// ==================================================================
+
+/**
+ * Item analysis over finished sittings. Items with fewer than min_responses responses get statistics but
+ * only the insufficient_data flag.
+ */
+export function analyzeItems(
+  items: ItemAnalysisItem[],
+  sittings: ItemAnalysisSitting[],
+  options: ItemAnalysisOptions = {}
+): ItemAnalysisReport {
+  const minResponses = options.min_responses ?? MIN_RESPONSES_FOR_ANALYSIS
+  const itemIds = items.map(item => item.item_id)
+  const wanted = new Set(itemIds)
+
+  // Item -> sitting -> score
+  const scores = new Map<string, Map<string, number>>(itemIds.map(itemId => [itemId, new Map()]))
+  for (const sitting of sittings) {
+    for (const response of sitting.responses) {
+      if (wanted.has(response.item_id)) scores.get(response.item_id)!.set(sitting.sitting_id, response.correct ? 1 : 0)
+    }
+  }
+  const analyzable = itemIds.filter(itemId => scores.get(itemId)!.size >= minResponses)
+  const complete = new Set(
+    sittings
+      .filter(sitting => analyzable.length > 0 && analyzable.every(itemId => scores.get(itemId)!.has(sitting.sitting_id)))
+      .map(sitting => sitting.sitting_id)
+  )
+  // When everyone answered the same items (a fixed form) the total score is the matching criterion and
+  // discrimination is the corrected item-rest correlation; adaptive sittings fall back to ability.
+  const useTotalScore = analyzable.length > 1 && complete.size === sittings.length
+
+  const rows = new Map<string, ResponseRow[]>(itemIds.map(itemId => [itemId, []]))
+  for (const sitting of sittings) {
+    const total = useTotalScore ? analyzable.reduce((sum, itemId) => sum + scores.get(itemId)!.get(sitting.sitting_id)!, 0) : 0
+    for (const response of sitting.responses) {
+      if (!wanted.has(response.item_id)) continue
+      const score = response.correct ? 1 : 0
+      const itemInTotal = useTotalScore && analyzable.includes(response.item_id)
+      rows.get(response.item_id)!.push({
+        correct: response.correct,
+        choice: response.choice,
+        criterion: useTotalScore ? total - (itemInTotal ? score : 0) : sitting.ability,
+        stratum: useTotalScore ? total : Math.round(sitting.ability / DIF_STRATUM_WIDTH),
+        group: sitting.group
+      })
+    }
+  }
+
+  const groupCounts = new Map<string, number>()
+  sittings.forEach(sitting => {
+    if (sitting.group) groupCounts.set(sitting.group, (groupCounts.get(sitting.group) || 0) + 1)
+  })
+  const groups = Array.from(groupCounts.entries())
+    .map(([group, count]) => ({ group, sittings: count }))
+    .sort((a, b) => b.sittings - a.sittings)
+  const referenceGroup = options.reference_group && groupCounts.has(options.reference_group)
+    ? options.reference_group
+    : groups[0]?.group || null
+
+  // A fixed form exposes every item equally, so only items above both the ceiling and the pool average count
+  const exposureRates = items.filter(item => item.exposure_rate !== undefined).map(item => item.exposure_rate!)
+  const meanExposure = mean(exposureRates)
+
+  const alpha = cronbachAlpha(analyzable, scores)
+
+  const itemStatistics: ItemStatistics[] = items.map(item => {
+    const itemRows = rows.get(item.item_id)!
+    const criteria = itemRows.map(row => row.criterion)
+    const pValue = mean(itemRows.map(row => (row.correct ? 1 : 0)))
+    const pointBiserial = correlation(itemRows.map(row => (row.correct ? 1 : 0)), criteria)
+
+    // Extreme groups on the matching criterion among this item's respondents
+    const sorted = itemRows.slice().sort((a, b) => b.criterion - a.criterion)
+    const extremeSize = Math.max(1, Math.round(sorted.length * EXTREME_GROUP_SHARE))
+    const upper = sorted.slice(0, extremeSize)
+    const lower = sorted.slice(-extremeSize)
+    const share = (group: typeof itemRows, optionId: string) =>
+      group.length > 0 ? group.filter(row => row.choice === optionId).length / group.length : 0
+
+    const distractors: DistractorStatistics[] = (item.options || []).map(option => {
+      const count = itemRows.filter(row => row.choice === option.option_id).length
+      const upperProportion = share(upper, option.option_id)
+      const lowerProportion = share(lower, option.option_id)
+      return {
+        option_id: option.option_id,
+        is_key: option.is_correct,
+        count,
+        proportion: itemRows.length > 0 ? count / itemRows.length : 0,
+        upper_proportion: upperProportion,
+        lower_proportion: lowerProportion,
+        discrimination: upperProportion - lowerProportion,
+        point_biserial: correlation(itemRows.map(row => (row.choice === option.option_id ? 1 : 0)), criteria)
+      }
+    })
+
+    const dif = referenceGroup
+      ? groups
+        .filter(({ group }) => group !== referenceGroup)
+        .map(({ group }) => mantelHaenszel(itemRows, group, referenceGroup))
+        .filter((result): result is DifStatistics => !!result)
+      : []
+
+    const alphaIfDeleted = analyzable.includes(item.item_id) ? cronbachAlpha(analyzable, scores, item.item_id) : null
+
+    const flags: ItemFlag[] = []
+    if (itemRows.length < minResponses) {
+      flags.push('insufficient_data')
+    } else {
+      if (pValue > P_VALUE_BOUNDS.too_easy) flags.push('too_easy')
+      if (pValue < P_VALUE_BOUNDS.too_hard) flags.push('too_hard')
+      if (pointBiserial < 0) flags.push('negative_discrimination')
+      else if (pointBiserial < LOW_DISCRIMINATION) flags.push('low_discrimination')
+
+      // A distractor that strong learners prefer over the key usually means the key is wrong
+      const key = distractors.find(option => option.is_key)
+      if (key && distractors.some(option => !option.is_key && option.point_biserial > Math.max(0, key.point_biserial))) {
+        flags.push('possible_miskey')
+      }
+
+      const wrongOptions = distractors.filter(option => !option.is_key)
+      const nonfunctioning = wrongOptions.filter(option => option.proportion < NONFUNCTIONING_DISTRACTOR)
+      if (wrongOptions.length > 0 && nonfunctioning.length * 2 >= wrongOptions.length) {
+        flags.push('nonfunctioning_distractors')
+      }
+
+      if (alpha !== null && alphaIfDeleted !== null && alphaIfDeleted - alpha > RELIABILITY_GAIN) {
+        flags.push('reduces_reliability')
+      }
+      if (dif.some(result => result.classification !== 'A')) flags.push('dif')
+    }
+    const exposureRate = item.exposure_rate || 0
+    if (options.max_exposure_rate !== undefined && exposureRate > options.max_exposure_rate && exposureRate > meanExposure + 1e-9) {
+      flags.push('overexposed')
+    }
+
+    // Retire items that measure the wrong thing (a miskey is fixed rather than retired), show large DIF
+    // or are both off-target and weak; any other flag asks for review
+    const retire = (flags.includes('negative_discrimination') && !flags.includes('possible_miskey')) ||
+      dif.some(result => result.classification === 'C') ||
+      (flags.includes('low_discrimination') && (flags.includes('too_easy') || flags.includes('too_hard')))
+    const review = flags.some(flag => flag !== 'insufficient_data')
+
+    return {
+      item_id: item.item_id,
+      responses: itemRows.length,
+      p_value: pValue,
+      point_biserial: pointBiserial,
+      alpha_if_deleted: alphaIfDeleted,
+      exposure_rate: item.exposure_rate,
+      distractors,
+      dif,
+      flags,
+      recommendation: retire ? 'retire' : review ? 'review' : 'keep'
+    }
+  })
+
+  const analyzed = itemStatistics.filter(item => !item.flags.includes('insufficient_data'))
+  return {
+    generated_at: new Date(),
+    sittings: sittings.length,
+    reference_group: referenceGroup,
+    groups,
+    reliability: {
+      cronbach_alpha: alpha,
+      method: complete.size === sittings.length ? 'complete' : 'pairwise',
+      complete_sittings: complete.size
+    },
+    items: itemStatistics,
+    summary: {
+      mean_p_value: mean(analyzed.map(item => item.p_value)),
+      mean_point_biserial: mean(analyzed.map(item => item.point_biserial)),
+      flagged_items: itemStatistics.filter(item => item.flags.some(flag => flag !== 'insufficient_data')).length,
+      review_items: itemStatistics.filter(item => item.recommendation === 'review').length,
+      retire_items: itemStatistics.filter(item => item.recommendation === 'retire').length
+    }
+  }
+}
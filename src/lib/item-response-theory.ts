@@ -0,0 +1,547 @@
+// Item Response Theory
+// 2PL/3PL item calibration by marginal maximum likelihood (Bock-Aitkin EM over a quadrature grid),
+// EAP ability estimation with standard errors, and maximum-information item selection with exposure control
+
+export type IrtModel = '2PL' | '3PL'
+
+// Logistic metric (D = 1): P(correct) = c + (1 - c) / (1 + exp(-a(theta - b)))
+export interface IrtItemParameters {
+  discrimination: number // a
+  difficulty: number // b, logit scale
+  guessing: number // c, lower asymptote
+}
+
+export interface IrtResponse {
+  item_id: string
+  correct: boolean
+}
+
+// One sitting: every response a single examinee gave, calibration treats unanswered items as missing
+export interface IrtResponsePattern {
+  person_id: string
+  responses: IrtResponse[]
+}
+
+export interface IrtAbilityEstimate {
+  theta: number
+  standard_error: number
+}
+
+export interface IrtCalibrationOptions {
+  model?: IrtModel
+  max_iterations?: number
+  tolerance?: number
+  min_responses?: number // items answered fewer times keep their starting parameters
+  initial_parameters?: Record<string, IrtItemParameters>
+  guessing_priors?: Record<string, number> // expected lower asymptote per item, 0 for open responses
+}
+
+export interface IrtCalibratedItem extends IrtItemParameters {
+  item_id: string
+  standard_errors: IrtItemParameters
+  responses: number
+  correct: number
+  point_biserial: number // correlation between the item score and the respondents' EAP ability
+  information_share: number // share of the test information this item contributes over the ability distribution
+  calibrated: boolean
+}
+
+export interface IrtCalibrationResult {
+  model: IrtModel
+  items: IrtCalibratedItem[]
+  abilities: Record<string, IrtAbilityEstimate>
+  ability_distribution: number[] // posterior mass on the quadrature nodes
+  quadrature_nodes: number[]
+  log_likelihood: number
+  iterations: number
+  converged: boolean
+}
+
+export interface IrtExposureControl {
+  method: 'randomesque' | 'none'
+  candidate_pool: number // pick at random among this many most informative items
+  max_exposure_rate: number // items shown to a larger share of sittings sit out
+}
+
+export interface IrtSelectionCandidate {
+  item_id: string
+  parameters: IrtItemParameters
+  exposure_rate?: number
+}
+
+export const DEFAULT_ITEM_PARAMETERS: IrtItemParameters = {
+  discrimination: 1,
+  difficulty: 0,
+  guessing: 0
+}
+
+export const DEFAULT_EXPOSURE_CONTROL: IrtExposureControl = {
+  method: 'randomesque',
+  candidate_pool: 5,
+  max_exposure_rate: 0.3
+}
+
+export const MIN_RESPONSES_PER_ITEM = 10
+// The lower asymptote is poorly identified in small samples, below this many sittings default to 2PL
+export const MIN_SITTINGS_FOR_3PL = 500
+
+const MAX_LOGIT = 4
+const CALIBRATION_QUADRATURE_POINTS = 41
+const EAP_QUADRATURE_POINTS = 81
+const PARAMETER_BOUNDS = {
+  discrimination: [0.1, 5] as [number, number],
+  difficulty: [-6, 6] as [number, number],
+  guessing: [0, 0.5] as [number, number]
+}
+
+// Bayes modal priors keep EM finite for items everyone (or no one) answers correctly
+const LOG_DISCRIMINATION_PRIOR_SD = 0.5
+const DIFFICULTY_PRIOR_SD = 2
+const GUESSING_PRIOR_WEIGHT = 20
+
+// ==================================================================
+// MODEL
+// ==================================================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+export function logistic(value: number): number {
+  return 1 / (1 + Math.exp(-value))
+}
+
+/** Proportion (0-1) to logit, clamped to the ±4 range the rest of the exam engine uses */
+export function logit(proportion: number): number {
+  const p = clamp(proportion, 0.01, 0.99)
+  return clamp(Math.log(p / (1 - p)), -MAX_LOGIT, MAX_LOGIT)
+}
+
+export function probabilityCorrect(theta: number, item: IrtItemParameters): number {
+  const p = item.guessing + (1 - item.guessing) * logistic(item.discrimination * (theta - item.difficulty))
+  return clamp(p, 1e-9, 1 - 1e-9)
+}
+
+/** Fisher information of a 3PL item at theta (2PL when guessing is 0) */
+export function itemInformation(theta: number, item: IrtItemParameters): number {
+  const p = probabilityCorrect(theta, item)
+  const ratio = (p - item.guessing) / (1 - item.guessing)
+  return item.discrimination * item.discrimination * ratio * ratio * (1 - p) / p
+}
+
+// Evenly spaced nodes over mean ± 4 sd with normal weights that sum to 1
+function quadrature(points: number, mean = 0, sd = 1): { nodes: number[]; weights: number[] } {
+  const nodes: number[] = []
+  const weights: number[] = []
+  for (let k = 0; k < points; k++) {
+    const z = -4 + (8 * k) / (points - 1)
+    nodes.push(mean + z * sd)
+    weights.push(Math.exp(-0.5 * z * z))
+  }
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  return { nodes, weights: weights.map(weight => weight / total) }
+}
+
+// ==================================================================
+// ABILITY ESTIMATION
+// ==================================================================
+
+/**
+ * Expected a posteriori ability with its posterior standard deviation as the standard error.
+ * Unlike maximum likelihood it stays finite for all-correct and all-incorrect patterns, which is
+ * every pattern at the start of an adaptive sitting.
+ */
+export function estimateAbility(
+  responses: Array<{ parameters: IrtItemParameters; correct: boolean }>,
+  prior: { mean: number; sd: number } = { mean: 0, sd: 1 }
+): IrtAbilityEstimate {
+  const { nodes, weights } = quadrature(EAP_QUADRATURE_POINTS, prior.mean, prior.sd)
+  const logPosterior = nodes.map((theta, k) => {
+    let value = Math.log(weights[k])
+    for (const response of responses) {
+      const p = probabilityCorrect(theta, response.parameters)
+      value += response.correct ? Math.log(p) : Math.log(1 - p)
+    }
+    return value
+  })
+  return summarizePosterior(nodes, normalizeLog(logPosterior))
+}
+
+function normalizeLog(logValues: number[]): number[] {
+  const max = Math.max(...logValues)
+  const values = logValues.map(value => Math.exp(value - max))
+  const total = values.reduce((sum, value) => sum + value, 0)
+  return values.map(value => value / total)
+}
+
+function summarizePosterior(nodes: number[], posterior: number[]): IrtAbilityEstimate {
+  const theta = nodes.reduce((sum, node, k) => sum + node * posterior[k], 0)
+  const variance = nodes.reduce((sum, node, k) => sum + (node - theta) * (node - theta) * posterior[k], 0)
+  return { theta, standard_error: Math.sqrt(variance) }
+}
+
+// ==================================================================
+// ITEM SELECTION
+// ==================================================================
+
+/**
+ * Maximum-information selection at the current ability estimate. Exposure control drops items
+ * already shown to more than max_exposure_rate of sittings (unless that leaves nothing) and then
+ * picks at random among the candidate_pool most informative items (randomesque).
+ */
+export function selectMaximumInformationItem(
+  theta: number,
+  candidates: IrtSelectionCandidate[],
+  control: IrtExposureControl = DEFAULT_EXPOSURE_CONTROL,
+  random: () => number = Math.random
+): { item_id: string; information: number } | null {
+  if (candidates.length === 0) return null
+
+  let eligible = candidates
+  if (control.method !== 'none') {
+    const underExposed = candidates.filter(candidate => (candidate.exposure_rate || 0) < control.max_exposure_rate)
+    if (underExposed.length > 0) eligible = underExposed
+  }
+
+  const ranked = eligible
+    .map(candidate => ({ item_id: candidate.item_id, information: itemInformation(theta, candidate.parameters) }))
+    .sort((a, b) => b.information - a.information)
+
+  const poolSize = control.method === 'randomesque' ? Math.max(1, Math.min(control.candidate_pool, ranked.length)) : 1
+  return ranked[Math.floor(random() * poolSize)]
+}
+
+// ==================================================================
+// CALIBRATION (MARGINAL MAXIMUM LIKELIHOOD)
+// ==================================================================
+
+interface ItemStatistics {
+  expected_total: number[] // expected examinees at each node who answered the item
+  expected_correct: number[] // ... and answered it correctly
+}
+
+// Parameters are optimized as [log a, b, logit c] so Newton steps stay inside the valid region
+function toVector(item: IrtItemParameters, estimateGuessing: boolean): number[] {
+  const vector = [Math.log(item.discrimination), item.difficulty]
+  if (estimateGuessing) {
+    const c = clamp(item.guessing, 0.01, PARAMETER_BOUNDS.guessing[1] - 0.01)
+    vector.push(Math.log(c / (1 - c)))
+  }
+  return vector
+}
+
+function fromVector(vector: number[], fixedGuessing: number): IrtItemParameters {
+  return {
+    discrimination: clamp(Math.exp(vector[0]), ...PARAMETER_BOUNDS.discrimination),
+    difficulty: clamp(vector[1], ...PARAMETER_BOUNDS.difficulty),
+    guessing: vector.length > 2 ? clamp(logistic(vector[2]), ...PARAMETER_BOUNDS.guessing) : fixedGuessing
+  }
+}
+
+// Expected complete-data log posterior of one item (the M-step objective)
+function itemObjective(
+  vector: number[],
+  stats: ItemStatistics,
+  nodes: number[],
+  fixedGuessing: number,
+  guessingPrior: number
+): number {
+  const item = fromVector(vector, fixedGuessing)
+  let value = 0
+  for (let k = 0; k < nodes.length; k++) {
+    if (stats.expected_total[k] <= 0) continue
+    const p = probabilityCorrect(nodes[k], item)
+    value += stats.expected_correct[k] * Math.log(p) + (stats.expected_total[k] - stats.expected_correct[k]) * Math.log(1 - p)
+  }
+
+  value -= (vector[0] * vector[0]) / (2 * LOG_DISCRIMINATION_PRIOR_SD * LOG_DISCRIMINATION_PRIOR_SD)
+  value -= (vector[1] * vector[1]) / (2 * DIFFICULTY_PRIOR_SD * DIFFICULTY_PRIOR_SD)
+  if (vector.length > 2) {
+    // Beta prior with its mode at the nominal guessing rate (1 / number of options)
+    const alpha = GUESSING_PRIOR_WEIGHT * guessingPrior + 1
+    const beta = GUESSING_PRIOR_WEIGHT * (1 - guessingPrior) + 1
+    value += (alpha - 1) * Math.log(item.guessing + 1e-9) + (beta - 1) * Math.log(1 - item.guessing)
+  }
+  return value
+}
+
+const FINITE_DIFFERENCE_STEP = 1e-4
+
+function gradient(f: (x: number[]) => number, x: number[]): number[] {
+  return x.map((_, i) => {
+    const forward = x.slice()
+    const backward = x.slice()
+    forward[i] += FINITE_DIFFERENCE_STEP
+    backward[i] -= FINITE_DIFFERENCE_STEP
+    return (f(forward) - f(backward)) / (2 * FINITE_DIFFERENCE_STEP)
+  })
+}
+
+function hessian(f: (x: number[]) => number, x: number[]): number[][] {
+  const h = FINITE_DIFFERENCE_STEP * 10
+  const shifted = (i: number, di: number, j: number, dj: number) => {
+    const point = x.slice()
+    point[i] += di
+    point[j] += dj
+    return f(point)
+  }
+  return x.map((_, i) => x.map((__, j) =>
+    (shifted(i, h, j, h) - shifted(i, h, j, -h) - shifted(i, -h, j, h) + shifted(i, -h, j, -h)) / (4 * h * h)
+  ))
+}
+
+// Gaussian elimination with partial pivoting; null when the system is singular
+function solveLinear(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length
+  const a = matrix.map((row, i) => [...row, rhs[i]])
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return null
+    ;[a[col], a[pivot]] = [a[pivot], a[col]]
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col]
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k]
+    }
+  }
+  const solution = new Array(n).fill(0)
+  for (let row = n - 1; row >= 0; row--) {
+    let value = a[row][n]
+    for (let k = row + 1; k < n; k++) value -= a[row][k] * solution[k]
+    solution[row] = value / a[row][row]
+  }
+  return solution
+}
+
+// Newton-Raphson ascent with step halving, falling back to gradient ascent where the Hessian
+// is not negative definite
+function maximize(f: (x: number[]) => number, start: number[], iterations = 20): number[] {
+  let x = start.slice()
+  let fx = f(x)
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const g = gradient(f, x)
+    const negativeHessian = hessian(f, x).map(row => row.map(value => -value))
+    let direction = solveLinear(negativeHessian, g)
+    if (!direction || direction.reduce((sum, value, i) => sum + value * g[i], 0) <= 0) {
+      const norm = Math.sqrt(g.reduce((sum, value) => sum + value * value, 0)) || 1
+      direction = g.map(value => value / norm)
+    }
+
+    let step = 1
+    let improved = false
+    while (step > 1e-4) {
+      const candidate = x.map((value, i) => value + step * direction[i])
+      const fc = f(candidate)
+      if (fc > fx) {
+        const moved = Math.max(...candidate.map((value, i) => Math.abs(value - x[i])))
+        x = candidate
+        fx = fc
+        improved = moved > 1e-6
+        break
+      }
+      step /= 2
+    }
+    if (!improved) break
+  }
+  return x
+}
+
+// Standard errors from the inverse of the negative Hessian, mapped back from the optimization scale
+function parameterStandardErrors(f: (x: number[]) => number, vector: number[], item: IrtItemParameters): IrtItemParameters {
+  const negativeHessian = hessian(f, vector).map(row => row.map(value => -value))
+  const variance = vector.map((_, i) => {
+    const unit = vector.map((__, j) => (i === j ? 1 : 0))
+    const column = solveLinear(negativeHessian, unit)
+    return column && column[i] > 0 ? column[i] : NaN
+  })
+  return {
+    discrimination: item.discrimination * Math.sqrt(variance[0]),
+    difficulty: Math.sqrt(variance[1]),
+    guessing: vector.length > 2 ? item.guessing * (1 - item.guessing) * Math.sqrt(variance[2]) : 0
+  }
+}
+
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length
+  if (n < 2) return 0
+  const meanX = xs.reduce((sum, value) => sum + value, 0) / n
+  const meanY = ys.reduce((sum, value) => sum + value, 0) / n
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (ys[i] - meanY)
+    varianceX += (xs[i] - meanX) * (xs[i] - meanX)
+    varianceY += (ys[i] - meanY) * (ys[i] - meanY)
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0
+}
+
+/**
+ * Calibrate item parameters from response patterns by marginal maximum likelihood: ability is
+ * integrated out against a standard normal population (Bock-Aitkin EM), so sparse adaptive
+ * sittings where each examinee saw a different subset of items are fine.
+ */
+export function calibrateItems(
+  patterns: IrtResponsePattern[],
+  options: IrtCalibrationOptions = {}
+): IrtCalibrationResult {
+  const model = options.model || '2PL'
+  const maxIterations = options.max_iterations || 100
+  const tolerance = options.tolerance || 1e-3
+  const minResponses = options.min_responses ?? MIN_RESPONSES_PER_ITEM
+  const { nodes, weights } = quadrature(CALIBRATION_QUADRATURE_POINTS)
+
+  // Item ids, response counts and starting values
+  const itemIds = new Set<string>(Object.keys(options.initial_parameters || {}))
+  const counts = new Map<string, { responses: number; correct: number }>()
+  for (const pattern of patterns) {
+    for (const response of pattern.responses) {
+      itemIds.add(response.item_id)
+      const count = counts.get(response.item_id) || { responses: 0, correct: 0 }
+      count.responses++
+      if (response.correct) count.correct++
+      counts.set(response.item_id, count)
+    }
+  }
+
+  const guessingPrior = (itemId: string) => (model === '3PL' ? options.guessing_priors?.[itemId] || 0 : 0)
+  const parameters = new Map<string, IrtItemParameters>()
+  for (const itemId of itemIds) {
+    const start = options.initial_parameters?.[itemId]
+    const count = counts.get(itemId)
+    parameters.set(itemId, {
+      discrimination: start?.discrimination || DEFAULT_ITEM_PARAMETERS.discrimination,
+      difficulty: start?.difficulty ?? (count ? -logit((count.correct + 0.5) / (count.responses + 1)) : 0),
+      guessing: guessingPrior(itemId)
+    })
+  }
+
+  const calibratable = Array.from(itemIds).filter(itemId => (counts.get(itemId)?.responses || 0) >= minResponses)
+
+  const eStep = () => {
+    const probabilities = new Map<string, number[]>()
+    for (const [itemId, item] of parameters) {
+      probabilities.set(itemId, nodes.map(theta => probabilityCorrect(theta, item)))
+    }
+
+    const stats = new Map<string, ItemStatistics>()
+    for (const itemId of itemIds) {
+      stats.set(itemId, { expected_total: new Array(nodes.length).fill(0), expected_correct: new Array(nodes.length).fill(0) })
+    }
+
+    const distribution = new Array(nodes.length).fill(0)
+    const posteriors: number[][] = []
+    let logLikelihood = 0
+    for (const pattern of patterns) {
+      const logPosterior = weights.map(weight => Math.log(weight))
+      for (const response of pattern.responses) {
+        const p = probabilities.get(response.item_id)!
+        for (let k = 0; k < nodes.length; k++) {
+          logPosterior[k] += response.correct ? Math.log(p[k]) : Math.log(1 - p[k])
+        }
+      }
+
+      const max = Math.max(...logPosterior)
+      const marginal = logPosterior.reduce((sum, value) => sum + Math.exp(value - max), 0)
+      logLikelihood += max + Math.log(marginal)
+
+      const posterior = normalizeLog(logPosterior)
+      posteriors.push(posterior)
+      for (let k = 0; k < nodes.length; k++) distribution[k] += posterior[k]
+      for (const response of pattern.responses) {
+        const itemStats = stats.get(response.item_id)!
+        for (let k = 0; k < nodes.length; k++) {
+          itemStats.expected_total[k] += posterior[k]
+          if (response.correct) itemStats.expected_correct[k] += posterior[k]
+        }
+      }
+    }
+
+    const total = distribution.reduce((sum, value) => sum + value, 0) || 1
+    return { stats, posteriors, logLikelihood, distribution: distribution.map(value => value / total) }
+  }
+
+  const objectiveFor = (itemId: string, stats: ItemStatistics) => {
+    const fixedGuessing = parameters.get(itemId)!.guessing
+    return (vector: number[]) => itemObjective(vector, stats, nodes, fixedGuessing, guessingPrior(itemId))
+  }
+
+  let iterations = 0
+  let converged = false
+  let previousLogLikelihood = -Infinity
+  for (; iterations < maxIterations && !converged; iterations++) {
+    const { stats, logLikelihood } = eStep()
+    let maxChange = 0
+    for (const itemId of calibratable) {
+      const current = parameters.get(itemId)!
+      const estimateGuessing = guessingPrior(itemId) > 0
+      const vector = maximize(objectiveFor(itemId, stats.get(itemId)!), toVector(current, estimateGuessing))
+      const updated = fromVector(vector, current.guessing)
+      maxChange = Math.max(
+        maxChange,
+        Math.abs(updated.discrimination - current.discrimination),
+        Math.abs(updated.difficulty - current.difficulty),
+        Math.abs(updated.guessing - current.guessing)
+      )
+      parameters.set(itemId, updated)
+    }
+    converged = maxChange < tolerance || Math.abs(logLikelihood - previousLogLikelihood) < tolerance * 1e-2
+    previousLogLikelihood = logLikelihood
+  }
+
+  // Final E-step under the converged parameters for abilities, standard errors and item fit
+  const final = eStep()
+  const abilities: Record<string, IrtAbilityEstimate> = {}
+  patterns.forEach((pattern, index) => {
+    abilities[pattern.person_id] = summarizePosterior(nodes, final.posteriors[index])
+  })
+
+  const expectedInformation = (item: IrtItemParameters) =>
+    nodes.reduce((sum, theta, k) => sum + final.distribution[k] * itemInformation(theta, item), 0)
+  const totalInformation = Array.from(parameters.values()).reduce((sum, item) => sum + expectedInformation(item), 0) || 1
+
+  const calibratableSet = new Set(calibratable)
+  const items: IrtCalibratedItem[] = Array.from(itemIds).map(itemId => {
+    const item = parameters.get(itemId)!
+    const count = counts.get(itemId) || { responses: 0, correct: 0 }
+    const scores: number[] = []
+    const thetas: number[] = []
+    patterns.forEach(pattern => {
+      const response = pattern.responses.find(r => r.item_id === itemId)
+      if (response) {
+        scores.push(response.correct ? 1 : 0)
+        thetas.push(abilities[pattern.person_id].theta)
+      }
+    })
+
+    const calibrated = calibratableSet.has(itemId)
+    const standardErrors = calibrated
+      ? parameterStandardErrors(objectiveFor(itemId, final.stats.get(itemId)!), toVector(item, guessingPrior(itemId) > 0), item)
+      : { discrimination: NaN, difficulty: NaN, guessing: NaN }
+
+    return {
+      item_id: itemId,
+      ...item,
+      standard_errors: standardErrors,
+      responses: count.responses,
+      correct: count.correct,
+      point_biserial: correlation(scores, thetas),
+      information_share: expectedInformation(item) / totalInformation,
+      calibrated
+    }
+  })
+
+  return {
+    model,
+    items,
+    abilities,
+    ability_distribution: final.distribution,
+    quadrature_nodes: nodes,
+    log_likelihood: final.logLikelihood,
+    iterations,
+    converged
+  }
+}
@@ -1,6 +1,7 @@
 'use client'
 
 import { multiModelAI } from './multi-model-ai'
+import { conceptDocument, indexDocuments, searchDocuments } from './semantic-search'
 
 // Core knowledge graph types
 export interface ConceptNode {
@@ -127,6 +128,11 @@ export class KnowledgeGraphGenerator {
 
       // Cache the generated graph
       this.graphs.set(subject, knowledgeGraph)
+
+      // Make the concepts searchable; a failed index only costs search quality
+      await indexDocuments(knowledgeGraph.nodes.map(conceptDocument)).catch(error => {
+        console.error('Failed to index knowledge graph concepts:', error)
+      })
       
       return knowledgeGraph
     } catch (error) {
@@ -817,12 +823,25 @@ export class KnowledgeGraphGenerator {
     return Array.from(this.graphs.values())
   }
 
-  // Search concepts across all graphs
-  searchConcepts(query: string): ConceptNode[] {
+  // Search concepts across all graphs, hybrid BM25 and embedding search with substring matching as fallback
+  async searchConcepts(query: string): Promise<ConceptNode[]> {
+    const known = new Map(this.concepts)
+    this.graphs.forEach(graph => graph.nodes.forEach(concept => known.set(concept.id, concept)))
+
+    try {
+      const { results } = await searchDocuments({ query, sourceTypes: ['concept'], limit: 50 })
+      const matches = results
+        .map(result => known.get(result.sourceId))
+        .filter((concept): concept is ConceptNode => !!concept)
+      if (matches.length > 0) return matches
+    } catch (error) {
+      console.error('Concept search failed, falling back to substring matching:', error)
+    }
+
     const results: ConceptNode[] = []
     const queryLower = query.toLowerCase()
     
-    this.concepts.forEach(concept => {
+    known.forEach(concept => {
       if (
         concept.name.toLowerCase().includes(queryLower) ||
         concept.description.toLowerCase().includes(queryLower) ||
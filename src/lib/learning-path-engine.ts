@@ -2,11 +2,7 @@
 // AI-powered system for creating personalized learning paths based on user analytics and performance
 
 import { supabaseAdmin } from './supabase'
-import OpenAI from 'openai'
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-})
+import { multiModelAI } from './multi-model-ai'
 
 // Core types for learning path system
 export interface LearningObjective {
@@ -188,10 +184,6 @@ class LearningPathEngine {
     timeframe: number,
     currentLevel?: string
   ): Promise<any> {
-    if (!process.env.OPENAI_API_KEY) {
-      return this.generateFallbackPathStructure(userProfile, subject, goals)
-    }
-    
     const prompt = `Create a structured learning path for a ${userProfile.difficulty_comfort_zone} level ${subject} learner.
 
 User Profile:
@@ -215,15 +207,21 @@ Create a progressive learning path with 5-8 major learning objectives. Each obje
 Return a JSON structure with learning objectives, their relationships, and adaptive branching logic.`
 
     try {
-      const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: 2000,
-        temperature: 0.7
+      const response = await multiModelAI.generateContent({
+        useCase: 'study_planning',
+        userProfile: { id: userProfile.user_id, subject, level: userProfile.difficulty_comfort_zone } as any,
+        context: prompt,
+        requestType: 'planning',
+        priority: 'medium',
+        prompt,
+        maxTokens: 2000,
+        temperature: 0.7,
+        fallbackRequired: false
       })
-      
-      const response = completion.choices[0]?.message?.content || ''
-      return JSON.parse(response)
+
+      const structure = JSON.parse(response.content)
+      if (!Array.isArray(structure?.objectives)) throw new Error('Path structure has no objectives')
+      return structure
     } catch (error) {
       console.error('AI path generation error:', error)
       return this.generateFallbackPathStructure(userProfile, subject, goals)
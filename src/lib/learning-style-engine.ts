@@ -1,5 +1,6 @@
 import type { UserProfile, ContentItem } from '@/types'
 import type { PerformancePoint } from './difficulty-engine'
+import { EngineStateStore } from './engine-repository'
 
 // VARK Learning Style Model + Extensions
 export type LearningStyleType = 'visual' | 'auditory' | 'kinesthetic' | 'reading' | 'multimodal'
@@ -117,12 +118,21 @@ export interface ContentStyleChange {
 }
 
 export class LearningStyleDetectionEngine {
-  private styleProfiles: Map<string, LearningStyleProfile> = new Map()
+  private store = new EngineStateStore('learning_style')
+  private styleProfiles: Map<string, LearningStyleProfile> = this.store.map('style_profiles')
   private detectionThresholds = {
     minDataPoints: 10,
     minConfidence: 0.6,
     adaptationConfidence: 0.7
   }
+
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
   
   // Main detection method - analyzes user behavior to determine learning style
   async detectLearningStyle(
@@ -0,0 +1,821 @@
+// LTI 1.3 Tool Provider
+// Tool side of LTI 1.3 / LTI Advantage: OIDC third-party login, id_token launch validation, Deep Linking
+// responses and Assignment and Grade Services (line items and score publishing).
+// Server-only: signs and verifies JWTs with node crypto.
+
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  randomUUID,
+  sign as signData,
+  verify as verifyData,
+  createHash,
+  timingSafeEqual,
+  type KeyObject
+} from 'crypto'
+import { EngineStateStore } from './engine-repository'
+
+export type LtiLmsType = 'canvas' | 'blackboard' | 'moodle' | 'google_classroom' | 'other'
+
+export type LtiMessageType = 'LtiResourceLinkRequest' | 'LtiDeepLinkingRequest'
+
+// A registered LMS (one issuer + client id pair)
+export interface LtiPlatform {
+  platformId: string
+  name: string
+  issuer: string
+  clientId: string
+  deploymentIds: string[]
+  authLoginUrl: string // OIDC authorization endpoint
+  accessTokenUrl: string // OAuth2 token endpoint for LTI Advantage services
+  keysetUrl: string // platform JWKS
+  institutionId?: string
+  lmsType: LtiLmsType
+  createdAt: Date
+}
+
+export interface LtiAgsEndpoint {
+  scope: string[]
+  lineitems?: string
+  lineitem?: string
+}
+
+export interface LtiLaunch {
+  launchId: string
+  platformId: string
+  messageType: LtiMessageType
+  deploymentId: string
+  userId: string // platform user id (sub)
+  name?: string
+  email?: string
+  roles: string[]
+  isInstructor: boolean
+  isLearner: boolean
+  context?: { id: string; label?: string; title?: string }
+  resourceLink?: { id: string; title?: string }
+  targetLinkUri: string
+  custom: Record<string, string>
+  ags?: LtiAgsEndpoint
+  deepLinking?: {
+    returnUrl: string
+    acceptTypes: string[]
+    acceptMultiple: boolean
+    data?: string
+  }
+  sessionHash?: string // SHA-256 of the browser session token minted for this launch
+  createdAt: Date
+  expiresAt: Date
+}
+
+export interface LtiDeepLinkItem {
+  title: string
+  url: string
+  text?: string
+  custom?: Record<string, string>
+  lineItem?: {
+    scoreMaximum: number
+    label: string
+    resourceId?: string
+    tag?: string
+  }
+}
+
+export interface LtiScoreInput {
+  localUserId: string
+  scoreGiven: number
+  scoreMaximum: number
+  comment?: string
+  timestamp: Date
+  submissionId?: string
+}
+
+export interface LtiLineItemScores {
+  resourceId: string // local assignment id
+  label: string
+  scoreMaximum: number
+  scores: LtiScoreInput[]
+}
+
+export interface LtiGradeSyncResult {
+  success: boolean
+  platformId?: string
+  contextId?: string
+  lineItemsCreated: number
+  scoresPublished: number
+  skipped: { resourceId: string; submissionId?: string; reason: string }[]
+  errors: string[]
+}
+
+export class LtiError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400
+  ) {
+    super(message)
+    this.name = 'LtiError'
+  }
+}
+
+// ==================================================================
+// CLAIMS AND SCOPES
+// ==================================================================
+
+const LTI_CLAIM = 'https://purl.imsglobal.org/spec/lti/claim/'
+const DL_CLAIM = 'https://purl.imsglobal.org/spec/lti-dl/claim/'
+const AGS_ENDPOINT_CLAIM = 'https://purl.imsglobal.org/spec/lti-ags/claim/endpoint'
+
+export const LTI_AGS_SCOPES = {
+  lineItem: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem',
+  lineItemReadOnly: 'https://purl.imsglobal.org/spec/lti-ags/scope/lineitem.readonly',
+  score: 'https://purl.imsglobal.org/spec/lti-ags/scope/score',
+  resultReadOnly: 'https://purl.imsglobal.org/spec/lti-ags/scope/result.readonly'
+}
+
+const INSTRUCTOR_ROLE_PATTERN = /#(Instructor|TeachingAssistant|ContentDeveloper|Administrator)$/
+const LEARNER_ROLE_PATTERN = /#(Learner|Student)$/
+
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000
+const LAUNCH_TTL_MS = 2 * 60 * 60 * 1000
+const CLOCK_SKEW_SECONDS = 60
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000
+
+// ==================================================================
+// JWT (RS256)
+// ==================================================================
+
+interface JwtParts {
+  header: { alg?: string; kid?: string; typ?: string }
+  payload: Record<string, any>
+  signingInput: string
+  signature: Buffer
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+export function decodeJwt(token: string): JwtParts {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new LtiError('Malformed JWT')
+  }
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url')
+    }
+  } catch {
+    throw new LtiError('Malformed JWT')
+  }
+}
+
+export function signJwt(payload: Record<string, any>, privateKey: KeyObject, kid: string): string {
+  const signingInput = `${base64UrlJson({ alg: 'RS256', typ: 'JWT', kid })}.${base64UrlJson(payload)}`
+  const signature = signData('RSA-SHA256', Buffer.from(signingInput), privateKey)
+  return `${signingInput}.${signature.toString('base64url')}`
+}
+
+export function verifyJwtSignature(parts: JwtParts, publicKey: KeyObject): boolean {
+  if (parts.header.alg !== 'RS256') return false
+  return verifyData('RSA-SHA256', Buffer.from(parts.signingInput), publicKey, parts.signature)
+}
+
+// ==================================================================
+// TOOL KEY
+// ==================================================================
+
+let toolKey: { privateKey: KeyObject; kid: string; publicJwk: Record<string, any> } | null = null
+
+// LTI_PRIVATE_KEY (PKCS#8 PEM) signs client assertions and deep linking responses. Without it a
+// per-process key is generated for development; platforms re-fetch the JWKS, so restarts are harmless there.
+function getToolKey() {
+  if (toolKey) return toolKey
+
+  let privateKey: KeyObject
+  const pem = process.env.LTI_PRIVATE_KEY
+  if (pem) {
+    privateKey = createPrivateKey(pem.replace(/\\n/g, '\n'))
+  } else {
+    if (process.env.NODE_ENV === 'production') {
+      throw new LtiError('LTI_PRIVATE_KEY is not configured', 500)
+    }
+    privateKey = generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey
+    console.warn('LTI_PRIVATE_KEY is not set; using an ephemeral development key')
+  }
+
+  const jwk = createPublicKey(privateKey).export({ format: 'jwk' }) as Record<string, any>
+  const kid = process.env.LTI_KEY_ID || createHash('sha256').update(String(jwk.n)).digest('base64url').slice(0, 16)
+  toolKey = { privateKey, kid, publicJwk: { ...jwk, kid, alg: 'RS256', use: 'sig' } }
+  return toolKey
+}
+
+/**
+ * Public key set platforms use to verify the tool's signatures
+ */
+export function getToolJwks(): { keys: Record<string, any>[] } {
+  return { keys: [getToolKey().publicJwk] }
+}
+
+// ==================================================================
+// PLATFORM KEYS
+// ==================================================================
+
+const jwksCache = new Map<string, { fetchedAt: number; keys: Record<string, any>[] }>()
+
+async function fetchPlatformKeys(keysetUrl: string, forceRefresh: boolean): Promise<Record<string, any>[]> {
+  const cached = jwksCache.get(keysetUrl)
+  if (cached && !forceRefresh && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL_MS) {
+    return cached.keys
+  }
+
+  const response = await fetch(keysetUrl, { cache: 'no-store' })
+  if (!response.ok) {
+    throw new LtiError(`Platform keyset returned ${response.status}`, 502)
+  }
+  const { keys } = await response.json()
+  jwksCache.set(keysetUrl, { fetchedAt: Date.now(), keys: keys || [] })
+  return keys || []
+}
+
+async function getPlatformKey(platform: LtiPlatform, kid: string | undefined): Promise<KeyObject> {
+  const pick = (keys: Record<string, any>[]) =>
+    keys.find(key => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'))
+
+  // Unknown kid: the platform may have rotated its keys since the last fetch
+  const jwk = pick(await fetchPlatformKeys(platform.keysetUrl, false)) ||
+    pick(await fetchPlatformKeys(platform.keysetUrl, true))
+  if (!jwk) {
+    throw new LtiError('No matching platform signing key', 401)
+  }
+  return createPublicKey({ key: jwk as any, format: 'jwk' })
+}
+
+// ==================================================================
+// URL HELPERS
+// ==================================================================
+
+function withParams(url: string, params: Record<string, string | undefined>): string {
+  const target = new URL(url)
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) target.searchParams.set(key, value)
+  }
+  return target.toString()
+}
+
+// AGS service URLs may carry a query string; sub-resources go before it
+function appendPath(url: string, suffix: string): string {
+  const target = new URL(url)
+  target.pathname = `${target.pathname.replace(/\/$/, '')}${suffix}`
+  return target.toString()
+}
+
+/**
+ * Public base URL of the tool (what platforms were registered against)
+ */
+export function getToolUrl(requestOrigin: string): string {
+  return (process.env.LTI_TOOL_URL || process.env.NEXT_PUBLIC_SITE_URL || requestOrigin).replace(/\/$/, '')
+}
+
+/**
+ * Cookie holding the browser session of one launch. Tools run framed in the LMS, so it is a
+ * partitioned SameSite=None cookie, one per launch so parallel launches in other tabs keep theirs.
+ */
+export function ltiSessionCookieName(launchId: string): string {
+  return `lti_session_${launchId}`
+}
+
+function hashSessionToken(token: string): Buffer {
+  return createHash('sha256').update(token).digest()
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * HTML page that POSTs a form to another origin (LTI messages travel as auto-submitted forms)
+ */
+export function autoSubmitForm(action: string, fields: Record<string, string>): string {
+  const inputs = Object.entries(fields)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('')
+  return `<!DOCTYPE html><html><body><form id="lti" method="POST" action="${escapeHtml(action)}">${inputs}<noscript><button type="submit">Continue</button></noscript></form><script>document.getElementById('lti').submit()</script></body></html>`
+}
+
+// ==================================================================
+// TOOL PROVIDER
+// ==================================================================
+
+class LtiToolProvider {
+  private store = new EngineStateStore('lti')
+  private platforms: Map<string, LtiPlatform> = this.store.map('platforms')
+  private loginStates: Map<string, { platformId: string; nonce: string; targetLinkUri: string; expiresAt: Date }> = this.store.map('login_states')
+  private launches: Map<string, LtiLaunch> = this.store.map('launches')
+  // `${platformId}|${contextId}` -> local course id
+  private contextLinks: Map<string, { platformId: string; contextId: string; courseId: string; lineItemsUrl?: string }> = this.store.map('context_links')
+  // `${platformId}|${sub}` -> local user id
+  private userLinks: Map<string, { platformId: string; platformUserId: string; localUserId: string }> = this.store.map('user_links')
+  // `${platformId}|${resourceId}` -> line item URL
+  private lineItems: Map<string, { platformId: string; resourceId: string; lineItemUrl: string }> = this.store.map('line_items')
+  private accessTokens = new Map<string, { token: string; expiresAt: number }>()
+
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
+  // Platform registration
+  registerPlatform(registration: Omit<LtiPlatform, 'platformId' | 'createdAt' | 'lmsType' | 'name'> & Partial<Pick<LtiPlatform, 'platformId' | 'lmsType' | 'name'>>): LtiPlatform {
+    for (const field of ['issuer', 'clientId', 'authLoginUrl', 'accessTokenUrl', 'keysetUrl'] as const) {
+      if (!registration[field]) {
+        throw new LtiError(`Missing platform field: ${field}`)
+      }
+    }
+
+    const existing = this.findPlatform(registration.issuer, registration.clientId)
+    const platform: LtiPlatform = {
+      ...registration,
+      platformId: registration.platformId || existing?.platformId || `lti_${randomUUID()}`,
+      name: registration.name || new URL(registration.issuer).host,
+      deploymentIds: registration.deploymentIds || [],
+      lmsType: registration.lmsType || 'other',
+      createdAt: existing?.createdAt || new Date()
+    }
+    this.platforms.set(platform.platformId, platform)
+    return platform
+  }
+
+  removePlatform(platformId: string): boolean {
+    return this.platforms.delete(platformId)
+  }
+
+  getPlatform(platformId: string): LtiPlatform | null {
+    return this.platforms.get(platformId) || null
+  }
+
+  listPlatforms(institutionId?: string): LtiPlatform[] {
+    return Array.from(this.platforms.values())
+      .filter(platform => !institutionId || platform.institutionId === institutionId)
+  }
+
+  // client_id is optional in the login request; an issuer with several registrations needs it
+  findPlatform(issuer: string, clientId?: string): LtiPlatform | null {
+    const matches = Array.from(this.platforms.values())
+      .filter(platform => platform.issuer === issuer && (!clientId || platform.clientId === clientId))
+    return matches.length === 1 ? matches[0] : null
+  }
+
+  /**
+   * OIDC third-party initiated login: returns the platform authorization URL to redirect to
+   */
+  initiateLogin(params: {
+    iss?: string
+    login_hint?: string
+    target_link_uri?: string
+    lti_message_hint?: string
+    client_id?: string
+    lti_deployment_id?: string
+  }, toolUrl: string): string {
+    if (!params.iss || !params.login_hint || !params.target_link_uri) {
+      throw new LtiError('Missing required login parameters: iss, login_hint, target_link_uri')
+    }
+
+    const platform = this.findPlatform(params.iss, params.client_id)
+    if (!platform) {
+      throw new LtiError('Unknown LTI platform', 401)
+    }
+    if (params.lti_deployment_id && platform.deploymentIds.length > 0 && !platform.deploymentIds.includes(params.lti_deployment_id)) {
+      throw new LtiError('Unknown LTI deployment', 401)
+    }
+
+    this.pruneExpired()
+    // State and nonce are one-time and short-lived; iframe launches cannot rely on third-party cookies
+    const state = randomUUID()
+    const nonce = randomUUID()
+    this.loginStates.set(state, {
+      platformId: platform.platformId,
+      nonce,
+      targetLinkUri: params.target_link_uri,
+      expiresAt: new Date(Date.now() + LOGIN_STATE_TTL_MS)
+    })
+
+    return withParams(platform.authLoginUrl, {
+      scope: 'openid',
+      response_type: 'id_token',
+      response_mode: 'form_post',
+      prompt: 'none',
+      client_id: platform.clientId,
+      redirect_uri: `${toolUrl}/api/lti/launch`,
+      login_hint: params.login_hint,
+      lti_message_hint: params.lti_message_hint,
+      state,
+      nonce
+    })
+  }
+
+  /**
+   * Validate the id_token posted back by the platform and record the launch
+   */
+  async validateLaunch(idToken: string | undefined, state: string | undefined): Promise<LtiLaunch> {
+    if (!idToken || !state) {
+      throw new LtiError('Missing id_token or state')
+    }
+
+    const login = this.loginStates.get(state)
+    this.loginStates.delete(state)
+    if (!login || new Date(login.expiresAt).getTime() < Date.now()) {
+      throw new LtiError('Invalid or expired login state', 401)
+    }
+
+    const platform = this.platforms.get(login.platformId)
+    if (!platform) {
+      throw new LtiError('Unknown LTI platform', 401)
+    }
+
+    const token = decodeJwt(idToken)
+    const claims = token.payload
+    if (!verifyJwtSignature(token, await getPlatformKey(platform, token.header.kid))) {
+      throw new LtiError('Invalid id_token signature', 401)
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const audiences: string[] = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (claims.iss !== platform.issuer) throw new LtiError('id_token issuer mismatch', 401)
+    if (!audiences.includes(platform.clientId)) throw new LtiError('id_token audience mismatch', 401)
+    if (audiences.length > 1 && claims.azp !== platform.clientId) throw new LtiError('id_token azp mismatch', 401)
+    if (typeof claims.exp !== 'number' || claims.exp < now - CLOCK_SKEW_SECONDS) throw new LtiError('id_token expired', 401)
+    if (typeof claims.iat === 'number' && claims.iat > now + CLOCK_SKEW_SECONDS) throw new LtiError('id_token issued in the future', 401)
+    if (claims.nonce !== login.nonce) throw new LtiError('id_token nonce mismatch', 401)
+
+    const deploymentId = claims[`${LTI_CLAIM}deployment_id`]
+    if (!deploymentId || (platform.deploymentIds.length > 0 && !platform.deploymentIds.includes(deploymentId))) {
+      throw new LtiError('Unknown LTI deployment', 401)
+    }
+    if (claims[`${LTI_CLAIM}version`] !== '1.3.0') {
+      throw new LtiError('Unsupported LTI version')
+    }
+
+    const messageType = claims[`${LTI_CLAIM}message_type`] as LtiMessageType
+    if (messageType !== 'LtiResourceLinkRequest' && messageType !== 'LtiDeepLinkingRequest') {
+      throw new LtiError(`Unsupported LTI message type: ${messageType}`)
+    }
+
+    const resourceLink = claims[`${LTI_CLAIM}resource_link`]
+    if (messageType === 'LtiResourceLinkRequest' && !resourceLink?.id) {
+      throw new LtiError('Resource link launch without resource_link claim')
+    }
+
+    const deepLinkingSettings = claims[`${DL_CLAIM}deep_linking_settings`]
+    if (messageType === 'LtiDeepLinkingRequest' && !deepLinkingSettings?.deep_link_return_url) {
+      throw new LtiError('Deep linking launch without deep_link_return_url')
+    }
+
+    const roles: string[] = claims[`${LTI_CLAIM}roles`] || []
+    const context = claims[`${LTI_CLAIM}context`]
+    const agsEndpoint = claims[AGS_ENDPOINT_CLAIM]
+
+    const launch: LtiLaunch = {
+      launchId: randomUUID(),
+      platformId: platform.platformId,
+      messageType,
+      deploymentId,
+      userId: String(claims.sub || ''),
+      name: claims.name,
+      email: claims.email,
+      roles,
+      isInstructor: roles.some(role => INSTRUCTOR_ROLE_PATTERN.test(role)),
+      isLearner: roles.some(role => LEARNER_ROLE_PATTERN.test(role)),
+      context: context?.id ? { id: String(context.id), label: context.label, title: context.title } : undefined,
+      resourceLink: resourceLink?.id ? { id: String(resourceLink.id), title: resourceLink.title } : undefined,
+      targetLinkUri: claims[`${LTI_CLAIM}target_link_uri`] || login.targetLinkUri,
+      custom: claims[`${LTI_CLAIM}custom`] || {},
+      ags: agsEndpoint ? { scope: agsEndpoint.scope || [], lineitems: agsEndpoint.lineitems, lineitem: agsEndpoint.lineitem } : undefined,
+      deepLinking: deepLinkingSettings ? {
+        returnUrl: deepLinkingSettings.deep_link_return_url,
+        acceptTypes: deepLinkingSettings.accept_types || [],
+        acceptMultiple: deepLinkingSettings.accept_multiple !== false,
+        data: deepLinkingSettings.data
+      } : undefined,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + LAUNCH_TTL_MS)
+    }
+
+    this.launches.set(launch.launchId, launch)
+    if (launch.context && launch.ags?.lineitems) {
+      const link = this.contextLinks.get(`${platform.platformId}|${launch.context.id}`)
+      if (link) this.contextLinks.set(`${platform.platformId}|${launch.context.id}`, { ...link, lineItemsUrl: launch.ags.lineitems })
+    }
+    return launch
+  }
+
+  getLaunch(launchId: string): LtiLaunch | null {
+    const launch = this.launches.get(launchId)
+    if (!launch || new Date(launch.expiresAt).getTime() < Date.now()) return null
+    return launch
+  }
+
+  /**
+   * Mint the browser session for a validated launch. The launch id travels in URLs and forms,
+   * so reading or acting on a launch also needs this token; only its hash is stored.
+   */
+  startLaunchSession(launchId: string): string {
+    const launch = this.getLaunch(launchId)
+    if (!launch) {
+      throw new LtiError('Launch not found or expired', 404)
+    }
+
+    const token = randomBytes(32).toString('base64url')
+    this.launches.set(launchId, { ...launch, sessionHash: hashSessionToken(token).toString('hex') })
+    return token
+  }
+
+  /**
+   * The launch a browser session belongs to, or null for a wrong token or an expired launch
+   */
+  getLaunchForSession(launchId: string, sessionToken: string | undefined): LtiLaunch | null {
+    const launch = this.getLaunch(launchId)
+    if (!launch?.sessionHash || !sessionToken) return null
+
+    const expected = Buffer.from(launch.sessionHash, 'hex')
+    const actual = hashSessionToken(sessionToken)
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? launch : null
+  }
+
+  // Context (LMS course) and user links
+  linkContext(launch: LtiLaunch, courseId: string): void {
+    if (!launch.context) return
+    this.contextLinks.set(`${launch.platformId}|${launch.context.id}`, {
+      platformId: launch.platformId,
+      contextId: launch.context.id,
+      courseId,
+      lineItemsUrl: launch.ags?.lineitems
+    })
+  }
+
+  getLinkedCourseId(platformId: string, contextId: string): string | null {
+    return this.contextLinks.get(`${platformId}|${contextId}`)?.courseId || null
+  }
+
+  findCourseContexts(courseId: string): { platformId: string; contextId: string; lineItemsUrl?: string }[] {
+    return Array.from(this.contextLinks.values()).filter(link => link.courseId === courseId)
+  }
+
+  linkUser(platformId: string, platformUserId: string, localUserId: string): void {
+    this.userLinks.set(`${platformId}|${platformUserId}`, { platformId, platformUserId, localUserId })
+  }
+
+  getLinkedUserId(platformId: string, platformUserId: string): string | null {
+    return this.userLinks.get(`${platformId}|${platformUserId}`)?.localUserId || null
+  }
+
+  getPlatformUserId(platformId: string, localUserId: string): string | null {
+    for (const link of this.userLinks.values()) {
+      if (link.platformId === platformId && link.localUserId === localUserId) return link.platformUserId
+    }
+    return null
+  }
+
+  // A resource link launch carries its own line item; remember it for the linked assignment
+  linkLineItem(platformId: string, resourceId: string, lineItemUrl: string): void {
+    this.lineItems.set(`${platformId}|${resourceId}`, { platformId, resourceId, lineItemUrl })
+  }
+
+  /**
+   * Signed LtiDeepLinkingResponse for the items the instructor picked
+   */
+  buildDeepLinkingResponse(launchId: string, items: LtiDeepLinkItem[]): { returnUrl: string; jwt: string } {
+    const launch = this.getLaunch(launchId)
+    if (!launch || launch.messageType !== 'LtiDeepLinkingRequest' || !launch.deepLinking) {
+      throw new LtiError('Deep linking session not found or expired', 404)
+    }
+    const platform = this.platforms.get(launch.platformId)
+    if (!platform) {
+      throw new LtiError('Unknown LTI platform', 404)
+    }
+
+    const selected = launch.deepLinking.acceptMultiple ? items : items.slice(0, 1)
+    const now = Math.floor(Date.now() / 1000)
+    const { privateKey, kid } = getToolKey()
+    const jwt = signJwt({
+      iss: platform.clientId,
+      aud: platform.issuer,
+      iat: now,
+      exp: now + 600,
+      nonce: randomUUID(),
+      [`${LTI_CLAIM}message_type`]: 'LtiDeepLinkingResponse',
+      [`${LTI_CLAIM}version`]: '1.3.0',
+      [`${LTI_CLAIM}deployment_id`]: launch.deploymentId,
+      [`${DL_CLAIM}content_items`]: selected.map(item => ({
+        type: 'ltiResourceLink',
+        title: item.title,
+        text: item.text,
+        url: item.url,
+        custom: item.custom,
+        lineItem: item.lineItem
+      })),
+      ...(launch.deepLinking.data ? { [`${DL_CLAIM}data`]: launch.deepLinking.data } : {})
+    }, privateKey, kid)
+
+    this.launches.delete(launchId)
+    return { returnUrl: launch.deepLinking.returnUrl, jwt }
+  }
+
+  // ==================================================================
+  // ASSIGNMENT AND GRADE SERVICES
+  // ==================================================================
+
+  // OAuth2 client credentials grant with a signed client assertion (RFC 7523)
+  async getAccessToken(platform: LtiPlatform, scopes: string[]): Promise<string> {
+    const cacheKey = `${platform.platformId}|${scopes.slice().sort().join(' ')}`
+    const cached = this.accessTokens.get(cacheKey)
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.token
+    }
+
+    const now = Math.floor(Date.now() / 1000)
+    const { privateKey, kid } = getToolKey()
+    const assertion = signJwt({
+      iss: platform.clientId,
+      sub: platform.clientId,
+      aud: platform.accessTokenUrl,
+      iat: now,
+      exp: now + 300,
+      jti: randomUUID()
+    }, privateKey, kid)
+
+    const response = await fetch(platform.accessTokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_assertion_type: 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer',
+        client_assertion: assertion,
+        scope: scopes.join(' ')
+      }).toString(),
+      cache: 'no-store'
+    })
+
+    if (!response.ok) {
+      throw new LtiError(`Platform token endpoint returned ${response.status}`, 502)
+    }
+
+    const { access_token, expires_in } = await response.json()
+    // Refresh a minute early so a token never expires mid-sync
+    this.accessTokens.set(cacheKey, {
+      token: access_token,
+      expiresAt: Date.now() + Math.max(0, (Number(expires_in) || 3600) - 60) * 1000
+    })
+    return access_token
+  }
+
+  private async findOrCreateLineItem(
+    platform: LtiPlatform,
+    lineItemsUrl: string,
+    token: string,
+    item: LtiLineItemScores
+  ): Promise<{ url: string; created: boolean }> {
+    const known = this.lineItems.get(`${platform.platformId}|${item.resourceId}`)
+    if (known) return { url: known.lineItemUrl, created: false }
+
+    const listResponse = await fetch(withParams(lineItemsUrl, { resource_id: item.resourceId }), {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/vnd.ims.lis.v2.lineitemcontainer+json'
+      },
+      cache: 'no-store'
+    })
+    if (listResponse.ok) {
+      const existing = ((await listResponse.json()) as any[]).find(lineItem => lineItem.resourceId === item.resourceId)
+      if (existing?.id) {
+        this.linkLineItem(platform.platformId, item.resourceId, existing.id)
+        return { url: existing.id, created: false }
+      }
+    }
+
+    const createResponse = await fetch(lineItemsUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/vnd.ims.lis.v2.lineitem+json',
+        Accept: 'application/vnd.ims.lis.v2.lineitem+json'
+      },
+      body: JSON.stringify({
+        scoreMaximum: item.scoreMaximum,
+        label: item.label,
+        resourceId: item.resourceId,
+        tag: 'grade'
+      }),
+      cache: 'no-store'
+    })
+    if (!createResponse.ok) {
+      throw new LtiError(`Line item creation returned ${createResponse.status}`, 502)
+    }
+
+    const created = await createResponse.json()
+    this.linkLineItem(platform.platformId, item.resourceId, created.id)
+    return { url: created.id, created: true }
+  }
+
+  /**
+   * Publish scores for a course context, creating line items for assignments the LMS does not have yet
+   */
+  async publishScores(platformId: string, contextId: string, items: LtiLineItemScores[]): Promise<LtiGradeSyncResult> {
+    const result: LtiGradeSyncResult = {
+      success: true,
+      platformId,
+      contextId,
+      lineItemsCreated: 0,
+      scoresPublished: 0,
+      skipped: [],
+      errors: []
+    }
+
+    const platform = this.platforms.get(platformId)
+    const link = this.contextLinks.get(`${platformId}|${contextId}`)
+    if (!platform || !link) {
+      return { ...result, success: false, errors: ['Course is not linked to this LTI platform'] }
+    }
+
+    const pending = items.filter(item => item.scores.length > 0)
+    if (pending.length === 0) return result
+
+    const token = await this.getAccessToken(platform, [LTI_AGS_SCOPES.lineItem, LTI_AGS_SCOPES.score])
+
+    for (const item of pending) {
+      let lineItemUrl: string
+      try {
+        const known = this.lineItems.get(`${platformId}|${item.resourceId}`)
+        if (!known && !link.lineItemsUrl) {
+          result.skipped.push({ resourceId: item.resourceId, reason: 'No line item and the platform did not grant line item management' })
+          continue
+        }
+        const lineItem = known
+          ? { url: known.lineItemUrl, created: false }
+          : await this.findOrCreateLineItem(platform, link.lineItemsUrl!, token, item)
+        lineItemUrl = lineItem.url
+        if (lineItem.created) result.lineItemsCreated++
+      } catch (error) {
+        result.errors.push(`${item.resourceId}: ${error instanceof Error ? error.message : 'line item lookup failed'}`)
+        continue
+      }
+
+      for (const score of item.scores) {
+        const platformUserId = this.getPlatformUserId(platformId, score.localUserId)
+        if (!platformUserId) {
+          result.skipped.push({ resourceId: item.resourceId, submissionId: score.submissionId, reason: 'Student has not launched from this LMS' })
+          continue
+        }
+
+        const response = await fetch(appendPath(lineItemUrl, '/scores'), {
+          method: 'POST',
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/vnd.ims.lis.v1.score+json'
+          },
+          body: JSON.stringify({
+            userId: platformUserId,
+            scoreGiven: score.scoreGiven,
+            scoreMaximum: score.scoreMaximum,
+            comment: score.comment,
+            timestamp: new Date(score.timestamp).toISOString(),
+            activityProgress: 'Completed',
+            gradingProgress: 'FullyGraded'
+          }),
+          cache: 'no-store'
+        })
+
+        if (response.ok) {
+          result.scoresPublished++
+        } else {
+          result.errors.push(`${item.resourceId}/${score.submissionId || score.localUserId}: score service returned ${response.status}`)
+        }
+      }
+    }
+
+    result.success = result.errors.length === 0
+    return result
+  }
+
+  private pruneExpired(): void {
+    const now = Date.now()
+    for (const [state, login] of this.loginStates) {
+      if (new Date(login.expiresAt).getTime() < now) this.loginStates.delete(state)
+    }
+    for (const [launchId, launch] of this.launches) {
+      if (new Date(launch.expiresAt).getTime() < now) this.launches.delete(launchId)
+    }
+  }
+}
+
+export const ltiToolProvider = new LtiToolProvider()
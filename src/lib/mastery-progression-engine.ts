@@ -5,6 +5,7 @@ import type { UserProfile, ContentItem } from '@/types'
 import type { LearningObjective } from '@/lib/intelligent-sequencing-engine'
 import type { ObjectiveProgress } from '@/lib/objective-tracking-engine'
 import { multiModelAI, type UseCase } from './multi-model-ai'
+import { EngineStateStore } from './engine-repository'
 
 export interface MasteryThreshold {
   thresholdId: string
@@ -204,17 +205,32 @@ export interface ProgressionRecommendation {
 }
 
 export class MasteryProgressionEngine {
-  private userProfiles: Map<string, UserMasteryProfile> = new Map()
-  private skillTrees: Map<string, SkillTree> = new Map()
+  private store = new EngineStateStore('mastery_progression')
+  private userProfiles: Map<string, UserMasteryProfile> = this.store.map('user_profiles')
+  private skillTrees: Map<string, SkillTree> = this.store.map('skill_trees')
   private masteryThresholds: Map<string, MasteryThreshold> = new Map()
   private achievements: Map<string, Achievement> = new Map()
-  private assessments: Map<string, MasteryAssessment> = new Map()
+  private assessments: Map<string, MasteryAssessment> = this.store.map('assessments')
 
   constructor() {
     this.initializeDefaultAchievements()
     this.initializeDefaultSkillTrees()
   }
 
+  /**
+   * Load persisted mastery state
+   */
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  /**
+   * Wait until pending state writes reach the repository
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
   /**
    * Initialize mastery tracking for a user
    */
@@ -298,7 +314,11 @@ export class MasteryProgressionEngine {
       context: { assessmentType, threshold: threshold.requiredScore }
     }
 
-    userProfile.masteryHistory.push(masteryEvent)
+    // Replace the profile rather than mutating it, so the change is written through
+    this.userProfiles.set(userId, {
+      ...userProfile,
+      masteryHistory: [...userProfile.masteryHistory, masteryEvent]
+    })
     
     // Update overall mastery levels
     await this.updateOverallMastery(userId)
@@ -394,6 +414,21 @@ export class MasteryProgressionEngine {
     return this.userProfiles.get(userId) || null
   }
 
+  /**
+   * Skills the user has mastered across their skill trees, with when they were mastered
+   */
+  getMasteredSkills(userId: string): { tree: SkillTree; skill: SkillNode; masteredAt: Date }[] {
+    const history = this.userProfiles.get(userId)?.masteryHistory || []
+    return Array.from(this.skillTrees.values())
+      .filter(tree => tree.userId === userId)
+      .flatMap(tree => tree.skillNodes
+        .filter(skill => skill.isCompleted)
+        .map(skill => {
+          const mastered = history.filter(event => event.eventType === 'skill_mastered' && event.skillId === skill.skillId)
+          return { tree, skill, masteredAt: mastered.length > 0 ? mastered[mastered.length - 1].timestamp : tree.lastUpdated }
+        }))
+  }
+
   /**
    * Get available achievements for user
    */
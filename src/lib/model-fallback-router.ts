@@ -3,6 +3,10 @@
 'use client'
 
 import type { UserProfile } from '@/types'
+import { aiBudgetManager, budgetContextFor } from './ai-budget-manager'
+import { estimateTokens } from './ai-providers'
+import type { UseCase } from './multi-model-ai'
+import type { AuthContext } from './auth-guard'
 
 export interface ModelRoute {
   routeId: string
@@ -195,11 +199,12 @@ class ModelFallbackRouter {
     this.startHealthChecks()
   }
   
-  // Route a request to the best available model
+  // Route a request to the best available model; spend quotas are checked for the signed-in caller
   async routeRequest(
     useCase: string,
     userProfile?: UserProfile,
-    content?: string
+    content?: string,
+    auth?: AuthContext | null
   ): Promise<RoutingDecision> {
     const startTime = Date.now()
     
@@ -225,6 +230,18 @@ class ModelFallbackRouter {
       selectedModel = this.selectFallbackModel(selectedModel, useCase, userProfile)
     }
     
+    // Check spend quotas (throws BudgetExceededError past a hard limit)
+    const budget = aiBudgetManager.assertWithinBudget(
+      budgetContextFor(auth, useCase as UseCase),
+      {
+        tokens: estimateTokens(content || ''),
+        costUsd: this.models.get(selectedModel)?.costPerRequest || 0
+      }
+    )
+    if (budget.tier === 'degraded') {
+      selectedModel = this.selectCheaperModel(selectedModel, useCase, userProfile)
+    }
+    
     const routingTime = Date.now() - startTime
     
     return {
@@ -236,7 +253,9 @@ class ModelFallbackRouter {
       metadata: {
         useCase,
         applicableRules: applicableRules.length,
-        healthStatus: model?.status || 'unknown'
+        healthStatus: model?.status || 'unknown',
+        budgetTier: budget.tier,
+        budgetUtilization: budget.utilization
       }
     }
   }
@@ -485,6 +504,28 @@ class ModelFallbackRouter {
     return failedModel
   }
   
+  // Select the cheapest usable model when a requester is close to their budget
+  private selectCheaperModel(
+    currentModel: string,
+    useCase: string,
+    userProfile?: UserProfile
+  ): string {
+    const currentCost = this.models.get(currentModel)?.costPerRequest ?? Infinity
+    const cheapest = Array.from(this.models.values())
+      .filter(model =>
+        model.costPerRequest < currentCost &&
+        this.isModelHealthy(model) &&
+        !this.isCircuitOpen(model.modelId) &&
+        !this.isRateLimited(model.modelId)
+      )
+      .sort((a, b) => a.costPerRequest - b.costPerRequest)[0]
+    
+    if (!cheapest) return currentModel
+    
+    this.recordFailoverEvent(currentModel, cheapest.modelId, 'budget_limit', useCase, userProfile)
+    return cheapest.modelId
+  }
+  
   // Check if model is healthy
   private isModelHealthy(model: AIModel): boolean {
     return model.status === 'healthy' || model.status === 'degraded'
@@ -1,7 +1,16 @@
 // Multi-Model AI System
-// Intelligently routes between OpenAI and Claude based on use case and learning context
-
-import OpenAI from 'openai'
+// Intelligently routes between OpenAI, Claude and local/offline providers based on use case and learning context
+
+import {
+  estimateTokens,
+  getAIProvider,
+  isAIProviderId,
+  LOCAL_LLM_DEFAULT_MODEL,
+  type AIProviderId
+} from './ai-providers'
+import { aiBudgetManager, budgetContextFor, type BudgetCheck } from './ai-budget-manager'
+import type { AuthContext } from './auth-guard'
+import { currentAICaller } from './ai-caller'
 import type { 
   UserProfile, 
   ContentItem, 
@@ -12,10 +21,11 @@ import type {
 
 // AI Model Configuration
 export interface AIModelConfig {
-  provider: 'openai' | 'claude'
+  provider: AIProviderId
   model: string
   maxTokens: number
   temperature: number
+  costPer1kTokens: number // USD, blended input/output estimate used for budgets
   specialties: string[]
   strengths: string[]
   optimalUseCases: UseCase[]
@@ -46,12 +56,14 @@ export interface AIRequest {
   maxTokens?: number
   temperature?: number
   fallbackRequired?: boolean
+  prompt?: string // complete prompt sent as-is instead of the one built from the profile and context
+  auth?: AuthContext | null // signed-in caller, whose user and organization budgets the request is charged to; defaults to the route's caller
 }
 
 export interface AIResponse {
   content: string
   model: string
-  provider: 'openai' | 'claude'
+  provider: AIProviderId
   confidence: number
   tokensUsed: number
   responseTime: number
@@ -60,9 +72,19 @@ export interface AIResponse {
     useCase: UseCase
     requestType: string
     timestamp: string
+    budgetTier?: BudgetCheck['tier']
   }
 }
 
+// Receives each text delta as it arrives from a streaming provider
+export type AITokenListener = (token: string) => void
+
+// Pin use cases to a provider, e.g. keep everything on a local model in an air-gapped deployment
+export interface ProviderRoutingConfig {
+  defaultProvider?: AIProviderId
+  useCaseProviders: Partial<Record<UseCase, AIProviderId>>
+}
+
 // Model configurations optimized for specific use cases
 const AI_MODELS: Record<string, AIModelConfig> = {
   'openai-gpt4o-mini': {
@@ -70,6 +92,7 @@ const AI_MODELS: Record<string, AIModelConfig> = {
     model: 'gpt-4o-mini',
     maxTokens: 2000,
     temperature: 0.7,
+    costPer1kTokens: 0.0004,
     specialties: ['mathematics', 'science', 'programming', 'quiz_generation'],
     strengths: ['structured_responses', 'mathematical_reasoning', 'code_generation', 'factual_accuracy'],
     optimalUseCases: ['mathematics', 'science', 'programming', 'quiz_generation', 'general_tutoring']
@@ -79,6 +102,7 @@ const AI_MODELS: Record<string, AIModelConfig> = {
     model: 'claude-3-sonnet-20240229',
     maxTokens: 2000,
     temperature: 0.7,
+    costPer1kTokens: 0.009,
     specialties: ['creative_writing', 'essay_analysis', 'language_learning', 'philosophy', 'history'],
     strengths: ['creative_content', 'nuanced_analysis', 'conversational_tone', 'cultural_sensitivity'],
     optimalUseCases: ['creative_writing', 'essay_analysis', 'language_learning', 'history', 'philosophy', 'personalized_feedback']
@@ -88,34 +112,91 @@ const AI_MODELS: Record<string, AIModelConfig> = {
     model: 'claude-3-haiku-20240307',
     maxTokens: 1000,
     temperature: 0.5,
+    costPer1kTokens: 0.0008,
     specialties: ['quick_responses', 'content_explanation', 'study_planning'],
     strengths: ['fast_responses', 'concise_answers', 'cost_effective'],
     optimalUseCases: ['content_explanation', 'study_planning', 'general_tutoring']
+  },
+  'local-llm': {
+    provider: 'local',
+    model: LOCAL_LLM_DEFAULT_MODEL,
+    maxTokens: 1500,
+    temperature: 0.7,
+    costPer1kTokens: 0,
+    specialties: [],
+    strengths: ['offline_operation', 'data_residency', 'no_usage_cost'],
+    optimalUseCases: ['general_tutoring', 'content_explanation', 'study_planning']
+  },
+  'stub': {
+    provider: 'stub',
+    model: 'stub-deterministic',
+    maxTokens: 500,
+    temperature: 0,
+    costPer1kTokens: 0,
+    specialties: [],
+    strengths: ['deterministic_output', 'offline_operation'],
+    optimalUseCases: []
   }
 }
 
-// Initialize AI clients
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY || '',
-})
-
-// Claude client (using Anthropic SDK)
-const anthropic = (() => {
-  try {
-    // Dynamic import to handle optional dependency
-    const Anthropic = require('@anthropic-ai/sdk')
-    return new Anthropic({
-      apiKey: process.env.ANTHROPIC_API_KEY || '',
-    })
-  } catch (error) {
-    console.warn('Anthropic SDK not available, Claude features will use fallback')
-    return null
+// Hosted and local providers tried in order when the selected model fails
+const FALLBACK_PROVIDER_ORDER: AIProviderId[] = ['openai', 'claude', 'local']
+
+// AI_PROVIDER=local forces every use case onto one provider;
+// AI_USE_CASE_PROVIDERS="mathematics=local,quiz_generation=stub" pins individual use cases
+function readProviderRoutingConfig(): ProviderRoutingConfig {
+  const config: ProviderRoutingConfig = { useCaseProviders: {} }
+
+  const defaultProvider = process.env.AI_PROVIDER?.trim()
+  if (defaultProvider && isAIProviderId(defaultProvider)) {
+    config.defaultProvider = defaultProvider
+  }
+
+  for (const entry of (process.env.AI_USE_CASE_PROVIDERS || '').split(',')) {
+    const [useCase, provider] = entry.split('=').map(part => part.trim())
+    if (useCase && provider && isAIProviderId(provider)) {
+      config.useCaseProviders[useCase as UseCase] = provider
+    }
   }
-})()
+
+  return config
+}
 
 class MultiModelAI {
   private modelSelectionCache = new Map<string, string>()
   private performanceMetrics = new Map<string, number[]>()
+  private providerRouting: ProviderRoutingConfig = readProviderRoutingConfig()
+
+  /**
+   * Pin use cases (or everything) to specific providers
+   */
+  configureProviders(config: Partial<ProviderRoutingConfig>): ProviderRoutingConfig {
+    this.providerRouting = {
+      defaultProvider: 'defaultProvider' in config ? config.defaultProvider : this.providerRouting.defaultProvider,
+      useCaseProviders: { ...this.providerRouting.useCaseProviders, ...config.useCaseProviders }
+    }
+    this.modelSelectionCache.clear()
+    return this.providerRouting
+  }
+
+  /**
+   * Provider pinned for a use case, if any
+   */
+  getProviderForUseCase(useCase: UseCase): AIProviderId | undefined {
+    return this.providerRouting.useCaseProviders[useCase] || this.providerRouting.defaultProvider
+  }
+
+  /**
+   * Which providers are configured in this environment
+   */
+  getProviderStatus(): Record<AIProviderId, boolean> {
+    return {
+      openai: getAIProvider('openai').isAvailable(),
+      claude: getAIProvider('claude').isAvailable(),
+      local: getAIProvider('local').isAvailable(),
+      stub: getAIProvider('stub').isAvailable()
+    }
+  }
 
   /**
    * Intelligently select the optimal AI model based on use case and context
@@ -128,11 +209,11 @@ class MultiModelAI {
       return this.modelSelectionCache.get(cacheKey)!
     }
 
-    let bestModel = 'openai-gpt4o-mini' // Default fallback
-    let bestScore = 0
+    let bestModel = ''
+    let bestScore = -1
 
     // Score each model based on use case compatibility
-    for (const [modelKey, config] of Object.entries(AI_MODELS)) {
+    for (const [modelKey, config] of this.getCandidateModels(request)) {
       let score = 0
 
       // Primary use case match (40% weight)
@@ -152,48 +233,102 @@ class MultiModelAI {
       const performanceScore = this.getPerformanceScore(modelKey)
       score += performanceScore * 10
 
-      // Check availability
-      if (config.provider === 'claude' && !anthropic) {
-        score = 0 // Claude not available
-      }
-
       if (score > bestScore) {
         bestScore = score
         bestModel = modelKey
       }
     }
 
+    // Nothing configured: answer deterministically rather than failing
+    if (!bestModel) {
+      bestModel = 'stub'
+    }
+
     // Cache the selection
     this.modelSelectionCache.set(cacheKey, bestModel)
     
     return bestModel
   }
 
+  /**
+   * Models this request may use: a pinned provider's models as configured,
+   * otherwise every configured hosted/local provider
+   */
+  private getCandidateModels(request: AIRequest): Array<[string, AIModelConfig]> {
+    const pinnedProvider = this.getProviderForUseCase(request.useCase)
+
+    return Object.entries(AI_MODELS).filter(([, config]) => pinnedProvider
+      ? config.provider === pinnedProvider
+      : config.provider !== 'stub' && getAIProvider(config.provider).isAvailable()
+    )
+  }
+
+  /**
+   * Check the requester's quotas and pick the model to call: the optimal one normally,
+   * the cheapest candidate near a limit. Throws BudgetExceededError past a hard limit.
+   */
+  private async selectModelWithinBudget(request: AIRequest): Promise<{ selectedModel: string; budget: BudgetCheck }> {
+    // Fail open: an unreachable usage store must not take AI generation down with it
+    await aiBudgetManager.hydrate().catch(error => console.error('Failed to load AI budgets:', error))
+
+    let selectedModel = this.selectOptimalModel(request)
+    const budget = aiBudgetManager.assertWithinBudget(
+      this.budgetContextFor(request),
+      this.estimateUsage(request, AI_MODELS[selectedModel])
+    )
+
+    if (budget.tier === 'degraded') {
+      const cheapest = this.getCandidateModels(request)
+        .sort(([, a], [, b]) => a.costPer1kTokens - b.costPer1kTokens)[0]
+      if (cheapest && cheapest[1].costPer1kTokens < AI_MODELS[selectedModel].costPer1kTokens) {
+        selectedModel = cheapest[0]
+      }
+    }
+
+    return { selectedModel, budget }
+  }
+
+  private estimateUsage(request: AIRequest, config: AIModelConfig): { tokens: number; costUsd: number } {
+    const tokens = estimateTokens(this.buildPrompt(request)) + (request.maxTokens || config.maxTokens)
+    return { tokens, costUsd: (tokens / 1000) * config.costPer1kTokens }
+  }
+
+  // Requests without an explicit caller are charged to whoever the route is serving
+  private budgetContextFor(request: AIRequest) {
+    return budgetContextFor(request.auth !== undefined ? request.auth : currentAICaller(), request.useCase)
+  }
+
+  /**
+   * Account the tokens a response consumed against the requester's budgets
+   */
+  private recordUsage(request: AIRequest, response: AIResponse, budget: BudgetCheck): void {
+    const config = Object.values(AI_MODELS).find(model => model.model === response.model)
+    response.metadata.budgetTier = budget.tier
+
+    aiBudgetManager.recordUsage(this.budgetContextFor(request), {
+      model: response.model,
+      tokens: response.tokensUsed,
+      costUsd: (response.tokensUsed / 1000) * (config?.costPer1kTokens || 0),
+      degraded: budget.tier === 'degraded'
+    })
+  }
+
   /**
    * Generate content using the optimal AI model
    */
   async generateContent(request: AIRequest): Promise<AIResponse> {
     const startTime = Date.now()
-    const selectedModel = this.selectOptimalModel(request)
+    const { selectedModel, budget } = await this.selectModelWithinBudget(request)
     const modelConfig = AI_MODELS[selectedModel]
 
     try {
-      let response: AIResponse
-
-      if (modelConfig.provider === 'openai') {
-        response = await this.generateWithOpenAI(request, modelConfig)
-      } else if (modelConfig.provider === 'claude' && anthropic) {
-        response = await this.generateWithClaude(request, modelConfig)
-      } else {
-        // Fallback to OpenAI if Claude is not available
-        response = await this.generateWithOpenAI(request, AI_MODELS['openai-gpt4o-mini'])
-        response.fallbackUsed = true
-      }
+      const response = await this.generateWithModel(request, modelConfig)
 
       response.responseTime = Date.now() - startTime
 
       // Record performance metrics
       this.recordPerformance(selectedModel, response.responseTime, response.confidence)
+      this.recordUsage(request, response, budget)
 
       return response
 
@@ -202,7 +337,9 @@ class MultiModelAI {
 
       // Attempt fallback
       if (request.fallbackRequired !== false) {
-        return this.generateWithFallback(request, startTime)
+        const response = await this.generateWithFallback(request, startTime, modelConfig.provider)
+        this.recordUsage(request, response, budget)
+        return response
       }
 
       throw error
@@ -210,63 +347,69 @@ class MultiModelAI {
   }
 
   /**
-   * Generate content using OpenAI
+   * Stream content from the optimal AI model, emitting text deltas as they arrive.
+   * Resolves with the complete response once the stream ends.
    */
-  private async generateWithOpenAI(request: AIRequest, config: AIModelConfig): Promise<AIResponse> {
-    const prompt = this.buildPrompt(request)
-    
-    const completion = await openai.chat.completions.create({
-      model: config.model,
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: request.maxTokens || config.maxTokens,
-      temperature: request.temperature || config.temperature,
-    })
+  async generateContentStream(request: AIRequest, onToken: AITokenListener): Promise<AIResponse> {
+    const startTime = Date.now()
+    const { selectedModel, budget } = await this.selectModelWithinBudget(request)
+    const modelConfig = AI_MODELS[selectedModel]
+    let emitted = false
+    const emit: AITokenListener = token => {
+      emitted = true
+      onToken(token)
+    }
 
-    const content = completion.choices[0]?.message?.content || ''
-    const tokensUsed = completion.usage?.total_tokens || 0
+    try {
+      const response = await this.generateWithModel(request, modelConfig, emit)
 
-    return {
-      content,
-      model: config.model,
-      provider: 'openai',
-      confidence: this.calculateConfidence(content, request),
-      tokensUsed,
-      responseTime: 0, // Will be set by caller
-      fallbackUsed: false,
-      metadata: {
-        useCase: request.useCase,
-        requestType: request.requestType,
-        timestamp: new Date().toISOString()
+      response.responseTime = Date.now() - startTime
+      this.recordPerformance(selectedModel, response.responseTime, response.confidence)
+      this.recordUsage(request, response, budget)
+
+      return response
+
+    } catch (error) {
+      console.error(`AI streaming failed with ${selectedModel}:`, error)
+
+      // Text already sent to the client cannot be retracted, so only fall back before the first token
+      if (!emitted && request.fallbackRequired !== false) {
+        const response = await this.generateWithFallback(request, startTime, modelConfig.provider)
+        this.recordUsage(request, response, budget)
+        onToken(response.content)
+        return response
       }
+
+      throw error
     }
   }
 
   /**
-   * Generate content using Claude
+   * Generate (or stream, when a token listener is given) with a specific model's provider
    */
-  private async generateWithClaude(request: AIRequest, config: AIModelConfig): Promise<AIResponse> {
-    if (!anthropic) {
-      throw new Error('Claude client not available')
-    }
-
-    const prompt = this.buildPrompt(request)
-    
-    const completion = await anthropic.messages.create({
+  private async generateWithModel(
+    request: AIRequest,
+    config: AIModelConfig,
+    onToken?: AITokenListener
+  ): Promise<AIResponse> {
+    const provider = getAIProvider(config.provider)
+    const completionRequest = {
       model: config.model,
-      max_tokens: request.maxTokens || config.maxTokens,
-      temperature: request.temperature || config.temperature,
-      messages: [{ role: 'user', content: prompt }]
-    })
+      prompt: this.buildPrompt(request),
+      maxTokens: request.maxTokens || config.maxTokens,
+      temperature: request.temperature || config.temperature
+    }
 
-    const content = completion.content[0]?.text || ''
-    const tokensUsed = completion.usage?.input_tokens + completion.usage?.output_tokens || 0
+    const completion = onToken
+      ? await provider.stream(completionRequest, onToken)
+      : await provider.complete(completionRequest)
 
     return {
-      content,
+      content: completion.content,
       model: config.model,
-      provider: 'claude',
-      confidence: this.calculateConfidence(content, request),
-      tokensUsed,
+      provider: config.provider,
+      confidence: this.calculateConfidence(completion.content, request),
+      tokensUsed: completion.tokensUsed,
       responseTime: 0, // Will be set by caller
       fallbackUsed: false,
       metadata: {
@@ -280,30 +423,37 @@ class MultiModelAI {
   /**
    * Fallback generation when primary model fails
    */
-  private async generateWithFallback(request: AIRequest, startTime: number): Promise<AIResponse> {
+  private async generateWithFallback(request: AIRequest, startTime: number, failedProvider: AIProviderId): Promise<AIResponse> {
     console.log('Attempting fallback generation...')
     
-    // Try OpenAI as fallback
-    try {
-      const response = await this.generateWithOpenAI(request, AI_MODELS['openai-gpt4o-mini'])
-      response.fallbackUsed = true
-      response.responseTime = Date.now() - startTime
-      return response
-    } catch (error) {
-      // Final fallback with static content
-      return {
-        content: this.getStaticFallback(request),
-        model: 'static-fallback',
-        provider: 'openai',
-        confidence: 0.3,
-        tokensUsed: 0,
-        responseTime: Date.now() - startTime,
-        fallbackUsed: true,
-        metadata: {
-          useCase: request.useCase,
-          requestType: request.requestType,
-          timestamp: new Date().toISOString()
-        }
+    // Try the other configured providers in order
+    for (const providerId of FALLBACK_PROVIDER_ORDER) {
+      if (providerId === failedProvider || !getAIProvider(providerId).isAvailable()) continue
+      const config = Object.values(AI_MODELS).find(model => model.provider === providerId)!
+
+      try {
+        const response = await this.generateWithModel(request, config)
+        response.fallbackUsed = true
+        response.responseTime = Date.now() - startTime
+        return response
+      } catch (error) {
+        console.error(`Fallback generation failed with ${providerId}:`, error)
+      }
+    }
+
+    // Final fallback with static content
+    return {
+      content: this.getStaticFallback(request),
+      model: 'static-fallback',
+      provider: 'stub',
+      confidence: 0.3,
+      tokensUsed: 0,
+      responseTime: Date.now() - startTime,
+      fallbackUsed: true,
+      metadata: {
+        useCase: request.useCase,
+        requestType: request.requestType,
+        timestamp: new Date().toISOString()
       }
     }
   }
@@ -312,6 +462,8 @@ class MultiModelAI {
    * Build optimized prompt based on request and model
    */
   private buildPrompt(request: AIRequest): string {
+    if (request.prompt) return request.prompt
+
     const { userProfile, context, useCase, requestType } = request
 
     // Base prompt structure
@@ -535,7 +687,9 @@ class MultiModelAI {
           metrics.length > 0 ? metrics.reduce((sum, m) => sum + m, 0) / metrics.length : 0
         ])
       ),
-      cacheSize: this.modelSelectionCache.size
+      cacheSize: this.modelSelectionCache.size,
+      providers: this.getProviderStatus(),
+      providerRouting: this.providerRouting
     }
 
     return analytics
@@ -550,7 +704,8 @@ export async function generateAIContent(
   useCase: UseCase,
   userProfile: UserProfile,
   context: string,
-  requestType: 'content' | 'quiz' | 'feedback' | 'explanation' | 'planning' = 'content'
+  requestType: 'content' | 'quiz' | 'feedback' | 'explanation' | 'planning' = 'content',
+  auth?: AuthContext | null
 ): Promise<AIResponse> {
   return multiModelAI.generateContent({
     useCase,
@@ -558,14 +713,96 @@ export async function generateAIContent(
     context,
     requestType,
     priority: 'medium',
-    fallbackRequired: true
+    fallbackRequired: true,
+    auth
   })
 }
 
+export async function streamAIContent(
+  useCase: UseCase,
+  userProfile: UserProfile,
+  context: string,
+  onToken: AITokenListener,
+  requestType: 'content' | 'quiz' | 'feedback' | 'explanation' | 'planning' = 'content',
+  auth?: AuthContext | null
+): Promise<AIResponse> {
+  return multiModelAI.generateContentStream({
+    useCase,
+    userProfile,
+    context,
+    requestType,
+    priority: 'medium',
+    fallbackRequired: true,
+    auth
+  }, onToken)
+}
+
+// Map a learner's subject and topic onto the closest use case
+export function inferUseCase(subject: string, topic: string): UseCase {
+  const subjectLower = subject.toLowerCase()
+  const topicLower = topic.toLowerCase()
+
+  // Mathematical subjects
+  if (subjectLower.includes('math') || subjectLower.includes('algebra') || 
+      subjectLower.includes('calculus') || subjectLower.includes('geometry') ||
+      topicLower.includes('equation') || topicLower.includes('formula')) {
+    return 'mathematics'
+  }
+
+  // Science subjects
+  if (subjectLower.includes('science') || subjectLower.includes('physics') ||
+      subjectLower.includes('chemistry') || subjectLower.includes('biology')) {
+    return 'science'
+  }
+
+  // Programming and technology
+  if (subjectLower.includes('programming') || subjectLower.includes('coding') ||
+      subjectLower.includes('computer') || subjectLower.includes('software') ||
+      topicLower.includes('code') || topicLower.includes('algorithm')) {
+    return 'programming'
+  }
+
+  // Writing and language
+  if (subjectLower.includes('writing') || subjectLower.includes('english') ||
+      subjectLower.includes('literature') || topicLower.includes('essay') ||
+      topicLower.includes('story') || topicLower.includes('creative')) {
+    return 'creative_writing'
+  }
+
+  // Language learning
+  if (subjectLower.includes('language') || subjectLower.includes('spanish') ||
+      subjectLower.includes('french') || subjectLower.includes('german') ||
+      subjectLower.includes('chinese') || subjectLower.includes('japanese')) {
+    return 'language_learning'
+  }
+
+  // History
+  if (subjectLower.includes('history') || topicLower.includes('historical') ||
+      topicLower.includes('ancient') || topicLower.includes('war')) {
+    return 'history'
+  }
+
+  // Philosophy
+  if (subjectLower.includes('philosophy') || topicLower.includes('ethical') ||
+      topicLower.includes('moral') || topicLower.includes('philosophical')) {
+    return 'philosophy'
+  }
+
+  // Business
+  if (subjectLower.includes('business') || subjectLower.includes('marketing') ||
+      subjectLower.includes('finance') || subjectLower.includes('management')) {
+    return 'business'
+  }
+
+  // Default to general tutoring
+  return 'general_tutoring'
+}
+
 export async function generateSmartQuiz(
   subject: string,
   userProfile: UserProfile,
-  context: string
+  context: string,
+  auth?: AuthContext | null
 ): Promise<AIResponse> {
   const useCase = subject.toLowerCase().includes('math') ? 'mathematics' :
                  subject.toLowerCase().includes('science') ? 'science' :
@@ -578,14 +815,16 @@ export async function generateSmartQuiz(
     context,
     requestType: 'quiz',
     priority: 'high',
-    fallbackRequired: true
+    fallbackRequired: true,
+    auth
   })
 }
 
 export async function generatePersonalizedFeedback(
   userProfile: UserProfile,
   context: string,
-  subject: string
+  subject: string,
+  auth?: AuthContext | null
 ): Promise<AIResponse> {
   const useCase = subject.toLowerCase().includes('writing') ? 'creative_writing' :
                  subject.toLowerCase().includes('essay') ? 'essay_analysis' :
@@ -597,6 +836,7 @@ export async function generatePersonalizedFeedback(
     context,
     requestType: 'feedback',
     priority: 'high',
-    fallbackRequired: true
+    fallbackRequired: true,
+    auth
   })
 }
\ No newline at end of file
@@ -0,0 +1,592 @@
+// Notification Channels
+// Delivery adapters behind the notification service: the in-app inbox (public.notifications),
+// email over SMTP and Web Push with VAPID and aes128gcm payload encryption (RFC 8291/8292).
+// Both network protocols are spoken directly over Node's net, tls and crypto modules.
+
+import { connect as connectPlain, type Socket } from 'net'
+import { connect as connectTls, type TLSSocket } from 'tls'
+import {
+  createCipheriv,
+  createECDH,
+  createHmac,
+  createPrivateKey,
+  randomBytes,
+  randomUUID,
+  sign as signData
+} from 'crypto'
+import type {
+  NotificationChannel,
+  NotificationPriority,
+  NotificationType,
+  RenderedEmail
+} from './notification-templates'
+
+export interface OutgoingNotification {
+  notificationId: string
+  userId: string
+  type: NotificationType
+  title: string
+  message: string
+  actionUrl?: string
+  priority: NotificationPriority
+  channels: NotificationChannel[]
+  createdAt: Date
+  expiresAt?: Date
+}
+
+export interface PushSubscriptionRecord {
+  endpoint: string
+  keys: { p256dh: string; auth: string } // base64url, as PushSubscription.toJSON() returns them
+  userAgent?: string
+  createdAt: Date
+}
+
+export interface InAppNotification extends OutgoingNotification {
+  isRead: boolean
+}
+
+export interface DeliveryResult {
+  status: 'sent' | 'failed' | 'skipped'
+  error?: string
+  retryable?: boolean
+  expiredEndpoints?: string[] // push subscriptions the push service no longer knows
+}
+
+// ==================================================================
+// IN-APP
+// ==================================================================
+
+export interface InAppStore {
+  deliver(notification: OutgoingNotification): Promise<DeliveryResult>
+  list(userId: string, options?: { unreadOnly?: boolean; limit?: number }): Promise<InAppNotification[]>
+  markRead(userId: string, notificationIds: string[]): Promise<void>
+}
+
+// Development and tests
+export class InMemoryInAppStore implements InAppStore {
+  private inbox = new Map<string, InAppNotification[]>()
+
+  async deliver(notification: OutgoingNotification): Promise<DeliveryResult> {
+    const notifications = this.inbox.get(notification.userId) || []
+    notifications.push({ ...notification, isRead: false })
+    this.inbox.set(notification.userId, notifications)
+    return { status: 'sent' }
+  }
+
+  async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<InAppNotification[]> {
+    const now = Date.now()
+    return (this.inbox.get(userId) || [])
+      .filter(notification => !options.unreadOnly || !notification.isRead)
+      .filter(notification => !notification.expiresAt || notification.expiresAt.getTime() > now)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, options.limit || 50)
+  }
+
+  async markRead(userId: string, notificationIds: string[]): Promise<void> {
+    for (const notification of this.inbox.get(userId) || []) {
+      if (notificationIds.includes(notification.notificationId)) notification.isRead = true
+    }
+  }
+}
+
+// Rows in public.notifications, which the client can also read directly under RLS
+export class SupabaseInAppStore implements InAppStore {
+  private readonly table = 'notifications'
+
+  // Loaded lazily so importing the channels never requires Supabase credentials
+  private async client() {
+    const { supabaseAdmin } = await import('./supabase')
+    return supabaseAdmin
+  }
+
+  async deliver(notification: OutgoingNotification): Promise<DeliveryResult> {
+    const client = await this.client()
+    const { error } = await client.from(this.table).insert({
+      id: notification.notificationId,
+      user_id: notification.userId,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      action_url: notification.actionUrl || null,
+      channels: notification.channels,
+      priority: notification.priority,
+      is_sent: true,
+      sent_at: new Date().toISOString(),
+      created_at: notification.createdAt.toISOString(),
+      expires_at: notification.expiresAt?.toISOString() || null
+    })
+
+    if (error) {
+      // A duplicate id means an earlier attempt already landed
+      if (error.code === '23505') return { status: 'sent' }
+      return { status: 'failed', error: error.message, retryable: true }
+    }
+    return { status: 'sent' }
+  }
+
+  async list(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<InAppNotification[]> {
+    const client = await this.client()
+    let query = client
+      .from(this.table)
+      .select('*')
+      .eq('user_id', userId)
+      .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+      .order('created_at', { ascending: false })
+      .limit(options.limit || 50)
+    if (options.unreadOnly) query = query.eq('is_read', false)
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to load notifications: ${error.message}`)
+    }
+
+    return (data || []).map(row => ({
+      notificationId: row.id,
+      userId: row.user_id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      actionUrl: row.action_url || undefined,
+      priority: row.priority,
+      channels: row.channels as NotificationChannel[],
+      createdAt: new Date(row.created_at),
+      expiresAt: row.expires_at ? new Date(row.expires_at) : undefined,
+      isRead: row.is_read
+    }))
+  }
+
+  async markRead(userId: string, notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return
+    const client = await this.client()
+    const { error } = await client
+      .from(this.table)
+      .update({ is_read: true })
+      .eq('user_id', userId)
+      .in('id', notificationIds)
+
+    if (error) {
+      throw new Error(`Failed to mark notifications read: ${error.message}`)
+    }
+  }
+}
+
+let activeInAppStore: InAppStore | null = null
+
+// Supabase on the server when a service key is configured, memory everywhere else.
+// NOTIFICATION_INBOX=memory|supabase overrides the detection.
+export function getInAppStore(): InAppStore {
+  if (!activeInAppStore) {
+    const mode = process.env.NOTIFICATION_INBOX
+    const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY
+    activeInAppStore = mode === 'supabase' || (mode !== 'memory' && typeof window === 'undefined' && hasSupabase)
+      ? new SupabaseInAppStore()
+      : new InMemoryInAppStore()
+  }
+  return activeInAppStore
+}
+
+// Swap the inbox (tests, scripts)
+export function setInAppStore(store: InAppStore | null): void {
+  activeInAppStore = store
+}
+
+// ==================================================================
+// EMAIL (SMTP)
+// ==================================================================
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean // implicit TLS (port 465); otherwise STARTTLS when the server offers it
+  requireTls: boolean // refuse to send over a plain connection
+  allowPlaintextAuth: boolean // send credentials over a plain connection, for local relays only
+  username?: string
+  password?: string
+  from: string
+  timeoutMs: number
+}
+
+export interface EmailMessage extends RenderedEmail {
+  to: string
+}
+
+// e.g. SMTP_HOST=localhost SMTP_PORT=2525 against scripts/smtp-sink.js
+export function smtpConfigFromEnv(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST
+  if (!host) return null
+  const port = Number(process.env.SMTP_PORT || 587)
+  return {
+    host,
+    port,
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    requireTls: process.env.SMTP_REQUIRE_TLS === 'true',
+    allowPlaintextAuth: process.env.SMTP_ALLOW_PLAINTEXT_AUTH === 'true',
+    username: process.env.SMTP_USER,
+    password: process.env.SMTP_PASSWORD,
+    from: process.env.SMTP_FROM || `Learning Platform <no-reply@${host}>`,
+    timeoutMs: 30_000
+  }
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public code: number // SMTP reply code, 0 for connection problems
+  ) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+// Reads CRLF-terminated replies, joining multi-line ones ("250-..." continues, "250 ..." ends)
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private waiting: (() => void) | null = null
+  private failure: Error | null = null
+
+  constructor(public socket: Socket, timeoutMs: number) {
+    this.attach(socket, timeoutMs)
+  }
+
+  attach(socket: Socket, timeoutMs: number): void {
+    this.socket = socket
+    socket.setTimeout(timeoutMs)
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = this.buffer.indexOf('\r\n')) >= 0) {
+        this.lines.push(this.buffer.slice(0, index))
+        this.buffer = this.buffer.slice(index + 2)
+      }
+      this.wake()
+    })
+    socket.on('timeout', () => this.fail(new SmtpError('SMTP connection timed out', 0)))
+    socket.on('error', error => this.fail(new SmtpError(`SMTP connection failed: ${error.message}`, 0)))
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed', 0)))
+  }
+
+  // The plain socket's listeners must stop consuming once TLS takes over
+  detach(): Socket {
+    this.socket.removeAllListeners('data')
+    this.socket.removeAllListeners('timeout')
+    this.socket.removeAllListeners('close')
+    this.socket.removeAllListeners('error')
+    return this.socket
+  }
+
+  private fail(error: Error): void {
+    this.failure = this.failure || error
+    this.wake()
+  }
+
+  private wake(): void {
+    const waiting = this.waiting
+    this.waiting = null
+    waiting?.()
+  }
+
+  async reply(): Promise<{ code: number; lines: string[] }> {
+    const collected: string[] = []
+    for (;;) {
+      while (this.lines.length > 0) {
+        const line = this.lines.shift()!
+        collected.push(line.slice(4))
+        if (line[3] !== '-') return { code: Number(line.slice(0, 3)), lines: collected }
+      }
+      if (this.failure) throw this.failure
+      await new Promise<void>(resolve => { this.waiting = resolve })
+    }
+  }
+
+  async command(line: string | null, expected: number[]): Promise<string[]> {
+    if (line !== null) this.socket.write(`${line}\r\n`)
+    const { code, lines } = await this.reply()
+    if (!expected.includes(code)) {
+      const shown = line?.startsWith('AUTH') ? 'AUTH' : line || 'greeting'
+      throw new SmtpError(`${shown} rejected: ${code} ${lines.join(' ')}`, code)
+    }
+    return lines
+  }
+}
+
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/)
+  return (match ? match[1] : mailbox).trim()
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function base64Lines(text: string): string {
+  return (Buffer.from(text, 'utf8').toString('base64').match(/.{1,76}/g) || []).join('\r\n')
+}
+
+export function buildMimeMessage(from: string, message: EmailMessage): string {
+  const boundary = `=_${randomBytes(12).toString('hex')}`
+  const domain = addressOf(from).split('@')[1] || 'localhost'
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n')
+}
+
+/**
+ * Send one message: EHLO, STARTTLS when offered, AUTH PLAIN when credentials are configured
+ * (over TLS only, unless plaintext AUTH is allowed), then MAIL/RCPT/DATA. Replies outside the expected codes raise SmtpError.
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: EmailMessage): Promise<void> {
+  const socket = await new Promise<Socket>((resolve, reject) => {
+    const connected = config.secure
+      ? connectTls({ host: config.host, port: config.port, servername: config.host }, () => resolve(connected))
+      : connectPlain({ host: config.host, port: config.port }, () => resolve(connected))
+    connected.once('error', error => reject(new SmtpError(`SMTP connection failed: ${error.message}`, 0)))
+  })
+  const connection = new SmtpConnection(socket, config.timeoutMs)
+  const helo = `EHLO ${process.env.SMTP_HELO_NAME || 'localhost'}`
+
+  try {
+    await connection.command(null, [220])
+    let capabilities = await connection.command(helo, [250])
+    let encrypted = config.secure
+
+    if (!encrypted && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+      await connection.command('STARTTLS', [220])
+      const plain = connection.detach()
+      const upgraded = await new Promise<TLSSocket>((resolve, reject) => {
+        const secured = connectTls({ socket: plain, servername: config.host }, () => resolve(secured))
+        secured.once('error', error => reject(new SmtpError(`STARTTLS failed: ${error.message}`, 0)))
+      })
+      connection.attach(upgraded, config.timeoutMs)
+      capabilities = await connection.command(helo, [250])
+      encrypted = true
+    }
+
+    if (!encrypted && config.requireTls) {
+      throw new SmtpError('SMTP server does not offer STARTTLS and SMTP_REQUIRE_TLS is set', 0)
+    }
+
+    if (config.username) {
+      // AUTH PLAIN is only base64, so a plain connection would hand the password to anyone on the path
+      if (!encrypted && !config.allowPlaintextAuth) {
+        throw new SmtpError('SMTP server does not offer STARTTLS; refusing to send credentials in the clear (set SMTP_ALLOW_PLAINTEXT_AUTH to override)', 0)
+      }
+      const credentials = Buffer.from(`\0${config.username}\0${config.password || ''}`, 'utf8').toString('base64')
+      await connection.command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await connection.command(`MAIL FROM:<${addressOf(config.from)}>`, [250])
+    await connection.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251])
+    await connection.command('DATA', [354])
+    // Dot-stuffing: a line starting with "." gets another one so it is not read as the terminator
+    const body = buildMimeMessage(config.from, message).replace(/\r\n\./g, '\r\n..')
+    await connection.command(`${body}\r\n.`, [250])
+    await connection.command('QUIT', [221]).catch(() => undefined)
+  } finally {
+    connection.socket.destroy()
+  }
+}
+
+export async function deliverEmail(to: string, email: RenderedEmail): Promise<DeliveryResult> {
+  const config = smtpConfigFromEnv()
+  if (!config) return { status: 'skipped', error: 'SMTP is not configured' }
+
+  try {
+    await sendSmtpMail(config, { ...email, to })
+    return { status: 'sent' }
+  } catch (error) {
+    const code = error instanceof SmtpError ? error.code : 0
+    // 5xx replies are permanent (unknown mailbox, rejected content); everything else may pass later
+    return { status: 'failed', error: (error as Error).message, retryable: code < 500 }
+  }
+}
+
+// ==================================================================
+// WEB PUSH
+// ==================================================================
+
+// Browser push services; a subscription pointing anywhere else would have the server POST to it,
+// including to internal addresses. PUSH_SERVICE_HOSTS (comma-separated) adds self-hosted services.
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge, Opera
+  'android.googleapis.com',
+  'push.services.mozilla.com', // Firefox
+  'push.apple.com', // Safari
+  'notify.windows.com' // legacy Edge
+]
+
+export function isPushServiceEndpoint(endpoint: string): boolean {
+  let url: URL
+  try {
+    url = new URL(endpoint)
+  } catch {
+    return false
+  }
+  if (url.protocol !== 'https:' || url.port || url.username || url.password) return false
+
+  const extra = (process.env.PUSH_SERVICE_HOSTS || '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean)
+  const host = url.hostname.toLowerCase()
+  return [...PUSH_SERVICE_HOSTS, ...extra].some(allowed => host === allowed || host.endsWith(`.${allowed}`))
+}
+
+export interface VapidConfig {
+  publicKey: string // base64url uncompressed P-256 point, shared with the browser
+  privateKey: string // base64url 32-byte scalar
+  subject: string // mailto: or https: contact for push services
+}
+
+// Generate a key pair once with `node scripts/generate-vapid-keys.js`
+export function vapidConfigFromEnv(): VapidConfig | null {
+  const publicKey = process.env.VAPID_PUBLIC_KEY
+  const privateKey = process.env.VAPID_PRIVATE_KEY
+  if (!publicKey || !privateKey) return null
+  return { publicKey, privateKey, subject: process.env.VAPID_SUBJECT || 'mailto:notifications@localhost' }
+}
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64url(value: string): Buffer {
+  return Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+}
+
+function hmac(key: Buffer, data: Buffer): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+// RFC 8292: an ES256 JWT for the push service's origin, signed with the application server key
+export function vapidAuthorization(endpoint: string, vapid: VapidConfig, now = Date.now()): string {
+  const publicKey = fromBase64url(vapid.publicKey)
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65))
+    },
+    format: 'jwk'
+  })
+
+  const header = base64url(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })))
+  const claims = base64url(Buffer.from(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now / 1000) + 12 * 60 * 60,
+    sub: vapid.subject
+  })))
+  const signature = signData('sha256', Buffer.from(`${header}.${claims}`), { key: privateKey, dsaEncoding: 'ieee-p1363' })
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${vapid.publicKey}`
+}
+
+// RFC 8291: ECDH with the subscription key, HKDF with its auth secret, one aes128gcm record
+export function encryptPushPayload(subscription: PushSubscriptionRecord, payload: string): Buffer {
+  const userAgentKey = fromBase64url(subscription.keys.p256dh)
+  const authSecret = fromBase64url(subscription.keys.auth)
+
+  const ecdh = createECDH('prime256v1')
+  const serverKey = ecdh.generateKeys()
+  const sharedSecret = ecdh.computeSecret(userAgentKey)
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentKey, serverKey, Buffer.from([1])])
+  const inputKey = hmac(hmac(authSecret, sharedSecret), keyInfo)
+
+  const salt = randomBytes(16)
+  const pseudoRandomKey = hmac(salt, inputKey)
+  const contentKey = hmac(pseudoRandomKey, Buffer.from('Content-Encoding: aes128gcm\0\x01')).subarray(0, 16)
+  const nonce = hmac(pseudoRandomKey, Buffer.from('Content-Encoding: nonce\0\x01')).subarray(0, 12)
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce)
+  // 0x02 marks the last (and only) record
+  const encrypted = Buffer.concat([cipher.update(Buffer.concat([Buffer.from(payload, 'utf8'), Buffer.from([2])])), cipher.final(), cipher.getAuthTag()])
+
+  const recordSize = Buffer.alloc(4)
+  recordSize.writeUInt32BE(4096)
+  return Buffer.concat([salt, recordSize, Buffer.from([serverKey.length]), serverKey, encrypted])
+}
+
+const PUSH_URGENCY: Record<NotificationPriority, string> = {
+  low: 'low',
+  medium: 'normal',
+  high: 'high',
+  urgent: 'high'
+}
+
+export async function deliverPush(
+  subscriptions: PushSubscriptionRecord[],
+  notification: OutgoingNotification
+): Promise<DeliveryResult> {
+  const vapid = vapidConfigFromEnv()
+  if (!vapid) return { status: 'skipped', error: 'Web push is not configured' }
+  if (subscriptions.length === 0) return { status: 'skipped', error: 'No push subscriptions' }
+
+  const payload = JSON.stringify({
+    id: notification.notificationId,
+    title: notification.title,
+    body: notification.message,
+    url: notification.actionUrl || '/'
+  })
+  const ttl = notification.expiresAt
+    ? Math.max(0, Math.floor((notification.expiresAt.getTime() - Date.now()) / 1000))
+    : 24 * 60 * 60
+
+  const expiredEndpoints: string[] = []
+  const errors: string[] = []
+  let delivered = 0
+
+  for (const subscription of subscriptions) {
+    // Stored before push services were restricted; drop it like an expired one
+    if (!isPushServiceEndpoint(subscription.endpoint)) {
+      expiredEndpoints.push(subscription.endpoint)
+      continue
+    }
+
+    try {
+      const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: vapidAuthorization(subscription.endpoint, vapid),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(ttl),
+          Urgency: PUSH_URGENCY[notification.priority]
+        },
+        body: new Uint8Array(encryptPushPayload(subscription, payload))
+      })
+
+      if (response.ok) {
+        delivered++
+      } else if (response.status === 404 || response.status === 410) {
+        expiredEndpoints.push(subscription.endpoint)
+      } else {
+        errors.push(`${new URL(subscription.endpoint).host}: ${response.status}`)
+      }
+    } catch (error) {
+      errors.push((error as Error).message)
+    }
+  }
+
+  if (delivered > 0) return { status: 'sent', expiredEndpoints }
+  if (errors.length === 0) return { status: 'skipped', error: 'Every push subscription has expired', expiredEndpoints }
+  return { status: 'failed', error: errors.join('; '), retryable: true, expiredEndpoints }
+}
@@ -0,0 +1,281 @@
+// Notification Scheduler
+// Periodic sweep (Vercel cron, /api/notifications/scheduler) that turns engine state into notifications:
+// spaced-repetition reviews due today, corporate training deadlines, compliance recertifications and
+// escalations, community challenges about to end and weekly parent reports. Dedupe keys make every reminder fire once per day, deadline bucket or week, so the
+// sweep can run as often as the cron likes; it finishes by dispatching whatever deliveries are due.
+
+import { spacedRepetitionEngine } from './spaced-repetition-engine'
+import { corporateTrainingEngine } from './corporate-training-engine'
+import { communityLearningEngine } from './community-learning-engine'
+import { notificationService, type DispatchSummary } from './notification-service'
+
+export interface SchedulerRunSummary {
+  ranAt: Date
+  reviewReminders: number
+  trainingDeadlines: number
+  complianceNotices: number
+  challengeReminders: number
+  parentReports: number
+  dispatch: DispatchSummary
+  errors: string[]
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Deadline reminders go out once per bucket: a week ahead, three days ahead, the last day, then overdue
+const DEADLINE_BUCKETS = [
+  { key: 'overdue', withinDays: 0 },
+  { key: '1d', withinDays: 1 },
+  { key: '3d', withinDays: 3 },
+  { key: '7d', withinDays: 7 }
+]
+
+const CHALLENGE_REMINDER_HOURS = 24
+
+function formatDate(date: Date, timezone?: string): string {
+  try {
+    return date.toLocaleDateString('en-US', { dateStyle: 'medium', timeZone: timezone || 'UTC' })
+  } catch {
+    return date.toLocaleDateString('en-US', { dateStyle: 'medium', timeZone: 'UTC' })
+  }
+}
+
+// ISO 8601 week, e.g. 2026-W07
+function isoWeek(date: Date): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+  const weekday = day.getUTCDay() || 7
+  day.setUTCDate(day.getUTCDate() + 4 - weekday)
+  const yearStart = Date.UTC(day.getUTCFullYear(), 0, 1)
+  const week = Math.ceil(((day.getTime() - yearStart) / DAY_MS + 1) / 7)
+  return `${day.getUTCFullYear()}-W${String(week).padStart(2, '0')}`
+}
+
+async function sendReviewReminders(now: Date): Promise<number> {
+  const day = now.toISOString().slice(0, 10)
+  let sent = 0
+
+  for (const learnerId of spacedRepetitionEngine.getLearnerIds()) {
+    const due = spacedRepetitionEngine.getItemsDueToday(learnerId)
+    if (due.length === 0) continue
+
+    const overdue = due.filter(item => item.overdue_days >= 1).length
+    const result = await notificationService.notify({
+      userId: learnerId,
+      template: 'review_due',
+      data: {
+        count: due.length,
+        overdueNote: overdue > 0 ? ` (${overdue} overdue)` : ''
+      },
+      dedupeKey: `review_due:${day}`,
+      expiresAt: new Date(now.getTime() + DAY_MS),
+      now
+    })
+    if (!result.duplicate) sent++
+  }
+  return sent
+}
+
+async function sendTrainingDeadlines(now: Date): Promise<number> {
+  const horizon = new Date(now.getTime() + 7 * DAY_MS)
+  let sent = 0
+
+  for (const { employee, program, progress } of corporateTrainingEngine.getUpcomingDeadlines(horizon)) {
+    const deadline = new Date(progress.nextDeadline!)
+    const remainingDays = (deadline.getTime() - now.getTime()) / DAY_MS
+    const bucket = remainingDays < 0
+      ? DEADLINE_BUCKETS[0]
+      : DEADLINE_BUCKETS.slice(1).find(candidate => remainingDays <= candidate.withinDays)!
+
+    const result = await notificationService.notify({
+      userId: employee.employeeId,
+      template: 'training_deadline',
+      data: {
+        programTitle: program.title,
+        dueLabel: bucket.key === 'overdue'
+          ? 'is overdue'
+          : bucket.key === '1d' ? 'is due within a day' : `is due in ${Math.ceil(remainingDays)} days`,
+        progress: Math.round(progress.progressPercentage),
+        deadline: formatDate(deadline, employee.timezone)
+      },
+      priority: bucket.key === 'overdue' || bucket.key === '1d' ? 'urgent' : undefined,
+      dedupeKey: `training_deadline:${program.programId}:${deadline.toISOString()}:${bucket.key}`,
+      email: employee.email,
+      now
+    })
+    if (!result.duplicate) sent++
+  }
+  return sent
+}
+
+// Runs the compliance cycle, then tells re-enrolled employees and the managers of lapsed ones
+async function sendComplianceNotices(now: Date): Promise<number> {
+  const { recertificationEnrollments, escalations } = await corporateTrainingEngine.runComplianceCycle(now)
+  let sent = 0
+
+  for (const { employeeId, requirementId, programId, progress } of recertificationEnrollments) {
+    const employee = corporateTrainingEngine.getEmployeeProfile(employeeId)!
+    const requirement = corporateTrainingEngine.getCompanyProfile(employee.companyId)?.complianceRequirements
+      .find(req => req.requirementId === requirementId)
+    const certification = corporateTrainingEngine.getCertifications(employeeId, now)
+      .find(cert => cert.name === requirement?.certificationName && cert.status !== 'revoked')
+    const statusNote = !certification
+      ? 'This certification is required for your role.'
+      : certification.status === 'expired'
+        ? `Your certification expired on ${formatDate(new Date(certification.expiresAt!), employee.timezone)}.`
+        : `Your certification expires on ${formatDate(new Date(certification.expiresAt!), employee.timezone)}.`
+
+    const result = await notificationService.notify({
+      userId: employeeId,
+      template: 'recertification_due',
+      data: {
+        certification: requirement?.certificationName || 'compliance',
+        programTitle: corporateTrainingEngine.getTrainingProgram(programId)?.title || 'the certification program',
+        statusNote,
+        deadline: formatDate(new Date(progress.nextDeadline!), employee.timezone)
+      },
+      dedupeKey: `recertification_due:${requirementId}:${new Date(progress.enrollmentDate).toISOString()}`,
+      email: employee.email,
+      now
+    })
+    if (!result.duplicate) sent++
+  }
+
+  const byManager = new Map<string, typeof escalations>()
+  for (const escalation of escalations) {
+    byManager.set(escalation.managerId, [...(byManager.get(escalation.managerId) || []), escalation])
+  }
+
+  for (const [managerId, lapses] of Array.from(byManager.entries())) {
+    const manager = corporateTrainingEngine.getEmployeeProfile(managerId)
+    const requirements = corporateTrainingEngine.getCompanyProfile(lapses[0].companyId)?.complianceRequirements || []
+    const described = lapses.map(lapse => {
+      const name = corporateTrainingEngine.getEmployeeProfile(lapse.employeeId)?.name || lapse.employeeId
+      const requirement = requirements.find(req => req.requirementId === lapse.requirementId)?.name || lapse.requirementId
+      const since = formatDate(new Date(lapse.lapsedSince), manager?.timezone)
+      return `${name} (${requirement}, ${lapse.state === 'expired' ? 'expired' : 'overdue'} since ${since}${lapse.level === 2 ? ', via their manager' : ''})`
+    })
+
+    const result = await notificationService.notify({
+      userId: managerId,
+      template: 'compliance_escalation',
+      data: {
+        lapseLabel: lapses.length === 1 ? '1 compliance lapse' : `${lapses.length} compliance lapses`,
+        lapses: described.join('; ')
+      },
+      dedupeKey: `compliance_escalation:${lapses[0].escalationId}`,
+      email: manager?.email,
+      now
+    })
+    if (!result.duplicate) sent++
+  }
+
+  return sent
+}
+
+// Community members are keyed by their user id
+async function sendChallengeReminders(now: Date): Promise<number> {
+  const until = new Date(now.getTime() + CHALLENGE_REMINDER_HOURS * HOUR_MS)
+  let sent = 0
+
+  for (const { challenge, participants } of communityLearningEngine.getChallengesEndingBefore(until)) {
+    const endDate = new Date(challenge.timeline.endDate)
+    const hoursLeft = Math.max(1, Math.round((endDate.getTime() - now.getTime()) / HOUR_MS))
+
+    for (const participant of participants) {
+      if (participant.progressPercentage >= 100) continue
+
+      const result = await notificationService.notify({
+        userId: participant.memberId,
+        template: 'challenge_ending',
+        data: {
+          challengeTitle: challenge.title,
+          dueLabel: hoursLeft === 1 ? 'within the hour' : `in ${hoursLeft} hours`,
+          progress: Math.round(participant.progressPercentage),
+          deadline: endDate.toUTCString(),
+          points: challenge.rewards.points
+        },
+        dedupeKey: `challenge_ending:${challenge.challengeId}`,
+        expiresAt: endDate,
+        now
+      })
+      if (!result.duplicate) sent++
+    }
+  }
+  return sent
+}
+
+// Guardian links live in Supabase only, so reports are skipped when it is not configured
+async function sendParentReports(now: Date): Promise<number> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return 0
+
+  const { supabaseAdmin } = await import('./supabase')
+  const { data: links, error } = await supabaseAdmin.from('guardian_links').select('parent_id, child_id')
+  if (error) {
+    throw new Error(`Failed to load guardian links: ${error.message}`)
+  }
+  if (!links || links.length === 0) return 0
+
+  const childIds = Array.from(new Set(links.map(link => link.child_id)))
+  const { data: children } = await supabaseAdmin.from('profiles').select('id, name').in('id', childIds)
+  const names = new Map((children || []).map(child => [child.id, child.name]))
+
+  const week = isoWeek(now)
+  const since = new Date(now.getTime() - 7 * DAY_MS)
+  let sent = 0
+
+  for (const link of links) {
+    const summary = spacedRepetitionEngine.getReviewSummary(link.child_id, since)
+    const result = await notificationService.notify({
+      userId: link.parent_id,
+      template: 'parent_weekly_report',
+      data: {
+        childName: names.get(link.child_id) || 'Your child',
+        reviews: summary.reviews,
+        recall: Math.round(summary.average_recall * 100),
+        dueCount: summary.due_today
+      },
+      dedupeKey: `parent_weekly_report:${link.child_id}:${week}`,
+      now
+    })
+    if (!result.duplicate) sent++
+  }
+  return sent
+}
+
+/**
+ * One scheduler pass. A failing source is logged and reported in `errors`; the others still run.
+ */
+export async function runNotificationScheduler(now = new Date()): Promise<SchedulerRunSummary> {
+  await Promise.all([
+    notificationService.hydrate(),
+    spacedRepetitionEngine.hydrate(),
+    corporateTrainingEngine.hydrate(),
+    communityLearningEngine.hydrate()
+  ])
+
+  const errors: string[] = []
+  const step = async (name: string, run: (at: Date) => Promise<number>): Promise<number> => {
+    try {
+      return await run(now)
+    } catch (error) {
+      console.error(`Notification scheduler step failed (${name}):`, error)
+      errors.push(`${name}: ${(error as Error).message}`)
+      return 0
+    }
+  }
+
+  const summary: SchedulerRunSummary = {
+    ranAt: now,
+    reviewReminders: await step('review_reminders', sendReviewReminders),
+    trainingDeadlines: await step('training_deadlines', sendTrainingDeadlines),
+    complianceNotices: await step('compliance', sendComplianceNotices),
+    challengeReminders: await step('challenge_reminders', sendChallengeReminders),
+    parentReports: await step('parent_reports', sendParentReports),
+    dispatch: await notificationService.dispatchDue(now),
+    errors
+  }
+
+  await Promise.all([notificationService.flush(), corporateTrainingEngine.flush()])
+  return summary
+}
@@ -0,0 +1,623 @@
+// Notification Service
+// Turns template notifications into per-channel deliveries: the user's channel preferences pick the
+// channels, quiet hours hold back email and push until the morning, low-priority email waits for the
+// daily or weekly digest, and failed deliveries are retried with backoff by dispatchDue()
+
+import { randomUUID } from 'crypto'
+import { EngineStateStore } from './engine-repository'
+import {
+  NOTIFICATION_TEMPLATES,
+  renderNotification,
+  renderEmail,
+  renderDigestEmail,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationPriority,
+  type NotificationTemplateId,
+  type RenderedNotification,
+  type TemplateData
+} from './notification-templates'
+import {
+  getInAppStore,
+  deliverEmail,
+  deliverPush,
+  isPushServiceEndpoint,
+  type DeliveryResult,
+  type InAppNotification,
+  type OutgoingNotification,
+  type PushSubscriptionRecord
+} from './notification-channels'
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly'
+
+export interface QuietHours {
+  enabled: boolean
+  start: string // 'HH:MM' in the user's timezone
+  end: string
+}
+
+export interface NotificationPreferences {
+  userId: string
+  channels: Record<NotificationCategory, NotificationChannel[]>
+  quietHours: QuietHours
+  timezone: string // IANA name
+  digest: {
+    frequency: DigestFrequency
+    hour: number // local hour the digest goes out
+    weekday: number // 0 = Sunday, for weekly digests
+  }
+  email?: string // overrides the profile address
+  updatedAt: Date
+}
+
+export type NotificationPreferencesUpdate = Partial<Omit<NotificationPreferences, 'userId' | 'updatedAt' | 'channels' | 'digest' | 'quietHours'>> & {
+  channels?: Partial<Record<NotificationCategory, NotificationChannel[]>>
+  quietHours?: Partial<QuietHours>
+  digest?: Partial<NotificationPreferences['digest']>
+}
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped'
+
+export interface QueuedDelivery {
+  deliveryId: string
+  notificationId: string
+  userId: string
+  channel: NotificationChannel
+  notification: RenderedNotification
+  priority: NotificationPriority
+  channels: NotificationChannel[] // every channel the notification went to
+  email?: string // address supplied by the caller
+  digest: boolean
+  status: DeliveryStatus
+  deliverAfter: Date
+  attempts: number
+  lastError?: string
+  createdAt: Date
+  expiresAt?: Date
+  completedAt?: Date
+}
+
+export interface NotifyInput {
+  userId: string
+  template: NotificationTemplateId
+  data?: TemplateData
+  priority?: NotificationPriority // defaults to the template's
+  channels?: NotificationChannel[] // narrows the template channels further
+  dedupeKey?: string // a second notify() with the same key for the user is a no-op
+  email?: string // fallback when neither preferences nor the profile have an address
+  expiresAt?: Date
+  now?: Date
+}
+
+export interface NotifyResult {
+  notificationId: string
+  duplicate: boolean
+  deliveries: { channel: NotificationChannel; status: DeliveryStatus; deliverAfter: Date; digest: boolean }[]
+}
+
+export interface DispatchSummary {
+  sent: number
+  failed: number
+  skipped: number
+  retrying: number
+  digests: number
+}
+
+interface DedupeRecord {
+  notificationId: string
+  createdAt: Date
+}
+
+export class NotificationError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404
+  ) {
+    super(message)
+    this.name = 'NotificationError'
+  }
+}
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push']
+
+const CATEGORIES: NotificationCategory[] = ['reminders', 'deadlines', 'social', 'reports', 'achievements', 'system']
+
+const DEFAULT_CHANNELS: Record<NotificationCategory, NotificationChannel[]> = {
+  reminders: ['in_app', 'push'],
+  deadlines: ['in_app', 'email', 'push'],
+  social: ['in_app'],
+  reports: ['in_app', 'email'],
+  achievements: ['in_app', 'push'],
+  system: ['in_app', 'email']
+}
+
+const MAX_ATTEMPTS = 3
+const RETRY_BASE_MS = 5 * 60 * 1000 // 5, 20 minutes
+const DELIVERY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+const DEDUPE_RETENTION_MS = 45 * 24 * 60 * 60 * 1000
+const MAX_PUSH_SUBSCRIPTIONS = 10
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+// ==================================================================
+// LOCAL TIME
+// ==================================================================
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Minutes since local midnight and the local weekday of an instant
+function localClock(date: Date, timezone: string): { minutes: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short'
+  }).formatToParts(date)
+  const part = (type: string) => parts.find(entry => entry.type === type)?.value || ''
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+  return {
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+    weekday: weekdays.indexOf(part('weekday'))
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Start of the minute `minutesAhead` from now; DST shifts inside the window are ignored
+function minutesFrom(now: Date, minutesAhead: number): Date {
+  const start = new Date(now.getTime() + minutesAhead * 60 * 1000)
+  start.setUTCSeconds(0, 0)
+  return minutesAhead === 0 ? now : start
+}
+
+/**
+ * When a notification created at `now` may interrupt the user: immediately, or at the end of
+ * their quiet hours. Windows may wrap midnight (21:00-07:00).
+ */
+export function quietHoursRelease(preferences: NotificationPreferences, now: Date): Date {
+  const quiet = preferences.quietHours
+  if (!quiet.enabled) return now
+
+  const { minutes } = localClock(now, preferences.timezone)
+  const start = toMinutes(quiet.start)
+  const end = toMinutes(quiet.end)
+  if (start === end) return now
+
+  const inside = start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end
+  return inside ? minutesFrom(now, (end - minutes + 1440) % 1440) : now
+}
+
+// The next digest slot at or after `now`
+export function nextDigestAt(preferences: NotificationPreferences, now: Date): Date {
+  const { minutes, weekday } = localClock(now, preferences.timezone)
+  const slot = preferences.digest.hour * 60
+  let ahead = slot - minutes
+
+  if (preferences.digest.frequency === 'weekly') {
+    let days = (preferences.digest.weekday - weekday + 7) % 7
+    if (days === 0 && ahead < 0) days = 7
+    ahead += days * 1440
+  } else if (ahead < 0) {
+    ahead += 1440
+  }
+  return minutesFrom(now, ahead)
+}
+
+// ==================================================================
+// SERVICE
+// ==================================================================
+
+export class NotificationService {
+  private store = new EngineStateStore('notifications')
+  private preferences = this.store.map<NotificationPreferences>('preferences')
+  private pushSubscriptions = this.store.map<PushSubscriptionRecord[]>('push_subscriptions')
+  private deliveries = this.store.map<QueuedDelivery>('deliveries')
+  private dedupe = this.store.map<DedupeRecord>('dedupe')
+
+  /**
+   * Load persisted preferences, subscriptions and queued deliveries
+   */
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  /**
+   * Wait for pending writes
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
+  // ==================================================================
+  // PREFERENCES
+  // ==================================================================
+
+  getPreferences(userId: string): NotificationPreferences {
+    return this.preferences.get(userId) || {
+      userId,
+      channels: { ...DEFAULT_CHANNELS },
+      quietHours: { enabled: true, start: '21:00', end: '07:00' },
+      timezone: 'UTC',
+      digest: { frequency: 'daily', hour: 8, weekday: 1 },
+      updatedAt: new Date(0)
+    }
+  }
+
+  updatePreferences(userId: string, update: NotificationPreferencesUpdate): NotificationPreferences {
+    const current = this.getPreferences(userId)
+
+    const channels = { ...current.channels }
+    for (const [category, selected] of Object.entries(update.channels || {})) {
+      if (!CATEGORIES.includes(category as NotificationCategory)) {
+        throw new NotificationError(`Unknown notification category: ${category}`, 400)
+      }
+      if (!Array.isArray(selected) || !selected.every(channel => NOTIFICATION_CHANNELS.includes(channel))) {
+        throw new NotificationError(`Channels must be among: ${NOTIFICATION_CHANNELS.join(', ')}`, 400)
+      }
+      channels[category as NotificationCategory] = Array.from(new Set(selected))
+    }
+
+    const quietHours = { ...current.quietHours, ...update.quietHours }
+    if (!TIME_PATTERN.test(quietHours.start) || !TIME_PATTERN.test(quietHours.end)) {
+      throw new NotificationError('Quiet hours must be given as HH:MM', 400)
+    }
+
+    const timezone = update.timezone ?? current.timezone
+    if (!isValidTimezone(timezone)) {
+      throw new NotificationError(`Unknown timezone: ${timezone}`, 400)
+    }
+
+    const digest = { ...current.digest, ...update.digest }
+    if (!['off', 'daily', 'weekly'].includes(digest.frequency)) {
+      throw new NotificationError('Digest frequency must be off, daily or weekly', 400)
+    }
+    if (!Number.isInteger(digest.hour) || digest.hour < 0 || digest.hour > 23 ||
+      !Number.isInteger(digest.weekday) || digest.weekday < 0 || digest.weekday > 6) {
+      throw new NotificationError('Digest hour must be 0-23 and weekday 0-6', 400)
+    }
+
+    const email = update.email === undefined ? current.email : update.email.trim() || undefined
+    if (email && !/^[^\s@]+@[^\s@]+$/.test(email)) {
+      throw new NotificationError('Invalid email address', 400)
+    }
+
+    const preferences: NotificationPreferences = {
+      userId,
+      channels,
+      quietHours,
+      timezone,
+      digest,
+      email,
+      updatedAt: new Date()
+    }
+    this.preferences.set(userId, preferences)
+    return preferences
+  }
+
+  // ==================================================================
+  // PUSH SUBSCRIPTIONS
+  // ==================================================================
+
+  subscribePush(userId: string, subscription: Omit<PushSubscriptionRecord, 'createdAt'>): PushSubscriptionRecord {
+    if (!subscription?.endpoint || !subscription.keys?.p256dh || !subscription.keys?.auth) {
+      throw new NotificationError('A push subscription needs an https endpoint and p256dh/auth keys', 400)
+    }
+    if (!isPushServiceEndpoint(subscription.endpoint)) {
+      throw new NotificationError('The push endpoint is not a known browser push service', 400)
+    }
+
+    const record: PushSubscriptionRecord = {
+      endpoint: subscription.endpoint,
+      keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+      userAgent: subscription.userAgent,
+      createdAt: new Date()
+    }
+    // Re-subscribing the same browser replaces its keys; the oldest browsers drop off past the cap
+    const others = (this.pushSubscriptions.get(userId) || []).filter(existing => existing.endpoint !== record.endpoint)
+    this.pushSubscriptions.set(userId, [...others, record].slice(-MAX_PUSH_SUBSCRIPTIONS))
+    return record
+  }
+
+  unsubscribePush(userId: string, endpoint: string): boolean {
+    const subscriptions = this.pushSubscriptions.get(userId) || []
+    const remaining = subscriptions.filter(existing => existing.endpoint !== endpoint)
+    if (remaining.length === subscriptions.length) return false
+    this.pushSubscriptions.set(userId, remaining)
+    return true
+  }
+
+  getPushSubscriptions(userId: string): PushSubscriptionRecord[] {
+    return this.pushSubscriptions.get(userId) || []
+  }
+
+  // ==================================================================
+  // SENDING
+  // ==================================================================
+
+  /**
+   * Render a template for one user and queue a delivery per channel. In-app deliveries, and any
+   * other channel outside quiet hours and not batched into a digest, are attempted right away.
+   */
+  async notify(input: NotifyInput): Promise<NotifyResult> {
+    const template = NOTIFICATION_TEMPLATES[input.template]
+    if (!template) {
+      throw new NotificationError(`Unknown notification template: ${input.template}`, 404)
+    }
+    if (!input.userId) {
+      throw new NotificationError('Missing userId', 400)
+    }
+
+    const now = input.now || new Date()
+    const dedupeId = input.dedupeKey ? `${input.userId}:${input.dedupeKey}` : null
+    const previous = dedupeId ? this.dedupe.get(dedupeId) : undefined
+    if (previous) {
+      return { notificationId: previous.notificationId, duplicate: true, deliveries: [] }
+    }
+
+    const preferences = this.getPreferences(input.userId)
+    const priority = input.priority || template.priority
+    const channels = template.channels.filter(channel =>
+      preferences.channels[template.category].includes(channel) &&
+      (!input.channels || input.channels.includes(channel)) &&
+      (channel !== 'push' || this.getPushSubscriptions(input.userId).length > 0)
+    )
+
+    const notificationId = randomUUID()
+    const notification = renderNotification(input.template, input.data || {})
+    const urgent = priority === 'urgent'
+    const queued: QueuedDelivery[] = []
+
+    for (const channel of channels) {
+      let digest = false
+      let deliverAfter = now
+
+      if (channel !== 'in_app' && !urgent) {
+        deliverAfter = quietHoursRelease(preferences, now)
+        if (channel === 'email' && (priority === 'low' || priority === 'medium') && preferences.digest.frequency !== 'off') {
+          const digestAt = nextDigestAt(preferences, now)
+          // A digest that would arrive after the notification expires is no use; send it on its own
+          if (!input.expiresAt || digestAt < input.expiresAt) {
+            digest = true
+            deliverAfter = digestAt
+          }
+        }
+      }
+      if (input.expiresAt && deliverAfter >= input.expiresAt) continue
+
+      const delivery: QueuedDelivery = {
+        deliveryId: randomUUID(),
+        notificationId,
+        userId: input.userId,
+        channel,
+        notification,
+        priority,
+        channels,
+        email: input.email,
+        digest,
+        status: 'pending',
+        deliverAfter,
+        attempts: 0,
+        createdAt: now,
+        expiresAt: input.expiresAt
+      }
+      this.deliveries.set(delivery.deliveryId, delivery)
+      queued.push(delivery)
+    }
+
+    if (dedupeId) {
+      this.dedupe.set(dedupeId, { notificationId, createdAt: now })
+    }
+
+    for (const delivery of queued) {
+      if (!delivery.digest && delivery.deliverAfter <= now) {
+        await this.attempt(delivery, now)
+      }
+    }
+
+    return {
+      notificationId,
+      duplicate: false,
+      deliveries: queued.map(delivery => ({
+        channel: delivery.channel,
+        status: delivery.status,
+        deliverAfter: delivery.deliverAfter,
+        digest: delivery.digest
+      }))
+    }
+  }
+
+  /**
+   * Send every pending delivery that is due: individual ones first, then one digest email per user.
+   * Run by the scheduler; also prunes finished deliveries and old dedupe keys.
+   */
+  async dispatchDue(now = new Date()): Promise<DispatchSummary> {
+    const summary: DispatchSummary = { sent: 0, failed: 0, skipped: 0, retrying: 0, digests: 0 }
+    const due = Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === 'pending' && delivery.deliverAfter <= now)
+
+    const digests = new Map<string, QueuedDelivery[]>()
+    for (const delivery of due) {
+      if (delivery.expiresAt && delivery.expiresAt <= now) {
+        this.complete(delivery, 'skipped', now, 'Expired before delivery')
+        summary.skipped++
+        continue
+      }
+      if (delivery.digest) {
+        digests.set(delivery.userId, [...(digests.get(delivery.userId) || []), delivery])
+        continue
+      }
+      this.tally(summary, await this.attempt(delivery, now))
+    }
+
+    for (const [userId, batch] of Array.from(digests.entries())) {
+      const status = await this.sendDigest(userId, batch, now)
+      for (let i = 0; i < batch.length; i++) this.tally(summary, status)
+      if (status === 'sent') summary.digests++
+    }
+
+    this.prune(now)
+    return summary
+  }
+
+  private tally(summary: DispatchSummary, status: DeliveryStatus): void {
+    if (status === 'pending') summary.retrying++
+    else summary[status]++
+  }
+
+  private async attempt(delivery: QueuedDelivery, now: Date): Promise<DeliveryStatus> {
+    let result: DeliveryResult
+    try {
+      result = await this.send(delivery)
+    } catch (error) {
+      result = { status: 'failed', error: (error as Error).message, retryable: true }
+    }
+    return this.record(delivery, result, now)
+  }
+
+  private async send(delivery: QueuedDelivery): Promise<DeliveryResult> {
+    const outgoing = this.outgoing(delivery)
+
+    switch (delivery.channel) {
+      case 'in_app':
+        return getInAppStore().deliver(outgoing)
+
+      case 'email': {
+        const address = await this.resolveEmail(delivery.userId, delivery.email)
+        if (!address) return { status: 'skipped', error: 'No email address on file' }
+        return deliverEmail(address, renderEmail(delivery.notification))
+      }
+
+      case 'push': {
+        const result = await deliverPush(this.getPushSubscriptions(delivery.userId), outgoing)
+        this.dropExpiredSubscriptions(delivery.userId, result.expiredEndpoints)
+        return result
+      }
+    }
+  }
+
+  private async sendDigest(userId: string, batch: QueuedDelivery[], now: Date): Promise<DeliveryStatus> {
+    const notifications = [...batch]
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(delivery => delivery.notification)
+
+    let result: DeliveryResult
+    try {
+      const address = await this.resolveEmail(userId, batch.find(delivery => delivery.email)?.email)
+      result = address
+        ? await deliverEmail(address, renderDigestEmail(notifications))
+        : { status: 'skipped', error: 'No email address on file' }
+    } catch (error) {
+      result = { status: 'failed', error: (error as Error).message, retryable: true }
+    }
+
+    let status: DeliveryStatus = 'pending'
+    for (const delivery of batch) status = this.record(delivery, result, now)
+    return status
+  }
+
+  // Apply a delivery result: finish the delivery or schedule the next attempt
+  private record(delivery: QueuedDelivery, result: DeliveryResult, now: Date): DeliveryStatus {
+    if (result.status !== 'failed') {
+      this.complete(delivery, result.status, now, result.error)
+      return result.status
+    }
+
+    const attempts = delivery.attempts + 1
+    if (!result.retryable || attempts >= MAX_ATTEMPTS) {
+      this.complete({ ...delivery, attempts }, 'failed', now, result.error)
+      return 'failed'
+    }
+
+    this.deliveries.set(delivery.deliveryId, {
+      ...delivery,
+      attempts,
+      lastError: result.error,
+      deliverAfter: new Date(now.getTime() + RETRY_BASE_MS * Math.pow(4, attempts - 1))
+    })
+    return 'pending'
+  }
+
+  private complete(delivery: QueuedDelivery, status: DeliveryStatus, now: Date, error?: string): void {
+    const finished: QueuedDelivery = { ...delivery, status, completedAt: now, lastError: error }
+    this.deliveries.set(delivery.deliveryId, finished)
+    Object.assign(delivery, finished)
+  }
+
+  private outgoing(delivery: QueuedDelivery): OutgoingNotification {
+    return {
+      notificationId: delivery.notificationId,
+      userId: delivery.userId,
+      type: delivery.notification.type,
+      title: delivery.notification.title,
+      message: delivery.notification.message,
+      actionUrl: delivery.notification.actionUrl,
+      priority: delivery.priority,
+      channels: delivery.channels,
+      createdAt: delivery.createdAt,
+      expiresAt: delivery.expiresAt
+    }
+  }
+
+  private dropExpiredSubscriptions(userId: string, endpoints?: string[]): void {
+    if (!endpoints || endpoints.length === 0) return
+    const remaining = this.getPushSubscriptions(userId).filter(subscription => !endpoints.includes(subscription.endpoint))
+    this.pushSubscriptions.set(userId, remaining)
+  }
+
+  // Preference override, then the caller's address, then the profile
+  private async resolveEmail(userId: string, fallback?: string): Promise<string | undefined> {
+    const preferred = this.getPreferences(userId).email
+    if (preferred) return preferred
+    if (fallback) return fallback
+
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return undefined
+    const { supabaseAdmin } = await import('./supabase')
+    const { data } = await supabaseAdmin.from('profiles').select('email').eq('id', userId).maybeSingle()
+    return data?.email || undefined
+  }
+
+  private prune(now: Date): void {
+    for (const [deliveryId, delivery] of Array.from(this.deliveries.entries())) {
+      if (delivery.completedAt && now.getTime() - delivery.completedAt.getTime() > DELIVERY_RETENTION_MS) {
+        this.deliveries.delete(deliveryId)
+      }
+    }
+    for (const [key, record] of Array.from(this.dedupe.entries())) {
+      if (now.getTime() - record.createdAt.getTime() > DEDUPE_RETENTION_MS) {
+        this.dedupe.delete(key)
+      }
+    }
+  }
+
+  // ==================================================================
+  // INBOX
+  // ==================================================================
+
+  listInbox(userId: string, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<InAppNotification[]> {
+    return getInAppStore().list(userId, options)
+  }
+
+  markRead(userId: string, notificationIds: string[]): Promise<void> {
+    return getInAppStore().markRead(userId, notificationIds)
+  }
+
+  getPendingDeliveries(userId: string): QueuedDelivery[] {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.userId === userId && delivery.status === 'pending')
+      .sort((a, b) => a.deliverAfter.getTime() - b.deliverAfter.getTime())
+  }
+}
+
+export const notificationService = new NotificationService()
@@ -0,0 +1,221 @@
+// Notification Templates
+// Message templates for reminders, deadlines, reports and digests. Each renders a short title and
+// message for in-app and push, and a plain-text plus HTML body for email.
+
+export type NotificationCategory = 'reminders' | 'deadlines' | 'social' | 'reports' | 'achievements' | 'system'
+
+export type NotificationType = 'achievement' | 'reminder' | 'system' | 'ai_recommendation' | 'social' // notifications.type
+
+export type NotificationPriority = 'low' | 'medium' | 'high' | 'urgent'
+
+export type NotificationChannel = 'in_app' | 'email' | 'push'
+
+export type TemplateData = Record<string, string | number | boolean | undefined>
+
+export type NotificationTemplateId =
+  | 'review_due'
+  | 'training_enrolled'
+  | 'training_deadline'
+  | 'recertification_due'
+  | 'compliance_escalation'
+  | 'challenge_ending'
+  | 'parent_weekly_report'
+  | 'announcement'
+
+export interface NotificationTemplate {
+  id: NotificationTemplateId
+  category: NotificationCategory
+  type: NotificationType
+  priority: NotificationPriority
+  channels: NotificationChannel[]
+  title: string // {{placeholders}} are filled from the template data
+  message: string
+  actionPath?: string
+}
+
+export interface RenderedNotification {
+  template: NotificationTemplateId
+  category: NotificationCategory
+  type: NotificationType
+  title: string
+  message: string
+  actionUrl?: string
+}
+
+export interface RenderedEmail {
+  subject: string
+  text: string
+  html: string
+}
+
+export const NOTIFICATION_TEMPLATES: Record<NotificationTemplateId, NotificationTemplate> = {
+  review_due: {
+    id: 'review_due',
+    category: 'reminders',
+    type: 'reminder',
+    priority: 'medium',
+    channels: ['in_app', 'push', 'email'],
+    title: '{{count}} reviews due today',
+    message: 'Keep your memory fresh: {{count}} items are ready for review{{overdueNote}}.',
+    actionPath: '/'
+  },
+  training_enrolled: {
+    id: 'training_enrolled',
+    category: 'deadlines',
+    type: 'system',
+    priority: 'medium',
+    channels: ['in_app', 'email'],
+    title: 'You have been enrolled in {{programTitle}}',
+    message: '{{programTitle}} has been added to your training plan{{deadlineNote}}.',
+    actionPath: '/'
+  },
+  training_deadline: {
+    id: 'training_deadline',
+    category: 'deadlines',
+    type: 'reminder',
+    priority: 'high',
+    channels: ['in_app', 'email', 'push'],
+    title: '{{programTitle}} {{dueLabel}}', // 'is due in 3 days', 'is overdue'
+    message: 'You are {{progress}}% through {{programTitle}}. The completion deadline is {{deadline}}.',
+    actionPath: '/'
+  },
+  recertification_due: {
+    id: 'recertification_due',
+    category: 'deadlines',
+    type: 'reminder',
+    priority: 'high',
+    channels: ['in_app', 'email'],
+    title: 'Renew your {{certification}} certification',
+    message: '{{statusNote}} You have been enrolled in {{programTitle}}; complete it by {{deadline}} to stay certified.',
+    actionPath: '/'
+  },
+  compliance_escalation: {
+    id: 'compliance_escalation',
+    category: 'deadlines',
+    type: 'system',
+    priority: 'urgent',
+    channels: ['in_app', 'email'],
+    title: '{{lapseLabel}} on your team', // '1 compliance lapse', '3 compliance lapses'
+    message: 'These required certifications have lapsed: {{lapses}}. Please make sure the training is completed.',
+    actionPath: '/'
+  },
+  challenge_ending: {
+    id: 'challenge_ending',
+    category: 'social',
+    type: 'social',
+    priority: 'medium',
+    channels: ['in_app', 'push'],
+    title: '{{challengeTitle}} ends {{dueLabel}}',
+    message: 'You are {{progress}}% through the challenge. Finish before {{deadline}} to earn {{points}} points.',
+    actionPath: '/'
+  },
+  parent_weekly_report: {
+    id: 'parent_weekly_report',
+    category: 'reports',
+    type: 'system',
+    priority: 'low',
+    channels: ['in_app', 'email'],
+    title: "{{childName}}'s week in review",
+    message: '{{childName}} completed {{reviews}} reviews this week with {{recall}}% average recall. {{dueCount}} items are waiting for review.',
+    actionPath: '/analytics'
+  },
+  announcement: {
+    id: 'announcement',
+    category: 'system',
+    type: 'system',
+    priority: 'medium',
+    channels: ['in_app', 'email'],
+    title: '{{title}}',
+    message: '{{message}}'
+  }
+}
+
+export function isNotificationTemplateId(value: string): value is NotificationTemplateId {
+  return value in NOTIFICATION_TEMPLATES
+}
+
+// ==================================================================
+// RENDERING
+// ==================================================================
+
+function fill(text: string, data: TemplateData): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, key: string) => {
+    const value = data[key]
+    return value === undefined ? '' : String(value)
+  })
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function siteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
+
+export function renderNotification(templateId: NotificationTemplateId, data: TemplateData): RenderedNotification {
+  const template = NOTIFICATION_TEMPLATES[templateId]
+  return {
+    template: templateId,
+    category: template.category,
+    type: template.type,
+    title: fill(template.title, data).trim(),
+    message: fill(template.message, data).trim(),
+    actionUrl: typeof data.actionUrl === 'string' ? data.actionUrl : template.actionPath
+  }
+}
+
+function absoluteUrl(actionUrl?: string): string | undefined {
+  if (!actionUrl) return undefined
+  return /^https?:\/\//.test(actionUrl) ? actionUrl : `${siteUrl()}${actionUrl}`
+}
+
+function emailLayout(heading: string, bodyHtml: string): string {
+  return [
+    '<!doctype html><html><body style="font-family:system-ui,sans-serif;color:#1f2937;max-width:560px;margin:0 auto;padding:24px">',
+    `<h2 style="margin:0 0 16px">${escapeHtml(heading)}</h2>`,
+    bodyHtml,
+    `<p style="margin-top:32px;font-size:12px;color:#6b7280">You can change which emails you get in your <a href="${siteUrl()}/">notification settings</a>.</p>`,
+    '</body></html>'
+  ].join('')
+}
+
+export function renderEmail(notification: RenderedNotification): RenderedEmail {
+  const link = absoluteUrl(notification.actionUrl)
+  return {
+    subject: notification.title,
+    text: [notification.message, link ? `\nOpen: ${link}` : ''].join('\n').trim(),
+    html: emailLayout(notification.title, [
+      `<p>${escapeHtml(notification.message)}</p>`,
+      link ? `<p><a href="${escapeHtml(link)}" style="color:#4f46e5">Open</a></p>` : ''
+    ].join(''))
+  }
+}
+
+/**
+ * One email for every notification batched into a digest, newest first.
+ */
+export function renderDigestEmail(notifications: RenderedNotification[]): RenderedEmail {
+  const subject = notifications.length === 1
+    ? notifications[0].title
+    : `Your learning digest: ${notifications.length} updates`
+  const items = notifications.map(notification => ({ ...notification, link: absoluteUrl(notification.actionUrl) }))
+
+  return {
+    subject,
+    text: items
+      .map(item => `- ${item.title}\n  ${item.message}${item.link ? `\n  ${item.link}` : ''}`)
+      .join('\n\n'),
+    html: emailLayout(subject, `<ul style="padding-left:18px">${items.map(item => [
+      '<li style="margin-bottom:12px">',
+      item.link ? `<a href="${escapeHtml(item.link)}" style="color:#4f46e5;font-weight:600">${escapeHtml(item.title)}</a>` : `<strong>${escapeHtml(item.title)}</strong>`,
+      `<br>${escapeHtml(item.message)}`,
+      '</li>'
+    ].join('')).join('')}</ul>`)
+  }
+}
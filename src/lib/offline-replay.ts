@@ -0,0 +1,194 @@
+// Offline Replay
+// Applies operations that clients queued while offline (see offline-sync.ts) exactly once. Each operation
+// carries a client-generated id and the time it happened: a ledger answers retried operations with their
+// first outcome, and per-kind rules decide what wins when the server moved on while the client was away.
+
+import { EngineStateStore } from './engine-repository'
+import { spacedRepetitionEngine, type ReviewSession } from './spaced-repetition-engine'
+
+export type OfflineOperationKind = 'srs_review'
+
+export interface OfflineOperation {
+  operationId: string // client-generated UUID, the idempotency key
+  kind: OfflineOperationKind
+  occurredAt: string // ISO time the learner acted, not the time of replay
+  payload: Record<string, any>
+}
+
+export interface SrsReviewPayload {
+  learnerId: string
+  itemId: string
+  sessionData: Partial<ReviewSession>
+}
+
+/**
+ * - applied: the operation took effect as if it had been sent when it happened
+ * - duplicate: an earlier replay already applied it
+ * - conflict: the server had newer state; it was kept and the operation recorded without overriding it
+ * - rejected: the operation cannot be applied (unknown item, too old, malformed) and should be dropped
+ */
+export type ReplayStatus = 'applied' | 'duplicate' | 'conflict' | 'rejected'
+
+export interface ReplayResult {
+  operationId: string
+  status: ReplayStatus
+  reason?: string
+  serverState?: Record<string, any> // the state the client should adopt after a conflict
+}
+
+interface LedgerEntry {
+  userId: string | null
+  kind: OfflineOperationKind | 'analytics_batch'
+  status: ReplayStatus | 'in_progress' // in_progress: reserved by a replay that has not finished
+  reason?: string
+  processedAt: Date
+}
+
+// Operation ids come from clients, so the ledger is kept per user: one learner cannot claim another's ids
+function ledgerKey(userId: string | null, operationId: string): string {
+  return `${userId || 'anonymous'}:${operationId}`
+}
+
+// Clients are expected to replay within days; older operations would rewrite settled history
+const MAX_OPERATION_AGE_MS = 30 * 24 * 60 * 60 * 1000
+// Device clocks run ahead; anything further in the future than this is clamped to the replay time
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+const LEDGER_RETENTION_MS = 45 * 24 * 60 * 60 * 1000
+
+export class OfflineReplayService {
+  private store = new EngineStateStore('offline_replay')
+  private ledger = this.store.map<LedgerEntry>('ledger')
+
+  /**
+   * Load the replay ledger
+   */
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  /**
+   * Wait for pending ledger writes
+   */
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
+  /**
+   * Claim an operation id before applying it. Resolves to false when an earlier or concurrent
+   * request (on any instance) already holds it. Batches replayed through other endpoints
+   * (analytics) share the ledger for their idempotency.
+   */
+  reserve(operationId: string, userId: string | null, kind: LedgerEntry['kind'], status: LedgerEntry['status'] = 'applied'): Promise<boolean> {
+    return this.ledger.create(ledgerKey(userId, operationId), { userId, kind, status, processedAt: new Date() })
+  }
+
+  // Give a reserved id back when the operation could not be applied, so a retry is not answered as a duplicate
+  release(operationId: string, userId: string | null): void {
+    this.ledger.delete(ledgerKey(userId, operationId))
+  }
+
+  /**
+   * Apply a user's operations oldest first, so reviews of the same card replay in the order they happened
+   */
+  async replay(userId: string, operations: OfflineOperation[], now = new Date()): Promise<ReplayResult[]> {
+    const ordered = [...operations].sort((a, b) => Date.parse(a.occurredAt) - Date.parse(b.occurredAt))
+    const results: ReplayResult[] = []
+
+    for (const operation of ordered) {
+      const key = ledgerKey(userId, operation.operationId)
+      if (!await this.reserve(operation.operationId, userId, operation.kind, 'in_progress')) {
+        const previous = this.ledger.get(key)
+        results.push({ operationId: operation.operationId, status: 'duplicate', reason: `already ${previous?.status || 'processed'}` })
+        continue
+      }
+
+      let result: ReplayResult
+      try {
+        result = await this.apply(operation, now)
+      } catch (error) {
+        this.release(operation.operationId, userId)
+        throw error
+      }
+
+      // Rejections are not recorded: a fixed client may legitimately resend the same operation
+      if (result.status === 'rejected') {
+        this.release(operation.operationId, userId)
+      } else {
+        this.ledger.set(key, {
+          userId,
+          kind: operation.kind,
+          status: result.status,
+          reason: result.reason,
+          processedAt: now
+        })
+      }
+      results.push(result)
+    }
+
+    this.prune(now)
+    return results
+  }
+
+  private async apply(operation: OfflineOperation, now: Date): Promise<ReplayResult> {
+    const reject = (reason: string): ReplayResult => ({ operationId: operation.operationId, status: 'rejected', reason })
+
+    const occurredAt = new Date(operation.occurredAt)
+    if (isNaN(occurredAt.getTime())) return reject('invalid occurredAt')
+    if (now.getTime() - occurredAt.getTime() > MAX_OPERATION_AGE_MS) return reject('operation is too old to replay')
+    const effectiveAt = occurredAt.getTime() - now.getTime() > MAX_CLOCK_SKEW_MS ? now : occurredAt
+
+    switch (operation.kind) {
+      case 'srs_review':
+        return this.applyReview(operation, operation.payload as SrsReviewPayload, effectiveAt)
+      default:
+        return reject(`unknown operation kind: ${(operation as OfflineOperation).kind}`)
+    }
+  }
+
+  // The newest review decides the schedule. A review made offline before one that already reached the
+  // server (another device, or a later online review) joins the history without rescheduling the card.
+  private async applyReview(operation: OfflineOperation, payload: SrsReviewPayload, reviewedAt: Date): Promise<ReplayResult> {
+    const { operationId } = operation
+    if (!payload?.learnerId || !payload.itemId) {
+      return { operationId, status: 'rejected', reason: 'missing learnerId or itemId' }
+    }
+
+    const memoryState = spacedRepetitionEngine.getMemoryState(payload.learnerId, payload.itemId)
+    if (!memoryState) {
+      return { operationId, status: 'rejected', reason: 'item is no longer scheduled' }
+    }
+
+    const sessionData: Partial<ReviewSession> = {
+      ...payload.sessionData,
+      session_id: `offline_${operationId}`,
+      session_date: reviewedAt
+    }
+
+    if (new Date(memoryState.last_review_date).getTime() > reviewedAt.getTime()) {
+      spacedRepetitionEngine.recordPastReviewSession(payload.learnerId, payload.itemId, sessionData)
+      return {
+        operationId,
+        status: 'conflict',
+        reason: 'a newer review already rescheduled this item',
+        serverState: { memory_state: memoryState }
+      }
+    }
+
+    const outcome = await spacedRepetitionEngine.recordReviewSession(payload.learnerId, payload.itemId, sessionData)
+    return {
+      operationId,
+      status: 'applied',
+      serverState: { memory_state: outcome.updated_memory_state, next_review_date: outcome.next_review_date }
+    }
+  }
+
+  private prune(now: Date): void {
+    for (const [key, entry] of Array.from(this.ledger.entries())) {
+      if (now.getTime() - new Date(entry.processedAt).getTime() > LEDGER_RETENTION_MS) {
+        this.ledger.delete(key)
+      }
+    }
+  }
+}
+
+export const offlineReplayService = new OfflineReplayService()
@@ -0,0 +1,282 @@
+// Offline Store
+// IndexedDB storage behind offline mode: book pages and the lessons, quizzes and spaced-repetition cards
+// on them, cached ahead of the reader, plus the outbox of operations waiting for a connection.
+// Browser only; every function resolves to an empty result where IndexedDB is unavailable.
+// Each signed-in user gets a database of their own, deleted on sign-out (deleteOfflineData).
+
+import type { BookPage } from '@/types/book-layout'
+import { supabase } from './supabase'
+
+export type OfflineResourceKind = 'lesson' | 'quiz' | 'due_cards'
+
+// Where a queued operation is replayed: analytics batches go to /api/analytics/track, the rest to /api/offline/sync
+export type OutboxOperationKind = 'analytics_batch' | 'srs_review'
+
+export interface CachedBookPage {
+  id: string
+  feedKey: string // pages of different feeds (subjects, learners) are kept apart
+  index: number
+  page: BookPage
+  cachedAt: number
+}
+
+export interface CachedResource<T = unknown> {
+  key: string // `${kind}:${id}`
+  kind: OfflineResourceKind
+  data: T
+  cachedAt: number
+}
+
+export interface OutboxOperation {
+  operationId: string
+  kind: OutboxOperationKind
+  occurredAt: string
+  payload: Record<string, any>
+  attempts: number
+  lastError?: string
+  createdAt: number
+}
+
+export interface OfflineConflict {
+  operationId: string
+  kind: OutboxOperationKind
+  status: 'conflict' | 'rejected'
+  reason?: string
+  serverState?: Record<string, any>
+  payload: Record<string, any>
+  resolvedAt: number
+}
+
+const DB_NAME_PREFIX = 'learning-offline:'
+// Shared by every account before databases were scoped per user
+const LEGACY_DB_NAME = 'learning-offline'
+const ANONYMOUS_SCOPE = 'anonymous'
+const DB_VERSION = 1
+const STORES = {
+  pages: 'pages',
+  resources: 'resources',
+  outbox: 'outbox',
+  conflicts: 'conflicts'
+} as const
+
+type StoreName = typeof STORES[keyof typeof STORES]
+
+const MAX_OUTBOX_OPERATIONS = 2000
+const MAX_CONFLICTS = 50
+
+const databases = new Map<string, Promise<IDBDatabase | null>>()
+let legacyDatabaseDropped = false
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+async function currentScope(): Promise<string> {
+  const { data } = await supabase.auth.getSession()
+  return data.session?.user?.id || ANONYMOUS_SCOPE
+}
+
+async function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return null
+
+  if (!legacyDatabaseDropped) {
+    legacyDatabaseDropped = true
+    indexedDB.deleteDatabase(LEGACY_DB_NAME)
+  }
+
+  const scope = await currentScope()
+  let database = databases.get(scope)
+  if (!database) {
+    database = new Promise<IDBDatabase | null>(resolve => {
+      const request = indexedDB.open(DB_NAME_PREFIX + scope, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(STORES.pages)) {
+          db.createObjectStore(STORES.pages, { keyPath: 'id' }).createIndex('feedKey', 'feedKey')
+        }
+        if (!db.objectStoreNames.contains(STORES.resources)) {
+          db.createObjectStore(STORES.resources, { keyPath: 'key' }).createIndex('kind', 'kind')
+        }
+        if (!db.objectStoreNames.contains(STORES.outbox)) {
+          db.createObjectStore(STORES.outbox, { keyPath: 'operationId' }).createIndex('createdAt', 'createdAt')
+        }
+        if (!db.objectStoreNames.contains(STORES.conflicts)) {
+          db.createObjectStore(STORES.conflicts, { keyPath: 'operationId' }).createIndex('resolvedAt', 'resolvedAt')
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      // Private browsing modes may refuse IndexedDB; offline mode then simply stays off
+      request.onerror = () => {
+        console.warn('Offline storage unavailable:', request.error)
+        resolve(null)
+      }
+    })
+    databases.set(scope, database)
+  }
+  return database
+}
+
+/**
+ * Delete everything cached and queued for a user (call on sign-out so the next person
+ * on the device neither sees their pages nor replays their operations)
+ */
+export async function deleteOfflineData(userId: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return
+  const database = databases.get(userId)
+  databases.delete(userId)
+  if (database) (await database)?.close()
+  await new Promise<void>(resolve => {
+    const request = indexedDB.deleteDatabase(DB_NAME_PREFIX + userId)
+    request.onsuccess = () => resolve()
+    request.onerror = () => resolve()
+    request.onblocked = () => resolve()
+  })
+}
+
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => Promise<T>,
+  fallback: T
+): Promise<T> {
+  const db = await openDatabase()
+  if (!db) return fallback
+  const transaction = db.transaction(storeName, mode)
+  const result = await operation(transaction.objectStore(storeName))
+  await transactionDone(transaction)
+  return result
+}
+
+// ==================================================================
+// BOOK PAGES
+// ==================================================================
+
+/**
+ * Replace the cached window of a feed with `pages` (indexes are positions in the feed)
+ */
+export async function saveBookPages(feedKey: string, pages: { index: number; page: BookPage }[]): Promise<void> {
+  await withStore(STORES.pages, 'readwrite', async store => {
+    const existing = await requestResult(store.index('feedKey').getAllKeys(feedKey))
+    const keep = new Set(pages.map(({ page }) => `${feedKey}:${page.id}`))
+    for (const key of existing) {
+      if (!keep.has(String(key))) store.delete(key)
+    }
+    for (const { index, page } of pages) {
+      store.put({ id: `${feedKey}:${page.id}`, feedKey, index, page, cachedAt: Date.now() } satisfies CachedBookPage)
+    }
+  }, undefined)
+}
+
+export async function getCachedBookPages(feedKey: string): Promise<BookPage[]> {
+  return withStore(STORES.pages, 'readonly', async store => {
+    const cached = await requestResult(store.index('feedKey').getAll(feedKey)) as CachedBookPage[]
+    return cached.sort((a, b) => a.index - b.index).map(entry => entry.page)
+  }, [])
+}
+
+// ==================================================================
+// LESSONS, QUIZZES, DUE CARDS
+// ==================================================================
+
+export async function cacheResource<T>(kind: OfflineResourceKind, id: string, data: T): Promise<void> {
+  await withStore(STORES.resources, 'readwrite', async store => {
+    store.put({ key: `${kind}:${id}`, kind, data, cachedAt: Date.now() } satisfies CachedResource<T>)
+  }, undefined)
+}
+
+export async function getCachedResource<T>(kind: OfflineResourceKind, id: string): Promise<CachedResource<T> | null> {
+  return withStore(STORES.resources, 'readonly', async store => {
+    return (await requestResult(store.get(`${kind}:${id}`)) as CachedResource<T> | undefined) || null
+  }, null)
+}
+
+// Drop resources of a kind cached before `olderThan` (ms since epoch)
+export async function evictResources(kind: OfflineResourceKind, olderThan: number): Promise<number> {
+  return withStore(STORES.resources, 'readwrite', async store => {
+    const cached = await requestResult(store.index('kind').getAll(kind)) as CachedResource[]
+    const stale = cached.filter(resource => resource.cachedAt < olderThan)
+    for (const resource of stale) store.delete(resource.key)
+    return stale.length
+  }, 0)
+}
+
+// ==================================================================
+// OUTBOX
+// ==================================================================
+
+// Resolves to false when there is no IndexedDB to queue into
+export async function addToOutbox(operation: OutboxOperation): Promise<boolean> {
+  return withStore(STORES.outbox, 'readwrite', async store => {
+    // A learner offline for weeks should not fill the disk; the oldest operations give way
+    const count = await requestResult(store.count())
+    if (count >= MAX_OUTBOX_OPERATIONS) {
+      const oldest = await requestResult(store.index('createdAt').getAllKeys(null, count - MAX_OUTBOX_OPERATIONS + 1))
+      for (const key of oldest) store.delete(key)
+    }
+    store.put(operation)
+    return true
+  }, false)
+}
+
+export async function listOutbox(): Promise<OutboxOperation[]> {
+  return withStore(STORES.outbox, 'readonly', async store => {
+    return await requestResult(store.index('createdAt').getAll()) as OutboxOperation[]
+  }, [])
+}
+
+export async function countOutbox(): Promise<number> {
+  return withStore(STORES.outbox, 'readonly', store => requestResult(store.count()), 0)
+}
+
+export async function removeFromOutbox(operationIds: string[]): Promise<void> {
+  if (operationIds.length === 0) return
+  await withStore(STORES.outbox, 'readwrite', async store => {
+    for (const operationId of operationIds) store.delete(operationId)
+  }, undefined)
+}
+
+export async function updateOutboxOperation(operation: OutboxOperation): Promise<void> {
+  await withStore(STORES.outbox, 'readwrite', async store => {
+    store.put(operation)
+  }, undefined)
+}
+
+// ==================================================================
+// CONFLICTS
+// ==================================================================
+
+export async function recordConflicts(conflicts: OfflineConflict[]): Promise<void> {
+  if (conflicts.length === 0) return
+  await withStore(STORES.conflicts, 'readwrite', async store => {
+    for (const conflict of conflicts) store.put(conflict)
+    const count = await requestResult(store.count())
+    if (count > MAX_CONFLICTS) {
+      const oldest = await requestResult(store.index('resolvedAt').getAllKeys(null, count - MAX_CONFLICTS))
+      for (const key of oldest) store.delete(key)
+    }
+  }, undefined)
+}
+
+export async function listConflicts(): Promise<OfflineConflict[]> {
+  return withStore(STORES.conflicts, 'readonly', async store => {
+    const conflicts = await requestResult(store.getAll()) as OfflineConflict[]
+    return conflicts.sort((a, b) => b.resolvedAt - a.resolvedAt)
+  }, [])
+}
+
+export async function clearConflicts(): Promise<void> {
+  await withStore(STORES.conflicts, 'readwrite', async store => {
+    store.clear()
+  }, undefined)
+}
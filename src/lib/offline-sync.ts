@@ -0,0 +1,374 @@
+// Offline Sync
+// Client half of offline mode. Keeps the pages around the reader, the lessons and quizzes on them and the
+// learner's due spaced-repetition cards in IndexedDB (offline-store.ts), has the service worker (public/sw.js)
+// cache their media, and queues reviews and analytics batches made without a connection. The queue replays
+// on reconnect: /api/offline/sync and /api/analytics/track apply each operation once and report conflicts.
+
+import type { BookPage, PreloadStrategy } from '@/types/book-layout'
+import type { FeedItem } from '@/types'
+import type { LearningItem, MemoryState } from './spaced-repetition-engine'
+import type { ReplayResult } from './offline-replay'
+import { getAuthHeaders, onAuthStateChange } from './auth'
+import {
+  saveBookPages,
+  getCachedBookPages,
+  cacheResource,
+  getCachedResource,
+  evictResources,
+  addToOutbox,
+  listOutbox,
+  countOutbox,
+  removeFromOutbox,
+  updateOutboxOperation,
+  recordConflicts,
+  type OutboxOperation,
+  type OutboxOperationKind,
+  type OfflineConflict
+} from './offline-store'
+
+export interface OfflineSyncStatus {
+  online: boolean
+  syncing: boolean
+  pending: number
+  lastSyncedAt: Date | null
+  lastError: string | null
+}
+
+// What get_due_cards returns: enough to run a review session without the server
+export interface DueCard {
+  item: LearningItem | null
+  memory_state: MemoryState
+  priority: number
+  overdue_days: number
+}
+
+export interface ReplaySummary {
+  replayed: number
+  conflicts: OfflineConflict[]
+  remaining: number
+}
+
+const SERVICE_WORKER_URL = '/sw.js'
+const BACKGROUND_SYNC_TAG = 'replay-outbox'
+// Matches MAX_OPERATIONS in /api/offline/sync
+const REPLAY_BATCH_SIZE = 200
+const RESOURCE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000
+
+let status: OfflineSyncStatus = {
+  online: true,
+  syncing: false,
+  pending: 0,
+  lastSyncedAt: null,
+  lastError: null
+}
+const listeners = new Set<(status: OfflineSyncStatus) => void>()
+let replayInFlight: Promise<ReplaySummary> | null = null
+let started = false
+
+function setStatus(update: Partial<OfflineSyncStatus>): void {
+  status = { ...status, ...update }
+  listeners.forEach(listener => listener(status))
+}
+
+export function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false
+}
+
+export function getOfflineSyncStatus(): OfflineSyncStatus {
+  return status
+}
+
+export function subscribeOfflineSync(listener: (status: OfflineSyncStatus) => void): () => void {
+  listeners.add(listener)
+  return () => { listeners.delete(listener) }
+}
+
+// ==================================================================
+// SERVICE WORKER
+// ==================================================================
+
+/**
+ * Register the service worker and start replaying the outbox whenever the browser comes back online.
+ * Safe to call from every component that needs offline mode; only the first call does anything.
+ */
+export async function startOfflineSync(): Promise<void> {
+  if (started || typeof window === 'undefined') return
+  started = true
+
+  setStatus({ online: isOnline(), pending: await countOutbox() })
+
+  window.addEventListener('online', () => {
+    setStatus({ online: true })
+    void replayOutbox()
+  })
+  window.addEventListener('offline', () => setStatus({ online: false }))
+  // The outbox is per user: switching accounts switches which operations are pending
+  onAuthStateChange(async () => {
+    setStatus({ pending: await countOutbox() })
+    if (status.online && status.pending > 0) void replayOutbox()
+  })
+
+  if ('serviceWorker' in navigator) {
+    // Background Sync wakes the worker after the tab reconnects in the background; it hands the replay back here
+    navigator.serviceWorker.addEventListener('message', event => {
+      if (event.data?.type === 'REPLAY_OUTBOX') void replayOutbox()
+    })
+    try {
+      await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+    } catch (error) {
+      console.warn('Service worker registration failed:', error)
+    }
+  }
+
+  if (status.online && status.pending > 0) void replayOutbox()
+}
+
+async function postToServiceWorker(message: Record<string, any>): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+  registration?.active?.postMessage(message)
+}
+
+async function requestBackgroundSync(): Promise<void> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return
+  try {
+    const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+    const sync = (registration as ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } })?.sync
+    await sync?.register(BACKGROUND_SYNC_TAG)
+  } catch {
+    // Background Sync is Chromium-only; the online listener covers everyone else
+  }
+}
+
+// ==================================================================
+// PRECACHING
+// ==================================================================
+
+function mediaUrls(item: FeedItem): string[] {
+  const urls = [item.metadata?.video_url, item.metadata?.link_preview?.image_url]
+  return urls.filter((url): url is string => typeof url === 'string' && (url.startsWith('/') || url.startsWith(window.location.origin)))
+}
+
+/**
+ * Cache the pages the reader is about to reach (and the few just behind) with their quizzes and lessons.
+ * Cross-origin media such as YouTube embeds is left to the network.
+ */
+export async function precacheBookPages(
+  feedKey: string,
+  pages: BookPage[],
+  currentIndex: number,
+  strategy: PreloadStrategy
+): Promise<void> {
+  if (!strategy.enabled || pages.length === 0) return
+
+  const first = Math.max(0, currentIndex - strategy.pagesBehind)
+  const last = Math.min(pages.length - 1, currentIndex + strategy.pagesAhead)
+  const nearby = pages.slice(first, last + 1).map((page, offset) => ({ index: first + offset, page }))
+
+  try {
+    await saveBookPages(feedKey, nearby)
+
+    const items = nearby.flatMap(({ page }) => page.items)
+    await Promise.all(items.map(item => {
+      if (item.content_type === 'quiz' || item.metadata?.quiz_questions) return cacheResource('quiz', item.id, item)
+      if (item.content_type === 'ai_lesson') return cacheResource('lesson', item.id, item)
+      return undefined
+    }))
+
+    if (strategy.prioritizeMedia) {
+      const urls = Array.from(new Set(items.flatMap(mediaUrls)))
+      if (urls.length > 0) await postToServiceWorker({ type: 'PRECACHE_URLS', urls })
+    }
+
+    await Promise.all([
+      evictResources('quiz', Date.now() - RESOURCE_MAX_AGE_MS),
+      evictResources('lesson', Date.now() - RESOURCE_MAX_AGE_MS)
+    ])
+  } catch (error) {
+    console.warn('Failed to precache book pages:', error)
+  }
+}
+
+export async function getOfflineBookPages(feedKey: string): Promise<BookPage[]> {
+  return getCachedBookPages(feedKey)
+}
+
+// Generated lesson content, keyed by the feed item that requested it
+export async function cacheLessonContent<T>(itemId: string, content: T): Promise<void> {
+  await cacheResource('lesson', `content:${itemId}`, content)
+}
+
+export async function getOfflineLessonContent<T>(itemId: string): Promise<T | null> {
+  return (await getCachedResource<T>('lesson', `content:${itemId}`))?.data ?? null
+}
+
+/**
+ * Fetch and keep the learner's due cards so review sessions work offline
+ */
+export async function precacheDueCards(learnerId: string): Promise<DueCard[]> {
+  const response = await fetch('/api/spaced-repetition', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ action: 'get_due_cards', learnerId })
+  })
+  if (!response.ok) {
+    throw new Error(`Failed to load due cards: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  await cacheResource('due_cards', learnerId, data.dueCards)
+  return data.dueCards
+}
+
+export async function getOfflineDueCards(learnerId: string): Promise<DueCard[]> {
+  return (await getCachedResource<DueCard[]>('due_cards', learnerId))?.data ?? []
+}
+
+// ==================================================================
+// OUTBOX AND REPLAY
+// ==================================================================
+
+/**
+ * Queue an operation for replay. `occurredAt` is when the learner acted; the server orders and
+ * resolves conflicts by it, not by when the connection returns. Resolves to null when the browser
+ * has no storage to queue into.
+ */
+export async function queueOfflineOperation(
+  kind: OutboxOperationKind,
+  payload: Record<string, any>,
+  occurredAt = new Date()
+): Promise<string | null> {
+  const operation: OutboxOperation = {
+    operationId: crypto.randomUUID(),
+    kind,
+    occurredAt: occurredAt.toISOString(),
+    payload,
+    attempts: 0,
+    createdAt: Date.now()
+  }
+  if (!await addToOutbox(operation)) return null
+  setStatus({ pending: await countOutbox() })
+  void requestBackgroundSync()
+  return operation.operationId
+}
+
+// Signed out, rate limited or failing server: the batch may go through later
+function isRetryable(status: number): boolean {
+  return status === 401 || status === 429 || status >= 500
+}
+
+async function replayAnalyticsBatch(operation: OutboxOperation): Promise<void> {
+  const response = await fetch('/api/analytics/track', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({ events: operation.payload.events, batchId: operation.operationId })
+  })
+  // A batch refused for any other reason (every event malformed) will never succeed, so it is dropped
+  if (isRetryable(response.status)) throw new Error(`Analytics API error: ${response.status}`)
+}
+
+async function replayOperations(operations: OutboxOperation[]): Promise<ReplayResult[]> {
+  const response = await fetch('/api/offline/sync', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders()) },
+    body: JSON.stringify({
+      operations: operations.map(({ operationId, kind, occurredAt, payload }) => ({ operationId, kind, occurredAt, payload }))
+    })
+  })
+  if (isRetryable(response.status)) throw new Error(`Offline sync failed: ${response.status}`)
+  // Any other refusal (malformed batch, forbidden learner) would block the outbox forever: park
+  // the batch in the conflict list so the learner sees it, and move on
+  if (!response.ok) {
+    return operations.map(operation => ({
+      operationId: operation.operationId,
+      status: 'rejected',
+      reason: `server refused the batch (${response.status})`
+    }))
+  }
+  return (await response.json()).results
+}
+
+async function runReplay(): Promise<ReplaySummary> {
+  const conflicts: OfflineConflict[] = []
+  let replayed = 0
+  const pending = await listOutbox()
+
+  const markFailed = async (operations: OutboxOperation[], error: Error) => {
+    await Promise.all(operations.map(operation =>
+      updateOutboxOperation({ ...operation, attempts: operation.attempts + 1, lastError: error.message })
+    ))
+  }
+
+  try {
+    for (const operation of pending.filter(candidate => candidate.kind === 'analytics_batch')) {
+      try {
+        await replayAnalyticsBatch(operation)
+      } catch (error) {
+        await markFailed([operation], error as Error)
+        throw error
+      }
+      await removeFromOutbox([operation.operationId])
+      replayed++
+    }
+
+    const reviews = pending.filter(candidate => candidate.kind === 'srs_review')
+    for (let start = 0; start < reviews.length; start += REPLAY_BATCH_SIZE) {
+      const batch = reviews.slice(start, start + REPLAY_BATCH_SIZE)
+      let results: ReplayResult[]
+      try {
+        results = await replayOperations(batch)
+      } catch (error) {
+        await markFailed(batch, error as Error)
+        throw error
+      }
+
+      const byId = new Map(batch.map(operation => [operation.operationId, operation]))
+      for (const result of results) {
+        if (result.status === 'conflict' || result.status === 'rejected') {
+          const operation = byId.get(result.operationId)!
+          conflicts.push({
+            operationId: result.operationId,
+            kind: operation.kind,
+            status: result.status,
+            reason: result.reason,
+            serverState: result.serverState,
+            payload: operation.payload,
+            resolvedAt: Date.now()
+          })
+        }
+      }
+      await removeFromOutbox(results.map(result => result.operationId))
+      replayed += results.length
+    }
+
+    await recordConflicts(conflicts)
+    setStatus({ lastSyncedAt: new Date(), lastError: null })
+  } catch (error) {
+    // Network errors surface as TypeError from fetch; either way the rest waits for the next reconnect
+    await recordConflicts(conflicts)
+    setStatus({ lastError: (error as Error).message })
+  }
+
+  const remaining = await countOutbox()
+  setStatus({ pending: remaining })
+  return { replayed, conflicts, remaining }
+}
+
+/**
+ * Send everything queued while offline. Concurrent calls share one replay, and tabs of the same
+ * origin take turns through a Web Lock so an operation is never in flight twice.
+ */
+export function replayOutbox(): Promise<ReplaySummary> {
+  if (!isOnline()) return Promise.resolve({ replayed: 0, conflicts: [], remaining: status.pending })
+  if (replayInFlight) return replayInFlight
+
+  setStatus({ syncing: true })
+  const locks = typeof navigator !== 'undefined' ? (navigator as Navigator & { locks?: LockManager }).locks : undefined
+  const run = locks ? locks.request('offline-outbox-replay', () => runReplay()) : runReplay()
+
+  replayInFlight = run.finally(() => {
+    replayInFlight = null
+    setStatus({ syncing: false })
+  })
+  return replayInFlight
+}
@@ -0,0 +1,612 @@
+// Open Badges
+// Open Badges 3.0 credentials (W3C Verifiable Credentials 2.0) for what learners earn here: achievements and
+// mastered skills from their skill trees, completed community challenges and corporate certifications.
+// Credentials are signed with the organization's Ed25519 key (the one behind compliance certificates) as a
+// Data Integrity proof using the eddsa-jcs-2022 cryptosuite, and point at a Bitstring Status List so any
+// verifier can see revocations. The issuer profile, status list and a verifier live under /api/badges.
+// Server-only: signs with node crypto.
+
+import { createHash, randomUUID, sign, verify } from 'crypto'
+import { gzipSync } from 'zlib'
+import { EngineStateStore } from './engine-repository'
+import { CertificateError, getSigningKey, getVerificationKeys } from './compliance-certificates'
+import { corporateTrainingEngine } from './corporate-training-engine'
+import { masteryProgressionEngine } from './mastery-progression-engine'
+import { communityLearningEngine } from './community-learning-engine'
+
+export type BadgeSource = 'achievement' | 'skill' | 'challenge' | 'certification'
+
+export type BadgeStatus = 'valid' | 'expired' | 'revoked'
+
+export interface DataIntegrityProof {
+  '@context'?: string[]
+  type: 'DataIntegrityProof'
+  cryptosuite: 'eddsa-jcs-2022'
+  created: string
+  verificationMethod: string
+  proofPurpose: 'assertionMethod'
+  proofValue: string
+}
+
+export interface OpenBadgeCredential {
+  '@context': string[]
+  id: string
+  type: string[]
+  issuer: { id: string; type: string[]; name: string; url?: string }
+  validFrom: string
+  validUntil?: string
+  name: string
+  credentialSubject: {
+    type: string[]
+    identifier: { type: 'IdentityObject'; identityType: 'emailAddress' | 'identifier'; hashed: true; identityHash: string; salt: string }[]
+    name?: string
+    achievement: {
+      id: string
+      type: string[]
+      achievementType: 'Achievement' | 'Badge' | 'Certificate' | 'Competency'
+      name: string
+      description: string
+      criteria: { narrative: string }
+      creator?: { id: string; type: string[]; name: string }
+      tag?: string[]
+    }
+  }
+  credentialStatus: {
+    id: string
+    type: 'BitstringStatusListEntry'
+    statusPurpose: 'revocation'
+    statusListIndex: string
+    statusListCredential: string
+  }
+  proof?: DataIntegrityProof
+}
+
+export interface BadgeRecord {
+  credentialId: string
+  userId: string
+  source: BadgeSource
+  sourceId: string
+  organizationId?: string // the company behind a certification badge; its admins may revoke it
+  name: string
+  description: string
+  icon?: string // emoji or color shown in the wallet
+  statusListIndex: number
+  issuedAt: Date
+  validUntil?: Date
+  revokedAt?: Date
+  revocationReason?: string
+  credential: OpenBadgeCredential
+}
+
+export interface WalletBadge extends Omit<BadgeRecord, 'credential' | 'statusListIndex'> {
+  status: BadgeStatus
+  credential: OpenBadgeCredential
+}
+
+export interface BadgeVerification {
+  valid: boolean // signed by us, unaltered, not revoked and within its validity period
+  signatureValid: boolean
+  status?: BadgeStatus
+  credentialId?: string
+  achievement?: string
+  holderName?: string
+  issuer?: string
+  validFrom?: string
+  validUntil?: string
+  revocationReason?: string
+  reason?: string
+}
+
+// What a source says the learner earned; the issuer turns each into one credential
+interface EarnedBadge {
+  source: BadgeSource
+  sourceId: string
+  name: string
+  description: string
+  criteria: string
+  achievementType: OpenBadgeCredential['credentialSubject']['achievement']['achievementType']
+  earnedAt: Date
+  validUntil?: Date
+  revoked?: string // reason, when the source has been withdrawn
+  organization?: { id: string; name: string }
+  holder?: { name?: string; email?: string }
+  icon?: string
+  tags?: string[]
+}
+
+const VC_CONTEXT = 'https://www.w3.org/ns/credentials/v2'
+const OB_CONTEXT = 'https://purl.imsglobal.org/spec/ob/v3p0/context-3.0.3.json'
+const CRYPTOSUITE = 'eddsa-jcs-2022'
+// The spec's minimum: a list this long hides which credential a verifier is checking
+const STATUS_LIST_SIZE = 131072
+const STATUS_LIST_NAME = 'revocation'
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
+// Multicodec prefix of an Ed25519 public key in a Multikey
+const ED25519_MULTICODEC = [0xed, 0x01]
+
+export class BadgeError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 404 | 503 = 400
+  ) {
+    super(message)
+    this.name = 'BadgeError'
+  }
+}
+
+// ==================================================================
+// ENCODING AND CANONICALIZATION
+// ==================================================================
+
+function base58btc(bytes: Uint8Array): string {
+  let value = BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`)
+  let encoded = ''
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded
+    value /= BigInt(58)
+  }
+  for (const byte of bytes) {
+    if (byte !== 0) break
+    encoded = `1${encoded}`
+  }
+  return encoded
+}
+
+function fromBase58btc(encoded: string): Buffer {
+  let value = BigInt(0)
+  for (const char of encoded) {
+    const digit = BASE58_ALPHABET.indexOf(char)
+    if (digit < 0) throw new BadgeError('Malformed base58 value')
+    value = value * BigInt(58) + BigInt(digit)
+  }
+  const hex = value === BigInt(0) ? '' : value.toString(16)
+  const leadingZeros = encoded.match(/^1*/)![0].length
+  return Buffer.concat([Buffer.alloc(leadingZeros), Buffer.from(hex.length % 2 ? `0${hex}` : hex, 'hex')])
+}
+
+// RFC 8785 JSON Canonicalization Scheme; everything signed here is plain JSON of strings, numbers and booleans
+function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') return JSON.stringify(value)
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(',')}}`
+}
+
+function sha256(data: string): Buffer {
+  return createHash('sha256').update(data).digest()
+}
+
+function siteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/$/, '')
+}
+
+export function getIssuerId(): string {
+  return `${siteUrl()}/api/badges/issuer`
+}
+
+export function getStatusListUrl(): string {
+  return `${siteUrl()}/api/badges/status`
+}
+
+function issuerName(): string {
+  return process.env.BADGE_ISSUER_NAME || 'Learning Platform'
+}
+
+function signingKey() {
+  try {
+    return getSigningKey()
+  } catch (error) {
+    if (error instanceof CertificateError) throw new BadgeError('Badge signing is not configured', 503)
+    throw error
+  }
+}
+
+function verificationKeys() {
+  try {
+    return getVerificationKeys()
+  } catch (error) {
+    if (error instanceof CertificateError) throw new BadgeError('Badge signing is not configured', 503)
+    throw error
+  }
+}
+
+function verificationMethodId(keyId: string): string {
+  return `${getIssuerId()}#key-${keyId}`
+}
+
+// ==================================================================
+// PROOFS
+// ==================================================================
+
+// eddsa-jcs-2022: Ed25519 over sha256(JCS(proof options)) || sha256(JCS(document without proof))
+function proofInput<T extends { '@context': string[]; proof?: DataIntegrityProof }>(document: T, proof: Omit<DataIntegrityProof, 'proofValue'>): Buffer {
+  const { proof: _existing, ...unsecured } = document
+  return Buffer.concat([sha256(canonicalize(proof)), sha256(canonicalize(unsecured))])
+}
+
+function addProof<T extends { '@context': string[]; proof?: DataIntegrityProof }>(document: T, created = new Date()): T {
+  const { privateKey, keyId } = signingKey()
+  const options: Omit<DataIntegrityProof, 'proofValue'> = {
+    '@context': document['@context'],
+    type: 'DataIntegrityProof',
+    cryptosuite: CRYPTOSUITE,
+    created: created.toISOString(),
+    verificationMethod: verificationMethodId(keyId),
+    proofPurpose: 'assertionMethod'
+  }
+  const proofValue = `z${base58btc(sign(null, proofInput(document, options), privateKey))}`
+  return { ...document, proof: { ...options, proofValue } }
+}
+
+function checkProof(document: { '@context': string[]; proof?: DataIntegrityProof }): { valid: boolean; reason?: string } {
+  const proof = document.proof
+  if (!proof || proof.type !== 'DataIntegrityProof' || proof.cryptosuite !== CRYPTOSUITE) {
+    return { valid: false, reason: `The credential has no ${CRYPTOSUITE} proof` }
+  }
+  if (proof.proofPurpose !== 'assertionMethod' || !proof.proofValue?.startsWith('z')) {
+    return { valid: false, reason: 'The proof is malformed' }
+  }
+
+  const publicKey = Array.from(verificationKeys()).find(([keyId]) => proof.verificationMethod === verificationMethodId(keyId))?.[1]
+  if (!publicKey) {
+    return { valid: false, reason: proof.verificationMethod?.startsWith(`${getIssuerId()}#`)
+      ? 'The credential was signed with a key that is no longer trusted'
+      : 'The credential was not issued here' }
+  }
+  if (proof['@context'] && canonicalize(proof['@context']) !== canonicalize(document['@context'])) {
+    return { valid: false, reason: 'The proof does not belong to this credential' }
+  }
+
+  const { proofValue, ...options } = proof
+  let signature: Buffer
+  try {
+    signature = fromBase58btc(proofValue.slice(1))
+  } catch {
+    return { valid: false, reason: 'The proof is malformed' }
+  }
+  return verify(null, proofInput(document, options), publicKey, signature)
+    ? { valid: true }
+    : { valid: false, reason: 'The signature does not match this credential' }
+}
+
+/**
+ * The issuer profile, with the key verifiers resolve `proof.verificationMethod` against
+ */
+export function getIssuerProfile(): Record<string, any> {
+  const profile: Record<string, any> = {
+    '@context': [VC_CONTEXT, OB_CONTEXT],
+    id: getIssuerId(),
+    type: ['Profile'],
+    name: issuerName(),
+    url: siteUrl()
+  }
+  if (!process.env.CERTIFICATE_SIGNING_KEY) return profile
+
+  // Retired keys stay listed so credentials issued before a rotation still resolve
+  const methods = Array.from(verificationKeys()).map(([keyId, publicKey]) => {
+    const rawKey = (publicKey.export({ format: 'der', type: 'spki' }) as Buffer).subarray(-32)
+    return {
+      id: verificationMethodId(keyId),
+      type: 'Multikey',
+      controller: getIssuerId(),
+      publicKeyMultibase: `z${base58btc(Buffer.concat([Buffer.from(ED25519_MULTICODEC), rawKey]))}`
+    }
+  })
+  return { ...profile, verificationMethod: methods, assertionMethod: methods.map(method => method.id) }
+}
+
+// ==================================================================
+// ISSUER
+// ==================================================================
+
+class OpenBadgesIssuer {
+  private store = new EngineStateStore('open_badges')
+  private badges: Map<string, BadgeRecord> = this.store.map('credentials')
+  // Status list bookkeeping: where to start looking for an unused index, and who holds each index
+  private statusLists: Map<string, { nextIndex: number }> = this.store.map('status_lists')
+  private statusIndexes = this.store.map<string>('status_indexes')
+
+  async hydrate(): Promise<void> {
+    await Promise.all([
+      this.store.hydrate(),
+      corporateTrainingEngine.hydrate(),
+      masteryProgressionEngine.hydrate(),
+      communityLearningEngine.hydrate()
+    ])
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
+
+  /**
+   * The learner's badges. Anything earned since the last visit is issued first, and badges whose
+   * certification was revoked are revoked, so the wallet is the one place credentials come from.
+   */
+  async getWallet(userId: string, now = new Date()): Promise<WalletBadge[]> {
+    if (process.env.CERTIFICATE_SIGNING_KEY) {
+      await this.syncBadges(userId)
+    }
+
+    return this.getBadges(userId)
+      .map(({ statusListIndex, ...badge }) => ({ ...badge, status: this.badgeStatus(badge, now) }))
+      .sort((a, b) => new Date(b.issuedAt).getTime() - new Date(a.issuedAt).getTime())
+  }
+
+  getBadges(userId: string): BadgeRecord[] {
+    return Array.from(this.badges.values()).filter(badge => badge.userId === userId)
+  }
+
+  getBadge(credentialId: string): BadgeRecord | null {
+    return this.badges.get(credentialId) || null
+  }
+
+  revokeBadge(credentialId: string, reason: string, at = new Date()): BadgeRecord | null {
+    const badge = this.badges.get(credentialId)
+    if (!badge) return null
+    if (badge.revokedAt) return badge
+
+    const revoked = { ...badge, revokedAt: at, revocationReason: reason }
+    this.badges.set(credentialId, revoked)
+    return revoked
+  }
+
+  /**
+   * Check a presented credential: our signature, unaltered content, its entry on the revocation list
+   * and its validity period.
+   */
+  verifyCredential(credential: OpenBadgeCredential, now = new Date()): BadgeVerification {
+    if (!credential || typeof credential !== 'object' || !Array.isArray(credential.type) ||
+      !credential.type.includes('VerifiableCredential') || !credential.type.includes('OpenBadgeCredential')) {
+      return { valid: false, signatureValid: false, reason: 'Not an Open Badges credential' }
+    }
+
+    const details: BadgeVerification = {
+      valid: false,
+      signatureValid: false,
+      credentialId: credential.id,
+      achievement: credential.credentialSubject?.achievement?.name,
+      holderName: credential.credentialSubject?.name,
+      issuer: credential.issuer?.name,
+      validFrom: credential.validFrom,
+      validUntil: credential.validUntil
+    }
+
+    const proof = checkProof(credential)
+    if (!proof.valid) {
+      return { ...details, reason: proof.reason }
+    }
+    details.signatureValid = true
+
+    this.syncCertificationRevocations()
+    const index = Number(credential.credentialStatus?.statusListIndex)
+    const badge = this.badges.get(credential.id)
+    const revoked = badge?.statusListIndex === index && badge.revokedAt ? badge : undefined
+    if (revoked) {
+      return { ...details, status: 'revoked', revocationReason: revoked.revocationReason, reason: 'The credential has been revoked' }
+    }
+    if (credential.validFrom && new Date(credential.validFrom) > now) {
+      return { ...details, reason: 'The credential is not valid yet' }
+    }
+    if (credential.validUntil && new Date(credential.validUntil) <= now) {
+      return { ...details, status: 'expired', reason: 'The credential has expired' }
+    }
+    return { ...details, valid: true, status: 'valid' }
+  }
+
+  /**
+   * The signed revocation list: a gzipped bitstring with a 1 at each revoked credential's index
+   */
+  getStatusListCredential(now = new Date()): Record<string, any> {
+    this.syncCertificationRevocations()
+    const bits = Buffer.alloc(STATUS_LIST_SIZE / 8)
+    for (const badge of this.badges.values()) {
+      if (!badge.revokedAt) continue
+      // Bit 0 is the most significant bit of the first byte
+      bits[Math.floor(badge.statusListIndex / 8)] |= 0x80 >> (badge.statusListIndex % 8)
+    }
+
+    return addProof({
+      '@context': [VC_CONTEXT],
+      id: getStatusListUrl(),
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: getIssuerId(),
+      validFrom: now.toISOString(),
+      credentialSubject: {
+        id: `${getStatusListUrl()}#list`,
+        type: 'BitstringStatusList',
+        statusPurpose: STATUS_LIST_NAME,
+        encodedList: `u${gzipSync(bits).toString('base64url')}`
+      }
+    } as { '@context': string[] } & Record<string, any>, now)
+  }
+
+  // ==================================================================
+  // PRIVATE HELPERS
+  // ==================================================================
+
+  private badgeStatus(badge: Omit<BadgeRecord, 'statusListIndex'>, now: Date): BadgeStatus {
+    if (badge.revokedAt) return 'revoked'
+    if (badge.validUntil && new Date(badge.validUntil) <= now) return 'expired'
+    return 'valid'
+  }
+
+  private async syncBadges(userId: string): Promise<void> {
+    const issued = new Map(this.getBadges(userId).map(badge => [`${badge.source}:${badge.sourceId}`, badge]))
+
+    for (const earned of this.collectEarned(userId)) {
+      const existing = issued.get(`${earned.source}:${earned.sourceId}`)
+      if (existing) {
+        if (earned.revoked && !existing.revokedAt) this.revokeBadge(existing.credentialId, earned.revoked)
+        continue
+      }
+      if (earned.revoked) continue
+      await this.issue(userId, earned)
+    }
+  }
+
+  // A certification revoked in the training engine revokes its badge before anyone checks it
+  private syncCertificationRevocations(): void {
+    for (const badge of this.badges.values()) {
+      if (badge.source !== 'certification' || badge.revokedAt) continue
+      const certification = corporateTrainingEngine.getCertifications(badge.userId)
+        .find(cert => cert.certificationId === badge.sourceId)
+      if (certification?.revokedAt) {
+        this.revokeBadge(badge.credentialId, certification.revocationReason || 'Certification revoked', new Date(certification.revokedAt))
+      }
+    }
+  }
+
+  private collectEarned(userId: string): EarnedBadge[] {
+    const earned: EarnedBadge[] = []
+
+    const masteryProfile = masteryProgressionEngine.getUserMasteryProfile(userId)
+    for (const achievement of masteryProfile?.achievements || []) {
+      if (!achievement.unlockedAt) continue
+      earned.push({
+        source: 'achievement',
+        sourceId: achievement.achievementId,
+        name: achievement.title,
+        description: achievement.description,
+        criteria: achievement.criteria.description,
+        achievementType: 'Badge',
+        earnedAt: achievement.unlockedAt,
+        icon: achievement.badgeIcon,
+        tags: [achievement.category, achievement.rarity]
+      })
+    }
+
+    for (const { tree, skill, masteredAt } of masteryProgressionEngine.getMasteredSkills(userId)) {
+      earned.push({
+        source: 'skill',
+        sourceId: `${tree.treeId}:${skill.skillId}`,
+        name: skill.name,
+        description: skill.description,
+        criteria: `Demonstrated mastery of ${skill.name} in the ${tree.subjectArea} skill tree`,
+        achievementType: 'Competency',
+        earnedAt: masteredAt,
+        tags: [tree.subjectArea, skill.category]
+      })
+    }
+
+    for (const { challenge, completedAt } of communityLearningEngine.getCompletedChallenges(userId)) {
+      earned.push({
+        source: 'challenge',
+        sourceId: challenge.challengeId,
+        name: challenge.title,
+        description: challenge.description,
+        criteria: `Completed the ${challenge.type.replace('_', ' ')} ${challenge.category} challenge`,
+        achievementType: 'Achievement',
+        earnedAt: completedAt,
+        tags: [challenge.category, challenge.difficulty]
+      })
+    }
+
+    const employee = corporateTrainingEngine.getEmployeeProfile(userId)
+    if (employee) {
+      const company = corporateTrainingEngine.getCompanyProfile(employee.companyId)
+      for (const certification of employee.certifications) {
+        const program = certification.programId ? corporateTrainingEngine.getTrainingProgram(certification.programId) : null
+        earned.push({
+          source: 'certification',
+          sourceId: certification.certificationId,
+          name: certification.name,
+          description: program?.description || `${certification.name} certification`,
+          criteria: program ? `Completed the ${program.title} program` : `Holds the ${certification.name} certification`,
+          achievementType: 'Certificate',
+          earnedAt: certification.issuedAt,
+          validUntil: certification.expiresAt,
+          revoked: certification.revokedAt ? certification.revocationReason || 'Certification revoked' : undefined,
+          organization: company ? { id: company.companyId, name: company.name } : undefined,
+          holder: { name: certification.holderName, email: employee.email }
+        })
+      }
+    }
+
+    return earned
+  }
+
+  // Claim the first free status list index. Claims go through the repository, so two instances
+  // issuing at once never share an index; nextIndex only saves probing the indexes already taken.
+  private async allocateStatusIndex(credentialId: string): Promise<number> {
+    const list = this.statusLists.get(STATUS_LIST_NAME) || { nextIndex: 0 }
+    for (let index = list.nextIndex; index < STATUS_LIST_SIZE; index++) {
+      if (await this.statusIndexes.create(String(index), credentialId)) {
+        const latest = this.statusLists.get(STATUS_LIST_NAME)?.nextIndex || 0
+        this.statusLists.set(STATUS_LIST_NAME, { nextIndex: Math.max(latest, index + 1) })
+        return index
+      }
+    }
+    throw new BadgeError('The revocation list is full', 503)
+  }
+
+  private async issue(userId: string, earned: EarnedBadge, now = new Date()): Promise<BadgeRecord> {
+    const credentialId = `urn:uuid:${randomUUID()}`
+    const statusListIndex = await this.allocateStatusIndex(credentialId)
+    // The holder is named by a salted hash, so the credential does not publish their email or user id
+    const salt = randomUUID().replace(/-/g, '')
+    const identity = earned.holder?.email?.toLowerCase() || userId
+    const issuer = getIssuerId()
+
+    const credential = addProof<OpenBadgeCredential>({
+      '@context': [VC_CONTEXT, OB_CONTEXT],
+      id: credentialId,
+      type: ['VerifiableCredential', 'OpenBadgeCredential'],
+      issuer: { id: issuer, type: ['Profile'], name: issuerName(), url: siteUrl() },
+      validFrom: new Date(earned.earnedAt).toISOString(),
+      ...(earned.validUntil ? { validUntil: new Date(earned.validUntil).toISOString() } : {}),
+      name: earned.name,
+      credentialSubject: {
+        type: ['AchievementSubject'],
+        identifier: [{
+          type: 'IdentityObject',
+          identityType: earned.holder?.email ? 'emailAddress' : 'identifier',
+          hashed: true,
+          identityHash: `sha256$${createHash('sha256').update(identity + salt).digest('hex')}`,
+          salt
+        }],
+        ...(earned.holder?.name ? { name: earned.holder.name } : {}),
+        achievement: {
+          id: `${issuer}/achievements/${earned.source}/${encodeURIComponent(earned.sourceId)}`,
+          type: ['Achievement'],
+          achievementType: earned.achievementType,
+          name: earned.name,
+          description: earned.description,
+          criteria: { narrative: earned.criteria },
+          ...(earned.organization ? {
+            creator: { id: `${issuer}/organizations/${encodeURIComponent(earned.organization.id)}`, type: ['Profile'], name: earned.organization.name }
+          } : {}),
+          ...(earned.tags?.length ? { tag: earned.tags.filter(Boolean) } : {})
+        }
+      },
+      credentialStatus: {
+        id: `${getStatusListUrl()}#${statusListIndex}`,
+        type: 'BitstringStatusListEntry',
+        statusPurpose: STATUS_LIST_NAME,
+        statusListIndex: String(statusListIndex),
+        statusListCredential: getStatusListUrl()
+      }
+    }, now)
+
+    const badge: BadgeRecord = {
+      credentialId,
+      userId,
+      source: earned.source,
+      sourceId: earned.sourceId,
+      organizationId: earned.organization?.id,
+      name: earned.name,
+      description: earned.description,
+      icon: earned.icon,
+      statusListIndex,
+      issuedAt: now,
+      validUntil: earned.validUntil,
+      credential
+    }
+    this.badges.set(credentialId, badge)
+    return badge
+  }
+}
+
+export const openBadgesIssuer = new OpenBadgesIssuer()
@@ -621,6 +621,7 @@ class OptimizationRecommendationsEngine {
     
     try {
       // Get completed A/B tests
+      await abTestingFramework.hydrate()
       const tests = abTestingFramework.getTests().filter(test => test.status === 'completed')
       
       for (const test of tests) {
@@ -0,0 +1,943 @@
+// QTI Interchange
+// Imports IMS QTI 2.1 / 3.0 item banks (content packages or single XML files) as QuestionItems, with
+// IRT item parameters mapped into a DifficultyCalibration, and exports AdaptiveExams as QTI packages.
+// Both versions are written from one element tree: QTI 3.0 renames elements and attributes to
+// kebab-case with a `qti-` prefix, otherwise the structures used here are identical.
+
+import type JSZip from 'jszip'
+import { escapeXml } from './curriculum-package-export'
+import type {
+  AdaptiveExam,
+  DifficultyCalibration,
+  QuestionItem
+} from './adaptive-exam-generation-engine'
+
+export type QtiVersion = '2.1' | '3.0'
+
+export interface QtiIrtParameters {
+  discrimination: number // a
+  difficulty: number // b, logit scale
+  guessing: number // c
+}
+
+export interface QtiPackageFile {
+  filename: string
+  mime_type: string
+  content_base64: string
+  version: QtiVersion
+  size_bytes: number
+  summary: {
+    items: number
+    sections: number
+    calibrated_items: number
+  }
+}
+
+export interface QtiImportSource {
+  base64?: string // zipped content package
+  xml?: string // single assessmentItem / assessmentTest document
+  filename?: string
+}
+
+export interface QtiImportResult {
+  bank_id: string
+  title: string
+  version: QtiVersion
+  questions: QuestionItem[]
+  objectives: { objective_id: string; title: string }[] // from LOM classifications and test sections
+  calibration: DifficultyCalibration
+  warnings: string[] // skipped items and unsupported interactions
+}
+
+type QuestionType = QuestionItem['question_type']
+type CompetencyLevel = QuestionItem['metadata']['competency_level']
+
+// ==================================================================
+// XML TREE
+// ==================================================================
+
+interface XmlElement {
+  name: string // local name, QTI 2.1 spelling
+  attrs: Record<string, string>
+  children: XmlNode[]
+}
+
+type XmlNode = XmlElement | string
+
+// HTML content inside itemBody keeps its name in QTI 3.0
+const HTML_ELEMENTS = new Set([
+  'p', 'div', 'span', 'br', 'img', 'strong', 'em', 'b', 'i', 'u', 'sub', 'sup', 'code', 'pre',
+  'ul', 'ol', 'li', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'a', 'blockquote', 'h1', 'h2', 'h3', 'h4'
+])
+
+function element(name: string, attrs: Record<string, string | number | undefined> = {}, children: XmlNode[] = []): XmlElement {
+  const cleanAttrs: Record<string, string> = {}
+  for (const [key, value] of Object.entries(attrs)) {
+    if (value !== undefined) cleanAttrs[key] = String(value)
+  }
+  return { name, attrs: cleanAttrs, children }
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`)
+}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
+
+function toQti3Name(name: string): string {
+  return HTML_ELEMENTS.has(name) ? name : `qti-${kebabCase(name)}`
+}
+
+function serialize(node: XmlNode, version: QtiVersion): string {
+  if (typeof node === 'string') return escapeXml(node)
+
+  const name = version === '3.0' ? toQti3Name(node.name) : node.name
+  const attrs = Object.entries(node.attrs)
+    .map(([key, value]) => {
+      const attrName = version === '3.0' && !key.includes(':') && !HTML_ELEMENTS.has(node.name) ? kebabCase(key) : key
+      return ` ${attrName}="${escapeXml(value)}"`
+    })
+    .join('')
+
+  // QTI 3.0 wraps feedback content in a content body
+  const children = version === '3.0' && node.name === 'modalFeedback'
+    ? [element('contentBody', {}, node.children)]
+    : node.children
+
+  if (children.length === 0) return `<${name}${attrs}/>`
+  return `<${name}${attrs}>${children.map(child => serialize(child, version)).join('')}</${name}>`
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// QTI 3.0 names (qti-simple-choice, max-choices) are normalized to their 2.1 spelling while parsing
+function normalizeName(rawName: string): string {
+  const local = rawName.includes(':') ? rawName.slice(rawName.indexOf(':') + 1) : rawName
+  return local.startsWith('qti-') ? camelCase(local.slice(4)) : camelCase(local)
+}
+
+/**
+ * Minimal XML parser for QTI documents: elements, attributes, text, CDATA and character references.
+ * Processing instructions, comments and doctypes are skipped.
+ */
+export function parseXml(xml: string): XmlElement {
+  const root = element('#document')
+  const stack: XmlElement[] = [root]
+  let position = 0
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf('<', position)
+    if (tagStart === -1) {
+      stack[stack.length - 1].children.push(decodeEntities(xml.slice(position)))
+      break
+    }
+    if (tagStart > position) {
+      stack[stack.length - 1].children.push(decodeEntities(xml.slice(position, tagStart)))
+    }
+
+    if (xml.startsWith('<!--', tagStart)) {
+      position = xml.indexOf('-->', tagStart) + 3
+    } else if (xml.startsWith('<![CDATA[', tagStart)) {
+      const end = xml.indexOf(']]>', tagStart)
+      stack[stack.length - 1].children.push(xml.slice(tagStart + 9, end))
+      position = end + 3
+    } else if (xml.startsWith('<?', tagStart) || xml.startsWith('<!', tagStart)) {
+      position = xml.indexOf('>', tagStart) + 1
+    } else if (xml[tagStart + 1] === '/') {
+      const end = xml.indexOf('>', tagStart)
+      const name = normalizeName(xml.slice(tagStart + 2, end).trim())
+      while (stack.length > 1) {
+        const closed = stack.pop()!
+        if (closed.name === name) break
+      }
+      position = end + 1
+    } else {
+      // Find the end of the tag, skipping '>' inside quoted attribute values
+      let end = tagStart + 1
+      let quote: string | null = null
+      while (end < xml.length) {
+        const char = xml[end]
+        if (quote) {
+          if (char === quote) quote = null
+        } else if (char === '"' || char === "'") {
+          quote = char
+        } else if (char === '>') {
+          break
+        }
+        end++
+      }
+
+      const raw = xml.slice(tagStart + 1, end)
+      const selfClosing = raw.endsWith('/')
+      const body = selfClosing ? raw.slice(0, -1) : raw
+      const nameMatch = body.match(/^\s*([^\s/>]+)/)
+      const node = element(normalizeName(nameMatch ? nameMatch[1] : ''))
+      const attrSource = body.slice(nameMatch ? nameMatch[0].length : 0)
+      const attrPattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+      let attr: RegExpExecArray | null
+      while ((attr = attrPattern.exec(attrSource))) {
+        if (attr[1].startsWith('xmlns')) continue
+        const attrName = attr[1].includes(':') ? attr[1] : camelCase(attr[1])
+        node.attrs[attrName] = decodeEntities(attr[3] ?? attr[4] ?? '')
+      }
+
+      stack[stack.length - 1].children.push(node)
+      if (!selfClosing) stack.push(node)
+      position = end + 1
+    }
+
+    if (position <= tagStart) break // unterminated markup
+  }
+
+  const documentElement = root.children.find((child): child is XmlElement => typeof child !== 'string')
+  if (!documentElement) {
+    throw new Error('Not an XML document')
+  }
+  return documentElement
+}
+
+function childElements(node: XmlElement, name?: string): XmlElement[] {
+  return node.children.filter((child): child is XmlElement =>
+    typeof child !== 'string' && (!name || child.name === name))
+}
+
+function findAll(node: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of childElements(node)) {
+    if (child.name === name) found.push(child)
+    found.push(...findAll(child, name))
+  }
+  return found
+}
+
+function findFirst(node: XmlElement, name: string): XmlElement | undefined {
+  return findAll(node, name)[0]
+}
+
+function isInteraction(node: XmlElement): boolean {
+  return node.name.endsWith('Interaction')
+}
+
+function findInteractions(node: XmlElement): XmlElement[] {
+  return childElements(node).flatMap(child => isInteraction(child) ? [child] : findInteractions(child))
+}
+
+function textContent(node: XmlNode, skipInteractions = false): string {
+  if (typeof node === 'string') return node
+  if (skipInteractions && isInteraction(node)) return ' '
+  const text = node.children.map(child => textContent(child, skipInteractions)).join('')
+  return node.name === 'p' || node.name === 'div' || node.name === 'br' ? ` ${text} ` : text
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+function values(node: XmlElement | undefined): string[] {
+  return node ? findAll(node, 'value').map(value => cleanText(textContent(value))) : []
+}
+
+// ==================================================================
+// IRT AND DIFFICULTY SCALES
+// ==================================================================
+
+// Item outcome variables carrying IRT parameters; imports also accept common item bank spellings
+const IRT_OUTCOMES: Record<keyof QtiIrtParameters, string[]> = {
+  discrimination: ['IRT_A', 'A', 'DISCRIMINATION', 'IRT_DISCRIMINATION'],
+  difficulty: ['IRT_B', 'B', 'DIFFICULTY', 'IRT_DIFFICULTY'],
+  guessing: ['IRT_C', 'C', 'GUESSING', 'IRT_GUESSING', 'PSEUDO_GUESSING']
+}
+
+const MAX_LOGIT = 4
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// 0-1 difficulty (share of the scale, higher is harder) to the IRT b logit scale and back
+function proportionToLogit(proportion: number): number {
+  const p = clamp(proportion, 0.01, 0.99)
+  return clamp(Math.log(p / (1 - p)), -MAX_LOGIT, MAX_LOGIT)
+}
+
+function logitToProportion(logit: number): number {
+  return 1 / (1 + Math.exp(-logit))
+}
+
+// LOM difficulty vocabulary against the 1-10 difficulty_level scale
+const LOM_DIFFICULTY: { value: string; level: number; max: number }[] = [
+  { value: 'very easy', level: 1, max: 2 },
+  { value: 'easy', level: 3, max: 4 },
+  { value: 'medium', level: 5, max: 6 },
+  { value: 'difficult', level: 7, max: 8 },
+  { value: 'very difficult', level: 9, max: 10 }
+]
+
+/**
+ * IRT parameters for an exam question: a calibration run's irt_parameters when there is one,
+ * otherwise the exam's own difficulty calibration converted to the logit scale
+ */
+export function resolveIrtParameters(
+  exam: AdaptiveExam,
+  question: QuestionItem,
+  calibrationResults: DifficultyCalibration['calibration_results'] = []
+): QtiIrtParameters | null {
+  const calibrated = calibrationResults.find(result => result.question_id === question.question_id)
+  if (calibrated) return { ...calibrated.irt_parameters }
+
+  const estimate = exam.calibration_data?.difficulty_calibration?.find(entry => entry.question_id === question.question_id)
+  if (!estimate) return null
+  return {
+    discrimination: estimate.discrimination,
+    difficulty: proportionToLogit(estimate.calibrated_difficulty),
+    guessing: estimate.guessing_parameter
+  }
+}
+
+// ==================================================================
+// EXPORT
+// ==================================================================
+
+const QTI_NAMESPACES: Record<QtiVersion, { qti: string; schema: string; manifest: string; itemType: string; testType: string }> = {
+  '2.1': {
+    qti: 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+    schema: 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd',
+    manifest: 'http://www.imsglobal.org/xsd/imscp_v1p1',
+    itemType: 'imsqti_item_xmlv2p1',
+    testType: 'imsqti_test_xmlv2p1'
+  },
+  '3.0': {
+    qti: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+    schema: 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd',
+    manifest: 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1',
+    itemType: 'imsqti_item_xmlv3p0',
+    testType: 'imsqti_test_xmlv3p0'
+  }
+}
+
+function qtiIdentifier(raw: string, prefix: string): string {
+  const cleaned = raw.replace(/[^A-Za-z0-9_.-]/g, '_')
+  return /^[A-Za-z_]/.test(cleaned) ? cleaned : `${prefix}_${cleaned}`
+}
+
+function valueElement(value: string | number | boolean): XmlElement {
+  return element('value', {}, [String(value)])
+}
+
+function feedbackBlock(identifier: string, title: string, text: string): XmlElement {
+  return element('modalFeedback', { outcomeIdentifier: 'FEEDBACK', identifier, showHide: 'show', title }, [
+    element('p', {}, [text])
+  ])
+}
+
+function setOutcome(identifier: string, baseType: string, value: string | number): XmlElement {
+  return element('setOutcomeValue', { identifier }, [element('baseValue', { baseType }, [String(value)])])
+}
+
+function buildItemElement(question: QuestionItem, identifier: string, irt: QtiIrtParameters | null): XmlElement {
+  const content = question.content
+  const points = question.scoring.max_points
+  let options = content.options || []
+
+  // True/false without options becomes a two-choice item
+  if (question.question_type === 'true_false' && options.length === 0) {
+    const correct = String(content.correct_answer).toLowerCase() === 'true'
+    options = [
+      { option_id: 'true', text: 'True', is_correct: correct },
+      { option_id: 'false', text: 'False', is_correct: !correct }
+    ]
+  }
+
+  const choiceIds = options.map(option => qtiIdentifier(option.option_id, 'choice'))
+  const isChoice = options.length > 0
+  const correctChoices = choiceIds.filter((_, index) => options[index].is_correct)
+  const isNumeric = question.question_type === 'numerical'
+  const isExtended = !isChoice && (question.question_type === 'essay' || question.question_type === 'code')
+
+  let baseType = 'string'
+  let cardinality = 'single'
+  let correctValues: string[] = []
+  if (isChoice) {
+    baseType = 'identifier'
+    cardinality = correctChoices.length > 1 ? 'multiple' : 'single'
+    correctValues = correctChoices
+  } else if (isNumeric) {
+    baseType = 'float'
+    correctValues = content.correct_answer !== undefined ? [String(content.correct_answer)] : []
+  } else if (!isExtended && content.correct_answer !== undefined) {
+    correctValues = [String(content.correct_answer)]
+  }
+
+  const declarations: XmlElement[] = [
+    element('responseDeclaration', { identifier: 'RESPONSE', cardinality, baseType },
+      correctValues.length > 0 ? [element('correctResponse', {}, correctValues.map(valueElement))] : []),
+    element('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float', normalMaximum: points }, [
+      element('defaultValue', {}, [valueElement(0)])
+    ]),
+    element('outcomeDeclaration', { identifier: 'MAXSCORE', cardinality: 'single', baseType: 'float' }, [
+      element('defaultValue', {}, [valueElement(points)])
+    ]),
+    element('outcomeDeclaration', { identifier: 'FEEDBACK', cardinality: 'multiple', baseType: 'identifier' })
+  ]
+
+  if (irt) {
+    const irtValues: [string, number][] = [['IRT_A', irt.discrimination], ['IRT_B', irt.difficulty], ['IRT_C', irt.guessing]]
+    for (const [outcome, value] of irtValues) {
+      declarations.push(element('outcomeDeclaration', { identifier: outcome, cardinality: 'single', baseType: 'float', view: 'testConstructor' }, [
+        element('defaultValue', {}, [valueElement(Number(value.toFixed(4)))])
+      ]))
+    }
+  }
+
+  // The original question type travels in `class` so types QTI has no interaction for survive a round trip
+  let interaction: XmlElement
+  let body: XmlElement[]
+  if (isChoice) {
+    interaction = element('choiceInteraction', {
+      responseIdentifier: 'RESPONSE',
+      shuffle: 'false',
+      maxChoices: cardinality === 'multiple' ? 0 : 1,
+      class: question.question_type
+    }, [
+      element('prompt', {}, [content.question_text]),
+      ...options.map((option, index) => element('simpleChoice', { identifier: choiceIds[index] }, [option.text]))
+    ])
+    body = [interaction]
+  } else if (isExtended) {
+    interaction = element('extendedTextInteraction', {
+      responseIdentifier: 'RESPONSE',
+      expectedLength: content.max_length,
+      placeholderText: content.code_template,
+      class: question.question_type
+    }, [element('prompt', {}, [content.question_text])])
+    body = [interaction]
+  } else {
+    interaction = element('textEntryInteraction', { responseIdentifier: 'RESPONSE', expectedLength: content.max_length || 20, class: question.question_type })
+    body = [element('p', {}, [content.question_text]), element('p', {}, [interaction])]
+  }
+
+  // Explicit processing (rather than the match_correct template) so feedback can be shown
+  const explanationIds = question.feedback.detailed_explanation ? ['explanation'] : []
+  const feedbackOutcome = (id: string) => element('setOutcomeValue', { identifier: 'FEEDBACK' }, [
+    element('multiple', {}, [id, ...explanationIds].map(value => element('baseValue', { baseType: 'identifier' }, [value])))
+  ])
+  const processing = correctValues.length > 0
+    ? [element('responseProcessing', {}, [
+        element('responseCondition', {}, [
+          element('responseIf', {}, [
+            element('match', {}, [element('variable', { identifier: 'RESPONSE' }), element('correct', { identifier: 'RESPONSE' })]),
+            setOutcome('SCORE', 'float', points),
+            feedbackOutcome('correct')
+          ]),
+          element('responseElse', {}, [setOutcome('SCORE', 'float', 0), feedbackOutcome('incorrect')])
+        ])
+      ])]
+    : []
+
+  const feedback = [
+    question.feedback.correct_feedback && feedbackBlock('correct', 'Correct', question.feedback.correct_feedback),
+    question.feedback.incorrect_feedback && feedbackBlock('incorrect', 'Incorrect', question.feedback.incorrect_feedback),
+    question.feedback.detailed_explanation && feedbackBlock('explanation', 'Explanation', question.feedback.detailed_explanation)
+  ].filter((block): block is XmlElement => !!block)
+
+  return element('assessmentItem', {
+    identifier,
+    title: content.question_text.slice(0, 80),
+    adaptive: 'false',
+    timeDependent: 'false'
+  }, [...declarations, element('itemBody', {}, body), ...processing, ...feedback])
+}
+
+function withNamespace(root: XmlElement, version: QtiVersion): string {
+  const ns = QTI_NAMESPACES[version]
+  const rootXml = serialize(root, version)
+  const openEnd = rootXml.indexOf(' ')
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${rootXml.slice(0, openEnd)} xmlns="${ns.qti}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${ns.qti} ${ns.schema}"${rootXml.slice(openEnd)}\n`
+}
+
+function buildItemLom(question: QuestionItem, objectiveTitle: string | undefined): string {
+  const difficulty = LOM_DIFFICULTY.find(entry => question.metadata.difficulty_level <= entry.max) || LOM_DIFFICULTY[LOM_DIFFICULTY.length - 1]
+  const keywords = question.metadata.subject_tags
+    .map(tag => `<keyword><string>${escapeXml(tag)}</string></keyword>`)
+    .join('')
+  const classification = (purpose: string, source: string, id: string, entry?: string) =>
+    `<classification><purpose><source>LOMv1.0</source><value>${purpose}</value></purpose><taxonPath><source><string>${source}</string></source><taxon><id>${escapeXml(id)}</id>${entry ? `<entry><string>${escapeXml(entry)}</string></entry>` : ''}</taxon></taxonPath></classification>`
+
+  return `<metadata><lom xmlns="http://ltsc.ieee.org/xsd/LOM"><general>${keywords}</general><educational><difficulty><source>LOMv1.0</source><value>${difficulty.value}</value></difficulty><typicalLearningTime><duration>PT${Math.round(question.metadata.estimated_time_seconds)}S</duration></typicalLearningTime></educational>${classification('educational objective', 'learning_objectives', question.metadata.objective_id, objectiveTitle)}${classification('competency', 'bloom', question.metadata.competency_level)}</lom></metadata>`
+}
+
+/**
+ * QTI content package (zip) for an exam: one item per question, one test with a section per learning
+ * objective, IRT parameters as item outcome declarations and LOM metadata per item in the manifest
+ */
+export async function exportExamToQti(
+  exam: AdaptiveExam,
+  version: QtiVersion = '2.1',
+  calibrationResults: DifficultyCalibration['calibration_results'] = []
+): Promise<QtiPackageFile> {
+  const { default: JSZip } = await import('jszip')
+  const zip = new JSZip()
+  const ns = QTI_NAMESPACES[version]
+
+  const objectiveTitles = new Map(exam.requirements.learning_objectives.map(objective => [objective.objective_id, objective.title]))
+  const usedIds = new Set<string>()
+  const items = exam.questions.map(question => {
+    let identifier = qtiIdentifier(question.question_id, 'item')
+    while (usedIds.has(identifier)) identifier = `${identifier}_${usedIds.size}`
+    usedIds.add(identifier)
+    return { question, identifier, href: `items/${identifier}.xml`, irt: resolveIrtParameters(exam, question, calibrationResults) }
+  })
+
+  for (const item of items) {
+    zip.file(item.href, withNamespace(buildItemElement(item.question, item.identifier, item.irt), version))
+  }
+
+  // Sections follow the exam's learning objectives, in exam order
+  const sectionIds: string[] = []
+  for (const item of items) {
+    if (!sectionIds.includes(item.question.metadata.objective_id)) sectionIds.push(item.question.metadata.objective_id)
+  }
+  const testId = qtiIdentifier(exam.exam_id, 'test')
+  const timeLimitSeconds = exam.requirements.constraints.time_limit_minutes * 60
+  const test = element('assessmentTest', { identifier: testId, title: exam.title }, [
+    element('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' }),
+    element('testPart', { identifier: 'part_1', navigationMode: 'linear', submissionMode: 'individual' }, [
+      ...(timeLimitSeconds > 0 ? [element('timeLimits', { maxTime: timeLimitSeconds })] : []),
+      ...sectionIds.map(objectiveId => element('assessmentSection', {
+        identifier: qtiIdentifier(objectiveId, 'section'),
+        title: objectiveTitles.get(objectiveId) || objectiveId,
+        visible: 'true'
+      }, items
+        .filter(item => item.question.metadata.objective_id === objectiveId)
+        .map(item => element('assessmentItemRef', { identifier: item.identifier, href: `../${item.href}` }, [
+          element('weight', { identifier: 'W', value: item.question.scoring.max_points })
+        ]))))
+    ]),
+    element('outcomeProcessing', {}, [
+      element('setOutcomeValue', { identifier: 'SCORE' }, [element('sum', {}, [element('testVariables', { variableIdentifier: 'SCORE', weightIdentifier: 'W' })])])
+    ])
+  ])
+  zip.file('tests/assessment.xml', withNamespace(test, version))
+
+  const itemResources = items.map(item => `    <resource identifier="RES_${item.identifier}" type="${ns.itemType}" href="${item.href}">
+      ${buildItemLom(item.question, objectiveTitles.get(item.question.metadata.objective_id))}
+      <file href="${item.href}"/>
+    </resource>`).join('\n')
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="MANIFEST_${testId}" xmlns="${ns.manifest}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <metadata>
+    <schema>QTI Package</schema>
+    <schemaversion>${version === '3.0' ? '3.0.0' : '2.1'}</schemaversion>
+    <lom xmlns="http://ltsc.ieee.org/xsd/LOM"><general><title><string>${escapeXml(exam.title)}</string></title><description><string>${escapeXml(exam.description)}</string></description></general></lom>
+  </metadata>
+  <organizations/>
+  <resources>
+    <resource identifier="RES_${testId}" type="${ns.testType}" href="tests/assessment.xml">
+      <file href="tests/assessment.xml"/>
+${items.map(item => `      <dependency identifierref="RES_${item.identifier}"/>`).join('\n')}
+    </resource>
+${itemResources}
+  </resources>
+</manifest>
+`
+  zip.file('imsmanifest.xml', manifest)
+
+  const content = await zip.generateAsync({ type: 'base64', compression: 'DEFLATE' })
+  const slug = exam.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'exam'
+  return {
+    filename: `${slug}_qti${version.replace('.', '')}.zip`,
+    mime_type: 'application/zip',
+    content_base64: content,
+    version,
+    size_bytes: Math.floor((content.length * 3) / 4) - (content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0),
+    summary: {
+      items: items.length,
+      sections: sectionIds.length,
+      calibrated_items: items.filter(item => item.irt).length
+    }
+  }
+}
+
+// ==================================================================
+// IMPORT
+// ==================================================================
+
+interface ItemMetadata {
+  objectiveId?: string
+  objectiveTitle?: string
+  competency?: string
+  difficultyLevel?: number
+  timeSeconds?: number
+  keywords: string[]
+}
+
+const COMPETENCY_LEVELS: CompetencyLevel[] = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create']
+const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'short_answer', 'essay', 'code', 'matching', 'drag_drop', 'numerical']
+const SUPPORTED_INTERACTIONS = ['choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction']
+
+function parseDuration(duration: string): number | undefined {
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?)?$/)
+  if (!match) return undefined
+  const [, days, hours, minutes, seconds] = match.map(part => Number(part) || 0)
+  return days * 86400 + hours * 3600 + minutes * 60 + seconds
+}
+
+function readLomMetadata(resource: XmlElement): ItemMetadata {
+  const metadata: ItemMetadata = { keywords: [] }
+  const lom = findFirst(resource, 'lom')
+  if (!lom) return metadata
+
+  metadata.keywords = findAll(lom, 'keyword').map(keyword => cleanText(textContent(keyword))).filter(Boolean)
+
+  const difficulty = findFirst(lom, 'difficulty')
+  const difficultyValue = difficulty && cleanText(textContent(findFirst(difficulty, 'value') || difficulty)).toLowerCase()
+  metadata.difficultyLevel = LOM_DIFFICULTY.find(entry => entry.value === difficultyValue)?.level
+
+  const duration = findFirst(lom, 'typicalLearningTime')
+  if (duration) metadata.timeSeconds = parseDuration(cleanText(textContent(findFirst(duration, 'duration') || duration)))
+
+  for (const classification of findAll(lom, 'classification')) {
+    const purpose = cleanText(textContent(findFirst(classification, 'purpose') || classification)).toLowerCase()
+    const taxon = findFirst(classification, 'taxon')
+    if (!taxon) continue
+    const id = cleanText(textContent(findFirst(taxon, 'id') || taxon))
+    const entry = findFirst(taxon, 'entry')
+    if (purpose.includes('educational objective')) {
+      metadata.objectiveId = id
+      metadata.objectiveTitle = entry ? cleanText(textContent(entry)) : undefined
+    } else if (purpose.includes('competency')) {
+      metadata.competency = id
+    }
+  }
+  return metadata
+}
+
+function readIrtParameters(item: XmlElement): QtiIrtParameters | null {
+  const outcomes = new Map(childElements(item, 'outcomeDeclaration').map(declaration => [
+    (declaration.attrs.identifier || '').toUpperCase(),
+    Number(values(findFirst(declaration, 'defaultValue'))[0])
+  ]))
+  const read = (names: string[]) => names.map(name => outcomes.get(name)).find(value => value !== undefined && Number.isFinite(value))
+
+  const difficulty = read(IRT_OUTCOMES.difficulty)
+  if (difficulty === undefined) return null
+  return {
+    discrimination: read(IRT_OUTCOMES.discrimination) ?? 1,
+    difficulty,
+    guessing: read(IRT_OUTCOMES.guessing) ?? 0
+  }
+}
+
+function readFeedback(item: XmlElement): Record<string, string> {
+  const feedback: Record<string, string> = {}
+  for (const block of childElements(item, 'modalFeedback')) {
+    feedback[(block.attrs.identifier || '').toLowerCase()] = cleanText(textContent(block))
+  }
+  return feedback
+}
+
+function parseItem(
+  item: XmlElement,
+  metadata: ItemMetadata,
+  sectionObjective: { id: string; title: string } | undefined,
+  warnings: string[]
+): { question: QuestionItem; irt: QtiIrtParameters | null } | null {
+  const identifier = item.attrs.identifier || `item_${Math.random().toString(36).slice(2, 9)}`
+  const itemBody = findFirst(item, 'itemBody')
+  if (!itemBody) {
+    warnings.push(`${identifier}: no itemBody, skipped`)
+    return null
+  }
+
+  const interactions = findInteractions(itemBody)
+  if (interactions.length === 0) {
+    warnings.push(`${identifier}: no interaction, skipped`)
+    return null
+  }
+  const interaction = interactions[0]
+  if (!SUPPORTED_INTERACTIONS.includes(interaction.name)) {
+    warnings.push(`${identifier}: ${interaction.name} is not supported, skipped`)
+    return null
+  }
+  if (interactions.length > 1) {
+    warnings.push(`${identifier}: only the first of ${interactions.length} interactions was imported`)
+  }
+
+  const declaration = childElements(item, 'responseDeclaration')
+    .find(candidate => candidate.attrs.identifier === interaction.attrs.responseIdentifier)
+  const correctValues = values(declaration && findFirst(declaration, 'correctResponse'))
+  const baseType = declaration?.attrs.baseType || 'string'
+  const declaredType = QUESTION_TYPES.find(type => (interaction.attrs.class || '').split(/\s+/).includes(type))
+
+  const prompt = findFirst(interaction, 'prompt')
+  const stem = cleanText(textContent(itemBody, true))
+  const questionText = cleanText([stem, prompt ? textContent(prompt) : ''].filter(Boolean).join(' '))
+
+  const content: QuestionItem['content'] = { question_text: questionText }
+  let questionType: QuestionType
+
+  if (interaction.name === 'choiceInteraction') {
+    content.options = findAll(interaction, 'simpleChoice').map(choice => ({
+      option_id: choice.attrs.identifier,
+      text: cleanText(textContent(choice)),
+      is_correct: correctValues.includes(choice.attrs.identifier)
+    }))
+    const isBoolean = content.options.length === 2 && content.options.every(option => /^(true|false)$/i.test(option.text))
+    questionType = declaredType || (isBoolean ? 'true_false' : 'multiple_choice')
+    if (questionType === 'true_false') {
+      const correct = content.options.find(option => option.is_correct)
+      if (correct) content.correct_answer = /^true$/i.test(correct.text)
+    }
+  } else if (interaction.name === 'textEntryInteraction') {
+    const numeric = baseType === 'float' || baseType === 'integer'
+    questionType = declaredType || (numeric ? 'numerical' : 'short_answer')
+    if (correctValues[0] !== undefined) {
+      content.correct_answer = numeric ? Number(correctValues[0]) : correctValues[0]
+    }
+  } else {
+    questionType = declaredType || 'essay'
+    if (interaction.attrs.placeholderText) content.code_template = interaction.attrs.placeholderText
+  }
+
+  const expectedLength = Number(interaction.attrs.expectedLength)
+  if (interaction.name !== 'choiceInteraction' && Number.isFinite(expectedLength) && expectedLength > 0) {
+    content.max_length = expectedLength
+  }
+
+  const scoreDeclaration = childElements(item, 'outcomeDeclaration').find(candidate => candidate.attrs.identifier === 'SCORE')
+  const maxScoreDeclaration = childElements(item, 'outcomeDeclaration').find(candidate => candidate.attrs.identifier === 'MAXSCORE')
+  const maxPoints = Number(scoreDeclaration?.attrs.normalMaximum) ||
+    Number(values(maxScoreDeclaration && findFirst(maxScoreDeclaration, 'defaultValue'))[0]) ||
+    1
+
+  const irt = readIrtParameters(item)
+  // Calibrated difficulty is the better measure; LOM difficulty is an author's estimate
+  const difficultyLevel = irt
+    ? clamp(Math.round(logitToProportion(irt.difficulty) * 10), 1, 10)
+    : metadata.difficultyLevel || 5
+  const feedback = readFeedback(item)
+  const competency = COMPETENCY_LEVELS.find(level => level === metadata.competency) || 'apply'
+
+  return {
+    irt,
+    question: {
+      question_id: identifier,
+      question_type: questionType,
+      content,
+      metadata: {
+        difficulty_level: difficultyLevel,
+        estimated_time_seconds: metadata.timeSeconds || 120,
+        competency_level: competency,
+        objective_id: metadata.objectiveId || sectionObjective?.id || 'imported',
+        subject_tags: metadata.keywords,
+        prerequisite_knowledge: [],
+        discrimination_index: irt?.discrimination ?? 1,
+        cognitive_load: 3
+      },
+      scoring: {
+        max_points: maxPoints
+      },
+      feedback: {
+        correct_feedback: feedback.correct || '',
+        incorrect_feedback: feedback.incorrect || '',
+        detailed_explanation: feedback.explanation || '',
+        related_resources: []
+      },
+      adaptive_properties: {
+        branch_conditions: [],
+        prerequisite_questions: [],
+        follow_up_questions: [],
+        alternative_versions: []
+      }
+    }
+  }
+}
+
+function resolvePath(base: string, href: string): string {
+  const parts = base.split('/').slice(0, -1)
+  for (const segment of href.split('/')) {
+    if (segment === '..') parts.pop()
+    else if (segment !== '.' && segment !== '') parts.push(segment)
+  }
+  return parts.join('/')
+}
+
+// Packages are untrusted uploads: a few KB of zip can inflate to gigabytes, or hold millions of entries
+const MAX_PACKAGE_ENTRIES = 5000
+const MAX_PACKAGE_UNCOMPRESSED_BYTES = 50 * 1024 * 1024
+
+// Inflate one entry, giving up as soon as the package as a whole goes over its uncompressed budget
+function readPackageEntry(entry: JSZip.JSZipObject, budget: { remaining: number }): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    const stream = entry.nodeStream('nodebuffer')
+    stream.on('data', (chunk: Buffer) => {
+      budget.remaining -= chunk.length
+      if (budget.remaining < 0) {
+        stream.pause()
+        stream.removeAllListeners('data')
+        reject(new Error(`QTI package expands to more than ${MAX_PACKAGE_UNCOMPRESSED_BYTES / (1024 * 1024)} MB`))
+        return
+      }
+      chunks.push(chunk)
+    })
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')))
+    stream.on('error', reject)
+  })
+}
+
+function detectVersion(xml: string): QtiVersion {
+  return /<(\w+:)?qti-assessment-|imsqtiasi_v3p0|qtiv3p0/.test(xml) ? '3.0' : '2.1'
+}
+
+/**
+ * Import a QTI 2.1 / 3.0 item bank: a zipped content package (manifest, items, optional test) or a
+ * single assessmentItem / assessmentTest document
+ */
+export async function importQti(source: QtiImportSource): Promise<QtiImportResult> {
+  const files = new Map<string, string>()
+  if (source.base64) {
+    const { default: JSZip } = await import('jszip')
+    const zip = await JSZip.loadAsync(source.base64, { base64: true })
+    const entries = Object.entries(zip.files)
+    if (entries.length > MAX_PACKAGE_ENTRIES) {
+      throw new Error(`QTI package has ${entries.length} entries, at most ${MAX_PACKAGE_ENTRIES} are accepted`)
+    }
+    const budget = { remaining: MAX_PACKAGE_UNCOMPRESSED_BYTES }
+    for (const [path, entry] of entries) {
+      if (!entry.dir && path.toLowerCase().endsWith('.xml')) files.set(path, await readPackageEntry(entry, budget))
+    }
+  } else if (source.xml) {
+    files.set(source.filename || 'item.xml', source.xml)
+  } else {
+    throw new Error('No QTI content provided')
+  }
+
+  const warnings: string[] = []
+  const documents = new Map<string, XmlElement>()
+  for (const [path, xml] of files) {
+    try {
+      documents.set(path, parseXml(xml))
+    } catch (error) {
+      warnings.push(`${path}: ${error instanceof Error ? error.message : 'unreadable XML'}`)
+    }
+  }
+  const version = detectVersion(Array.from(files.values()).join('\n'))
+
+  // Per-item LOM metadata from the manifest, keyed by item file path
+  const metadataByPath = new Map<string, ItemMetadata>()
+  let title = ''
+  const manifest = documents.get('imsmanifest.xml')
+  if (manifest) {
+    const packageTitle = findFirst(childElements(manifest, 'metadata')[0] || manifest, 'title')
+    title = packageTitle ? cleanText(textContent(packageTitle)) : ''
+    for (const resource of findAll(manifest, 'resource')) {
+      if (resource.attrs.href) metadataByPath.set(resource.attrs.href, readLomMetadata(resource))
+    }
+  }
+
+  // Section membership from the test(s) gives each item its objective when LOM does not
+  const sectionByPath = new Map<string, { id: string; title: string }>()
+  const orderedPaths: string[] = []
+  for (const [path, root] of documents) {
+    if (root.name !== 'assessmentTest') continue
+    title = title || root.attrs.title || ''
+    for (const section of findAll(root, 'assessmentSection')) {
+      for (const ref of childElements(section, 'assessmentItemRef')) {
+        const itemPath = resolvePath(path, ref.attrs.href || '')
+        sectionByPath.set(itemPath, { id: section.attrs.identifier, title: section.attrs.title || section.attrs.identifier })
+        orderedPaths.push(itemPath)
+      }
+    }
+  }
+
+  const itemPaths = [
+    ...orderedPaths.filter(path => documents.get(path)?.name === 'assessmentItem'),
+    ...Array.from(documents.keys()).filter(path => documents.get(path)!.name === 'assessmentItem' && !orderedPaths.includes(path))
+  ]
+  for (const path of orderedPaths) {
+    if (!documents.has(path)) warnings.push(`${path}: referenced by the test but missing from the package`)
+  }
+
+  const questions: QuestionItem[] = []
+  const calibrationResults: DifficultyCalibration['calibration_results'] = []
+  const seenIds = new Set<string>()
+  const objectiveTitles = new Map<string, string>()
+  for (const path of itemPaths) {
+    const parsed = parseItem(documents.get(path)!, metadataByPath.get(path) || { keywords: [] }, sectionByPath.get(path), warnings)
+    if (!parsed) continue
+    if (seenIds.has(parsed.question.question_id)) {
+      warnings.push(`${parsed.question.question_id}: duplicate item identifier, skipped`)
+      continue
+    }
+    seenIds.add(parsed.question.question_id)
+    questions.push(parsed.question)
+
+    const metadata = metadataByPath.get(path)
+    const objectiveTitle = metadata?.objectiveId === parsed.question.metadata.objective_id
+      ? metadata.objectiveTitle
+      : sectionByPath.get(path)?.title
+    if (objectiveTitle) objectiveTitles.set(parsed.question.metadata.objective_id, objectiveTitle)
+
+    if (parsed.irt) {
+      calibrationResults.push({
+        question_id: parsed.question.question_id,
+        statistical_difficulty: logitToProportion(parsed.irt.difficulty),
+        irt_parameters: parsed.irt,
+        performance_data: {
+          total_attempts: 0,
+          correct_responses: 0,
+          avg_response_time: parsed.question.metadata.estimated_time_seconds,
+          ability_range: [-MAX_LOGIT, MAX_LOGIT]
+        },
+        quality_metrics: {
+          discrimination_index: parsed.irt.discrimination,
+          point_biserial_correlation: 0,
+          reliability_contribution: 0
+        }
+      })
+    }
+  }
+
+  const objectives = new Map<string, string>()
+  for (const question of questions) {
+    const objectiveId = question.metadata.objective_id
+    if (!objectives.has(objectiveId)) objectives.set(objectiveId, objectiveTitles.get(objectiveId) || objectiveId)
+  }
+
+  const bankId = `bank_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`
+  return {
+    bank_id: bankId,
+    title: title || source.filename || 'Imported item bank',
+    version,
+    questions,
+    objectives: Array.from(objectives, ([objective_id, title]) => ({ objective_id, title })),
+    calibration: {
+      calibration_id: `calibration_${bankId}`,
+      question_pool: questions,
+      calibration_results: calibrationResults,
+      // Parameters come from the source bank; its sample and fit statistics are not part of QTI
+      calibration_metadata: {
+        sample_size: 0,
+        ability_distribution: [],
+        convergence_achieved: calibrationResults.length > 0,
+        standard_error: 0,
+        confidence_level: 0
+      }
+    },
+    warnings
+  }
+}
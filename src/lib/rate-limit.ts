@@ -0,0 +1,324 @@
+// API Rate Limiting
+// Token-bucket limits for the API routes, applied in src/middleware.ts. Buckets live in a
+// pluggable store: process memory for development, Redis (REST) or Postgres for multi-instance deployments.
+
+import type { RequestIdentity, RequestIdentityKind } from './request-identity'
+
+export interface RateLimitPolicy {
+  policyId: string
+  pathPrefixes: string[] // first policy with a matching prefix wins
+  capacity: number // burst size, in requests
+  refillPerSecond: number // sustained rate
+  cost?: number // tokens per request, default 1
+  // Anonymous callers share IPs (schools, offices) or can mint sessions, so they get smaller buckets
+  identityMultipliers?: Partial<Record<RequestIdentityKind, number>>
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  retryAfterSeconds: number // 0 when allowed
+  resetSeconds: number // until the bucket is full again
+}
+
+export interface RateLimitStore {
+  take(key: string, capacity: number, refillPerSecond: number, cost: number): Promise<Omit<RateLimitResult, 'limit' | 'resetSeconds'>>
+}
+
+const DEFAULT_IDENTITY_MULTIPLIERS: Record<RequestIdentityKind, number> = {
+  user: 1,
+  guest: 0.5,
+  ip: 0.5
+}
+
+// Routes that are never limited (load balancer health checks)
+export const RATE_LIMIT_EXEMPT_PATHS = ['/api/health']
+
+// Ordered most specific first
+export const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  {
+    policyId: 'auth',
+    pathPrefixes: ['/api/auth'],
+    capacity: 10,
+    refillPerSecond: 10 / 300, // 10 attempts per 5 minutes against credential stuffing
+    identityMultipliers: { user: 1, guest: 1, ip: 1 }
+  },
+  {
+    policyId: 'code_execution',
+    pathPrefixes: ['/api/interactive/execute-code'],
+    capacity: 10,
+    refillPerSecond: 10 / 60
+  },
+  {
+    policyId: 'ai_generation',
+    pathPrefixes: [
+      '/api/ai',
+      '/api/tutoring',
+      '/api/ai-mentor',
+      '/api/content-synthesis',
+      '/api/multimodal-content',
+      '/api/curriculum-generator',
+      '/api/knowledge-graph',
+      '/api/learning-style/generate-content',
+      '/api/learning-paths/generate',
+      '/api/safety/ai-content'
+    ],
+    capacity: 20,
+    refillPerSecond: 20 / 60
+  },
+  {
+    policyId: 'event_ingest',
+    pathPrefixes: ['/api/analytics/track', '/api/engagement/track'],
+    capacity: 120,
+    refillPerSecond: 2
+  },
+  {
+    policyId: 'default',
+    pathPrefixes: ['/api'],
+    capacity: 60,
+    refillPerSecond: 1
+  }
+]
+
+let activePolicies = DEFAULT_RATE_LIMIT_POLICIES
+
+// Replace the policy table (tests, deployments with custom limits)
+export function setRateLimitPolicies(policies: RateLimitPolicy[]): void {
+  activePolicies = policies
+}
+
+export function matchRateLimitPolicy(pathname: string): RateLimitPolicy | null {
+  if (RATE_LIMIT_EXEMPT_PATHS.some(path => pathname === path || pathname.startsWith(`${path}/`))) {
+    return null
+  }
+
+  return activePolicies.find(policy =>
+    policy.pathPrefixes.some(prefix => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  ) || null
+}
+
+// ==================================================================
+// MEMORY STORE (development, single instance)
+// ==================================================================
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>()
+
+  constructor(private readonly maxBuckets: number = 10000) {}
+
+  async take(key: string, capacity: number, refillPerSecond: number, cost: number) {
+    const now = Date.now()
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now }
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond)
+    bucket.updatedAt = now
+
+    const allowed = bucket.tokens >= cost
+    if (allowed) {
+      bucket.tokens -= cost
+    }
+
+    this.buckets.set(key, bucket)
+    this.pruneIdleBuckets(now)
+
+    return {
+      allowed,
+      remaining: bucket.tokens,
+      retryAfterSeconds: allowed ? 0 : (cost - bucket.tokens) / refillPerSecond
+    }
+  }
+
+  // An idle bucket older than its refill time is full again and can be recreated on demand
+  private pruneIdleBuckets(now: number): void {
+    if (this.buckets.size <= this.maxBuckets) return
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt > 60 * 60 * 1000) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+// ==================================================================
+// REDIS STORE (Upstash-compatible REST API)
+// ==================================================================
+
+// Refill and take in one round trip; Redis TIME keeps every app instance on the same clock.
+// Lua numbers are truncated to integers on return, so remaining/retry are scaled to milli-units.
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill = tonumber(ARGV[2])
+local cost = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) / 1000 * refill)
+local allowed = 0
+local retry = 0
+if tokens >= cost then
+  tokens = tokens - cost
+  allowed = 1
+else
+  retry = math.ceil((cost - tokens) / refill * 1000)
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refill * 1000))
+return {allowed, math.floor(tokens * 1000), retry}
+`
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly url: string,
+    private readonly token: string
+  ) {}
+
+  async take(key: string, capacity: number, refillPerSecond: number, cost: number) {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(['EVAL', TOKEN_BUCKET_SCRIPT, '1', `ratelimit:${key}`, capacity, refillPerSecond, cost]),
+      cache: 'no-store'
+    })
+
+    if (!response.ok) {
+      throw new Error(`Redis rate limit store returned ${response.status}`)
+    }
+
+    const { result, error } = await response.json()
+    if (error) {
+      throw new Error(`Redis rate limit store error: ${error}`)
+    }
+
+    const [allowed, remainingMilli, retryMs] = result as [number, number, number]
+    return {
+      allowed: allowed === 1,
+      remaining: remainingMilli / 1000,
+      retryAfterSeconds: retryMs / 1000
+    }
+  }
+}
+
+// ==================================================================
+// POSTGRES STORE (Supabase RPC, see 007_rate_limits.sql)
+// ==================================================================
+
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly supabaseUrl: string,
+    private readonly serviceRoleKey: string
+  ) {}
+
+  async take(key: string, capacity: number, refillPerSecond: number, cost: number) {
+    // Plain fetch against PostgREST: the Supabase client module throws at import without public env vars
+    const response = await fetch(`${this.supabaseUrl}/rest/v1/rpc/take_rate_limit_token`, {
+      method: 'POST',
+      headers: {
+        apikey: this.serviceRoleKey,
+        Authorization: `Bearer ${this.serviceRoleKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        bucket_key: key,
+        capacity,
+        refill_per_second: refillPerSecond,
+        cost
+      }),
+      cache: 'no-store'
+    })
+
+    if (!response.ok) {
+      throw new Error(`Postgres rate limit store returned ${response.status}`)
+    }
+
+    const [row] = await response.json()
+    return {
+      allowed: !!row?.allowed,
+      remaining: Number(row?.remaining ?? 0),
+      retryAfterSeconds: Number(row?.retry_after_seconds ?? 0)
+    }
+  }
+}
+
+// ==================================================================
+// STORE SELECTION
+// ==================================================================
+
+let activeStore: RateLimitStore | null = null
+
+// RATE_LIMIT_STORE=memory|redis|postgres picks explicitly. Without it Redis is used when its REST
+// credentials are present, memory otherwise; Postgres is opt-in since it adds a database round trip per API call.
+function createDefaultStore(): RateLimitStore {
+  const mode = process.env.RATE_LIMIT_STORE
+  const redisUrl = process.env.RATE_LIMIT_REDIS_REST_URL || process.env.UPSTASH_REDIS_REST_URL
+  const redisToken = process.env.RATE_LIMIT_REDIS_REST_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN || ''
+
+  if (mode === 'postgres') {
+    return new PostgresRateLimitStore(
+      process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+      process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+    )
+  }
+  if ((mode === 'redis' || !mode) && redisUrl) {
+    return new RedisRateLimitStore(redisUrl, redisToken)
+  }
+  return new MemoryRateLimitStore()
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = createDefaultStore()
+  }
+  return activeStore
+}
+
+// Swap the backing store (tests, custom backends)
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store
+}
+
+// ==================================================================
+// LIMITING
+// ==================================================================
+
+/**
+ * Take tokens for one request from the identity's bucket under a policy. Guests also take from their
+ * IP's bucket: /api/auth/guest hands out a fresh session per call, so per-session buckets alone would
+ * let one address multiply its limit.
+ */
+export async function consumeRateLimit(policy: RateLimitPolicy, identity: RequestIdentity): Promise<RateLimitResult> {
+  const own = await takeFromBucket(policy, identity.kind, identity.id)
+  if (identity.kind !== 'guest' || !identity.ip || !own.allowed) {
+    return own
+  }
+
+  const shared = await takeFromBucket(policy, 'ip', identity.ip)
+  return shared.allowed && shared.remaining >= own.remaining ? own : shared
+}
+
+async function takeFromBucket(policy: RateLimitPolicy, kind: RequestIdentityKind, id: string): Promise<RateLimitResult> {
+  const multiplier = policy.identityMultipliers?.[kind] ?? DEFAULT_IDENTITY_MULTIPLIERS[kind]
+  const capacity = Math.max(1, Math.floor(policy.capacity * multiplier))
+  const refillPerSecond = policy.refillPerSecond * multiplier
+  const cost = policy.cost || 1
+
+  const result = await getRateLimitStore().take(
+    `${policy.policyId}:${kind}:${id}`,
+    capacity,
+    refillPerSecond,
+    cost
+  )
+
+  return {
+    ...result,
+    limit: capacity,
+    remaining: Math.max(0, Math.floor(result.remaining)),
+    retryAfterSeconds: Math.ceil(result.retryAfterSeconds),
+    resetSeconds: Math.ceil((capacity - result.remaining) / refillPerSecond)
+  }
+}
@@ -0,0 +1,308 @@
+// Replay Evaluation
+// Off-policy estimates of how a candidate policy would have done on logged decisions: direct method,
+// inverse propensity scoring (plain and self-normalised) and doubly robust, with intervals and diagnostics
+
+import { normalQuantile } from './experiment-statistics'
+
+export type ReplaySystem = 'content_recommendations' | 'model_routing' | 'learning_sequencing'
+
+export interface LoggedDecision {
+  decisionId: string
+  system: ReplaySystem
+  userId?: string
+  timestamp: string
+  context: Record<string, any>
+  stratum?: string // coarse context bucket for propensity and reward estimates
+  action: string
+  actions: string[] // actions that were eligible when the decision was made
+  propensity?: number // probability the logging policy gave the action; estimated when missing
+  reward: number
+}
+
+export interface CandidatePolicy {
+  name: string
+  description: string
+  probabilities(decision: LoggedDecision): Record<string, number>
+}
+
+export interface RewardModel {
+  predict(decision: LoggedDecision, action: string): number
+}
+
+export interface EstimateInterval {
+  value: number
+  standardError: number
+  confidenceInterval: [number, number]
+}
+
+export interface PolicyEstimate {
+  policy: string
+  description: string
+  directMethod: EstimateInterval
+  inversePropensity: EstimateInterval
+  selfNormalized: number
+  doublyRobust: EstimateInterval
+  liftOverLogged: number // doubly robust estimate minus the logged policy's observed reward
+  effectiveSampleSize: number
+  matchRate: number // share of decisions where the candidate could have taken the logged action
+  maxWeight: number
+  clippedWeights: number
+}
+
+export interface ReplayReport {
+  system: ReplaySystem
+  decisions: number
+  propensitySource: 'logged' | 'estimated' | 'mixed' | 'none'
+  loggedValue: EstimateInterval
+  estimates: PolicyEstimate[]
+  warnings: string[]
+  generatedAt: string
+}
+
+export interface ReplayOptions {
+  weightClip: number // importance weights above this are clipped, trading bias for variance
+  confidenceLevel: number
+  minPropensity: number // floor for estimated propensities
+  rewardModel: (training: LoggedDecision[]) => RewardModel
+}
+
+const SHRINKAGE = 5 // pseudo-observations pulling sparse cells towards their parent mean
+const LOW_OVERLAP_MATCH_RATE = 0.1
+const LOW_EFFECTIVE_SAMPLE_SHARE = 0.1
+
+// ==================================================================
+// REWARD MODEL
+// ==================================================================
+
+/**
+ * Mean reward per (stratum, action), shrunk towards the action mean and that towards the global
+ * mean, so cells with a handful of decisions do not swing the direct-method term.
+ */
+export function stratifiedMeanRewardModel(training: LoggedDecision[]): RewardModel {
+  const global = training.length > 0
+    ? training.reduce((sum, decision) => sum + decision.reward, 0) / training.length
+    : 0
+  const byAction = new Map<string, { sum: number; count: number }>()
+  const byCell = new Map<string, { sum: number; count: number }>()
+
+  const add = (map: Map<string, { sum: number; count: number }>, key: string, reward: number) => {
+    const cell = map.get(key) || { sum: 0, count: 0 }
+    cell.sum += reward
+    cell.count++
+    map.set(key, cell)
+  }
+  for (const decision of training) {
+    add(byAction, decision.action, decision.reward)
+    add(byCell, `${decision.stratum || ''}|${decision.action}`, decision.reward)
+  }
+
+  return {
+    predict(decision, action) {
+      const actionCell = byAction.get(action)
+      const actionMean = actionCell
+        ? (actionCell.sum + SHRINKAGE * global) / (actionCell.count + SHRINKAGE)
+        : global
+      const cell = byCell.get(`${decision.stratum || ''}|${action}`)
+      return cell ? (cell.sum + SHRINKAGE * actionMean) / (cell.count + SHRINKAGE) : actionMean
+    }
+  }
+}
+
+export const DEFAULT_REPLAY_OPTIONS: ReplayOptions = {
+  weightClip: 20,
+  confidenceLevel: 0.95,
+  minPropensity: 0.01,
+  rewardModel: stratifiedMeanRewardModel
+}
+
+// ==================================================================
+// PROPENSITIES
+// ==================================================================
+
+/**
+ * Fill missing propensities with the logging policy's empirical action frequencies among decisions
+ * that had the same eligible actions and stratum. Only sound when the logging policy depended on
+ * nothing finer than the stratum.
+ */
+export function fillLoggingPropensities(
+  decisions: LoggedDecision[],
+  minPropensity = DEFAULT_REPLAY_OPTIONS.minPropensity
+): { decisions: LoggedDecision[]; estimated: number } {
+  const groupKey = (decision: LoggedDecision) => `${[...decision.actions].sort().join(',')}|${decision.stratum || ''}`
+  const counts = new Map<string, Map<string, number>>()
+  for (const decision of decisions) {
+    const key = groupKey(decision)
+    const actions = counts.get(key) || new Map<string, number>()
+    actions.set(decision.action, (actions.get(decision.action) || 0) + 1)
+    counts.set(key, actions)
+  }
+
+  let estimated = 0
+  const filled = decisions.map(decision => {
+    if (decision.propensity !== undefined && decision.propensity > 0) return decision
+    estimated++
+    const actions = counts.get(groupKey(decision))!
+    const total = Array.from(actions.values()).reduce((sum, count) => sum + count, 0)
+    return { ...decision, propensity: Math.max(minPropensity, (actions.get(decision.action) || 0) / total) }
+  })
+
+  return { decisions: filled, estimated }
+}
+
+// ==================================================================
+// ESTIMATORS
+// ==================================================================
+
+function interval(values: number[], confidenceLevel: number): EstimateInterval {
+  const n = values.length
+  if (n === 0) return { value: 0, standardError: 0, confidenceInterval: [0, 0] }
+  const mean = values.reduce((sum, value) => sum + value, 0) / n
+  const variance = n > 1 ? values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1) : 0
+  const standardError = Math.sqrt(variance / n)
+  const z = normalQuantile(1 - (1 - confidenceLevel) / 2)
+  return { value: mean, standardError, confidenceInterval: [mean - z * standardError, mean + z * standardError] }
+}
+
+// Candidate probabilities over the eligible actions, uniform if the candidate puts no mass on any of them
+function eligibleProbabilities(policy: CandidatePolicy, decision: LoggedDecision): Record<string, number> {
+  const raw = policy.probabilities(decision)
+  const total = decision.actions.reduce((sum, action) => sum + Math.max(0, raw[action] || 0), 0)
+  return Object.fromEntries(decision.actions.map(action => [
+    action,
+    total > 0 ? Math.max(0, raw[action] || 0) / total : 1 / decision.actions.length
+  ]))
+}
+
+// Fold by a hash of the decision id so the split does not follow any ordering in the logs
+function foldOf(decision: LoggedDecision): number {
+  let hash = 0
+  for (let i = 0; i < decision.decisionId.length; i++) {
+    hash = (Math.imul(hash, 31) + decision.decisionId.charCodeAt(i)) | 0
+  }
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  return hash >>> 31
+}
+
+// Two folds; each decision's reward prediction comes from the model fitted on the other fold
+function crossFitModels(decisions: LoggedDecision[], fit: ReplayOptions['rewardModel']): RewardModel[] {
+  const folds = decisions.map(foldOf)
+  if (!folds.includes(0) || !folds.includes(1)) {
+    const model = fit(decisions)
+    return decisions.map(() => model)
+  }
+  const models = [
+    fit(decisions.filter((_, index) => folds[index] === 1)),
+    fit(decisions.filter((_, index) => folds[index] === 0))
+  ]
+  return folds.map(fold => models[fold])
+}
+
+export function evaluatePolicy(
+  decisions: LoggedDecision[],
+  policy: CandidatePolicy,
+  models: RewardModel[],
+  options: ReplayOptions = DEFAULT_REPLAY_OPTIONS
+): PolicyEstimate {
+  const direct: number[] = []
+  const ips: number[] = []
+  const dr: number[] = []
+  let weightSum = 0
+  let weightSquares = 0
+  let weightedRewards = 0
+  let matched = 0
+  let maxWeight = 0
+  let clippedWeights = 0
+
+  decisions.forEach((decision, index) => {
+    const probabilities = eligibleProbabilities(policy, decision)
+    const model = models[index]
+    const propensity = Math.max(decision.propensity || options.minPropensity, options.minPropensity)
+
+    const rawWeight = (probabilities[decision.action] || 0) / propensity
+    const weight = Math.min(rawWeight, options.weightClip)
+    if (rawWeight > options.weightClip) clippedWeights++
+    if (rawWeight > 0) matched++
+    maxWeight = Math.max(maxWeight, weight)
+
+    const baseline = decision.actions.reduce(
+      (sum, action) => sum + probabilities[action] * model.predict(decision, action), 0
+    )
+    direct.push(baseline)
+    ips.push(weight * decision.reward)
+    dr.push(baseline + weight * (decision.reward - model.predict(decision, decision.action)))
+
+    weightSum += weight
+    weightSquares += weight * weight
+    weightedRewards += weight * decision.reward
+  })
+
+  const logged = decisions.length > 0
+    ? decisions.reduce((sum, decision) => sum + decision.reward, 0) / decisions.length
+    : 0
+  const doublyRobust = interval(dr, options.confidenceLevel)
+
+  return {
+    policy: policy.name,
+    description: policy.description,
+    directMethod: interval(direct, options.confidenceLevel),
+    inversePropensity: interval(ips, options.confidenceLevel),
+    selfNormalized: weightSum > 0 ? weightedRewards / weightSum : 0,
+    doublyRobust,
+    liftOverLogged: doublyRobust.value - logged,
+    effectiveSampleSize: weightSquares > 0 ? (weightSum * weightSum) / weightSquares : 0,
+    matchRate: decisions.length > 0 ? matched / decisions.length : 0,
+    maxWeight,
+    clippedWeights
+  }
+}
+
+/**
+ * Estimate every candidate on the same logs, side by side with the logged policy's observed reward.
+ */
+export function compareCandidatePolicies(
+  system: ReplaySystem,
+  logged: LoggedDecision[],
+  policies: CandidatePolicy[],
+  overrides: Partial<ReplayOptions> = {}
+): ReplayReport {
+  const options = { ...DEFAULT_REPLAY_OPTIONS, ...overrides }
+  const usable = logged.filter(decision => decision.actions.includes(decision.action))
+  const { decisions, estimated } = fillLoggingPropensities(usable, options.minPropensity)
+  const models = crossFitModels(decisions, options.rewardModel)
+  const warnings: string[] = []
+
+  if (usable.length < logged.length) {
+    warnings.push(`${logged.length - usable.length} decisions were dropped because the logged action was not among the eligible actions`)
+  }
+  if (decisions.length === 0) {
+    warnings.push('No logged decisions with observed rewards in the requested window')
+  }
+  if (estimated > 0) {
+    warnings.push(`${estimated} of ${decisions.length} propensities were estimated from logged action frequencies`)
+  }
+
+  const estimates = policies.map(policy => evaluatePolicy(decisions, policy, models, options))
+  for (const estimate of estimates) {
+    if (decisions.length > 0 && estimate.matchRate < LOW_OVERLAP_MATCH_RATE) {
+      warnings.push(`${estimate.policy} rarely agrees with the logged actions; its estimates lean on the reward model`)
+    }
+    if (decisions.length > 0 && estimate.effectiveSampleSize < LOW_EFFECTIVE_SAMPLE_SHARE * decisions.length) {
+      warnings.push(`${estimate.policy} has an effective sample size of ${estimate.effectiveSampleSize.toFixed(1)}; treat its IPS estimate as noisy`)
+    }
+  }
+
+  return {
+    system,
+    decisions: decisions.length,
+    propensitySource: decisions.length === 0 ? 'none'
+      : estimated === 0 ? 'logged'
+      : estimated === decisions.length ? 'estimated'
+      : 'mixed',
+    loggedValue: interval(decisions.map(decision => decision.reward), options.confidenceLevel),
+    estimates,
+    warnings,
+    generatedAt: new Date().toISOString()
+  }
+}
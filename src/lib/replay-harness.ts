@@ -0,0 +1,398 @@
+// Replay Harness
+// Loads logged decisions of the content recommender, the model router and the sequencing engine from
+// analytics_events, interactions and the recommender's decision log, and replays them against candidate policies
+
+import { contentRecommendationEngine } from './content-recommendation-engine'
+import { automatedModelRouter, type RequestContext } from './automated-model-routing'
+import { expectedReward, type BanditDecision } from './contextual-bandit'
+import {
+  compareCandidatePolicies,
+  type CandidatePolicy,
+  type LoggedDecision,
+  type ReplayOptions,
+  type ReplayReport,
+  type ReplaySystem
+} from './replay-evaluation'
+
+export const REPLAY_SYSTEMS: ReplaySystem[] = ['content_recommendations', 'model_routing', 'learning_sequencing']
+
+// Outcomes arriving later than this are not attributed to the decision
+export const REWARD_WINDOW_MS = 24 * 60 * 60 * 1000
+
+const DEFAULT_LOG_LIMIT = 10000
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface PolicyDecisionLog {
+  system: ReplaySystem
+  decisionId: string
+  userId?: string
+  context: Record<string, any>
+  stratum?: string
+  action: string
+  actions: string[]
+  propensity?: number // omit when the policy cannot say (e.g. model-generated plans)
+}
+
+export interface ReplayWindow {
+  since?: Date
+  until?: Date
+  limit?: number
+}
+
+export class ReplayEvaluationError extends Error {
+  constructor(message: string, public status: 400 | 404) {
+    super(message)
+    this.name = 'ReplayEvaluationError'
+  }
+}
+
+// Loaded lazily so importing the harness never requires Supabase credentials
+async function client() {
+  const { supabaseAdmin } = await import('./supabase')
+  return supabaseAdmin
+}
+
+// ==================================================================
+// LOGGING
+// ==================================================================
+
+async function insertEvent(eventType: 'policy_decision' | 'policy_outcome', decisionId: string, userId: string | undefined, properties: Record<string, any>) {
+  try {
+    const { error } = await (await client())
+      .from('analytics_events')
+      .insert({
+        event_type: eventType,
+        user_id: userId && UUID_PATTERN.test(userId) ? userId : null,
+        session_id: decisionId,
+        timestamp: new Date().toISOString(),
+        properties: { ...properties, decision_id: decisionId, user_key: userId || null },
+        created_at: new Date().toISOString()
+      })
+    if (error) throw new Error(error.message)
+  } catch (error) {
+    // Logging must never fail the request that made the decision
+    console.error(`Failed to log ${eventType}:`, error)
+  }
+}
+
+/**
+ * Record a decision with the propensity it was made with, so it can be replayed later
+ */
+export async function logPolicyDecision(entry: PolicyDecisionLog): Promise<void> {
+  await insertEvent('policy_decision', entry.decisionId, entry.userId, {
+    system: entry.system,
+    context: entry.context,
+    stratum: entry.stratum,
+    action: entry.action,
+    actions: entry.actions,
+    propensity: entry.propensity
+  })
+}
+
+/**
+ * Record the reward (0-1) a logged decision earned
+ */
+export async function logPolicyOutcome(
+  system: ReplaySystem,
+  decisionId: string,
+  reward: number,
+  userId?: string,
+  details: Record<string, any> = {}
+): Promise<void> {
+  await insertEvent('policy_outcome', decisionId, userId, {
+    ...details,
+    system,
+    reward: Math.min(1, Math.max(0, reward))
+  })
+}
+
+// ==================================================================
+// LOADING
+// ==================================================================
+
+// Decisions and outcomes logged as analytics events; decisions without an outcome are left out
+async function loadEventDecisions(system: ReplaySystem, window: ReplayWindow): Promise<{ decisions: LoggedDecision[]; warnings: string[] }> {
+  let query = (await client())
+    .from('analytics_events')
+    .select('event_type, timestamp, properties')
+    .in('event_type', ['policy_decision', 'policy_outcome'])
+    .eq('properties->>system', system)
+    .order('timestamp', { ascending: true })
+    .limit(window.limit || DEFAULT_LOG_LIMIT)
+  if (window.since) query = query.gte('timestamp', window.since.toISOString())
+  if (window.until) query = query.lte('timestamp', new Date(window.until.getTime() + REWARD_WINDOW_MS).toISOString())
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(`Failed to load ${system} decision logs: ${error.message}`)
+  }
+
+  const outcomes = new Map<string, { reward: number; timestamp: string }>()
+  const logged: Array<{ timestamp: string; properties: Record<string, any> }> = []
+  for (const row of data || []) {
+    if (row.event_type === 'policy_outcome') {
+      outcomes.set(row.properties.decision_id, { reward: Number(row.properties.reward) || 0, timestamp: row.timestamp })
+    } else if (!window.until || new Date(row.timestamp) <= window.until) {
+      logged.push(row)
+    }
+  }
+
+  const decisions: LoggedDecision[] = []
+  let pending = 0
+  for (const row of logged) {
+    const outcome = outcomes.get(row.properties.decision_id)
+    if (!outcome || new Date(outcome.timestamp).getTime() - new Date(row.timestamp).getTime() > REWARD_WINDOW_MS) {
+      pending++
+      continue
+    }
+    decisions.push({
+      decisionId: row.properties.decision_id,
+      system,
+      userId: row.properties.user_key || undefined,
+      timestamp: row.timestamp,
+      context: row.properties.context || {},
+      stratum: row.properties.stratum,
+      action: row.properties.action,
+      actions: row.properties.actions || [],
+      propensity: typeof row.properties.propensity === 'number' ? row.properties.propensity : undefined,
+      reward: outcome.reward
+    })
+  }
+
+  return {
+    decisions,
+    warnings: pending > 0 ? [`${pending} logged decisions had no outcome within the reward window and were skipped`] : []
+  }
+}
+
+// Scale of ContentRecommendationEngine's own interaction rewards, for rows in the interactions table
+function interactionRowReward(row: { interaction_type: string; progress_percentage: number | null; interaction_data: any }): number {
+  switch (row.interaction_type) {
+    case 'complete':
+      return 1
+    case 'like':
+    case 'share':
+      return 0.8
+    case 'quiz_attempt':
+      return typeof row.interaction_data?.score === 'number' ? Math.min(1, Math.max(0, row.interaction_data.score)) : 0.5
+    default:
+      return 0.6 * Math.min(1, Math.max(0, (row.progress_percentage || 0) / 100))
+  }
+}
+
+// Learner level and age group, read back from the one-hot features
+function recommendationStratum(decision: BanditDecision): string {
+  return decision.featureNames
+    .filter((name, index) => (name.startsWith('level_') || name.startsWith('age_')) && decision.context[index] === 1)
+    .join('|')
+}
+
+/**
+ * The recommender's own decision log. Decisions it never saw an interaction for are rewarded from the
+ * interactions table, or with zero once the reward window has closed without any.
+ */
+async function loadRecommendationDecisions(window: ReplayWindow): Promise<{ decisions: LoggedDecision[]; warnings: string[] }> {
+  await contentRecommendationEngine.hydrate()
+  const warnings: string[] = []
+  const now = Date.now()
+
+  const logged = contentRecommendationEngine.getBanditDecisions(window.since)
+    .filter(decision => !window.until || decision.decidedAt <= window.until)
+    .slice(-(window.limit || DEFAULT_LOG_LIMIT))
+
+  const unrewarded = logged.filter(decision => decision.reward === undefined)
+  const rewardsFromInteractions = new Map<string, number>()
+  const userIds = Array.from(new Set(unrewarded.map(decision => decision.userId))).filter(id => UUID_PATTERN.test(id))
+  let interactionsAvailable = true
+
+  if (userIds.length > 0) {
+    try {
+      const earliest = new Date(Math.min(...unrewarded.map(decision => decision.decidedAt.getTime())))
+      const { data, error } = await (await client())
+        .from('interactions')
+        .select('user_id, content_id, interaction_type, progress_percentage, interaction_data, created_at')
+        .in('user_id', userIds)
+        .gte('created_at', earliest.toISOString())
+      if (error) throw new Error(error.message)
+
+      for (const decision of unrewarded) {
+        const decidedAt = decision.decidedAt.getTime()
+        const rewards = (data || [])
+          .filter((row: any) => {
+            const at = new Date(row.created_at).getTime()
+            return row.user_id === decision.userId &&
+              decision.contentIds.includes(row.content_id) &&
+              at >= decidedAt && at - decidedAt <= REWARD_WINDOW_MS
+          })
+          .map(interactionRowReward)
+        if (rewards.length > 0) rewardsFromInteractions.set(decision.decisionId, Math.max(...rewards))
+      }
+    } catch (error) {
+      interactionsAvailable = false
+      console.error('Failed to load interactions for replay:', error)
+      warnings.push('The interactions table could not be read; decisions without an in-app interaction were skipped')
+    }
+  }
+
+  let pending = 0
+  const decisions: LoggedDecision[] = []
+  for (const decision of logged) {
+    const windowClosed = now - decision.decidedAt.getTime() > REWARD_WINDOW_MS
+    const reward = decision.reward ?? rewardsFromInteractions.get(decision.decisionId) ??
+      (windowClosed && interactionsAvailable ? 0 : undefined)
+    if (reward === undefined) {
+      pending++
+      continue
+    }
+    decisions.push({
+      decisionId: decision.decisionId,
+      system: 'content_recommendations',
+      userId: decision.userId,
+      timestamp: decision.decidedAt.toISOString(),
+      context: { features: decision.context, featureNames: decision.featureNames },
+      stratum: recommendationStratum(decision),
+      action: decision.chosenArm,
+      actions: decision.arms,
+      propensity: decision.propensity,
+      reward
+    })
+  }
+
+  if (pending > 0) warnings.push(`${pending} decisions are still inside the reward window and were skipped`)
+  return { decisions, warnings }
+}
+
+export async function loadReplayDecisions(system: ReplaySystem, window: ReplayWindow = {}): Promise<{ decisions: LoggedDecision[]; warnings: string[] }> {
+  return system === 'content_recommendations'
+    ? loadRecommendationDecisions(window)
+    : loadEventDecisions(system, window)
+}
+
+// ==================================================================
+// CANDIDATE POLICIES
+// ==================================================================
+
+// All mass on the best-scoring eligible actions, split evenly on ties
+function greedy(decision: LoggedDecision, score: (action: string) => number): Record<string, number> {
+  const scores = decision.actions.map(action => score(action))
+  const best = Math.max(...scores)
+  const winners = decision.actions.filter((_, index) => scores[index] === best)
+  return Object.fromEntries(winners.map(action => [action, 1 / winners.length]))
+}
+
+const uniformRandom: CandidatePolicy = {
+  name: 'uniform_random',
+  description: 'Every eligible action equally likely',
+  probabilities: decision => Object.fromEntries(decision.actions.map(action => [action, 1 / decision.actions.length]))
+}
+
+function recommendationPolicies(): CandidatePolicy[] {
+  const models = new Map(contentRecommendationEngine.getStrategyModels().map(model => [model.arm, model]))
+  const weights = contentRecommendationEngine.getAlgorithmWeights()
+
+  return [
+    {
+      name: 'bandit_greedy',
+      description: 'Strategy with the best current expected reward for the learner, no exploration (models were fitted on these logs, so this is optimistic)',
+      probabilities: decision => greedy(decision, strategy => {
+        const model = models.get(strategy)
+        const features: number[] = decision.context.features || []
+        return model && model.weightedRewards.length === features.length ? expectedReward(model, features) : 0
+      })
+    },
+    {
+      name: 'global_weights',
+      description: 'Strategy with the highest global algorithm weight, the same for every learner',
+      probabilities: decision => greedy(decision, strategy => weights[strategy] || 0)
+    },
+    uniformRandom
+  ]
+}
+
+function routingPolicies(): CandidatePolicy[] {
+  return automatedModelRouter.getSystemStatus().routingStrategies.map(strategyName => ({
+    name: `strategy:${strategyName}`,
+    description: `Router strategy "${strategyName}" on the logged available models, scored with current model health`,
+    probabilities: (decision: LoggedDecision) => automatedModelRouter.strategyProbabilities(
+      strategyName,
+      decision.actions,
+      decision.context.request as RequestContext
+    )
+  })).concat([uniformRandom])
+}
+
+interface LoggedObjective {
+  id: string
+  difficulty: number
+  prerequisites: string[]
+}
+
+function sequencingPolicies(): CandidatePolicy[] {
+  const objectivesOf = (decision: LoggedDecision): Map<string, LoggedObjective> =>
+    new Map((decision.context.objectives || []).map((objective: LoggedObjective) => [objective.id, objective]))
+  const difficulty = (decision: LoggedDecision, action: string) => objectivesOf(decision).get(action)?.difficulty ?? 10
+
+  return [
+    {
+      name: 'easiest_first',
+      description: 'Start with the lowest-difficulty objective',
+      probabilities: decision => greedy(decision, action => -difficulty(decision, action))
+    },
+    {
+      name: 'prerequisites_first',
+      description: 'Start with an objective none of whose prerequisites are still to be learned, easiest first',
+      probabilities: decision => {
+        const objectives = objectivesOf(decision)
+        return greedy(decision, action => {
+          const blocked = (objectives.get(action)?.prerequisites || []).some(id => decision.actions.includes(id))
+          return (blocked ? -100 : 0) - difficulty(decision, action)
+        })
+      }
+    },
+    {
+      name: 'urgent_first',
+      description: 'Start with an urgent objective when there is one, easiest first',
+      probabilities: decision => {
+        const urgent: string[] = decision.context.urgentObjectives || []
+        return greedy(decision, action => (urgent.includes(action) ? 100 : 0) - difficulty(decision, action))
+      }
+    },
+    uniformRandom
+  ]
+}
+
+export function candidatePolicies(system: ReplaySystem): CandidatePolicy[] {
+  switch (system) {
+    case 'content_recommendations':
+      return recommendationPolicies()
+    case 'model_routing':
+      return routingPolicies()
+    case 'learning_sequencing':
+      return sequencingPolicies()
+  }
+}
+
+/**
+ * Replay one system's logs against its candidate policies (all of them unless names are given)
+ */
+export async function runReplayEvaluation(
+  system: ReplaySystem,
+  request: { window?: ReplayWindow; policies?: string[]; options?: Partial<ReplayOptions> } = {}
+): Promise<ReplayReport> {
+  if (!REPLAY_SYSTEMS.includes(system)) {
+    throw new ReplayEvaluationError(`Unknown system. Must be one of: ${REPLAY_SYSTEMS.join(', ')}`, 400)
+  }
+
+  const available = candidatePolicies(system)
+  const unknown = (request.policies || []).filter(name => !available.some(policy => policy.name === name))
+  if (unknown.length > 0) {
+    throw new ReplayEvaluationError(`Unknown policies for ${system}: ${unknown.join(', ')}`, 400)
+  }
+  const policies = request.policies?.length
+    ? available.filter(policy => request.policies!.includes(policy.name))
+    : available
+
+  const { decisions, warnings } = await loadReplayDecisions(system, request.window)
+  const report = compareCandidatePolicies(system, decisions, policies, request.options)
+  return { ...report, warnings: [...warnings, ...report.warnings] }
+}
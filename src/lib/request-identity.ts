@@ -0,0 +1,186 @@
+// Request Identity
+// Works out who sent an API request (Supabase user, guest session or bare IP) from headers and
+// cookies alone, using Web Crypto only so it runs in the Edge middleware as well as in route handlers
+
+import type { NextRequest } from 'next/server'
+
+export type RequestIdentityKind = 'user' | 'guest' | 'ip'
+
+export interface RequestIdentity {
+  kind: RequestIdentityKind
+  id: string
+  ip?: string // set for guests, whose freely minted sessions also share a per-IP ceiling
+}
+
+export interface SupabaseJwtClaims {
+  sub: string
+  email?: string
+  role?: string
+  exp?: number
+  app_metadata?: Record<string, any>
+  user_metadata?: Record<string, any>
+}
+
+export const GUEST_SESSION_COOKIE = 'guest_session'
+export const GUEST_SESSION_TTL_SECONDS = 24 * 60 * 60
+
+const encoder = new TextEncoder()
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = ''
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function base64UrlDecode(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/')
+  return atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='))
+}
+
+async function hmacSha256(secret: string, data: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data))
+  return base64UrlEncode(new Uint8Array(signature))
+}
+
+// Constant-time comparison so signatures cannot be guessed byte by byte
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
+
+// ==================================================================
+// SUPABASE ACCESS TOKENS
+// ==================================================================
+
+/**
+ * Verify a Supabase access token (HS256, signed with the project's JWT secret) and return its claims.
+ * Returns null for missing, malformed, expired or unverifiable tokens.
+ */
+export async function verifySupabaseJwt(token: string): Promise<SupabaseJwtClaims | null> {
+  const secret = process.env.SUPABASE_JWT_SECRET
+  if (!secret || !token) return null
+
+  const [header, payload, signature] = token.split('.')
+  if (!header || !payload || !signature) return null
+
+  try {
+    const { alg } = JSON.parse(base64UrlDecode(header))
+    if (alg !== 'HS256') return null
+
+    const expected = await hmacSha256(secret, `${header}.${payload}`)
+    if (!safeEqual(expected, signature)) return null
+
+    const claims: SupabaseJwtClaims = JSON.parse(base64UrlDecode(payload))
+    if (!claims.sub || (claims.exp && claims.exp * 1000 < Date.now())) return null
+
+    return claims
+  } catch {
+    return null
+  }
+}
+
+export function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  const match = header?.match(/^Bearer\s+(.+)$/i)
+  return match ? match[1].trim() : null
+}
+
+// ==================================================================
+// GUEST SESSIONS
+// ==================================================================
+
+// Guest tokens are `<guestId>.<signature>`; the signature stops clients minting fresh guest ids
+// to reset their limits. Without GUEST_SESSION_SECRET tokens are unsigned and trusted in development only.
+export async function createGuestSessionToken(guestId: string): Promise<string> {
+  const secret = process.env.GUEST_SESSION_SECRET
+  return secret ? `${guestId}.${await hmacSha256(secret, guestId)}` : guestId
+}
+
+export async function verifyGuestSessionToken(token: string): Promise<string | null> {
+  if (!token) return null
+
+  const secret = process.env.GUEST_SESSION_SECRET
+  if (!secret) {
+    return process.env.NODE_ENV === 'production' ? null : token.split('.')[0]
+  }
+
+  const separator = token.lastIndexOf('.')
+  if (separator <= 0) return null
+
+  const guestId = token.slice(0, separator)
+  const expected = await hmacSha256(secret, guestId)
+  return safeEqual(expected, token.slice(separator + 1)) ? guestId : null
+}
+
+// ==================================================================
+// IDENTITY RESOLUTION
+// ==================================================================
+
+// How the client address reaches the app. CLIENT_IP_HEADER names a header the platform's edge overwrites
+// with the client address (Vercel's x-real-ip, used by default there, or Cloudflare's cf-connecting-ip).
+// TRUSTED_PROXY_HOPS counts the proxies in front of the app that each append the address they saw to
+// X-Forwarded-For (a load balancer, an nginx sidecar), and defaults to none.
+export interface ClientIpConfig {
+  header?: string
+  trustedProxyHops: number
+}
+
+export function readClientIpConfig(): ClientIpConfig {
+  const header = process.env.CLIENT_IP_HEADER?.trim().toLowerCase() || (process.env.VERCEL ? 'x-real-ip' : undefined)
+  const hops = parseInt(process.env.TRUSTED_PROXY_HOPS || '0', 10)
+  return { header, trustedProxyHops: Number.isFinite(hops) && hops > 0 ? hops : 0 }
+}
+
+// Only addresses written by our own infrastructure can be trusted; anything earlier in X-Forwarded-For
+// is whatever the client sent, and using it would let anyone pick a fresh rate-limit bucket per request.
+// With no proxy, the last hop is the socket address Next's server records for a request that arrives
+// without the header; a client can still send its own, so internet-facing deployments should configure
+// the proxy in front of them.
+export function getClientIp(request: NextRequest, config: ClientIpConfig = readClientIpConfig()): string {
+  if (config.header) {
+    return request.headers.get(config.header)?.split(',')[0].trim() || 'unknown'
+  }
+
+  const hops = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean)
+  // Each trusted proxy appended one hop after the client's address
+  return hops[hops.length - Math.max(1, config.trustedProxyHops)] || 'unknown'
+}
+
+/**
+ * Signed-in user first, then guest session, then client IP
+ */
+export async function resolveRequestIdentity(request: NextRequest): Promise<RequestIdentity> {
+  const bearer = getBearerToken(request)
+  if (bearer) {
+    const claims = await verifySupabaseJwt(bearer)
+    if (claims) {
+      return { kind: 'user', id: claims.sub }
+    }
+  }
+
+  const guestToken = request.cookies.get(GUEST_SESSION_COOKIE)?.value || request.headers.get('x-guest-session')
+  if (guestToken) {
+    const guestId = await verifyGuestSessionToken(guestToken)
+    if (guestId) {
+      return { kind: 'guest', id: guestId, ip: getClientIp(request) }
+    }
+  }
+
+  return { kind: 'ip', id: getClientIp(request) }
+}
@@ -0,0 +1,641 @@
+// Semantic Search
+// Hybrid retrieval over content, syntheses and knowledge-graph concepts: Okapi BM25 for exact
+// terms and embedding cosine similarity for meaning, fused by reciprocal rank. Documents live in
+// pgvector (search_documents, 009_search_embeddings.sql) on the server and in memory elsewhere.
+
+import { embedTexts, getActiveEmbeddingProvider, tokenizeText } from './embedding-providers'
+import type { ContentItem } from '@/types'
+import type { ConceptNode } from './knowledge-graph-generator'
+import type { SynthesizedContent } from './content-synthesis-engine'
+
+export type SearchSourceType = 'content' | 'synthesis' | 'concept'
+
+export type SearchMode = 'hybrid' | 'vector' | 'keyword'
+
+export type SearchMetadata = Record<string, string | number | boolean>
+
+export interface SearchDocument {
+  sourceType: SearchSourceType
+  sourceId: string
+  title: string
+  body: string
+  metadata: SearchMetadata // equality-filterable fields, e.g. subject, content_type
+}
+
+export interface StoredSearchDocument extends SearchDocument {
+  model: string
+  contentHash: string
+  embedding: number[]
+}
+
+export interface SearchFilter {
+  sourceTypes?: SearchSourceType[]
+  sourceIds?: string[]
+  metadata?: SearchMetadata
+}
+
+export interface ScoredDocument {
+  sourceType: SearchSourceType
+  sourceId: string
+  title: string
+  metadata: SearchMetadata
+  score: number
+}
+
+export interface SearchRequest extends SearchFilter {
+  query: string
+  mode?: SearchMode
+  limit?: number
+}
+
+export interface SearchResult {
+  sourceType: SearchSourceType
+  sourceId: string
+  title: string
+  metadata: SearchMetadata
+  score: number // fused reciprocal-rank score, 1 for the top result of every ranking used
+  vectorSimilarity?: number // cosine similarity to the query embedding
+  keywordScore?: number // BM25
+  matchedBy: Array<'vector' | 'keyword'>
+}
+
+export interface SearchResponse {
+  results: SearchResult[]
+  mode: SearchMode
+  model: string
+}
+
+export interface IndexSummary {
+  indexed: number
+  unchanged: number
+  model: string
+}
+
+export interface SearchIndexBackend {
+  upsert(documents: StoredSearchDocument[]): Promise<void>
+  remove(sourceType: SearchSourceType, sourceIds: string[]): Promise<void>
+  // `${model}:${contentHash}` per indexed document, to skip re-embedding unchanged ones
+  fingerprints(sourceType: SearchSourceType, sourceIds: string[]): Promise<Map<string, string>>
+  embeddings(sourceType: SearchSourceType, sourceIds: string[], model: string): Promise<Map<string, number[]>>
+  vectorSearch(embedding: number[], model: string, filter: SearchFilter, limit: number): Promise<ScoredDocument[]>
+  keywordSearch(query: string, filter: SearchFilter, limit: number): Promise<ScoredDocument[]>
+}
+
+const RRF_K = 60 // reciprocal rank fusion constant from Cormack et al.; damps the head of each ranking
+const CANDIDATE_DEPTH = 50
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// ==================================================================
+// HELPERS
+// ==================================================================
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+function contentHash(document: SearchDocument): string {
+  const text = JSON.stringify([document.title, document.body, document.metadata])
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return `${(hash >>> 0).toString(16)}-${text.length}`
+}
+
+function matchesFilter(document: SearchDocument, filter: SearchFilter): boolean {
+  if (filter.sourceTypes && !filter.sourceTypes.includes(document.sourceType)) return false
+  if (filter.sourceIds && !filter.sourceIds.includes(document.sourceId)) return false
+  return Object.entries(filter.metadata || {}).every(([key, value]) => document.metadata[key] === value)
+}
+
+// Title counted twice so title matches outrank body matches, as in the SQL search vector
+function documentTerms(document: SearchDocument): string[] {
+  const title = tokenizeText(document.title)
+  return [...title, ...title, ...tokenizeText(document.body)]
+}
+
+// ==================================================================
+// IN-MEMORY INDEX (development and tests)
+// ==================================================================
+
+export class InMemorySearchIndex implements SearchIndexBackend {
+  private documents = new Map<string, StoredSearchDocument & { termCounts: Map<string, number> }>()
+
+  private documentId(sourceType: SearchSourceType, sourceId: string): string {
+    return `${sourceType}::${sourceId}`
+  }
+
+  async upsert(documents: StoredSearchDocument[]): Promise<void> {
+    for (const document of documents) {
+      const termCounts = new Map<string, number>()
+      for (const term of documentTerms(document)) {
+        termCounts.set(term, (termCounts.get(term) || 0) + 1)
+      }
+      this.documents.set(this.documentId(document.sourceType, document.sourceId), { ...document, termCounts })
+    }
+  }
+
+  async remove(sourceType: SearchSourceType, sourceIds: string[]): Promise<void> {
+    sourceIds.forEach(sourceId => this.documents.delete(this.documentId(sourceType, sourceId)))
+  }
+
+  async fingerprints(sourceType: SearchSourceType, sourceIds: string[]): Promise<Map<string, string>> {
+    const result = new Map<string, string>()
+    for (const sourceId of sourceIds) {
+      const document = this.documents.get(this.documentId(sourceType, sourceId))
+      if (document) result.set(sourceId, `${document.model}:${document.contentHash}`)
+    }
+    return result
+  }
+
+  async embeddings(sourceType: SearchSourceType, sourceIds: string[], model: string): Promise<Map<string, number[]>> {
+    const result = new Map<string, number[]>()
+    for (const sourceId of sourceIds) {
+      const document = this.documents.get(this.documentId(sourceType, sourceId))
+      if (document && document.model === model) result.set(sourceId, document.embedding)
+    }
+    return result
+  }
+
+  async vectorSearch(embedding: number[], model: string, filter: SearchFilter, limit: number): Promise<ScoredDocument[]> {
+    return Array.from(this.documents.values())
+      .filter(document => document.model === model && matchesFilter(document, filter))
+      .map(document => ({ ...this.scored(document), score: cosineSimilarity(embedding, document.embedding) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  // Okapi BM25 with document length in distinct terms, matching length(tsvector) in SQL
+  async keywordSearch(query: string, filter: SearchFilter, limit: number): Promise<ScoredDocument[]> {
+    const terms = Array.from(new Set(tokenizeText(query)))
+    const corpus = Array.from(this.documents.values()).filter(document => matchesFilter(document, filter))
+    if (terms.length === 0 || corpus.length === 0) return []
+
+    const averageLength = corpus.reduce((sum, document) => sum + document.termCounts.size, 0) / corpus.length || 1
+    const idf = new Map(terms.map(term => {
+      const frequency = corpus.filter(document => document.termCounts.has(term)).length
+      return [term, Math.log(1 + (corpus.length - frequency + 0.5) / (frequency + 0.5))]
+    }))
+
+    return corpus
+      .map(document => {
+        const lengthNorm = 1 - BM25_B + BM25_B * document.termCounts.size / averageLength
+        const score = terms.reduce((sum, term) => {
+          const tf = document.termCounts.get(term) || 0
+          return sum + idf.get(term)! * tf * (BM25_K1 + 1) / (tf + BM25_K1 * lengthNorm)
+        }, 0)
+        return { ...this.scored(document), score }
+      })
+      .filter(document => document.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+  }
+
+  private scored(document: StoredSearchDocument): Omit<ScoredDocument, 'score'> {
+    return {
+      sourceType: document.sourceType,
+      sourceId: document.sourceId,
+      title: document.title,
+      metadata: document.metadata
+    }
+  }
+}
+
+// ==================================================================
+// PGVECTOR INDEX
+// ==================================================================
+
+export class PgVectorSearchIndex implements SearchIndexBackend {
+  private readonly table = 'search_documents'
+
+  // Loaded lazily so importing search never requires Supabase credentials
+  private async client() {
+    const { supabaseAdmin } = await import('./supabase')
+    return supabaseAdmin
+  }
+
+  async upsert(documents: StoredSearchDocument[]): Promise<void> {
+    if (documents.length === 0) return
+    const client = await this.client()
+    const { error } = await client
+      .from(this.table)
+      .upsert(documents.map(document => ({
+        source_type: document.sourceType,
+        source_id: document.sourceId,
+        title: document.title,
+        body: document.body,
+        metadata: document.metadata,
+        model: document.model,
+        content_hash: document.contentHash,
+        embedding: JSON.stringify(document.embedding)
+      })), { onConflict: 'source_type,source_id' })
+
+    if (error) {
+      throw new Error(`Failed to index search documents: ${error.message}`)
+    }
+  }
+
+  async remove(sourceType: SearchSourceType, sourceIds: string[]): Promise<void> {
+    if (sourceIds.length === 0) return
+    const client = await this.client()
+    const { error } = await client
+      .from(this.table)
+      .delete()
+      .eq('source_type', sourceType)
+      .in('source_id', sourceIds)
+
+    if (error) {
+      throw new Error(`Failed to remove search documents: ${error.message}`)
+    }
+  }
+
+  async fingerprints(sourceType: SearchSourceType, sourceIds: string[]): Promise<Map<string, string>> {
+    const result = new Map<string, string>()
+    if (sourceIds.length === 0) return result
+    const client = await this.client()
+    const { data, error } = await client
+      .from(this.table)
+      .select('source_id, model, content_hash')
+      .eq('source_type', sourceType)
+      .in('source_id', sourceIds)
+
+    if (error) {
+      throw new Error(`Failed to load search document hashes: ${error.message}`)
+    }
+    for (const row of data || []) {
+      result.set(row.source_id, `${row.model}:${row.content_hash}`)
+    }
+    return result
+  }
+
+  async embeddings(sourceType: SearchSourceType, sourceIds: string[], model: string): Promise<Map<string, number[]>> {
+    const result = new Map<string, number[]>()
+    if (sourceIds.length === 0) return result
+    const client = await this.client()
+    const { data, error } = await client
+      .from(this.table)
+      .select('source_id, embedding')
+      .eq('source_type', sourceType)
+      .eq('model', model)
+      .in('source_id', sourceIds)
+
+    if (error) {
+      throw new Error(`Failed to load embeddings: ${error.message}`)
+    }
+    for (const row of data || []) {
+      // pgvector comes back in its text form, '[0.1,0.2,...]', which is valid JSON
+      result.set(row.source_id, JSON.parse(row.embedding))
+    }
+    return result
+  }
+
+  async vectorSearch(embedding: number[], model: string, filter: SearchFilter, limit: number): Promise<ScoredDocument[]> {
+    const client = await this.client()
+    const { data, error } = await client.rpc('match_search_documents', {
+      query_embedding: JSON.stringify(embedding),
+      embedding_model: model,
+      source_types: filter.sourceTypes || null,
+      source_ids: filter.sourceIds || null,
+      metadata_filter: filter.metadata || {},
+      match_count: limit
+    })
+
+    if (error) {
+      throw new Error(`Vector search failed: ${error.message}`)
+    }
+    return (data || []).map(row => ({
+      sourceType: row.source_type as SearchSourceType,
+      sourceId: row.source_id,
+      title: row.title,
+      metadata: row.metadata as SearchMetadata,
+      score: row.similarity
+    }))
+  }
+
+  async keywordSearch(query: string, filter: SearchFilter, limit: number): Promise<ScoredDocument[]> {
+    const client = await this.client()
+    const { data, error } = await client.rpc('bm25_search_documents', {
+      query_text: query,
+      source_types: filter.sourceTypes || null,
+      source_ids: filter.sourceIds || null,
+      metadata_filter: filter.metadata || {},
+      match_count: limit
+    })
+
+    if (error) {
+      throw new Error(`Keyword search failed: ${error.message}`)
+    }
+    return (data || []).map(row => ({
+      sourceType: row.source_type as SearchSourceType,
+      sourceId: row.source_id,
+      title: row.title,
+      metadata: row.metadata as SearchMetadata,
+      score: row.score
+    }))
+  }
+}
+
+// ==================================================================
+// INDEX SELECTION
+// ==================================================================
+
+let activeIndex: SearchIndexBackend | null = null
+
+// pgvector on the server when a service key is configured, memory everywhere else.
+// SEARCH_INDEX=memory|pgvector overrides the detection.
+function createDefaultIndex(): SearchIndexBackend {
+  const mode = process.env.SEARCH_INDEX
+  if (mode === 'memory') return new InMemorySearchIndex()
+  if (mode === 'pgvector') return new PgVectorSearchIndex()
+
+  const isServer = typeof window === 'undefined'
+  const hasSupabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY
+  return isServer && hasSupabase ? new PgVectorSearchIndex() : new InMemorySearchIndex()
+}
+
+export function getSearchIndex(): SearchIndexBackend {
+  if (!activeIndex) {
+    activeIndex = createDefaultIndex()
+  }
+  return activeIndex
+}
+
+// Swap the backing index (tests, scripts)
+export function setSearchIndex(index: SearchIndexBackend | null): void {
+  activeIndex = index
+}
+
+// ==================================================================
+// INDEXING
+// ==================================================================
+
+/**
+ * Embed and store documents whose text, metadata or embedding model changed since they were
+ * last indexed. Documents of several source types may be mixed.
+ */
+export async function indexDocuments(documents: SearchDocument[]): Promise<IndexSummary> {
+  const index = getSearchIndex()
+  const model = getActiveEmbeddingProvider().model
+  const hashed = documents.map(document => ({ document, contentHash: contentHash(document) }))
+
+  const stale: typeof hashed = []
+  const bySource = new Map<SearchSourceType, typeof hashed>()
+  hashed.forEach(entry => bySource.set(entry.document.sourceType, [...(bySource.get(entry.document.sourceType) || []), entry]))
+  for (const [sourceType, entries] of bySource) {
+    const fingerprints = await index.fingerprints(sourceType, entries.map(entry => entry.document.sourceId))
+    stale.push(...entries.filter(entry => fingerprints.get(entry.document.sourceId) !== `${model}:${entry.contentHash}`))
+  }
+
+  if (stale.length === 0) {
+    return { indexed: 0, unchanged: documents.length, model }
+  }
+
+  const batch = await embedTexts(stale.map(({ document }) => `${document.title}\n\n${document.body}`))
+  await index.upsert(stale.map(({ document, contentHash }, position) => ({
+    ...document,
+    model: batch.model,
+    contentHash,
+    embedding: batch.vectors[position]
+  })))
+
+  return { indexed: stale.length, unchanged: documents.length - stale.length, model: batch.model }
+}
+
+export async function removeDocuments(sourceType: SearchSourceType, sourceIds: string[]): Promise<void> {
+  await getSearchIndex().remove(sourceType, sourceIds)
+}
+
+const CONTENT_PAGE_SIZE = 200
+
+/**
+ * Index published rows of public.content, optionally only those updated since a date, and drop
+ * documents for content that has since been unpublished.
+ */
+export async function indexPublishedContent(since?: Date): Promise<IndexSummary & { removed: number }> {
+  const { supabaseAdmin } = await import('./supabase')
+  const summary = { indexed: 0, unchanged: 0, removed: 0, model: getActiveEmbeddingProvider().model }
+
+  for (let offset = 0; ; offset += CONTENT_PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('content')
+      .select('id, title, description, subject, content_type, difficulty_level, tags, status')
+      .order('id')
+      .range(offset, offset + CONTENT_PAGE_SIZE - 1)
+    if (since) query = query.gte('updated_at', since.toISOString())
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to load content for indexing: ${error.message}`)
+    }
+
+    const rows = data || []
+    const page = await indexDocuments(rows.filter(row => row.status === 'published').map(contentRowDocument))
+    summary.indexed += page.indexed
+    summary.unchanged += page.unchanged
+    summary.model = page.model
+
+    const unpublished = rows.filter(row => row.status !== 'published').map(row => row.id)
+    await removeDocuments('content', unpublished)
+    summary.removed += unpublished.length
+
+    if (rows.length < CONTENT_PAGE_SIZE) break
+  }
+
+  return summary
+}
+
+// ==================================================================
+// SEARCH
+// ==================================================================
+
+/**
+ * Run BM25 and vector search and fuse the two rankings by reciprocal rank. Either leg alone is
+ * available through `mode`. Documents embedded with a different model than the query only
+ * surface through the keyword leg until they are re-indexed.
+ */
+export async function searchDocuments(request: SearchRequest): Promise<SearchResponse> {
+  const index = getSearchIndex()
+  const mode = request.mode || 'hybrid'
+  const limit = Math.max(1, Math.min(request.limit || 20, 100))
+  const depth = Math.max(limit, CANDIDATE_DEPTH)
+  const filter: SearchFilter = {
+    sourceTypes: request.sourceTypes,
+    sourceIds: request.sourceIds,
+    metadata: request.metadata
+  }
+
+  let model = getActiveEmbeddingProvider().model
+  let vectorHits: ScoredDocument[] = []
+  let keywordHits: ScoredDocument[] = []
+
+  if (mode !== 'keyword') {
+    const batch = await embedTexts([request.query])
+    model = batch.model
+    vectorHits = await index.vectorSearch(batch.vectors[0], batch.model, filter, depth)
+  }
+  if (mode !== 'vector') {
+    keywordHits = await index.keywordSearch(request.query, filter, depth)
+  }
+
+  const best = (mode === 'hybrid' ? 2 : 1) / (RRF_K + 1)
+  const fused = new Map<string, SearchResult>()
+
+  const fuse = (hits: ScoredDocument[], leg: 'vector' | 'keyword') => {
+    hits.forEach((hit, rank) => {
+      const key = `${hit.sourceType}::${hit.sourceId}`
+      const result = fused.get(key) || {
+        sourceType: hit.sourceType,
+        sourceId: hit.sourceId,
+        title: hit.title,
+        metadata: hit.metadata,
+        score: 0,
+        matchedBy: []
+      }
+      result.score += 1 / (RRF_K + rank + 1) / best
+      result.matchedBy.push(leg)
+      if (leg === 'vector') result.vectorSimilarity = hit.score
+      else result.keywordScore = hit.score
+      fused.set(key, result)
+    })
+  }
+  fuse(vectorHits, 'vector')
+  fuse(keywordHits, 'keyword')
+
+  return {
+    results: Array.from(fused.values()).sort((a, b) => b.score - a.score).slice(0, limit),
+    mode,
+    model
+  }
+}
+
+/**
+ * Documents nearest to an indexed document, excluding itself.
+ */
+export async function findSimilarDocuments(
+  sourceType: SearchSourceType,
+  sourceId: string,
+  filter: SearchFilter = {},
+  limit = 10
+): Promise<ScoredDocument[]> {
+  const index = getSearchIndex()
+  const model = getActiveEmbeddingProvider().model
+  const embedding = (await index.embeddings(sourceType, [sourceId], model)).get(sourceId)
+  if (!embedding) return []
+
+  const hits = await index.vectorSearch(embedding, model, filter, limit + 1)
+  return hits.filter(hit => !(hit.sourceType === sourceType && hit.sourceId === sourceId)).slice(0, limit)
+}
+
+/**
+ * Cosine similarity of each candidate to the centroid of the anchor documents. Candidates or
+ * anchors that are not indexed under the active model are left out.
+ */
+export async function similarityToDocuments(
+  sourceType: SearchSourceType,
+  anchorIds: string[],
+  candidateIds: string[]
+): Promise<Map<string, number>> {
+  const result = new Map<string, number>()
+  if (anchorIds.length === 0 || candidateIds.length === 0) return result
+
+  const model = getActiveEmbeddingProvider().model
+  const embeddings = await getSearchIndex().embeddings(
+    sourceType, Array.from(new Set([...anchorIds, ...candidateIds])), model
+  )
+  const anchors = anchorIds.map(id => embeddings.get(id)).filter((vector): vector is number[] => !!vector)
+  if (anchors.length === 0) return result
+
+  const centroid = anchors[0].map((_, i) => anchors.reduce((sum, vector) => sum + vector[i], 0) / anchors.length)
+  for (const candidateId of candidateIds) {
+    const embedding = embeddings.get(candidateId)
+    if (embedding) result.set(candidateId, cosineSimilarity(centroid, embedding))
+  }
+  return result
+}
+
+// ==================================================================
+// DOCUMENT BUILDERS
+// ==================================================================
+
+const DIFFICULTY_LEVELS = ['beginner', 'intermediate', 'advanced', 'expert']
+
+export function contentDocument(item: ContentItem): SearchDocument {
+  return {
+    sourceType: 'content',
+    sourceId: item.id,
+    title: item.title,
+    body: item.description || '',
+    metadata: {
+      subject: item.subject,
+      content_type: item.content_type,
+      difficulty_level: DIFFICULTY_LEVELS[Math.min(3, Math.max(0, Math.ceil(item.difficulty / 2.5) - 1))]
+    }
+  }
+}
+
+// A row of public.content as stored, rather than the client-side ContentItem
+export function contentRowDocument(row: {
+  id: string
+  title: string
+  description: string | null
+  subject: string
+  content_type: string
+  difficulty_level: string | null
+  tags: string[] | null
+}): SearchDocument {
+  return {
+    sourceType: 'content',
+    sourceId: row.id,
+    title: row.title,
+    body: [row.description || '', (row.tags || []).join(' ')].filter(Boolean).join('\n'),
+    metadata: {
+      subject: row.subject,
+      content_type: row.content_type,
+      difficulty_level: row.difficulty_level || 'beginner'
+    }
+  }
+}
+
+export function conceptDocument(concept: ConceptNode): SearchDocument {
+  return {
+    sourceType: 'concept',
+    sourceId: concept.id,
+    title: concept.name,
+    body: [
+      concept.description,
+      concept.metadata.keywords.join(', '),
+      concept.metadata.learningObjectives.join('. '),
+      concept.skills.join(', ')
+    ].filter(Boolean).join('\n'),
+    metadata: {
+      subject: concept.metadata.subject,
+      category: concept.category
+    }
+  }
+}
+
+export function synthesisDocument(synthesis: SynthesizedContent): SearchDocument {
+  return {
+    sourceType: 'synthesis',
+    sourceId: synthesis.synthesis_id,
+    title: synthesis.topic,
+    body: [
+      synthesis.content.key_concepts.map(concept => `${concept.concept}: ${concept.definition}`).join('\n'),
+      synthesis.content.summary_points.join('\n'),
+      synthesis.content.main_text
+    ].filter(Boolean).join('\n\n'),
+    metadata: {
+      topic: synthesis.topic
+    }
+  }
+}
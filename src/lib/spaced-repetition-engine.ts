@@ -1,6 +1,33 @@
 'use client'
 
 import { multiModelAI } from './multi-model-ai'
+import { EngineStateStore } from './engine-repository'
+import {
+  DEFAULT_SCHEDULER_SETTINGS,
+  fsrsInterval,
+  fsrsRetrievability,
+  fsrsReview,
+  optimizeFSRSWeights,
+  ratingFromPerformance,
+  SCHEDULING_ALGORITHMS,
+  SchedulerSettingsError,
+  sm2Review,
+  type FSRSOptimizationResult,
+  type ReviewRating,
+  type SchedulingAlgorithm,
+  type SchedulerSettings
+} from './spaced-repetition-schedulers'
+import {
+  buildDeckExport,
+  cardToLearningItem,
+  DeckImportError,
+  MAX_IMPORTED_CARDS,
+  reviewToSession,
+  type DeckExportFile,
+  type DeckExportFormat,
+  type DeckImportFormat,
+  type ImportedCard
+} from './flashcard-deck-io'
 
 // Types for spaced repetition system
 export interface LearningItem {
@@ -9,6 +36,7 @@ export interface LearningItem {
     title: string
     description: string
     content_text: string
+    prompt_text?: string // full question side of an imported card; the title may be shortened
     content_type: 'concept' | 'fact' | 'procedure' | 'principle' | 'formula' | 'vocabulary' | 'skill'
     subject_domain: string
     difficulty_level: number // 1-10 scale
@@ -86,6 +114,14 @@ export interface MemoryState {
       beneficial_context_factors: string[]
     }
   }
+  scheduling?: {
+    algorithm: SchedulingAlgorithm
+    due_date: Date
+    interval_days: number
+    last_rating?: ReviewRating
+    fsrs_difficulty?: number // FSRS difficulty on its native 1-10 scale
+    lapses: number
+  }
 }
 
 export interface SpacedRepetitionSchedule {
@@ -257,14 +293,28 @@ export interface AnkiInspiredSettings {
   }
 }
 
+const DAY_MS = 1000 * 60 * 60 * 24
+
 // Main Spaced Repetition Engine
 export class SpacedRepetitionEngine {
-  private memoryStates = new Map<string, MemoryState>()
-  private reviewHistory = new Map<string, ReviewSession[]>()
-  private scheduleCache = new Map<string, SpacedRepetitionSchedule>()
-  private forgettingCurves = new Map<string, ForgettingCurveAnalysis>()
-  private leitnerSystems = new Map<string, LeitnerBoxSystem>()
-  private superMemoData = new Map<string, SuperMemoAlgorithm>()
+  private store = new EngineStateStore('spaced_repetition')
+  private memoryStates = this.store.map<MemoryState>('memory_states')
+  private reviewHistory = this.store.map<ReviewSession[]>('review_history')
+  private scheduleCache = this.store.map<SpacedRepetitionSchedule>('schedules')
+  private forgettingCurves = this.store.map<ForgettingCurveAnalysis>('forgetting_curves')
+  private leitnerSystems = this.store.map<LeitnerBoxSystem>('leitner_systems')
+  private superMemoData = this.store.map<SuperMemoAlgorithm>('super_memo')
+  private schedulerSettings = this.store.map<SchedulerSettings>('scheduler_settings')
+  private learningItems = this.store.map<LearningItem>('learning_items')
+
+  // Persistence
+  async hydrate(): Promise<void> {
+    await this.store.hydrate()
+  }
+
+  async flush(): Promise<void> {
+    await this.store.flush()
+  }
   
   // Add new learning item to spaced repetition system
   async addLearningItem(
@@ -305,8 +355,6 @@ export class SpacedRepetitionEngine {
       }
     }
     
-    this.memoryStates.set(memoryStateId, memoryState)
-    
     // Initialize review history
     if (initialPerformance) {
       const initialSession: ReviewSession = {
@@ -336,8 +384,19 @@ export class SpacedRepetitionEngine {
       }
       
       this.reviewHistory.set(memoryStateId, [initialSession])
+      Object.assign(memoryState, this.applyScheduler(memoryState, { ...memoryState, review_count: 0 }, initialSession))
+    } else {
+      // New item: due immediately
+      memoryState.scheduling = {
+        algorithm: this.getSchedulerSettings(learnerId).algorithm,
+        due_date: new Date(),
+        interval_days: 0,
+        lapses: 0
+      }
     }
     
+    this.learningItems.set(memoryStateId, item)
+    this.memoryStates.set(memoryStateId, memoryState)
     return memoryState
   }
   
@@ -359,32 +418,7 @@ export class SpacedRepetitionEngine {
       throw new Error(`Memory state not found for learner ${learnerId} and item ${itemId}`)
     }
     
-    // Create review session
-    const session: ReviewSession = {
-      session_id: `session_${Date.now()}`,
-      learner_id: learnerId,
-      item_id: itemId,
-      session_date: new Date(),
-      review_type: sessionData.review_type || 'scheduled_review',
-      performance_data: {
-        response_quality: sessionData.performance_data?.response_quality || 0.5,
-        response_time_seconds: sessionData.performance_data?.response_time_seconds || 60,
-        confidence_level: sessionData.performance_data?.confidence_level || 0.5,
-        effort_level: sessionData.performance_data?.effort_level || 0.5,
-        hints_used: sessionData.performance_data?.hints_used || 0,
-        errors_made: sessionData.performance_data?.errors_made || 0,
-        completion_status: sessionData.performance_data?.completion_status || 'completed'
-      },
-      context_factors: {
-        time_of_day: sessionData.context_factors?.time_of_day || new Date().getHours(),
-        session_length_minutes: sessionData.context_factors?.session_length_minutes || 10,
-        concurrent_items_reviewed: sessionData.context_factors?.concurrent_items_reviewed || 1,
-        emotional_state: sessionData.context_factors?.emotional_state || 'neutral',
-        environment_quality: sessionData.context_factors?.environment_quality || 0.8,
-        learning_motivation: sessionData.context_factors?.learning_motivation || 0.7
-      },
-      adaptive_adjustments: []
-    }
+    const session = this.buildReviewSession(learnerId, itemId, sessionData)
     
     // Update review history
     const history = this.reviewHistory.get(memoryStateId) || []
@@ -412,6 +446,52 @@ export class SpacedRepetitionEngine {
     }
   }
   
+  // Keep a review that predates the item's latest one (replayed from an offline device) in the
+  // history without rescheduling from it; the newer review already decided the schedule
+  recordPastReviewSession(learnerId: string, itemId: string, sessionData: Partial<ReviewSession>): ReviewSession {
+    const memoryStateId = `${learnerId}_${itemId}`
+    if (!this.memoryStates.has(memoryStateId)) {
+      throw new Error(`Memory state not found for learner ${learnerId} and item ${itemId}`)
+    }
+    
+    const session = this.buildReviewSession(learnerId, itemId, sessionData)
+    const history = [...(this.reviewHistory.get(memoryStateId) || []), session]
+      .sort((a, b) => new Date(a.session_date).getTime() - new Date(b.session_date).getTime())
+    this.reviewHistory.set(memoryStateId, history)
+    return session
+  }
+  
+  // Reviews default to now; replayed offline reviews carry the time they actually happened
+  private buildReviewSession(learnerId: string, itemId: string, sessionData: Partial<ReviewSession>): ReviewSession {
+    const sessionDate = sessionData.session_date ? new Date(sessionData.session_date) : new Date()
+    
+    return {
+      session_id: sessionData.session_id || `session_${Date.now()}`,
+      learner_id: learnerId,
+      item_id: itemId,
+      session_date: sessionDate,
+      review_type: sessionData.review_type || 'scheduled_review',
+      performance_data: {
+        response_quality: sessionData.performance_data?.response_quality || 0.5,
+        response_time_seconds: sessionData.performance_data?.response_time_seconds || 60,
+        confidence_level: sessionData.performance_data?.confidence_level || 0.5,
+        effort_level: sessionData.performance_data?.effort_level || 0.5,
+        hints_used: sessionData.performance_data?.hints_used || 0,
+        errors_made: sessionData.performance_data?.errors_made || 0,
+        completion_status: sessionData.performance_data?.completion_status || 'completed'
+      },
+      context_factors: {
+        time_of_day: sessionData.context_factors?.time_of_day || sessionDate.getHours(),
+        session_length_minutes: sessionData.context_factors?.session_length_minutes || 10,
+        concurrent_items_reviewed: sessionData.context_factors?.concurrent_items_reviewed || 1,
+        emotional_state: sessionData.context_factors?.emotional_state || 'neutral',
+        environment_quality: sessionData.context_factors?.environment_quality || 0.8,
+        learning_motivation: sessionData.context_factors?.learning_motivation || 0.7
+      },
+      adaptive_adjustments: []
+    }
+  }
+  
   // Generate personalized spaced repetition schedule
   async generateSchedule(
     learnerId: string,
@@ -831,7 +911,7 @@ export class SpacedRepetitionEngine {
       learningPhase = 'consolidation'
     }
     
-    return {
+    const heuristicState: MemoryState = {
       ...currentState,
       memory_strength: newMemoryStrength,
       stability: newStability,
@@ -847,9 +927,137 @@ export class SpacedRepetitionEngine {
         last_calculated: session.session_date
       }
     }
+    
+    return this.applyScheduler(heuristicState, currentState, session)
+  }
+  
+  // Overlay FSRS or SM-2 scheduling on top of the heuristic memory update
+  private applyScheduler(
+    nextState: MemoryState,
+    previousState: MemoryState,
+    session: ReviewSession
+  ): MemoryState {
+    const settings = this.getSchedulerSettings(nextState.learner_id)
+    const rating = ratingFromPerformance(session.performance_data)
+    const lapses = (previousState.scheduling?.lapses || 0) + (rating === 1 && previousState.review_count > 0 ? 1 : 0)
+    
+    if (settings.algorithm === 'heuristic') {
+      const intervalDays = Math.max(0, nextState.stability)
+      return {
+        ...nextState,
+        scheduling: {
+          algorithm: 'heuristic',
+          due_date: new Date(session.session_date.getTime() + intervalDays * DAY_MS),
+          interval_days: intervalDays,
+          last_rating: rating,
+          lapses
+        }
+      }
+    }
+    
+    if (settings.algorithm === 'sm2') {
+      const superMemo = this.superMemoData.get(nextState.learner_id) || this.initializeSuperMemo(nextState.learner_id, 'SM-2')
+      const existing = superMemo.item_parameters.find(param => param.item_id === nextState.item_id)
+      const parameters = superMemo.algorithm_parameters
+      const result = sm2Review(
+        existing ? { easiness_factor: existing.easiness_factor, interval: existing.interval, repetition_number: existing.repetition_number } : null,
+        rating,
+        {
+          initial_easiness: parameters.initial_easiness,
+          min_easiness: parameters.min_easiness,
+          max_easiness: parameters.max_easiness,
+          first_interval: parameters.interval_calculations.first_interval,
+          second_interval: parameters.interval_calculations.second_interval
+        }
+      )
+      const intervalDays = Math.min(result.interval, settings.maximum_interval_days)
+      
+      const itemParameters = {
+        item_id: nextState.item_id,
+        easiness_factor: result.easiness_factor,
+        interval: intervalDays,
+        repetition_number: result.repetition_number,
+        last_quality_response: result.quality,
+        optimal_factors: {
+          optimal_interval: intervalDays,
+          interval_modifier: 1,
+          difficulty_modifier: 1
+        }
+      }
+      this.superMemoData.set(nextState.learner_id, {
+        ...superMemo,
+        item_parameters: [
+          ...superMemo.item_parameters.filter(param => param.item_id !== nextState.item_id),
+          itemParameters
+        ]
+      })
+      
+      return {
+        ...nextState,
+        stability: intervalDays,
+        retrievability: 1,
+        difficulty: Math.min(1, Math.max(0, (parameters.initial_easiness - result.easiness_factor) / (parameters.initial_easiness - parameters.min_easiness))),
+        scheduling: {
+          algorithm: 'sm2',
+          due_date: new Date(session.session_date.getTime() + intervalDays * DAY_MS),
+          interval_days: intervalDays,
+          last_rating: rating,
+          lapses
+        }
+      }
+    }
+    
+    // FSRS: items scheduled by another algorithm are migrated from their current stability/difficulty
+    const previousFSRS = previousState.review_count === 0 && !previousState.scheduling?.last_rating
+      ? null
+      : {
+          stability: Math.max(previousState.stability, 0.01),
+          difficulty: previousState.scheduling?.fsrs_difficulty ?? 1 + previousState.difficulty * 9
+        }
+    const elapsedDays = previousFSRS
+      ? Math.max(0, (session.session_date.getTime() - previousState.last_review_date.getTime()) / DAY_MS)
+      : 0
+    const result = fsrsReview(settings.fsrs_weights, previousFSRS, elapsedDays, rating)
+    const intervalDays = fsrsInterval(result.stability, settings.desired_retention, settings.maximum_interval_days)
+    
+    return {
+      ...nextState,
+      stability: result.stability,
+      retrievability: 1,
+      difficulty: (result.difficulty - 1) / 9,
+      scheduling: {
+        algorithm: 'fsrs',
+        due_date: new Date(session.session_date.getTime() + intervalDays * DAY_MS),
+        interval_days: intervalDays,
+        last_rating: rating,
+        fsrs_difficulty: result.difficulty,
+        lapses
+      }
+    }
+  }
+  
+  // Due date from the scheduler, falling back to the heuristic stability window
+  private getDueDate(state: MemoryState): Date {
+    if (state.scheduling) {
+      return state.scheduling.due_date
+    }
+    return new Date(state.last_review_date.getTime() + state.stability * DAY_MS)
+  }
+  
+  // Current recall probability, decayed from the last review
+  private getCurrentRetrievability(state: MemoryState, at: Date): number {
+    const elapsedDays = Math.max(0, (at.getTime() - state.last_review_date.getTime()) / DAY_MS)
+    if (state.scheduling?.algorithm === 'fsrs') {
+      return fsrsRetrievability(elapsedDays, state.stability)
+    }
+    return state.retrievability * Math.exp(-elapsedDays / Math.max(state.stability, 0.01))
   }
   
   private calculateNextReviewDate(memoryState: MemoryState, session: ReviewSession): Date {
+    if (memoryState.scheduling) {
+      return memoryState.scheduling.due_date
+    }
+    
     const baseInterval = memoryState.stability
     const performanceAdjustment = session.performance_data.response_quality > 0.7 ? 1.3 : 
                                   session.performance_data.response_quality < 0.3 ? 0.7 : 1.0
@@ -917,17 +1125,13 @@ export class SpacedRepetitionEngine {
     parameters: SpacedRepetitionSchedule['adaptive_parameters']
   ): Promise<SpacedRepetitionSchedule['daily_schedules'][0]> {
     // Find items due for review
-    const dueItems = memoryStates.filter(state => {
-      const daysSinceReview = (targetDate.getTime() - state.last_review_date.getTime()) / (1000 * 60 * 60 * 24)
-      return daysSinceReview >= state.stability
-    })
+    const dueItems = memoryStates.filter(state => this.getDueDate(state).getTime() <= targetDate.getTime())
     
     // Sort by priority (overdue items first, then by importance)
     const prioritizedItems = dueItems
       .map(state => {
-        const daysSinceReview = (targetDate.getTime() - state.last_review_date.getTime()) / (1000 * 60 * 60 * 24)
-        const overdueAmount = daysSinceReview - state.stability
-        const priorityScore = overdueAmount * 10 + (1 - state.retrievability) * 5
+        const overdueAmount = (targetDate.getTime() - this.getDueDate(state).getTime()) / DAY_MS
+        const priorityScore = overdueAmount * 10 + (1 - this.getCurrentRetrievability(state, targetDate)) * 5
         
         return {
           item_id: state.item_id,
@@ -1101,6 +1305,161 @@ export class SpacedRepetitionEngine {
     }
   }
   
+  // Get scheduler settings for learner (defaults to FSRS)
+  getSchedulerSettings(learnerId: string): SchedulerSettings {
+    return this.schedulerSettings.get(learnerId) || DEFAULT_SCHEDULER_SETTINGS
+  }
+  
+  // Select the scheduling algorithm and its options for a learner; optimization results are kept, never taken from callers
+  configureScheduler(learnerId: string, settings: Partial<SchedulerSettings>): SchedulerSettings {
+    const current = this.getSchedulerSettings(learnerId)
+    const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+    if (settings.algorithm !== undefined && !SCHEDULING_ALGORITHMS.includes(settings.algorithm)) {
+      throw new SchedulerSettingsError(`Unknown scheduling algorithm: use ${SCHEDULING_ALGORITHMS.join(', ')}`)
+    }
+    if (settings.desired_retention !== undefined && !isFiniteNumber(settings.desired_retention)) {
+      throw new SchedulerSettingsError('desired_retention must be a number')
+    }
+    if (settings.maximum_interval_days !== undefined && !isFiniteNumber(settings.maximum_interval_days)) {
+      throw new SchedulerSettingsError('maximum_interval_days must be a number')
+    }
+    const weightCount = DEFAULT_SCHEDULER_SETTINGS.fsrs_weights.length
+    if (settings.fsrs_weights !== undefined &&
+      (!Array.isArray(settings.fsrs_weights) || settings.fsrs_weights.length !== weightCount || !settings.fsrs_weights.every(isFiniteNumber))) {
+      throw new SchedulerSettingsError(`FSRS weights must be ${weightCount} finite numbers`)
+    }
+
+    const updated: SchedulerSettings = {
+      ...current,
+      algorithm: settings.algorithm ?? current.algorithm,
+      desired_retention: Math.min(0.99, Math.max(0.7, settings.desired_retention ?? current.desired_retention)),
+      maximum_interval_days: Math.max(1, Math.round(settings.maximum_interval_days ?? current.maximum_interval_days)),
+      fsrs_weights: settings.fsrs_weights ?? current.fsrs_weights
+    }
+    
+    this.schedulerSettings.set(learnerId, updated)
+    return updated
+  }
+  
+  // Fit FSRS parameters to the learner's own review history
+  optimizeSchedulerParameters(learnerId: string): FSRSOptimizationResult {
+    const histories = Array.from(this.reviewHistory.values())
+      .filter(history => history.length > 1 && history[0].learner_id === learnerId)
+    
+    const settings = this.getSchedulerSettings(learnerId)
+    const result = optimizeFSRSWeights(histories, settings.fsrs_weights)
+    
+    this.schedulerSettings.set(learnerId, {
+      ...settings,
+      fsrs_weights: result.applied ? result.weights : settings.fsrs_weights,
+      optimization: result
+    })
+    
+    return result
+  }
+  
+  // Import cards from an external deck, replaying their review logs through the active scheduler
+  async importDeck(
+    learnerId: string,
+    cards: ImportedCard[],
+    source: DeckImportFormat
+  ): Promise<{
+    imported: number
+    skipped: number
+    replayed_reviews: number
+    item_ids: string[]
+  }> {
+    if (cards.length > MAX_IMPORTED_CARDS) {
+      throw new DeckImportError(`Deck has ${cards.length} cards, at most ${MAX_IMPORTED_CARDS} can be imported at once`, 413)
+    }
+    
+    const result = { imported: 0, skipped: 0, replayed_reviews: 0, item_ids: [] as string[] }
+    
+    for (const card of cards) {
+      const item = cardToLearningItem(card, source)
+      const memoryStateId = `${learnerId}_${item.item_id}`
+      
+      if (this.memoryStates.has(memoryStateId)) {
+        result.skipped++
+        continue
+      }
+      
+      let state = await this.addLearningItem(learnerId, item)
+      const reviews = [...card.reviews].sort((a, b) => a.reviewed_at.getTime() - b.reviewed_at.getTime())
+      
+      if (reviews.length > 0) {
+        state = { ...state, last_review_date: reviews[0].reviewed_at }
+        const history: ReviewSession[] = []
+        
+        for (const [index, review] of reviews.entries()) {
+          const session = reviewToSession(learnerId, item.item_id, review, index)
+          history.push(session)
+          state = await this.updateMemoryState(state, session, history)
+        }
+        
+        this.reviewHistory.set(memoryStateId, history)
+        result.replayed_reviews += history.length
+      } else if (card.scheduling) {
+        state = this.applyImportedScheduling(state, card.scheduling)
+      }
+      
+      this.memoryStates.set(memoryStateId, state)
+      result.imported++
+      result.item_ids.push(item.item_id)
+    }
+    
+    return result
+  }
+  
+  // Without a review log, carry the source deck's interval and due date over as-is
+  private applyImportedScheduling(state: MemoryState, scheduling: NonNullable<ImportedCard['scheduling']>): MemoryState {
+    const intervalDays = Math.max(0, scheduling.interval_days)
+    const dueDate = scheduling.due_date || new Date(Date.now() + intervalDays * DAY_MS)
+    const lastReview = scheduling.last_review || new Date(dueDate.getTime() - intervalDays * DAY_MS)
+    const reviewCount = scheduling.review_count ?? (intervalDays > 0 ? 1 : 0)
+    
+    // Anki ease runs from 1.3 (hardest) to around 2.5 (default) and above
+    const difficulty = scheduling.ease_factor
+      ? Math.min(1, Math.max(0, (2.5 - scheduling.ease_factor) / 1.2 + 0.3))
+      : state.difficulty
+    
+    return {
+      ...state,
+      stability: Math.max(intervalDays, 0.5),
+      retrievability: 1,
+      difficulty,
+      last_review_date: lastReview,
+      review_count: reviewCount,
+      learning_phase: intervalDays >= 21 ? 'maintenance' : reviewCount > 0 ? 'consolidation' : 'acquisition',
+      scheduling: {
+        algorithm: this.getSchedulerSettings(state.learner_id).algorithm,
+        due_date: dueDate,
+        interval_days: intervalDays,
+        lapses: scheduling.lapses || 0
+      }
+    }
+  }
+  
+  // Export the learner's items and schedule as CSV, Anki-importable text, or a review log
+  exportSchedule(learnerId: string, format: DeckExportFormat = 'csv'): DeckExportFile {
+    const entries = Array.from(this.memoryStates.entries())
+      .filter(([, state]) => state.learner_id === learnerId)
+      .sort(([, a], [, b]) => this.getDueDate(a).getTime() - this.getDueDate(b).getTime())
+      .map(([memoryStateId, state]) => ({
+        item: this.learningItems.get(memoryStateId) || null,
+        state,
+        history: this.reviewHistory.get(memoryStateId) || []
+      }))
+    
+    return buildDeckExport(learnerId, format, entries)
+  }
+  
+  // Get the learning item content stored for a learner
+  getLearningItem(learnerId: string, itemId: string): LearningItem | null {
+    return this.learningItems.get(`${learnerId}_${itemId}`) || null
+  }
+  
   // Get memory state for specific item
   getMemoryState(learnerId: string, itemId: string): MemoryState | null {
     return this.memoryStates.get(`${learnerId}_${itemId}`) || null
@@ -1122,20 +1481,54 @@ export class SpacedRepetitionEngine {
     const states = Array.from(this.memoryStates.values())
       .filter(state => state.learner_id === learnerId)
     
+    const endOfToday = new Date(today)
+    endOfToday.setHours(23, 59, 59, 999)
+    
     return states
+      .filter(state => this.getDueDate(state).getTime() <= endOfToday.getTime())
       .map(state => {
-        const daysSinceReview = (today.getTime() - state.last_review_date.getTime()) / (1000 * 60 * 60 * 24)
-        const overdueDays = daysSinceReview - state.stability
+        const overdueDays = (today.getTime() - this.getDueDate(state).getTime()) / DAY_MS
+        const forgettingRisk = 1 - this.getCurrentRetrievability(state, today)
         
         return {
           item_id: state.item_id,
-          priority: overdueDays > 0 ? overdueDays : 1 - state.retrievability,
+          priority: Math.max(0, overdueDays) + forgettingRisk,
           overdue_days: Math.max(0, overdueDays)
         }
       })
-      .filter(item => item.overdue_days >= 0 || item.priority > 0.5)
       .sort((a, b) => b.priority - a.priority)
   }
+
+  // Items due today with their content and memory state, for reviewing without a connection
+  getDueCards(learnerId: string): Array<{ item: LearningItem | null, memory_state: MemoryState, priority: number, overdue_days: number }> {
+    return this.getItemsDueToday(learnerId).map(due => ({
+      item: this.getLearningItem(learnerId, due.item_id),
+      memory_state: this.getMemoryState(learnerId, due.item_id)!,
+      priority: due.priority,
+      overdue_days: due.overdue_days
+    }))
+  }
+
+  // Learners with at least one scheduled item
+  getLearnerIds(): string[] {
+    return Array.from(new Set(Array.from(this.memoryStates.values()).map(state => state.learner_id)))
+  }
+
+  // Reviews completed since a date, their average recall, and what is due today
+  getReviewSummary(learnerId: string, since: Date): { reviews: number, average_recall: number, due_today: number } {
+    const sessions = Array.from(this.memoryStates.entries())
+      .filter(([, state]) => state.learner_id === learnerId)
+      .flatMap(([memoryStateId]) => this.reviewHistory.get(memoryStateId) || [])
+      .filter(session => new Date(session.session_date).getTime() >= since.getTime())
+
+    return {
+      reviews: sessions.length,
+      average_recall: sessions.length > 0
+        ? sessions.reduce((sum, session) => sum + session.performance_data.response_quality, 0) / sessions.length
+        : 0,
+      due_today: this.getItemsDueToday(learnerId).length
+    }
+  }
 }
 
 // Create singleton instance
@@ -0,0 +1,312 @@
+// Spaced Repetition Schedulers
+// FSRS (Free Spaced Repetition Scheduler, v5 formulas) and SM-2 interval scheduling,
+// plus per-learner FSRS parameter optimization from review history
+
+import type { ReviewSession } from './spaced-repetition-engine'
+
+export type SchedulingAlgorithm = 'fsrs' | 'sm2' | 'heuristic'
+
+export const SCHEDULING_ALGORITHMS: SchedulingAlgorithm[] = ['fsrs', 'sm2', 'heuristic']
+
+// FSRS grades: 1 = Again, 2 = Hard, 3 = Good, 4 = Easy
+export type ReviewRating = 1 | 2 | 3 | 4
+
+export interface SchedulerSettings {
+  algorithm: SchedulingAlgorithm
+  desired_retention: number // target recall probability at the due date (FSRS)
+  maximum_interval_days: number
+  fsrs_weights: number[]
+  optimization?: FSRSOptimizationResult
+}
+
+export interface FSRSCardState {
+  stability: number // days until retrievability drops to 90%
+  difficulty: number // 1-10
+}
+
+export interface SM2CardState {
+  easiness_factor: number
+  interval: number // days
+  repetition_number: number
+}
+
+export interface FSRSOptimizationResult {
+  optimized_at: Date
+  review_count: number
+  item_count: number
+  log_loss_before: number
+  log_loss_after: number
+  weights: number[]
+  applied: boolean
+}
+
+// Settings come from learners, so anything the schedulers cannot run with is a 400 rather than NaN due dates
+export class SchedulerSettingsError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SchedulerSettingsError'
+  }
+}
+
+// FSRS-5 default parameters (trained on the open-spaced-repetition benchmark)
+export const DEFAULT_FSRS_WEIGHTS = [
+  0.40255, 1.18385, 3.173, 15.69105, 7.1949, 0.5345, 1.4604, 0.0046, 1.54575, 0.1192,
+  1.01925, 1.9395, 0.11, 0.29605, 2.2698, 0.2315, 2.9898, 0.51655, 0.6621
+]
+
+const FSRS_DECAY = -0.5
+const FSRS_FACTOR = Math.pow(0.9, 1 / FSRS_DECAY) - 1 // 19/81
+const MIN_STABILITY = 0.01
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  algorithm: 'fsrs',
+  desired_retention: 0.9,
+  maximum_interval_days: 365,
+  fsrs_weights: DEFAULT_FSRS_WEIGHTS
+}
+
+// ==================================================================
+// RATING
+// ==================================================================
+
+// Map the engine's continuous performance data onto the four FSRS/Anki grades
+export function ratingFromPerformance(performance: ReviewSession['performance_data']): ReviewRating {
+  const quality = performance.response_quality
+
+  if (performance.completion_status === 'failed' || performance.completion_status === 'skipped' || quality < 0.4) {
+    return 1
+  }
+  if (quality < 0.6 || (performance.hints_used > 0 && quality < 0.8)) {
+    return 2
+  }
+  if (quality >= 0.9 && performance.confidence_level >= 0.7 && performance.errors_made === 0 && performance.hints_used === 0) {
+    return 4
+  }
+  return 3
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+// ==================================================================
+// FSRS
+// ==================================================================
+
+export function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FSRS_FACTOR * Math.max(0, elapsedDays) / Math.max(stability, MIN_STABILITY), FSRS_DECAY)
+}
+
+export function fsrsInterval(stability: number, desiredRetention: number, maximumInterval: number): number {
+  const interval = (stability / FSRS_FACTOR) * (Math.pow(desiredRetention, 1 / FSRS_DECAY) - 1)
+  return clamp(Math.round(interval), 1, maximumInterval)
+}
+
+function fsrsInitialDifficulty(w: number[], rating: ReviewRating): number {
+  return clamp(w[4] - Math.exp(w[5] * (rating - 1)) + 1, 1, 10)
+}
+
+export function fsrsInitialState(w: number[], rating: ReviewRating): FSRSCardState {
+  return {
+    stability: Math.max(w[rating - 1], MIN_STABILITY),
+    difficulty: fsrsInitialDifficulty(w, rating)
+  }
+}
+
+function fsrsNextDifficulty(w: number[], difficulty: number, rating: ReviewRating): number {
+  const delta = -w[6] * (rating - 3)
+  const damped = difficulty + delta * (10 - difficulty) / 9
+  const reverted = w[7] * fsrsInitialDifficulty(w, 4) + (1 - w[7]) * damped
+  return clamp(reverted, 1, 10)
+}
+
+function fsrsRecallStability(w: number[], state: FSRSCardState, retrievability: number, rating: ReviewRating): number {
+  const hardPenalty = rating === 2 ? w[15] : 1
+  const easyBonus = rating === 4 ? w[16] : 1
+  return state.stability * (
+    Math.exp(w[8]) *
+    (11 - state.difficulty) *
+    Math.pow(state.stability, -w[9]) *
+    (Math.exp(w[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus + 1
+  )
+}
+
+function fsrsForgetStability(w: number[], state: FSRSCardState, retrievability: number): number {
+  const stability = w[11] *
+    Math.pow(state.difficulty, -w[12]) *
+    (Math.pow(state.stability + 1, w[13]) - 1) *
+    Math.exp(w[14] * (1 - retrievability))
+  return Math.min(stability, state.stability)
+}
+
+function fsrsShortTermStability(w: number[], state: FSRSCardState, rating: ReviewRating): number {
+  return state.stability * Math.exp(w[17] * (rating - 3 + w[18]))
+}
+
+// Advance a card by one review. `elapsedDays` is the time since the previous review.
+export function fsrsReview(
+  w: number[],
+  state: FSRSCardState | null,
+  elapsedDays: number,
+  rating: ReviewRating
+): FSRSCardState & { retrievability: number } {
+  if (!state) {
+    return { ...fsrsInitialState(w, rating), retrievability: 1 }
+  }
+
+  const retrievability = fsrsRetrievability(elapsedDays, state.stability)
+  let stability: number
+
+  if (elapsedDays < 1) {
+    stability = fsrsShortTermStability(w, state, rating)
+  } else if (rating === 1) {
+    stability = fsrsForgetStability(w, state, retrievability)
+  } else {
+    stability = fsrsRecallStability(w, state, retrievability, rating)
+  }
+
+  return {
+    stability: clamp(stability, MIN_STABILITY, 36500),
+    difficulty: fsrsNextDifficulty(w, state.difficulty, rating),
+    retrievability
+  }
+}
+
+// ==================================================================
+// SM-2
+// ==================================================================
+
+export function sm2Review(
+  state: SM2CardState | null,
+  rating: ReviewRating,
+  parameters: { initial_easiness: number; min_easiness: number; max_easiness: number; first_interval: number; second_interval: number }
+): SM2CardState & { quality: number } {
+  // SM-2 grades 0-5; Again/Hard/Good/Easy map to 1/3/4/5
+  const quality = [1, 3, 4, 5][rating - 1]
+  const current = state || { easiness_factor: parameters.initial_easiness, interval: 0, repetition_number: 0 }
+
+  const easiness = clamp(
+    current.easiness_factor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+    parameters.min_easiness,
+    parameters.max_easiness
+  )
+
+  if (quality < 3) {
+    return { easiness_factor: easiness, interval: parameters.first_interval, repetition_number: 0, quality }
+  }
+
+  const repetition = current.repetition_number + 1
+  const interval = repetition === 1
+    ? parameters.first_interval
+    : repetition === 2
+      ? parameters.second_interval
+      : Math.round(current.interval * easiness)
+
+  return { easiness_factor: easiness, interval, repetition_number: repetition, quality }
+}
+
+// ==================================================================
+// FSRS PARAMETER OPTIMIZATION
+// ==================================================================
+
+// Bounds keep the search inside the region where the FSRS formulas stay well-behaved
+const FSRS_WEIGHT_BOUNDS: Array<[number, number]> = [
+  [0.01, 100], [0.01, 100], [0.01, 100], [0.01, 100],
+  [1, 10], [0.001, 4], [0.001, 4], [0.001, 0.75],
+  [0, 4.5], [0, 0.8], [0.001, 3.5], [0.001, 5],
+  [0.001, 0.25], [0.001, 0.9], [0, 4], [0, 1],
+  [1, 6], [0, 2], [0, 2]
+]
+
+export const MIN_REVIEWS_FOR_OPTIMIZATION = 40
+
+interface ReviewEvent {
+  elapsedDays: number
+  rating: ReviewRating
+}
+
+function toReviewEvents(history: ReviewSession[]): ReviewEvent[] {
+  const sorted = [...history].sort((a, b) => new Date(a.session_date).getTime() - new Date(b.session_date).getTime())
+  return sorted.map((session, index) => ({
+    elapsedDays: index === 0
+      ? 0
+      : (new Date(session.session_date).getTime() - new Date(sorted[index - 1].session_date).getTime()) / DAY_MS,
+    rating: ratingFromPerformance(session.performance_data)
+  }))
+}
+
+// Mean binary cross-entropy between predicted retrievability and actual recall
+// for every review that happened at least a day after the previous one
+export function fsrsLogLoss(w: number[], histories: ReviewSession[][]): { loss: number; count: number } {
+  let total = 0
+  let count = 0
+
+  for (const history of histories) {
+    let state: FSRSCardState | null = null
+    for (const event of toReviewEvents(history)) {
+      if (state && event.elapsedDays >= 1) {
+        const predicted = clamp(fsrsRetrievability(event.elapsedDays, state.stability), 0.0001, 0.9999)
+        const recalled = event.rating > 1 ? 1 : 0
+        total += -(recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted))
+        count++
+      }
+      state = fsrsReview(w, state, event.elapsedDays, event.rating)
+    }
+  }
+
+  return { loss: count > 0 ? total / count : 0, count }
+}
+
+// Coordinate search over the FSRS weights. Deterministic and dependency-free; good enough
+// for a single learner's history, where a gradient-based trainer would overfit anyway.
+export function optimizeFSRSWeights(
+  histories: ReviewSession[][],
+  initialWeights: number[] = DEFAULT_FSRS_WEIGHTS,
+  iterations: number = 6
+): FSRSOptimizationResult {
+  const baseline = fsrsLogLoss(initialWeights, histories)
+  const result: FSRSOptimizationResult = {
+    optimized_at: new Date(),
+    review_count: baseline.count,
+    item_count: histories.length,
+    log_loss_before: baseline.loss,
+    log_loss_after: baseline.loss,
+    weights: [...initialWeights],
+    applied: false
+  }
+
+  if (baseline.count < MIN_REVIEWS_FOR_OPTIMIZATION) {
+    return result
+  }
+
+  let weights = [...initialWeights]
+  let bestLoss = baseline.loss
+  let step = 0.2
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    for (let index = 0; index < weights.length; index++) {
+      const [min, max] = FSRS_WEIGHT_BOUNDS[index]
+      for (const direction of [1, -1]) {
+        const candidate = [...weights]
+        const delta = Math.max(Math.abs(weights[index]) * step, 0.01)
+        candidate[index] = clamp(weights[index] + direction * delta, min, max)
+
+        const { loss } = fsrsLogLoss(candidate, histories)
+        if (loss < bestLoss - 1e-6) {
+          bestLoss = loss
+          weights = candidate
+          break
+        }
+      }
+    }
+    step /= 2
+  }
+
+  result.weights = weights
+  result.log_loss_after = bestLoss
+  result.applied = bestLoss < baseline.loss
+  return result
+}
@@ -12,6 +12,7 @@ import type {
 import { difficultyEngine } from './difficulty-engine'
 import { learningStyleEngine } from './learning-style-engine'
 import { multiModelAI, type UseCase } from './multi-model-ai'
+import { EngineStateStore } from './engine-repository'
 
 export interface StyleAwareDifficultyProfile {
   userId: string
@@ -131,7 +132,17 @@ export interface AdaptationPoint {
 }
 
 export class StyleAwareDifficultyEngine {
-  private styleAwareProfiles: Map<string, StyleAwareDifficultyProfile> = new Map()
+  private store = new EngineStateStore('style_aware_difficulty')
+  private styleAwareProfiles: Map<string, StyleAwareDifficultyProfile> = this.store.map('style_aware_profiles')
+
+  // Profiles combine the learner's difficulty and learning style profiles, which persist in their own engines
+  async hydrate(): Promise<void> {
+    await Promise.all([this.store.hydrate(), difficultyEngine.hydrate(), learningStyleEngine.hydrate()])
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all([this.store.flush(), difficultyEngine.flush(), learningStyleEngine.flush()])
+  }
   
   /**
    * Main method to analyze difficulty needs considering learning styles
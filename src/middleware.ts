@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { consumeRateLimit, matchRateLimitPolicy, type RateLimitResult } from '@/lib/rate-limit'
+import { resolveRequestIdentity } from '@/lib/request-identity'
+
+function rateLimitHeaders(policyId: string, result: RateLimitResult): Record<string, string> {
+  return {
+    'X-RateLimit-Policy': policyId,
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(result.resetSeconds)
+  }
+}
+
+export async function middleware(request: NextRequest) {
+  // CORS preflights carry no credentials and must not drain the caller's bucket
+  if (request.method === 'OPTIONS' || process.env.RATE_LIMIT_DISABLED === 'true') {
+    return NextResponse.next()
+  }
+
+  const policy = matchRateLimitPolicy(request.nextUrl.pathname)
+  if (!policy) {
+    return NextResponse.next()
+  }
+
+  let result: RateLimitResult
+  try {
+    const identity = await resolveRequestIdentity(request)
+    result = await consumeRateLimit(policy, identity)
+  } catch (error) {
+    // Fail open: a store outage should not take the whole API down
+    console.error('Rate limit check failed:', error)
+    return NextResponse.next()
+  }
+
+  if (!result.allowed) {
+    return NextResponse.json(
+      {
+        error: 'Too many requests',
+        policy: policy.policyId,
+        retryAfter: result.retryAfterSeconds
+      },
+      {
+        status: 429,
+        headers: {
+          ...rateLimitHeaders(policy.policyId, result),
+          'Retry-After': String(Math.max(1, result.retryAfterSeconds))
+        }
+      }
+    )
+  }
+
+  const response = NextResponse.next()
+  for (const [name, value] of Object.entries(rateLimitHeaders(policy.policyId, result))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+export const config = {
+  matcher: '/api/:path*'
+}
@@ -0,0 +1,55 @@
+// Auth fixtures for route tests: sessions for each profile role, and JSON requests to post to a route
+
+import { NextRequest } from 'next/server'
+import type { AppRole, AuthContext, ProfileRole } from '@/lib/auth-guard'
+
+const ROLES: Record<ProfileRole, AppRole[]> = {
+  student: ['learner'],
+  teacher: ['learner', 'instructor'],
+  admin: ['learner', 'instructor', 'org_admin'],
+  super_admin: ['learner', 'instructor', 'org_admin', 'moderator'],
+  parent: ['learner', 'parent'],
+  moderator: ['learner', 'moderator']
+}
+
+export function session(
+  userId: string,
+  profileRole: ProfileRole,
+  options: { organizationId?: string; childIds?: string[]; email?: string } = {}
+): AuthContext {
+  return {
+    userId,
+    email: options.email,
+    profileRole,
+    roles: ROLES[profileRole],
+    organizationId: options.organizationId,
+    childIds: options.childIds || [],
+    isPlatformAdmin: profileRole === 'super_admin'
+  }
+}
+
+export function jsonRequest(url: string, body: unknown): NextRequest {
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  })
+}
+
+// Route tests mock requireAuth and resolveAuthContext with this session: vi.mock('@/lib/auth-guard', ...withSignedInSession)
+let signedIn: AuthContext | null = null
+
+export function signIn(auth: AuthContext | null): void {
+  signedIn = auth
+}
+
+export function withSignedInSession<T extends typeof import('@/lib/auth-guard')>(actual: T): T {
+  return {
+    ...actual,
+    requireAuth: async () => {
+      if (!signedIn) throw new actual.AuthError('Authentication required', 401)
+      return signedIn
+    },
+    resolveAuthContext: async () => signedIn
+  }
+}
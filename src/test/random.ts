@@ -0,0 +1,13 @@
+// Seeded randomness for statistical tests, so simulated data and Monte Carlo checks give the same result every run
+
+// mulberry32: a small 32-bit generator, uniform on [0, 1)
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -124,6 +124,15 @@ export interface PreloadStrategy {
   prioritizeMedia: boolean             // Preload videos/images first
 }
 
+// Offline caching reaches further than render preloading so a reader who loses signal can keep going
+export const offlinePreloadStrategy: PreloadStrategy = {
+  enabled: true,
+  pagesAhead: 10,
+  pagesBehind: 2,
+  unloadThreshold: 12,
+  prioritizeMedia: true
+}
+
 // Performance metrics for optimization
 export interface PerformanceMetrics {
   pageLoadTime: number                 // milliseconds
@@ -174,6 +174,72 @@ export interface Database {
           partition_date?: string
         }
       }
+      engine_state: {
+        Row: {
+          namespace: string
+          collection: string
+          key: string
+          data: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          namespace: string
+          collection: string
+          key: string
+          data?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          namespace?: string
+          collection?: string
+          key?: string
+          data?: Json
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      engine_state_deletions: {
+        Row: {
+          namespace: string
+          collection: string
+          key: string
+          deleted_at: string
+        }
+        Insert: {
+          namespace: string
+          collection: string
+          key: string
+          deleted_at?: string
+        }
+        Update: {
+          namespace?: string
+          collection?: string
+          key?: string
+          deleted_at?: string
+        }
+      }
+      guardian_links: {
+        Row: {
+          parent_id: string
+          child_id: string
+          relationship: 'parent' | 'guardian' | 'other'
+          created_at: string
+        }
+        Insert: {
+          parent_id: string
+          child_id: string
+          relationship?: 'parent' | 'guardian' | 'other'
+          created_at?: string
+        }
+        Update: {
+          parent_id?: string
+          child_id?: string
+          relationship?: 'parent' | 'guardian' | 'other'
+          created_at?: string
+        }
+      }
       interactions: {
         Row: {
           id: string
@@ -398,7 +464,7 @@ export interface Database {
           streak_days: number
           last_active: string | null
           organization_id: string | null
-          role: 'student' | 'teacher' | 'admin' | 'super_admin'
+          role: 'student' | 'teacher' | 'admin' | 'super_admin' | 'parent' | 'moderator'
           is_verified: boolean
           is_blocked: boolean
           parental_consent: boolean
@@ -421,7 +487,7 @@ export interface Database {
           streak_days?: number
           last_active?: string | null
           organization_id?: string | null
-          role?: 'student' | 'teacher' | 'admin' | 'super_admin'
+          role?: 'student' | 'teacher' | 'admin' | 'super_admin' | 'parent' | 'moderator'
           is_verified?: boolean
           is_blocked?: boolean
           parental_consent?: boolean
@@ -444,13 +510,51 @@ export interface Database {
           streak_days?: number
           last_active?: string | null
           organization_id?: string | null
-          role?: 'student' | 'teacher' | 'admin' | 'super_admin'
+          role?: 'student' | 'teacher' | 'admin' | 'super_admin' | 'parent' | 'moderator'
           is_verified?: boolean
           is_blocked?: boolean
           parental_consent?: boolean
           shard_key?: number
         }
       }
+      search_documents: {
+        Row: {
+          source_type: string
+          source_id: string
+          title: string
+          body: string
+          metadata: Json
+          model: string
+          content_hash: string
+          embedding: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          source_type: string
+          source_id: string
+          title: string
+          body?: string
+          metadata?: Json
+          model: string
+          content_hash: string
+          embedding: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          source_type?: string
+          source_id?: string
+          title?: string
+          body?: string
+          metadata?: Json
+          model?: string
+          content_hash?: string
+          embedding?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
       user_progress: {
         Row: {
           id: string
@@ -640,6 +744,22 @@ export interface Database {
         }
         Returns: number
       }
+      bm25_search_documents: {
+        Args: {
+          query_text: string
+          source_types?: string[] | null
+          source_ids?: string[] | null
+          metadata_filter?: Json
+          match_count?: number
+        }
+        Returns: {
+          source_type: string
+          source_id: string
+          title: string
+          metadata: Json
+          score: number
+        }[]
+      }
       check_child_protection: {
         Args: {
           target_user_id: string
@@ -690,6 +810,23 @@ export interface Database {
         }
         Returns: Json
       }
+      match_search_documents: {
+        Args: {
+          query_embedding: string
+          embedding_model: string
+          source_types?: string[] | null
+          source_ids?: string[] | null
+          metadata_filter?: Json
+          match_count?: number
+        }
+        Returns: {
+          source_type: string
+          source_id: string
+          title: string
+          metadata: Json
+          similarity: number
+        }[]
+      }
       refresh_analytics_views: {
         Args: Record<PropertyKey, never>
         Returns: string
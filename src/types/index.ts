@@ -18,6 +18,7 @@ export interface UserProfile {
   level?: 'beginner' | 'intermediate' | 'advanced'
   age_group?: 'child' | 'teen' | 'adult'
   use_case?: 'tutor' | 'student' | 'college' | 'work' | 'personal' | 'lifelong'
+  organization_id?: string
   created_at: string
   updated_at?: string
   onboarding_completed?: boolean
@@ -54,6 +55,11 @@ export interface ContentItem {
     hasAudio?: boolean
     interactiveElements?: boolean
     detailedText?: boolean
+    // The AI generation the item shows, as requested from /api/ai/generate-content or generate-quiz
+    generation?: {
+      kind: 'content' | 'quiz'
+      request: Record<string, unknown>
+    }
     [key: string]: unknown
   }
   created_at: string
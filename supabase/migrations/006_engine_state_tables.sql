@@ -0,0 +1,31 @@
+-- Engine State Persistence Migration
+-- Durable storage for the in-process engines (spaced repetition, mastery, community, curriculum, corporate training)
+
+-- Engine State Table (one row per record of an engine collection)
+CREATE TABLE IF NOT EXISTS public.engine_state (
+    namespace TEXT NOT NULL, -- engine, e.g. 'spaced_repetition'
+    collection TEXT NOT NULL, -- engine collection, e.g. 'memory_states'
+    key TEXT NOT NULL, -- record key inside the collection
+    data JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (namespace, collection, key)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_engine_state_collection ON public.engine_state(namespace, collection);
+CREATE INDEX IF NOT EXISTS idx_engine_state_updated ON public.engine_state(updated_at DESC);
+
+-- Keep updated_at current on upserts
+DROP TRIGGER IF EXISTS update_engine_state_updated_at ON public.engine_state;
+CREATE TRIGGER update_engine_state_updated_at
+    BEFORE UPDATE ON public.engine_state
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE public.engine_state ENABLE ROW LEVEL SECURITY;
+
+-- Engines write through the service role only, end users never touch this table directly
+CREATE POLICY "Service role manages engine state" ON public.engine_state
+    FOR ALL USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
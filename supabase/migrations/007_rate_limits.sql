@@ -0,0 +1,64 @@
+-- API Rate Limiting Migration
+-- Token buckets shared by every app instance when the middleware runs with RATE_LIMIT_STORE=postgres
+
+-- Rate Limit Buckets Table (one row per identity and policy)
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+    key TEXT PRIMARY KEY, -- e.g. 'ai:user:<uuid>', 'default:ip:203.0.113.7'
+    tokens DOUBLE PRECISION NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Idle buckets are full again and can be dropped by a periodic cleanup
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated ON public.rate_limit_buckets(updated_at);
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages rate limit buckets" ON public.rate_limit_buckets
+    FOR ALL USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Refill a bucket for the elapsed time and take `cost` tokens if available.
+-- The row lock makes concurrent requests for the same key consume tokens one at a time.
+CREATE OR REPLACE FUNCTION take_rate_limit_token(
+    bucket_key TEXT,
+    capacity DOUBLE PRECISION,
+    refill_per_second DOUBLE PRECISION,
+    cost DOUBLE PRECISION DEFAULT 1
+)
+RETURNS TABLE (allowed BOOLEAN, remaining DOUBLE PRECISION, retry_after_seconds DOUBLE PRECISION) AS $$
+DECLARE
+    current_tokens DOUBLE PRECISION;
+    last_refill TIMESTAMPTZ;
+    now_ts TIMESTAMPTZ := clock_timestamp();
+BEGIN
+    INSERT INTO public.rate_limit_buckets (key, tokens, updated_at)
+    VALUES (bucket_key, capacity, now_ts)
+    ON CONFLICT (key) DO NOTHING;
+
+    SELECT b.tokens, b.updated_at INTO current_tokens, last_refill
+    FROM public.rate_limit_buckets b
+    WHERE b.key = bucket_key
+    FOR UPDATE;
+
+    current_tokens := LEAST(capacity, current_tokens + EXTRACT(EPOCH FROM (now_ts - last_refill)) * refill_per_second);
+
+    IF current_tokens >= cost THEN
+        current_tokens := current_tokens - cost;
+        allowed := TRUE;
+        retry_after_seconds := 0;
+    ELSE
+        allowed := FALSE;
+        retry_after_seconds := (cost - current_tokens) / refill_per_second;
+    END IF;
+
+    UPDATE public.rate_limit_buckets SET tokens = current_tokens, updated_at = now_ts
+    WHERE key = bucket_key;
+
+    remaining := current_tokens;
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the service role (used by the middleware) may take tokens
+REVOKE EXECUTE ON FUNCTION take_rate_limit_token(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
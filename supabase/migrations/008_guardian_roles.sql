@@ -0,0 +1,57 @@
+-- Parent and Moderator Roles Migration
+-- Adds the roles the API auth guard maps sessions to, and links parents to the learners they supervise
+
+-- ==================================================================
+-- PROFILE ROLES
+-- ==================================================================
+
+ALTER TABLE public.profiles DROP CONSTRAINT IF EXISTS profiles_role_check;
+ALTER TABLE public.profiles ADD CONSTRAINT profiles_role_check
+    CHECK (role IN ('student', 'teacher', 'admin', 'super_admin', 'parent', 'moderator'));
+
+-- ==================================================================
+-- GUARDIAN LINKS TABLE
+-- ==================================================================
+
+CREATE TABLE IF NOT EXISTS public.guardian_links (
+    parent_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    child_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+    relationship TEXT DEFAULT 'parent' CHECK (relationship IN ('parent', 'guardian', 'other')),
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (parent_id, child_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_guardian_links_child ON public.guardian_links(child_id);
+
+ALTER TABLE public.guardian_links ENABLE ROW LEVEL SECURITY;
+
+-- Parents and children can see their own links
+CREATE POLICY "Users can view own guardian links" ON public.guardian_links
+    FOR SELECT USING (parent_id = auth.uid() OR child_id = auth.uid());
+
+-- Links are created by org admins or the service role (e.g. after consent verification)
+CREATE POLICY "Org admins can manage org guardian links" ON public.guardian_links
+    FOR ALL USING (
+        auth.role() = 'service_role' OR
+        child_id IN (
+            SELECT prof.id FROM public.profiles prof
+            JOIN public.profiles p ON p.organization_id = prof.organization_id
+            WHERE p.id = auth.uid() AND p.role IN ('admin', 'super_admin')
+        )
+    );
+
+-- ==================================================================
+-- PARENT ACCESS POLICIES
+-- ==================================================================
+
+-- Parents can view their children's profiles
+CREATE POLICY "Parents can view linked child profiles" ON public.profiles
+    FOR SELECT USING (
+        id IN (SELECT g.child_id FROM public.guardian_links g WHERE g.parent_id = auth.uid())
+    );
+
+-- Parents can view their children's progress
+CREATE POLICY "Parents can view linked child progress" ON public.user_progress
+    FOR SELECT USING (
+        user_id IN (SELECT g.child_id FROM public.guardian_links g WHERE g.parent_id = auth.uid())
+    );
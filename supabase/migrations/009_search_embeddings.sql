@@ -0,0 +1,134 @@
+-- Semantic Search Migration
+-- pgvector embeddings for content, syntheses and knowledge-graph concepts, searched by BM25 and cosine similarity
+
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- Search Documents Table (one row per indexed item)
+CREATE TABLE IF NOT EXISTS public.search_documents (
+    source_type TEXT NOT NULL CHECK (source_type IN ('content', 'synthesis', 'concept')),
+    source_id TEXT NOT NULL, -- content id, synthesis_id or concept id
+    title TEXT NOT NULL,
+    body TEXT NOT NULL DEFAULT '',
+    metadata JSONB NOT NULL DEFAULT '{}', -- filterable fields, e.g. subject, content_type, difficulty_level
+    model TEXT NOT NULL, -- embedding model; vectors from different models are never compared
+    content_hash TEXT NOT NULL, -- lets the indexer skip documents that have not changed
+    embedding VECTOR(512) NOT NULL,
+    -- Title counted twice so title matches outrank body matches
+    search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('english', title || ' ' || title || ' ' || body)
+    ) STORED,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (source_type, source_id)
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_search_documents_embedding ON public.search_documents
+    USING hnsw (embedding vector_cosine_ops);
+CREATE INDEX IF NOT EXISTS idx_search_documents_search_vector ON public.search_documents USING gin(search_vector);
+CREATE INDEX IF NOT EXISTS idx_search_documents_metadata ON public.search_documents USING gin(metadata jsonb_path_ops);
+CREATE INDEX IF NOT EXISTS idx_search_documents_model ON public.search_documents(source_type, model);
+
+-- Keep updated_at current on upserts
+DROP TRIGGER IF EXISTS update_search_documents_updated_at ON public.search_documents;
+CREATE TRIGGER update_search_documents_updated_at
+    BEFORE UPDATE ON public.search_documents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE public.search_documents ENABLE ROW LEVEL SECURITY;
+
+-- The search API reads and writes through the service role; end users never touch this table directly
+CREATE POLICY "Service role manages search documents" ON public.search_documents
+    FOR ALL USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
+
+-- Nearest neighbours by cosine similarity among documents embedded with the same model
+CREATE OR REPLACE FUNCTION match_search_documents(
+    query_embedding VECTOR(512),
+    embedding_model TEXT,
+    source_types TEXT[] DEFAULT NULL,
+    source_ids TEXT[] DEFAULT NULL,
+    metadata_filter JSONB DEFAULT '{}',
+    match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (source_type TEXT, source_id TEXT, title TEXT, metadata JSONB, similarity DOUBLE PRECISION) AS $$
+    SELECT
+        d.source_type,
+        d.source_id,
+        d.title,
+        d.metadata,
+        1 - (d.embedding <=> query_embedding) AS similarity
+    FROM public.search_documents d
+    WHERE d.model = embedding_model
+    AND (source_types IS NULL OR d.source_type = ANY(source_types))
+    AND (source_ids IS NULL OR d.source_id = ANY(source_ids))
+    AND d.metadata @> metadata_filter
+    ORDER BY d.embedding <=> query_embedding
+    LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Okapi BM25 (k1 = 1.2, b = 0.75) over the generated search vector. Term frequencies come from
+-- lexeme positions, document length is the number of distinct lexemes, and the corpus for
+-- document frequencies is the filtered set of documents.
+CREATE OR REPLACE FUNCTION bm25_search_documents(
+    query_text TEXT,
+    source_types TEXT[] DEFAULT NULL,
+    source_ids TEXT[] DEFAULT NULL,
+    metadata_filter JSONB DEFAULT '{}',
+    match_count INTEGER DEFAULT 20
+)
+RETURNS TABLE (source_type TEXT, source_id TEXT, title TEXT, metadata JSONB, score DOUBLE PRECISION) AS $$
+    WITH candidates AS (
+        SELECT d.source_type, d.source_id, d.title, d.metadata, d.search_vector
+        FROM public.search_documents d
+        WHERE (source_types IS NULL OR d.source_type = ANY(source_types))
+        AND (source_ids IS NULL OR d.source_id = ANY(source_ids))
+        AND d.metadata @> metadata_filter
+    ),
+    corpus AS (
+        SELECT
+            COUNT(*)::DOUBLE PRECISION AS total,
+            GREATEST(COALESCE(AVG(length(search_vector)), 1), 1)::DOUBLE PRECISION AS average_length
+        FROM candidates
+    ),
+    terms AS (
+        SELECT DISTINCT unnest(tsvector_to_array(to_tsvector('english', query_text))) AS term
+    ),
+    parsed_query AS (
+        SELECT to_tsquery('simple', string_agg(quote_literal(term), ' | ')) AS tsquery FROM terms
+    ),
+    matches AS (
+        SELECT c.source_type, c.source_id, c.title, c.metadata,
+            length(c.search_vector)::DOUBLE PRECISION AS document_length,
+            lexeme.lexeme AS term,
+            cardinality(lexeme.positions)::DOUBLE PRECISION AS frequency
+        FROM candidates c
+        CROSS JOIN parsed_query q
+        CROSS JOIN LATERAL unnest(c.search_vector) AS lexeme
+        WHERE c.search_vector @@ q.tsquery
+        AND lexeme.lexeme IN (SELECT term FROM terms)
+    ),
+    document_frequencies AS (
+        SELECT term, COUNT(*)::DOUBLE PRECISION AS documents FROM matches GROUP BY term
+    )
+    SELECT m.source_type, m.source_id, m.title, m.metadata,
+        SUM(
+            ln(1 + (corpus.total - f.documents + 0.5) / (f.documents + 0.5)) *
+            m.frequency * 2.2 / (m.frequency + 1.2 * (0.25 + 0.75 * m.document_length / corpus.average_length))
+        ) AS score
+    FROM matches m
+    JOIN document_frequencies f ON f.term = m.term
+    CROSS JOIN corpus
+    GROUP BY m.source_type, m.source_id, m.title, m.metadata
+    ORDER BY score DESC
+    LIMIT match_count;
+$$ LANGUAGE sql STABLE;
+
+-- Only the service role (used by the search API) may query the index
+REVOKE EXECUTE ON FUNCTION match_search_documents(VECTOR, TEXT, TEXT[], TEXT[], JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION bm25_search_documents(TEXT, TEXT[], TEXT[], JSONB, INTEGER) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.search_documents IS 'Embeddings and full-text vectors for hybrid search over content, syntheses and knowledge-graph concepts';
+COMMENT ON FUNCTION match_search_documents(VECTOR, TEXT, TEXT[], TEXT[], JSONB, INTEGER) IS 'Cosine nearest neighbours by pgvector HNSW index';
+COMMENT ON FUNCTION bm25_search_documents(TEXT, TEXT[], TEXT[], JSONB, INTEGER) IS 'Okapi BM25 keyword ranking over search_documents';
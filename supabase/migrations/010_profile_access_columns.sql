@@ -0,0 +1,33 @@
+-- Profile Access Columns Migration
+-- profiles.role and profiles.organization_id decide what the API auth guard lets a session do, but the
+-- "Users can update own profile" and "Users can insert own profile" policies in 002 cover whole rows.
+-- This trigger keeps both columns out of users' hands: only the service role and super admins set them.
+
+CREATE OR REPLACE FUNCTION protect_profile_access_columns()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- No session (migrations, the SQL editor), server-side provisioning, or a super admin
+    IF auth.uid() IS NULL OR auth.role() = 'service_role' OR EXISTS (
+        SELECT 1 FROM public.profiles p WHERE p.id = auth.uid() AND p.role = 'super_admin'
+    ) THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' THEN
+        -- Self-registration always starts as a student outside any organization
+        NEW.role := 'student';
+        NEW.organization_id := NULL;
+    ELSIF NEW.role IS DISTINCT FROM OLD.role OR NEW.organization_id IS DISTINCT FROM OLD.organization_id THEN
+        RAISE EXCEPTION 'profiles.role and profiles.organization_id can only be changed by an administrator'
+            USING ERRCODE = '42501';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_access_columns ON public.profiles;
+CREATE TRIGGER protect_profile_access_columns BEFORE INSERT OR UPDATE ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION protect_profile_access_columns();
+
+COMMENT ON FUNCTION protect_profile_access_columns() IS 'Access control: users cannot assign themselves a role or an organization';
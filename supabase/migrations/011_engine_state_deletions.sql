@@ -0,0 +1,47 @@
+-- Engine State Deletions Migration
+-- Server instances refresh engine state with the rows updated since their last sync, which cannot show
+-- rows that were deleted. Every delete from engine_state leaves a tombstone here so the same refresh
+-- picks up deletions too. Tombstones are kept for a day; an instance idle for longer reloads in full.
+
+CREATE TABLE IF NOT EXISTS public.engine_state_deletions (
+    namespace TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (namespace, collection, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_engine_state_deletions_deleted ON public.engine_state_deletions(namespace, deleted_at DESC);
+
+CREATE OR REPLACE FUNCTION record_engine_state_deletion()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.engine_state_deletions (namespace, collection, key, deleted_at)
+    VALUES (OLD.namespace, OLD.collection, OLD.key, NOW())
+    ON CONFLICT (namespace, collection, key) DO UPDATE SET deleted_at = EXCLUDED.deleted_at;
+    RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION prune_engine_state_deletions()
+RETURNS TRIGGER AS $$
+BEGIN
+    DELETE FROM public.engine_state_deletions WHERE deleted_at < NOW() - INTERVAL '1 day';
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_engine_state_deletion ON public.engine_state;
+CREATE TRIGGER record_engine_state_deletion AFTER DELETE ON public.engine_state
+    FOR EACH ROW EXECUTE FUNCTION record_engine_state_deletion();
+
+DROP TRIGGER IF EXISTS prune_engine_state_deletions ON public.engine_state;
+CREATE TRIGGER prune_engine_state_deletions AFTER DELETE ON public.engine_state
+    FOR EACH STATEMENT EXECUTE FUNCTION prune_engine_state_deletions();
+
+-- Row Level Security (RLS) Policies
+ALTER TABLE public.engine_state_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Service role manages engine state deletions" ON public.engine_state_deletions
+    FOR ALL USING (auth.role() = 'service_role')
+    WITH CHECK (auth.role() = 'service_role');
@@ -0,0 +1,20 @@
+import { defineConfig } from 'vitest/config'
+import path from 'path'
+
+// Engines, search and notifications keep their state in memory and AI calls go to the stub provider under test
+export default defineConfig({
+  resolve: {
+    alias: { '@': path.resolve(__dirname, 'src') }
+  },
+  test: {
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+    env: {
+      ENGINE_PERSISTENCE: 'memory',
+      SEARCH_INDEX: 'memory',
+      NOTIFICATION_INBOX: 'memory',
+      AI_PROVIDER: 'stub',
+      EMBEDDING_PROVIDER: 'hashing'
+    }
+  }
+})